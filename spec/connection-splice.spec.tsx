@@ -0,0 +1,152 @@
+/**
+ * @file Integration test for splicing a dragged node into a connection and Alt-dragging it back out.
+ */
+import * as React from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+import { NodeEditorCore } from "../src/NodeEditorCore";
+import { NodeCanvas } from "../src/components/canvas/NodeCanvas";
+import { useNodeEditorApi } from "../src/contexts/composed/node-editor/context";
+import { StandardNodeDefinition } from "../src/node-definitions/standard";
+import { asNodeDefinition } from "../src/types/NodeDefinition";
+import type { Connection, Node, NodeEditorData } from "../src/types/core";
+
+const ensurePointerCaptureApis = () => {
+  const proto = HTMLElement.prototype as unknown as {
+    setPointerCapture?: (pointerId: number) => void;
+    releasePointerCapture?: (pointerId: number) => void;
+  };
+  if (!proto.setPointerCapture) {
+    Object.defineProperty(HTMLElement.prototype, "setPointerCapture", { value: () => undefined, configurable: true });
+  }
+  if (!proto.releasePointerCapture) {
+    Object.defineProperty(HTMLElement.prototype, "releasePointerCapture", {
+      value: () => undefined,
+      configurable: true,
+    });
+  }
+};
+
+const nextFrame = async () => {
+  await act(async () => {
+    await new Promise<void>((resolve) => window.requestAnimationFrame(() => resolve()));
+  });
+};
+
+const standardNode = (id: string, x: number, y: number): Node => ({
+  id,
+  type: "standard",
+  position: { x, y },
+  size: { width: 100, height: 50 },
+  data: { title: id },
+});
+
+const link = (id: string, from: string, to: string): Connection => ({
+  id,
+  fromNodeId: from,
+  fromPortId: "output",
+  toNodeId: to,
+  toPortId: "input",
+});
+
+const endpoints = (data: NodeEditorData) =>
+  Object.values(data.connections)
+    .map(
+      (connection) =>
+        `${connection.fromNodeId}.${connection.fromPortId}->${connection.toNodeId}.${connection.toPortId}`,
+    )
+    .sort();
+
+const renderEditor = (initialData: NodeEditorData) => {
+  const apiRef: { current: ReturnType<typeof useNodeEditorApi> | null } = { current: null };
+  const ApiProbe: React.FC = () => {
+    apiRef.current = useNodeEditorApi();
+    return null;
+  };
+  const result = render(
+    <NodeEditorCore initialData={initialData} nodeDefinitions={[asNodeDefinition(StandardNodeDefinition)]}>
+      <NodeCanvas />
+      <ApiProbe />
+    </NodeEditorCore>,
+  );
+  return { ...result, getState: () => apiRef.current!.getState() };
+};
+
+const dragNode = async (
+  container: HTMLElement,
+  nodeId: string,
+  delta: { x: number; y: number },
+  options: { altKey?: boolean; beforeDrop?: () => void } = {},
+) => {
+  const nodeEl = container.querySelector(`[data-node-layer] [data-node-id="${nodeId}"]`) as HTMLElement;
+  const pointer = { pointerId: 1, pointerType: "mouse", altKey: options.altKey ?? false };
+  await act(async () => {
+    fireEvent.pointerDown(nodeEl, { ...pointer, button: 0, buttons: 1, clientX: 10, clientY: 10 });
+  });
+  await nextFrame();
+  await act(async () => {
+    fireEvent.pointerMove(window, { ...pointer, buttons: 1, clientX: 10 + delta.x, clientY: 10 + delta.y });
+    await new Promise<void>((resolve) => window.requestAnimationFrame(() => resolve()));
+  });
+  options.beforeDrop?.();
+  await act(async () => {
+    fireEvent.pointerUp(window, { ...pointer, button: 0, buttons: 0, clientX: 10 + delta.x, clientY: 10 + delta.y });
+  });
+};
+
+describe("connection splicing", () => {
+  beforeAll(() => {
+    ensurePointerCaptureApis();
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("highlights the wire under the dragged node and splits it through the node on drop", async () => {
+    const { container, getState } = renderEditor({
+      nodes: { a: standardNode("a", 0, 0), b: standardNode("b", 600, 0), c: standardNode("c", 300, 300) },
+      connections: { ab: link("ab", "a", "b") },
+    });
+    await nextFrame();
+
+    await dragNode(
+      container,
+      "c",
+      { x: 0, y: -300 },
+      {
+        beforeDrop: () => {
+          expect(container.querySelector('[data-connection-id="ab"]')?.getAttribute("data-splice-target")).toBe("true");
+        },
+      },
+    );
+
+    expect(getState().connections.ab).toBeUndefined();
+    expect(endpoints(getState())).toEqual(["a.output->c.input", "c.output->b.input"]);
+    expect(container.querySelector("[data-splice-target]")).toBeNull();
+  });
+
+  it("leaves connections alone when the node is dropped away from any wire", async () => {
+    const { container, getState } = renderEditor({
+      nodes: { a: standardNode("a", 0, 0), b: standardNode("b", 600, 0), c: standardNode("c", 300, 300) },
+      connections: { ab: link("ab", "a", "b") },
+    });
+    await nextFrame();
+
+    await dragNode(container, "c", { x: 0, y: 100 });
+
+    expect(endpoints(getState())).toEqual(["a.output->b.input"]);
+  });
+
+  it("detaches an Alt-dragged node and heals the chain around it", async () => {
+    const { container, getState } = renderEditor({
+      nodes: { a: standardNode("a", 0, 0), b: standardNode("b", 600, 0), c: standardNode("c", 300, 0) },
+      connections: { ac: link("ac", "a", "c"), cb: link("cb", "c", "b") },
+    });
+    await nextFrame();
+
+    await dragNode(container, "c", { x: 0, y: 300 }, { altKey: true });
+
+    expect(getState().nodes.c.position).toEqual({ x: 300, y: 300 });
+    expect(endpoints(getState())).toEqual(["a.output->b.input"]);
+  });
+});
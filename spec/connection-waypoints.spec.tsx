@@ -0,0 +1,86 @@
+/**
+ * @file Integration test for adding, moving and removing connection waypoints.
+ */
+import * as React from "react";
+import { fireEvent, render } from "@testing-library/react";
+import { NodeEditor } from "../src/NodeEditor";
+import { StandardNodeDefinition } from "../src/node-definitions/standard";
+import { asNodeDefinition } from "../src/types/NodeDefinition";
+import type { NodeEditorData } from "../src/types/core";
+
+const initialData: NodeEditorData = {
+  nodes: {
+    a: { id: "a", type: "standard", position: { x: 100, y: 100 }, data: { title: "A" } },
+    b: { id: "b", type: "standard", position: { x: 500, y: 100 }, data: { title: "B" } },
+  },
+  connections: {
+    c1: { id: "c1", fromNodeId: "a", fromPortId: "output", toNodeId: "b", toPortId: "input" },
+  },
+};
+
+const renderEditor = (data: NodeEditorData, onDataChange: (data: NodeEditorData) => void) =>
+  render(
+    <NodeEditor
+      initialData={data}
+      nodeDefinitions={[asNodeDefinition(StandardNodeDefinition)]}
+      includeDefaultDefinitions={false}
+      onDataChange={onDataChange}
+    />,
+  );
+
+const getPath = (container: HTMLElement) =>
+  container.querySelector('[data-connection-id="c1"] path:not([data-presence-user-id])')!;
+
+const getHandles = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll('[data-connection-id="c1"] [data-waypoint-index]'));
+
+describe("connection waypoints", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("adds a waypoint where the path is Alt+double-clicked", () => {
+    const changes: NodeEditorData[] = [];
+    const { container } = renderEditor(initialData, (data) => changes.push(data));
+
+    fireEvent.doubleClick(getPath(container), { clientX: 320, clientY: 240, altKey: true });
+
+    expect(changes.at(-1)?.connections.c1.waypoints).toHaveLength(1);
+    expect(getPath(container).getAttribute("d")).toMatch(/C .* C /);
+  });
+
+  it("leaves plain double-click to label editing", () => {
+    const changes: NodeEditorData[] = [];
+    const { container } = renderEditor(initialData, (data) => changes.push(data));
+
+    fireEvent.doubleClick(getPath(container), { clientX: 320, clientY: 240 });
+
+    expect(changes.some((data) => data.connections.c1.waypoints?.length)).toBe(false);
+    expect(container.querySelector('input[aria-label="Connection label"]')).not.toBeNull();
+  });
+
+  it("drags a selected waypoint handle and removes it on double-click", () => {
+    const changes: NodeEditorData[] = [];
+    const data: NodeEditorData = {
+      ...initialData,
+      connections: { c1: { ...initialData.connections.c1, waypoints: [{ x: 320, y: 240 }] } },
+    };
+    const { container } = renderEditor(data, (next) => changes.push(next));
+    expect(getHandles(container)).toHaveLength(0);
+
+    fireEvent.pointerDown(getPath(container), { button: 0, pointerType: "mouse" });
+    expect(getHandles(container)).toHaveLength(1);
+
+    const handle = getHandles(container)[0]!;
+    fireEvent.pointerDown(handle, { button: 0, clientX: 320, clientY: 240 });
+    fireEvent.pointerMove(document, { clientX: 360, clientY: 300 });
+    fireEvent.pointerUp(document);
+    const [moved] = changes.at(-1)?.connections.c1.waypoints ?? [];
+    expect(moved?.x).toBeGreaterThan(320);
+    expect(moved?.y).toBeGreaterThan(240);
+
+    fireEvent.doubleClick(getHandles(container)[0]!);
+    expect(changes.at(-1)?.connections.c1.waypoints).toBeUndefined();
+    expect(getHandles(container)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * @file Integration test for context menu items contributed by node definitions, the editor and the registry.
+ */
+import * as React from "react";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { NodeEditorCore } from "../src/NodeEditorCore";
+import { ContextActionMenu } from "../src/components/menus/ContextActionMenu";
+import { NodeActionsList } from "../src/components/menus/NodeActionsList";
+import { StandardNodeDefinition } from "../src/node-definitions/standard";
+import { asNodeDefinition, type NodeDefinition } from "../src/types/NodeDefinition";
+import { useContextMenuRegistry } from "../src/contexts/context-menu/context";
+import { useNodeEditor } from "../src/contexts/composed/node-editor/context";
+import type { ContextMenuActionContext, ContextMenuContribution, ContextTarget } from "../src/types/contextMenu";
+import type { NodeEditorData } from "../src/types/core";
+
+const initialData: NodeEditorData = {
+  nodes: {
+    a: { id: "a", type: "script", position: { x: 0, y: 0 }, data: { title: "A" } },
+    b: { id: "b", type: "standard", position: { x: 300, y: 0 }, data: { title: "B" } },
+  },
+  connections: {
+    ab: { id: "ab", fromNodeId: "a", fromPortId: "output", toNodeId: "b", toPortId: "input" },
+  },
+};
+
+// The menu overlay re-positions itself on resize; jsdom has no ResizeObserver
+class InertResizeObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+const queryMenuItem = (label: string) => screen.queryByText(label, { selector: "li, li *" });
+
+type HarnessProps = {
+  target: ContextTarget;
+  onSelect: (context: ContextMenuActionContext) => void;
+  contextMenuItems?: ContextMenuContribution[];
+  registered?: ContextMenuContribution;
+};
+
+const Registration: React.FC<{ contribution: ContextMenuContribution }> = ({ contribution }) => {
+  const registry = useContextMenuRegistry();
+  React.useEffect(() => registry.register(contribution), [registry, contribution]);
+  return null;
+};
+
+const TitleProbe: React.FC = () => {
+  const { state } = useNodeEditor();
+  return <output data-testid="title">{String(state.nodes.a?.data.title)}</output>;
+};
+
+const renderMenu = ({ target, onSelect, contextMenuItems, registered }: HarnessProps) => {
+  const scriptDefinition: NodeDefinition = {
+    ...asNodeDefinition(StandardNodeDefinition),
+    type: "script",
+    displayName: "Script",
+    contextMenuItems: [
+      { type: "separator", id: "script-separator" },
+      {
+        id: "run",
+        label: "Run from here",
+        shortcutHint: "F5",
+        onSelect: (context) => {
+          onSelect(context);
+          context.actions.updateNode(context.target.type === "node" ? context.target.id : "", {
+            data: { title: "ran" },
+          });
+        },
+      },
+      { id: "open-source", label: "Open source", isEnabled: () => false, onSelect },
+      {
+        id: "export",
+        label: "Export",
+        items: [
+          { id: "export-json", label: "As JSON", onSelect },
+          { id: "export-hidden", label: "As XML", isVisible: () => false },
+        ],
+      },
+    ],
+  };
+  const closed: number[] = [];
+  const onClose = () => closed.push(closed.length);
+  const result = render(
+    <NodeEditorCore
+      initialData={initialData}
+      nodeDefinitions={[asNodeDefinition(StandardNodeDefinition), scriptDefinition]}
+      contextMenuItems={contextMenuItems}
+    >
+      {registered && <Registration contribution={registered} />}
+      <TitleProbe />
+      <ContextActionMenu position={{ x: 10, y: 10 }} target={target} visible onClose={onClose} />
+    </NodeEditorCore>,
+  );
+  return { ...result, closed };
+};
+
+describe("context menu contributions", () => {
+  const previousResizeObserver = globalThis.ResizeObserver;
+
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.ResizeObserver = InertResizeObserver as unknown as typeof ResizeObserver;
+  });
+
+  afterEach(() => {
+    globalThis.ResizeObserver = previousResizeObserver;
+  });
+
+  it("shows node definition items for nodes of that type and runs them with the action context", () => {
+    const selected: ContextMenuActionContext[] = [];
+    const { closed } = renderMenu({ target: { type: "node", id: "a" }, onSelect: (context) => selected.push(context) });
+
+    act(() => {
+      fireEvent.click(queryMenuItem("Run from here")!);
+    });
+
+    expect(selected).toHaveLength(1);
+    expect(selected[0]!.node?.id).toBe("a");
+    expect(screen.getByTestId("title").textContent).toBe("ran");
+    expect(closed).toHaveLength(1);
+    expect(screen.getByText("F5")).not.toBeNull();
+  });
+
+  it("renders disabled items without running them and opens submenus with visible entries only", () => {
+    const selected: ContextMenuActionContext[] = [];
+    const { closed } = renderMenu({ target: { type: "node", id: "a" }, onSelect: (context) => selected.push(context) });
+
+    const disabled = queryMenuItem("Open source")!.closest("li")!;
+    expect(disabled.getAttribute("aria-disabled")).toBe("true");
+    fireEvent.click(disabled);
+    expect(selected).toHaveLength(0);
+    expect(closed).toHaveLength(0);
+
+    const trigger = screen.getByRole("menuitem", { name: "Export" });
+    expect(trigger.getAttribute("aria-expanded")).toBe("false");
+    fireEvent.click(trigger);
+    expect(trigger.getAttribute("aria-expanded")).toBe("true");
+    expect(queryMenuItem("As XML")).toBeNull();
+
+    fireEvent.click(queryMenuItem("As JSON")!);
+    expect(selected).toHaveLength(1);
+    expect(closed).toHaveLength(1);
+  });
+
+  it("renders node contributions in a standalone NodeActionsList", () => {
+    const actions: number[] = [];
+    render(
+      <NodeEditorCore
+        initialData={initialData}
+        nodeDefinitions={[asNodeDefinition(StandardNodeDefinition)]}
+        contextMenuItems={[{ target: "node", items: [{ id: "inspect", label: "Inspect" }] }]}
+      >
+        <ul>
+          <NodeActionsList targetNodeId="b" onAction={() => actions.push(actions.length)} />
+        </ul>
+      </NodeEditorCore>,
+    );
+
+    act(() => {
+      fireEvent.click(queryMenuItem("Inspect")!);
+    });
+
+    expect(actions).toHaveLength(1);
+  });
+
+  it("keeps node definition items off other node types", () => {
+    renderMenu({ target: { type: "node", id: "b" }, onSelect: () => {} });
+    expect(queryMenuItem("Run from here")).toBeNull();
+  });
+
+  it("adds editor and registered contributions to connection and canvas menus", () => {
+    const selected: ContextMenuActionContext[] = [];
+    const onSelect = (context: ContextMenuActionContext) => selected.push(context);
+    const contextMenuItems: ContextMenuContribution[] = [
+      { target: "connection", items: [{ id: "inspect-wire", label: "Inspect wire", onSelect }] },
+    ];
+    const registered: ContextMenuContribution = {
+      target: ["connection", "canvas"],
+      items: [{ id: "annotate", label: "Annotate", order: -1 }],
+    };
+    const { unmount } = renderMenu({
+      target: { type: "connection", id: "ab" },
+      onSelect,
+      contextMenuItems,
+      registered,
+    });
+
+    const labels = Array.from(document.querySelectorAll("li")).map((item) => item.textContent);
+    expect(labels.indexOf("Annotate")).toBeLessThan(labels.indexOf("Inspect wire"));
+    fireEvent.click(queryMenuItem("Inspect wire")!);
+    expect(selected[0]!.connection?.id).toBe("ab");
+    unmount();
+
+    renderMenu({ target: { type: "canvas" }, onSelect, contextMenuItems, registered });
+    expect(queryMenuItem("Annotate")).not.toBeNull();
+    expect(queryMenuItem("Inspect wire")).toBeNull();
+  });
+});
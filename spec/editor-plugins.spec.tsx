@@ -0,0 +1,178 @@
+/**
+ * @file Integration test for node editor plugins: contributions, lifecycle, settings gating and action middleware.
+ */
+import * as React from "react";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { NodeEditor } from "../src/NodeEditor";
+import { NodeEditorCore } from "../src/NodeEditorCore";
+import { StandardNodeDefinition } from "../src/node-definitions/standard";
+import { asNodeDefinition, type NodeDefinition } from "../src/types/NodeDefinition";
+import { SettingsManager } from "../src/settings/SettingsManager";
+import { useNodeEditor } from "../src/contexts/composed/node-editor/context";
+import { useNodeDefinitionList } from "../src/contexts/node-definitions/hooks/useNodeDefinitionList";
+import { useContextMenuEntries } from "../src/contexts/context-menu/context";
+import type { NodeEditorPlugin } from "../src/types/plugin";
+import type { NodeEditorData } from "../src/types/core";
+
+const initialData: NodeEditorData = {
+  nodes: {
+    a: { id: "a", type: "standard", position: { x: 0, y: 0 }, data: { title: "A" } },
+  },
+  connections: {},
+};
+
+const standardDefinition = asNodeDefinition(StandardNodeDefinition);
+const timerDefinition: NodeDefinition = { ...standardDefinition, type: "timer", displayName: "Timer" };
+
+type Probe = {
+  state: NodeEditorData;
+  actions: ReturnType<typeof useNodeEditor>["actions"];
+  nodeTypes: string[];
+  canvasItemIds: string[];
+};
+
+const ProbeView: React.FC<{ probe: { current: Probe | null } }> = ({ probe }) => {
+  const { state, actions } = useNodeEditor();
+  const nodeTypes = useNodeDefinitionList().map((definition) => definition.type);
+  const canvasItemIds = useContextMenuEntries({ type: "canvas" }).map((entry) => entry.id);
+  probe.current = { state, actions, nodeTypes, canvasItemIds };
+  return null;
+};
+
+const renderCore = (plugins: NodeEditorPlugin[], settingsManager = new SettingsManager()) => {
+  const probe: { current: Probe | null } = { current: null };
+  const result = render(
+    <NodeEditorCore
+      initialData={initialData}
+      nodeDefinitions={[standardDefinition]}
+      settingsManager={settingsManager}
+      plugins={plugins}
+    >
+      <ProbeView probe={probe} />
+    </NodeEditorCore>,
+  );
+  return { ...result, probe, settingsManager };
+};
+
+describe("node editor plugins", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("adds node definitions, menu items, settings and shortcuts, and installs and uninstalls the plugin", () => {
+    const lifecycle: string[] = [];
+    const plugin: NodeEditorPlugin = {
+      id: "timers",
+      nodeDefinitions: [timerDefinition],
+      contextMenuItems: [{ target: "canvas", items: [{ id: "add-timer", label: "Add timer" }] }],
+      settings: [{ key: "timers.interval", label: "Interval", category: "plugins", type: "number", defaultValue: 5 }],
+      keyboardShortcuts: [
+        {
+          shortcut: { key: "t", alt: true },
+          handler: (_event, { api }) => {
+            api.actions.updateNode("a", { data: { title: "ticked" } });
+          },
+        },
+      ],
+      install: ({ api, settingsManager }) => {
+        lifecycle.push(`install:${Object.keys(api.getState().nodes).join(",")}:${settingsManager ? "settings" : ""}`);
+      },
+      uninstall: () => {
+        lifecycle.push("uninstall");
+      },
+    };
+    const { probe, settingsManager, unmount } = renderCore([plugin]);
+
+    expect(lifecycle).toEqual(["install:a:settings"]);
+    expect(probe.current!.nodeTypes).toContain("timer");
+    expect(probe.current!.canvasItemIds).toEqual(["add-timer"]);
+    expect(settingsManager.getValue("timers.interval")).toBe(5);
+
+    act(() => {
+      fireEvent.keyDown(document.body, { key: "t", altKey: true });
+    });
+    expect(probe.current!.state.nodes.a!.data.title).toBe("ticked");
+
+    unmount();
+    expect(lifecycle).toEqual(["install:a:settings", "uninstall"]);
+    expect(settingsManager.getSetting("timers.interval")).toBeUndefined();
+  });
+
+  it("runs action middleware that can veto and transform actions", () => {
+    const plugin: NodeEditorPlugin = {
+      id: "guard",
+      actionMiddleware: [
+        () => (next) => (action) => {
+          if (action.type === "DELETE_NODE") {
+            return;
+          }
+          if (action.type === "UPDATE_NODE") {
+            next({
+              ...action,
+              payload: { ...action.payload, updates: { ...action.payload.updates, size: { width: 1, height: 1 } } },
+            });
+            return;
+          }
+          next(action);
+        },
+      ],
+    };
+    const { probe } = renderCore([plugin]);
+
+    act(() => {
+      probe.current!.actions.deleteNode("a");
+    });
+    expect(probe.current!.state.nodes.a).toBeDefined();
+
+    act(() => {
+      probe.current!.actions.updateNode("a", { data: { title: "B" } });
+    });
+    expect(probe.current!.state.nodes.a).toMatchObject({ data: { title: "B" }, size: { width: 1, height: 1 } });
+  });
+
+  it("loads unsafe plugins only while plugins.allowUnsafe is on", () => {
+    const warn = console.warn;
+    const warnings: unknown[][] = [];
+    console.warn = (...args: unknown[]) => warnings.push(args);
+    try {
+      const plugin: NodeEditorPlugin = { id: "unverified", unsafe: true, nodeDefinitions: [timerDefinition] };
+      const settingsManager = new SettingsManager();
+      const { probe } = renderCore([plugin], settingsManager);
+      expect(probe.current!.nodeTypes).not.toContain("timer");
+      expect(warnings.some(([message]) => String(message).includes("unverified"))).toBe(true);
+
+      act(() => {
+        settingsManager.setValue("plugins.allowUnsafe", true);
+      });
+      expect(probe.current!.nodeTypes).toContain("timer");
+    } finally {
+      console.warn = warn;
+    }
+  });
+
+  it("swaps in updated plugins while plugins.autoUpdate is on", async () => {
+    const updated: NodeEditorPlugin = { id: "timers", version: "2", nodeDefinitions: [timerDefinition] };
+    const plugin: NodeEditorPlugin = { id: "timers", version: "1", checkForUpdate: async () => updated };
+    const settingsManager = new SettingsManager();
+    settingsManager.setValue("plugins.autoUpdate", true);
+    const { probe } = renderCore([plugin], settingsManager);
+
+    await act(async () => {
+      await Promise.resolve();
+    });
+    expect(probe.current!.nodeTypes).toContain("timer");
+  });
+
+  it("adds inspector tabs and layout layers to NodeEditor", () => {
+    const plugin: NodeEditorPlugin = {
+      id: "panels",
+      inspectorTabs: [{ id: "timers", label: "Timers", render: () => <p>Timer list</p> }],
+      gridLayers: [{ id: "timer-overlay", component: <div>Timer overlay</div>, positionMode: "absolute" }],
+    };
+    render(<NodeEditor initialData={initialData} nodeDefinitions={[standardDefinition]} plugins={[plugin]} />);
+
+    expect(screen.getByText("Timer overlay")).not.toBeNull();
+    fireEvent.click(screen.getByText("Timers"));
+    expect(screen.getByText("Timer list")).not.toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @file Integration test for the find bar: shortcut, highlights, stepping and replace.
+ */
+import * as React from "react";
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { NodeEditorCore } from "../src/NodeEditorCore";
+import { NodeEditorCanvas } from "../src/components/canvas/NodeEditorCanvas";
+import { NodeCanvas } from "../src/components/canvas/NodeCanvas";
+import { NodeTreeListPanel } from "../src/components/inspector/panels/NodeTreeListPanel";
+import { useNodeEditorApi } from "../src/contexts/composed/node-editor/context";
+import { useNodeCanvasApi } from "../src/contexts/composed/canvas/viewport/context";
+import { useEditorActionStateState } from "../src/contexts/composed/EditorActionStateContext";
+import type { NodeEditorData } from "../src/types/core";
+
+const initialData: Partial<NodeEditorData> = {
+  nodes: {
+    a: { id: "a", type: "label", position: { x: 0, y: 0 }, data: { title: "Load config" } },
+    b: { id: "b", type: "label", position: { x: 400, y: 300 }, data: { title: "Parse", note: "reads config" } },
+    c: { id: "c", type: "label", position: { x: 800, y: 0 }, data: { title: "Render" } },
+  },
+  connections: {},
+};
+
+type Probe = {
+  editor: ReturnType<typeof useNodeEditorApi>;
+  canvas: ReturnType<typeof useNodeCanvasApi>;
+  selectedNodeIds: readonly string[];
+};
+
+const renderEditor = () => {
+  const probe: { current: Probe | null } = { current: null };
+  const ApiProbe: React.FC = () => {
+    probe.current = {
+      editor: useNodeEditorApi(),
+      canvas: useNodeCanvasApi(),
+      selectedNodeIds: useEditorActionStateState().selectedNodeIds,
+    };
+    return null;
+  };
+  const result = render(
+    <NodeEditorCore initialData={initialData}>
+      <NodeEditorCanvas>
+        <NodeCanvas />
+        <NodeTreeListPanel />
+      </NodeEditorCanvas>
+      <ApiProbe />
+    </NodeEditorCore>,
+  );
+  return { ...result, probe };
+};
+
+// The shortcut only applies while focus is inside the editor
+const openFindBar = async (container: HTMLElement): Promise<HTMLInputElement> => {
+  const node = container.querySelector<HTMLElement>('[role="group"][data-node-id="a"]')!;
+  act(() => node.focus());
+  await act(async () => {
+    fireEvent.keyDown(node, { key: "f", ctrlKey: true });
+  });
+  return screen.getByRole("textbox", { name: "Find nodes…" }) as HTMLInputElement;
+};
+
+const highlightOf = (container: HTMLElement, nodeId: string) =>
+  container.querySelector(`[data-node-id="${nodeId}"]`)?.getAttribute("data-search-match") ?? null;
+
+describe("find in graph", () => {
+  it("opens with Ctrl+F and highlights matching nodes on the canvas and in the tree", async () => {
+    const { container } = renderEditor();
+    const input = await openFindBar(container);
+
+    expect(document.activeElement).toBe(input);
+    fireEvent.change(input, { target: { value: "config" } });
+
+    expect(highlightOf(container, "a")).toBe("match");
+    expect(highlightOf(container, "b")).toBe("match");
+    expect(highlightOf(container, "c")).toBeNull();
+    expect(container.querySelectorAll("[data-search-match]:not([data-node-id])")).toHaveLength(2);
+    expect(container.querySelector("[data-find-bar-status]")?.textContent).toBe("2 results");
+  });
+
+  it("steps through results with Enter and Shift+Enter, selecting and centering each one", async () => {
+    const { container, probe } = renderEditor();
+    const input = await openFindBar(container);
+    fireEvent.change(input, { target: { value: "config" } });
+
+    fireEvent.keyDown(input, { key: "Enter" });
+    expect(highlightOf(container, "a")).toBe("active");
+    expect(probe.current?.selectedNodeIds).toEqual(["a"]);
+
+    fireEvent.keyDown(input, { key: "Enter" });
+    expect(highlightOf(container, "b")).toBe("active");
+    expect(container.querySelector("[data-find-bar-status]")?.textContent).toBe("2 of 2");
+    await waitFor(() => {
+      const { viewport, viewBox } = probe.current!.canvas.store.getState();
+      const node = probe.current!.editor.getState().nodes.b;
+      const centerX = (viewBox.width / 2 - viewport.offset.x) / viewport.scale;
+      expect(Math.round(centerX)).toBe(Math.round(node.position.x + (node.size?.width ?? 150) / 2));
+    });
+
+    // "a" may be culled while the viewport is still on "b"
+    fireEvent.keyDown(input, { key: "Enter", shiftKey: true });
+    await waitFor(() => expect(highlightOf(container, "a")).toBe("active"));
+
+    fireEvent.keyDown(input, { key: "Escape" });
+    expect(container.querySelector("[data-find-bar]")).toBeNull();
+    expect(highlightOf(container, "a")).toBeNull();
+  });
+
+  it("replaces the query in the data of every match", async () => {
+    const { container, probe } = renderEditor();
+    const input = await openFindBar(container);
+    fireEvent.change(input, { target: { value: "config" } });
+
+    fireEvent.click(screen.getByRole("button", { name: "Toggle replace" }));
+    fireEvent.change(screen.getByRole("textbox", { name: "Replace with…" }), { target: { value: "settings" } });
+    fireEvent.click(screen.getByRole("button", { name: "Replace all" }));
+
+    const nodes = probe.current!.editor.getState().nodes;
+    expect(nodes.a.data.title).toBe("Load settings");
+    expect(nodes.b.data.note).toBe("reads settings");
+    await waitFor(() => expect(screen.getByText("No results")).toBeTruthy());
+  });
+
+  it("leaves Ctrl+F to the browser while focus is outside the editor", async () => {
+    const { container } = renderEditor();
+    const event = new KeyboardEvent("keydown", { key: "f", ctrlKey: true, bubbles: true, cancelable: true });
+
+    await act(async () => {
+      document.body.dispatchEvent(event);
+    });
+
+    expect(event.defaultPrevented).toBe(false);
+    expect(container.querySelector("[data-find-bar]")).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * @file Integration test for keyboard navigation: roving focus, nudging, connect mode and announcements.
+ */
+import * as React from "react";
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { NodeEditorCore } from "../src/NodeEditorCore";
+import { NodeEditorCanvas } from "../src/components/canvas/NodeEditorCanvas";
+import { NodeCanvas } from "../src/components/canvas/NodeCanvas";
+import { useNodeEditorApi } from "../src/contexts/composed/node-editor/context";
+import { useNodeCanvasApi } from "../src/contexts/composed/canvas/viewport/context";
+import {
+  useEditorActionStateActions,
+  useEditorActionStateState,
+} from "../src/contexts/composed/EditorActionStateContext";
+import { StandardNodeDefinition } from "../src/node-definitions/standard";
+import { asNodeDefinition } from "../src/types/NodeDefinition";
+import type { NodeEditorData } from "../src/types/core";
+import type { NodeEditorInteractionSettingsPatch } from "../src/types/interaction";
+
+const initialData: Partial<NodeEditorData> = {
+  nodes: {
+    a: {
+      id: "a",
+      type: "standard",
+      position: { x: 0, y: 0 },
+      size: { width: 200, height: 100 },
+      data: { title: "Load" },
+    },
+    b: {
+      id: "b",
+      type: "standard",
+      position: { x: 400, y: 0 },
+      size: { width: 200, height: 100 },
+      data: { title: "Parse" },
+    },
+    c: {
+      id: "c",
+      type: "standard",
+      position: { x: 0, y: 300 },
+      size: { width: 200, height: 100 },
+      data: { title: "Render" },
+    },
+  },
+  connections: {},
+};
+
+type Probe = {
+  editor: ReturnType<typeof useNodeEditorApi>;
+  canvas: ReturnType<typeof useNodeCanvasApi>;
+  selection: ReturnType<typeof useEditorActionStateActions>["actions"];
+  selectedNodeIds: readonly string[];
+};
+
+const renderEditor = (interactionSettings?: NodeEditorInteractionSettingsPatch) => {
+  const probe: { current: Probe | null } = { current: null };
+  const ApiProbe: React.FC = () => {
+    probe.current = {
+      editor: useNodeEditorApi(),
+      canvas: useNodeCanvasApi(),
+      selection: useEditorActionStateActions().actions,
+      selectedNodeIds: useEditorActionStateState().selectedNodeIds,
+    };
+    return null;
+  };
+  const result = render(
+    <NodeEditorCore
+      initialData={initialData}
+      nodeDefinitions={[asNodeDefinition(StandardNodeDefinition)]}
+      interactionSettings={interactionSettings}
+    >
+      <NodeEditorCanvas>
+        <NodeCanvas />
+      </NodeEditorCanvas>
+      <ApiProbe />
+    </NodeEditorCore>,
+  );
+  return { ...result, probe };
+};
+
+const nodeElement = (container: HTMLElement, nodeId: string) =>
+  container.querySelector<HTMLElement>(`[role="group"][data-node-id="${nodeId}"]`);
+
+const liveRegion = (container: HTMLElement) => container.querySelector("[data-canvas-announcer]")?.textContent ?? "";
+
+const pressKey = (key: string, init: Partial<KeyboardEventInit> = {}) => {
+  fireEvent.keyDown(document.activeElement ?? document.body, { key, ...init });
+};
+
+describe("keyboard navigation", () => {
+  it("keeps one node in the tab order and moves focus and selection with the arrow keys", async () => {
+    const { container, probe } = renderEditor();
+
+    expect(nodeElement(container, "a")?.tabIndex).toBe(0);
+    expect(nodeElement(container, "b")?.tabIndex).toBe(-1);
+    expect(nodeElement(container, "a")?.getAttribute("aria-label")).toBe("Load");
+
+    act(() => nodeElement(container, "a")?.focus());
+    pressKey("ArrowRight");
+
+    await waitFor(() => expect(document.activeElement).toBe(nodeElement(container, "b")));
+    expect(probe.current?.selectedNodeIds).toEqual(["b"]);
+    expect(nodeElement(container, "b")?.tabIndex).toBe(0);
+    expect(nodeElement(container, "a")?.tabIndex).toBe(-1);
+    expect(liveRegion(container)).toBe("Parse selected");
+
+    pressKey("Delete");
+    await waitFor(() => expect(liveRegion(container)).toBe("Parse deleted"));
+  });
+
+  it("nudges the selection by one grid step with Shift+arrows", () => {
+    const { container, probe } = renderEditor();
+    const gridSize = probe.current!.canvas.store.getState().gridSettings.size;
+
+    act(() => {
+      nodeElement(container, "c")?.focus();
+      probe.current!.selection.setInteractionSelection(["c"]);
+    });
+    pressKey("ArrowRight", { shiftKey: true });
+    pressKey("ArrowUp", { shiftKey: true });
+
+    expect(probe.current!.editor.getState().nodes.c.position).toEqual({ x: gridSize, y: 300 - gridSize });
+  });
+
+  it("wires the focused output port to an input chosen from the connect list", async () => {
+    const { container, probe } = renderEditor();
+    const output = container.querySelector<HTMLElement>('[data-node-id="a"][data-port-id="output"]')!;
+
+    expect(output.tabIndex).toBe(0);
+    expect(output.getAttribute("aria-label")).toBe("Output, output port");
+
+    act(() => output.focus());
+    pressKey("Enter");
+
+    const list = screen.getByRole("listbox", { name: "Connect Load › Output to…" });
+    expect(document.activeElement).toBe(list);
+    expect(screen.getAllByRole("option").map((option) => option.textContent)).toEqual(["ParseInput", "RenderInput"]);
+
+    pressKey("ArrowDown");
+    pressKey("Enter");
+
+    expect(Object.values(probe.current!.editor.getState().connections)).toEqual([
+      expect.objectContaining({ fromNodeId: "a", fromPortId: "output", toNodeId: "c", toPortId: "input" }),
+    ]);
+    expect(screen.queryByRole("listbox")).toBeNull();
+    expect(document.activeElement).toBe(nodeElement(container, "a"));
+    await waitFor(() => expect(liveRegion(container)).toBe("Connected Load › Output to Render › Input"));
+  });
+
+  it("cancels connect mode with Escape", () => {
+    const { container, probe } = renderEditor();
+
+    act(() => nodeElement(container, "b")?.focus());
+    pressKey("c");
+    expect(screen.getByRole("listbox", { name: "Connect Parse › Output to…" })).toBeTruthy();
+
+    pressKey("Escape");
+    expect(screen.queryByRole("listbox")).toBeNull();
+    expect(document.activeElement).toBe(nodeElement(container, "b"));
+    expect(probe.current!.editor.getState().connections).toEqual({});
+  });
+
+  it("honours disabled actions and announcements in the keyboard shortcut settings", () => {
+    const { container, probe } = renderEditor({
+      keyboardShortcuts: { actions: { "focus-right": { enabled: false } }, announcements: false },
+    });
+
+    act(() => nodeElement(container, "a")?.focus());
+    pressKey("ArrowRight");
+    pressKey("ArrowDown");
+
+    expect(document.activeElement).toBe(nodeElement(container, "c"));
+    expect(probe.current?.selectedNodeIds).toEqual(["c"]);
+    expect(liveRegion(container)).toBe("");
+  });
+});
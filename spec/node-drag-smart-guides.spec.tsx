@@ -0,0 +1,103 @@
+/**
+ * @file Integration test for smart alignment guides while dragging nodes.
+ */
+import * as React from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+import { NodeEditorCore } from "../src/NodeEditorCore";
+import { NodeCanvas } from "../src/components/canvas/NodeCanvas";
+import { useNodeEditorApi } from "../src/contexts/composed/node-editor/context";
+import type { NodeEditorData } from "../src/types/core";
+
+const ensurePointerCaptureApis = () => {
+  if (typeof HTMLElement === "undefined") {
+    return;
+  }
+  const proto = HTMLElement.prototype as unknown as {
+    setPointerCapture?: (pointerId: number) => void;
+    releasePointerCapture?: (pointerId: number) => void;
+  };
+  if (!proto.setPointerCapture) {
+    Object.defineProperty(HTMLElement.prototype, "setPointerCapture", {
+      value: () => undefined,
+      configurable: true,
+    });
+  }
+  if (!proto.releasePointerCapture) {
+    Object.defineProperty(HTMLElement.prototype, "releasePointerCapture", {
+      value: () => undefined,
+      configurable: true,
+    });
+  }
+};
+
+const nextFrame = async () => {
+  await act(async () => {
+    await new Promise<void>((resolve) => window.requestAnimationFrame(() => resolve()));
+  });
+};
+
+const initialData: Partial<NodeEditorData> = {
+  nodes: {
+    a: { id: "a", type: "label", position: { x: 0, y: 0 }, size: { width: 200, height: 60 }, data: { title: "A" } },
+    b: { id: "b", type: "label", position: { x: 300, y: 0 }, size: { width: 200, height: 60 }, data: { title: "B" } },
+  },
+  connections: {},
+};
+
+describe("node drag smart guides", () => {
+  beforeAll(() => {
+    ensurePointerCaptureApis();
+  });
+
+  it("snaps to a nearby node's edge, shows the guide and commits the snapped position", async () => {
+    const apiRef: { current: ReturnType<typeof useNodeEditorApi> | null } = { current: null };
+    const ApiProbe: React.FC = () => {
+      apiRef.current = useNodeEditorApi();
+      return null;
+    };
+
+    const { container } = render(
+      <NodeEditorCore initialData={initialData}>
+        <NodeCanvas />
+        <ApiProbe />
+      </NodeEditorCore>,
+    );
+    await nextFrame();
+
+    const nodeEl = container.querySelector('[data-node-id="a"]') as HTMLElement;
+    await act(async () => {
+      fireEvent.pointerDown(nodeEl, {
+        pointerId: 1,
+        pointerType: "mouse",
+        button: 0,
+        buttons: 1,
+        clientX: 10,
+        clientY: 10,
+      });
+    });
+    await nextFrame();
+
+    // Move 40px right and 4px down: the top edge is 4px away from b's top edge
+    await act(async () => {
+      fireEvent.pointerMove(window, { pointerId: 1, pointerType: "mouse", buttons: 1, clientX: 50, clientY: 14 });
+      await new Promise<void>((resolve) => window.requestAnimationFrame(() => resolve()));
+    });
+
+    const guideLine = container.querySelector('[data-alignment-guides] line[data-guide-axis="y"]');
+    expect(guideLine?.getAttribute("y1")).toBe("0");
+
+    await act(async () => {
+      fireEvent.pointerUp(window, {
+        pointerId: 1,
+        pointerType: "mouse",
+        button: 0,
+        buttons: 0,
+        clientX: 50,
+        clientY: 14,
+      });
+    });
+
+    expect(apiRef.current!.getState().nodes.a.position).toEqual({ x: 40, y: 0 });
+    expect(container.querySelector("[data-alignment-guides]")).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * @file Integration test for pasting nodes: per-flow limits and failures while pasting.
+ */
+import * as React from "react";
+import { act, render } from "@testing-library/react";
+import { NodeEditorCore } from "../src/NodeEditorCore";
+import { StandardNodeDefinition } from "../src/node-definitions/standard";
+import { asNodeDefinition, type NodeDefinition } from "../src/types/NodeDefinition";
+import { useEditorActionState } from "../src/contexts/composed/EditorActionStateContext";
+import { useNodeEditorApi } from "../src/contexts/composed/node-editor/context";
+import type { NodeEditorData } from "../src/types/core";
+
+const standardDefinition = asNodeDefinition(StandardNodeDefinition);
+
+type Probe = {
+  operations: ReturnType<typeof useEditorActionState>["nodeOperations"];
+  api: ReturnType<typeof useNodeEditorApi>;
+};
+
+const ProbeView: React.FC<{ probe: { current: Probe | null } }> = ({ probe }) => {
+  const { nodeOperations } = useEditorActionState();
+  const api = useNodeEditorApi();
+  probe.current = { operations: nodeOperations, api };
+  return null;
+};
+
+const renderEditor = (definition: NodeDefinition) => {
+  const probe: { current: Probe | null } = { current: null };
+  const initialData: NodeEditorData = {
+    nodes: { a: { id: "a", type: definition.type, position: { x: 0, y: 0 }, data: { title: "A" } } },
+    connections: {},
+  };
+  render(
+    <NodeEditorCore initialData={initialData} nodeDefinitions={[definition]}>
+      <ProbeView probe={probe} />
+    </NodeEditorCore>,
+  );
+  return probe;
+};
+
+const pasteAndSettle = async (probe: { current: Probe | null }) => {
+  await act(async () => {
+    probe.current!.operations.pasteNodes({ x: 100, y: 100 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+};
+
+describe("pasting nodes", () => {
+  it("does not paste past a node type's maxPerFlow", async () => {
+    const probe = renderEditor({ ...standardDefinition, type: "limited", maxPerFlow: 2 });
+    act(() => {
+      probe.current!.operations.copyNodes("a");
+    });
+
+    await pasteAndSettle(probe);
+    expect(Object.keys(probe.current!.api.getState().nodes)).toHaveLength(2);
+
+    await pasteAndSettle(probe);
+    expect(Object.keys(probe.current!.api.getState().nodes)).toHaveLength(2);
+  });
+
+  it("reports errors thrown while pasting instead of leaving them unhandled", async () => {
+    const error = console.error;
+    const errors: unknown[][] = [];
+    console.error = (...args: unknown[]) => errors.push(args);
+    try {
+      const probe = renderEditor({
+        ...standardDefinition,
+        type: "remapped",
+        onPasteRemap: () => {
+          throw new Error("remap failed");
+        },
+      });
+      act(() => {
+        probe.current!.operations.copyNodes("a");
+      });
+
+      await pasteAndSettle(probe);
+
+      expect(Object.keys(probe.current!.api.getState().nodes)).toEqual(["a"]);
+      expect(errors.some(([message]) => String(message).includes("Failed to paste nodes"))).toBe(true);
+    } finally {
+      console.error = error;
+    }
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @file Integration test for viewport virtualization and the maxVisibleNodes render budget.
+ */
+import * as React from "react";
+import { act, render } from "@testing-library/react";
+import { NodeEditorCore } from "../src/NodeEditorCore";
+import { NodeCanvas } from "../src/components/canvas/NodeCanvas";
+import { StandardNodeDefinition } from "../src/node-definitions/standard";
+import { asNodeDefinition } from "../src/types/NodeDefinition";
+import { SettingsManager } from "../src/settings/SettingsManager";
+import type { Node, NodeEditorData } from "../src/types/core";
+
+const nextFrame = async () => {
+  await act(async () => {
+    await new Promise<void>((resolve) => window.requestAnimationFrame(() => resolve()));
+  });
+};
+
+const standardNode = (id: string, x: number, y: number): Node => ({
+  id,
+  type: "standard",
+  position: { x, y },
+  size: { width: 100, height: 50 },
+  data: { title: id },
+});
+
+// jsdom has no layout, so the visible area falls back to the window (1024x768) plus the pan buffer
+const initialData: NodeEditorData = {
+  nodes: {
+    a: standardNode("a", 0, 0),
+    b: standardNode("b", 5000, 0),
+    c: standardNode("c", 5000, 400),
+  },
+  connections: {
+    ab: { id: "ab", fromNodeId: "a", fromPortId: "output", toNodeId: "b", toPortId: "input" },
+    bc: { id: "bc", fromNodeId: "b", fromPortId: "output", toNodeId: "c", toPortId: "input" },
+  },
+};
+
+const renderEditor = (data: NodeEditorData, settings: Record<string, boolean | number> = {}) => {
+  const settingsManager = new SettingsManager();
+  Object.entries(settings).forEach(([key, value]) => settingsManager.setValue(key, value));
+  return render(
+    <NodeEditorCore
+      initialData={data}
+      nodeDefinitions={[asNodeDefinition(StandardNodeDefinition)]}
+      settingsManager={settingsManager}
+    >
+      <NodeCanvas />
+    </NodeEditorCore>,
+  );
+};
+
+const renderedNodeIds = (container: HTMLElement): string[] =>
+  Array.from(container.querySelectorAll('[data-node-layer] [role="group"][data-node-id]')).map(
+    (element) => element.getAttribute("data-node-id") ?? "",
+  );
+
+const hasConnection = (container: HTMLElement, connectionId: string): boolean =>
+  container.querySelector(`[data-connection-id="${connectionId}"]`) !== null;
+
+describe("viewport virtualization", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("renders only onscreen nodes and culls connections with both endpoints offscreen", async () => {
+    const { container } = renderEditor(initialData);
+    await nextFrame();
+
+    expect(renderedNodeIds(container)).toEqual(["a"]);
+    expect(hasConnection(container, "ab")).toBe(true);
+    expect(hasConnection(container, "bc")).toBe(false);
+  });
+
+  it("renders everything when virtual scrolling and lazy loading are turned off", async () => {
+    const { container } = renderEditor(initialData, {
+      "performance.virtualScrolling": false,
+      "performance.lazyLoading": false,
+    });
+    await nextFrame();
+
+    expect(renderedNodeIds(container).sort()).toEqual(["a", "b", "c"]);
+    expect(hasConnection(container, "bc")).toBe(true);
+  });
+
+  it("falls back to the snapshot overview when more nodes are visible than the budget", async () => {
+    const nodes: Record<string, Node> = {};
+    Array.from({ length: 101 }, (_, index) =>
+      standardNode(`n${index}`, (index % 10) * 60, Math.floor(index / 10) * 60),
+    ).forEach((node) => {
+      nodes[node.id] = node;
+    });
+    const connections = {
+      c01: { id: "c01", fromNodeId: "n0", fromPortId: "output", toNodeId: "n1", toPortId: "input" },
+    };
+    const { container } = renderEditor({ nodes, connections }, { "performance.maxVisibleNodes": 100 });
+    await nextFrame();
+
+    expect(renderedNodeIds(container)).toEqual([]);
+    expect(container.querySelector("[data-node-layer-overview]")).not.toBeNull();
+    // Connections degrade to snapshot lines instead of views that resolve ports
+    expect(hasConnection(container, "c01")).toBe(false);
+    expect(container.querySelectorAll("[data-node-layer-overview] line")).toHaveLength(1);
+  });
+});
@@ -13,15 +13,22 @@ import type { GridLayoutConfig, LayerDefinition } from "./types/panels";
 import { type PortPositionBehavior } from "./types/portPosition";
 import type { NodeEditorRendererOverrides } from "./types/renderers";
 import type { NodeEditorInteractionSettingsPatch } from "./types/interaction";
+import type { PresenceSource, PresenceUser } from "./core/collaboration/presence";
+import type { NodeEditorActionEvent, NodeEditorConstraintViolation } from "./contexts/composed/node-editor/context";
+import type { NodeEditorActionMiddleware } from "./contexts/composed/node-editor/utils/actionMiddleware";
+import type { DocumentMigrationReport, NodeEditorDocument } from "./core/document/migration";
+import type { ContextMenuContribution } from "./types/contextMenu";
+import type { NodeEditorPlugin } from "./types/plugin";
 
 export type NodeEditorProps = {
-  /** Initial data for uncontrolled mode (like defaultValue) */
-  initialData?: Partial<NodeEditorData>;
-  /** Data for controlled mode (like value) */
-  data?: NodeEditorData;
+  /** Initial data for uncontrolled mode (like defaultValue); versioned documents are migrated on mount */
+  initialData?: Partial<NodeEditorData> | NodeEditorDocument;
+  /** Data for controlled mode (like value); versioned documents are migrated, plain data is taken as current */
+  data?: NodeEditorData | NodeEditorDocument;
   onDataChange?: (data: NodeEditorData) => void;
-  onSave?: (data: NodeEditorData) => void | Promise<void>;
-  onLoad?: () => NodeEditorData | Promise<NodeEditorData>;
+  /** Receives the state as a versioned document; pass it back as `initialData` or from `onLoad` */
+  onSave?: (document: NodeEditorDocument) => void | Promise<void>;
+  onLoad?: () => NodeEditorData | NodeEditorDocument | Promise<NodeEditorData | NodeEditorDocument>;
   /** Custom node definitions */
   nodeDefinitions?: NodeDefinition[];
   /** Whether to include default node definitions */
@@ -60,6 +67,28 @@ export type NodeEditorProps = {
   portPositionBehavior?: PortPositionBehavior;
   /** Overrides for canvas interaction behavior (pan, pinch zoom, context menu) */
   interactionSettings?: NodeEditorInteractionSettingsPatch;
+  /** Source of other users' pointers, selections and viewports; the local state is published to it */
+  presenceSource?: PresenceSource;
+  /** The local user shown to others through `presenceSource` */
+  presenceUser?: PresenceUser;
+  /**
+   * Called when an edit violates node definition constraints.
+   * Blocking violations reject the edit before it reaches the state; others are reported as warnings.
+   */
+  onConstraintViolation?: (violation: NodeEditorConstraintViolation) => void;
+  /** Called when a loaded document was migrated to newer node definition versions or could not be migrated (`report.error`) */
+  onMigrate?: (report: DocumentMigrationReport) => void;
+  /** Items added to the node, connection and canvas context menus */
+  contextMenuItems?: readonly ContextMenuContribution[];
+  /** Feature packs adding node types, menu items, shortcuts, panels, settings and action middleware */
+  plugins?: readonly NodeEditorPlugin[];
+  /**
+   * Middleware every dispatched action passes through before it reaches the state; it can change,
+   * drop or add actions. Runs before the middleware of plugins.
+   */
+  actionMiddleware?: readonly NodeEditorActionMiddleware[];
+  /** Called for every action applied to the state, with the state before and after it */
+  onAction?: (event: NodeEditorActionEvent) => void;
 };
 
 /**
@@ -89,6 +118,14 @@ export function NodeEditor({
   renderers,
   portPositionBehavior,
   interactionSettings,
+  presenceSource,
+  presenceUser,
+  onConstraintViolation,
+  onMigrate,
+  contextMenuItems,
+  plugins,
+  actionMiddleware,
+  onAction,
 }: NodeEditorProps) {
   return (
     <NodeEditorCore
@@ -112,6 +149,14 @@ export function NodeEditor({
       renderers={renderers}
       interactionSettings={interactionSettings}
       portPositionBehavior={portPositionBehavior}
+      presenceSource={presenceSource}
+      presenceUser={presenceUser}
+      onConstraintViolation={onConstraintViolation}
+      onMigrate={onMigrate}
+      contextMenuItems={contextMenuItems}
+      plugins={plugins}
+      actionMiddleware={actionMiddleware}
+      onAction={onAction}
     >
       <NodeEditorContent
         settingsManager={settingsManager}
@@ -7,6 +7,7 @@ import { NodeEditorCanvas } from "./components/canvas/NodeEditorCanvas";
 import { defaultEditorGridConfig, defaultEditorGridLayers } from "./config/defaultLayout";
 import type { SettingsManager } from "./settings/SettingsManager";
 import type { GridLayoutConfig, LayerDefinition } from "./types/panels";
+import { useNodeEditorPlugins } from "./contexts/plugins/context";
 
 export const NodeEditorContent: React.FC<{
   settingsManager?: SettingsManager;
@@ -40,14 +41,14 @@ export const NodeEditorContent: React.FC<{
     return defaultEditorGridConfig;
   }, [gridConfig]);
 
-  const effectiveGridLayers = React.useMemo((): LayerDefinition[] => {
-    if (gridLayers) {
-      return gridLayers;
-    }
+  const plugins = useNodeEditorPlugins();
 
+  const effectiveGridLayers = React.useMemo((): LayerDefinition[] => {
     // No gridLayers provided - use default layers
-    return defaultEditorGridLayers;
-  }, [gridLayers]);
+    const layers = gridLayers ?? defaultEditorGridLayers;
+    const pluginLayers = plugins.flatMap((plugin) => plugin.gridLayers ?? []);
+    return pluginLayers.length > 0 ? [...layers, ...pluginLayers] : layers;
+  }, [gridLayers, plugins]);
 
   // Generate unique key for GridLayout to force re-render when grid changes
   const gridLayoutKey = gridConfig || gridLayers ? `custom-${gridLayoutVersionRef.current}` : "default";
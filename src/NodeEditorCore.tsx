@@ -15,6 +15,11 @@ import { HistoryProvider } from "./contexts/history/context";
 import { InlineEditingProvider } from "./contexts/InlineEditingContext";
 import { KeyboardShortcutProvider } from "./contexts/composed/keyboard-shortcut/context";
 import { NodeEditorProvider } from "./contexts/composed/node-editor/provider";
+import type { NodeEditorActionEvent, NodeEditorConstraintViolation } from "./contexts/composed/node-editor/context";
+import {
+  areActionMiddlewareListsEqual,
+  type NodeEditorActionMiddleware,
+} from "./contexts/composed/node-editor/utils/actionMiddleware";
 import type { NodeEditorData } from "./types/core";
 import { NodeCanvasProvider } from "./contexts/composed/canvas/viewport/provider";
 import { CanvasInteractionProvider } from "./contexts/composed/canvas/interaction/provider";
@@ -33,15 +38,27 @@ import { PortPositionProvider } from "./contexts/node-ports/provider";
 import type { PortPositionBehavior } from "./types/portPosition";
 import { ConnectionBehaviorProvider } from "./contexts/connection-behavior/context";
 import type { ConnectionBehavior } from "./types/connectionBehavior";
+import { PresenceProvider } from "./contexts/presence/context";
+import { SubflowNavigationProvider, type SubflowEditorConfig } from "./contexts/subflow/context";
+import { GraphSearchProvider } from "./contexts/graph-search/context";
+import { ExecutionStatusProvider } from "./contexts/execution-status/context";
+import { KeyboardNavigationProvider } from "./contexts/keyboard-navigation/context";
+import { ContextMenuContributionProvider } from "./contexts/context-menu/context";
+import type { ContextMenuContribution } from "./types/contextMenu";
+import { NodeEditorPluginProvider, useLoadedPlugins } from "./contexts/plugins/context";
+import type { NodeEditorPlugin } from "./types/plugin";
+import type { PresenceSource, PresenceUser } from "./core/collaboration/presence";
+import type { DocumentMigrationReport, NodeEditorDocument } from "./core/document/migration";
 
 export type NodeEditorCoreProps = {
-  /** Initial data for uncontrolled mode (like defaultValue) */
-  initialData?: Partial<NodeEditorData>;
-  /** Data for controlled mode (like value) */
-  data?: NodeEditorData;
+  /** Initial data for uncontrolled mode (like defaultValue); versioned documents are migrated on mount */
+  initialData?: Partial<NodeEditorData> | NodeEditorDocument;
+  /** Data for controlled mode (like value); versioned documents are migrated, plain data is taken as current */
+  data?: NodeEditorData | NodeEditorDocument;
   onDataChange?: (data: NodeEditorData) => void;
-  onSave?: (data: NodeEditorData) => void | Promise<void>;
-  onLoad?: () => NodeEditorData | Promise<NodeEditorData>;
+  /** Receives the state as a versioned document; pass it back as `initialData` or from `onLoad` */
+  onSave?: (document: NodeEditorDocument) => void | Promise<void>;
+  onLoad?: () => NodeEditorData | NodeEditorDocument | Promise<NodeEditorData | NodeEditorDocument>;
   /** Custom node definitions */
   nodeDefinitions?: NodeDefinition[];
   /** Whether to include default node definitions */
@@ -78,6 +95,28 @@ export type NodeEditorCoreProps = {
   portPositionBehavior?: PortPositionBehavior;
   /** Customizable connection path calculation behavior */
   connectionBehavior?: Partial<ConnectionBehavior>;
+  /** Source of other users' pointers, selections and viewports; the local state is published to it */
+  presenceSource?: PresenceSource;
+  /** The local user shown to others through `presenceSource` */
+  presenceUser?: PresenceUser;
+  /**
+   * Called when an edit violates node definition constraints.
+   * Blocking violations reject the edit before it reaches the state; others are reported as warnings.
+   */
+  onConstraintViolation?: (violation: NodeEditorConstraintViolation) => void;
+  /** Called when a loaded document was migrated to newer node definition versions or could not be migrated (`report.error`) */
+  onMigrate?: (report: DocumentMigrationReport) => void;
+  /** Items added to the node, connection and canvas context menus */
+  contextMenuItems?: readonly ContextMenuContribution[];
+  /** Feature packs adding node types, menu items, shortcuts, panels, settings and action middleware */
+  plugins?: readonly NodeEditorPlugin[];
+  /**
+   * Middleware every dispatched action passes through before it reaches the state; it can change,
+   * drop or add actions. Runs before the middleware of plugins.
+   */
+  actionMiddleware?: readonly NodeEditorActionMiddleware[];
+  /** Called for every action applied to the state, with the state before and after it */
+  onAction?: (event: NodeEditorActionEvent) => void;
   /** Children to render within all providers */
   children: React.ReactNode;
 };
@@ -111,6 +150,14 @@ export function NodeEditorCore({
   interactionSettings,
   portPositionBehavior,
   connectionBehavior,
+  presenceSource,
+  presenceUser,
+  onConstraintViolation,
+  onMigrate,
+  contextMenuItems,
+  plugins,
+  actionMiddleware,
+  onAction,
   children,
 }: NodeEditorCoreProps) {
   const mergedRenderers = React.useMemo(
@@ -129,6 +176,64 @@ export function NodeEditorCore({
     };
   }, [localeDictionaries]);
 
+  const loadedPlugins = useLoadedPlugins(plugins, settingsManager);
+
+  const mergedNodeDefinitions = React.useMemo(() => {
+    const pluginDefinitions = loadedPlugins.flatMap((plugin) => plugin.nodeDefinitions ?? []);
+    return pluginDefinitions.length > 0 ? [...(nodeDefinitions ?? []), ...pluginDefinitions] : nodeDefinitions;
+  }, [nodeDefinitions, loadedPlugins]);
+
+  const mergedContextMenuItems = React.useMemo(() => {
+    const pluginItems = loadedPlugins.flatMap((plugin) => plugin.contextMenuItems ?? []);
+    return pluginItems.length > 0 ? [...(contextMenuItems ?? []), ...pluginItems] : contextMenuItems;
+  }, [contextMenuItems, loadedPlugins]);
+
+  const mergedActionMiddlewareRef = React.useRef<readonly NodeEditorActionMiddleware[] | undefined>(undefined);
+  // Inline `actionMiddleware` and `plugins` arrays change identity every render; keep the list while its content is the same
+  const mergedActionMiddleware = React.useMemo(() => {
+    const pluginMiddleware = loadedPlugins.flatMap((plugin) => plugin.actionMiddleware ?? []);
+    const merged = pluginMiddleware.length > 0 ? [...(actionMiddleware ?? []), ...pluginMiddleware] : actionMiddleware;
+    const previous = mergedActionMiddlewareRef.current;
+    if (previous && merged && areActionMiddlewareListsEqual(previous, merged)) {
+      return previous;
+    }
+    mergedActionMiddlewareRef.current = merged;
+    return merged;
+  }, [actionMiddleware, loadedPlugins]);
+
+  // Inherited by the nested editors of opened subflows
+  const subflowEditorConfig = React.useMemo<SubflowEditorConfig>(
+    () => ({
+      fallbackLocale,
+      messagesOverride,
+      localeDictionaries,
+      historyMaxEntries,
+      renderers,
+      interactionSettings,
+      portPositionBehavior,
+      connectionBehavior,
+      fallbackDefinition,
+      externalDataRefs,
+      onConstraintViolation,
+      // Plugins are not installed again; their node types and menu items carry over
+      contextMenuItems: mergedContextMenuItems,
+    }),
+    [
+      fallbackLocale,
+      messagesOverride,
+      localeDictionaries,
+      historyMaxEntries,
+      renderers,
+      interactionSettings,
+      portPositionBehavior,
+      connectionBehavior,
+      fallbackDefinition,
+      externalDataRefs,
+      onConstraintViolation,
+      mergedContextMenuItems,
+    ],
+  );
+
   return (
     <I18nProvider
       dictionaries={dictionaries}
@@ -137,7 +242,7 @@ export function NodeEditorCore({
       messagesOverride={messagesOverride}
     >
       <RendererProvider renderers={mergedRenderers}>
-        <NodeDefinitionProvider nodeDefinitions={nodeDefinitions} includeDefaults={includeDefaultDefinitions} fallbackDefinition={fallbackDefinition}>
+        <NodeDefinitionProvider nodeDefinitions={mergedNodeDefinitions} includeDefaults={includeDefaultDefinitions} fallbackDefinition={fallbackDefinition}>
           <ExternalDataProvider refs={externalDataRefs}>
             <NodeEditorProvider
               initialState={initialData}
@@ -148,22 +253,38 @@ export function NodeEditorCore({
               settingsManager={settingsManager}
               autoSaveEnabled={autoSaveEnabled}
               autoSaveInterval={autoSaveInterval}
+              onConstraintViolation={onConstraintViolation}
+              onMigrate={onMigrate}
+              actionMiddleware={mergedActionMiddleware}
+              onAction={onAction}
             >
               <ConnectionBehaviorProvider behavior={connectionBehavior}>
                 <NodeCanvasProvider>
                   <CanvasInteractionProvider>
                     <EditorActionStateProvider>
-                      <PortPositionProvider behavior={portPositionBehavior}>
-                        <HistoryProvider maxEntries={historyMaxEntries}>
-                          <InlineEditingProvider>
-                            <KeyboardShortcutProvider>
-                              <InteractionSettingsProvider value={interactionSettings}>
-                                {children}
-                              </InteractionSettingsProvider>
-                            </KeyboardShortcutProvider>
-                          </InlineEditingProvider>
-                        </HistoryProvider>
-                      </PortPositionProvider>
+                      <PresenceProvider source={presenceSource} user={presenceUser}>
+                        <PortPositionProvider behavior={portPositionBehavior}>
+                          <HistoryProvider maxEntries={historyMaxEntries}>
+                            <InlineEditingProvider>
+                              <KeyboardShortcutProvider>
+                                <InteractionSettingsProvider value={interactionSettings}>
+                                  <SubflowNavigationProvider config={subflowEditorConfig}>
+                                    <GraphSearchProvider>
+                                      <ExecutionStatusProvider>
+                                        <ContextMenuContributionProvider contributions={mergedContextMenuItems}>
+                                          <NodeEditorPluginProvider plugins={loadedPlugins} settingsManager={settingsManager}>
+                                            <KeyboardNavigationProvider>{children}</KeyboardNavigationProvider>
+                                          </NodeEditorPluginProvider>
+                                        </ContextMenuContributionProvider>
+                                      </ExecutionStatusProvider>
+                                    </GraphSearchProvider>
+                                  </SubflowNavigationProvider>
+                                </InteractionSettingsProvider>
+                              </KeyboardShortcutProvider>
+                            </InlineEditingProvider>
+                          </HistoryProvider>
+                        </PortPositionProvider>
+                      </PresenceProvider>
                     </EditorActionStateProvider>
                   </CanvasInteractionProvider>
                 </NodeCanvasProvider>
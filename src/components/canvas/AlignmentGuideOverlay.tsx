@@ -0,0 +1,59 @@
+/**
+ * @file AlignmentGuideOverlay component
+ */
+import * as React from "react";
+import type { AlignmentGuideLine, SpacingGuide } from "../../core/geometry/alignment";
+import { useCanvasInteractionSelector } from "../../contexts/composed/canvas/interaction/context";
+import { useNodeCanvasViewportScale } from "../../contexts/composed/canvas/viewport/context";
+import styles from "./AlignmentGuideOverlay.module.css";
+
+// Length of the end ticks of spacing guides in screen pixels
+const SPACING_TICK_SIZE = 8;
+
+const lineProps = (guide: AlignmentGuideLine) =>
+  guide.axis === "x"
+    ? { x1: guide.position, y1: guide.start, x2: guide.position, y2: guide.end }
+    : { x1: guide.start, y1: guide.position, x2: guide.end, y2: guide.position };
+
+const SpacingMarker: React.FC<{ guide: SpacingGuide; tick: number }> = ({ guide, tick }) => {
+  const { axis, from, to, position } = guide;
+  const point = (along: number, across: number) => (axis === "x" ? `${along} ${across}` : `${across} ${along}`);
+  const d = [
+    `M ${point(from, position)} L ${point(to, position)}`,
+    `M ${point(from, position - tick)} L ${point(from, position + tick)}`,
+    `M ${point(to, position - tick)} L ${point(to, position + tick)}`,
+  ].join(" ");
+  return <path className={styles.spacingGuide} d={d} data-spacing-axis={axis} />;
+};
+
+/**
+ * AlignmentGuideOverlay - Draws smart guides for the nodes being dragged inside the transformed canvas layer.
+ * Strokes do not scale with the viewport so lines stay one pixel wide at every zoom level.
+ */
+export const AlignmentGuideOverlay: React.FC = () => {
+  const guides = useCanvasInteractionSelector((state) => state.alignmentGuides);
+  const scale = useNodeCanvasViewportScale();
+
+  if (!guides) {
+    return null;
+  }
+
+  const tick = SPACING_TICK_SIZE / 2 / scale;
+  return (
+    <svg className={styles.alignmentGuides} aria-hidden="true" data-alignment-guides>
+      {guides.lines.map((guide) => (
+        <line
+          key={`${guide.axis}:${guide.position}`}
+          className={styles.alignmentLine}
+          data-guide-axis={guide.axis}
+          {...lineProps(guide)}
+        />
+      ))}
+      {guides.spacings.map((guide) => (
+        <SpacingMarker key={`${guide.axis}:${guide.from}:${guide.position}`} guide={guide} tick={tick} />
+      ))}
+    </svg>
+  );
+};
+
+AlignmentGuideOverlay.displayName = "AlignmentGuideOverlay";
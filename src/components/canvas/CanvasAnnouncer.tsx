@@ -0,0 +1,155 @@
+/**
+ * @file CanvasAnnouncer component
+ * Visually hidden live region that reads out selection changes, new and removed connections and
+ * deleted nodes. Changes dispatched in one task are combined into a single announcement.
+ */
+import * as React from "react";
+import type { Connection, NodeEditorData } from "../../types/core";
+import { useKeyboardNavigationActions, useKeyboardNavigationState } from "../../contexts/keyboard-navigation/context";
+import { useNodeEditorApi } from "../../contexts/composed/node-editor/context";
+import { useEditorActionStateState } from "../../contexts/composed/EditorActionStateContext";
+import { useNodeDefinitions } from "../../contexts/node-definitions/context";
+import { useInteractionSettings } from "../../contexts/interaction-settings/context";
+import { getNodeAccessibleName, getPortAccessibleName } from "../../core/node/accessibleName";
+import { useI18n } from "../../i18n/context";
+import styles from "./CanvasAnnouncer.module.css";
+
+type PendingChanges = {
+  removedNodeNames: string[];
+  connected: Connection[];
+  disconnected: Connection[];
+};
+
+const createPendingChanges = (): PendingChanges => ({ removedNodeNames: [], connected: [], disconnected: [] });
+
+export const CanvasAnnouncer: React.FC = () => {
+  const { t } = useI18n();
+  const { keyboardShortcuts } = useInteractionSettings();
+  const enabled = keyboardShortcuts.announcements !== false;
+  const { announcement } = useKeyboardNavigationState();
+  const { announce } = useKeyboardNavigationActions();
+  const { getState, getNodePorts, subscribeToChanges } = useNodeEditorApi();
+  const { registry } = useNodeDefinitions();
+  const { selectedNodeIds } = useEditorActionStateState();
+
+  const describeNode = React.useEffectEvent((data: NodeEditorData, nodeId: string): string => {
+    const node = data.nodes[nodeId];
+    return node ? getNodeAccessibleName(node, registry.get(node.type)) : nodeId;
+  });
+
+  const describePort = React.useEffectEvent((data: NodeEditorData, nodeId: string, portId: string): string => {
+    const node = data.nodes[nodeId];
+    if (!node) {
+      return nodeId;
+    }
+    const port = getNodePorts(nodeId).find((candidate) => candidate.id === portId);
+    return getPortAccessibleName(node, port, registry.get(node.type));
+  });
+
+  // Selection
+  const previousSelectionRef = React.useRef(selectedNodeIds);
+  React.useEffect(() => {
+    const previous = previousSelectionRef.current;
+    previousSelectionRef.current = selectedNodeIds;
+    if (!enabled || previous === selectedNodeIds) {
+      return;
+    }
+    const data = getState();
+    if (selectedNodeIds.length === 1) {
+      announce(
+        t("announceNodeSelected", { name: describeNode(data, selectedNodeIds[0]) }) ||
+          `${describeNode(data, selectedNodeIds[0])} selected`,
+      );
+    } else if (selectedNodeIds.length > 1) {
+      announce(
+        t("announceNodesSelected", { count: selectedNodeIds.length }) || `${selectedNodeIds.length} nodes selected`,
+      );
+    } else if (previous.some((nodeId) => data.nodes[nodeId])) {
+      // Deleting the selection clears it too; the deletion announcement covers that case
+      announce(t("announceSelectionCleared") || "Selection cleared");
+    }
+  }, [enabled, selectedNodeIds, getState, announce, t]);
+
+  const flush = React.useEffectEvent((pending: PendingChanges, before: NodeEditorData) => {
+    const after = getState();
+    const messages: string[] = [];
+    const { removedNodeNames, connected, disconnected } = pending;
+    if (removedNodeNames.length === 1) {
+      messages.push(t("announceNodeDeleted", { name: removedNodeNames[0] }) || `${removedNodeNames[0]} deleted`);
+    } else if (removedNodeNames.length > 1) {
+      messages.push(
+        t("announceNodesDeleted", { count: removedNodeNames.length }) || `${removedNodeNames.length} nodes deleted`,
+      );
+    }
+    connected.forEach((connection) => {
+      const from = describePort(after, connection.fromNodeId, connection.fromPortId);
+      const to = describePort(after, connection.toNodeId, connection.toPortId);
+      messages.push(t("announceConnected", { from, to }) || `Connected ${from} to ${to}`);
+    });
+    disconnected.forEach((connection) => {
+      const from = describePort(before, connection.fromNodeId, connection.fromPortId);
+      const to = describePort(before, connection.toNodeId, connection.toPortId);
+      messages.push(t("announceDisconnected", { from, to }) || `Disconnected ${from} from ${to}`);
+    });
+    if (messages.length > 0) {
+      announce(messages.join(". "));
+    }
+  });
+
+  // Deletions and connections
+  React.useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const state = { previous: getState(), pending: null as PendingChanges | null, before: getState() };
+    const unsubscribe = subscribeToChanges((change) => {
+      const previous = state.previous;
+      const next = getState();
+      state.previous = next;
+      if (change.external) {
+        return;
+      }
+      if (!state.pending) {
+        const pending = createPendingChanges();
+        state.pending = pending;
+        state.before = previous;
+        queueMicrotask(() => {
+          if (state.pending === pending) {
+            state.pending = null;
+            flush(pending, state.before);
+          }
+        });
+      }
+      const pending = state.pending;
+      change.removedNodeIds.forEach((nodeId) => {
+        pending.removedNodeNames.push(describeNode(previous, nodeId));
+      });
+      if (previous.connections === next.connections) {
+        return;
+      }
+      Object.values(next.connections).forEach((connection) => {
+        if (!previous.connections[connection.id]) {
+          pending.connected.push(connection);
+        }
+      });
+      Object.values(previous.connections).forEach((connection) => {
+        // Connections removed along with their nodes are covered by the deletion
+        if (!next.connections[connection.id] && next.nodes[connection.fromNodeId] && next.nodes[connection.toNodeId]) {
+          pending.disconnected.push(connection);
+        }
+      });
+    });
+    return () => {
+      state.pending = null;
+      unsubscribe();
+    };
+  }, [enabled, getState, subscribeToChanges]);
+
+  return (
+    <div className={styles.announcer} role="status" aria-live="polite" aria-atomic="true" data-canvas-announcer>
+      {enabled && announcement ? <span key={announcement.id}>{announcement.message}</span> : null}
+    </div>
+  );
+};
+
+CanvasAnnouncer.displayName = "CanvasAnnouncer";
@@ -14,6 +14,7 @@ import type { Position } from "../../types/core";
 import { NODE_DRAG_MIME } from "../../constants/dnd";
 import { usePointerShortcutMatcher } from "../../contexts/interaction-settings/hooks/usePointerShortcutMatcher";
 import { useCanvasPointerActions } from "../../contexts/composed/canvas/interaction/useCanvasPointerActions";
+import { CanvasVisibleNodesProvider } from "../../contexts/composed/canvas/visible-nodes/context";
 
 export type CanvasNodeDropEvent = {
   nodeType: string;
@@ -342,7 +343,7 @@ export const CanvasBase: React.FC<CanvasBaseProps> = ({ children, className, sho
 
       {/* Canvas layer with transform */}
       <div ref={canvasRef} className={styles.canvas} style={{ transform: canvasTransform }}>
-        {children}
+        <CanvasVisibleNodesProvider>{children}</CanvasVisibleNodesProvider>
       </div>
 
       {/* Selection overlay (in screen coordinates, passes through events) */}
@@ -0,0 +1,205 @@
+/**
+ * @file ConnectPortMenu component
+ * Keyboard connect mode: lists the ports the source port can connect to next to its node.
+ * Arrow keys move through the list, Enter connects and Escape cancels; focus returns to the source node.
+ */
+import * as React from "react";
+import type { Node, Port } from "../../types/core";
+import { useKeyboardNavigationActions, useKeyboardNavigationState } from "../../contexts/keyboard-navigation/context";
+import { useNodeEditorApi } from "../../contexts/composed/node-editor/context";
+import { useEditorActionStateActions } from "../../contexts/composed/EditorActionStateContext";
+import { useNodeCanvasApi } from "../../contexts/composed/canvas/viewport/context";
+import { useNodeDefinitions } from "../../contexts/node-definitions/context";
+import { useConnectionOperations } from "../../contexts/node-ports/hooks/useConnectionOperations";
+import { computeConnectablePortIds } from "../../core/port/connectivity/planner";
+import { EMPTY_CONNECTABLE_PORTS } from "../../core/port/connectivity/connectableTypes";
+import { getNodeAccessibleName, getPortAccessibleName } from "../../core/node/accessibleName";
+import { getNodeBoundingBox } from "../../utils/boundingBoxUtils";
+import { useI18n } from "../../i18n/context";
+import styles from "./ConnectPortMenu.module.css";
+
+// Gap between the source node and the menu (screen px)
+const MENU_GAP = 8;
+
+type ConnectOption = {
+  id: string;
+  node: Node;
+  port: Port;
+  label: string;
+};
+
+type ConnectPortListProps = {
+  source: Port;
+};
+
+const ConnectPortList: React.FC<ConnectPortListProps> = ({ source }) => {
+  const { t } = useI18n();
+  const { getState, getNodePorts } = useNodeEditorApi();
+  const { registry } = useNodeDefinitions();
+  const { actions: actionActions } = useEditorActionStateActions();
+  const { store: canvasStore } = useNodeCanvasApi();
+  const { connectPorts } = useConnectionOperations();
+  const { cancelConnect, focusNode } = useKeyboardNavigationActions();
+  const listRef = React.useRef<HTMLUListElement>(null);
+  const listId = React.useId();
+  const [activeIndex, setActiveIndex] = React.useState(0);
+
+  // Targets are fixed when the menu opens, like the highlight during a pointer drag
+  const [{ options, connectable }] = React.useState(() => {
+    const { nodes, connections } = getState();
+    const result = computeConnectablePortIds({
+      fallbackPort: source,
+      nodes,
+      connections,
+      getNodePorts,
+      getNodeDefinition: (type: string) => registry.get(type),
+    });
+    const list = Array.from(result.descriptors.values()).flatMap((descriptor): ConnectOption[] => {
+      const node = nodes[descriptor.nodeId];
+      const port = getNodePorts(descriptor.nodeId)[descriptor.portIndex];
+      if (!node || !port || descriptor.portType === source.type) {
+        return [];
+      }
+      const label = getPortAccessibleName(node, port, registry.get(node.type));
+      return [{ id: descriptor.key, node, port, label }];
+    });
+    list.sort(
+      (a, b) =>
+        a.node.position.y - b.node.position.y ||
+        a.node.position.x - b.node.position.x ||
+        getNodePorts(a.node.id).indexOf(a.port) - getNodePorts(b.node.id).indexOf(b.port),
+    );
+    return { options: list, connectable: result };
+  });
+
+  React.useEffect(() => {
+    actionActions.updateConnectablePorts(connectable);
+    listRef.current?.focus();
+    return () => {
+      actionActions.updateConnectablePorts(EMPTY_CONNECTABLE_PORTS);
+    };
+  }, [actionActions, connectable]);
+
+  const finish = React.useEffectEvent((option: ConnectOption | null) => {
+    if (option) {
+      connectPorts(source, option.port);
+    }
+    cancelConnect();
+    focusNode(source.nodeId);
+  });
+
+  const handleKeyDown = React.useEffectEvent((event: React.KeyboardEvent<HTMLUListElement>) => {
+    const count = options.length;
+    switch (event.key) {
+      case "ArrowDown":
+        if (count > 0) {
+          setActiveIndex((index) => (index + 1) % count);
+        }
+        break;
+      case "ArrowUp":
+        if (count > 0) {
+          setActiveIndex((index) => (index - 1 + count) % count);
+        }
+        break;
+      case "Home":
+        setActiveIndex(0);
+        break;
+      case "End":
+        setActiveIndex(Math.max(0, count - 1));
+        break;
+      case "Enter":
+      case " ":
+        finish(options[activeIndex] ?? null);
+        break;
+      case "Escape":
+        finish(null);
+        break;
+      case "Tab":
+        cancelConnect();
+        return;
+      default:
+        return;
+    }
+    // Keep the canvas shortcuts (arrow navigation, Escape) from acting on the same key
+    event.preventDefault();
+    event.stopPropagation();
+  });
+
+  const handleBlur = React.useEffectEvent((event: React.FocusEvent<HTMLUListElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as globalThis.Node | null)) {
+      cancelConnect();
+    }
+  });
+
+  const sourceNode = getState().nodes[source.nodeId];
+  const style = React.useMemo((): React.CSSProperties | undefined => {
+    if (!sourceNode) {
+      return undefined;
+    }
+    const box = getNodeBoundingBox(sourceNode);
+    const { viewport } = canvasStore.getState();
+    return {
+      left: box.right * viewport.scale + viewport.offset.x + MENU_GAP,
+      top: box.top * viewport.scale + viewport.offset.y,
+    };
+  }, [sourceNode, canvasStore]);
+
+  const sourceName = sourceNode
+    ? getPortAccessibleName(sourceNode, source, registry.get(sourceNode.type))
+    : source.label || source.id;
+  const label = t("connectMenuLabel", { port: sourceName }) || `Connect ${sourceName} to…`;
+  const activeOption = options[activeIndex];
+
+  return (
+    <div className={styles.connectMenu} style={style} data-connect-menu>
+      <div className={styles.title} id={`${listId}-label`}>
+        {label}
+      </div>
+      <ul
+        ref={listRef}
+        className={styles.list}
+        role="listbox"
+        tabIndex={0}
+        aria-labelledby={`${listId}-label`}
+        aria-activedescendant={activeOption ? `${listId}-${activeIndex}` : undefined}
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+      >
+        {options.map((option, index) => (
+          <li
+            key={option.id}
+            id={`${listId}-${index}`}
+            className={styles.option}
+            role="option"
+            aria-selected={index === activeIndex}
+            onPointerDown={(event) => event.preventDefault()}
+            onClick={() => finish(option)}
+          >
+            <span className={styles.nodeName}>
+              {getNodeAccessibleName(option.node, registry.get(option.node.type))}
+            </span>
+            <span className={styles.portName}>{option.port.label || option.port.id}</span>
+          </li>
+        ))}
+        {options.length === 0 && (
+          <li className={styles.empty} role="option" aria-selected={false} aria-disabled>
+            {t("connectMenuEmpty") || "No compatible ports"}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+/**
+ * Renders the connect-mode list while a port is in keyboard connect mode.
+ */
+export const ConnectPortMenu: React.FC = () => {
+  const { connectSource } = useKeyboardNavigationState();
+  if (!connectSource) {
+    return null;
+  }
+  return <ConnectPortList key={`${connectSource.nodeId}:${connectSource.id}`} source={connectSource} />;
+};
+
+ConnectPortMenu.displayName = "ConnectPortMenu";
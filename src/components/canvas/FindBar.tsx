@@ -0,0 +1,239 @@
+/**
+ * @file FindBar component
+ * Searches existing nodes by id, type, title and data, steps through the results with
+ * Enter / Shift+Enter while animating the viewport to each one, and replaces text in node data.
+ */
+import * as React from "react";
+import { ChevronDownIcon, ChevronRightIcon, ChevronUpIcon, CloseIcon } from "../elements/icons";
+import { useGraphSearchActions, useGraphSearchState } from "../../contexts/graph-search/context";
+import { useNodeEditorApi } from "../../contexts/composed/node-editor/context";
+import { useEditorActionStateActions } from "../../contexts/composed/EditorActionStateContext";
+import { useNodeCanvasApi } from "../../contexts/composed/canvas/viewport/context";
+import {
+  getViewportCenteredOn,
+  useViewportAnimation,
+} from "../../contexts/composed/canvas/viewport/hooks/useViewportAnimation";
+import { replaceInNodeData, type GraphSearchResult } from "../../core/node/graphSearch";
+import { getNodeBoundingBox } from "../../utils/boundingBoxUtils";
+import { useI18n } from "../../i18n/context";
+import styles from "./FindBar.module.css";
+
+export const FindBar: React.FC = () => {
+  const { t } = useI18n();
+  const search = useGraphSearchState();
+  const searchActions = useGraphSearchActions();
+  const { getState, actions: editorActions, transaction } = useNodeEditorApi();
+  const { actions: actionActions } = useEditorActionStateActions();
+  const { store: canvasStore } = useNodeCanvasApi();
+  const { animateTo } = useViewportAnimation();
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  const [replacement, setReplacement] = React.useState("");
+
+  React.useEffect(() => {
+    if (search.isOpen) {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    }
+  }, [search.isOpen, search.focusRequest]);
+
+  const reveal = React.useEffectEvent((result: GraphSearchResult | null) => {
+    const node = result ? getState().nodes[result.nodeId] : undefined;
+    if (!node) {
+      return;
+    }
+    actionActions.setInteractionSelection([node.id]);
+    actionActions.setEditingSelection([node.id]);
+    const box = getNodeBoundingBox(node);
+    const { viewport, viewBox } = canvasStore.getState();
+    animateTo(
+      getViewportCenteredOn({ x: box.left, y: box.top, width: box.width, height: box.height }, viewport, viewBox),
+    );
+  });
+
+  const handleStep = React.useEffectEvent((direction: 1 | -1) => {
+    reveal(searchActions.step(direction));
+  });
+
+  const handleReplace = React.useEffectEvent(() => {
+    // The first press only reveals the first result so the user sees what gets replaced
+    const current = search.activeIndex >= 0 ? search.results[search.activeIndex] : undefined;
+    if (!current) {
+      handleStep(1);
+      return;
+    }
+    const node = getState().nodes[current.nodeId];
+    if (!node) {
+      return;
+    }
+    const result = replaceInNodeData(node.data, search.query, replacement, search.toggles);
+    if (result.count > 0) {
+      editorActions.updateNode(node.id, { data: result.data });
+    }
+    // The replaced node usually stops matching; move on to the next result
+    if (search.results.length > 1) {
+      handleStep(1);
+    }
+  });
+
+  const handleReplaceAll = React.useEffectEvent(() => {
+    transaction("Replace All", () => {
+      search.results.forEach(({ nodeId }) => {
+        const node = getState().nodes[nodeId];
+        if (!node) {
+          return;
+        }
+        const result = replaceInNodeData(node.data, search.query, replacement, search.toggles);
+        if (result.count > 0) {
+          editorActions.updateNode(nodeId, { data: result.data });
+        }
+      });
+    });
+  });
+
+  const handleClose = React.useEffectEvent(() => {
+    searchActions.close();
+  });
+
+  const handleFindKeyDown = React.useEffectEvent((event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      handleStep(event.shiftKey ? -1 : 1);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      handleClose();
+    } else if (event.key.toLowerCase() === "f" && (event.ctrlKey || event.metaKey)) {
+      // Keep the browser's page search from opening over the editor's
+      event.preventDefault();
+      event.currentTarget.select();
+    }
+  });
+
+  const handleReplaceKeyDown = React.useEffectEvent((event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      if (event.ctrlKey || event.metaKey) {
+        handleReplaceAll();
+      } else {
+        handleReplace();
+      }
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      handleClose();
+    }
+  });
+
+  if (!search.isOpen) {
+    return null;
+  }
+
+  const total = search.results.length;
+  const status =
+    search.query.length === 0
+      ? ""
+      : total === 0
+        ? t("findBarNoResults") || "No results"
+        : search.activeIndex < 0
+          ? t("findBarResultTotal", { total }) || `${total} results`
+          : t("findBarResultCount", { current: search.activeIndex + 1, total }) ||
+            `${search.activeIndex + 1} of ${total}`;
+
+  return (
+    <div className={styles.findBar} role="search" aria-label={t("findBarAriaLabel") || "Find in graph"} data-find-bar>
+      <button
+        type="button"
+        className={styles.iconButton}
+        onClick={() => searchActions.setReplaceMode(!search.isReplaceMode)}
+        aria-label={t("findBarToggleReplace") || "Toggle replace"}
+        aria-expanded={search.isReplaceMode}
+      >
+        {search.isReplaceMode ? <ChevronDownIcon size={14} /> : <ChevronRightIcon size={14} />}
+      </button>
+      <div className={styles.rows}>
+        <div className={styles.row}>
+          <input
+            ref={inputRef}
+            className={styles.input}
+            type="text"
+            value={search.query}
+            placeholder={t("findBarPlaceholder") || "Find nodes…"}
+            aria-label={t("findBarPlaceholder") || "Find nodes…"}
+            onChange={(event) => searchActions.setQuery(event.target.value)}
+            onKeyDown={handleFindKeyDown}
+            spellCheck={false}
+          />
+          <button
+            type="button"
+            className={styles.toggle}
+            aria-pressed={search.toggles.caseSensitive}
+            aria-label={t("findBarMatchCase") || "Match case"}
+            title={t("findBarMatchCase") || "Match case"}
+            onClick={() => searchActions.setToggles({ caseSensitive: !search.toggles.caseSensitive })}
+          >
+            Aa
+          </button>
+          <button
+            type="button"
+            className={styles.toggle}
+            aria-pressed={search.toggles.wholeWord}
+            aria-label={t("findBarWholeWord") || "Match whole word"}
+            title={t("findBarWholeWord") || "Match whole word"}
+            onClick={() => searchActions.setToggles({ wholeWord: !search.toggles.wholeWord })}
+          >
+            <span className={styles.wholeWordGlyph}>ab</span>
+          </button>
+          <span className={styles.status} aria-live="polite" data-find-bar-status>
+            {status}
+          </span>
+          <button
+            type="button"
+            className={styles.iconButton}
+            onClick={() => handleStep(-1)}
+            disabled={total === 0}
+            aria-label={t("findBarPrevious") || "Previous match"}
+          >
+            <ChevronUpIcon size={14} />
+          </button>
+          <button
+            type="button"
+            className={styles.iconButton}
+            onClick={() => handleStep(1)}
+            disabled={total === 0}
+            aria-label={t("findBarNext") || "Next match"}
+          >
+            <ChevronDownIcon size={14} />
+          </button>
+          <button
+            type="button"
+            className={styles.iconButton}
+            onClick={handleClose}
+            aria-label={t("findBarClose") || "Close"}
+          >
+            <CloseIcon size={14} />
+          </button>
+        </div>
+        {search.isReplaceMode && (
+          <div className={styles.row}>
+            <input
+              className={styles.input}
+              type="text"
+              value={replacement}
+              placeholder={t("findBarReplacePlaceholder") || "Replace with…"}
+              aria-label={t("findBarReplacePlaceholder") || "Replace with…"}
+              onChange={(event) => setReplacement(event.target.value)}
+              onKeyDown={handleReplaceKeyDown}
+              spellCheck={false}
+            />
+            <button type="button" className={styles.textButton} onClick={handleReplace} disabled={total === 0}>
+              {t("findBarReplace") || "Replace"}
+            </button>
+            <button type="button" className={styles.textButton} onClick={handleReplaceAll} disabled={total === 0}>
+              {t("findBarReplaceAll") || "Replace all"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+FindBar.displayName = "FindBar";
@@ -5,9 +5,17 @@ import * as React from "react";
 import { CanvasBase, type CanvasNodeDropEvent } from "./CanvasBase";
 import { ConnectionLayer } from "../connection/ConnectionLayer";
 import { NodeLayer } from "../node/layer/NodeLayer";
+import { RemoteCursors } from "./RemoteCursors";
+import { AlignmentGuideOverlay } from "./AlignmentGuideOverlay";
+import { SubflowEditor } from "./SubflowEditor";
+import { SubflowBreadcrumbs } from "./SubflowBreadcrumbs";
+import { FindBar } from "./FindBar";
+import { ConnectPortMenu } from "./ConnectPortMenu";
+import { CanvasAnnouncer } from "./CanvasAnnouncer";
 import { useNodeEditor } from "../../contexts/composed/node-editor/context";
 import { CanvasPointerActionProvider } from "../../contexts/composed/canvas/pointer-action-provider";
 import { useEditorActionState } from "../../contexts/composed/EditorActionStateContext";
+import { useSubflowNavigation } from "../../contexts/subflow/context";
 
 export type NodeCanvasProps = {
   showGrid?: boolean;
@@ -18,6 +26,7 @@ export type NodeCanvasProps = {
  * NodeCanvas component that renders the canvas base, connection layer, and node layer.
  * Port positions and configuration should be provided via PortPositionProvider context.
  * Settings like showGrid and doubleClickToEdit are retrieved from NodeEditorContext if not provided.
+ * While a subflow is open, its nested editor takes the place of the canvas.
  */
 export const NodeCanvas: React.FC<NodeCanvasProps> = ({
   showGrid: showGridProp,
@@ -25,6 +34,7 @@ export const NodeCanvas: React.FC<NodeCanvasProps> = ({
 }) => {
   const { settings } = useNodeEditor();
   const { nodeOperations } = useEditorActionState();
+  const { activeSubflowId, trail } = useSubflowNavigation();
 
   const showGrid = showGridProp ?? settings.showGrid;
   const doubleClickToEdit = doubleClickToEditProp ?? settings.doubleClickToEdit;
@@ -36,12 +46,22 @@ export const NodeCanvas: React.FC<NodeCanvasProps> = ({
     [nodeOperations],
   );
 
+  if (activeSubflowId) {
+    return <SubflowEditor nodeId={activeSubflowId} />;
+  }
+
   return (
     <CanvasPointerActionProvider>
       <CanvasBase showGrid={showGrid} onNodeDrop={handleNodeDrop}>
         <ConnectionLayer />
         <NodeLayer doubleClickToEdit={doubleClickToEdit} />
+        <AlignmentGuideOverlay />
+        <RemoteCursors />
       </CanvasBase>
+      {trail.length > 1 && <SubflowBreadcrumbs trail={trail} />}
+      <FindBar />
+      <ConnectPortMenu />
+      <CanvasAnnouncer />
     </CanvasPointerActionProvider>
   );
 };
@@ -0,0 +1,46 @@
+/**
+ * @file RemoteCursors component
+ */
+import * as React from "react";
+import { usePresencePeers } from "../../contexts/presence/context";
+import { useNodeCanvasViewportScale } from "../../contexts/composed/canvas/viewport/context";
+import styles from "./RemoteCursors.module.css";
+
+/**
+ * RemoteCursors - Renders the pointers of other users inside the transformed canvas layer.
+ * Cursors are counter-scaled so they keep the same on-screen size at every zoom level.
+ */
+export const RemoteCursors: React.FC = () => {
+  const peers = usePresencePeers();
+  const scale = useNodeCanvasViewportScale();
+
+  if (peers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={styles.remoteCursors}>
+      {peers.map(({ user, pointer }) =>
+        pointer ? (
+          <div
+            key={user.id}
+            className={styles.remoteCursor}
+            style={{ transform: `translate(${pointer.x}px, ${pointer.y}px) scale(${1 / scale})` }}
+            data-presence-user-id={user.id}
+          >
+            <svg className={styles.remoteCursorArrow} width="16" height="16" viewBox="0 0 16 16" aria-hidden="true">
+              <path d="M1 1 L1 13 L4.5 9.5 L7 15 L9 14 L6.5 8.5 L11.5 8.5 Z" fill={user.color} />
+            </svg>
+            {user.name ? (
+              <span className={styles.remoteCursorLabel} style={{ backgroundColor: user.color }}>
+                {user.name}
+              </span>
+            ) : null}
+          </div>
+        ) : null,
+      )}
+    </div>
+  );
+};
+
+RemoteCursors.displayName = "RemoteCursors";
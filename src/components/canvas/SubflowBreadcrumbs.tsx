@@ -0,0 +1,40 @@
+/**
+ * @file SubflowBreadcrumbs component
+ * Path from the root graph to the opened subflow; every entry but the last navigates back.
+ */
+import * as React from "react";
+import { ChevronRightIcon } from "../elements/icons";
+import type { SubflowBreadcrumb } from "../../contexts/subflow/context";
+import styles from "./SubflowBreadcrumbs.module.css";
+
+export type SubflowBreadcrumbsProps = {
+  trail: readonly SubflowBreadcrumb[];
+};
+
+export const SubflowBreadcrumbs: React.FC<SubflowBreadcrumbsProps> = ({ trail }) => {
+  return (
+    <nav className={styles.subflowBreadcrumbs} aria-label="Subflow path" data-subflow-breadcrumbs>
+      <ol className={styles.list}>
+        {trail.map((entry, index) => {
+          const isCurrent = index === trail.length - 1;
+          return (
+            <li key={entry.nodeId ?? "root"} className={styles.item}>
+              {index > 0 && <ChevronRightIcon size={12} className={styles.separator} />}
+              {isCurrent ? (
+                <span className={styles.current} aria-current="page">
+                  {entry.label}
+                </span>
+              ) : (
+                <button type="button" className={styles.link} onClick={entry.navigate}>
+                  {entry.label}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+};
+
+SubflowBreadcrumbs.displayName = "SubflowBreadcrumbs";
@@ -0,0 +1,74 @@
+/**
+ * @file SubflowEditor component
+ * Edits the nested graph of a subflow node with a full editor of its own. The nested editor runs
+ * in controlled mode on `node.data.graph`, so every inner edit becomes one update of the outer
+ * node and lands in the outer history as well.
+ */
+import * as React from "react";
+import { NodeEditorCore } from "../../NodeEditorCore";
+import { NodeEditorCanvas } from "./NodeEditorCanvas";
+import { NodeCanvas } from "./NodeCanvas";
+import { useNodeEditorApi, useNodeEditorSelector } from "../../contexts/composed/node-editor/context";
+import { useNodeDefinitionList } from "../../contexts/node-definitions/hooks/useNodeDefinitionList";
+import { useSubflowNavigation } from "../../contexts/subflow/context";
+import { useI18n } from "../../i18n/context";
+import { isSubflowNodeData } from "../../node-definitions/subflow";
+import type { NodeEditorData, NodeId } from "../../types/core";
+
+export type SubflowEditorProps = {
+  nodeId: NodeId;
+};
+
+export const SubflowEditor: React.FC<SubflowEditorProps> = ({ nodeId }) => {
+  const { config } = useSubflowNavigation();
+  const { locale } = useI18n();
+  const nodeDefinitions = useNodeDefinitionList();
+  const { actions, getState } = useNodeEditorApi();
+  const graph = useNodeEditorSelector(
+    React.useCallback(
+      (state: NodeEditorData) => {
+        const data = state.nodes[nodeId]?.data;
+        return isSubflowNodeData(data) ? data.graph : null;
+      },
+      [nodeId],
+    ),
+  );
+
+  const handleDataChange = React.useCallback(
+    (next: NodeEditorData) => {
+      const node = getState().nodes[nodeId];
+      if (!node || !isSubflowNodeData(node.data)) {
+        return;
+      }
+      const current = node.data.graph;
+      if (next.nodes === current.nodes && next.connections === current.connections) {
+        return;
+      }
+      actions.updateNode(nodeId, {
+        data: { ...node.data, graph: { nodes: next.nodes, connections: next.connections } },
+      });
+    },
+    [actions, getState, nodeId],
+  );
+
+  if (!graph) {
+    return null;
+  }
+
+  return (
+    <NodeEditorCore
+      {...config}
+      data={graph}
+      onDataChange={handleDataChange}
+      nodeDefinitions={nodeDefinitions}
+      includeDefaultDefinitions={false}
+      locale={locale}
+    >
+      <NodeEditorCanvas>
+        <NodeCanvas />
+      </NodeEditorCanvas>
+    </NodeEditorCore>
+  );
+};
+
+SubflowEditor.displayName = "SubflowEditor";
@@ -0,0 +1,125 @@
+/**
+ * @file ConnectionLabel component
+ * Renders the text badge of a connection and its inline editor.
+ */
+import * as React from "react";
+import type { Position, Size } from "../../types/core";
+import { CONNECTION_LABEL_FONT_SIZE } from "../../core/connection/label";
+import styles from "./ConnectionView.module.css";
+
+const EDITOR_MIN_WIDTH = 96;
+
+export type ConnectionLabelProps = {
+  text: string;
+  /** Center of the label in canvas coordinates */
+  position: Position;
+  size: Size;
+  isEditing: boolean;
+  editorAriaLabel: string;
+  onPointerDown: (e: React.PointerEvent) => void;
+  onDoubleClick: (e: React.MouseEvent) => void;
+  onCommit: (text: string) => void;
+  onCancel: () => void;
+};
+
+/**
+ * Connection label badge; switches to a text input while editing.
+ */
+export const ConnectionLabel: React.FC<ConnectionLabelProps> = ({
+  text,
+  position,
+  size,
+  isEditing,
+  editorAriaLabel,
+  onPointerDown,
+  onDoubleClick,
+  onCommit,
+  onCancel,
+}) => {
+  const closedRef = React.useRef(false);
+
+  React.useEffect(() => {
+    if (isEditing) {
+      closedRef.current = false;
+    }
+  }, [isEditing]);
+
+  const close = (commit: boolean, value: string) => {
+    if (closedRef.current) {
+      return;
+    }
+    closedRef.current = true;
+    if (commit) {
+      onCommit(value);
+    } else {
+      onCancel();
+    }
+  };
+
+  if (isEditing) {
+    const width = Math.max(size.width, EDITOR_MIN_WIDTH);
+    return (
+      <foreignObject
+        x={position.x - width / 2}
+        y={position.y - size.height / 2}
+        width={width}
+        height={size.height}
+        className={styles.labelEditorContainer}
+      >
+        <input
+          className={styles.labelEditor}
+          style={{ fontSize: CONNECTION_LABEL_FONT_SIZE }}
+          defaultValue={text}
+          aria-label={editorAriaLabel}
+          autoFocus
+          onPointerDown={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => {
+            e.stopPropagation();
+            if (e.key === "Enter") {
+              e.preventDefault();
+              close(true, e.currentTarget.value);
+            } else if (e.key === "Escape") {
+              e.preventDefault();
+              close(false, text);
+            }
+          }}
+          onBlur={(e) => close(true, e.currentTarget.value)}
+        />
+      </foreignObject>
+    );
+  }
+
+  if (text.length === 0) {
+    return null;
+  }
+
+  return (
+    <g
+      className={styles.label}
+      transform={`translate(${position.x}, ${position.y})`}
+      onPointerDown={onPointerDown}
+      onDoubleClick={onDoubleClick}
+      data-testid="connection-label"
+    >
+      <rect
+        className={styles.labelBackground}
+        x={-size.width / 2}
+        y={-size.height / 2}
+        width={size.width}
+        height={size.height}
+        rx={size.height / 2}
+      />
+      <text
+        className={styles.labelText}
+        textAnchor="middle"
+        dominantBaseline="central"
+        fontSize={CONNECTION_LABEL_FONT_SIZE}
+      >
+        {text}
+      </text>
+    </g>
+  );
+};
+
+ConnectionLabel.displayName = "ConnectionLabel";
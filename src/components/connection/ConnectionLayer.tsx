@@ -3,7 +3,8 @@
  * Renders all connections and handles connection interactions.
  */
 import * as React from "react";
-import { useNodeEditorSelector } from "../../contexts/composed/node-editor/context";
+import { useNodeEditor, useNodeEditorSelector } from "../../contexts/composed/node-editor/context";
+import { useCanvasVisibleNodes } from "../../contexts/composed/canvas/visible-nodes/context";
 import { ConnectionRenderer } from "./ConnectionRenderer";
 import { DragConnection } from "./DragConnection";
 import styles from "./ConnectionLayer.module.css";
@@ -12,18 +13,48 @@ export type ConnectionLayerProps = {
   className?: string;
 };
 
+type ConnectionListProps = {
+  lazyLoading: boolean;
+};
+
+/**
+ * With lazy loading on, connections whose endpoints are both outside the node layer's visible set
+ * are skipped, so the ports of nodes nobody sees are never resolved. Above the render budget the
+ * node layer's snapshot draws the connections instead.
+ */
+const ConnectionListComponent: React.FC<ConnectionListProps> = ({ lazyLoading }) => {
+  const connections = useNodeEditorSelector((state) => state.connections);
+  const { nodeIds: visibleNodeIds, isOverBudget } = useCanvasVisibleNodes();
+
+  const renderedConnections = React.useMemo(() => {
+    if (isOverBudget) {
+      return [];
+    }
+    const list = Object.values(connections);
+    if (!lazyLoading) {
+      return list;
+    }
+    const visible = new Set(visibleNodeIds);
+    return list.filter((connection) => visible.has(connection.fromNodeId) || visible.has(connection.toNodeId));
+  }, [connections, visibleNodeIds, isOverBudget, lazyLoading]);
+
+  return renderedConnections.map((connection) => <ConnectionRenderer key={connection.id} connection={connection} />);
+};
+
+// Memoized apart from the layer, which re-renders on every editor context update to read settings
+const ConnectionList = React.memo(ConnectionListComponent);
+ConnectionList.displayName = "ConnectionList";
+
 /**
  * ConnectionLayer - Renders all connections and the drag connection preview.
  * Each ConnectionRenderer derives its own interaction state from context.
  */
 const ConnectionLayerComponent: React.FC<ConnectionLayerProps> = ({ className }) => {
-  const connections = useNodeEditorSelector((state) => state.connections);
+  const { settings } = useNodeEditor();
 
   return (
     <svg className={className ? `${styles.root} ${className}` : styles.root} data-connection-layer="root">
-      {Object.values(connections).map((connection) => (
-        <ConnectionRenderer key={connection.id} connection={connection} />
-      ))}
+      <ConnectionList lazyLoading={settings.lazyLoading} />
       <DragConnection />
     </svg>
   );
@@ -20,11 +20,22 @@ import { getPreviewPosition } from "../../core/geometry/position";
 import { hasPositionChanged, hasSizeChanged } from "../../core/geometry/comparators";
 import { getNodeResizeSize } from "../../core/node/resizeState";
 import { ensurePort } from "../../core/port/identity/guards";
+import { collectConnectionLabelObstacles, getConnectionLabel, setConnectionLabel } from "../../core/connection/label";
+import { getConnectionWaypoints, translateConnectionWaypoints } from "../../core/connection/waypoints";
 import { useConnectionPathCalculator, useConnectionPathModelCalculator } from "../../contexts/connection-behavior/context";
 import type { ConnectionViewProps } from "./ConnectionView";
-import type { Connection, Node as EditorNode, Port as CorePort, Position, Size } from "../../types/core";
+import type { Bounds, Connection, Node as EditorNode, Port as CorePort, Position, Size } from "../../types/core";
 import type { PointerType } from "../../types/interaction";
 
+const NO_LABEL_OBSTACLES: readonly Bounds[] = [];
+
+const areBoundsListsEqual = (a: readonly Bounds[], b: readonly Bounds[]): boolean =>
+  a.length === b.length &&
+  a.every(
+    (box, index) =>
+      box.x === b[index].x && box.y === b[index].y && box.width === b[index].width && box.height === b[index].height,
+  );
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -47,6 +58,10 @@ type ConnectionRendererInnerProps = {
   isSelected: boolean;
   isHovered: boolean;
   isAdjacentToSelectedNode: boolean;
+  isSpliceTarget: boolean;
+  labelObstacles: readonly Bounds[];
+  onLabelChange: (connectionId: string, text: string) => void;
+  onWaypointsChange: (connectionId: string, waypoints: Position[]) => void;
   onPointerDown: (e: React.PointerEvent, connectionId: string) => void;
   onPointerEnter: (e: React.PointerEvent, connectionId: string) => void;
   onPointerLeave: (e: React.PointerEvent, connectionId: string) => void;
@@ -71,6 +86,10 @@ const ConnectionRendererInnerComponent: React.FC<ConnectionRendererInnerProps> =
   isSelected,
   isHovered,
   isAdjacentToSelectedNode,
+  isSpliceTarget,
+  labelObstacles,
+  onLabelChange,
+  onWaypointsChange,
   onPointerDown,
   onPointerEnter,
   onPointerLeave,
@@ -93,6 +112,10 @@ const ConnectionRendererInnerComponent: React.FC<ConnectionRendererInnerProps> =
       pathCalculators={pathCalculators}
       isSelected={isSelected}
       isHovered={isHovered}
+      isSpliceTarget={isSpliceTarget}
+      labelObstacles={labelObstacles}
+      onLabelChange={onLabelChange}
+      onWaypointsChange={onWaypointsChange}
       onPointerDown={onPointerDown}
       onPointerEnter={onPointerEnter}
       onPointerLeave={onPointerLeave}
@@ -111,7 +134,10 @@ const areInnerPropsEqual = (prev: ConnectionRendererInnerProps, next: Connection
   if (prev.isSelected !== next.isSelected || prev.isHovered !== next.isHovered) {
     return false;
   }
-  if (prev.isAdjacentToSelectedNode !== next.isAdjacentToSelectedNode) {
+  if (prev.isAdjacentToSelectedNode !== next.isAdjacentToSelectedNode || prev.isSpliceTarget !== next.isSpliceTarget) {
+    return false;
+  }
+  if (prev.labelObstacles !== next.labelObstacles) {
     return false;
   }
   if (prev.fromNode !== next.fromNode || prev.toNode !== next.toNode) {
@@ -143,7 +169,7 @@ ConnectionRendererInner.displayName = "ConnectionRendererInner";
 // ============================================================================
 
 const ConnectionRendererContainerComponent: React.FC<ConnectionRendererProps> = ({ connection }) => {
-  const { getNodePorts } = useNodeEditorApi();
+  const { getNodePorts, actions: nodeEditorActions } = useNodeEditorApi();
   const calculatePath = useConnectionPathCalculator();
   const createPathModel = useConnectionPathModelCalculator();
   const pathCalculators = React.useMemo(
@@ -159,6 +185,18 @@ const ConnectionRendererContainerComponent: React.FC<ConnectionRendererProps> =
       areEqual: (a, b) => a.fromNode === b.fromNode && a.toNode === b.toNode,
     },
   );
+  // Only labelled connections track surrounding nodes, so unlabelled ones skip re-rendering on unrelated moves
+  const labelObstacles = useNodeEditorSelector(
+    (state) => {
+      const from = state.nodes[connection.fromNodeId];
+      const to = state.nodes[connection.toNodeId];
+      if (!from || !to || !getConnectionLabel(connection)) {
+        return NO_LABEL_OBSTACLES;
+      }
+      return collectConnectionLabelObstacles(state.nodes, from, to);
+    },
+    { areEqual: areBoundsListsEqual },
+  );
   const { state: actionState, actions: actionActions } = useEditorActionState();
   const utils = useNodeCanvasUtils();
   const interactionSettings = useInteractionSettings();
@@ -222,6 +260,20 @@ const ConnectionRendererContainerComponent: React.FC<ConnectionRendererProps> =
   );
 
   const { fromDragOffset, toDragOffset, fromResizeSize, toResizeSize } = interactionPreview;
+  const isSpliceTarget = useCanvasInteractionSelector((state) => state.spliceConnectionId === connection.id);
+
+  // Waypoints travel with the drag preview when both endpoint nodes are dragged together
+  const previewConnection = React.useMemo(() => {
+    if (
+      !fromDragOffset ||
+      !toDragOffset ||
+      hasPositionChanged(fromDragOffset, toDragOffset) ||
+      getConnectionWaypoints(connection).length === 0
+    ) {
+      return connection;
+    }
+    return { ...connection, waypoints: translateConnectionWaypoints(getConnectionWaypoints(connection), fromDragOffset) };
+  }, [connection, fromDragOffset, toDragOffset]);
 
   // Get nodes
   const { fromNode, toNode } = nodesForConnection;
@@ -276,6 +328,14 @@ const ConnectionRendererContainerComponent: React.FC<ConnectionRendererProps> =
     actionActions.selectConnection(connectionId, matchesMultiSelect);
   });
 
+  const handleLabelChange = React.useEffectEvent((connectionId: string, text: string) => {
+    nodeEditorActions.updateConnection(connectionId, { data: setConnectionLabel(connection.data, { text }) });
+  });
+
+  const handleWaypointsChange = React.useEffectEvent((connectionId: string, waypoints: Position[]) => {
+    nodeEditorActions.updateConnection(connectionId, { waypoints: waypoints.length > 0 ? waypoints : undefined });
+  });
+
   const handlePointerEnter = React.useEffectEvent((_e: React.PointerEvent, connectionId: string) => {
     actionActions.setHoveredConnection(connectionId);
   });
@@ -333,7 +393,7 @@ const ConnectionRendererContainerComponent: React.FC<ConnectionRendererProps> =
 
   return (
     <ConnectionRendererInner
-      connection={connection}
+      connection={previewConnection}
       fromNode={fromNode}
       toNode={toNode}
       fromPort={fromPort}
@@ -346,6 +406,10 @@ const ConnectionRendererContainerComponent: React.FC<ConnectionRendererProps> =
       isSelected={isSelected}
       isHovered={isHovered}
       isAdjacentToSelectedNode={isAdjacentToSelectedNode}
+      isSpliceTarget={isSpliceTarget}
+      labelObstacles={labelObstacles}
+      onLabelChange={handleLabelChange}
+      onWaypointsChange={handleWaypointsChange}
       onPointerDown={handlePointerDown}
       onPointerEnter={handlePointerEnter}
       onPointerLeave={handlePointerLeave}
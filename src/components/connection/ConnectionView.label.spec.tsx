@@ -0,0 +1,64 @@
+/**
+ * @file ConnectionView label spec
+ * Tests for connection labels stored in `Connection.data` and their inline editor.
+ */
+import React from "react";
+import { render, fireEvent, screen } from "@testing-library/react";
+import { NodeEditor } from "../../NodeEditor";
+import type { NodeEditorData } from "../../types/core";
+import { asNodeDefinition } from "../../types/NodeDefinition";
+import { StandardNodeDefinition } from "../../node-definitions/standard";
+
+const createData = (data?: Record<string, unknown>): NodeEditorData => ({
+  nodes: {
+    a: { id: "a", type: "standard", position: { x: 100, y: 100 }, data: { title: "A" } },
+    b: { id: "b", type: "standard", position: { x: 500, y: 100 }, data: { title: "B" } },
+  },
+  connections: {
+    c1: { id: "c1", fromNodeId: "a", fromPortId: "output", toNodeId: "b", toPortId: "input", data },
+  },
+});
+
+const renderEditor = (initialData: NodeEditorData, onDataChange?: (data: NodeEditorData) => void) =>
+  render(
+    <NodeEditor
+      initialData={initialData}
+      nodeDefinitions={[asNodeDefinition(StandardNodeDefinition)]}
+      includeDefaultDefinitions={false}
+      onDataChange={onDataChange}
+    />,
+  );
+
+describe("Connection labels", () => {
+  it("renders the label stored in connection data", () => {
+    renderEditor(createData({ label: "yes" }));
+
+    expect(screen.getByTestId("connection-label").textContent).toBe("yes");
+  });
+
+  it("edits the label inline on double-click", () => {
+    const changes: NodeEditorData[] = [];
+    renderEditor(createData(), (data) => changes.push(data));
+    expect(screen.queryByTestId("connection-label")).toBeNull();
+
+    const path = document.querySelector('[data-connection-id="c1"] path:not([data-presence-user-id])');
+    fireEvent.doubleClick(path!);
+    const input = screen.getByRole("textbox", { name: "Connection label" });
+    fireEvent.change(input, { target: { value: "approved" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(screen.getByTestId("connection-label").textContent).toBe("approved");
+    expect(changes.at(-1)?.connections.c1.data).toEqual({ label: "approved" });
+  });
+
+  it("keeps the label when editing is cancelled", () => {
+    renderEditor(createData({ label: "yes" }));
+
+    fireEvent.doubleClick(screen.getByTestId("connection-label"));
+    const input = screen.getByRole("textbox", { name: "Connection label" });
+    fireEvent.change(input, { target: { value: "no" } });
+    fireEvent.keyDown(input, { key: "Escape" });
+
+    expect(screen.getByTestId("connection-label").textContent).toBe("yes");
+  });
+});
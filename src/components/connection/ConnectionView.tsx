@@ -3,7 +3,7 @@
  * Split into Container (context-aware) and Inner (pure rendering) for optimal memoization.
  */
 import * as React from "react";
-import type { Connection, Node, Port, Position } from "../../types/core";
+import type { Bounds, Connection, Node, Port, Position } from "../../types/core";
 import { hasAnyPositionChanged, hasAnySizeChanged } from "../../core/geometry/comparators";
 import { hasPortPositionChanged } from "../../core/port/identity/comparators";
 import { useDynamicConnectionPoint } from "../../contexts/node-ports/hooks/usePortPosition";
@@ -12,6 +12,8 @@ import type { ConnectionEndpoints } from "../../core/connection/endpoints";
 import type { ConnectionPathCalculators, ConnectionRenderContext, PortDefinition } from "../../types/NodeDefinition";
 import type { ConnectionPathCalculationContext } from "../../types/connectionBehavior";
 import { useConnectionPathCalculator, useConnectionPathModelCalculator } from "../../contexts/connection-behavior/context";
+import { useRemoteConnectionSelection } from "../../contexts/presence/context";
+import type { PresenceUser } from "../../core/collaboration/presence";
 import {
   CONNECTION_APPEARANCES,
   determineConnectionInteractionPhase,
@@ -21,9 +23,29 @@ import {
 } from "../../core/connection/appearance";
 import { createConnectionRenderPathApi } from "../../core/connection/renderPathApi";
 import { createMarkerGeometry, placeMarkerGeometry } from "../../core/connection/marker";
+import {
+  estimateConnectionLabelSize,
+  getConnectionLabel,
+  placeConnectionLabel,
+  type ConnectionLabel as ConnectionLabelValue,
+} from "../../core/connection/label";
+import {
+  getConnectionWaypoints,
+  insertConnectionWaypoint,
+  moveConnectionWaypoint,
+  removeConnectionWaypoint,
+} from "../../core/connection/waypoints";
+import { useNodeCanvasUtils } from "../../contexts/composed/canvas/viewport/context";
+import { useDocumentPointerEvents } from "../../hooks/useDocumentPointerEvents";
+import { useI18n } from "../../i18n/context";
+import { ConnectionLabel } from "./ConnectionLabel";
 import styles from "./ConnectionView.module.css";
 
 const DIRECTION_MARKER_RADIUS = 2;
+// Stroke width of the outline drawn for each remote user selecting the connection
+const REMOTE_SELECTION_STROKE_WIDTH = 4;
+const NO_LABEL_OBSTACLES: readonly Bounds[] = [];
+const WAYPOINT_HANDLE_RADIUS = 5;
 
 // ============================================================================
 // Types
@@ -38,6 +60,8 @@ export type ConnectionViewProps = {
   isSelected: boolean;
   isHovered: boolean;
   isAdjacentToSelectedNode?: boolean;
+  /** A node dragged over the connection will be spliced into it on drop */
+  isSpliceTarget?: boolean;
   isDragging?: boolean;
   dragProgress?: number;
   fromNodePosition?: Position;
@@ -49,6 +73,15 @@ export type ConnectionViewProps = {
    * Custom connection renderers can use this to compute the path without calling hooks.
    */
   pathCalculators?: ConnectionPathCalculators;
+  /** Node bounds the label should avoid overlapping */
+  labelObstacles?: readonly Bounds[];
+  /** Called when the label is edited inline; inline editing is disabled when omitted */
+  onLabelChange?: (connectionId: string, text: string) => void;
+  /**
+   * Called with the full waypoint list when waypoints are added, dragged or removed;
+   * waypoint editing is disabled when omitted
+   */
+  onWaypointsChange?: (connectionId: string, waypoints: Position[]) => void;
   onPointerDown?: (e: React.PointerEvent, connectionId: string) => void;
   onPointerEnter?: (e: React.PointerEvent, connectionId: string) => void;
   onPointerLeave?: (e: React.PointerEvent, connectionId: string) => void;
@@ -60,17 +93,32 @@ type ConnectionViewInnerProps = {
   /** Connection endpoints (output → input) */
   endpoints: ConnectionEndpoints;
   isSelected: boolean;
+  /** Other users selecting this connection */
+  remoteSelections: readonly PresenceUser[];
   isHovered: boolean;
   isAdjacentToSelectedNode: boolean;
+  isSpliceTarget: boolean;
   isDragging: boolean;
   dragProgress: number;
   pathCalculators: ConnectionPathCalculators;
   customRenderer: PortDefinition["renderConnection"] | undefined;
   renderContext: ConnectionRenderContext;
+  label: ConnectionLabelValue | null;
+  labelObstacles: readonly Bounds[];
+  isEditingLabel: boolean;
+  waypoints: readonly Position[];
+  showWaypointHandles: boolean;
   onPointerDown: (e: React.PointerEvent) => void;
+  onPathPointerDown: (e: React.PointerEvent) => void;
   onPointerEnter: (e: React.PointerEvent) => void;
   onPointerLeave: (e: React.PointerEvent) => void;
   onContextMenu: (e: React.MouseEvent) => void;
+  onDoubleClick: (e: React.MouseEvent) => void;
+  onLabelDoubleClick: (e: React.MouseEvent) => void;
+  onLabelCommit: (text: string) => void;
+  onLabelCancel: () => void;
+  onWaypointPointerDown: (e: React.PointerEvent, index: number) => void;
+  onWaypointDoubleClick: (e: React.MouseEvent, index: number) => void;
 };
 
 // ============================================================================
@@ -81,23 +129,44 @@ const ConnectionViewInnerComponent: React.FC<ConnectionViewInnerProps> = ({
   connectionId,
   endpoints,
   isSelected,
+  remoteSelections,
   isHovered,
   isAdjacentToSelectedNode,
+  isSpliceTarget,
   isDragging,
   dragProgress,
   pathCalculators,
   customRenderer,
   renderContext,
+  label,
+  labelObstacles,
+  isEditingLabel,
+  waypoints,
+  showWaypointHandles,
   onPointerDown,
+  onPathPointerDown,
   onPointerEnter,
   onPointerLeave,
   onContextMenu,
+  onDoubleClick,
+  onLabelDoubleClick,
+  onLabelCommit,
+  onLabelCancel,
+  onWaypointPointerDown,
+  onWaypointDoubleClick,
 }) => {
+  const { t } = useI18n();
   const adjacency: ConnectionAdjacency = isAdjacentToSelectedNode ? "adjacent" : "self";
 
   const interactionPhase = React.useMemo<ConnectionInteractionPhase>(
-    () => determineConnectionInteractionPhase({ isDragging, dragProgress, isSelected, isHovered }),
-    [isDragging, dragProgress, isSelected, isHovered],
+    () =>
+      determineConnectionInteractionPhase({
+        isDragging,
+        dragProgress,
+        isSelected,
+        isHovered: isHovered || isSpliceTarget,
+      }),
+    [isDragging, dragProgress, isSelected, isHovered, isSpliceTarget],
   );
 
   const visualAppearance = React.useMemo<ConnectionVisualAppearance>(
@@ -124,13 +193,13 @@ const ConnectionViewInnerComponent: React.FC<ConnectionViewInnerProps> = ({
     ],
   );
 
-  const { pathData, midAndAngle } = React.useMemo(() => {
+  const { pathModel, pathData, midAndAngle } = React.useMemo(() => {
     const model = pathCalculators.createPathModel({
       outputPosition: endpoints.outputPosition,
       inputPosition: endpoints.inputPosition,
       ...pathCalculationContext,
     });
-    return { pathData: model.toPathData(), midAndAngle: model.pointAt(0.5) };
+    return { pathModel: model, pathData: model.toPathData(), midAndAngle: model.pointAt(0.5) };
   },
     [
       pathCalculators,
@@ -146,6 +215,17 @@ const ConnectionViewInnerComponent: React.FC<ConnectionViewInnerProps> = ({
     ],
   );
 
+  const labelText = label?.text ?? "";
+  const labelPosition = label?.position;
+  const labelLayout = React.useMemo(() => {
+    if (labelText.length === 0 && !isEditingLabel) {
+      return null;
+    }
+    const size = estimateConnectionLabelSize(labelText);
+    const placement = placeConnectionLabel(pathModel, labelPosition ?? 0.5, size, labelObstacles);
+    return { size, position: { x: placement.x, y: placement.y } };
+  }, [pathModel, labelText, labelPosition, labelObstacles, isEditingLabel]);
+
   const arrowGeometry = React.useMemo(
     () =>
       createMarkerGeometry(visualAppearance.arrowHead.shape, {
@@ -172,17 +252,29 @@ const ConnectionViewInnerComponent: React.FC<ConnectionViewInnerProps> = ({
         data-hovered={isHovered}
         data-dragging={isDragging}
         data-adjacent-node-selected={isAdjacentToSelectedNode}
+        data-splice-target={isSpliceTarget ? true : undefined}
         shapeRendering="geometricPrecision"
         data-connection-id={connectionId}
+        data-remote-selected={remoteSelections.length > 0 ? true : undefined}
       >
+        {remoteSelections.map((user, index) => (
+          <path
+            key={user.id}
+            d={pathData}
+            className={styles.remoteSelection}
+            style={{ stroke: user.color, strokeWidth: REMOTE_SELECTION_STROKE_WIDTH * (remoteSelections.length - index) }}
+            data-presence-user-id={user.id}
+          />
+        ))}
         <path
           d={pathData}
           style={visualAppearance.path.style}
           className={styles.connectionBase}
-          onPointerDown={onPointerDown}
+          onPointerDown={onPathPointerDown}
           onPointerEnter={onPointerEnter}
           onPointerLeave={onPointerLeave}
           onContextMenu={onContextMenu}
+          onDoubleClick={onDoubleClick}
         />
         {visualAppearance.stripes.map((stripe) => (
           <path key={stripe.id} d={pathData} style={stripe.style} data-testid="connection-flow-stripe" />
@@ -205,6 +297,33 @@ const ConnectionViewInnerComponent: React.FC<ConnectionViewInnerProps> = ({
           </marker>
         </defs>
         <path d={pathData} markerEnd={`url(#arrow-${connectionId})`} className={styles.connectionArrowOverlay} />
+        {labelLayout ? (
+          <ConnectionLabel
+            text={labelText}
+            position={labelLayout.position}
+            size={labelLayout.size}
+            isEditing={isEditingLabel}
+            editorAriaLabel={t("connectionLabelEditor") || "Connection label"}
+            onPointerDown={onPointerDown}
+            onDoubleClick={onLabelDoubleClick}
+            onCommit={onLabelCommit}
+            onCancel={onLabelCancel}
+          />
+        ) : null}
+        {showWaypointHandles
+          ? waypoints.map((point, index) => (
+              <circle
+                key={index}
+                cx={point.x}
+                cy={point.y}
+                r={WAYPOINT_HANDLE_RADIUS}
+                className={styles.waypointHandle}
+                data-waypoint-index={index}
+                onPointerDown={(e) => onWaypointPointerDown(e, index)}
+                onDoubleClick={(e) => onWaypointDoubleClick(e, index)}
+              />
+            ))
+          : null}
       </g>
     ),
     [
@@ -213,14 +332,29 @@ const ConnectionViewInnerComponent: React.FC<ConnectionViewInnerProps> = ({
       midAndAngle,
       arrowMarker,
       visualAppearance,
+      labelText,
+      labelLayout,
+      isEditingLabel,
+      waypoints,
+      showWaypointHandles,
+      t,
       isSelected,
+      remoteSelections,
       isHovered,
       isDragging,
       isAdjacentToSelectedNode,
+      isSpliceTarget,
       onPointerDown,
+      onPathPointerDown,
       onPointerEnter,
       onPointerLeave,
       onContextMenu,
+      onDoubleClick,
+      onLabelDoubleClick,
+      onLabelCommit,
+      onLabelCancel,
+      onWaypointPointerDown,
+      onWaypointDoubleClick,
     ],
   );
 
@@ -238,7 +372,10 @@ const areInnerPropsEqual = (prev: ConnectionViewInnerProps, next: ConnectionView
   if (prev.isSelected !== next.isSelected || prev.isHovered !== next.isHovered) {
     return false;
   }
-  if (prev.isAdjacentToSelectedNode !== next.isAdjacentToSelectedNode) {
+  if (prev.remoteSelections !== next.remoteSelections) {
+    return false;
+  }
+  if (prev.isAdjacentToSelectedNode !== next.isAdjacentToSelectedNode || prev.isSpliceTarget !== next.isSpliceTarget) {
     return false;
   }
   if (prev.isDragging !== next.isDragging || prev.dragProgress !== next.dragProgress) {
@@ -258,6 +395,17 @@ const areInnerPropsEqual = (prev: ConnectionViewInnerProps, next: ConnectionView
   if (prev.renderContext !== next.renderContext) {
     return false;
   }
+  if (
+    prev.label?.text !== next.label?.text ||
+    prev.label?.position !== next.label?.position ||
+    prev.isEditingLabel !== next.isEditingLabel ||
+    prev.labelObstacles !== next.labelObstacles
+  ) {
+    return false;
+  }
+  if (prev.waypoints !== next.waypoints || prev.showWaypointHandles !== next.showWaypointHandles) {
+    return false;
+  }
   return true;
 };
 
@@ -274,6 +422,13 @@ const resolvePosition = (
   overridePosition?: Position,
 ): Position => basePosition ?? overridePosition ?? nodePosition;
 
+/** Waypoint list being edited by a handle drag; committed on pointer up when `changed` */
+type WaypointDraft = {
+  index: number;
+  waypoints: Position[];
+  changed: boolean;
+};
+
 const ConnectionViewContainer: React.FC<ConnectionViewProps> = ({
   connection,
   fromNode,
@@ -285,17 +440,34 @@ const ConnectionViewContainer: React.FC<ConnectionViewProps> = ({
   isDragging = false,
   dragProgress = 0,
   isAdjacentToSelectedNode = false,
+  isSpliceTarget = false,
   fromNodePosition,
   toNodePosition,
   fromNodeSize,
   toNodeSize,
   pathCalculators: providedPathCalculators,
+  labelObstacles = NO_LABEL_OBSTACLES,
+  onLabelChange,
+  onWaypointsChange,
   onPointerDown,
   onPointerEnter,
   onPointerLeave,
   onContextMenu,
 }) => {
   const connectionId = connection.id;
+  const [isEditingLabel, setIsEditingLabel] = React.useState(false);
+  const [waypointDraft, setWaypointDraft] = React.useState<WaypointDraft | null>(null);
+  const label = React.useMemo(() => getConnectionLabel(connection), [connection]);
+  const remoteSelections = useRemoteConnectionSelection(connectionId);
+  const { screenToCanvas } = useNodeCanvasUtils();
+
+  // The draft replaces the stored waypoints while a handle is dragged, so the path follows the pointer
+  const displayedConnection = React.useMemo(
+    () => (waypointDraft ? { ...connection, waypoints: waypointDraft.waypoints } : connection),
+    [connection, waypointDraft],
+  );
+  const waypoints = getConnectionWaypoints(displayedConnection);
+  const canEditWaypoints = onWaypointsChange !== undefined;
 
   const fallbackCalculatePath = useConnectionPathCalculator();
   const fallbackCreatePathModel = useConnectionPathModelCalculator();
@@ -338,6 +510,64 @@ const ConnectionViewContainer: React.FC<ConnectionViewProps> = ({
     onPointerDown?.(e, connectionId);
   });
 
+  const toCanvasPoint = (e: { clientX: number; clientY: number }): Position => {
+    const point = screenToCanvas(e.clientX, e.clientY);
+    return { x: point.x, y: point.y };
+  };
+
+  const insertWaypointAt = (e: { clientX: number; clientY: number }) =>
+    insertConnectionWaypoint(
+      endpoints.outputPosition,
+      endpoints.inputPosition,
+      getConnectionWaypoints(connection),
+      toCanvasPoint(e),
+    );
+
+  // Alt-dragging the path pulls a new waypoint out of it
+  const handlePathPointerDown = React.useEffectEvent((e: React.PointerEvent) => {
+    if (!canEditWaypoints || !e.altKey || e.button !== 0) {
+      handlePointerDown(e);
+      return;
+    }
+    e.stopPropagation();
+    e.preventDefault();
+    const inserted = insertWaypointAt(e);
+    setWaypointDraft({ index: inserted.index, waypoints: inserted.waypoints, changed: true });
+  });
+
+  const handleWaypointPointerDown = React.useEffectEvent((e: React.PointerEvent, index: number) => {
+    if (e.button !== 0) {
+      return;
+    }
+    e.stopPropagation();
+    e.preventDefault();
+    setWaypointDraft({ index, waypoints: [...getConnectionWaypoints(connection)], changed: false });
+  });
+
+  const handleWaypointDoubleClick = React.useEffectEvent((e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    onWaypointsChange?.(connectionId, removeConnectionWaypoint(getConnectionWaypoints(connection), index));
+  });
+
+  useDocumentPointerEvents(waypointDraft !== null, {
+    onMove: (e) => {
+      const point = toCanvasPoint(e);
+      setWaypointDraft((draft) =>
+        draft ? { ...draft, waypoints: moveConnectionWaypoint(draft.waypoints, draft.index, point), changed: true } : draft,
+      );
+    },
+    onUp: () => {
+      // One update per drag keeps it a single history entry
+      if (waypointDraft?.changed) {
+        onWaypointsChange?.(connectionId, waypointDraft.waypoints);
+      }
+      setWaypointDraft(null);
+    },
+    onCancel: () => {
+      setWaypointDraft(null);
+    },
+  });
+
   const handlePointerEnter = React.useEffectEvent((e: React.PointerEvent) => {
     onPointerEnter?.(e, connectionId);
   });
@@ -351,6 +581,36 @@ const ConnectionViewContainer: React.FC<ConnectionViewProps> = ({
     onContextMenu?.(e, connectionId);
   });
 
+  const handleLabelDoubleClick = React.useEffectEvent((e: React.MouseEvent) => {
+    if (!onLabelChange) {
+      return;
+    }
+    // Keep the canvas from opening the node search menu
+    e.stopPropagation();
+    setIsEditingLabel(true);
+  });
+
+  // Double-clicking the path edits the label; Alt+double-click adds a waypoint instead, like Alt-drag
+  const handleDoubleClick = React.useEffectEvent((e: React.MouseEvent) => {
+    if (canEditWaypoints && e.altKey) {
+      e.stopPropagation();
+      onWaypointsChange?.(connectionId, insertWaypointAt(e).waypoints);
+      return;
+    }
+    handleLabelDoubleClick(e);
+  });
+
+  const handleLabelCommit = React.useEffectEvent((text: string) => {
+    setIsEditingLabel(false);
+    if (text !== (label?.text ?? "")) {
+      onLabelChange?.(connectionId, text);
+    }
+  });
+
+  const handleLabelCancel = React.useEffectEvent(() => {
+    setIsEditingLabel(false);
+  });
+
   const { getPortDefinition } = useNodeDefinitions();
   const fromPortDefinition = getPortDefinition(fromPort, fromNode.type);
   const toPortDefinition = getPortDefinition(toPort, toNode.type);
@@ -358,7 +618,7 @@ const ConnectionViewContainer: React.FC<ConnectionViewProps> = ({
 
   const renderContext: ConnectionRenderContext = React.useMemo(
     () => ({
-      connection,
+      connection: displayedConnection,
       phase: "connected",
       fromPort,
       toPort,
@@ -376,7 +636,7 @@ const ConnectionViewContainer: React.FC<ConnectionViewProps> = ({
         defaultContext: {
           outputPosition: endpoints.outputPosition,
           inputPosition: endpoints.inputPosition,
-          connection,
+          connection: displayedConnection,
           outputNode: fromNode,
           inputNode: toNode,
           outputPort: fromPort,
@@ -391,7 +651,7 @@ const ConnectionViewContainer: React.FC<ConnectionViewProps> = ({
       },
     }),
     [
-      connection,
+      displayedConnection,
       fromPort,
       toPort,
       fromNode,
@@ -411,17 +671,31 @@ const ConnectionViewContainer: React.FC<ConnectionViewProps> = ({
       connectionId={connectionId}
       endpoints={endpoints}
       isSelected={isSelected}
+      remoteSelections={remoteSelections}
       isHovered={isHovered}
       isAdjacentToSelectedNode={isAdjacentToSelectedNode}
+      isSpliceTarget={isSpliceTarget}
       isDragging={isDragging}
       dragProgress={dragProgress}
       pathCalculators={pathCalculators}
       customRenderer={customRenderer}
       renderContext={renderContext}
+      label={label}
+      labelObstacles={labelObstacles}
+      isEditingLabel={isEditingLabel}
+      waypoints={waypoints}
+      showWaypointHandles={canEditWaypoints && (isSelected || waypointDraft !== null)}
       onPointerDown={handlePointerDown}
+      onPathPointerDown={handlePathPointerDown}
       onPointerEnter={handlePointerEnter}
       onPointerLeave={handlePointerLeave}
       onContextMenu={handleContextMenu}
+      onDoubleClick={handleDoubleClick}
+      onLabelDoubleClick={handleLabelDoubleClick}
+      onLabelCommit={handleLabelCommit}
+      onLabelCancel={handleLabelCancel}
+      onWaypointPointerDown={handleWaypointPointerDown}
+      onWaypointDoubleClick={handleWaypointDoubleClick}
     />
   );
 };
@@ -436,6 +710,7 @@ const areContainerPropsEqual = (prev: ConnectionViewProps, next: ConnectionViewP
     prev.isSelected !== next.isSelected ||
     prev.isHovered !== next.isHovered ||
     prev.isAdjacentToSelectedNode !== next.isAdjacentToSelectedNode ||
+    prev.isSpliceTarget !== next.isSpliceTarget ||
     prev.isDragging !== next.isDragging ||
     prev.dragProgress !== next.dragProgress
   ) {
@@ -446,6 +721,16 @@ const areContainerPropsEqual = (prev: ConnectionViewProps, next: ConnectionViewP
     return false;
   }
 
+  if (
+    prev.connection.data !== next.connection.data ||
+    prev.connection.waypoints !== next.connection.waypoints ||
+    prev.labelObstacles !== next.labelObstacles ||
+    prev.onLabelChange !== next.onLabelChange ||
+    prev.onWaypointsChange !== next.onWaypointsChange
+  ) {
+    return false;
+  }
+
   if (
     hasAnyPositionChanged([
       [prev.fromNode.position, next.fromNode.position],
@@ -4,25 +4,33 @@
 import * as React from "react";
 import type { Connection, Node } from "../../../types/core";
 import { PropertySection } from "../../inspector/parts/PropertySection";
+import { InspectorFieldRow } from "../../inspector/parts/InspectorFieldRow";
+import { InspectorInput } from "../../inspector/parts/InspectorInput";
+import { InspectorNumberInput } from "../../inspector/parts/InspectorNumberInput";
 import { ConnectionEndpointField } from "./ConnectionEndpointField";
 import { useI18n } from "../../../i18n/context";
+import { getConnectionLabel, setConnectionLabel } from "../../../core/connection/label";
 
 type ConnectionPropertiesSectionProps = {
   connection: Connection;
   nodes: Record<string, Node>;
+  /** Enables the label fields; called with the updated connection fields */
+  onUpdateConnection?: (updates: Partial<Omit<Connection, "id">>) => void;
 };
 
 /**
- * Section displaying connection properties (from/to endpoints)
+ * Section displaying connection properties (from/to endpoints and label)
  */
 export function ConnectionPropertiesSection({
   connection,
   nodes,
+  onUpdateConnection,
 }: ConnectionPropertiesSectionProps): React.ReactElement {
   const { t } = useI18n();
 
   const fromNode = nodes[connection.fromNodeId];
   const toNode = nodes[connection.toNodeId];
+  const label = getConnectionLabel(connection);
 
   return (
     <PropertySection title={t("inspectorConnectionProperties")}>
@@ -36,6 +44,31 @@ export function ConnectionPropertiesSection({
         node={toNode}
         portId={connection.toPortId}
       />
+      {onUpdateConnection ? (
+        <>
+          <InspectorFieldRow label={t("connectionLabel") || "Label"}>
+            <InspectorInput
+              id={`connection-${connection.id}-label`}
+              aria-label={t("connectionLabel") || "Label"}
+              value={label?.text ?? ""}
+              onChange={(e) => onUpdateConnection({ data: setConnectionLabel(connection.data, { text: e.target.value }) })}
+            />
+          </InspectorFieldRow>
+          {label ? (
+            <InspectorFieldRow label={t("connectionLabelPosition") || "Label position"}>
+              <InspectorNumberInput
+                id={`connection-${connection.id}-label-position`}
+                label="%"
+                aria-label={t("connectionLabelPosition") || "Label position"}
+                value={Math.round(label.position * 100)}
+                onChange={(percent) =>
+                  onUpdateConnection({ data: setConnectionLabel(connection.data, { position: percent / 100 }) })
+                }
+              />
+            </InspectorFieldRow>
+          ) : null}
+        </>
+      ) : null}
     </PropertySection>
   );
 }
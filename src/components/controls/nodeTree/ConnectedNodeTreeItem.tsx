@@ -5,6 +5,7 @@ import * as React from "react";
 import { useNodeEditorApi, useNodeEditorSelector } from "../../../contexts/composed/node-editor/context";
 import { useEditorActionState } from "../../../contexts/composed/EditorActionStateContext";
 import { useNodeDefinitionList } from "../../../contexts/node-definitions/hooks/useNodeDefinitionList";
+import { useGraphSearchHighlight } from "../../../contexts/graph-search/context";
 import { hasGroupBehavior } from "../../../types/behaviors";
 import type { NodeId } from "../../../types/core";
 import { NodeTreeItem } from "./NodeTreeItem";
@@ -39,6 +40,7 @@ const ConnectedNodeTreeItemComponent: React.FC<ConnectedNodeTreeItemProps> = ({
   const { actions, getState } = useNodeEditorApi();
   const { state: actionState, actions: actionActions } = useEditorActionState();
   const nodeDefinitions = useNodeDefinitionList();
+  const searchHighlight = useGraphSearchHighlight(nodeId);
 
   const node = useNodeEditorSelector<NodeTreeNode | null>(
     (state) => {
@@ -123,6 +125,7 @@ const ConnectedNodeTreeItemComponent: React.FC<ConnectedNodeTreeItemProps> = ({
       node={node}
       level={level}
       isSelected={isSelected}
+      searchHighlight={searchHighlight}
       onSelect={handleSelect}
       onToggleVisibility={handleToggleVisibility}
       onToggleLock={handleToggleLock}
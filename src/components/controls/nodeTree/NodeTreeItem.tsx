@@ -16,6 +16,7 @@ const NodeTreeItemComponent: React.FC<NodeTreeItemProps> = ({
   node,
   level,
   isSelected,
+  searchHighlight,
   onSelect,
   onToggleVisibility,
   onToggleLock,
@@ -59,6 +60,7 @@ const NodeTreeItemComponent: React.FC<NodeTreeItemProps> = ({
       <NodeTreeItemRow
         nodeId={node.id}
         isSelected={isSelected}
+        searchHighlight={searchHighlight}
         hasChildren={hasChildren}
         isExpanded={isExpanded}
         icon={icon}
@@ -6,6 +6,7 @@ import styles from "./NodeTreeItem.module.css";
 import type { NodeId } from "../../../types/core";
 import { NodeTreeItemActionButtons } from "./NodeTreeItemActionButtons";
 import { NodeTreeItemName } from "./NodeTreeItemName";
+import type { GraphSearchHighlight } from "../../../contexts/graph-search/context";
 
 export type NodeTreeItemRowStyle = React.CSSProperties & {
   "--node-tree-drop-indicator-left": string;
@@ -14,6 +15,7 @@ export type NodeTreeItemRowStyle = React.CSSProperties & {
 export type NodeTreeItemRowProps = {
   nodeId: NodeId;
   isSelected: boolean;
+  searchHighlight?: GraphSearchHighlight;
   hasChildren: boolean;
   isExpanded: boolean;
   icon: React.ReactNode;
@@ -43,6 +45,7 @@ export const NodeTreeItemRow: React.FC<NodeTreeItemRowProps> = React.memo(
   ({
     nodeId,
     isSelected,
+    searchHighlight,
     hasChildren,
     isExpanded,
     icon,
@@ -90,6 +93,7 @@ export const NodeTreeItemRow: React.FC<NodeTreeItemRowProps> = React.memo(
       <div
         className={styles.treeItem}
         data-selected={isSelected}
+        data-search-match={searchHighlight ?? undefined}
         data-dragging={isDragging}
         data-drag-over-inside={isDragOverInside}
         data-drag-over-position={dragOverPositionAttr}
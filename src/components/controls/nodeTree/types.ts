@@ -2,6 +2,7 @@
  * @file Shared types for NodeTreeListPanel components
  */
 import type { Node, NodeId } from "../../../types/core";
+import type { GraphSearchHighlight } from "../../../contexts/graph-search/context";
 
 export type NodeTreeNode = Pick<Node, "id" | "type" | "data" | "locked" | "visible" | "expanded" | "order" | "parentId">;
 
@@ -9,6 +10,8 @@ export type NodeTreeItemProps = {
   node: NodeTreeNode;
   level: number;
   isSelected: boolean;
+  /** Relation to the find bar's query */
+  searchHighlight?: GraphSearchHighlight;
   onSelect: (nodeId: NodeId, multiSelect: boolean) => void;
   onToggleVisibility?: (nodeId: NodeId) => void;
   onToggleLock?: (nodeId: NodeId) => void;
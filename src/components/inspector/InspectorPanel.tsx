@@ -14,6 +14,8 @@ import { GeneralSettingsPanel } from "./panels/GeneralSettingsPanel";
 import { GridSettingsPanel } from "./panels/GridSettingsPanel";
 import { PropertySection } from "./parts/PropertySection";
 import { InteractionHelpPanel } from "./panels/InteractionHelpPanel";
+import { ProblemsPanel } from "./panels/ProblemsPanel";
+import { useNodeEditorPlugins } from "../../contexts/plugins/context";
 
 export type InspectorPanelTabConfig = InspectorTabConfig;
 
@@ -25,6 +27,7 @@ export type InspectorPanelProps = {
 export const InspectorPanel: React.FC<InspectorPanelProps> = ({ tabs: providedTabs, settingsPanels = [] }) => {
   const { state: actionState, actions: actionActions } = useEditorActionState();
   const { t } = useI18n();
+  const plugins = useNodeEditorPlugins();
 
   const defaultTabs = React.useMemo<InspectorPanelTabConfig[]>(
     () => [
@@ -43,8 +46,14 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({ tabs: providedTa
         label: t("inspectorTabSettings") || "Settings",
         render: () => <InspectorSettingsTab panels={settingsPanels} />,
       },
+      {
+        id: "problems",
+        label: t("inspectorTabProblems") || "Problems",
+        render: () => <InspectorProblemsTab />,
+      },
+      ...plugins.flatMap((plugin) => plugin.inspectorTabs ?? []),
     ],
-    [t, settingsPanels],
+    [t, settingsPanels, plugins],
   );
 
   const tabs = providedTabs ?? defaultTabs;
@@ -90,6 +99,10 @@ export const InspectorHistoryTab: React.FC = () => {
   return <HistoryPanel />;
 };
 
+export const InspectorProblemsTab: React.FC = () => {
+  return <ProblemsPanel />;
+};
+
 export type InspectorSettingsPanelConfig = {
   title: string;
   component: React.ComponentType;
@@ -11,7 +11,7 @@ import styles from "../InspectorPanel.module.css";
 import { useI18n } from "../../../i18n/context";
 
 export const InspectorPropertiesTab: React.FC = () => {
-  const { state: nodeEditorState } = useNodeEditor();
+  const { state: nodeEditorState, actions: nodeEditorActions } = useNodeEditor();
   const { state: actionState } = useEditorActionState();
   const { t } = useI18n();
 
@@ -33,7 +33,11 @@ export const InspectorPropertiesTab: React.FC = () => {
 
       {selectedConnection && (
         <InspectorSection>
-          <ConnectionPropertiesSection connection={selectedConnection} nodes={nodeEditorState.nodes} />
+          <ConnectionPropertiesSection
+            connection={selectedConnection}
+            nodes={nodeEditorState.nodes}
+            onUpdateConnection={(updates) => nodeEditorActions.updateConnection(selectedConnection.id, updates)}
+          />
         </InspectorSection>
       )}
 
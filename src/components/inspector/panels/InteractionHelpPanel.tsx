@@ -120,6 +120,12 @@ const INTERACTION_SECTIONS: ShortcutSection[] = [
       { id: "copy", type: "keyboard", action: "copy", labelKey: "copy" },
       { id: "cut", type: "keyboard", action: "cut", labelKey: "cut" },
       { id: "paste", type: "keyboard", action: "paste", labelKey: "paste" },
+      {
+        id: "paste-with-connections",
+        type: "keyboard",
+        action: "paste-with-connections",
+        labelKey: "pasteWithConnections",
+      },
       {
         id: "duplicate-selection",
         type: "keyboard",
@@ -142,6 +148,28 @@ const INTERACTION_SECTIONS: ShortcutSection[] = [
       { id: "clear-selection", type: "keyboard", action: "clear-selection", labelKey: "clearSelection" },
       { id: "add-node", type: "keyboard", action: "add-node", labelKey: "addNode" },
       { id: "auto-layout", type: "keyboard", action: "auto-layout", labelKey: "autoLayout" },
+      {
+        id: "collapse-to-subflow",
+        type: "keyboard",
+        action: "collapse-to-subflow",
+        labelKey: "collapseToSubflow",
+      },
+      { id: "find", type: "keyboard", action: "find", labelKey: "findInGraph" },
+    ],
+  },
+  {
+    id: "navigation",
+    titleKey: "inspectorInteractionHelpSectionNavigation",
+    items: [
+      { id: "focus-left", type: "keyboard", action: "focus-left", labelKey: "keyboardFocusLeft" },
+      { id: "focus-right", type: "keyboard", action: "focus-right", labelKey: "keyboardFocusRight" },
+      { id: "focus-up", type: "keyboard", action: "focus-up", labelKey: "keyboardFocusUp" },
+      { id: "focus-down", type: "keyboard", action: "focus-down", labelKey: "keyboardFocusDown" },
+      { id: "nudge-left", type: "keyboard", action: "nudge-left", labelKey: "keyboardNudgeLeft" },
+      { id: "nudge-right", type: "keyboard", action: "nudge-right", labelKey: "keyboardNudgeRight" },
+      { id: "nudge-up", type: "keyboard", action: "nudge-up", labelKey: "keyboardNudgeUp" },
+      { id: "nudge-down", type: "keyboard", action: "nudge-down", labelKey: "keyboardNudgeDown" },
+      { id: "connect-mode", type: "keyboard", action: "connect-mode", labelKey: "keyboardConnectMode" },
     ],
   },
   {
@@ -11,7 +11,7 @@ import { useEditorActionState } from "../../../contexts/composed/EditorActionSta
 import { useNodeEditor, useNodeEditorActions } from "../../../contexts/composed/node-editor/context";
 import { useNodeDefinitionList } from "../../../contexts/node-definitions/hooks/useNodeDefinitionList";
 import { canAddNodeType, countNodesByType } from "../../../contexts/node-definitions/utils/nodeTypeLimits";
-import { setClipboard } from "../../../utils/clipboard";
+import { copyNodesToClipboard } from "../../../contexts/composed/node-editor/utils/nodeClipboardOperations";
 import { DuplicateIcon, CopyIcon, CutIcon, DeleteIcon } from "../../elements/icons";
 
 /**
@@ -42,20 +42,7 @@ export function NodeActionsBehaviorInspector({ node }: InspectorRenderProps): Re
       actionState.selectedNodeIds.length > 0 && actionState.selectedNodeIds.includes(node.id)
         ? actionState.selectedNodeIds
         : [node.id];
-    const nodes = selected
-      .map((id) => editorState.nodes[id])
-      .filter(Boolean)
-      .map((n) => ({ id: n.id, type: n.type, position: n.position, size: n.size, data: n.data }));
-    const selSet = new Set(selected);
-    const connections = Object.values(editorState.connections)
-      .filter((c) => selSet.has(c.fromNodeId) && selSet.has(c.toNodeId))
-      .map((c) => ({
-        fromNodeId: c.fromNodeId,
-        fromPortId: c.fromPortId,
-        toNodeId: c.toNodeId,
-        toPortId: c.toPortId,
-      }));
-    setClipboard({ nodes, connections });
+    copyNodesToClipboard(selected, editorState);
   }, [node.id, actionState.selectedNodeIds, editorState]);
 
   const handleCut = React.useCallback(() => {
@@ -63,20 +50,7 @@ export function NodeActionsBehaviorInspector({ node }: InspectorRenderProps): Re
       actionState.selectedNodeIds.length > 0 && actionState.selectedNodeIds.includes(node.id)
         ? actionState.selectedNodeIds
         : [node.id];
-    const nodes = selected
-      .map((id) => editorState.nodes[id])
-      .filter(Boolean)
-      .map((n) => ({ id: n.id, type: n.type, position: n.position, size: n.size, data: n.data }));
-    const selSet = new Set(selected);
-    const connections = Object.values(editorState.connections)
-      .filter((c) => selSet.has(c.fromNodeId) && selSet.has(c.toNodeId))
-      .map((c) => ({
-        fromNodeId: c.fromNodeId,
-        fromPortId: c.fromPortId,
-        toNodeId: c.toNodeId,
-        toPortId: c.toPortId,
-      }));
-    setClipboard({ nodes, connections });
+    copyNodesToClipboard(selected, editorState);
     selected.forEach((id) => editorActions.deleteNode(id));
     actionActions.clearSelection();
   }, [node.id, actionState.selectedNodeIds, editorState, editorActions, actionActions]);
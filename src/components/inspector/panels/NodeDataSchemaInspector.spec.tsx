@@ -0,0 +1,80 @@
+/**
+ * @file Tests for the schema-driven node data inspector
+ */
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import type { Node } from "../../../types/core";
+import type { NodeDataSchema } from "../../../types/dataSchema";
+import { NodeDataSchemaInspector } from "./NodeDataSchemaInspector";
+
+const schema: NodeDataSchema = [
+  { key: "name", type: "string", label: "Name", required: true },
+  { key: "retries", type: "number", label: "Retries", max: 5 },
+  { key: "enabled", type: "boolean", label: "Enabled" },
+  { key: "mode", type: "enum", label: "Mode", options: [{ value: "fast" }, { value: "safe", label: "Safe" }] },
+  { key: "target", type: "object", label: "Target", fields: [{ key: "host", type: "string", label: "Host" }] },
+  { key: "tags", type: "array", label: "Tags", items: { type: "string" } },
+];
+
+const createNode = (data: Node["data"]): Node => ({ id: "n1", type: "task", position: { x: 0, y: 0 }, data });
+
+const renderInspector = (data: Node["data"]) => {
+  const updates: Partial<Node>[] = [];
+  render(
+    <NodeDataSchemaInspector
+      node={createNode(data)}
+      schema={schema}
+      externalData={undefined}
+      isLoadingExternalData={false}
+      externalDataError={null}
+      onUpdateNode={(update) => {
+        updates.push(update);
+      }}
+      onUpdateExternalData={async () => {}}
+      onDeleteNode={() => {}}
+    />,
+  );
+  return updates;
+};
+
+describe("NodeDataSchemaInspector", () => {
+  it("renders a control per field and writes edits back into data", () => {
+    const updates = renderInspector({
+      name: "Job",
+      retries: 2,
+      enabled: false,
+      mode: "fast",
+      target: { host: "a" },
+      tags: [],
+    });
+
+    fireEvent.change(screen.getByLabelText("Name"), { target: { value: "Build" } });
+    fireEvent.change(screen.getByLabelText("Retries"), { target: { value: "4" } });
+    fireEvent.click(within(screen.getByRole("group", { name: "Enabled" })).getByRole("button", { name: "On" }));
+    fireEvent.change(screen.getByLabelText("Mode"), { target: { value: "safe" } });
+    fireEvent.change(screen.getByLabelText("Host"), { target: { value: "b" } });
+
+    expect(updates.map((update) => update.data)).toEqual([
+      expect.objectContaining({ name: "Build" }),
+      expect.objectContaining({ retries: 4 }),
+      expect.objectContaining({ enabled: true }),
+      expect.objectContaining({ mode: "safe" }),
+      expect.objectContaining({ target: { host: "b" } }),
+    ]);
+  });
+
+  it("adds and removes array items", () => {
+    const updates = renderInspector({ tags: ["x", "y"] });
+
+    fireEvent.click(screen.getByRole("button", { name: "Add item" }));
+    fireEvent.click(screen.getAllByRole("button", { name: "Remove item" })[0]);
+
+    expect(updates.map((update) => update.data?.tags)).toEqual([["x", "y", ""], ["y"]]);
+  });
+
+  it("shows validation messages next to the invalid fields", () => {
+    renderInspector({ name: "", retries: 9 });
+
+    const alerts = screen.getAllByRole("alert").map((alert) => alert.textContent);
+    expect(alerts).toEqual(["This field is required", "Must be at most 5"]);
+  });
+});
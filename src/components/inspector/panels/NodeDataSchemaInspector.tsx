@@ -0,0 +1,289 @@
+/**
+ * @file Node data schema inspector
+ * Renders editable fields for a node definition's `dataSchema` and shows validation messages
+ * next to the offending values.
+ */
+import * as React from "react";
+import type { InspectorRenderProps } from "../../../types/NodeDefinition";
+import type {
+  NodeDataSchema,
+  NodeDataValidationCode,
+  NodeDataValidationIssue,
+  NodeDataValueDescriptor,
+} from "../../../types/dataSchema";
+import type { I18nKey } from "../../../i18n/types";
+import { useI18n } from "../../../i18n/context";
+import { createDefaultFieldValue, normalizeNodeDataSchema, validateNodeData } from "../../../core/node/dataSchema";
+import { PropertySection } from "../parts/PropertySection";
+import { InspectorField } from "../parts/InspectorField";
+import { InspectorInput } from "../parts/InspectorInput";
+import { InspectorNumberInput } from "../parts/InspectorNumberInput";
+import { InspectorSelect } from "../parts/InspectorSelect";
+import { InspectorToggleGroup } from "../parts/InspectorToggleGroup";
+import { InspectorTextarea } from "../parts/InspectorTextarea";
+import { InspectorButton } from "../parts/InspectorButton";
+import { InspectorIconButton } from "../parts/InspectorIconButton";
+import { CloseIcon, PlusIcon } from "../../elements/icons";
+import styles from "./NodeDataSchemaInspector.module.css";
+
+export type NodeDataSchemaInspectorProps = {
+  schema: NodeDataSchema;
+} & InspectorRenderProps;
+
+const ISSUE_MESSAGE_KEYS: Record<Exclude<NodeDataValidationCode, "custom">, I18nKey> = {
+  required: "inspectorDataErrorRequired",
+  type: "inspectorDataErrorType",
+  minLength: "inspectorDataErrorMinLength",
+  maxLength: "inspectorDataErrorMaxLength",
+  pattern: "inspectorDataErrorPattern",
+  min: "inspectorDataErrorMin",
+  max: "inspectorDataErrorMax",
+  integer: "inspectorDataErrorInteger",
+  enum: "inspectorDataErrorEnum",
+  minItems: "inspectorDataErrorMinItems",
+  maxItems: "inspectorDataErrorMaxItems",
+};
+
+const toPathKey = (path: readonly (string | number)[]): string => path.join("/");
+
+type SchemaFieldProps = {
+  descriptor: NodeDataValueDescriptor;
+  label: string;
+  value: unknown;
+  path: readonly (string | number)[];
+  idPrefix: string;
+  messages: ReadonlyMap<string, string[]>;
+  onChange: (value: unknown) => void;
+};
+
+const SchemaField: React.FC<SchemaFieldProps> = ({ descriptor, label, value, path, idPrefix, messages, onChange }) => {
+  const { t } = useI18n();
+  const id = `${idPrefix}-${toPathKey(path)}`;
+  const fieldMessages = messages.get(toPathKey(path)) ?? [];
+  const hasError = fieldMessages.length > 0;
+
+  const footer = (
+    <>
+      {descriptor.description ? <div className={styles.description}>{descriptor.description}</div> : null}
+      {fieldMessages.map((message) => (
+        <div key={message} className={styles.error} role="alert">
+          {message}
+        </div>
+      ))}
+    </>
+  );
+
+  switch (descriptor.type) {
+    case "string": {
+      const text = typeof value === "string" ? value : "";
+      return (
+        <InspectorField label={label} labelProps={{ htmlFor: id }}>
+          {descriptor.multiline ? (
+            <InspectorTextarea
+              id={id}
+              value={text}
+              placeholder={descriptor.placeholder}
+              error={hasError}
+              onChange={(e) => onChange(e.target.value)}
+            />
+          ) : (
+            <InspectorInput
+              id={id}
+              value={text}
+              placeholder={descriptor.placeholder}
+              error={hasError}
+              onChange={(e) => onChange(e.target.value)}
+            />
+          )}
+          {footer}
+        </InspectorField>
+      );
+    }
+    case "number":
+      return (
+        <div className={styles.field} data-error={hasError ? "true" : undefined}>
+          <InspectorNumberInput
+            id={id}
+            label={label}
+            aria-label={label}
+            value={typeof value === "number" ? value : 0}
+            onChange={onChange}
+          />
+          {footer}
+        </div>
+      );
+    case "boolean":
+      return (
+        <InspectorField label={label}>
+          <InspectorToggleGroup
+            aria-label={label}
+            size="compact"
+            options={[
+              { value: "true", label: t("inspectorDataOn") || "On" },
+              { value: "false", label: t("inspectorDataOff") || "Off" },
+            ]}
+            value={value === true ? "true" : "false"}
+            onChange={(selected) => onChange(selected === "true")}
+          />
+          {footer}
+        </InspectorField>
+      );
+    case "enum": {
+      const options = descriptor.options.map((option) => ({
+        value: String(option.value),
+        label: option.label ?? String(option.value),
+      }));
+      const select = (selected: string) => {
+        const option = descriptor.options.find((candidate) => String(candidate.value) === selected);
+        if (option) {
+          onChange(option.value);
+        }
+      };
+      return (
+        <InspectorField label={label} labelProps={descriptor.display === "toggle" ? undefined : { htmlFor: id }}>
+          {descriptor.display === "toggle" ? (
+            <InspectorToggleGroup
+              aria-label={label}
+              size="compact"
+              options={options}
+              value={value === undefined ? "" : String(value)}
+              onChange={(selected) => {
+                if (!Array.isArray(selected)) {
+                  select(selected);
+                }
+              }}
+            />
+          ) : (
+            <InspectorSelect
+              id={id}
+              value={value === undefined ? "" : String(value)}
+              error={hasError}
+              onChange={(e) => select(e.target.value)}
+            >
+              {value === undefined ? <option value="" disabled /> : null}
+              {options.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </InspectorSelect>
+          )}
+          {footer}
+        </InspectorField>
+      );
+    }
+    case "object": {
+      const record = value !== null && typeof value === "object" && !Array.isArray(value) ? value : {};
+      return (
+        <InspectorField label={label}>
+          <div className={styles.nested}>
+            {descriptor.fields.map((field) => (
+              <SchemaField
+                key={field.key}
+                descriptor={field}
+                label={field.label ?? field.key}
+                value={(record as Record<string, unknown>)[field.key]}
+                path={[...path, field.key]}
+                idPrefix={idPrefix}
+                messages={messages}
+                onChange={(next) => onChange({ ...record, [field.key]: next })}
+              />
+            ))}
+          </div>
+          {footer}
+        </InspectorField>
+      );
+    }
+    case "array": {
+      const items: unknown[] = Array.isArray(value) ? value : [];
+      const canAdd = descriptor.maxItems === undefined || items.length < descriptor.maxItems;
+      return (
+        <InspectorField label={label}>
+          <div className={styles.nested}>
+            {items.map((item, index) => (
+              <div key={index} className={styles.arrayItem}>
+                <div className={styles.arrayItemField}>
+                  <SchemaField
+                    descriptor={descriptor.items}
+                    label={descriptor.items.label ?? `${index + 1}`}
+                    value={item}
+                    path={[...path, index]}
+                    idPrefix={idPrefix}
+                    messages={messages}
+                    onChange={(next) => onChange(items.map((current, i) => (i === index ? next : current)))}
+                  />
+                </div>
+                <InspectorIconButton
+                  icon={<CloseIcon size={12} />}
+                  size="small"
+                  variant="ghost"
+                  aria-label={t("inspectorDataRemoveItem") || "Remove item"}
+                  onClick={() => onChange(items.filter((_, i) => i !== index))}
+                />
+              </div>
+            ))}
+            <InspectorButton
+              disabled={!canAdd}
+              onClick={() => onChange([...items, createDefaultFieldValue(descriptor.items)])}
+            >
+              <span className={styles.buttonContent}>
+                <PlusIcon size={12} />
+                {t("inspectorDataAddItem") || "Add item"}
+              </span>
+            </InspectorButton>
+          </div>
+          {footer}
+        </InspectorField>
+      );
+    }
+  }
+};
+
+/**
+ * Inspector generated from a node definition's `dataSchema`
+ * Each edit writes the whole `data` object back through `onUpdateNode`.
+ */
+export function NodeDataSchemaInspector({
+  node,
+  schema,
+  onUpdateNode,
+}: NodeDataSchemaInspectorProps): React.ReactElement {
+  const { t } = useI18n();
+  const fields = React.useMemo(() => normalizeNodeDataSchema(schema), [schema]);
+  const issues = React.useMemo(() => validateNodeData(fields, node.data), [fields, node.data]);
+
+  const messages = React.useMemo(() => {
+    const format = (issue: NodeDataValidationIssue): string =>
+      issue.code === "custom" ? (issue.message ?? "") : t(ISSUE_MESSAGE_KEYS[issue.code], issue.params);
+    const byPath = new Map<string, string[]>();
+    issues.forEach((issue) => {
+      const key = toPathKey(issue.path);
+      byPath.set(key, [...(byPath.get(key) ?? []), format(issue)]);
+    });
+    return byPath;
+  }, [issues, t]);
+
+  const handleFieldChange = React.useCallback(
+    (key: string, value: unknown) => {
+      onUpdateNode({ data: { ...node.data, [key]: value } });
+    },
+    [node.data, onUpdateNode],
+  );
+
+  return (
+    <PropertySection title={t("inspectorData") || "Data"} bodyClassName={styles.fields}>
+      {fields.map((field) => (
+        <SchemaField
+          key={field.key}
+          descriptor={field}
+          label={field.label ?? field.key}
+          value={node.data[field.key]}
+          path={[field.key]}
+          idPrefix={`node-${node.id}-data`}
+          messages={messages}
+          onChange={(value) => handleFieldChange(field.key, value)}
+        />
+      ))}
+    </PropertySection>
+  );
+}
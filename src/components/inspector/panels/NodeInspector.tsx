@@ -12,6 +12,7 @@ import { useExternalData } from "../../../contexts/external-data/useExternalData
 import { NodeBehaviorInspector } from "./NodeBehaviorInspector";
 import { NodeActionsBehaviorInspector } from "./NodeActionsBehaviorInspector";
 import { GroupBehaviorInspector } from "./GroupBehaviorInspector";
+import { NodeDataSchemaInspector } from "./NodeDataSchemaInspector";
 import styles from "./NodeInspector.module.css";
 import { calculateAlignmentPositions } from "../../controls/alignments/utils";
 import type { AlignmentActionType } from "../../controls/alignments/types";
@@ -107,6 +108,10 @@ export const NodeInspector: React.FC<NodeInspectorProps> = React.memo(
     // Render custom inspector with proper component handling
     const customInspectorElement = React.useMemo(() => {
       if (!nodeDefinition?.renderInspector) {
+        // Fall back to fields generated from the data schema
+        if (nodeDefinition?.dataSchema) {
+          return <NodeDataSchemaInspector {...inspectorProps} schema={nodeDefinition.dataSchema} />;
+        }
         return null;
       }
 
@@ -121,7 +126,7 @@ export const NodeInspector: React.FC<NodeInspectorProps> = React.memo(
 
       // Otherwise, call as a regular function (legacy support)
       return renderFn(inspectorProps);
-    }, [nodeDefinition?.renderInspector, inspectorProps, isReactComponent]);
+    }, [nodeDefinition?.renderInspector, nodeDefinition?.dataSchema, inspectorProps, isReactComponent]);
 
     return (
       <>
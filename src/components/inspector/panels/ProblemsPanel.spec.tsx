@@ -0,0 +1,106 @@
+/**
+ * @file Tests for the Problems panel
+ */
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import type { FC } from "react";
+import { EditorActionStateProvider, useEditorActionState } from "../../../contexts/composed/EditorActionStateContext";
+import { NodeEditorProvider } from "../../../contexts/composed/node-editor/provider";
+import { NodeCanvasProvider } from "../../../contexts/composed/canvas/viewport/provider";
+import { useNodeCanvas } from "../../../contexts/composed/canvas/viewport/context";
+import { NodeDefinitionProvider } from "../../../contexts/node-definitions/provider";
+import { I18nProvider } from "../../../i18n/context";
+import { enMessages } from "../../../i18n/en";
+import { jaMessages } from "../../../i18n/ja";
+import type { NodeEditorData } from "../../../types/core";
+import type { NodeDefinition } from "../../../types/NodeDefinition";
+import { ProblemsPanel } from "./ProblemsPanel";
+
+const sinkDefinition: NodeDefinition = {
+  type: "sink",
+  displayName: "Sink",
+  ports: [{ id: "in", type: "input", label: "In", position: "left", required: true }],
+};
+
+const data: NodeEditorData = {
+  nodes: {
+    a: { id: "a", type: "sink", position: { x: 100, y: 100 }, size: { width: 100, height: 50 }, data: {} },
+    b: { id: "b", type: "sink", position: { x: 400, y: 100 }, data: {} },
+  },
+  connections: {
+    broken: { id: "broken", fromNodeId: "missing", fromPortId: "out", toNodeId: "b", toPortId: "in" },
+  },
+};
+
+const SelectionProbe: FC = () => {
+  const { state } = useEditorActionState();
+  const { state: canvasState } = useNodeCanvas();
+  return (
+    <output data-testid="probe">
+      {JSON.stringify({
+        nodes: state.selectedNodeIds,
+        connections: state.selectedConnectionIds,
+        offset: canvasState.viewport.offset,
+      })}
+    </output>
+  );
+};
+
+const renderPanel = (initialData: NodeEditorData, locale = "en") =>
+  render(
+    <I18nProvider dictionaries={{ en: enMessages, ja: jaMessages }} initialLocale={locale}>
+      <NodeDefinitionProvider nodeDefinitions={[sinkDefinition]} includeDefaults={false}>
+        <NodeEditorProvider initialState={initialData}>
+          <NodeCanvasProvider>
+            <EditorActionStateProvider>
+              <ProblemsPanel />
+              <SelectionProbe />
+            </EditorActionStateProvider>
+          </NodeCanvasProvider>
+        </NodeEditorProvider>
+      </NodeDefinitionProvider>
+    </I18nProvider>,
+  );
+
+const readProbe = () => JSON.parse(screen.getByTestId("probe").textContent ?? "{}");
+
+describe("ProblemsPanel", () => {
+  it("lists problems grouped by severity", () => {
+    renderPanel(data);
+
+    expect(screen.getByRole("heading", { name: "Errors" })).toBeTruthy();
+    expect(screen.getByRole("heading", { name: "Warnings" })).toBeTruthy();
+    expect(screen.getAllByRole("button").map((button) => button.textContent)).toEqual([
+      'Source node "missing" not found',
+      'Required port "In" is not connected',
+    ]);
+  });
+
+  it("formats built-in problems in the current locale", () => {
+    renderPanel(data, "ja");
+
+    expect(screen.getAllByRole("button").map((button) => button.textContent)).toEqual([
+      '接続元ノード "missing" が見つかりません',
+      '必須ポート "In" が接続されていません',
+    ]);
+  });
+
+  it("selects and centers the offending node or connection on click", () => {
+    renderPanel(data);
+
+    act(() => {
+      fireEvent.click(screen.getByRole("button", { name: 'Required port "In" is not connected' }));
+    });
+    expect(readProbe()).toEqual({ nodes: ["a"], connections: [], offset: { x: -150, y: -125 } });
+
+    act(() => {
+      fireEvent.click(screen.getByRole("button", { name: 'Source node "missing" not found' }));
+    });
+    expect(readProbe()).toMatchObject({ nodes: [], connections: ["broken"] });
+  });
+
+  it("shows an empty state when the graph has no problems", () => {
+    renderPanel({ nodes: {}, connections: {} });
+
+    expect(screen.getByText("No problems found")).toBeTruthy();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * @file Problems panel component
+ * Lists the document's live diagnostics grouped by severity. Clicking a problem selects the
+ * offending connection or nodes and centers them on the canvas.
+ */
+import * as React from "react";
+import { useEditorActionState } from "../../../contexts/composed/EditorActionStateContext";
+import { useNodeEditor } from "../../../contexts/composed/node-editor/context";
+import { useNodeCanvasApi } from "../../../contexts/composed/canvas/viewport/context";
+import { useGraphDiagnostics } from "../../../contexts/composed/node-editor/hooks/useGraphDiagnostics";
+import {
+  GRAPH_DIAGNOSTIC_TYPES,
+  type GraphDiagnostic,
+  type GraphDiagnosticCode,
+} from "../../../contexts/composed/node-editor/utils/graphDiagnostics";
+import type { I18nKey } from "../../../i18n/types";
+import { useI18n } from "../../../i18n/context";
+import { getNodeBoundingBox } from "../../../utils/boundingBoxUtils";
+import { PropertySection } from "../parts/PropertySection";
+import styles from "./ProblemsPanel.module.css";
+
+const SEVERITY_SECTIONS: ReadonlyArray<{ severity: GraphDiagnostic["severity"]; titleKey: I18nKey; fallback: string }> =
+  [
+    { severity: "error", titleKey: "inspectorProblemsErrors", fallback: "Errors" },
+    { severity: "warning", titleKey: "inspectorProblemsWarnings", fallback: "Warnings" },
+    { severity: "info", titleKey: "inspectorProblemsInfo", fallback: "Info" },
+  ];
+
+const DIAGNOSTIC_MESSAGE_KEYS: Record<GraphDiagnosticCode, I18nKey> = {
+  "source-node-missing": "inspectorProblemSourceNodeMissing",
+  "target-node-missing": "inspectorProblemTargetNodeMissing",
+  "source-port-missing": "inspectorProblemSourcePortMissing",
+  "target-port-missing": "inspectorProblemTargetPortMissing",
+  "same-port-type": "inspectorProblemSamePortType",
+  "self-connection": "inspectorProblemSelfConnection",
+  "type-mismatch": "inspectorProblemTypeMismatch",
+  "rule-violation": "inspectorProblemRuleViolation",
+  "required-port": "inspectorProblemRequiredPort",
+  cycle: "inspectorProblemCycle",
+  "max-per-flow": "inspectorProblemMaxPerFlow",
+};
+
+/**
+ * Problems panel component
+ */
+export const ProblemsPanel: React.FC = () => {
+  const { t } = useI18n();
+  const diagnostics = useGraphDiagnostics();
+  const { state: editorState } = useNodeEditor();
+  const { actions: actionActions } = useEditorActionState();
+  const { store: canvasStore, actions: canvasActions } = useNodeCanvasApi();
+
+  const centerOn = React.useEffectEvent((nodeIds: readonly string[]) => {
+    const boxes = nodeIds.flatMap((nodeId) => {
+      const node = editorState.nodes[nodeId];
+      return node ? [getNodeBoundingBox(node)] : [];
+    });
+    if (boxes.length === 0) {
+      return;
+    }
+    const centerX = (Math.min(...boxes.map((box) => box.left)) + Math.max(...boxes.map((box) => box.right))) / 2;
+    const centerY = (Math.min(...boxes.map((box) => box.top)) + Math.max(...boxes.map((box) => box.bottom))) / 2;
+    const { viewport, viewBox } = canvasStore.getState();
+    canvasActions.setViewport({
+      scale: viewport.scale,
+      offset: {
+        x: viewBox.width / 2 - centerX * viewport.scale,
+        y: viewBox.height / 2 - centerY * viewport.scale,
+      },
+    });
+  });
+
+  // Constraint violations have no code; their message comes from the node definition
+  const formatMessage = (diagnostic: GraphDiagnostic): string =>
+    diagnostic.code
+      ? t(DIAGNOSTIC_MESSAGE_KEYS[diagnostic.code], diagnostic.params) || diagnostic.message
+      : diagnostic.message;
+
+  const handleSelect = React.useEffectEvent((diagnostic: GraphDiagnostic) => {
+    const nodeIds = (diagnostic.nodeIds ?? []).filter((nodeId) => Boolean(editorState.nodes[nodeId]));
+    if (diagnostic.type === GRAPH_DIAGNOSTIC_TYPES.invalidConnection && diagnostic.connectionIds) {
+      diagnostic.connectionIds.forEach((connectionId, index) => {
+        actionActions.selectConnection(connectionId, index > 0);
+      });
+    } else if (nodeIds.length > 0) {
+      actionActions.setInteractionSelection(nodeIds);
+      actionActions.setEditingSelection(nodeIds);
+    }
+    centerOn(nodeIds);
+  });
+
+  if (diagnostics.length === 0) {
+    return (
+      <PropertySection title={t("inspectorTabProblems") || "Problems"}>
+        <div className={styles.empty}>{t("inspectorProblemsEmpty") || "No problems found"}</div>
+      </PropertySection>
+    );
+  }
+
+  return (
+    <>
+      {SEVERITY_SECTIONS.map(({ severity, titleKey, fallback }) => {
+        const items = diagnostics.filter((diagnostic) => diagnostic.severity === severity);
+        if (items.length === 0) {
+          return null;
+        }
+        return (
+          <PropertySection
+            key={severity}
+            title={t(titleKey) || fallback}
+            headerRight={<span className={styles.count}>{items.length}</span>}
+          >
+            <ul className={styles.list}>
+              {items.map((diagnostic) => (
+                <li key={diagnostic.id}>
+                  <button
+                    type="button"
+                    className={styles.item}
+                    data-severity={diagnostic.severity}
+                    onClick={() => handleSelect(diagnostic)}
+                  >
+                    <span className={styles.indicator} aria-hidden="true" />
+                    <span className={styles.message}>{formatMessage(diagnostic)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </PropertySection>
+        );
+      })}
+    </>
+  );
+};
+
+ProblemsPanel.displayName = "ProblemsPanel";
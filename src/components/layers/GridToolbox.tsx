@@ -5,7 +5,9 @@ import * as React from "react";
 import { useNodeCanvas, useNodeCanvasActions } from "../../contexts/composed/canvas/viewport/context";
 import { useNodeEditor } from "../../contexts/composed/node-editor/context";
 import { useEditorActionState } from "../../contexts/composed/EditorActionStateContext";
+import { useGraphImageExport } from "../../contexts/composed/node-editor/hooks/useGraphImageExport";
 import { applyZoomDelta, clampZoomScale } from "../../utils/zoomUtils";
+import { downloadBlob } from "../../utils/imageExport";
 import styles from "./GridToolbox.module.css";
 
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type
@@ -65,6 +67,8 @@ export const GridToolbox: React.FC<GridToolboxProps> = React.memo(() => {
   const { actions: canvasActions } = useNodeCanvasActions();
   const { state: editorState } = useNodeEditor();
   const { state: actionState } = useEditorActionState();
+  const { exportSvg, exportPng } = useGraphImageExport();
+  const toolbarRef = React.useRef<HTMLDivElement>(null);
 
   const zoomPercentage = React.useMemo(
     () => Math.round(canvasState.viewport.scale * 100),
@@ -207,6 +211,20 @@ export const GridToolbox: React.FC<GridToolboxProps> = React.memo(() => {
     });
   }, [canvasState.gridSettings.snapToGrid, canvasActions]);
 
+  // Exports the selection when there is one, otherwise the whole graph
+  const handleExportSvg = React.useCallback(() => {
+    const { svg } = exportSvg({ scope: "selection", themeSource: toolbarRef.current });
+    downloadBlob(new Blob([svg], { type: "image/svg+xml" }), "workflow.svg");
+  }, [exportSvg]);
+
+  const handleExportPng = React.useCallback(() => {
+    exportPng({ scope: "selection", themeSource: toolbarRef.current, scale: 2 })
+      .then((blob) => downloadBlob(blob, "workflow.png"))
+      .catch((error: unknown) => {
+        console.warn("Failed to export PNG", error);
+      });
+  }, [exportPng]);
+
   // Memoized zoom select options
   const zoomOptions = React.useMemo(() => {
     const options = ZOOM_PRESETS.map((preset) => (
@@ -227,7 +245,7 @@ export const GridToolbox: React.FC<GridToolboxProps> = React.memo(() => {
   }, [zoomPercentage]);
 
   return (
-    <div className={styles.toolbar}>
+    <div ref={toolbarRef} className={styles.toolbar}>
       <div className={styles.toolbarSection}>
         {/* Zoom controls */}
         <ZoomButton onClick={handleZoomOut} title="Zoom Out (Cmd -)" ariaLabel="Zoom Out">
@@ -320,6 +338,25 @@ export const GridToolbox: React.FC<GridToolboxProps> = React.memo(() => {
         </ToggleButton>
       </div>
 
+      <div className={styles.separator} />
+
+      <div className={styles.toolbarSection}>
+        {/* Image export */}
+        <ZoomButton onClick={handleExportSvg} title="Export as SVG" ariaLabel="Export as SVG">
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+            <path d="M8 2a.5.5 0 0 1 .5.5v6.793l2.146-2.147a.5.5 0 0 1 .708.708l-3 3a.5.5 0 0 1-.708 0l-3-3a.5.5 0 1 1 .708-.708L7.5 9.293V2.5A.5.5 0 0 1 8 2z" />
+            <path d="M2.5 11a.5.5 0 0 1 .5.5V13h10v-1.5a.5.5 0 0 1 1 0V13.5a.5.5 0 0 1-.5.5h-11a.5.5 0 0 1-.5-.5v-2a.5.5 0 0 1 .5-.5z" />
+          </svg>
+        </ZoomButton>
+
+        <ZoomButton onClick={handleExportPng} title="Export as PNG" ariaLabel="Export as PNG">
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+            <path d="M2.5 3a.5.5 0 0 0-.5.5v9a.5.5 0 0 0 .5.5h11a.5.5 0 0 0 .5-.5v-9a.5.5 0 0 0-.5-.5h-11zm.5 1h10v5.293l-2.646-2.647a.5.5 0 0 0-.708 0L6.5 9.793 5.354 8.646a.5.5 0 0 0-.708 0L3 10.293V4z" />
+            <circle cx="5.5" cy="6" r="1" />
+          </svg>
+        </ZoomButton>
+      </div>
+
       <div className={styles.toolbarSpacer} />
 
       <div className={styles.toolbarSection}>
@@ -6,6 +6,7 @@ import { useNodeEditorApi, useNodeEditorSelector } from "../../contexts/composed
 import { useNodeCanvas } from "../../contexts/composed/canvas/viewport/context";
 import { useNodeDefinitionList } from "../../contexts/node-definitions/hooks/useNodeDefinitionList";
 import { useResizeObserver } from "../../hooks/useResizeObserver";
+import { usePresencePeers } from "../../contexts/presence/context";
 import {
   FloatingPanelFrame,
   FloatingPanelHeader,
@@ -207,6 +208,27 @@ export const Minimap: React.FC<MinimapProps> = ({ scale = 0.1, width = 200, heig
     };
   }, [canvasState.viewport, worldToMinimap]);
 
+  // Viewports of other users (remote presence) in minimap coordinates
+  const peers = usePresencePeers();
+  const peerViewportRects = React.useMemo(() => {
+    return peers.flatMap(({ user, viewport }) => {
+      if (!viewport) {
+        return [];
+      }
+      const topLeft = worldToMinimap(viewport.x, viewport.y);
+      const bottomRight = worldToMinimap(viewport.x + viewport.width, viewport.y + viewport.height);
+      return [
+        {
+          user,
+          x: topLeft.x,
+          y: topLeft.y,
+          width: Math.max(1, bottomRight.x - topLeft.x),
+          height: Math.max(1, bottomRight.y - topLeft.y),
+        },
+      ];
+    });
+  }, [peers, worldToMinimap]);
+
   // Navigate to position based on minimap coordinates
   const navigateToPosition = React.useCallback(
     (clientX: number, clientY: number) => {
@@ -368,6 +390,22 @@ export const Minimap: React.FC<MinimapProps> = ({ scale = 0.1, width = 200, heig
           nodeDefinitions={nodeDefinitions}
         />
 
+        {peerViewportRects.map((rect) => (
+          <div
+            key={rect.user.id}
+            className={styles.minimapPeerViewport}
+            style={{
+              left: rect.x,
+              top: rect.y,
+              width: rect.width,
+              height: rect.height,
+              borderColor: rect.user.color,
+            }}
+            title={rect.user.name}
+            data-presence-user-id={rect.user.id}
+          />
+        ))}
+
         {/* Render viewport indicator */}
         <div
           className={styles.minimapViewport}
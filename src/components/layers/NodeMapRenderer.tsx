@@ -20,6 +20,35 @@ export type NodeMapRendererProps = {
   nodeDefinitions?: NodeDefinition[];
 };
 
+export type NodeMapBounds = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+};
+
+/**
+ * World-space extent the map fits into its box, using the same fallback node size as the map itself.
+ */
+export const getNodeMapBounds = (nodes: readonly NodeMapNode[]): NodeMapBounds => {
+  if (nodes.length === 0) {
+    return { minX: 0, minY: 0, maxX: 1000, maxY: 1000 };
+  }
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  nodes.forEach((n) => {
+    const w = n.size?.width || 150;
+    const h = n.size?.height || 100;
+    minX = Math.min(minX, n.position.x);
+    minY = Math.min(minY, n.position.y);
+    maxX = Math.max(maxX, n.position.x + w);
+    maxY = Math.max(maxY, n.position.y + h);
+  });
+  return { minX, minY, maxX, maxY };
+};
+
 export const NodeMapRenderer: React.FC<NodeMapRendererProps> = ({
   nodes,
   connections,
@@ -42,24 +71,7 @@ export const NodeMapRenderer: React.FC<NodeMapRendererProps> = ({
     return filterHidden ? list.filter((n) => n.visible !== false) : list;
   }, [nodes, filterHidden]);
 
-  const bounds = React.useMemo(() => {
-    if (visibleNodes.length === 0) {
-      return { minX: 0, minY: 0, maxX: 1000, maxY: 1000 };
-    }
-    let minX = Infinity,
-      minY = Infinity,
-      maxX = -Infinity,
-      maxY = -Infinity;
-    visibleNodes.forEach((n) => {
-      const w = n.size?.width || 150;
-      const h = n.size?.height || 100;
-      minX = Math.min(minX, n.position.x);
-      minY = Math.min(minY, n.position.y);
-      maxX = Math.max(maxX, n.position.x + w);
-      maxY = Math.max(maxY, n.position.y + h);
-    });
-    return { minX, minY, maxX, maxY };
-  }, [visibleNodes]);
+  const bounds = React.useMemo(() => getNodeMapBounds(visibleNodes), [visibleNodes]);
 
   const scale = React.useMemo(() => {
     const bw = bounds.maxX - bounds.minX;
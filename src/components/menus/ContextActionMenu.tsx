@@ -19,8 +19,16 @@ import { NodeActionsList } from "./NodeActionsList";
 import { ContextMenuOverlay } from "../layout/ContextMenuOverlay";
 import { useInteractionSettings } from "../../contexts/interaction-settings/context";
 import { detectShortcutDisplayPlatform, getShortcutLabelForAction } from "../../utils/shortcutDisplay";
+import { useSubflowNavigation } from "../../contexts/subflow/context";
+import { useNodeDefinitionList } from "../../contexts/node-definitions/hooks/useNodeDefinitionList";
+import { hasSubflowBehavior, nodeHasSubflowBehavior } from "../../types/behaviors";
+import type { ContextMenuActionContext, ContextTarget } from "../../types/contextMenu";
+import { useContextMenuEntries } from "../../contexts/context-menu/context";
+import { resolveVisibleContextMenuEntries } from "../../core/menu/contextMenu";
+import { ContextMenuEntryList } from "./ContextMenuEntryList";
+import { MenuSeparator } from "./MenuSeparator";
 
-export type ContextTarget = { type: "node"; id: string } | { type: "connection"; id: string } | { type: "canvas" };
+export type { ContextTarget };
 
 export type ContextActionMenuProps = {
   position: Position;
@@ -46,7 +54,9 @@ export const ContextActionMenu: React.FC<ContextActionMenuProps> = ({
   const { t } = useI18n();
   const editorActions = useNodeEditorActions();
   const { state: actionState, actions: actionActions, nodeOperations } = useEditorActionState();
-  const { state: editorState } = useNodeEditor();
+  const { state: editorState, getState } = useNodeEditor();
+  const { enter: enterSubflow } = useSubflowNavigation();
+  const allNodeDefinitions = useNodeDefinitionList();
   const interactionSettings = useInteractionSettings();
   const platform = React.useMemo(() => detectShortcutDisplayPlatform(), []);
   const [resolvedPosition, setResolvedPosition] = React.useState({ x: position.x, y: position.y });
@@ -60,6 +70,41 @@ export const ContextActionMenu: React.FC<ContextActionMenuProps> = ({
     return selectedNodeIds.map((id) => editorState.nodes[id]).filter((node): node is Node => Boolean(node));
   }, [isMultiSelect, selectedNodeIds, editorState.nodes]);
   const showAlignmentControls = isMultiSelect && selectedNodes.length > 1;
+  const targetNode = target.type === "node" ? editorState.nodes[target.id] : undefined;
+  const isSubflowTarget = targetNode ? nodeHasSubflowBehavior(targetNode, allNodeDefinitions) : false;
+  // Subflows are opt-in; collapsing needs a registered definition with the subflow behavior
+  const canCollapseToSubflow = allNodeDefinitions.some((definition) => hasSubflowBehavior(definition));
+  const contributedEntries = useContextMenuEntries(target);
+  const contributionContext = React.useMemo<ContextMenuActionContext>(
+    () => ({
+      target,
+      node: targetNode,
+      connection: target.type === "connection" ? editorState.connections[target.id] : undefined,
+      canvasPosition,
+      selectedNodeIds,
+      selectedConnectionIds: actionState.selectedConnectionIds,
+      actions: editorActions,
+      getState,
+    }),
+    [
+      target,
+      targetNode,
+      editorState.connections,
+      canvasPosition,
+      selectedNodeIds,
+      actionState.selectedConnectionIds,
+      editorActions,
+      getState,
+    ],
+  );
+  // Node contributions are rendered by NodeActionsList, after the built-in node actions
+  const visibleContributedEntries = React.useMemo(
+    () =>
+      visible && target.type !== "node"
+        ? resolveVisibleContextMenuEntries(contributedEntries, contributionContext)
+        : [],
+    [visible, target.type, contributedEntries, contributionContext],
+  );
   const groupedAlignmentActions = React.useMemo(() => {
     return ALIGNMENT_GROUPS.reduce<Record<AlignmentActionGroup, AlignmentActionConfig[]>>(
       (acc, group) => {
@@ -80,6 +125,14 @@ export const ContextActionMenu: React.FC<ContextActionMenuProps> = ({
     return getShortcutLabelForAction(interactionSettings.keyboardShortcuts, "paste", platform);
   }, [interactionSettings.keyboardShortcuts, platform]);
 
+  const pasteWithConnectionsShortcut = React.useMemo(() => {
+    return getShortcutLabelForAction(interactionSettings.keyboardShortcuts, "paste-with-connections", platform);
+  }, [interactionSettings.keyboardShortcuts, platform]);
+
+  const collapseToSubflowShortcut = React.useMemo(() => {
+    return getShortcutLabelForAction(interactionSettings.keyboardShortcuts, "collapse-to-subflow", platform);
+  }, [interactionSettings.keyboardShortcuts, platform]);
+
   const handleAlignFromMenu = React.useCallback(
     (alignmentType: AlignmentActionType) => {
       if (!showAlignmentControls) {
@@ -101,6 +154,35 @@ export const ContextActionMenu: React.FC<ContextActionMenuProps> = ({
     onClose();
   }, [nodeOperations, onClose]);
 
+  const handlePasteWithConnections = React.useCallback(() => {
+    nodeOperations.pasteNodes(undefined, { withConnections: true });
+    onClose();
+  }, [nodeOperations, onClose]);
+
+  const handleCollapseToSubflow = React.useCallback(() => {
+    if (target.type !== "node") {
+      return;
+    }
+    nodeOperations.collapseToSubflow(target.id);
+    onClose();
+  }, [nodeOperations, onClose, target]);
+
+  const handleOpenSubflow = React.useCallback(() => {
+    if (target.type !== "node") {
+      return;
+    }
+    onClose();
+    enterSubflow(target.id);
+  }, [enterSubflow, onClose, target]);
+
+  const handleExpandSubflow = React.useCallback(() => {
+    if (target.type !== "node") {
+      return;
+    }
+    nodeOperations.expandSubflow(target.id);
+    onClose();
+  }, [nodeOperations, onClose, target]);
+
   const handleDeleteConnection = React.useCallback(() => {
     if (target.type !== "connection") {
       return;
@@ -166,7 +248,24 @@ export const ContextActionMenu: React.FC<ContextActionMenuProps> = ({
                   onClose();
                 }}
               />
-              <NodeActionsList targetNodeId={target.type === "node" ? target.id : ""} onAction={onClose} />
+              <NodeActionsList
+                targetNodeId={target.type === "node" ? target.id : ""}
+                onAction={onClose}
+                canvasPosition={canvasPosition}
+              />
+              {canCollapseToSubflow && (
+                <MenuItem
+                  label={t("collapseToSubflow") || "Collapse into Subflow"}
+                  shortcutHint={collapseToSubflowShortcut}
+                  onClick={handleCollapseToSubflow}
+                />
+              )}
+              {isSubflowTarget && (
+                <>
+                  <MenuItem label={t("openSubflow") || "Open Subflow"} onClick={handleOpenSubflow} />
+                  <MenuItem label={t("expandSubflow") || "Expand Subflow"} onClick={handleExpandSubflow} />
+                </>
+              )}
             </>
           )}
           {target.type === "connection" && (
@@ -203,6 +302,22 @@ export const ContextActionMenu: React.FC<ContextActionMenuProps> = ({
                 shortcutHint={pasteShortcut}
                 onClick={handlePasteFromClipboard}
               />
+              <MenuItem
+                icon={<PasteIcon size={14} />}
+                label={t("pasteWithConnections") || "Paste with Connections"}
+                shortcutHint={pasteWithConnectionsShortcut}
+                onClick={handlePasteWithConnections}
+              />
+            </>
+          )}
+          {visibleContributedEntries.length > 0 && (
+            <>
+              <MenuSeparator />
+              <ContextMenuEntryList
+                entries={visibleContributedEntries}
+                context={contributionContext}
+                onClose={onClose}
+              />
             </>
           )}
         </ul>
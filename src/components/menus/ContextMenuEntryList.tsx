@@ -0,0 +1,140 @@
+/**
+ * @file Renders contributed context menu entries, with nested submenus
+ */
+import * as React from "react";
+import type { ContextMenuActionContext, ContextMenuEntry, ContextMenuItem } from "../../types/contextMenu";
+import { isContextMenuItemEnabled, isContextMenuSeparator } from "../../core/menu/contextMenu";
+import { MenuItem } from "./MenuItem";
+import { MenuSeparator } from "./MenuSeparator";
+import styles from "./ContextMenuEntryList.module.css";
+
+const SUBMENU_OVERLAP = 8;
+const VIEWPORT_MARGIN = 8;
+
+export type ContextMenuEntryListProps = {
+  /** Entries already filtered with `resolveVisibleContextMenuEntries`, submenus included */
+  entries: readonly ContextMenuEntry[];
+  context: ContextMenuActionContext;
+  /** Called after an item ran, to close the menu */
+  onClose: () => void;
+};
+
+/**
+ * Menu rows for contributed entries. Items with `items` open a submenu on hover or click.
+ */
+export const ContextMenuEntryList: React.FC<ContextMenuEntryListProps> = ({ entries, context, onClose }) => {
+  const [openSubmenuId, setOpenSubmenuId] = React.useState<string | null>(null);
+
+  return (
+    <>
+      {entries.map((entry) => {
+        if (isContextMenuSeparator(entry)) {
+          return <MenuSeparator key={entry.id} />;
+        }
+        const enabled = isContextMenuItemEnabled(entry, context);
+        if (entry.items) {
+          return (
+            <SubmenuItem
+              key={entry.id}
+              item={entry}
+              enabled={enabled}
+              isOpen={openSubmenuId === entry.id}
+              onOpenChange={(open) => setOpenSubmenuId(open ? entry.id : null)}
+              context={context}
+              onClose={onClose}
+            />
+          );
+        }
+        return (
+          <MenuItem
+            key={entry.id}
+            icon={entry.icon}
+            label={entry.label}
+            shortcutHint={entry.shortcutHint}
+            danger={entry.danger}
+            disabled={!enabled}
+            onPointerEnter={() => setOpenSubmenuId(null)}
+            onClick={() => {
+              entry.onSelect?.(context);
+              onClose();
+            }}
+          />
+        );
+      })}
+    </>
+  );
+};
+
+ContextMenuEntryList.displayName = "ContextMenuEntryList";
+
+type SubmenuItemProps = {
+  item: ContextMenuItem;
+  enabled: boolean;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  context: ContextMenuActionContext;
+  onClose: () => void;
+};
+
+const SubmenuItem: React.FC<SubmenuItemProps> = ({ item, enabled, isOpen, onOpenChange, context, onClose }) => {
+  const triggerRef = React.useRef<HTMLLIElement>(null);
+  const panelRef = React.useRef<HTMLDivElement>(null);
+  const [position, setPosition] = React.useState<{ left: number; top: number } | null>(null);
+
+  React.useLayoutEffect(() => {
+    const trigger = triggerRef.current;
+    const panel = panelRef.current;
+    if (!isOpen || !trigger || !panel) {
+      setPosition(null);
+      return;
+    }
+    const triggerRect = trigger.getBoundingClientRect();
+    const panelRect = panel.getBoundingClientRect();
+    // Open to the right, flipping to the left when the panel would leave the viewport
+    const right = triggerRect.right - SUBMENU_OVERLAP;
+    const left =
+      right + panelRect.width > window.innerWidth - VIEWPORT_MARGIN
+        ? triggerRect.left - panelRect.width + SUBMENU_OVERLAP
+        : right;
+    const top = Math.max(
+      VIEWPORT_MARGIN,
+      Math.min(triggerRect.top, window.innerHeight - panelRect.height - VIEWPORT_MARGIN),
+    );
+    setPosition({ left, top });
+  }, [isOpen]);
+
+  const className = enabled ? styles.submenuTrigger : `${styles.submenuTrigger} ${styles.submenuTriggerDisabled}`;
+
+  return (
+    <li ref={triggerRef} className={styles.submenuWrapper}>
+      <div
+        className={className}
+        role="menuitem"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-disabled={!enabled || undefined}
+        data-focused={isOpen ? "true" : undefined}
+        onPointerEnter={() => onOpenChange(enabled)}
+        onClick={() => onOpenChange(enabled && !isOpen)}
+      >
+        {item.icon}
+        <span className={styles.submenuLabel}>{item.label}</span>
+      </div>
+      {isOpen && item.items && (
+        <div
+          ref={panelRef}
+          className={styles.submenu}
+          style={position ? { left: position.left, top: position.top } : { visibility: "hidden" }}
+          role="menu"
+          aria-label={item.label}
+        >
+          <ul className={styles.submenuList}>
+            <ContextMenuEntryList entries={item.items} context={context} onClose={onClose} />
+          </ul>
+        </div>
+      )}
+    </li>
+  );
+};
+
+SubmenuItem.displayName = "SubmenuItem";
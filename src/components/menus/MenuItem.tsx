@@ -9,14 +9,32 @@ export type MenuItemProps = {
   label: string;
   shortcutHint?: string | null;
   danger?: boolean;
+  /** Greys the item out and ignores clicks */
+  disabled?: boolean;
   onClick: () => void;
+  onPointerEnter?: () => void;
 };
 
-export const MenuItem: React.FC<MenuItemProps> = ({ icon, label, shortcutHint, danger = false, onClick }) => {
-  const className = danger ? `${styles.menuItem} ${styles.menuItemDanger}` : styles.menuItem;
+export const MenuItem: React.FC<MenuItemProps> = ({
+  icon,
+  label,
+  shortcutHint,
+  danger = false,
+  disabled = false,
+  onClick,
+  onPointerEnter,
+}) => {
+  const className = [styles.menuItem, danger && styles.menuItemDanger, disabled && styles.menuItemDisabled]
+    .filter(Boolean)
+    .join(" ");
 
   return (
-    <li className={className} onClick={onClick}>
+    <li
+      className={className}
+      aria-disabled={disabled || undefined}
+      onClick={disabled ? undefined : onClick}
+      onPointerEnter={onPointerEnter}
+    >
       {icon}
       {label}
       {shortcutHint ? <span className={styles.shortcutHint}>{shortcutHint}</span> : null}
@@ -7,12 +7,18 @@ import { MenuItem } from "./MenuItem";
 import { MenuSeparator } from "./MenuSeparator";
 import { useI18n } from "../../i18n/context";
 import { useEditorActionState } from "../../contexts/composed/EditorActionStateContext";
+import { useNodeEditor, useNodeEditorActions } from "../../contexts/composed/node-editor/context";
 import { useInteractionSettings } from "../../contexts/interaction-settings/context";
+import { useContextMenuEntries } from "../../contexts/context-menu/context";
+import { resolveVisibleContextMenuEntries } from "../../core/menu/contextMenu";
+import { ContextMenuEntryList } from "./ContextMenuEntryList";
 import {
   detectShortcutDisplayPlatform,
   getShortcutLabelForAction,
 } from "../../utils/shortcutDisplay";
 import type { NodeEditorShortcutAction } from "../../types/interaction";
+import type { Position } from "../../types/core";
+import type { ContextMenuActionContext, ContextTarget } from "../../types/contextMenu";
 
 export type NodeActionsListProps = {
   targetNodeId: string;
@@ -23,8 +29,14 @@ export type NodeActionsListProps = {
   includeCut?: boolean;
   includePaste?: boolean;
   includeDelete?: boolean;
+  /** Render items contributed to the node context menu after the built-in actions */
+  includeContributions?: boolean;
+  /** Canvas position the list was opened at, passed on to contributed items */
+  canvasPosition?: Position;
 };
 
+const noop = () => {};
+
 export const NodeActionsList: React.FC<NodeActionsListProps> = ({
   targetNodeId,
   onAction,
@@ -33,9 +45,13 @@ export const NodeActionsList: React.FC<NodeActionsListProps> = ({
   includeCut = true,
   includePaste = true,
   includeDelete = true,
+  includeContributions = true,
+  canvasPosition,
 }) => {
   const { t } = useI18n();
-  const { nodeOperations } = useEditorActionState();
+  const { state: actionState, nodeOperations } = useEditorActionState();
+  const { state: editorState, getState } = useNodeEditor();
+  const editorActions = useNodeEditorActions();
   const interactionSettings = useInteractionSettings();
   const platform = React.useMemo(() => detectShortcutDisplayPlatform(), []);
 
@@ -77,6 +93,34 @@ export const NodeActionsList: React.FC<NodeActionsListProps> = ({
     onAction?.();
   }, [nodeOperations, targetNodeId, onAction]);
 
+  const target = React.useMemo<ContextTarget>(() => ({ type: "node", id: targetNodeId }), [targetNodeId]);
+  const contributedEntries = useContextMenuEntries(target);
+  const targetNode = editorState.nodes[targetNodeId];
+  const contributionContext = React.useMemo<ContextMenuActionContext>(
+    () => ({
+      target,
+      node: targetNode,
+      canvasPosition,
+      selectedNodeIds: actionState.selectedNodeIds,
+      selectedConnectionIds: actionState.selectedConnectionIds,
+      actions: editorActions,
+      getState,
+    }),
+    [
+      target,
+      targetNode,
+      canvasPosition,
+      actionState.selectedNodeIds,
+      actionState.selectedConnectionIds,
+      editorActions,
+      getState,
+    ],
+  );
+  const visibleContributedEntries = React.useMemo(
+    () => (includeContributions ? resolveVisibleContextMenuEntries(contributedEntries, contributionContext) : []),
+    [includeContributions, contributedEntries, contributionContext],
+  );
+
   return (
     <>
       {includeDuplicate && (
@@ -123,6 +167,16 @@ export const NodeActionsList: React.FC<NodeActionsListProps> = ({
           />
         </>
       )}
+      {visibleContributedEntries.length > 0 && (
+        <>
+          <MenuSeparator />
+          <ContextMenuEntryList
+            entries={visibleContributedEntries}
+            context={contributionContext}
+            onClose={onAction ?? noop}
+          />
+        </>
+      )}
     </>
   );
 };
@@ -13,6 +13,10 @@ import { useExternalData } from "../../contexts/external-data/useExternalData";
 import { useCanvasInteractionActions, useCanvasInteractionSelector } from "../../contexts/composed/canvas/interaction/context";
 import { computeNodeDerivedState } from "../../core/node/nodeState";
 import { hasGroupBehavior } from "../../types/behaviors";
+import { useRemoteNodeSelection } from "../../contexts/presence/context";
+import { useGraphSearchHighlight } from "../../contexts/graph-search/context";
+import { useNodeExecutionStatus } from "../../contexts/execution-status/context";
+import { useKeyboardNavigationActions, useNodeKeyboardFocus } from "../../contexts/keyboard-navigation/context";
 import { NodeViewPresenter } from "./NodeViewPresenter";
 import type { NodeRendererProps } from "../../types/NodeDefinition";
 
@@ -79,6 +83,12 @@ const NodeViewContainerComponent: React.FC<NodeViewContainerProps> = ({
   const externalDataRef = useExternalDataRef(node.id);
   const externalDataState = useExternalData(node, externalDataRef);
 
+  const remoteSelections = useRemoteNodeSelection(node.id);
+  const searchHighlight = useGraphSearchHighlight(node.id);
+  const executionStatus = useNodeExecutionStatus(node.id);
+  const keyboardFocus = useNodeKeyboardFocus(node.id);
+  const { reportFocus } = useKeyboardNavigationActions();
+
   const isGroup = React.useMemo(() => hasGroupBehavior(nodeDefinition), [nodeDefinition]);
 
   const groupChildrenCount = useNodeEditorSelector(
@@ -167,6 +177,10 @@ const NodeViewContainerComponent: React.FC<NodeViewContainerProps> = ({
     startEditing(node.id, "title", node.data.title || "");
   });
 
+  const handleFocus = React.useEffectEvent(() => {
+    reportFocus(node.id);
+  });
+
   const handleResizeStart = React.useEffectEvent((e: React.PointerEvent, handle: NodeResizeHandle) => {
     e.stopPropagation();
     e.preventDefault();
@@ -191,6 +205,10 @@ const NodeViewContainerComponent: React.FC<NodeViewContainerProps> = ({
     <NodeViewPresenter
       node={node}
       isSelected={isSelected}
+      remoteSelections={remoteSelections}
+      searchHighlight={searchHighlight}
+      executionStatus={executionStatus}
+      keyboardFocus={keyboardFocus}
       isDragging={isDragging}
       dragOffset={dragOffset}
       nodeRenderer={nodeRenderer}
@@ -216,6 +234,7 @@ const NodeViewContainerComponent: React.FC<NodeViewContainerProps> = ({
       onResizeStart={handleResizeStart}
       onUpdateNode={handleUpdateNode}
       onStartEdit={handleStartEdit}
+      onFocus={handleFocus}
       onPortPointerDown={onPortPointerDown}
       onPortPointerUp={onPortPointerUp}
       onPortPointerEnter={onPortPointerEnter}
@@ -10,12 +10,17 @@ import type { ConnectablePortsResult } from "../../core/port/connectivity/connec
 import type { NodeAppearance } from "../../core/node/nodeAppearance";
 import type { NodeBehaviorState, NodeResizeState } from "../../core/node/nodeState";
 import type { ExternalDataStateWithActions } from "../../contexts/external-data/useExternalData";
+import type { PresenceUser } from "../../core/collaboration/presence";
+import type { GraphSearchHighlight } from "../../contexts/graph-search/context";
 import { areExternalDataStatesEqual } from "../../contexts/external-data/useExternalData";
 import { areNodeAppearancesEqual } from "../../core/node/nodeAppearance";
 import { areNodeBehaviorStatesEqual, areNodeResizeStatesEqual } from "../../core/node/nodeState";
 import { hasPositionChanged, hasSizeChanged } from "../../core/geometry/comparators";
 import { hasNodeStateChanged } from "../../core/node/comparators";
 import { hasPortIdChanged } from "../../core/port/identity/comparators";
+import { getNodeAccessibleName } from "../../core/node/accessibleName";
+import { executionStatusToVisualState } from "../../core/execution/visualState";
+import type { NodeExecutionStatus } from "../../core/execution/evaluate";
 import { ResizeHandles } from "./resize/ResizeHandles";
 import { NodeBodyRenderer } from "./body/NodeBodyRenderer";
 import { NodePortsRenderer } from "../ports/NodePortsRenderer";
@@ -24,6 +29,14 @@ import styles from "./NodeView.module.css";
 export type NodeViewPresenterProps = {
   node: Node;
   isSelected: boolean;
+  /** Other users selecting this node, drawn as colored outlines */
+  remoteSelections?: readonly PresenceUser[];
+  /** Relation to the find bar's query */
+  searchHighlight?: GraphSearchHighlight;
+  /** Status from the latest graph run; shown instead of `node.data.visualState` while set */
+  executionStatus?: NodeExecutionStatus | null;
+  /** Roving focus token: -1 outside the tab order, 0 for the tab stop, a request id to take focus */
+  keyboardFocus?: number;
   isDragging: boolean;
   dragOffset?: Position;
   nodeRenderer?: (props: NodeRendererProps) => React.ReactNode;
@@ -54,6 +67,7 @@ export type NodeViewPresenterProps = {
   onResizeStart: (e: React.PointerEvent, handle: NodeResizeHandle) => void;
   onUpdateNode: (updates: Partial<Node>) => void;
   onStartEdit: () => void;
+  onFocus?: () => void;
 
   onPortPointerDown?: (e: React.PointerEvent, port: Port) => void;
   onPortPointerUp?: (e: React.PointerEvent, port: Port) => void;
@@ -72,9 +86,16 @@ export type NodeViewPresenterProps = {
 
 const DEBUG_NODEVIEW_PRESENTER_RERENDERS = false;
 
+// Distance between nested remote selection outlines (px)
+const REMOTE_SELECTION_GAP = 3;
+
 const NodeViewPresenterComponent: React.FC<NodeViewPresenterProps> = ({
   node,
   isSelected,
+  remoteSelections,
+  searchHighlight,
+  executionStatus,
+  keyboardFocus = -1,
   isDragging,
   dragOffset,
   nodeRenderer,
@@ -100,6 +121,7 @@ const NodeViewPresenterComponent: React.FC<NodeViewPresenterProps> = ({
   onResizeStart,
   onUpdateNode,
   onStartEdit,
+  onFocus,
   onPortPointerDown,
   onPortPointerUp,
   onPortPointerEnter,
@@ -155,6 +177,13 @@ const NodeViewPresenterComponent: React.FC<NodeViewPresenterProps> = ({
     wasDraggingRef.current = typeof dragOffset !== "undefined";
   }, [basePosition, dragOffset, resizeState.currentPosition]);
 
+  // The viewport follows keyboard focus on its own, so the browser must not scroll the canvas
+  React.useLayoutEffect(() => {
+    if (keyboardFocus > 0) {
+      nodeRef.current?.focus({ preventScroll: true });
+    }
+  }, [keyboardFocus]);
+
   const handleNodePointerDown = React.useCallback(
     (e: React.PointerEvent) => {
       const target = e.target as HTMLElement;
@@ -211,6 +240,8 @@ const NodeViewPresenterComponent: React.FC<NodeViewPresenterProps> = ({
   const { backgroundWithOpacity, groupBackground, groupTextColor } = appearance;
   const hasCustomRenderer = !!nodeRenderer || !!nodeDefinition?.renderNode;
   const disableOutline = nodeDefinition?.disableOutline ?? false;
+  const accessibleName = getNodeAccessibleName(node, nodeDefinition);
+  const visualState = executionStatus ? executionStatusToVisualState(executionStatus) : node.data.visualState;
 
   return (
     <div
@@ -226,19 +257,40 @@ const NodeViewPresenterComponent: React.FC<NodeViewPresenterProps> = ({
       }}
       onPointerDown={handleNodePointerDown}
       onContextMenu={(e) => onContextMenu(e, node.id)}
+      onFocus={onFocus}
+      tabIndex={keyboardFocus === -1 ? -1 : 0}
+      role="group"
+      aria-roledescription="node"
+      aria-label={accessibleName}
       data-node-id={node.id}
       data-selected={isSelected}
       data-dragging={isVisuallyDragging}
       data-resizing={resizeState.isResizing}
       data-locked={node.locked}
-      data-visual-state={node.data.visualState || undefined}
+      data-visual-state={visualState || undefined}
       data-is-group={isGroup}
       data-has-children={hasChildren}
       data-plain-node={isAppearance}
       data-custom-renderer={hasCustomRenderer || undefined}
       data-disable-outline={disableOutline || undefined}
       data-unknown-type={isUnknownType || undefined}
+      data-remote-selected={remoteSelections && remoteSelections.length > 0 ? true : undefined}
+      data-search-match={searchHighlight ?? undefined}
     >
+      {remoteSelections?.map((user, index) => (
+        <div
+          key={user.id}
+          className={styles.remoteSelection}
+          style={{ borderColor: user.color, inset: -(REMOTE_SELECTION_GAP * (index + 1)) }}
+          data-presence-user-id={user.id}
+        >
+          {index === remoteSelections.length - 1 && user.name ? (
+            <span className={styles.remoteSelectionLabel} style={{ backgroundColor: user.color }}>
+              {user.name}
+            </span>
+          ) : null}
+        </div>
+      ))}
       <NodeBodyRenderer
         node={node}
         isSelected={isSelected}
@@ -303,6 +355,22 @@ const arePresenterPropsEqual = (
     debugLog("isSelected changed");
     return false;
   }
+  if (prevProps.remoteSelections !== nextProps.remoteSelections) {
+    debugLog("remoteSelections changed");
+    return false;
+  }
+  if (prevProps.searchHighlight !== nextProps.searchHighlight) {
+    debugLog("searchHighlight changed");
+    return false;
+  }
+  if (prevProps.executionStatus !== nextProps.executionStatus) {
+    debugLog("executionStatus changed");
+    return false;
+  }
+  if (prevProps.keyboardFocus !== nextProps.keyboardFocus) {
+    debugLog("keyboardFocus changed");
+    return false;
+  }
   if (prevProps.isDragging !== nextProps.isDragging) {
     debugLog("isDragging changed");
     return false;
@@ -14,20 +14,24 @@ import {
 } from "../../../contexts/composed/canvas/interaction/context";
 import {
   useNodeEditor,
+  useNodeEditorApi,
   useNodeEditorConnectedPortIdsByNode,
   useNodeEditorConnectedPorts,
   useNodeEditorSelector,
-  useNodeEditorSortedNodeIds,
 } from "../../../contexts/composed/node-editor/context";
 import { useNodeCanvasViewportScale, useNodeCanvasPanActive } from "../../../contexts/composed/canvas/viewport/context";
 import { useGroupManagement } from "../../../contexts/composed/node-editor/hooks/useGroupManagement";
 import { useNodeResize } from "../../../contexts/composed/canvas/interaction/hooks/useNodeResize";
-import { useVisibleNodes } from "../../../contexts/composed/canvas/viewport/hooks/useVisibleNodes";
+import { useCanvasVisibleNodes } from "../../../contexts/composed/canvas/visible-nodes/context";
 import styles from "./NodeLayer.module.css";
 import { useRenderers } from "../../../contexts/RendererContext";
+import { useSubflowNavigation } from "../../../contexts/subflow/context";
+import { useNodeDefinitionList } from "../../../contexts/node-definitions/hooks/useNodeDefinitionList";
+import { nodeHasSubflowBehavior } from "../../../types/behaviors";
 import { useNodeLayerDrag } from "./useNodeLayerDrag";
 import { useNodeLayerConnections } from "./useNodeLayerConnections";
 import { useNodeLayerPorts } from "./useNodeLayerPorts";
+import { NodeLayerOverview } from "./NodeLayerOverview";
 import { useNodeSelectionInteractions } from "../hooks/useNodeSelectionInteractions";
 import { useNodeCanvasGridSettings } from "../../../contexts/composed/canvas/viewport/context";
 import { EMPTY_CONNECTABLE_PORTS, isConnectablePortsEmpty } from "../../../core/port/connectivity/connectableTypes";
@@ -121,7 +125,6 @@ NodeItem.displayName = "NodeItem";
  */
 const NodeLayerComponent: React.FC<NodeLayerProps> = ({ doubleClickToEdit }) => {
   void doubleClickToEdit;
-  const sortedNodeIds = useNodeEditorSortedNodeIds();
   const connectedPorts = useNodeEditorConnectedPorts();
   const connectedPortIdsByNode = useNodeEditorConnectedPortIdsByNode();
   const actionState = useEditorActionStateState();
@@ -131,6 +134,9 @@ const NodeLayerComponent: React.FC<NodeLayerProps> = ({ doubleClickToEdit }) =>
   const gridSettings = useNodeCanvasGridSettings();
   const { node: NodeComponent } = useRenderers();
   const { settings } = useNodeEditor();
+  const { getState } = useNodeEditorApi();
+  const nodeDefinitions = useNodeDefinitionList();
+  const { enter: enterSubflow } = useSubflowNavigation();
   const scale = useNodeCanvasViewportScale();
 
   // Calculate showPortLabels once for all nodes
@@ -154,8 +160,8 @@ const NodeLayerComponent: React.FC<NodeLayerProps> = ({ doubleClickToEdit }) =>
     membershipUpdateDelay: 200,
   });
 
-  // Get only visible nodes for virtualization
-  const visibleNodeIds = useVisibleNodes(sortedNodeIds);
+  // Visible nodes are shared with the connection layer; above the budget nodes are drawn as a snapshot
+  const { nodeIds: visibleNodeIds, isOverBudget } = useCanvasVisibleNodes();
 
   // Update connected ports in action state only when changed
   React.useEffect(() => {
@@ -184,7 +190,10 @@ const NodeLayerComponent: React.FC<NodeLayerProps> = ({ doubleClickToEdit }) =>
   const onPortPointerLeave = useStableCallback(handlePortPointerLeave);
   const onPortPointerCancel = useStableCallback(handlePortPointerCancel);
 
-  useNodeLayerDrag(groupManager.moveGroupWithChildren);
+  useNodeLayerDrag(groupManager.moveGroupWithChildren, {
+    visibleNodeIds,
+    smartGuides: settings.smartGuides,
+  });
 
   useNodeLayerConnections();
 
@@ -213,7 +222,7 @@ const NodeLayerComponent: React.FC<NodeLayerProps> = ({ doubleClickToEdit }) =>
   const selectedNodeIdsSet = useSelectedNodeIdsSet();
   const dragNodeIdsSets = useDragNodeIdsSets();
 
-  const nodeElements = visibleNodeIds.map((nodeId) => {
+  const nodeElements = isOverBudget ? null : visibleNodeIds.map((nodeId) => {
     // O(1) lookup using shared Sets from context
     const isDirectlyDragging = dragNodeIdsSets?.directlyDraggedNodeIds.has(nodeId) ?? false;
     const isInDragState = isDirectlyDragging || (dragNodeIdsSets?.affectedChildNodeIds.has(nodeId) ?? false);
@@ -255,10 +264,25 @@ const NodeLayerComponent: React.FC<NodeLayerProps> = ({ doubleClickToEdit }) =>
     );
   });
 
+  // Double-clicking a subflow node opens its nested graph
+  const handleDoubleClick = React.useCallback(
+    (e: React.MouseEvent) => {
+      if (!(e.target instanceof Element) || e.target.closest("[data-port-id]")) {
+        return;
+      }
+      const nodeId = e.target.closest("[data-node-id]")?.getAttribute("data-node-id");
+      const node = nodeId ? getState().nodes[nodeId] : undefined;
+      if (node && nodeHasSubflowBehavior(node, nodeDefinitions)) {
+        enterSubflow(node.id);
+      }
+    },
+    [getState, nodeDefinitions, enterSubflow],
+  );
+
   return (
-    <div className={styles.nodeLayer} data-node-layer>
+    <div className={styles.nodeLayer} data-node-layer onDoubleClick={handleDoubleClick}>
       <div className={styles.snapshotWrapper} data-snapshot-mode={isSnapshotMode}>
-        {nodeElements}
+        {isOverBudget ? <NodeLayerOverview nodeIds={visibleNodeIds} /> : nodeElements}
       </div>
     </div>
   );
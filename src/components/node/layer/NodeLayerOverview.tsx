@@ -0,0 +1,53 @@
+/**
+ * @file Lightweight stand-in for the node layer when more nodes are on screen than the render budget allows.
+ * Draws the nodes and their connections in the NodeMapRenderer snapshot style at their canvas positions
+ * instead of mounting node and connection views, so no ports are resolved.
+ */
+import * as React from "react";
+import { useNodeEditorSelector } from "../../../contexts/composed/node-editor/context";
+import { useNodeDefinitionList } from "../../../contexts/node-definitions/hooks/useNodeDefinitionList";
+import { NodeMapRenderer, getNodeMapBounds } from "../../layers/NodeMapRenderer";
+import type { Node, NodeId } from "../../../types/core";
+import styles from "./NodeLayer.module.css";
+
+export type NodeLayerOverviewProps = {
+  nodeIds: readonly NodeId[];
+};
+
+const NodeLayerOverviewComponent: React.FC<NodeLayerOverviewProps> = ({ nodeIds }) => {
+  const allNodes = useNodeEditorSelector((state) => state.nodes);
+  // The connection layer skips its views above the budget; connections between drawn nodes become straight lines
+  const connections = useNodeEditorSelector((state) => state.connections);
+  const nodeDefinitions = useNodeDefinitionList();
+
+  const nodes = React.useMemo(() => {
+    const record: Record<NodeId, Node> = {};
+    nodeIds.forEach((nodeId) => {
+      const node = allNodes[nodeId];
+      if (node) {
+        record[nodeId] = node;
+      }
+    });
+    return record;
+  }, [allNodes, nodeIds]);
+
+  // Fitting the map into a box the size of its own bounds keeps it at canvas scale
+  const bounds = React.useMemo(() => getNodeMapBounds(Object.values(nodes)), [nodes]);
+
+  return (
+    <div className={styles.overview} style={{ left: bounds.minX, top: bounds.minY }} data-node-layer-overview>
+      <NodeMapRenderer
+        nodes={nodes}
+        connections={connections}
+        width={bounds.maxX - bounds.minX}
+        height={bounds.maxY - bounds.minY}
+        padding={0}
+        nodeDefinitions={nodeDefinitions}
+      />
+    </div>
+  );
+};
+
+export const NodeLayerOverview = React.memo(NodeLayerOverviewComponent);
+
+NodeLayerOverview.displayName = "NodeLayerOverview";
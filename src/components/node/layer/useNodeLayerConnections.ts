@@ -18,7 +18,7 @@ import { useRafThrottledCallback } from "../../../hooks/useRafThrottledCallback"
 import type { Port, Position } from "../../../types/core";
 import { computeConnectablePortIds } from "../../../core/port/connectivity/planner";
 import { findNearestConnectablePort } from "../../../core/port/connectivity/candidate";
-import { usePortPositions } from "../../../contexts/node-ports/context";
+import { useConnectionPointResolver } from "../../../contexts/node-ports/hooks/useConnectionPointResolver";
 import { useLatestRef } from "../../../hooks/useLatestRef";
 
 export const useNodeLayerConnections = () => {
@@ -32,7 +32,6 @@ export const useNodeLayerConnections = () => {
   const { resolveCandidatePort, resolveDisconnectCandidate } = useConnectionPortResolvers();
   const { completeConnectionDrag, completeDisconnectDrag, endConnectionDrag, endConnectionDisconnect } =
     useConnectionOperations();
-  const { getPortPosition, computePortPosition } = usePortPositions();
 
   // Connection drag handling
   const resolveCandidatePortRef = useLatestRef(resolveCandidatePort);
@@ -48,31 +47,8 @@ export const useNodeLayerConnections = () => {
   const getNodePortsRef = useLatestRef(getNodePorts);
   const utilsRef = useLatestRef(utils);
   const registryRef = useLatestRef(registry);
-  const getPortPositionRef = useLatestRef(getPortPosition);
-  const computePortPositionRef = useLatestRef(computePortPosition);
 
-  const resolveConnectionPoint = React.useCallback((nodeId: string, portId: string) => {
-    const stored = getPortPositionRef.current(nodeId, portId);
-    if (stored) {
-      return stored.connectionPoint;
-    }
-    const editorState = getNodeEditorStateRef.current();
-    const node = editorState.nodes[nodeId];
-    if (!node) {
-      return null;
-    }
-    const definition = registryRef.current.get(node.type);
-    if (!definition) {
-      return null;
-    }
-    const ports = getNodePortsRef.current(nodeId);
-    const targetPort = ports.find((candidate) => candidate.id === portId);
-    if (!targetPort) {
-      return null;
-    }
-    const computed = computePortPositionRef.current({ ...node, ports }, targetPort);
-    return computed.connectionPoint;
-  }, []);
+  const resolveConnectionPoint = useConnectionPointResolver();
 
   const resolveCandidateFallback = React.useCallback(
     (canvasPosition: Position, fromPort: Port) => {
@@ -11,13 +11,30 @@ import { snapMultipleToGrid } from "../../../contexts/composed/node-editor/utils
 import { calculateNewPositions, handleGroupMovement } from "../../../contexts/composed/node-editor/utils/nodeDragHelpers";
 import type { UseGroupManagementResult } from "../../../contexts/composed/node-editor/hooks/useGroupManagement";
 import { useRafThrottledCallback } from "../../../hooks/useRafThrottledCallback";
-import type { DragState, Position } from "../../../types/core";
+import type { Bounds, DragState, NodeId, Position } from "../../../types/core";
 import { useLatestRef } from "../../../hooks/useLatestRef";
+import { getNodeSize } from "../../../utils/boundingBoxUtils";
+import { computeAlignmentSnap, getBoundsUnion } from "../../../core/geometry/alignment";
+import { useNodeLayerSplice } from "./useNodeLayerSplice";
 
-export const useNodeLayerDrag = (moveGroupWithChildren: UseGroupManagementResult["moveGroupWithChildren"]) => {
+/** Distance in screen pixels within which dragged nodes snap to smart guides */
+const SMART_GUIDE_SNAP_THRESHOLD = 6;
+
+export type NodeLayerDragOptions = {
+  /** Nodes currently rendered; only these are used as alignment candidates */
+  visibleNodeIds: readonly NodeId[];
+  /** Snap to and show alignment and spacing guides while dragging */
+  smartGuides: boolean;
+};
+
+export const useNodeLayerDrag = (
+  moveGroupWithChildren: UseGroupManagementResult["moveGroupWithChildren"],
+  { visibleNodeIds, smartGuides }: NodeLayerDragOptions,
+) => {
   const dragState = useCanvasInteractionDragState();
-  const { actions: interactionActions } = useCanvasInteractionActions();
-  const { actions: nodeEditorActions, getState: getNodeEditorState } = useNodeEditorApi();
+  const { actions: interactionActions, getState: getInteractionState } = useCanvasInteractionActions();
+  const { actions: nodeEditorActions, getState: getNodeEditorState, transaction } = useNodeEditorApi();
+  const splice = useNodeLayerSplice();
   const viewportScale = useNodeCanvasViewportScale();
   const gridSettings = useNodeCanvasGridSettings();
   const nodeDefinitions = useNodeDefinitionList();
@@ -30,9 +47,60 @@ export const useNodeLayerDrag = (moveGroupWithChildren: UseGroupManagementResult
   const moveGroupWithChildrenRef = useLatestRef(moveGroupWithChildren);
   const nodeEditorActionsRef = useLatestRef(nodeEditorActions);
   const interactionActionsRef = useLatestRef(interactionActions);
+  const visibleNodeIdsRef = useLatestRef(visibleNodeIds);
+  const smartGuidesRef = useLatestRef(smartGuides);
+  const getInteractionStateRef = useLatestRef(getInteractionState);
+  const transactionRef = useLatestRef(transaction);
+  const spliceRef = useLatestRef(splice);
+
+  // Axes the current drag is snapped to guides on; grid snapping leaves them alone
+  const guideSnappedAxesRef = React.useRef({ x: false, y: false });
+  const hasAlignmentGuidesRef = React.useRef(false);
+  // Alt held while dragging pulls the node out of its connections instead of splicing it into one
+  const detachRef = React.useRef(false);
+
+  const snapToGuides = React.useCallback((dragState: DragState, offset: Position): Position => {
+    const nodes = getNodeEditorStateRef.current().nodes;
+    const draggedBounds = dragState.nodeIds.flatMap((nodeId): Bounds[] => {
+      const node = nodes[nodeId];
+      const initial = dragState.initialPositions[nodeId];
+      return node && initial ? [{ ...initial, ...getNodeSize(node) }] : [];
+    });
+    const moving = getBoundsUnion(draggedBounds);
+    if (!moving) {
+      return offset;
+    }
+    const excluded = new Set<NodeId>(dragState.nodeIds);
+    Object.values(dragState.affectedChildNodes).forEach((childIds) => childIds.forEach((id) => excluded.add(id)));
+    const candidates = visibleNodeIdsRef.current.flatMap((nodeId): Bounds[] => {
+      const node = nodes[nodeId];
+      return node && !excluded.has(nodeId) && node.visible !== false ? [{ ...node.position, ...getNodeSize(node) }] : [];
+    });
+
+    const snap = computeAlignmentSnap(
+      { ...moving, x: moving.x + offset.x, y: moving.y + offset.y },
+      candidates,
+      SMART_GUIDE_SNAP_THRESHOLD / viewportScaleRef.current,
+    );
+    guideSnappedAxesRef.current = snap.snapped;
+    const hasGuides = snap.lines.length > 0 || snap.spacings.length > 0;
+    if (hasGuides || hasAlignmentGuidesRef.current) {
+      interactionActionsRef.current.setAlignmentGuides(hasGuides ? { lines: snap.lines, spacings: snap.spacings } : null);
+    }
+    hasAlignmentGuidesRef.current = hasGuides;
+    return { x: offset.x + snap.delta.x, y: offset.y + snap.delta.y };
+  }, []);
 
   const updateDragOffset = React.useCallback((offset: Position) => {
-    interactionActionsRef.current.updateNodeDrag(offset);
+    const dragState = dragStateRef.current;
+    const snappedOffset = dragState && smartGuidesRef.current ? snapToGuides(dragState, offset) : offset;
+    interactionActionsRef.current.updateNodeDrag(snappedOffset);
+
+    const spliceConnectionId =
+      dragState && !detachRef.current ? spliceRef.current.findSpliceTarget({ ...dragState, offset: snappedOffset }) : null;
+    if (spliceConnectionId !== getInteractionStateRef.current().spliceConnectionId) {
+      interactionActionsRef.current.setSpliceTarget(spliceConnectionId);
+    }
   }, []);
   const { schedule: scheduleDragOffset, cancel: cancelDragOffset } = useRafThrottledCallback(updateDragOffset);
   const scheduleDragOffsetRef = useLatestRef(scheduleDragOffset);
@@ -47,10 +115,11 @@ export const useNodeLayerDrag = (moveGroupWithChildren: UseGroupManagementResult
     const deltaX = (event.clientX - dragState.startPosition.x) / scale;
     const deltaY = (event.clientY - dragState.startPosition.y) / scale;
 
+    detachRef.current = event.altKey;
     scheduleDragOffsetRef.current({ x: deltaX, y: deltaY });
   }, []);
 
-  const handlePointerUp = React.useCallback(() => {
+  const handlePointerUp = React.useCallback((event: PointerEvent) => {
     const dragState = dragStateRef.current;
     if (!dragState) {
       return;
@@ -62,9 +131,23 @@ export const useNodeLayerDrag = (moveGroupWithChildren: UseGroupManagementResult
     const newPositions = calculateNewPositions(nodeIds, initialPositions, offset);
 
     const currentGridSettings = gridSettingsRef.current;
-    const snappedPositions = currentGridSettings.snapToGrid
+    const gridPositions = currentGridSettings.snapToGrid
       ? snapMultipleToGrid(newPositions, currentGridSettings, nodeIds[0])
       : newPositions;
+    // Guide snapping wins over grid snapping on the axes it aligned
+    const guideSnappedAxes = guideSnappedAxesRef.current;
+    const snappedPositions =
+      guideSnappedAxes.x || guideSnappedAxes.y
+        ? Object.fromEntries(
+            Object.entries(gridPositions).map(([nodeId, position]) => [
+              nodeId,
+              {
+                x: guideSnappedAxes.x ? newPositions[nodeId].x : position.x,
+                y: guideSnappedAxes.y ? newPositions[nodeId].y : position.y,
+              },
+            ]),
+          )
+        : gridPositions;
 
     const finalPositions = handleGroupMovement(
       nodeIds,
@@ -75,10 +158,30 @@ export const useNodeLayerDrag = (moveGroupWithChildren: UseGroupManagementResult
       nodeDefinitionsRef.current,
     );
 
-    flushSync(() => {
+    const moveNodes = () => {
       if (Object.keys(finalPositions).length > 0) {
         nodeEditorActionsRef.current.moveNodes(finalPositions);
       }
+    };
+    const detach = event.altKey && (offset.x !== 0 || offset.y !== 0);
+    const spliceConnectionId = detach ? null : getInteractionStateRef.current().spliceConnectionId;
+
+    flushSync(() => {
+      if (detach || spliceConnectionId) {
+        // Moving and rewiring form one undo step
+        transactionRef.current(detach ? "Detach node" : "Splice node into connection", () => {
+          moveNodes();
+          const plan = spliceRef.current.planDrop(dragState, spliceConnectionId, detach);
+          plan?.removeConnectionIds.forEach((connectionId) => {
+            nodeEditorActionsRef.current.deleteConnection(connectionId);
+          });
+          plan?.addConnections.forEach((connection) => {
+            nodeEditorActionsRef.current.addConnection(connection);
+          });
+        });
+      } else {
+        moveNodes();
+      }
       interactionActionsRef.current.endNodeDrag();
     });
   }, []);
@@ -95,6 +198,9 @@ export const useNodeLayerDrag = (moveGroupWithChildren: UseGroupManagementResult
       cancelDragOffsetRef.current();
       window.removeEventListener("pointermove", handlePointerMove);
       window.removeEventListener("pointerup", handlePointerUp);
+      guideSnappedAxesRef.current = { x: false, y: false };
+      hasAlignmentGuidesRef.current = false;
+      detachRef.current = false;
     };
   }, [dragState ? true : false, handlePointerMove, handlePointerUp]);
 };
@@ -0,0 +1,147 @@
+/**
+ * @file Hook for splicing a dragged node into a connection and detaching it from its chain.
+ */
+import * as React from "react";
+import { useNodeEditorApi } from "../../../contexts/composed/node-editor/context";
+import { useNodeDefinitions } from "../../../contexts/node-definitions/context";
+import { useConnectionPathModelCalculator } from "../../../contexts/connection-behavior/context";
+import { useConnectionPointResolver } from "../../../contexts/node-ports/hooks/useConnectionPointResolver";
+import { useLatestRef } from "../../../hooks/useLatestRef";
+import { getConnectionWaypoints } from "../../../core/connection/waypoints";
+import {
+  doesPathModelCrossBounds,
+  findSplicePorts,
+  planConnectionSplice,
+  planNodeDetach,
+  type ConnectionRewireContext,
+  type ConnectionRewirePlan,
+} from "../../../core/connection/splice";
+import { getNodeSize } from "../../../utils/boundingBoxUtils";
+import type { Bounds, ConnectionId, DragState, NodeId, Port, Position } from "../../../types/core";
+
+// Room around a connection's endpoints and waypoints that its curve may bulge into
+const PATH_BOUNDS_MARGIN = 120;
+
+const intersects = (a: Bounds, b: Bounds): boolean =>
+  a.x <= b.x + b.width && a.x + a.width >= b.x && a.y <= b.y + b.height && a.y + a.height >= b.y;
+
+const getPointsBounds = (points: readonly Position[], margin: number): Bounds => {
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const x = Math.min(...xs) - margin;
+  const y = Math.min(...ys) - margin;
+  return { x, y, width: Math.max(...xs) + margin - x, height: Math.max(...ys) + margin - y };
+};
+
+/** The single node a drag can splice or detach; group drags and multi-selections do neither */
+const getSingleDraggedNodeId = (dragState: DragState): NodeId | null => {
+  if (dragState.nodeIds.length !== 1) {
+    return null;
+  }
+  const movesChildren = Object.values(dragState.affectedChildNodes).some((childIds) => childIds.length > 0);
+  return movesChildren ? null : dragState.nodeIds[0]!;
+};
+
+export const useNodeLayerSplice = () => {
+  const { getState: getNodeEditorState, getNodePorts } = useNodeEditorApi();
+  const { registry } = useNodeDefinitions();
+  const createPathModel = useConnectionPathModelCalculator();
+  const resolveConnectionPoint = useConnectionPointResolver();
+
+  const getNodeEditorStateRef = useLatestRef(getNodeEditorState);
+  const getNodePortsRef = useLatestRef(getNodePorts);
+  const registryRef = useLatestRef(registry);
+  const createPathModelRef = useLatestRef(createPathModel);
+
+  const getRewireContext = React.useCallback((): ConnectionRewireContext => {
+    const { nodes, connections } = getNodeEditorStateRef.current();
+    return {
+      nodes,
+      connections,
+      getNodePorts: (nodeId: NodeId): Port[] => {
+        try {
+          return getNodePortsRef.current(nodeId);
+        } catch {
+          return [];
+        }
+      },
+      getNodeDefinition: (type: string) => registryRef.current.get(type),
+    };
+  }, []);
+
+  /**
+   * Connection whose path runs under the dragged node at its current drag offset and that the node
+   * has free ports for, or null.
+   */
+  const findSpliceTarget = React.useCallback(
+    (dragState: DragState): ConnectionId | null => {
+      const nodeId = getSingleDraggedNodeId(dragState);
+      const context = getRewireContext();
+      const node = nodeId ? context.nodes[nodeId] : undefined;
+      const initial = nodeId ? dragState.initialPositions[nodeId] : undefined;
+      if (!nodeId || !node || !initial) {
+        return null;
+      }
+      const bounds: Bounds = {
+        x: initial.x + dragState.offset.x,
+        y: initial.y + dragState.offset.y,
+        ...getNodeSize(node),
+      };
+
+      const target = Object.values(context.connections).find((connection) => {
+        if (connection.fromNodeId === nodeId || connection.toNodeId === nodeId) {
+          return false;
+        }
+        const outputPosition = resolveConnectionPoint(connection.fromNodeId, connection.fromPortId);
+        const inputPosition = resolveConnectionPoint(connection.toNodeId, connection.toPortId);
+        if (!outputPosition || !inputPosition) {
+          return false;
+        }
+        const points = [outputPosition, ...getConnectionWaypoints(connection), inputPosition];
+        if (!intersects(getPointsBounds(points, PATH_BOUNDS_MARGIN), bounds)) {
+          return false;
+        }
+        if (!findSplicePorts({ ...context, nodeId, connectionId: connection.id })) {
+          return false;
+        }
+        const outputNode = context.nodes[connection.fromNodeId];
+        const inputNode = context.nodes[connection.toNodeId];
+        const model = createPathModelRef.current({
+          outputPosition,
+          inputPosition,
+          connection,
+          outputNode,
+          inputNode,
+          outputPort: context.getNodePorts(connection.fromNodeId).find((port) => port.id === connection.fromPortId),
+          inputPort: context.getNodePorts(connection.toNodeId).find((port) => port.id === connection.toPortId),
+        });
+        return doesPathModelCrossBounds(model, bounds);
+      });
+      return target?.id ?? null;
+    },
+    [getRewireContext, resolveConnectionPoint],
+  );
+
+  /**
+   * Connections to rewire when the drag is dropped: split `spliceConnectionId` through the node,
+   * or take the node out of its chain when `detach` is set. Reads the current editor state, so call
+   * it after the node has been moved.
+   */
+  const planDrop = React.useCallback(
+    (dragState: DragState, spliceConnectionId: ConnectionId | null, detach: boolean): ConnectionRewirePlan | null => {
+      const nodeId = getSingleDraggedNodeId(dragState);
+      if (!nodeId) {
+        return null;
+      }
+      if (detach) {
+        return planNodeDetach({ ...getRewireContext(), nodeId });
+      }
+      return spliceConnectionId
+        ? planConnectionSplice({ ...getRewireContext(), nodeId, connectionId: spliceConnectionId })
+        : null;
+    },
+    [getRewireContext],
+  );
+
+  return { findSpliceTarget, planDrop };
+};
@@ -7,7 +7,9 @@ import { useDynamicPortPosition } from "../../contexts/node-ports/hooks/usePortP
 import { useNodeEditorApi } from "../../contexts/composed/node-editor/context";
 import { useNodeDefinitions } from "../../contexts/node-definitions/context";
 import { useCanvasInteractionSelector } from "../../contexts/composed/canvas/interaction/context";
+import { useKeyboardNavigationActions, usePortTabIndex } from "../../contexts/keyboard-navigation/context";
 import { hasPositionChanged, hasSizeChanged } from "../../core/geometry/comparators";
+import { useI18n } from "../../i18n/context";
 import type { PortRenderContext } from "../../types/NodeDefinition";
 import styles from "./PortView.module.css";
 
@@ -155,6 +157,24 @@ export const PortView: React.FC<PortViewProps> = ({
     onPointerCancel?.(e, port);
   });
 
+  // Enter / Space on a focused port lists the ports it can connect to
+  const { t } = useI18n();
+  const tabIndex = usePortTabIndex(port.nodeId);
+  const { startConnect } = useKeyboardNavigationActions();
+  const handleKeyDown = React.useEffectEvent((e: React.KeyboardEvent) => {
+    if (e.key !== "Enter" && e.key !== " ") {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    startConnect(port);
+  });
+  const portName = port.label || port.id;
+  const accessibleName =
+    port.type === "input"
+      ? t("portAccessibleInput", { label: portName }) || `${portName}, input port`
+      : t("portAccessibleOutput", { label: portName }) || `${portName}, output port`;
+
   // Get node editor state for custom renderer context
   const { getNodeById, getState } = useNodeEditorApi();
   const node = getNodeById(port.nodeId);
@@ -175,6 +195,10 @@ export const PortView: React.FC<PortViewProps> = ({
         onPointerMove={handlePointerMove}
         onPointerLeave={handlePointerLeave}
         onPointerCancel={handlePointerCancel}
+        onKeyDown={handleKeyDown}
+        tabIndex={tabIndex}
+        role="button"
+        aria-label={accessibleName}
         data-port-id={port.id}
         data-port-type={port.type}
         data-port-position={port.position}
@@ -194,7 +218,18 @@ export const PortView: React.FC<PortViewProps> = ({
         )}
       </div>
     ),
-    [port, isConnecting, isConnectable, isCandidate, isHovered, isConnected, portPositionStyle, showLabel],
+    [
+      port,
+      isConnecting,
+      isConnectable,
+      isCandidate,
+      isHovered,
+      isConnected,
+      portPositionStyle,
+      showLabel,
+      tabIndex,
+      accessibleName,
+    ],
   );
 
   // Check if there's a custom renderer
@@ -226,7 +261,10 @@ export const PortView: React.FC<PortViewProps> = ({
         onPointerMove: handlePointerMove,
         onPointerLeave: handlePointerLeave,
         onPointerCancel: handlePointerCancel,
+        onKeyDown: handleKeyDown,
       },
+      tabIndex,
+      accessibleName,
     };
 
     return portDefinition.renderPort(context, defaultRender);
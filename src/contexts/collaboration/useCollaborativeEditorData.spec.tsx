@@ -0,0 +1,149 @@
+/**
+ * @file Tests for useCollaborativeEditorData - syncing controlled editor data through a transport
+ */
+import { act, render, renderHook } from "@testing-library/react";
+import * as React from "react";
+import { NodeEditorProvider } from "../composed/node-editor/provider";
+import { useNodeEditorApi, type NodeEditorApiValue } from "../composed/node-editor/context";
+import { NodeDefinitionProvider } from "../node-definitions/provider";
+import { HistoryProvider, useHistory, type HistoryContextValue } from "../history/context";
+import { asNodeDefinition } from "../../types/NodeDefinition";
+import type { NodeEditorData } from "../../types/core";
+import { StandardNodeDefinition } from "../../node-definitions/standard";
+import { createLoopbackCollaborationHub, type CollaborationMessage } from "../../core/collaboration/transport";
+import { createCollaborationOperations } from "../../core/collaboration/operations";
+import { useCollaborativeEditorData } from "./useCollaborativeEditorData";
+
+const makeData = (): NodeEditorData => ({
+  nodes: {
+    n1: { id: "n1", type: "standard", position: { x: 0, y: 0 }, data: { title: "Node 1" } },
+    n2: { id: "n2", type: "standard", position: { x: 200, y: 0 }, data: { title: "Node 2" } },
+  },
+  connections: {},
+});
+
+const moveNode = (data: NodeEditorData, nodeId: string, x: number): NodeEditorData => ({
+  ...data,
+  nodes: { ...data.nodes, [nodeId]: { ...data.nodes[nodeId], position: { x, y: 0 } } },
+});
+
+describe("useCollaborativeEditorData", () => {
+  it("broadcasts local changes to other replicas", () => {
+    const hub = createLoopbackCollaborationHub();
+    const initialData = makeData();
+    const transportA = hub.connect();
+    const transportB = hub.connect();
+    const { result } = renderHook(() => ({
+      a: useCollaborativeEditorData({ transport: transportA, initialData, siteId: "a" }),
+      b: useCollaborativeEditorData({ transport: transportB, initialData, siteId: "b" }),
+    }));
+
+    act(() => {
+      result.current.a.onDataChange(moveNode(result.current.a.data, "n1", 40));
+    });
+
+    expect(result.current.b.data.nodes.n1.position).toEqual({ x: 40, y: 0 });
+  });
+
+  it("converges after concurrent edits are delivered", () => {
+    const hub = createLoopbackCollaborationHub({ manual: true });
+    const initialData = makeData();
+    const transportA = hub.connect();
+    const transportB = hub.connect();
+    const { result } = renderHook(() => ({
+      a: useCollaborativeEditorData({ transport: transportA, initialData, siteId: "a", requestSync: false }),
+      b: useCollaborativeEditorData({ transport: transportB, initialData, siteId: "b", requestSync: false }),
+    }));
+
+    act(() => {
+      result.current.a.onDataChange(moveNode(result.current.a.data, "n1", 10));
+      const movedOnB = moveNode(result.current.b.data, "n1", 20);
+      result.current.b.onDataChange(movedOnB);
+      result.current.b.onDataChange(moveNode(movedOnB, "n2", 300));
+    });
+    expect(hub.getPendingCount()).toBe(3);
+
+    act(() => {
+      hub.flush();
+    });
+
+    expect(result.current.a.data).toEqual(result.current.b.data);
+    // b's move of n1 has the same Lamport counter as a's; the higher site id wins
+    expect(result.current.a.data.nodes.n1.position).toEqual({ x: 20, y: 0 });
+    expect(result.current.a.data.nodes.n2.position).toEqual({ x: 300, y: 0 });
+  });
+
+  it("syncs a replica that joins later", () => {
+    const hub = createLoopbackCollaborationHub();
+    const transportA = hub.connect();
+    const first = renderHook(() =>
+      useCollaborativeEditorData({ transport: transportA, initialData: makeData(), siteId: "a" }),
+    );
+    act(() => {
+      first.result.current.onDataChange(moveNode(first.result.current.data, "n2", 250));
+    });
+
+    const transportB = hub.connect();
+    const second = renderHook(() => useCollaborativeEditorData({ transport: transportB, siteId: "b" }));
+
+    expect(second.result.current.data).toEqual(first.result.current.data);
+  });
+
+  it("applies remote edits without adding them to the local undo history", () => {
+    const hub = createLoopbackCollaborationHub();
+    const remote = hub.connect();
+    const received: CollaborationMessage[] = [];
+    remote.subscribe((message) => received.push(message));
+    const handle: { api?: NodeEditorApiValue; history?: HistoryContextValue; data?: NodeEditorData } = {};
+
+    const Probe: React.FC = () => {
+      handle.api = useNodeEditorApi();
+      handle.history = useHistory();
+      return null;
+    };
+    const Site: React.FC = () => {
+      const transport = React.useMemo(() => hub.connect(), []);
+      const collaborative = useCollaborativeEditorData({ transport, initialData: makeData(), siteId: "local" });
+      handle.data = collaborative.data;
+      return (
+        <NodeEditorProvider controlledData={collaborative.data} onDataChange={collaborative.onDataChange}>
+          <HistoryProvider>
+            <Probe />
+          </HistoryProvider>
+        </NodeEditorProvider>
+      );
+    };
+    render(
+      <NodeDefinitionProvider nodeDefinitions={[asNodeDefinition(StandardNodeDefinition)]}>
+        <Site />
+      </NodeDefinitionProvider>,
+    );
+
+    act(() => {
+      handle.api?.actions.updateNode("n1", { data: { title: "Local" } });
+    });
+    expect(handle.history?.state.entries).toHaveLength(1);
+    expect(received.some((message) => message.type === "operations")).toBe(true);
+
+    act(() => {
+      const current = handle.data as NodeEditorData;
+      remote.send({
+        type: "operations",
+        siteId: "remote",
+        operations: createCollaborationOperations(current, moveNode(current, "n2", 500), {
+          counter: 10,
+          siteId: "remote",
+        }),
+      });
+    });
+    expect(handle.api?.getState().nodes.n2.position).toEqual({ x: 500, y: 0 });
+    expect(handle.history?.state.entries).toHaveLength(1);
+
+    act(() => {
+      handle.history?.undo();
+    });
+    expect(handle.api?.getState().nodes.n1.data.title).toBe("Node 1");
+    expect(handle.api?.getState().nodes.n2.position).toEqual({ x: 500, y: 0 });
+    expect(handle.data?.nodes.n1.data.title).toBe("Node 1");
+  });
+});
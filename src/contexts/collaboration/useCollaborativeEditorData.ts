@@ -0,0 +1,104 @@
+/**
+ * @file Hook that keeps controlled editor data in sync with remote collaborators
+ * Local changes reported through `onDataChange` become collaboration operations and are broadcast;
+ * remote operations are merged into the document and handed back to the editor as controlled `data`.
+ */
+import * as React from "react";
+import type { NodeEditorData } from "../../types/core";
+import {
+  applyCollaborationOperations,
+  createCollaborationDocument,
+  getCollaborationSnapshot,
+  type CollaborationDocument,
+  type CollaborationOperation,
+} from "../../core/collaboration/document";
+import { createCollaborationOperations } from "../../core/collaboration/operations";
+import type { CollaborationMessage, CollaborationTransport } from "../../core/collaboration/transport";
+import { generateId } from "../composed/node-editor/reducer";
+
+export type UseCollaborativeEditorDataOptions = {
+  transport: CollaborationTransport;
+  /** Data every replica starts from; replicas joining later should start empty and sync */
+  initialData?: NodeEditorData;
+  /** Unique id of this replica (default: random) */
+  siteId?: string;
+  /** Ask connected peers for their state on mount (default: true) */
+  requestSync?: boolean;
+  /** Called after remote operations changed the data */
+  onRemoteChange?: (data: NodeEditorData, operations: readonly CollaborationOperation[]) => void;
+};
+
+export type CollaborativeEditorData = {
+  /** Pass to `NodeEditor` as `data` */
+  data: NodeEditorData;
+  /** Pass to `NodeEditor` as `onDataChange` */
+  onDataChange: (data: NodeEditorData) => void;
+  siteId: string;
+  /** Current merged document */
+  getDocument: () => CollaborationDocument;
+};
+
+/**
+ * Connect controlled editor data to a collaboration transport.
+ * Remote edits arrive as controlled data changes, so they are not recorded in the local undo history;
+ * undoing a local edit produces new operations that are broadcast like any other edit.
+ */
+export const useCollaborativeEditorData = (options: UseCollaborativeEditorDataOptions): CollaborativeEditorData => {
+  const { transport, requestSync = true } = options;
+  const [siteId] = React.useState(() => options.siteId ?? generateId());
+  const documentRef = React.useRef<CollaborationDocument | null>(null);
+  if (!documentRef.current) {
+    documentRef.current = createCollaborationDocument(options.initialData);
+  }
+  const [data, setData] = React.useState(() => (documentRef.current as CollaborationDocument).data);
+  // Data the editor currently derives its state from; local changes are diffed against it
+  const editorDataRef = React.useRef(data);
+  editorDataRef.current = data;
+  const onRemoteChangeRef = React.useRef(options.onRemoteChange);
+  onRemoteChangeRef.current = options.onRemoteChange;
+
+  const getDocument = React.useCallback(() => documentRef.current as CollaborationDocument, []);
+
+  const onDataChange = React.useCallback(
+    (next: NodeEditorData) => {
+      const document = getDocument();
+      const stamp = { counter: document.clock + 1, siteId };
+      const operations = createCollaborationOperations(editorDataRef.current, next, stamp);
+      editorDataRef.current = next;
+      if (operations.length === 0) {
+        return;
+      }
+      const nextDocument = applyCollaborationOperations(document, operations);
+      documentRef.current = nextDocument;
+      setData(nextDocument.data);
+      transport.send({ type: "operations", siteId, operations });
+    },
+    [getDocument, siteId, transport],
+  );
+
+  React.useEffect(() => {
+    const handleMessage = (message: CollaborationMessage) => {
+      if (message.siteId === siteId || message.type === "presence") {
+        return;
+      }
+      if (message.type === "sync-request") {
+        transport.send({ type: "operations", siteId, operations: getCollaborationSnapshot(getDocument()) });
+        return;
+      }
+      const document = getDocument();
+      const nextDocument = applyCollaborationOperations(document, message.operations);
+      documentRef.current = nextDocument;
+      if (nextDocument.data !== document.data) {
+        setData(nextDocument.data);
+        onRemoteChangeRef.current?.(nextDocument.data, message.operations);
+      }
+    };
+    const unsubscribe = transport.subscribe(handleMessage);
+    if (requestSync) {
+      transport.send({ type: "sync-request", siteId });
+    }
+    return unsubscribe;
+  }, [transport, siteId, requestSync, getDocument]);
+
+  return { data, onDataChange, siteId, getDocument };
+};
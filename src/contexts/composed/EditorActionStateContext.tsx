@@ -13,14 +13,18 @@ import {
 import { NodeId, ConnectionId, Position, Port as BasePort, ContextMenuState } from "../../types/core";
 import { useNodeEditorApi } from "./node-editor/context";
 import { useNodeDefinitionList } from "../node-definitions/hooks/useNodeDefinitionList";
-import { canAddNodeType, countNodesByType } from "../node-definitions/utils/nodeTypeLimits";
+import { canAddNodeType, canAddNodeTypes, countNodesByType } from "../node-definitions/utils/nodeTypeLimits";
 import {
   copyNodesToClipboard,
-  pasteNodesFromClipboard,
+  createPasteResult,
+  readNodesFromClipboard,
 } from "./node-editor/utils/nodeClipboardOperations";
 import { useNodeCanvasUtils } from "./canvas/viewport/context";
 import { buildNodeFromDefinition } from "./node-editor/utils/nodeFactory";
 import { findConnectablePortDefinition } from "../../core/port/connectivity/connectability";
+import { checkPortCapacity } from "../../core/port/connectivity/queries";
+import { hasSubflowBehavior } from "../../types/behaviors";
+import { generateId } from "./node-editor/reducer";
 
 /**
  * Options for showing a context menu
@@ -262,6 +266,11 @@ export const defaultEditorActionState: EditorActionState = {
   inspectorActiveTab: 0,
 };
 
+export type PasteNodesOptions = {
+  /** Restore copied connections to nodes outside the pasted set that still exist */
+  withConnections?: boolean;
+};
+
 // Node operations type
 export type NodeOperations = {
   /**
@@ -285,9 +294,22 @@ export type NodeOperations = {
    */
   cutNodes: (targetNodeId?: string) => void;
   /**
-   * Paste nodes from clipboard and select them.
+   * Paste nodes from the system clipboard (or the in-memory clipboard when unavailable) and select them.
+   * Nodes are placed with their bounding box at `canvasPosition`, defaulting to the open context menu's
+   * position, or offset from the copied positions when neither is available.
+   * With `withConnections`, copied connections to nodes that still exist are restored
+   * unless the existing port is already at capacity.
+   */
+  pasteNodes: (canvasPosition?: Position, options?: PasteNodesOptions) => void;
+  /**
+   * Collapse nodes into a subflow node and select it. If targetNodeId is in selection,
+   * collapses all selected nodes. Otherwise collapses only the target node.
+   */
+  collapseToSubflow: (targetNodeId?: string) => void;
+  /**
+   * Replace a subflow node with its nested graph and select the restored nodes.
    */
-  pasteNodes: () => void;
+  expandSubflow: (nodeId: string) => void;
   /**
    * Create a node from context menu, optionally auto-connecting to a source port.
    * Handles position conversion, type limit checking, and connection creation.
@@ -370,7 +392,7 @@ export const EditorActionStateProvider: React.FC<EditorActionStateProviderProps>
   const boundActions = React.useMemo(() => bindActionCreators(editorActionStateActions, dispatch), [dispatch]);
 
   // Access other contexts for node operations
-  const { actions: editorActions, getState } = useNodeEditorApi();
+  const { actions: editorActions, getState, getNodePorts, transaction } = useNodeEditorApi();
   const nodeDefinitions = useNodeDefinitionList();
   const canvasUtils = useNodeCanvasUtils();
 
@@ -437,24 +459,103 @@ export const EditorActionStateProvider: React.FC<EditorActionStateProviderProps>
     [getState, state.selectedNodeIds, editorActions, boundActions],
   );
 
-  const pasteNodes = React.useCallback(() => {
-    const result = pasteNodesFromClipboard();
-    if (!result) {
-      return;
-    }
-    // Add nodes
-    result.nodes.forEach((node) => {
-      editorActions.addNodeWithId(node);
-    });
-    // Add connections
-    result.connections.forEach((conn) => {
-      editorActions.addConnection(conn);
-    });
-    // Select pasted nodes
-    const newIds = Array.from(result.idMap.values());
-    boundActions.setInteractionSelection(newIds);
-    boundActions.setEditingSelection(newIds);
-  }, [editorActions, boundActions]);
+  const pasteNodes = React.useCallback(
+    (canvasPosition?: Position, options?: PasteNodesOptions) => {
+      // Capture before the read resolves; the context menu usually closes right after this call
+      const position = canvasPosition ?? (state.contextMenu.visible ? state.contextMenu.canvasPosition : undefined);
+      const definitionsByType = new Map(nodeDefinitions.map((definition) => [definition.type, definition]));
+      void readNodesFromClipboard({ isKnownNodeType: (type) => definitionsByType.has(type) })
+        .then((clip) => {
+          const result = clip
+            ? createPasteResult(clip, {
+                position,
+                getNodeDefinition: (type) => definitionsByType.get(type),
+                isExistingNode: options?.withConnections ? (nodeId) => Boolean(getState().nodes[nodeId]) : undefined,
+              })
+            : null;
+          if (!result) {
+            return;
+          }
+          // Like duplicate, paste all or nothing when it would exceed a node type's maxPerFlow
+          const pastedTypes = result.nodes.map((node) => node.type);
+          if (!canAddNodeTypes(pastedTypes, nodeDefinitions, countNodesByType(getState()))) {
+            return;
+          }
+          const pastedIds = new Set(result.idMap.values());
+          transaction(options?.withConnections ? "Paste with Connections" : "Paste", () => {
+            result.nodes.forEach((node) => {
+              editorActions.addNodeWithId(node);
+            });
+            result.connections.forEach((conn) => {
+              editorActions.addConnection(conn);
+            });
+            result.externalConnections.forEach((conn) => {
+              // The existing end may have been filled since the copy; respect its capacity
+              const existingIsTarget = !pastedIds.has(conn.toNodeId);
+              const existingNodeId = existingIsTarget ? conn.toNodeId : conn.fromNodeId;
+              const existingPortId = existingIsTarget ? conn.toPortId : conn.fromPortId;
+              const port = getNodePorts(existingNodeId).find((candidate) => candidate.id === existingPortId);
+              if (!port || checkPortCapacity(port, getState().connections, existingIsTarget ? "to" : "from").atCapacity) {
+                return;
+              }
+              editorActions.addConnection(conn);
+            });
+          });
+          // Select pasted nodes
+          const newIds = Array.from(result.idMap.values());
+          boundActions.setInteractionSelection(newIds);
+          boundActions.setEditingSelection(newIds);
+        })
+        .catch((error) => {
+          console.error("Failed to paste nodes:", error);
+        });
+    },
+    [
+      state.contextMenu.visible,
+      state.contextMenu.canvasPosition,
+      nodeDefinitions,
+      getState,
+      getNodePorts,
+      transaction,
+      editorActions,
+      boundActions,
+    ],
+  );
+
+  const collapseToSubflow = React.useCallback(
+    (targetNodeId?: string) => {
+      const nodeIds = resolveTargetNodeIds(targetNodeId, state.selectedNodeIds);
+      const definition = nodeDefinitions.find((def) => hasSubflowBehavior(def));
+      if (nodeIds.length === 0 || !definition) {
+        return;
+      }
+      if (!canAddNodeType(definition.type, nodeDefinitions, countNodesByType(getState()))) {
+        return;
+      }
+      const subflowId = generateId();
+      editorActions.collapseToSubflow(nodeIds, subflowId);
+      if (getState().nodes[subflowId]) {
+        boundActions.setInteractionSelection([subflowId]);
+        boundActions.setEditingSelection([subflowId]);
+      }
+    },
+    [getState, state.selectedNodeIds, nodeDefinitions, editorActions, boundActions],
+  );
+
+  const expandSubflow = React.useCallback(
+    (nodeId: string) => {
+      const previous = getState();
+      editorActions.expandSubflow(nodeId);
+      const next = getState();
+      if (next === previous) {
+        return;
+      }
+      const restoredIds = Object.keys(next.nodes).filter((id) => !previous.nodes[id]);
+      boundActions.setInteractionSelection(restoredIds);
+      boundActions.setEditingSelection(restoredIds);
+    },
+    [getState, editorActions, boundActions],
+  );
 
   const createNodeFromContextMenu = React.useCallback(
     (nodeType: string, screenPosition: Position) => {
@@ -555,10 +656,22 @@ export const EditorActionStateProvider: React.FC<EditorActionStateProviderProps>
       copyNodes,
       cutNodes,
       pasteNodes,
+      collapseToSubflow,
+      expandSubflow,
       createNodeFromContextMenu,
       createNodeFromCanvasDrop,
     }),
-    [duplicateNodes, deleteNodes, copyNodes, cutNodes, pasteNodes, createNodeFromContextMenu, createNodeFromCanvasDrop],
+    [
+      duplicateNodes,
+      deleteNodes,
+      copyNodes,
+      cutNodes,
+      pasteNodes,
+      collapseToSubflow,
+      expandSubflow,
+      createNodeFromContextMenu,
+      createNodeFromCanvasDrop,
+    ],
   );
 
   // Stable actions value - only depends on dispatch which is stable
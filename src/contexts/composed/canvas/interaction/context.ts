@@ -17,6 +17,7 @@ import type {
   ConnectionDragState,
   ConnectionDisconnectState,
 } from "../../../../types/core";
+import type { AlignmentGuides } from "../../../../core/geometry/alignment";
 
 // Selection box for canvas range selection
 export type SelectionBox = {
@@ -30,6 +31,10 @@ export type CanvasInteractionState = {
   resizeState: ResizeState | null;
   connectionDragState: ConnectionDragState | null;
   connectionDisconnectState: ConnectionDisconnectState | null;
+  /** Smart guides for the nodes being dragged */
+  alignmentGuides: AlignmentGuides | null;
+  /** Connection the dragged node will be spliced into when dropped */
+  spliceConnectionId: ConnectionId | null;
 };
 
 export const canvasInteractionActions = {
@@ -45,6 +50,8 @@ export const canvasInteractionActions = {
   ),
   updateNodeDrag: createAction("UPDATE_NODE_DRAG", (offset: Position) => ({ offset })),
   endNodeDrag: createAction("END_NODE_DRAG"),
+  setAlignmentGuides: createAction("SET_ALIGNMENT_GUIDES", (guides: AlignmentGuides | null) => ({ guides })),
+  setSpliceTarget: createAction("SET_SPLICE_TARGET", (connectionId: ConnectionId | null) => ({ connectionId })),
   startConnectionDrag: createAction("START_CONNECTION_DRAG", (fromPort: BasePort) => ({ fromPort })),
   updateConnectionDrag: createAction(
     "UPDATE_CONNECTION_DRAG",
@@ -54,6 +54,16 @@ const canvasInteractionHandlers = createActionHandlerMap<CanvasInteractionState,
     endNodeDrag: (state) => ({
       ...state,
       dragState: null,
+      alignmentGuides: null,
+      spliceConnectionId: null,
+    }),
+    setAlignmentGuides: (state, action) => ({
+      ...state,
+      alignmentGuides: action.payload.guides,
+    }),
+    setSpliceTarget: (state, action) => ({
+      ...state,
+      spliceConnectionId: action.payload.connectionId,
     }),
     startConnectionDrag: (state, action) => ({
       ...state,
@@ -164,6 +174,8 @@ export const defaultCanvasInteractionState: CanvasInteractionState = {
   resizeState: null,
   connectionDragState: null,
   connectionDisconnectState: null,
+  alignmentGuides: null,
+  spliceConnectionId: null,
 };
 
 // Provider
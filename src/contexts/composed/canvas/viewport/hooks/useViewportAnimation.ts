@@ -0,0 +1,73 @@
+/**
+ * @file Hook for animating the viewport to a target pan/zoom
+ */
+import * as React from "react";
+import type { Bounds, Viewport } from "../../../../../types/core";
+import type { CanvasViewBox } from "../context";
+import { useNodeCanvasApi } from "../context";
+
+const DEFAULT_DURATION_MS = 240;
+
+const easeOutCubic = (t: number): number => 1 - (1 - t) ** 3;
+
+const prefersReducedMotion = (): boolean =>
+  typeof window !== "undefined" && window.matchMedia?.("(prefers-reduced-motion: reduce)").matches === true;
+
+/**
+ * Viewport that keeps the current zoom and puts the center of `bounds` in the middle of the canvas.
+ */
+export const getViewportCenteredOn = (bounds: Bounds, viewport: Viewport, viewBox: CanvasViewBox): Viewport => ({
+  scale: viewport.scale,
+  offset: {
+    x: viewBox.width / 2 - (bounds.x + bounds.width / 2) * viewport.scale,
+    y: viewBox.height / 2 - (bounds.y + bounds.height / 2) * viewport.scale,
+  },
+});
+
+/**
+ * Animate the viewport with an ease-out tween. A new animation replaces the running one;
+ * users who prefer reduced motion get an immediate jump.
+ */
+export const useViewportAnimation = () => {
+  const { store, actions } = useNodeCanvasApi();
+  const frameRef = React.useRef<number | null>(null);
+
+  const cancel = React.useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+  }, []);
+
+  React.useEffect(() => cancel, [cancel]);
+
+  const animateTo = React.useCallback(
+    (target: Viewport, durationMs: number = DEFAULT_DURATION_MS) => {
+      cancel();
+      const from = store.getState().viewport;
+      if (durationMs <= 0 || prefersReducedMotion()) {
+        actions.setViewport(target);
+        return;
+      }
+      // Timed from the first frame's own timestamp: frame times can lag `performance.now()`
+      const timing = { start: null as number | null };
+      const tick = (now: number) => {
+        timing.start ??= now;
+        const progress = Math.min(1, (now - timing.start) / durationMs);
+        const eased = easeOutCubic(progress);
+        actions.setViewport({
+          scale: from.scale + (target.scale - from.scale) * eased,
+          offset: {
+            x: from.offset.x + (target.offset.x - from.offset.x) * eased,
+            y: from.offset.y + (target.offset.y - from.offset.y) * eased,
+          },
+        });
+        frameRef.current = progress < 1 ? requestAnimationFrame(tick) : null;
+      };
+      frameRef.current = requestAnimationFrame(tick);
+    },
+    [store, actions, cancel],
+  );
+
+  return { animateTo, cancel };
+};
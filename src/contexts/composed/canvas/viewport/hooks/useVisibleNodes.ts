@@ -34,7 +34,11 @@ const computeVisibleNodeIds = (
   viewport: { offset: { x: number; y: number }; scale: number },
   viewBox: { width: number; height: number },
   bufferFactor: number,
+  cullToViewport: boolean,
 ): NodeId[] => {
+  if (!cullToViewport) {
+    return nodes.filter((node) => node.visible !== false).map((node) => node.id);
+  }
   const containerWidth = viewBox.width > 0 ? viewBox.width : (typeof window !== "undefined" ? window.innerWidth : 0);
   const containerHeight = viewBox.height > 0 ? viewBox.height : (typeof window !== "undefined" ? window.innerHeight : 0);
 
@@ -68,9 +72,14 @@ const computeVisibleNodeIds = (
 
 /**
  * Hook to calculate which nodes are visible in the current viewport
- * Adds a buffer zone to prevent nodes from popping in/out during pan
+ * Adds a buffer zone to prevent nodes from popping in/out during pan.
+ * With `cullToViewport` off every node that is not hidden counts as visible.
  */
-export const useVisibleNodes = (nodeIds: readonly NodeId[], bufferFactor: number = 1.5): NodeId[] => {
+export const useVisibleNodes = (
+  nodeIds: readonly NodeId[],
+  bufferFactor: number = 1.5,
+  cullToViewport: boolean = true,
+): NodeId[] => {
   const { store } = useNodeCanvasApi();
   const { getState: getNodeEditorState, subscribeToChanges } = useNodeEditorApi();
   const nodeIdsRef = React.useRef(nodeIds);
@@ -79,10 +88,13 @@ export const useVisibleNodes = (nodeIds: readonly NodeId[], bufferFactor: number
   const bufferFactorRef = React.useRef(bufferFactor);
   bufferFactorRef.current = bufferFactor;
 
+  const cullToViewportRef = React.useRef(cullToViewport);
+  cullToViewportRef.current = cullToViewport;
+
   const [visibleNodeIds, setVisibleNodeIds] = React.useState<NodeId[]>(() => {
     const state = store.getState();
     const nodes = nodeIds.map((nodeId) => getNodeEditorState().nodes[nodeId]).filter(Boolean) as Node[];
-    return computeVisibleNodeIds(nodes, state.viewport, state.viewBox, bufferFactor);
+    return computeVisibleNodeIds(nodes, state.viewport, state.viewBox, bufferFactor, cullToViewport);
   });
 
   const visibleNodeIdsRef = React.useRef<NodeId[]>(visibleNodeIds);
@@ -93,7 +105,13 @@ export const useVisibleNodes = (nodeIds: readonly NodeId[], bufferFactor: number
     const nodes = nodeIdsRef.current
       .map((nodeId) => getNodeEditorState().nodes[nodeId])
       .filter(Boolean) as Node[];
-    const computed = computeVisibleNodeIds(nodes, state.viewport, state.viewBox, bufferFactorRef.current);
+    const computed = computeVisibleNodeIds(
+      nodes,
+      state.viewport,
+      state.viewBox,
+      bufferFactorRef.current,
+      cullToViewportRef.current,
+    );
     if (areVisibleNodeIdListsEqual(visibleNodeIdsRef.current, computed)) {
       return;
     }
@@ -107,12 +125,15 @@ export const useVisibleNodes = (nodeIds: readonly NodeId[], bufferFactor: number
 
   React.useEffect(() => {
     updateVisibleNodes();
-  }, [nodeIds, bufferFactor]);
+  }, [nodeIds, bufferFactor, cullToViewport]);
 
   React.useLayoutEffect(() => {
-    const unsubscribeCanvas = store.subscribe(() => {
-      schedule(undefined);
-    });
+    // Panning and zooming only change the result while culling
+    const unsubscribeCanvas = cullToViewport
+      ? store.subscribe(() => {
+          schedule(undefined);
+        })
+      : () => {};
 
     const unsubscribeEditor = subscribeToChanges((change) => {
       if (change.affectsGeometry || change.fullResync) {
@@ -124,7 +145,7 @@ export const useVisibleNodes = (nodeIds: readonly NodeId[], bufferFactor: number
       unsubscribeCanvas();
       unsubscribeEditor();
     };
-  }, [store, schedule, subscribeToChanges]);
+  }, [store, schedule, subscribeToChanges, cullToViewport]);
 
   React.useEffect(() => cancel, [cancel]);
 
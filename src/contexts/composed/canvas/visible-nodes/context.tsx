@@ -0,0 +1,38 @@
+/**
+ * @file Shared node visibility for the canvas layers
+ * The node and connection layers render from the same visible-node set, computed once per canvas,
+ * and agree on when the `maxVisibleNodes` budget is exceeded.
+ */
+import * as React from "react";
+import type { NodeId } from "../../../../types/core";
+import { useNodeEditor, useNodeEditorSortedNodeIds } from "../../node-editor/context";
+import { useVisibleNodes } from "../viewport/hooks/useVisibleNodes";
+
+export type CanvasVisibleNodes = {
+  /** Nodes in (or near) the viewport; every shown node when virtual scrolling is off */
+  nodeIds: readonly NodeId[];
+  /** More nodes are visible than `maxVisibleNodes`: layers draw a snapshot instead of node views and connections */
+  isOverBudget: boolean;
+};
+
+const CanvasVisibleNodesContext = React.createContext<CanvasVisibleNodes | null>(null);
+CanvasVisibleNodesContext.displayName = "CanvasVisibleNodesContext";
+
+export const CanvasVisibleNodesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { settings } = useNodeEditor();
+  const sortedNodeIds = useNodeEditorSortedNodeIds();
+  const nodeIds = useVisibleNodes(sortedNodeIds, undefined, settings.virtualScrolling);
+  const isOverBudget = nodeIds.length > settings.maxVisibleNodes;
+
+  const value = React.useMemo<CanvasVisibleNodes>(() => ({ nodeIds, isOverBudget }), [nodeIds, isOverBudget]);
+
+  return <CanvasVisibleNodesContext.Provider value={value}>{children}</CanvasVisibleNodesContext.Provider>;
+};
+
+export const useCanvasVisibleNodes = (): CanvasVisibleNodes => {
+  const context = React.useContext(CanvasVisibleNodesContext);
+  if (!context) {
+    throw new Error("useCanvasVisibleNodes must be used within a CanvasVisibleNodesProvider");
+  }
+  return context;
+};
@@ -60,6 +60,19 @@ const createShortcutKey = (shortcut: KeyboardShortcut): string => {
   return parts.join("+");
 };
 
+/**
+ * Concrete shortcuts to register for `shortcut`: `cmdOrCtrl` expands to a Ctrl and a Meta variant.
+ */
+export const expandKeyboardShortcut = (shortcut: KeyboardShortcut): KeyboardShortcut[] => {
+  if (!shortcut.cmdOrCtrl) {
+    return [shortcut];
+  }
+  return [
+    { ...shortcut, ctrl: true, meta: false, cmdOrCtrl: false },
+    { ...shortcut, ctrl: false, meta: true, cmdOrCtrl: false },
+  ];
+};
+
 // Helper function to check if event matches shortcut
 const matchesShortcut = (event: KeyboardEvent, shortcut: KeyboardShortcut): boolean => {
   return (
@@ -290,31 +303,10 @@ export const useRegisterShortcut = (
     }
 
     // If cmdOrCtrl is specified, register both Ctrl and Meta variants
-    if (shortcut.cmdOrCtrl) {
-      const ctrlShortcut: KeyboardShortcut = {
-        ...shortcut,
-        ctrl: true,
-        meta: false,
-        cmdOrCtrl: false,
-      };
-      const metaShortcut: KeyboardShortcut = {
-        ...shortcut,
-        ctrl: false,
-        meta: true,
-        cmdOrCtrl: false,
-      };
-
-      registerShortcut(ctrlShortcut, handler);
-      registerShortcut(metaShortcut, handler);
-
-      return () => {
-        unregisterShortcut(ctrlShortcut);
-        unregisterShortcut(metaShortcut);
-      };
-    } else {
-      // Normal registration
-      registerShortcut(shortcut, handler);
-      return () => unregisterShortcut(shortcut);
-    }
+    const shortcuts = expandKeyboardShortcut(shortcut);
+    shortcuts.forEach((variant) => registerShortcut(variant, handler));
+    return () => {
+      shortcuts.forEach((variant) => unregisterShortcut(variant));
+    };
   }, [registerShortcut, unregisterShortcut, ...deps]);
 };
@@ -12,10 +12,23 @@ import { useEditorActionState } from "../../EditorActionStateContext";
 import { useHistoryIntegration } from "../../../history/hooks/useHistoryIntegration";
 import { useAutoLayout } from "../../node-editor/hooks/useAutoLayout";
 import { filterDuplicableNodeIds } from "../../../node-definitions/utils/nodeTypeLimits";
-import { copyNodesToClipboard, pasteNodesFromClipboard } from "../../node-editor/utils/nodeClipboardOperations";
+import { copyNodesToClipboard } from "../../node-editor/utils/nodeClipboardOperations";
+import { useNodeCanvasActions, useNodeCanvasApi, useNodeCanvasUtils } from "../../canvas/viewport/context";
+import { getViewportCenteredOn, useViewportAnimation } from "../../canvas/viewport/hooks/useViewportAnimation";
 import { useNodeDefinitionList } from "../../../node-definitions/hooks/useNodeDefinitionList";
 import { generateId } from "../../node-editor/reducer";
-import type { NodeId } from "../../../../types/core";
+import { useGraphSearchActions } from "../../../graph-search/context";
+import { useKeyboardNavigationActions } from "../../../keyboard-navigation/context";
+import { findNodeInDirection, type NavigationDirection } from "../../../../core/node/spatialNavigation";
+import { getNodeBoundingBox, isRectangleInsideAnother } from "../../../../utils/boundingBoxUtils";
+import type { NodeId, Position } from "../../../../types/core";
+
+const NUDGE_DIRECTIONS: Record<NavigationDirection, Position> = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+};
 
 const DEFAULT_SHORTCUT_BINDING_MAP: Record<NodeEditorShortcutAction, ShortcutBinding[]> = (() => {
   const defaults = defaultInteractionSettings.keyboardShortcuts.actions;
@@ -95,11 +108,16 @@ export const useNodeEditorShortcuts = () => {
     state: nodeEditorState,
     actions: nodeEditorActions,
     handleSave,
+    getNodePorts,
   } = useNodeEditor();
-  const { state: actionState, actions: actionActions } = useEditorActionState();
+  const { state: actionState, actions: actionActions, nodeOperations } = useEditorActionState();
   const { performUndo, performRedo, canUndo, canRedo } = useHistoryIntegration();
   const { applyLayout } = useAutoLayout();
   const nodeDefinitions = useNodeDefinitionList();
+  const graphSearchActions = useGraphSearchActions();
+  const keyboardNavigation = useKeyboardNavigationActions();
+  const { store: canvasStore } = useNodeCanvasApi();
+  const { animateTo } = useViewportAnimation();
 
   // Keep latest states/definitions in refs to avoid re-registering shortcuts
   // Update during render to ensure handlers always have access to current values
@@ -110,6 +128,121 @@ export const useNodeEditorShortcuts = () => {
   nodeEditorStateRef.current = nodeEditorState;
   nodeDefinitionsRef.current = nodeDefinitions;
 
+  // Track the pointer so keyboard paste can place nodes under it
+  const { containerRef } = useNodeCanvasActions();
+  const canvasUtils = useNodeCanvasUtils();
+  const pointerClientPositionRef = React.useRef<{ x: number; y: number } | null>(null);
+  React.useEffect(() => {
+    const handlePointerMove = (event: PointerEvent) => {
+      pointerClientPositionRef.current = { x: event.clientX, y: event.clientY };
+    };
+    window.addEventListener("pointermove", handlePointerMove, { passive: true });
+    return () => {
+      window.removeEventListener("pointermove", handlePointerMove);
+    };
+  }, []);
+  const getPointerCanvasPosition = React.useCallback(() => {
+    const pointer = pointerClientPositionRef.current;
+    const container = containerRef.current;
+    if (!pointer || !container) {
+      return undefined;
+    }
+    const rect = container.getBoundingClientRect();
+    const isInside =
+      pointer.x >= rect.left && pointer.x <= rect.right && pointer.y >= rect.top && pointer.y <= rect.bottom;
+    return isInside ? canvasUtils.screenToCanvas(pointer.x, pointer.y) : undefined;
+  }, [containerRef, canvasUtils]);
+
+  // Keyboard navigation only acts while focus is on the canvas, so arrows keep scrolling elsewhere.
+  // Returns the node holding focus (ports carry their node id too), "editor" when focus sits on
+  // an element wrapping the canvas, or null when focus is outside the editor.
+  const getKeyboardFocus = React.useCallback((): NodeId | "editor" | null => {
+    const container = containerRef.current;
+    const active = document.activeElement;
+    if (!container || !(active instanceof HTMLElement)) {
+      return null;
+    }
+    if (active.contains(container) && active !== document.body) {
+      return "editor";
+    }
+    if (!container.contains(active)) {
+      return null;
+    }
+    return active.closest<HTMLElement>("[data-node-id]")?.dataset.nodeId ?? "editor";
+  }, [containerRef]);
+
+  const revealNode = React.useCallback(
+    (nodeId: NodeId) => {
+      const node = nodeEditorStateRef.current.nodes[nodeId];
+      if (!node) {
+        return;
+      }
+      const { viewport, viewBox } = canvasStore.getState();
+      const box = getNodeBoundingBox(node);
+      const visible = {
+        left: -viewport.offset.x / viewport.scale,
+        top: -viewport.offset.y / viewport.scale,
+        right: (viewBox.width - viewport.offset.x) / viewport.scale,
+        bottom: (viewBox.height - viewport.offset.y) / viewport.scale,
+        width: viewBox.width / viewport.scale,
+        height: viewBox.height / viewport.scale,
+      };
+      if (!isRectangleInsideAnother(box, visible)) {
+        animateTo(
+          getViewportCenteredOn({ x: box.left, y: box.top, width: box.width, height: box.height }, viewport, viewBox),
+        );
+      }
+    },
+    [canvasStore, animateTo],
+  );
+
+  const moveKeyboardFocus = React.useCallback(
+    (direction: NavigationDirection) => {
+      const focus = getKeyboardFocus();
+      if (focus === null) {
+        return false;
+      }
+      if (focus === "editor") {
+        // Enter the canvas at its tab stop
+        containerRef.current?.querySelector<HTMLElement>('[role="group"][data-node-id][tabindex="0"]')?.focus();
+        return true;
+      }
+      const targetId = findNodeInDirection(nodeEditorStateRef.current.nodes, focus, direction);
+      if (!targetId) {
+        return true;
+      }
+      actionActions.setInteractionSelection([targetId]);
+      actionActions.setEditingSelection([targetId]);
+      revealNode(targetId);
+      keyboardNavigation.focusNode(targetId);
+      return true;
+    },
+    [getKeyboardFocus, containerRef, actionActions, revealNode, keyboardNavigation],
+  );
+
+  const nudgeSelection = React.useCallback(
+    (direction: NavigationDirection) => {
+      if (getKeyboardFocus() === null) {
+        return false;
+      }
+      const step = canvasStore.getState().gridSettings.size;
+      const delta = NUDGE_DIRECTIONS[direction];
+      const nodes = nodeEditorStateRef.current.nodes;
+      const updates = actionStateRef.current.selectedNodeIds.reduce<Record<NodeId, Position>>((acc, nodeId) => {
+        const node = nodes[nodeId];
+        if (node && !node.locked) {
+          acc[nodeId] = { x: node.position.x + delta.x * step, y: node.position.y + delta.y * step };
+        }
+        return acc;
+      }, {});
+      if (Object.keys(updates).length > 0) {
+        nodeEditorActions.moveNodes(updates);
+      }
+      return true;
+    },
+    [getKeyboardFocus, canvasStore, nodeEditorActions],
+  );
+
   // Delete selected nodes (Delete/Backspace)
   useConfigurableShortcut(
     "delete-selection",
@@ -374,25 +507,107 @@ export const useNodeEditorShortcuts = () => {
     "paste",
     DEFAULT_SHORTCUT_BINDING_MAP.paste,
     React.useCallback(() => {
-      const result = pasteNodesFromClipboard();
-      if (!result) {
+      nodeOperations.pasteNodes(getPointerCanvasPosition());
+    }, [nodeOperations, getPointerCanvasPosition]),
+  );
+
+  // Paste with connections (Ctrl/Cmd+Shift+V)
+  useConfigurableShortcut(
+    "paste-with-connections",
+    DEFAULT_SHORTCUT_BINDING_MAP["paste-with-connections"],
+    React.useCallback(() => {
+      nodeOperations.pasteNodes(getPointerCanvasPosition(), { withConnections: true });
+    }, [nodeOperations, getPointerCanvasPosition]),
+  );
+
+  // Collapse selected nodes into a subflow (Ctrl/Cmd+Shift+G)
+  useConfigurableShortcut(
+    "collapse-to-subflow",
+    DEFAULT_SHORTCUT_BINDING_MAP["collapse-to-subflow"],
+    React.useCallback(() => {
+      if (actionStateRef.current.selectedNodeIds.length === 0) {
         return;
       }
+      nodeOperations.collapseToSubflow();
+    }, [nodeOperations]),
+  );
 
-      // Add nodes
-      result.nodes.forEach((node) => {
-        nodeEditorActions.addNodeWithId(node);
-      });
+  // Open the find bar (Ctrl/Cmd+F); outside the editor the browser's own find stays available
+  useConfigurableShortcut(
+    "find",
+    DEFAULT_SHORTCUT_BINDING_MAP.find,
+    React.useCallback(() => {
+      if (getKeyboardFocus() === null) {
+        return false;
+      }
+      graphSearchActions.open();
+      return true;
+    }, [getKeyboardFocus, graphSearchActions]),
+  );
 
-      // Add connections
-      result.connections.forEach((conn) => {
-        nodeEditorActions.addConnection(conn);
-      });
+  // Move focus to the nearest node in the arrow's direction (arrow keys)
+  useConfigurableShortcut(
+    "focus-left",
+    DEFAULT_SHORTCUT_BINDING_MAP["focus-left"],
+    React.useCallback(() => moveKeyboardFocus("left"), [moveKeyboardFocus]),
+  );
+  useConfigurableShortcut(
+    "focus-right",
+    DEFAULT_SHORTCUT_BINDING_MAP["focus-right"],
+    React.useCallback(() => moveKeyboardFocus("right"), [moveKeyboardFocus]),
+  );
+  useConfigurableShortcut(
+    "focus-up",
+    DEFAULT_SHORTCUT_BINDING_MAP["focus-up"],
+    React.useCallback(() => moveKeyboardFocus("up"), [moveKeyboardFocus]),
+  );
+  useConfigurableShortcut(
+    "focus-down",
+    DEFAULT_SHORTCUT_BINDING_MAP["focus-down"],
+    React.useCallback(() => moveKeyboardFocus("down"), [moveKeyboardFocus]),
+  );
 
-      // Select pasted nodes
-      const newIds = Array.from(result.idMap.values());
-      actionActions.setInteractionSelection(newIds);
-      actionActions.setEditingSelection(newIds);
-    }, [nodeEditorActions, actionActions]),
-);
+  // Nudge the selection by one grid step (Shift+arrow keys)
+  useConfigurableShortcut(
+    "nudge-left",
+    DEFAULT_SHORTCUT_BINDING_MAP["nudge-left"],
+    React.useCallback(() => nudgeSelection("left"), [nudgeSelection]),
+  );
+  useConfigurableShortcut(
+    "nudge-right",
+    DEFAULT_SHORTCUT_BINDING_MAP["nudge-right"],
+    React.useCallback(() => nudgeSelection("right"), [nudgeSelection]),
+  );
+  useConfigurableShortcut(
+    "nudge-up",
+    DEFAULT_SHORTCUT_BINDING_MAP["nudge-up"],
+    React.useCallback(() => nudgeSelection("up"), [nudgeSelection]),
+  );
+  useConfigurableShortcut(
+    "nudge-down",
+    DEFAULT_SHORTCUT_BINDING_MAP["nudge-down"],
+    React.useCallback(() => nudgeSelection("down"), [nudgeSelection]),
+  );
+
+  // List connection targets for the focused port, or the focused node's first output (C)
+  useConfigurableShortcut(
+    "connect-mode",
+    DEFAULT_SHORTCUT_BINDING_MAP["connect-mode"],
+    React.useCallback(() => {
+      const focus = getKeyboardFocus();
+      if (focus === null || focus === "editor") {
+        return false;
+      }
+      const ports = getNodePorts(focus);
+      const focusedPortId = (document.activeElement as HTMLElement | null)?.dataset.portId;
+      const port =
+        ports.find((candidate) => candidate.id === focusedPortId) ??
+        ports.find((candidate) => candidate.type === "output") ??
+        ports[0];
+      if (port) {
+        keyboardNavigation.startConnect(port);
+      }
+      return true;
+    }, [getKeyboardFocus, getNodePorts, keyboardNavigation]),
+  );
 };
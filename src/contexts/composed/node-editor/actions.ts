@@ -2,7 +2,7 @@
  * @file Action type definitions and action creator functions for node editor state management
  */
 import type { Connection, ConnectionId, Node, NodeEditorData, NodeId, Position } from "../../../types/core";
-import { createAction, type ActionUnion } from "../../../utils/typedActions";
+import { createAction, type ActionUnion, type AnyAction } from "../../../utils/typedActions";
 
 export const nodeEditorActions = {
   addNode: createAction("ADD_NODE", (node: Omit<Node, "id">) => ({ node })),
@@ -19,6 +19,11 @@ export const nodeEditorActions = {
     }),
   ),
   deleteConnection: createAction("DELETE_CONNECTION", (connectionId: ConnectionId) => ({ connectionId })),
+  /** Updates a connection's fields (e.g. `data`); the endpoints are replaced only when given */
+  updateConnection: createAction(
+    "UPDATE_CONNECTION",
+    (connectionId: ConnectionId, updates: Partial<Omit<Connection, "id">>) => ({ connectionId, updates }),
+  ),
   setNodeData: createAction("SET_NODE_DATA", (data: NodeEditorData) => ({ data })),
   restoreState: createAction("RESTORE_STATE", (data: NodeEditorData) => ({ data })),
   duplicateNodes: createAction("DUPLICATE_NODES", (nodeIds: NodeId[]) => ({ nodeIds })),
@@ -39,6 +44,27 @@ export const nodeEditorActions = {
   copyNodes: createAction("COPY_NODES", (nodeIds: NodeId[]) => ({ nodeIds })),
   pasteNodes: createAction("PASTE_NODES", (offsetX?: number, offsetY?: number) => ({ offsetX, offsetY })),
   pruneInvalidConnections: createAction("PRUNE_INVALID_CONNECTIONS", () => ({})),
+  /** Moves nodes into a new subflow node; boundary connections are rewired to its generated ports */
+  collapseToSubflow: createAction("COLLAPSE_TO_SUBFLOW", (nodeIds: NodeId[], subflowId?: NodeId) => ({
+    nodeIds,
+    subflowId,
+  })),
+  /** Replaces a subflow node with its nested graph */
+  expandSubflow: createAction("EXPAND_SUBFLOW", (subflowId: NodeId) => ({ subflowId })),
+  /**
+   * Commits the result of a transaction as one state change.
+   * `actions` lists the dispatches applied inside the transaction; `data` is their combined result on top of `base`.
+   * When the state has moved on from `base` by the time the commit applies, `actions` are replayed on it instead.
+   */
+  commitTransaction: createAction(
+    "COMMIT_TRANSACTION",
+    (label: string, actions: readonly AnyAction[], data: NodeEditorData, base?: NodeEditorData) => ({
+      label,
+      actions,
+      data,
+      base,
+    }),
+  ),
 } as const;
 
 export type NodeEditorAction = ActionUnion<typeof nodeEditorActions>;
@@ -8,7 +8,7 @@ import type { NodeEditorAction } from "./actions";
 import type { BoundActionCreators } from "../../../utils/typedActions";
 import type { Settings } from "../../../hooks/useSettings";
 import type { SettingsManager } from "../../../settings/SettingsManager";
-import type { NodeDefinition } from "../../../types/NodeDefinition";
+import type { ConstraintViolation, NodeDefinition } from "../../../types/NodeDefinition";
 import { useExternalStoreSelector } from "../../../hooks/useExternalStoreSelector";
 
 export type NodeEditorUtils = {
@@ -93,6 +93,32 @@ export type NodeEditorStateChange = {
   affectsNodeOrder: boolean;
   /** True when connection-derived caches should update */
   affectsConnections: boolean;
+  /**
+   * True when the change arrived through controlled `data` rather than an editor dispatch
+   * (e.g. edits from remote collaborators). History does not record external changes.
+   */
+  external?: boolean;
+};
+
+/**
+ * An action that reached the state, with the state before and after it.
+ * Actions vetoed by middleware or blocked by constraints are not reported; the actions of a
+ * transaction arrive together as one `COMMIT_TRANSACTION`.
+ */
+export type NodeEditorActionEvent = {
+  action: NodeEditorAction;
+  previousState: NodeEditorData;
+  nextState: NodeEditorData;
+};
+
+/**
+ * Reported when a dispatched action violates node definition constraints.
+ */
+export type NodeEditorConstraintViolation = {
+  action: NodeEditorAction;
+  violations: readonly ConstraintViolation[];
+  /** True when a blocking violation rejected the action and the state was left unchanged */
+  blocked: boolean;
 };
 
 export type NodeEditorApiValue = {
@@ -101,6 +127,8 @@ export type NodeEditorApiValue = {
   getState: () => NodeEditorData;
   subscribe: (listener: () => void) => () => void;
   subscribeToChanges: (listener: (change: NodeEditorStateChange) => void) => () => void;
+  /** Every action applied to the state, after subscribers of `subscribeToChanges` were notified */
+  subscribeToActions: (listener: (event: NodeEditorActionEvent) => void) => () => void;
   getSortedNodeIds: () => NodeId[];
   subscribeToSortedNodeIds: (listener: () => void) => () => void;
   getConnectedPorts: () => Set<string>;
@@ -108,6 +136,13 @@ export type NodeEditorApiValue = {
   subscribeToConnectionDerived: (listener: () => void) => () => void;
   getNodePorts: (nodeId: NodeId) => Port[];
   getNodeById: (nodeId: NodeId) => Node | undefined;
+  /**
+   * Run `fn` as one atomic edit. Dispatches inside it update `getState()` immediately but
+   * subscribers are notified once with a single `COMMIT_TRANSACTION` change, which history
+   * records as one entry named `label`. If `fn` throws, the state is rolled back and the error rethrown.
+   * `fn` must be synchronous; nested transactions join the outer one.
+   */
+  transaction: <T>(label: string, fn: () => T) => T;
 };
 
 export const NodeEditorApiContext = React.createContext<NodeEditorApiValue | null>(null);
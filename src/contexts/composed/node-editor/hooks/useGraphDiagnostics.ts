@@ -0,0 +1,22 @@
+/**
+ * @file Hook for live graph-wide diagnostics
+ * Re-collects problems whenever the document or the registered definitions change.
+ */
+import * as React from "react";
+import { useNodeEditor } from "../context";
+import { useNodeDefinitions } from "../../../node-definitions/context";
+import { collectGraphDiagnostics, type GraphDiagnostic } from "../utils/graphDiagnostics";
+
+export type { GraphDiagnostic };
+
+/**
+ * Hook returning the current problems of the document, errors first.
+ * Collection is deferred so typing and dragging stay responsive on large graphs.
+ */
+export const useGraphDiagnostics = (): GraphDiagnostic[] => {
+  const { state } = useNodeEditor();
+  const { registry } = useNodeDefinitions();
+  const deferredState = React.useDeferredValue(state);
+
+  return React.useMemo(() => collectGraphDiagnostics(deferredState, registry.getAll()), [deferredState, registry]);
+};
@@ -0,0 +1,128 @@
+/**
+ * @file Tests for useGraphExecution - running the graph inside the editor
+ */
+import * as React from "react";
+import { act, render } from "@testing-library/react";
+import { NodeEditorCore } from "../../../../NodeEditorCore";
+import { useGraphExecution, type UseGraphExecutionOptions } from "./useGraphExecution";
+import { useNodeEditorApi } from "../context";
+import { useNodeExecutionStatus } from "../../../execution-status/context";
+import { useHistory } from "../../../history/context";
+import type { NodeDefinition } from "../../../../types/NodeDefinition";
+import type { NodeEditorData } from "../../../../types/core";
+import type { NodeExecutionStatus } from "../../../../core/execution/evaluate";
+
+const numberDef: NodeDefinition = {
+  type: "number",
+  displayName: "Number",
+  ports: [{ id: "value", type: "output", label: "Value", position: "right" }],
+  execute: ({ node }) => ({ value: node.data.value }),
+};
+
+const doubleDef: NodeDefinition = {
+  type: "double",
+  displayName: "Double",
+  ports: [
+    { id: "input", type: "input", label: "In", position: "left" },
+    { id: "output", type: "output", label: "Out", position: "right" },
+  ],
+  execute: ({ inputs }) => ({ output: Number(inputs.input) * 2 }),
+};
+
+const initialData: NodeEditorData = {
+  nodes: {
+    n1: { id: "n1", type: "number", position: { x: 0, y: 0 }, data: { value: 2 } },
+    d1: { id: "d1", type: "double", position: { x: 200, y: 0 }, data: {} },
+  },
+  connections: {
+    c1: { id: "c1", fromNodeId: "n1", fromPortId: "value", toNodeId: "d1", toPortId: "input" },
+  },
+};
+
+type Probe = {
+  execution: ReturnType<typeof useGraphExecution>;
+  api: ReturnType<typeof useNodeEditorApi>;
+  status: NodeExecutionStatus | null;
+  canUndo: boolean;
+};
+
+const ProbeView: React.FC<{ probe: { current: Probe | null }; options?: UseGraphExecutionOptions }> = ({
+  probe,
+  options,
+}) => {
+  const execution = useGraphExecution(options);
+  const api = useNodeEditorApi();
+  const status = useNodeExecutionStatus("d1");
+  const { canUndo } = useHistory();
+  probe.current = { execution, api, status, canUndo };
+  return null;
+};
+
+const renderExecution = (options?: UseGraphExecutionOptions) => {
+  const probe: { current: Probe | null } = { current: null };
+  const dataChanges: NodeEditorData[] = [];
+  render(
+    <NodeEditorCore
+      initialData={initialData}
+      nodeDefinitions={[numberDef, doubleDef]}
+      onDataChange={(data) => dataChanges.push(data)}
+    >
+      <ProbeView probe={probe} options={options} />
+    </NodeEditorCore>,
+  );
+  return { probe, dataChanges };
+};
+
+const flush = async () => {
+  await act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+};
+
+describe("useGraphExecution", () => {
+  it("reports statuses outside the document, so runs leave data, history and onDataChange alone", async () => {
+    const statuses: string[] = [];
+    const { probe, dataChanges } = renderExecution({
+      onNodeStatusChange: (nodeId, status) => statuses.push(`${nodeId}:${status}`),
+    });
+    const before = probe.current!.api.getState();
+    const changesBefore = dataChanges.length;
+
+    await act(async () => {
+      await probe.current!.execution.run();
+    });
+
+    expect(probe.current!.execution.getPortValue("d1", "output")).toBe(4);
+    expect(probe.current!.status).toBe("success");
+    expect(statuses).toContain("d1:running");
+    expect(probe.current!.api.getState()).toBe(before);
+    expect(dataChanges).toHaveLength(changesBefore);
+    expect(probe.current!.canUndo).toBe(false);
+  });
+
+  it("does not report statuses when reportVisualState is off", async () => {
+    const { probe } = renderExecution({ reportVisualState: false });
+
+    await act(async () => {
+      await probe.current!.execution.run();
+    });
+
+    expect(probe.current!.execution.lastResult?.statuses.d1).toBe("success");
+    expect(probe.current!.status).toBeNull();
+  });
+
+  it("re-runs after edits with autoRun", async () => {
+    const { probe } = renderExecution({ autoRun: true });
+    await act(async () => {
+      await probe.current!.execution.run();
+    });
+
+    act(() => {
+      probe.current!.api.actions.updateNode("n1", { data: { value: 5 } });
+    });
+    await flush();
+    await flush();
+
+    expect(probe.current!.execution.getPortValue("d1", "output")).toBe(10);
+  });
+});
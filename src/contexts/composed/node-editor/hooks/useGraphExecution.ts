@@ -0,0 +1,131 @@
+/**
+ * @file Hook for running the node graph through the execution engine
+ * Reports per-node execution status to the editor's execution status store, where node views
+ * pick it up, and re-evaluates only the downstream cone of edited nodes.
+ */
+import * as React from "react";
+import { useNodeEditorApi } from "../context";
+import { useNodeDefinitions } from "../../../node-definitions/context";
+import type { GraphExecutionResult, NodeExecutionStatus } from "../../../../core/execution/evaluate";
+import { createExecutionResultCache } from "../../../../core/execution/resultCache";
+import { useExecutionStatusStore } from "../../../execution-status/context";
+import type { NodeId } from "../../../../types/core";
+import type { NodeExecutionOutputs } from "../../../../types/NodeDefinition";
+
+export type { GraphExecutionResult, NodeExecutionStatus };
+
+export type UseGraphExecutionOptions = {
+  /** Show execution status on the nodes (default: true); it is never written to `node.data` */
+  reportVisualState?: boolean;
+  /** Re-evaluate automatically after edits that dirty a node (default: false) */
+  autoRun?: boolean;
+  /** Called whenever a node's execution status changes */
+  onNodeStatusChange?: (nodeId: NodeId, status: NodeExecutionStatus, error?: unknown) => void;
+};
+
+/**
+ * Hook that evaluates the current graph using each definition's `execute` function.
+ * Results are cached; `run` only re-executes nodes affected by edits since the previous run.
+ */
+export const useGraphExecution = (options: UseGraphExecutionOptions = {}) => {
+  const { getState, subscribeToChanges } = useNodeEditorApi();
+  const statusStore = useExecutionStatusStore();
+  const { registry } = useNodeDefinitions();
+  const [isRunning, setIsRunning] = React.useState(false);
+  const [lastResult, setLastResult] = React.useState<GraphExecutionResult | null>(null);
+  const abortControllerRef = React.useRef<AbortController | null>(null);
+  const optionsRef = React.useRef(options);
+  optionsRef.current = options;
+
+  const cache = React.useMemo(() => createExecutionResultCache(), []);
+
+  const applyStatus = React.useCallback(
+    (nodeId: NodeId, status: NodeExecutionStatus, error?: unknown) => {
+      optionsRef.current.onNodeStatusChange?.(nodeId, status, error);
+      if (optionsRef.current.reportVisualState === false) {
+        return;
+      }
+      statusStore.setStatus(nodeId, status);
+    },
+    [statusStore],
+  );
+
+  const cancel = React.useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const run = React.useCallback(async (): Promise<GraphExecutionResult> => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    try {
+      cache.sync(getState());
+      const result = await cache.evaluate((type) => registry.get(type), {
+        signal: controller.signal,
+        onNodeStatusChange: (nodeId, status, error) => {
+          // Ignore updates from runs superseded by a newer run
+          if (abortControllerRef.current !== controller) {
+            return;
+          }
+          applyStatus(nodeId, status, error);
+        },
+      });
+      if (abortControllerRef.current === controller) {
+        setLastResult(result);
+      }
+      return result;
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  }, [cache, getState, registry, applyStatus]);
+
+  const runAll = React.useCallback((): Promise<GraphExecutionResult> => {
+    cache.sync(getState());
+    cache.invalidateAll();
+    return run();
+  }, [cache, getState, run]);
+
+  React.useEffect(() => {
+    cache.sync(getState());
+    let scheduled: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = subscribeToChanges((change) => {
+      cache.sync(getState(), change);
+      if (!optionsRef.current.autoRun || cache.getDirtyNodeIds().size === 0 || scheduled) {
+        return;
+      }
+      // Coalesce bursts of edits (e.g. slider drags) into a single evaluation
+      scheduled = setTimeout(() => {
+        scheduled = null;
+        void run();
+      }, 0);
+    });
+    return () => {
+      unsubscribe();
+      if (scheduled) {
+        clearTimeout(scheduled);
+      }
+    };
+  }, [cache, getState, subscribeToChanges, run]);
+
+  React.useEffect(() => cancel, [cancel]);
+
+  const getOutputs = React.useCallback((): Readonly<Record<NodeId, NodeExecutionOutputs>> => cache.getOutputs(), [cache]);
+  const getPortValue = React.useCallback(
+    (nodeId: NodeId, portId: string): unknown => cache.getPortValue(nodeId, portId),
+    [cache],
+  );
+
+  return {
+    run,
+    runAll,
+    cancel,
+    isRunning,
+    lastResult,
+    getOutputs,
+    getPortValue,
+  };
+};
@@ -0,0 +1,64 @@
+/**
+ * @file Hook for exporting the editor graph as an image
+ * Binds the headless SVG export to the live document, selection and connection routing.
+ */
+import * as React from "react";
+import { useNodeEditorApi } from "../context";
+import { useNodeDefinitions } from "../../../node-definitions/context";
+import { useEditorActionState } from "../../EditorActionStateContext";
+import { useConnectionBehavior } from "../../../connection-behavior/context";
+import {
+  GRAPH_EXPORT_THEME_VARIABLES,
+  exportGraphToSvg,
+  type GraphSvgExport,
+  type GraphSvgExportOptions,
+} from "../../../../core/export/svgExport";
+import { rasterizeSvgToPng, readThemeVariables } from "../../../../utils/imageExport";
+
+export type GraphImageExportOptions = Pick<GraphSvgExportOptions, "padding" | "scale" | "background"> & {
+  /** Export every node or only the selected ones (falls back to all when nothing is selected). Default: "all" */
+  scope?: "all" | "selection";
+  /** Element inside the editor whose theme variables are embedded into the image */
+  themeSource?: Element | null;
+};
+
+export type GraphImageExport = {
+  exportSvg: (options?: GraphImageExportOptions) => GraphSvgExport;
+  exportPng: (options?: GraphImageExportOptions) => Promise<Blob>;
+};
+
+/**
+ * Hook returning functions that render the current graph (or selection) to SVG markup or a PNG blob.
+ * Connections are drawn with the editor's connection behavior, so custom and orthogonal routing carry over.
+ */
+export const useGraphImageExport = (): GraphImageExport => {
+  const { getState } = useNodeEditorApi();
+  const { registry } = useNodeDefinitions();
+  const { state: actionState } = useEditorActionState();
+  const { createPathModel } = useConnectionBehavior();
+  const selectedNodeIds = actionState.selectedNodeIds;
+
+  const exportSvg = React.useCallback(
+    (options: GraphImageExportOptions = {}): GraphSvgExport => {
+      const { scope = "all", themeSource, ...svgOptions } = options;
+      const useSelection = scope === "selection" && selectedNodeIds.length > 0;
+      return exportGraphToSvg(getState(), registry.getAll(), {
+        ...svgOptions,
+        nodeIds: useSelection ? selectedNodeIds : undefined,
+        themeVariables: themeSource ? readThemeVariables(themeSource, GRAPH_EXPORT_THEME_VARIABLES) : undefined,
+        createPathModel,
+      });
+    },
+    [getState, registry, selectedNodeIds, createPathModel],
+  );
+
+  const exportPng = React.useCallback(
+    (options?: GraphImageExportOptions): Promise<Blob> => {
+      const { svg, width, height } = exportSvg(options);
+      return rasterizeSvgToPng(svg, { width, height });
+    },
+    [exportSvg],
+  );
+
+  return React.useMemo(() => ({ exportSvg, exportPng }), [exportSvg, exportPng]);
+};
@@ -0,0 +1,190 @@
+/**
+ * @file Tests for enforcing node definition constraints in the dispatch pipeline
+ */
+import { renderHook, act } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { NodeEditorProvider } from "./provider";
+import { useNodeEditorApi, type NodeEditorConstraintViolation } from "./context";
+import { NodeDefinitionProvider } from "../../node-definitions/provider";
+import type { NodeConstraint, NodeDefinition } from "../../../types/NodeDefinition";
+import type { NodeEditorData } from "../../../types/core";
+
+const stayInsideOrigin: NodeConstraint = {
+  id: "stay-inside",
+  name: "Stay inside",
+  blocking: true,
+  appliesTo: ["move"],
+  validate: ({ node }) =>
+    node.position.x < 0
+      ? {
+          isValid: false,
+          violations: [{ type: "stay-inside", message: "Keep x positive", severity: "error", nodeIds: [node.id] }],
+        }
+      : { isValid: true, violations: [] },
+};
+
+const singleInput: NodeConstraint = {
+  id: "single-input",
+  name: "Single input",
+  blocking: true,
+  appliesTo: ["connect"],
+  validate: ({ node, allConnections, context }) => {
+    const isTarget = context?.sourceNode !== undefined;
+    const hasInput = Object.values(allConnections).some((connection) => connection.toNodeId === node.id);
+    return isTarget && hasInput
+      ? { isValid: false, violations: [{ type: "single-input", message: "One input only", severity: "error" }] }
+      : { isValid: true, violations: [] };
+  },
+};
+
+const titleRecommended: NodeConstraint = {
+  id: "title-recommended",
+  name: "Title recommended",
+  appliesTo: ["update"],
+  validate: ({ node }) =>
+    node.data.title
+      ? { isValid: true, violations: [] }
+      : { isValid: false, violations: [{ type: "title-recommended", message: "Add a title", severity: "warning" }] },
+};
+
+const constrainedDefinition: NodeDefinition = {
+  type: "constrained",
+  displayName: "Constrained",
+  ports: [
+    { id: "input", type: "input", label: "Input", position: "left" },
+    { id: "output", type: "output", label: "Output", position: "right" },
+  ],
+  constraints: [stayInsideOrigin, singleInput, titleRecommended],
+};
+
+const makeData = (): NodeEditorData => ({
+  nodes: {
+    a: { id: "a", type: "constrained", position: { x: 0, y: 0 }, data: { title: "A" } },
+    b: { id: "b", type: "constrained", position: { x: 300, y: 0 }, data: { title: "B" } },
+    c: { id: "c", type: "constrained", position: { x: 600, y: 0 }, data: { title: "C" } },
+  },
+  connections: {
+    ab: { id: "ab", fromNodeId: "a", fromPortId: "output", toNodeId: "b", toPortId: "input" },
+  },
+});
+
+const renderApi = () => {
+  const reported: NodeEditorConstraintViolation[] = [];
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <NodeDefinitionProvider nodeDefinitions={[constrainedDefinition]} includeDefaults={false}>
+      <NodeEditorProvider initialState={makeData()} onConstraintViolation={(violation) => reported.push(violation)}>
+        {children}
+      </NodeEditorProvider>
+    </NodeDefinitionProvider>
+  );
+  const { result } = renderHook(() => useNodeEditorApi(), { wrapper });
+  return { api: () => result.current, reported };
+};
+
+describe("NodeEditorProvider constraint enforcement", () => {
+  it("rejects moves that break a blocking constraint", () => {
+    const { api, reported } = renderApi();
+    const before = api().getState();
+
+    act(() => {
+      api().actions.moveNodes({ a: { x: -10, y: 0 } });
+    });
+
+    expect(api().getState()).toBe(before);
+    expect(reported).toHaveLength(1);
+    expect(reported[0].blocked).toBe(true);
+    expect(reported[0].action.type).toBe("MOVE_NODES");
+    expect(reported[0].violations.map((violation) => violation.type)).toEqual(["stay-inside"]);
+
+    act(() => {
+      api().actions.moveNode("a", { x: 10, y: 0 });
+    });
+    expect(api().getState().nodes.a.position).toEqual({ x: 10, y: 0 });
+    expect(reported).toHaveLength(1);
+  });
+
+  it("rejects connections refused by either endpoint", () => {
+    const { api, reported } = renderApi();
+
+    act(() => {
+      api().actions.addConnection({ fromNodeId: "c", fromPortId: "output", toNodeId: "b", toPortId: "input" });
+    });
+
+    expect(Object.keys(api().getState().connections)).toEqual(["ab"]);
+    expect(reported.map((violation) => violation.blocked)).toEqual([true]);
+  });
+
+  it("applies changes with non-blocking violations and reports them as warnings", () => {
+    const { api, reported } = renderApi();
+
+    act(() => {
+      api().actions.updateNode("a", { data: { title: "" } });
+    });
+
+    expect(api().getState().nodes.a.data.title).toBe("");
+    expect(reported).toHaveLength(1);
+    expect(reported[0]).toMatchObject({ blocked: false, violations: [{ type: "title-recommended" }] });
+  });
+
+  it("reports the same warning once until it is resolved", () => {
+    const { api, reported } = renderApi();
+
+    act(() => {
+      api().actions.updateNode("a", { data: { title: "" } });
+    });
+    act(() => {
+      api().actions.updateNode("a", { data: { title: "", note: "draft" } });
+    });
+    expect(reported).toHaveLength(1);
+
+    act(() => {
+      api().actions.updateNode("a", { data: { title: "A" } });
+    });
+    act(() => {
+      api().actions.updateNode("a", { data: { title: "" } });
+    });
+    expect(reported).toHaveLength(2);
+  });
+
+  it("reports every blocked move", () => {
+    const { api, reported } = renderApi();
+
+    act(() => {
+      api().actions.moveNodes({ a: { x: -10, y: 0 } });
+    });
+    act(() => {
+      api().actions.moveNodes({ a: { x: -10, y: 0 } });
+    });
+
+    expect(reported.map((violation) => violation.blocked)).toEqual([true, true]);
+    expect(reported[1].violations).toHaveLength(1);
+  });
+
+  it("rejects a transaction as a whole", () => {
+    const { api, reported } = renderApi();
+    const before = api().getState();
+
+    act(() => {
+      api().transaction("Move both", () => {
+        api().actions.moveNode("b", { x: 320, y: 0 });
+        api().actions.moveNode("a", { x: -5, y: 0 });
+      });
+    });
+
+    expect(api().getState()).toBe(before);
+    expect(reported[0]).toMatchObject({ blocked: true, action: { type: "COMMIT_TRANSACTION" } });
+  });
+
+  it("does not check whole-document replacements", () => {
+    const { api, reported } = renderApi();
+    const data = makeData();
+    data.nodes.a = { ...data.nodes.a, position: { x: -100, y: 0 } };
+
+    act(() => {
+      api().actions.restoreState(data);
+    });
+
+    expect(api().getState().nodes.a.position).toEqual({ x: -100, y: 0 });
+    expect(reported).toEqual([]);
+  });
+});
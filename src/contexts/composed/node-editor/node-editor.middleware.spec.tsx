@@ -0,0 +1,310 @@
+/**
+ * @file Tests for action middleware, the action event stream and async middleware
+ */
+import { renderHook, act } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { NodeEditorProvider } from "./provider";
+import { useNodeEditorApi, type NodeEditorActionEvent } from "./context";
+import { nodeEditorActions, type NodeEditorAction } from "./actions";
+import { createAsyncActionMiddleware, type NodeEditorActionMiddleware } from "./utils/actionMiddleware";
+import { NodeDefinitionProvider } from "../../node-definitions/provider";
+import { asNodeDefinition } from "../../../types/NodeDefinition";
+import type { NodeEditorData } from "../../../types/core";
+import { StandardNodeDefinition } from "../../../node-definitions/standard";
+import { HistoryProvider, useHistory } from "../../history/context";
+
+const makeData = (): NodeEditorData => ({
+  nodes: {
+    n1: { id: "n1", type: "standard", position: { x: 0, y: 0 }, data: { title: "Node 1" } },
+  },
+  connections: {},
+});
+
+const renderApi = (actionMiddleware: readonly NodeEditorActionMiddleware[], events: NodeEditorActionEvent[] = []) => {
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <NodeDefinitionProvider nodeDefinitions={[asNodeDefinition(StandardNodeDefinition)]}>
+      <NodeEditorProvider
+        initialState={makeData()}
+        actionMiddleware={actionMiddleware}
+        onAction={(event) => events.push(event)}
+      >
+        {children}
+      </NodeEditorProvider>
+    </NodeDefinitionProvider>
+  );
+  return renderHook(() => useNodeEditorApi(), { wrapper });
+};
+
+const renderWithHistory = (actionMiddleware: readonly NodeEditorActionMiddleware[]) => {
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <NodeDefinitionProvider nodeDefinitions={[asNodeDefinition(StandardNodeDefinition)]}>
+      <NodeEditorProvider initialState={makeData()} actionMiddleware={actionMiddleware}>
+        <HistoryProvider>{children}</HistoryProvider>
+      </NodeEditorProvider>
+    </NodeDefinitionProvider>
+  );
+  return renderHook(() => ({ history: useHistory(), api: useNodeEditorApi() }), { wrapper });
+};
+
+const flushQueue = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const deferred = <T,>() => {
+  const handle: { resolve: (value: T) => void; promise: Promise<T> } = {
+    resolve: () => undefined,
+    promise: Promise.resolve() as Promise<T>,
+  };
+  handle.promise = new Promise<T>((resolve) => {
+    handle.resolve = resolve;
+  });
+  return handle;
+};
+
+describe("NodeEditorProvider action middleware", () => {
+  it("lets middleware transform, veto and add actions", () => {
+    const stampUpdatedAt: NodeEditorActionMiddleware = () => (next) => (action) => {
+      if (action.type === "UPDATE_NODE") {
+        next({
+          ...action,
+          payload: {
+            ...action.payload,
+            updates: { ...action.payload.updates, data: { ...action.payload.updates.data, updatedAt: 42 } },
+          },
+        });
+        return;
+      }
+      next(action);
+    };
+    const protectN1: NodeEditorActionMiddleware = () => (next) => (action) => {
+      if (action.type === "DELETE_NODE" && action.payload.nodeId === "n1") {
+        return;
+      }
+      next(action);
+    };
+    const labelAdded: NodeEditorActionMiddleware = (api) => (next) => (action) => {
+      next(action);
+      if (action.type === "ADD_NODE_WITH_ID") {
+        api.dispatch(nodeEditorActions.updateNode(action.payload.node.id, { data: { title: "Added" } }));
+      }
+    };
+    const { result } = renderApi([stampUpdatedAt, protectN1, labelAdded]);
+
+    act(() => {
+      result.current.actions.updateNode("n1", { data: { title: "Renamed" } });
+      result.current.actions.deleteNode("n1");
+      result.current.actions.addNodeWithId({ id: "n2", type: "standard", position: { x: 0, y: 0 }, data: {} });
+    });
+
+    const state = result.current.getState();
+    expect(state.nodes.n1?.data).toEqual({ title: "Renamed", updatedAt: 42 });
+    // The follow-up update went through the whole chain, so it was stamped too
+    expect(state.nodes.n2?.data).toEqual({ title: "Added", updatedAt: 42 });
+  });
+
+  it("reports applied actions to onAction and subscribers, skipping vetoed ones", () => {
+    const events: NodeEditorActionEvent[] = [];
+    const vetoDeletes: NodeEditorActionMiddleware = () => (next) => (action) => {
+      if (action.type !== "DELETE_NODE") {
+        next(action);
+      }
+    };
+    const { result } = renderApi([vetoDeletes], events);
+    const streamed: string[] = [];
+    result.current.subscribeToActions((event) => streamed.push(event.action.type));
+
+    act(() => {
+      result.current.actions.updateNode("n1", { position: { x: 10, y: 0 } });
+      result.current.actions.deleteNode("n1");
+    });
+
+    expect(events.map((event) => event.action.type)).toEqual(["UPDATE_NODE"]);
+    expect(streamed).toEqual(["UPDATE_NODE"]);
+    expect(events[0]!.previousState.nodes.n1!.position).toEqual({ x: 0, y: 0 });
+    expect(events[0]!.nextState.nodes.n1!.position).toEqual({ x: 10, y: 0 });
+  });
+
+  it("applies async decisions in dispatch order and drops rejected actions", async () => {
+    const approvals = new Map<string, ReturnType<typeof deferred<boolean>>>();
+    const errors: string[] = [];
+    const approval = createAsyncActionMiddleware(
+      async (action) => {
+        if (action.type !== "UPDATE_NODE") {
+          return action;
+        }
+        const title = String(action.payload.updates.data?.title);
+        if (title === "broken") {
+          throw new Error("offline");
+        }
+        const pending = deferred<boolean>();
+        approvals.set(title, pending);
+        return (await pending.promise) ? action : null;
+      },
+      {
+        filter: (action) => action.type === "UPDATE_NODE" && action.payload.updates.data !== undefined,
+        onError: (error, action) => errors.push(`${action.type}:${(error as Error).message}`),
+      },
+    );
+    const { result } = renderApi([approval]);
+
+    act(() => {
+      result.current.actions.updateNode("n1", { data: { title: "first" } });
+      result.current.actions.updateNode("n1", { data: { title: "second" } });
+      result.current.actions.updateNode("n1", { data: { title: "broken" } });
+      result.current.actions.updateNode("n1", { data: { title: "rejected" } });
+      // Not held by the filter
+      result.current.actions.updateNode("n1", { position: { x: 5, y: 5 } });
+    });
+    expect(result.current.getState().nodes.n1!.position).toEqual({ x: 5, y: 5 });
+
+    await act(async () => {
+      approvals.get("second")!.resolve(true);
+      approvals.get("rejected")!.resolve(false);
+      await Promise.resolve();
+    });
+    // "second" waits for "first"
+    expect(result.current.getState().nodes.n1!.data.title).toBe("Node 1");
+
+    await act(async () => {
+      approvals.get("first")!.resolve(true);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+    expect(result.current.getState().nodes.n1!.data.title).toBe("second");
+    expect(errors).toEqual(["UPDATE_NODE:offline"]);
+  });
+
+  it("applies undo and redo immediately while an unfiltered async middleware is installed", async () => {
+    const held: string[] = [];
+    const approveAll = createAsyncActionMiddleware((action) => {
+      held.push(action.type);
+      return action;
+    });
+    const { result } = renderWithHistory([approveAll]);
+
+    await act(async () => {
+      result.current.api.actions.updateNode("n1", { data: { title: "Renamed" } });
+      await flushQueue();
+    });
+    expect(result.current.history.state.entries).toHaveLength(1);
+
+    act(() => {
+      result.current.history.undo();
+    });
+    expect(result.current.api.getState().nodes.n1!.data.title).toBe("Node 1");
+
+    await act(async () => {
+      await flushQueue();
+    });
+    // The undo was not recorded as a new edit, so redo is still available
+    expect(result.current.history.state.entries).toHaveLength(1);
+    expect(result.current.history.canRedo).toBe(true);
+
+    act(() => {
+      result.current.history.redo();
+    });
+    expect(result.current.api.getState().nodes.n1!.data.title).toBe("Renamed");
+    expect(held).toEqual(["UPDATE_NODE"]);
+  });
+
+  it("applies actions inside a transaction and holds the commit as one decision", async () => {
+    const held: NodeEditorAction[] = [];
+    const pending = deferred<boolean>();
+    const approval = createAsyncActionMiddleware(async (action) => {
+      held.push(action);
+      return (await pending.promise) ? action : null;
+    });
+    const { result } = renderWithHistory([approval]);
+
+    act(() => {
+      result.current.api.transaction("Rename and move", () => {
+        result.current.api.actions.updateNode("n1", { data: { title: "Renamed" } });
+        // Later steps of the transaction see the earlier ones
+        expect(result.current.api.getState().nodes.n1!.data.title).toBe("Renamed");
+        result.current.api.actions.moveNode("n1", { x: 10, y: 20 });
+      });
+    });
+    expect(held.map((action) => action.type)).toEqual(["COMMIT_TRANSACTION"]);
+    expect(result.current.api.getState().nodes.n1!.data.title).toBe("Node 1");
+
+    await act(async () => {
+      pending.resolve(true);
+      await flushQueue();
+    });
+    const node = result.current.api.getState().nodes.n1!;
+    expect(node.data.title).toBe("Renamed");
+    expect(node.position).toEqual({ x: 10, y: 20 });
+    expect(result.current.history.state.entries.map((entry) => entry.action)).toEqual(["Rename and move"]);
+  });
+
+  it("keeps the dispatch order when an inline middleware array is re-created while an action is held", async () => {
+    const approvals = new Map<string, ReturnType<typeof deferred<boolean>>>();
+    const approval = createAsyncActionMiddleware(
+      async (action) => {
+        const pending = deferred<boolean>();
+        approvals.set(
+          action.type === "UPDATE_NODE" ? String(action.payload.updates.data?.title) : action.type,
+          pending,
+        );
+        return (await pending.promise) ? action : null;
+      },
+      { filter: (action) => action.type === "UPDATE_NODE" },
+    );
+    const applied: string[] = [];
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <NodeDefinitionProvider nodeDefinitions={[asNodeDefinition(StandardNodeDefinition)]}>
+        <NodeEditorProvider
+          initialState={makeData()}
+          actionMiddleware={[approval]}
+          onAction={({ nextState }) => applied.push(String(nextState.nodes.n1?.data.title))}
+        >
+          {children}
+        </NodeEditorProvider>
+      </NodeDefinitionProvider>
+    );
+    const { result, rerender } = renderHook(() => useNodeEditorApi(), { wrapper });
+
+    act(() => {
+      result.current.actions.updateNode("n1", { data: { title: "first" } });
+    });
+    rerender();
+    act(() => {
+      result.current.actions.updateNode("n1", { data: { title: "second" } });
+    });
+
+    await act(async () => {
+      approvals.get("second")!.resolve(true);
+      await flushQueue();
+    });
+    expect(applied).toEqual([]);
+
+    await act(async () => {
+      approvals.get("first")!.resolve(true);
+      await flushQueue();
+    });
+    expect(applied).toEqual(["first", "second"]);
+    expect(result.current.getState().nodes.n1!.data.title).toBe("second");
+  });
+
+  it("replays a held transaction on top of changes applied while it waited", async () => {
+    const pending = deferred<boolean>();
+    const approval = createAsyncActionMiddleware(async (action) => ((await pending.promise) ? action : null), {
+      filter: (action) => action.type === "COMMIT_TRANSACTION",
+    });
+    const { result } = renderApi([approval]);
+
+    act(() => {
+      result.current.transaction("Rename", () => {
+        result.current.actions.updateNode("n1", { data: { title: "Renamed" } });
+      });
+      // Not held, so it applies before the transaction
+      result.current.actions.moveNode("n1", { x: 10, y: 20 });
+    });
+    expect(result.current.getState().nodes.n1!.position).toEqual({ x: 10, y: 20 });
+
+    await act(async () => {
+      pending.resolve(true);
+      await flushQueue();
+    });
+    const node = result.current.getState().nodes.n1!;
+    expect(node.data.title).toBe("Renamed");
+    expect(node.position).toEqual({ x: 10, y: 20 });
+  });
+});
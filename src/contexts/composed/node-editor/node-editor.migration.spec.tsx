@@ -0,0 +1,147 @@
+/**
+ * @file Tests for migrating initial and loaded documents in the node editor provider
+ */
+import { act, renderHook, waitFor } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { NodeEditorProvider, type NodeEditorProviderProps } from "./provider";
+import { useNodeEditor, useNodeEditorApi } from "./context";
+import { NodeDefinitionProvider } from "../../node-definitions/provider";
+import type { NodeDefinition } from "../../../types/NodeDefinition";
+import type { NodeEditorData } from "../../../types/core";
+import {
+  createNodeEditorDocument,
+  type DocumentMigrationReport,
+  type NodeEditorDocument,
+} from "../../../core/document/migration";
+
+const counterDefinition: NodeDefinition = {
+  type: "counter",
+  displayName: "Counter",
+  version: 2,
+  ports: [
+    { id: "in", type: "input", label: "In", position: "left" },
+    { id: "value", type: "output", label: "Value", position: "right" },
+  ],
+  migrate: (data) => ({ data: { ...data, count: Number(data.count ?? 0) }, renamedPorts: { out: "value" } }),
+};
+
+const makeSavedData = (): NodeEditorData => ({
+  nodes: {
+    a: { id: "a", type: "counter", position: { x: 0, y: 0 }, data: { count: "3" } },
+    b: { id: "b", type: "counter", position: { x: 300, y: 0 }, data: { count: "4" } },
+  },
+  connections: {
+    ab: { id: "ab", fromNodeId: "a", fromPortId: "out", toNodeId: "b", toPortId: "in" },
+  },
+});
+
+// Saved by version 1 of the counter definition
+const makeLegacyDocument = (): NodeEditorDocument => ({
+  ...createNodeEditorDocument(makeSavedData(), []),
+  nodeTypeVersions: { counter: 1 },
+});
+
+const renderEditor = <T,>(props: Omit<NodeEditorProviderProps, "children">, useValue: () => T) => {
+  const reports: DocumentMigrationReport[] = [];
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <NodeDefinitionProvider nodeDefinitions={[counterDefinition]} includeDefaults={false}>
+      <NodeEditorProvider {...props} onMigrate={(report) => reports.push(report)}>
+        {children}
+      </NodeEditorProvider>
+    </NodeDefinitionProvider>
+  );
+  const { result } = renderHook(useValue, { wrapper });
+  return { result, reports };
+};
+
+const renderApi = (props: Omit<NodeEditorProviderProps, "children">) => renderEditor(props, useNodeEditorApi);
+
+describe("NodeEditorProvider document migration", () => {
+  it("migrates initial documents from older definitions and reports it", () => {
+    const document = makeLegacyDocument();
+    const { result, reports } = renderApi({ initialState: document });
+    const state = result.current.getState();
+
+    expect(state.nodes.a.data.count).toBe(3);
+    expect(state.connections.ab.fromPortId).toBe("value");
+    expect(reports).toHaveLength(1);
+    expect(reports[0].migratedNodes.map((record) => record.nodeId)).toEqual(["a", "b"]);
+  });
+
+  it("takes plain initial state as current even when the definition is newer than version 1", () => {
+    const { result, reports } = renderApi({ initialState: makeSavedData() });
+    const state = result.current.getState();
+
+    expect(state.nodes.a.data.count).toBe("3");
+    expect(state.connections.ab.fromPortId).toBe("out");
+    expect(reports).toEqual([]);
+  });
+
+  it("reports documents newer than supported instead of failing to render", () => {
+    const errors: unknown[][] = [];
+    const originalError = console.error;
+    console.error = (...args: unknown[]) => void errors.push(args);
+    try {
+      const newer = { ...createNodeEditorDocument(makeSavedData(), [counterDefinition]), version: 99 };
+
+      const initial = renderApi({ initialState: newer });
+      expect(initial.result.current.getState()).toEqual({ nodes: {}, connections: {} });
+      expect(initial.reports).toHaveLength(1);
+      expect(initial.reports[0].error).toBeInstanceOf(Error);
+
+      const controlled = renderApi({ controlledData: newer });
+      expect(controlled.result.current.getState().nodes).toEqual({});
+      expect(controlled.reports).toHaveLength(1);
+      expect(controlled.reports[0].documentVersion).toBe(99);
+    } finally {
+      console.error = originalError;
+    }
+    expect(errors).toHaveLength(2);
+  });
+
+  it("migrates documents returned by onLoad", async () => {
+    const document = makeLegacyDocument();
+    const { result, reports } = renderApi({ onLoad: () => Promise.resolve(document) });
+
+    await waitFor(() => expect(result.current.getState().nodes.b?.data.count).toBe(4));
+    expect(result.current.getState()).not.toHaveProperty("format");
+    expect(reports).toHaveLength(1);
+    expect(reports[0].documentVersion).toBe(document.version);
+  });
+
+  it("does not report documents saved with the current definitions", () => {
+    const document = createNodeEditorDocument(makeSavedData(), [counterDefinition]);
+    const { result, reports } = renderApi({ initialState: document });
+
+    expect(result.current.getState().nodes.a.data.count).toBe("3");
+    expect(reports).toEqual([]);
+  });
+
+  it("saves a versioned document that reloads without migrating again", async () => {
+    const saved: NodeEditorDocument[] = [];
+    const first = renderEditor(
+      { initialState: makeLegacyDocument(), onSave: (document) => void saved.push(document) },
+      useNodeEditor,
+    );
+
+    await act(async () => {
+      await first.result.current.handleSave();
+    });
+    expect(saved[0]).toMatchObject({ nodeTypeVersions: { counter: 2 } });
+
+    const second = renderApi({ initialState: saved[0] });
+    expect(second.result.current.getState().nodes.a.data.count).toBe(3);
+    expect(second.reports).toEqual([]);
+  });
+
+  it("migrates controlled documents but takes plain controlled data as current", () => {
+    const document = makeLegacyDocument();
+    const controlledDocument = renderApi({ controlledData: document });
+    expect(controlledDocument.result.current.getState().nodes.a.data.count).toBe(3);
+    expect(controlledDocument.reports).toHaveLength(1);
+
+    const controlledData = renderApi({ controlledData: makeSavedData() });
+    expect(controlledData.result.current.getState().nodes.a.data.count).toBe("3");
+    expect(controlledData.reports).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @file Tests for NodeEditorApiValue.transaction - atomic batches of dispatches
+ */
+import { renderHook, act } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { NodeEditorProvider } from "./provider";
+import { useNodeEditorApi, type NodeEditorStateChange } from "./context";
+import { NodeDefinitionProvider } from "../../node-definitions/provider";
+import { asNodeDefinition } from "../../../types/NodeDefinition";
+import type { NodeEditorData } from "../../../types/core";
+import { StandardNodeDefinition } from "../../../node-definitions/standard";
+
+const makeData = (): NodeEditorData => ({
+  nodes: {
+    n1: { id: "n1", type: "standard", position: { x: 0, y: 0 }, data: { title: "Node 1" } },
+  },
+  connections: {},
+});
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <NodeDefinitionProvider nodeDefinitions={[asNodeDefinition(StandardNodeDefinition)]}>
+    <NodeEditorProvider initialState={makeData()}>{children}</NodeEditorProvider>
+  </NodeDefinitionProvider>
+);
+
+describe("NodeEditorApiValue.transaction", () => {
+  it("applies all dispatches and emits a single combined change", () => {
+    const { result } = renderHook(() => useNodeEditorApi(), { wrapper });
+    const changes: NodeEditorStateChange[] = [];
+    result.current.subscribeToChanges((change) => {
+      changes.push(change);
+    });
+
+    act(() => {
+      result.current.transaction("Add and connect", () => {
+        result.current.actions.addNodeWithId({ id: "n2", type: "standard", position: { x: 200, y: 0 }, data: {} });
+        // Intermediate state is visible inside the callback
+        expect(result.current.getState().nodes.n2).toBeDefined();
+        result.current.actions.addConnection({ fromNodeId: "n1", fromPortId: "output", toNodeId: "n2", toPortId: "input" });
+        result.current.actions.updateNode("n1", { data: { title: "Source" } });
+      });
+    });
+
+    expect(changes).toHaveLength(1);
+    const [change] = changes;
+    expect(change.action.type).toBe("COMMIT_TRANSACTION");
+    if (change.action.type === "COMMIT_TRANSACTION") {
+      expect(change.action.payload.label).toBe("Add and connect");
+      expect(change.action.payload.actions.map((action) => action.type)).toEqual([
+        "ADD_NODE_WITH_ID",
+        "ADD_CONNECTION",
+        "UPDATE_NODE",
+      ]);
+    }
+    expect([...change.changedNodeIds].sort()).toEqual(["n1", "n2"]);
+    expect(change.affectsConnections).toBe(true);
+
+    const state = result.current.getState();
+    expect(Object.keys(state.nodes).sort()).toEqual(["n1", "n2"]);
+    expect(Object.keys(state.connections)).toHaveLength(1);
+    expect(state.nodes.n1.data.title).toBe("Source");
+  });
+
+  it("rolls back and rethrows when the callback throws", () => {
+    const { result } = renderHook(() => useNodeEditorApi(), { wrapper });
+    const before = result.current.getState();
+    const changes: NodeEditorStateChange[] = [];
+    result.current.subscribeToChanges((change) => {
+      changes.push(change);
+    });
+
+    expect(() =>
+      result.current.transaction("Broken", () => {
+        result.current.actions.deleteNode("n1");
+        throw new Error("boom");
+      }),
+    ).toThrow("boom");
+
+    expect(result.current.getState()).toBe(before);
+    expect(changes).toHaveLength(0);
+  });
+
+  it("joins nested transactions into the outer one and returns the callback result", () => {
+    const { result } = renderHook(() => useNodeEditorApi(), { wrapper });
+    const changes: NodeEditorStateChange[] = [];
+    result.current.subscribeToChanges((change) => {
+      changes.push(change);
+    });
+
+    const captured: { value?: number } = {};
+    act(() => {
+      captured.value = result.current.transaction("Outer", () => {
+        result.current.actions.moveNode("n1", { x: 10, y: 10 });
+        result.current.transaction("Inner", () => {
+          result.current.actions.moveNode("n1", { x: 20, y: 20 });
+        });
+        return 42;
+      });
+    });
+
+    expect(captured.value).toBe(42);
+    expect(changes).toHaveLength(1);
+    expect(result.current.getState().nodes.n1.position).toEqual({ x: 20, y: 20 });
+  });
+});
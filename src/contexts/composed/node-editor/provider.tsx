@@ -10,6 +10,10 @@ import type { SettingsManager } from "../../../settings/SettingsManager";
 import type { SettingValue } from "../../../settings/types";
 import { createCachedPortResolver } from "../../../core/port/identity/lookup";
 import { NodeDefinitionContext } from "../../node-definitions/context";
+import {
+  validateMoveConstraints,
+  validateStateChangeConstraints,
+} from "../../node-definitions/utils/constraintValidation";
 import { bindActionCreators } from "../../../utils/typedActions";
 import { nodeEditorActions, type NodeEditorAction } from "./actions";
 import { nodeEditorReducer, defaultNodeEditorData } from "./reducer";
@@ -22,8 +26,23 @@ import { createPortKey } from "../../../core/port/identity/key";
 import type { NodeEditorApiValue } from "./context";
 import { NodeEditorApiContext } from "./context";
 import type { Node } from "../../../types/core";
-import type { NodeEditorStateChange } from "./context";
+import type { NodeEditorActionEvent, NodeEditorConstraintViolation, NodeEditorStateChange } from "./context";
 import { useListenerCollection } from "../../../hooks/useListenerCollection";
+import {
+  applyActionMiddleware,
+  areActionMiddlewareListsEqual,
+  type NodeEditorActionMiddleware,
+  type NodeEditorDispatch,
+  type NodeEditorMiddlewareApi,
+} from "./utils/actionMiddleware";
+import {
+  createNodeEditorDocument,
+  hasDocumentMigrationChanges,
+  isNodeEditorDocument,
+  tryMigrateNodeEditorDocument,
+  type DocumentMigrationReport,
+  type NodeEditorDocument,
+} from "../../../core/document/migration";
 
 const areNodeIdListsEqual = (a: readonly string[], b: readonly string[]): boolean => {
   if (a === b) {
@@ -108,20 +127,48 @@ const computeConnectedPortIdsByNode = (
   return stableNext;
 };
 
+// Nodes changed by a position-only action, or null when the action may change anything else
+const getMovedNodeIds = (action: NodeEditorAction): readonly NodeId[] | null => {
+  if (action.type === "MOVE_NODE") {
+    return [action.payload.nodeId];
+  }
+  if (action.type === "MOVE_NODES") {
+    return Object.keys(action.payload.updates);
+  }
+  if (action.type === "MOVE_GROUP_WITH_CHILDREN") {
+    return action.payload.affectedNodeIds;
+  }
+  return null;
+};
+
 export type NodeEditorProviderProps = {
   children: React.ReactNode;
-  initialState?: Partial<NodeEditorData>;
-  controlledData?: NodeEditorData;
+  /** Initial data; versioned documents are migrated, plain data is taken as already current */
+  initialState?: Partial<NodeEditorData> | NodeEditorDocument;
+  /** Controlled data; versioned documents are migrated, plain data is taken as already current */
+  controlledData?: NodeEditorData | NodeEditorDocument;
   onDataChange?: (data: NodeEditorData) => void;
-  onSave?: (data: NodeEditorData) => void | Promise<void>;
-  onLoad?: () => NodeEditorData | Promise<NodeEditorData>;
+  /** Receives the state wrapped in a versioned document, so it can be passed back to `initialState` or `onLoad` */
+  onSave?: (document: NodeEditorDocument) => void | Promise<void>;
+  /** Loads data once on mount; the result is migrated like `initialState` */
+  onLoad?: () => NodeEditorData | NodeEditorDocument | Promise<NodeEditorData | NodeEditorDocument>;
   settingsManager?: SettingsManager;
   /** Enable/disable auto-save (overrides settings) */
   autoSaveEnabled?: boolean;
   /** Auto-save interval in seconds (overrides settings) */
   autoSaveInterval?: number;
+  /** Called when an action violates node definition constraints */
+  onConstraintViolation?: (violation: NodeEditorConstraintViolation) => void;
+  /** Called when a loaded document migrated nodes or failed to; `report.error` is set when it was not loaded at all */
+  onMigrate?: (report: DocumentMigrationReport) => void;
+  /** Middleware every dispatched action passes through before it reaches the reducer */
+  actionMiddleware?: readonly NodeEditorActionMiddleware[];
+  /** Called for every action applied to the state */
+  onAction?: (event: NodeEditorActionEvent) => void;
 };
 
+const NO_MIDDLEWARE: readonly NodeEditorActionMiddleware[] = [];
+
 export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
   children,
   initialState,
@@ -132,6 +179,10 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
   settingsManager,
   autoSaveEnabled,
   autoSaveInterval,
+  onConstraintViolation,
+  onMigrate,
+  actionMiddleware = NO_MIDDLEWARE,
+  onAction,
 }) => {
   const { registry } = React.useContext(NodeDefinitionContext);
   const portResolver = React.useMemo(() => createCachedPortResolver(), []);
@@ -139,6 +190,7 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
   portResolverRef.current = portResolver;
   const storeListeners = useListenerCollection();
   const changeListeners = useListenerCollection<[NodeEditorStateChange]>();
+  const actionListeners = useListenerCollection<[NodeEditorActionEvent]>();
   const sortedNodeIdsListeners = useListenerCollection();
   const connectionDerivedListeners = useListenerCollection();
 
@@ -146,24 +198,50 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
   const notifySubscribers = storeListeners.notify;
   const subscribeToChanges = changeListeners.subscribe;
   const notifyChangeSubscribers = changeListeners.notify;
+  const subscribeToActions = actionListeners.subscribe;
+  const notifyActionSubscribers = actionListeners.notify;
   const subscribeToSortedNodeIds = sortedNodeIdsListeners.subscribe;
   const notifySortedNodeIdsSubscribers = sortedNodeIdsListeners.notify;
   const subscribeToConnectionDerived = connectionDerivedListeners.subscribe;
   const notifyConnectionDerivedSubscribers = connectionDerivedListeners.notify;
 
   const pendingControlledStateRef = React.useRef<NodeEditorData | null>(null);
+  // Controlled data the pending state was derived from; new data from the parent supersedes the pending state
+  const pendingControlledBaseRef = React.useRef<NodeEditorData | undefined>(undefined);
   const [controlledRenderTick, setControlledRenderTick] = React.useState(0);
 
-  const initialData: NodeEditorData = React.useMemo(() => {
-    return {
-      nodes: initialState?.nodes || defaultNodeEditorData.nodes,
-      connections: initialState?.connections || defaultNodeEditorData.connections,
-    };
-  }, [initialState]);
+  const nodeDefinitions = React.useMemo(() => registry.getAll(), [registry]);
 
-  const stabilizedControlledData = useStabilizedControlledData(controlledData);
+  // Plain data is normally what onDataChange emitted, so only envelopes carry versions to migrate from.
+  // Only the first value seeds the reducer, so migrate it once; a document that cannot be migrated starts empty.
+  const [initialMigration] = React.useState(() =>
+    initialState && isNodeEditorDocument(initialState)
+      ? tryMigrateNodeEditorDocument(initialState, nodeDefinitions, defaultNodeEditorData)
+      : null,
+  );
+  const initialData: NodeEditorData = initialMigration
+    ? initialMigration.data
+    : {
+        ...initialState,
+        nodes: initialState?.nodes || defaultNodeEditorData.nodes,
+        connections: initialState?.connections || defaultNodeEditorData.connections,
+      };
 
-  const nodeDefinitions = React.useMemo(() => registry.getAll(), [registry]);
+  // A controlled document that cannot be migrated keeps the last controlled data shown
+  const lastControlledDataRef = React.useRef<NodeEditorData>(defaultNodeEditorData);
+  const controlledMigration = React.useMemo(
+    () =>
+      controlledData && isNodeEditorDocument(controlledData)
+        ? tryMigrateNodeEditorDocument(controlledData, nodeDefinitions, lastControlledDataRef.current)
+        : null,
+    [controlledData, nodeDefinitions],
+  );
+  const stabilizedControlledData = useStabilizedControlledData(
+    controlledMigration ? controlledMigration.data : controlledData,
+  );
+  if (stabilizedControlledData) {
+    lastControlledDataRef.current = stabilizedControlledData;
+  }
 
   const groupNodeTypes = React.useMemo(() => {
     const groupTypes = new Set<string>();
@@ -185,16 +263,30 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
   const [internalState, internalDispatch] = React.useReducer(reducerWithDefinitions, initialData);
   const baseState = stabilizedControlledData || internalState;
   const isControlled = Boolean(stabilizedControlledData);
+  if (pendingControlledStateRef.current && pendingControlledBaseRef.current !== stabilizedControlledData) {
+    // The parent answered with its own data (possibly merged with edits from elsewhere); it wins
+    pendingControlledStateRef.current = null;
+  }
   const state = isControlled ? pendingControlledStateRef.current || baseState : internalState;
+  const controlledDataRef = React.useRef(stabilizedControlledData);
+  controlledDataRef.current = stabilizedControlledData;
   // Keep latest state and IO handlers in refs to avoid unstable callbacks/effects
   const stateRef = React.useRef(state);
   stateRef.current = state;
   const onDataChangeRef = React.useRef(onDataChange);
   onDataChangeRef.current = onDataChange;
+  const onConstraintViolationRef = React.useRef(onConstraintViolation);
+  onConstraintViolationRef.current = onConstraintViolation;
   const onSaveRef = React.useRef(onSave);
   onSaveRef.current = onSave;
   const onLoadRef = React.useRef(onLoad);
   onLoadRef.current = onLoad;
+  const onMigrateRef = React.useRef(onMigrate);
+  onMigrateRef.current = onMigrate;
+  const actionMiddlewareRef = React.useRef(actionMiddleware);
+  actionMiddlewareRef.current = actionMiddleware;
+  const onActionRef = React.useRef(onAction);
+  onActionRef.current = onAction;
   const nodeDefinitionsRef = React.useRef(nodeDefinitions);
   nodeDefinitionsRef.current = nodeDefinitions;
 
@@ -246,6 +338,12 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
     if (action.type === "RESTORE_STATE") {
       return true;
     }
+    if (action.type === "COMMIT_TRANSACTION") {
+      return true;
+    }
+    if (action.type === "COLLAPSE_TO_SUBFLOW" || action.type === "EXPAND_SUBFLOW") {
+      return true;
+    }
     if (action.type === "UPDATE_NODE") {
       const { updates } = action.payload;
       return Object.prototype.hasOwnProperty.call(updates, "type");
@@ -258,6 +356,37 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
       const affectsConnections = previous.connections !== next.connections;
       const affectsNodeOrder = doesActionAffectNodeOrder(action);
 
+      if (
+        action.type === "COMMIT_TRANSACTION" ||
+        action.type === "COLLAPSE_TO_SUBFLOW" ||
+        action.type === "EXPAND_SUBFLOW"
+      ) {
+        // Transactions and subflow moves touch many nodes at once; derive the affected nodes from the state diff.
+        const changed: NodeId[] = [];
+        const removed: NodeId[] = [];
+        for (const id in next.nodes) {
+          if (previous.nodes[id] !== next.nodes[id]) {
+            changed.push(id);
+          }
+        }
+        for (const id in previous.nodes) {
+          if (!Object.prototype.hasOwnProperty.call(next.nodes, id)) {
+            removed.push(id);
+          }
+        }
+        const affectsNodes = changed.length > 0 || removed.length > 0;
+        return {
+          action,
+          changedNodeIds: [...changed, ...removed],
+          removedNodeIds: removed,
+          fullResync: false,
+          affectsGeometry: affectsNodes,
+          affectsPorts: affectsNodes,
+          affectsNodeOrder: affectsNodes,
+          affectsConnections,
+        };
+      }
+
       const fullResync = action.type === "SET_NODE_DATA" || action.type === "RESTORE_STATE";
       const affectsGeometry = (() => {
         if (fullResync) {
@@ -395,18 +524,75 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
     [doesActionAffectNodeOrder],
   );
 
-  // Stable dispatch that doesn't recreate per state change to reduce re-renders
-  const dispatch: React.Dispatch<NodeEditorAction> = React.useCallback(
+  // Open transaction, if any; dispatches inside it are applied to stateRef only and committed together
+  const transactionRef = React.useRef<{ actions: NodeEditorAction[] } | null>(null);
+
+  // Warnings reported for the previous change; an identical report (e.g. on every drag frame) is not repeated
+  const lastWarningKeyRef = React.useRef<string | null>(null);
+
+  // Rejects changes that break a blocking constraint; whole-document replacements (load, undo/redo) are not checked
+  const passesConstraints = React.useCallback(
+    (action: NodeEditorAction, previousState: NodeEditorData, nextState: NodeEditorData): boolean => {
+      if (previousState === nextState || action.type === "SET_NODE_DATA" || action.type === "RESTORE_STATE") {
+        return true;
+      }
+      const definitions = nodeDefinitionsRef.current;
+      if (!definitions.some((definition) => definition.constraints && definition.constraints.length > 0)) {
+        return true;
+      }
+      const movedNodeIds = getMovedNodeIds(action);
+      const { allowed, violations } = movedNodeIds
+        ? validateMoveConstraints(previousState, nextState, movedNodeIds, definitions)
+        : validateStateChangeConstraints(previousState, nextState, definitions);
+      if (violations.length === 0) {
+        lastWarningKeyRef.current = null;
+        return true;
+      }
+      if (allowed) {
+        const warningKey = JSON.stringify(violations);
+        if (warningKey === lastWarningKeyRef.current) {
+          return true;
+        }
+        lastWarningKeyRef.current = warningKey;
+      }
+      onConstraintViolationRef.current?.({ action, violations, blocked: !allowed });
+      return allowed;
+    },
+    [],
+  );
+
+  const emitAction = React.useCallback(
+    (event: NodeEditorActionEvent) => {
+      onActionRef.current?.(event);
+      notifyActionSubscribers(event);
+    },
+    [notifyActionSubscribers],
+  );
+
+  // Applies an action that made it through the middleware chain
+  const applyAction: NodeEditorDispatch = React.useCallback(
     (action: NodeEditorAction) => {
       const previousState = stateRef.current;
+      if (transactionRef.current) {
+        // Constraints are checked once when the transaction commits
+        stateRef.current = nodeEditorReducer(previousState, action, nodeDefinitionsRef.current);
+        transactionRef.current.actions.push(action);
+        return;
+      }
+      const nextState = nodeEditorReducer(previousState, action, nodeDefinitionsRef.current);
+      if (!passesConstraints(action, previousState, nextState)) {
+        return;
+      }
       if (isControlled) {
-        const newState = nodeEditorReducer(stateRef.current, action, nodeDefinitionsRef.current);
-        pendingControlledStateRef.current = newState;
-        stateRef.current = newState;
+        if (!pendingControlledStateRef.current) {
+          pendingControlledBaseRef.current = controlledDataRef.current;
+        }
+        pendingControlledStateRef.current = nextState;
+        stateRef.current = nextState;
         setControlledRenderTick((tick) => tick + 1);
-        onDataChangeRef.current?.(newState);
+        onDataChangeRef.current?.(nextState);
 
-        const change = buildChangeSummary(previousState, newState, action);
+        const change = buildChangeSummary(previousState, nextState, action);
         if (change.affectsPorts) {
           if (change.fullResync) {
             portResolverRef.current.clearCache();
@@ -417,16 +603,16 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
         }
 
         if (change.affectsConnections) {
-          connectedPortsRef.current = computeConnectedPorts(newState.connections);
+          connectedPortsRef.current = computeConnectedPorts(nextState.connections);
           connectedPortIdsByNodeRef.current = computeConnectedPortIdsByNode(
-            newState.connections,
+            nextState.connections,
             connectedPortIdsByNodeRef.current,
           );
           notifyConnectionDerivedSubscribers();
         }
 
         if (change.affectsNodeOrder) {
-          const nextSorted = computeSortedNodeIds(newState.nodes, groupNodeTypesRef.current);
+          const nextSorted = computeSortedNodeIds(nextState.nodes, groupNodeTypesRef.current);
           if (!areNodeIdListsEqual(sortedNodeIdsRef.current, nextSorted)) {
             sortedNodeIdsRef.current = nextSorted;
             notifySortedNodeIdsSubscribers();
@@ -435,10 +621,10 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
 
         notifySubscribers();
         notifyChangeSubscribers(change);
+        emitAction({ action, previousState, nextState });
         return;
       }
       // Uncontrolled: dispatch internally and notify external listener with computed next state
-      const nextState = nodeEditorReducer(stateRef.current, action, nodeDefinitionsRef.current);
       stateRef.current = nextState;
       internalDispatch(action);
       onDataChangeRef.current?.(nextState);
@@ -472,10 +658,13 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
 
       notifySubscribers();
       notifyChangeSubscribers(change);
+      emitAction({ action, previousState, nextState });
     },
     [
       buildChangeSummary,
+      emitAction,
       isControlled,
+      passesConstraints,
       notifyChangeSubscribers,
       notifyConnectionDerivedSubscribers,
       notifySortedNodeIdsSubscribers,
@@ -483,6 +672,50 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
     ],
   );
 
+  const applyActionRef = React.useRef(applyAction);
+  applyActionRef.current = applyAction;
+
+  // Each middleware is instantiated once per editor so the state it keeps (e.g. async queues) survives re-renders
+  const middlewareInstancesRef = React.useRef(
+    new WeakMap<NodeEditorActionMiddleware, ReturnType<NodeEditorActionMiddleware>>(),
+  );
+  // The chain is rebuilt only when the middleware list changes by content
+  const middlewareChainRef = React.useRef<{
+    middlewares: readonly NodeEditorActionMiddleware[];
+    dispatch: NodeEditorDispatch;
+  } | null>(null);
+
+  // Stable dispatch that doesn't recreate per state change to reduce re-renders
+  const dispatch: React.Dispatch<NodeEditorAction> = React.useCallback((action: NodeEditorAction) => {
+    const middlewares = actionMiddlewareRef.current;
+    if (middlewares.length === 0) {
+      applyActionRef.current(action);
+      return;
+    }
+    const cached = middlewareChainRef.current;
+    if (cached && areActionMiddlewareListsEqual(cached.middlewares, middlewares)) {
+      cached.dispatch(action);
+      return;
+    }
+    const api: NodeEditorMiddlewareApi = {
+      getState: () => stateRef.current,
+      dispatch,
+      isInTransaction: () => transactionRef.current !== null,
+    };
+    const instances = middlewareInstancesRef.current;
+    const instantiated = middlewares.map((middleware): NodeEditorActionMiddleware => {
+      const instance = instances.get(middleware) ?? middleware(api);
+      instances.set(middleware, instance);
+      return () => instance;
+    });
+    const chain = {
+      middlewares,
+      dispatch: applyActionMiddleware(instantiated, api, (applied) => applyActionRef.current(applied)),
+    };
+    middlewareChainRef.current = chain;
+    chain.dispatch(action);
+  }, []);
+
   React.useEffect(() => {
     if (!isControlled) {
       pendingControlledStateRef.current = null;
@@ -507,6 +740,37 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
 
   const boundActions = React.useMemo(() => bindActionCreators(nodeEditorActions, dispatch), [dispatch]);
 
+  const transaction = React.useCallback(
+    <T,>(label: string, fn: () => T): T => {
+      // Nested transactions join the outermost one
+      if (transactionRef.current) {
+        return fn();
+      }
+      const startState = stateRef.current;
+      const pending: { actions: NodeEditorAction[] } = { actions: [] };
+      transactionRef.current = pending;
+      const result = (() => {
+        try {
+          return fn();
+        } catch (error) {
+          stateRef.current = startState;
+          throw error;
+        } finally {
+          transactionRef.current = null;
+        }
+      })();
+      const finalState = stateRef.current;
+      if (finalState === startState) {
+        return result;
+      }
+      // Rewind and commit the final state through the regular dispatch path so subscribers see one change
+      stateRef.current = startState;
+      dispatch(nodeEditorActions.commitTransaction(label, pending.actions, finalState, startState));
+      return result;
+    },
+    [dispatch],
+  );
+
   const [isLoading, setIsLoading] = React.useState(false);
   const [isSaving, setIsSaving] = React.useState(false);
   const isSavingRef = React.useRef(false);
@@ -519,6 +783,29 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
   const effectiveAutoSave = autoSaveEnabled ?? settingsAutoSave;
   const effectiveAutoSaveInterval = autoSaveInterval ?? settingsAutoSaveInterval ?? 30;
 
+  const reportMigration = React.useCallback((report: DocumentMigrationReport) => {
+    if (report.error !== undefined) {
+      console.error("Failed to migrate node editor document:", report.error);
+    }
+    if (hasDocumentMigrationChanges(report)) {
+      onMigrateRef.current?.(report);
+    }
+  }, []);
+
+  // Report the migration of the initial state once
+  React.useEffect(() => {
+    if (initialMigration) {
+      reportMigration(initialMigration.report);
+    }
+  }, [initialMigration, reportMigration]);
+
+  // Report each controlled document that needed migrating
+  React.useEffect(() => {
+    if (controlledMigration) {
+      reportMigration(controlledMigration.report);
+    }
+  }, [controlledMigration, reportMigration]);
+
   // Load once when registry is available; avoid effect-driven loops
   const hasLoadedRef = React.useRef(false);
   React.useEffect(() => {
@@ -535,14 +822,22 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
     hasLoadedRef.current = true;
     setIsLoading(true);
     Promise.resolve(onLoadRef.current())
-      .then((data) => {
-        boundActions.setNodeData(data);
+      .then((loaded) => {
+        if (!isNodeEditorDocument(loaded)) {
+          boundActions.setNodeData(loaded);
+          return;
+        }
+        const { data, report } = tryMigrateNodeEditorDocument(loaded, registry.getAll(), stateRef.current);
+        if (report.error === undefined) {
+          boundActions.setNodeData(data);
+        }
+        reportMigration(report);
       })
       .catch((error) => {
         console.error("Failed to load node editor data:", error);
       })
       .finally(() => setIsLoading(false));
-  }, [registry, boundActions]);
+  }, [registry, boundActions, reportMigration]);
 
   // Notification for onDataChange is handled inside dispatch (both modes)
   // Additionally, fire a single initial notification in uncontrolled mode
@@ -564,8 +859,8 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
     try {
       setIsSaving(true);
       isSavingRef.current = true;
-      const dataToSave = stateRef.current;
-      await Promise.resolve(save(dataToSave));
+      const documentToSave = createNodeEditorDocument(stateRef.current, nodeDefinitionsRef.current);
+      await Promise.resolve(save(documentToSave));
     } catch (error) {
       console.error("Failed to save node editor data:", error);
     } finally {
@@ -693,6 +988,7 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
           affectsPorts,
           affectsNodeOrder: true,
           affectsConnections: didConnectionsChange,
+          external: true,
         });
       }
     } else if (didConnectionsChange) {
@@ -705,6 +1001,7 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
         affectsPorts: false,
         affectsNodeOrder: false,
         affectsConnections: true,
+        external: true,
       });
     }
 
@@ -800,6 +1097,7 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
       getState,
       subscribe,
       subscribeToChanges,
+      subscribeToActions,
       getSortedNodeIds,
       subscribeToSortedNodeIds,
       getConnectedPorts,
@@ -807,6 +1105,7 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
       subscribeToConnectionDerived,
       getNodePorts: getNodePortsFromState,
       getNodeById,
+      transaction,
     }),
     [
       dispatch,
@@ -814,6 +1113,7 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
       getState,
       subscribe,
       subscribeToChanges,
+      subscribeToActions,
       getSortedNodeIds,
       subscribeToSortedNodeIds,
       getConnectedPorts,
@@ -821,6 +1121,7 @@ export const NodeEditorProvider: React.FC<NodeEditorProviderProps> = ({
       subscribeToConnectionDerived,
       getNodePortsFromState,
       getNodeById,
+      transaction,
     ],
   );
 
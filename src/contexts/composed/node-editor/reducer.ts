@@ -6,9 +6,11 @@
 import type { Node, NodeEditorData, NodeId } from "../../../types/core";
 import { nodeEditorActions, type NodeEditorAction } from "./actions";
 import type { NodeDefinition } from "../../../types/NodeDefinition";
-import { nodeHasGroupBehavior } from "../../../types/behaviors";
+import { hasSubflowBehavior, nodeHasGroupBehavior, nodeHasSubflowBehavior } from "../../../types/behaviors";
 import { copyNodesToClipboard, pasteNodesFromClipboard } from "./utils/nodeClipboardOperations";
 import { pruneInvalidConnections } from "./utils/connectionPruning";
+import { collapseNodesToSubflow, expandSubflowNode } from "./utils/subflowOperations";
+import { translateWaypointsWithNodes } from "../../../core/connection/waypoints";
 import { createActionHandlerMap } from "../../../utils/typedActions";
 
 const nodeEditorHandlers = createActionHandlerMap<NodeEditorData, typeof nodeEditorActions, NodeDefinition[]>(
@@ -97,7 +99,8 @@ const nodeEditorHandlers = createActionHandlerMap<NodeEditorData, typeof nodeEdi
           updatedNodes[nodeId] = { ...node, position };
         }
       });
-      return { ...state, nodes: updatedNodes };
+      const connections = translateWaypointsWithNodes(state.connections, state.nodes, updatedNodes);
+      return { ...state, nodes: updatedNodes, connections };
     },
     addConnection: (state, action) => {
       const { connection } = action.payload;
@@ -109,8 +112,30 @@ const nodeEditorHandlers = createActionHandlerMap<NodeEditorData, typeof nodeEdi
       const { [connectionId]: _deleted, ...remaining } = state.connections;
       return { ...state, connections: remaining };
     },
+    updateConnection: (state, action) => {
+      const { connectionId, updates } = action.payload;
+      const connection = state.connections[connectionId];
+      if (!connection) {
+        return state;
+      }
+      return {
+        ...state,
+        connections: { ...state.connections, [connectionId]: { ...connection, ...updates, id: connectionId } },
+      };
+    },
     setNodeData: (_state, action) => action.payload.data,
     restoreState: (_state, action) => action.payload.data,
+    commitTransaction: (state, action, nodeDefinitions) => {
+      const { actions, data, base } = action.payload;
+      if (!base || state === base) {
+        return data;
+      }
+      // Held back (e.g. by async middleware) while other changes applied; replay so they are kept
+      return actions.reduce<NodeEditorData>(
+        (current, inner) => nodeEditorReducer(current, inner as NodeEditorAction, nodeDefinitions),
+        state,
+      );
+    },
     duplicateNodes: (state, action, nodeDefinitions) => {
       const { nodeIds } = action.payload;
       if (nodeIds.length === 0) {
@@ -204,7 +229,8 @@ const nodeEditorHandlers = createActionHandlerMap<NodeEditorData, typeof nodeEdi
           position: { x: node.position.x + delta.x, y: node.position.y + delta.y },
         };
       });
-      return { ...state, nodes: updatedNodes };
+      const connections = translateWaypointsWithNodes(state.connections, state.nodes, updatedNodes);
+      return { ...state, nodes: updatedNodes, connections };
     },
     autoLayout: (state) => state,
     pruneInvalidConnections: (state, _action, nodeDefinitions) => {
@@ -225,7 +251,7 @@ const nodeEditorHandlers = createActionHandlerMap<NodeEditorData, typeof nodeEdi
       const newNodes = { ...state.nodes };
       const newConnections = { ...state.connections };
       pasteResult.nodes.forEach((node) => {
-        newNodes[node.id] = node as Node;
+        newNodes[node.id] = node;
       });
       pasteResult.connections.forEach((conn) => {
         const id = generateId();
@@ -237,6 +263,27 @@ const nodeEditorHandlers = createActionHandlerMap<NodeEditorData, typeof nodeEdi
         connections: newConnections,
       };
     },
+    collapseToSubflow: (state, action, nodeDefinitions) => {
+      const { nodeIds, subflowId = generateId() } = action.payload;
+      const definition = nodeDefinitions.find((def) => hasSubflowBehavior(def));
+      if (!definition) {
+        return state;
+      }
+      return collapseNodesToSubflow(state, nodeIds, {
+        subflowId,
+        nodeType: definition.type,
+        nodeDefinitions,
+        title: definition.displayName,
+      });
+    },
+    expandSubflow: (state, action, nodeDefinitions) => {
+      const { subflowId } = action.payload;
+      const node = state.nodes[subflowId];
+      if (!node || !nodeHasSubflowBehavior(node, nodeDefinitions)) {
+        return state;
+      }
+      return expandSubflowNode(state, subflowId, { generateId });
+    },
   },
 );
 
@@ -0,0 +1,102 @@
+/**
+ * @file Middleware around the node editor dispatch.
+ */
+import type { NodeEditorData } from "../../../../types/core";
+import type { NodeEditorAction } from "../actions";
+
+export type NodeEditorDispatch = (action: NodeEditorAction) => void;
+
+export type NodeEditorMiddlewareApi = {
+  getState: () => NodeEditorData;
+  /** Dispatches through the whole chain, e.g. to add follow-up actions */
+  dispatch: NodeEditorDispatch;
+  /** True while `transaction()` is collecting actions; they are committed as one `COMMIT_TRANSACTION` */
+  isInTransaction: () => boolean;
+};
+
+/**
+ * Wraps dispatch in the same shape as Redux middleware. Call `next` with the action, or a
+ * transformed one, to let it through; return without calling it to veto the action.
+ */
+export type NodeEditorActionMiddleware = (
+  api: NodeEditorMiddlewareApi,
+) => (next: NodeEditorDispatch) => NodeEditorDispatch;
+
+/**
+ * True when both lists hold the same middleware in the same order, e.g. an inline prop array re-created on render.
+ */
+export const areActionMiddlewareListsEqual = (
+  prev: readonly NodeEditorActionMiddleware[],
+  next: readonly NodeEditorActionMiddleware[],
+): boolean =>
+  prev === next || (prev.length === next.length && prev.every((middleware, index) => middleware === next[index]));
+
+/**
+ * Chain `middlewares` in front of `dispatch`; the first middleware sees every action first.
+ */
+export const applyActionMiddleware = (
+  middlewares: readonly NodeEditorActionMiddleware[],
+  api: NodeEditorMiddlewareApi,
+  dispatch: NodeEditorDispatch,
+): NodeEditorDispatch =>
+  middlewares.reduceRight<NodeEditorDispatch>((next, middleware) => middleware(api)(next), dispatch);
+
+/**
+ * Decides an action asynchronously, e.g. by asking a server for approval. Resolve with the action
+ * to apply (the same or a changed one), or with null to veto it.
+ */
+export type NodeEditorAsyncActionHandler = (
+  action: NodeEditorAction,
+  api: NodeEditorMiddlewareApi,
+) => NodeEditorAction | null | Promise<NodeEditorAction | null>;
+
+export type AsyncActionMiddlewareOptions = {
+  /** Actions held for the handler; the others pass straight through. Defaults to every action */
+  filter?: (action: NodeEditorAction) => boolean;
+  /** Called when the handler throws or rejects; the action is dropped */
+  onError?: (error: unknown, action: NodeEditorAction) => void;
+};
+
+// Whole-document replacements from undo/redo and loading must land before their caller returns
+const SYNCHRONOUS_ACTION_TYPES: ReadonlySet<NodeEditorAction["type"]> = new Set(["RESTORE_STATE", "SET_NODE_DATA"]);
+
+const reportAsyncActionError = (error: unknown, action: NodeEditorAction) => {
+  console.error(`Failed to decide node editor action "${action.type}":`, error);
+};
+
+/**
+ * Middleware that holds matching actions until `handler` settles. Handlers run as soon as an action
+ * is dispatched, but their results are applied in dispatch order, each against the state at that time.
+ * `RESTORE_STATE`, `SET_NODE_DATA` and actions inside a transaction always pass through synchronously;
+ * the handler decides a transaction as a whole when its `COMMIT_TRANSACTION` is dispatched.
+ */
+export const createAsyncActionMiddleware = (
+  handler: NodeEditorAsyncActionHandler,
+  options: AsyncActionMiddlewareOptions = {},
+): NodeEditorActionMiddleware => {
+  // Kept per middleware rather than per chain, so a rebuilt chain still applies decisions in dispatch order
+  const queue: { tail: Promise<void> } = { tail: Promise.resolve() };
+  return (api) => (next) => (action) => {
+    if (
+      SYNCHRONOUS_ACTION_TYPES.has(action.type) ||
+      api.isInTransaction() ||
+      (options.filter && !options.filter(action))
+    ) {
+      next(action);
+      return;
+    }
+    const decision = new Promise<NodeEditorAction | null>((resolve) => resolve(handler(action, api)));
+    // Rejections are reported once the queue reaches this action, not as unhandled in the meantime
+    decision.catch(() => undefined);
+    queue.tail = queue.tail.then(async () => {
+      try {
+        const resolved = await decision;
+        if (resolved) {
+          next(resolved);
+        }
+      } catch (error) {
+        (options.onError ?? reportAsyncActionError)(error, action);
+      }
+    });
+  };
+};
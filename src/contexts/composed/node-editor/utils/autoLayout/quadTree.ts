@@ -151,6 +151,50 @@ export class QuadTree {
     this.insertIntoNode(node.children![quadrant]!, data);
   }
 
+  /**
+   * Collect all inserted data whose position lies within the given range
+   */
+  queryRange(range: Bounds): QuadTreeNodeData[] {
+    const result: QuadTreeNodeData[] = [];
+    this.queryRangeRecursive(this.root, range, result);
+    return result;
+  }
+
+  /**
+   * Recursively collect data within a range, skipping quadrants that do not intersect it
+   */
+  private queryRangeRecursive(node: QuadTreeNode, range: Bounds, result: QuadTreeNodeData[]): void {
+    const { bounds } = node;
+    if (
+      bounds.x > range.x + range.width ||
+      bounds.x + bounds.width < range.x ||
+      bounds.y > range.y + range.height ||
+      bounds.y + bounds.height < range.y
+    ) {
+      return;
+    }
+
+    if (node.data !== null) {
+      const { position } = node.data;
+      if (
+        position.x >= range.x &&
+        position.x <= range.x + range.width &&
+        position.y >= range.y &&
+        position.y <= range.y + range.height
+      ) {
+        result.push(node.data);
+      }
+    }
+
+    if (node.children !== null) {
+      for (const child of node.children) {
+        if (child !== null) {
+          this.queryRangeRecursive(child, range, result);
+        }
+      }
+    }
+  }
+
   /**
    * Calculate repulsion force on a target node from all other nodes
    * Uses Barnes-Hut approximation for distant node clusters
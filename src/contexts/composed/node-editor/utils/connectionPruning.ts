@@ -6,13 +6,30 @@ import type { NodeDefinition } from "../../../../types/NodeDefinition";
 import { canConnectPorts } from "../../../../core/connection/validation";
 import { deriveNodePorts } from "../../../../core/node/portDerivation";
 
+/**
+ * Why a connection is invalid
+ */
+export type InvalidConnectionCode =
+  | "source-node-missing"
+  | "target-node-missing"
+  | "source-port-missing"
+  | "target-port-missing"
+  | "same-port-type"
+  | "self-connection"
+  | "type-mismatch"
+  | "rule-violation";
+
 /**
  * Result of connection validation
  */
 export type InvalidConnection = {
   connectionId: ConnectionId;
   connection: Connection;
+  /** Human-readable reason (English) */
   reason: string;
+  code: InvalidConnectionCode;
+  /** Values referenced by the reason, for localized messages */
+  params?: Record<string, string>;
 };
 
 /**
@@ -45,6 +62,8 @@ export function findInvalidConnections(
         connectionId,
         connection,
         reason: `Source node "${connection.fromNodeId}" not found`,
+        code: "source-node-missing",
+        params: { nodeId: connection.fromNodeId },
       });
       continue;
     }
@@ -54,6 +73,8 @@ export function findInvalidConnections(
         connectionId,
         connection,
         reason: `Target node "${connection.toNodeId}" not found`,
+        code: "target-node-missing",
+        params: { nodeId: connection.toNodeId },
       });
       continue;
     }
@@ -71,6 +92,8 @@ export function findInvalidConnections(
         connectionId,
         connection,
         reason: `Source port "${connection.fromPortId}" not found on node "${fromNode.type}"`,
+        code: "source-port-missing",
+        params: { portId: connection.fromPortId, nodeType: fromNode.type },
       });
       continue;
     }
@@ -80,6 +103,8 @@ export function findInvalidConnections(
         connectionId,
         connection,
         reason: `Target port "${connection.toPortId}" not found on node "${toNode.type}"`,
+        code: "target-port-missing",
+        params: { portId: connection.toPortId, nodeType: toNode.type },
       });
       continue;
     }
@@ -100,12 +125,16 @@ export function findInvalidConnections(
     if (!isValid) {
       // Determine the reason
       let reason = "Connection rule violation";
+      let code: InvalidConnectionCode = "rule-violation";
+      let params: Record<string, string> | undefined;
 
       // Check specific violations
       if (fromPort.type === toPort.type) {
         reason = "Same port type (both input or both output)";
+        code = "same-port-type";
       } else if (fromNode.id === toNode.id) {
         reason = "Self-connection not allowed";
+        code = "self-connection";
       } else {
         // Check dataType
         const fromTypes = Array.isArray(fromPort.dataType)
@@ -123,6 +152,8 @@ export function findInvalidConnections(
           const hasOverlap = fromTypes.some((t) => toTypes.includes(t));
           if (!hasOverlap) {
             reason = `Type mismatch: ${fromTypes.join("|")} → ${toTypes.join("|")}`;
+            code = "type-mismatch";
+            params = { from: fromTypes.join("|"), to: toTypes.join("|") };
           }
         }
       }
@@ -131,6 +162,8 @@ export function findInvalidConnections(
         connectionId,
         connection,
         reason,
+        code,
+        params,
       });
     }
   }
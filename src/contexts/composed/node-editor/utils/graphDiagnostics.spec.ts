@@ -0,0 +1,103 @@
+/**
+ * @file Unit tests for graph-wide diagnostics
+ */
+import type { Connection, NodeEditorData } from "../../../../types/core";
+import type { NodeDefinition } from "../../../../types/NodeDefinition";
+import { collectGraphDiagnostics } from "./graphDiagnostics";
+
+const taskDefinition: NodeDefinition = {
+  type: "task",
+  displayName: "Task",
+  ports: [
+    { id: "in", type: "input", label: "In", position: "left", required: true, dataType: "number" },
+    { id: "out", type: "output", label: "Out", position: "right", dataType: "number" },
+  ],
+};
+
+const startDefinition: NodeDefinition = {
+  type: "start",
+  displayName: "Start",
+  maxPerFlow: 1,
+  ports: [{ id: "out", type: "output", label: "Out", position: "right", dataType: "string" }],
+  constraints: [
+    {
+      id: "titled",
+      name: "Titled",
+      validate: ({ node }) =>
+        node.data.title
+          ? { isValid: true, violations: [] }
+          : { isValid: false, violations: [{ type: "titled", message: "Start needs a title", severity: "info" }] },
+    },
+  ],
+};
+
+const connect = (id: string, fromNodeId: string, toNodeId: string): Connection => ({
+  id,
+  fromNodeId,
+  fromPortId: "out",
+  toNodeId,
+  toPortId: "in",
+});
+
+describe("collectGraphDiagnostics", () => {
+  it("returns nothing for a healthy graph", () => {
+    const data: NodeEditorData = {
+      nodes: {
+        a: { id: "a", type: "task", position: { x: 0, y: 0 }, data: {} },
+        b: { id: "b", type: "task", position: { x: 200, y: 0 }, data: {} },
+        c: { id: "c", type: "task", position: { x: 400, y: 0 }, data: {} },
+      },
+      connections: { ab: connect("ab", "a", "b"), bc: connect("bc", "b", "c") },
+    };
+    const optionalInput: NodeDefinition = {
+      ...taskDefinition,
+      ports: taskDefinition.ports?.map((port) => ({ ...port, required: false })),
+    };
+
+    expect(collectGraphDiagnostics(data, [optionalInput])).toEqual([]);
+  });
+
+  it("aggregates every check sorted by severity", () => {
+    const data: NodeEditorData = {
+      nodes: {
+        s1: { id: "s1", type: "start", position: { x: 0, y: 0 }, data: { title: "Start" } },
+        s2: { id: "s2", type: "start", position: { x: 0, y: 100 }, data: {} },
+        a: { id: "a", type: "task", position: { x: 200, y: 0 }, data: { title: "A" } },
+        b: { id: "b", type: "task", position: { x: 400, y: 0 }, data: { title: "B" } },
+        c: { id: "c", type: "task", position: { x: 200, y: 200 }, data: {} },
+        d: { id: "d", type: "task", position: { x: 600, y: 0 }, data: {} },
+      },
+      connections: {
+        sc: connect("sc", "s1", "c"),
+        ab: connect("ab", "a", "b"),
+        ba: connect("ba", "b", "a"),
+      },
+    };
+
+    const diagnostics = collectGraphDiagnostics(data, [startDefinition, taskDefinition]);
+
+    expect(
+      diagnostics.map(({ type, severity, nodeIds, connectionIds }) => ({ type, severity, nodeIds, connectionIds })),
+    ).toEqual([
+      { type: "invalid-connection", severity: "error", nodeIds: ["s1", "c"], connectionIds: ["sc"] },
+      { type: "max-per-flow", severity: "error", nodeIds: ["s1", "s2"], connectionIds: undefined },
+      { type: "required-port", severity: "warning", nodeIds: ["d"], connectionIds: undefined },
+      { type: "cycle", severity: "warning", nodeIds: ["a", "b"], connectionIds: ["ab", "ba"] },
+      { type: "titled", severity: "info", nodeIds: ["s2"], connectionIds: undefined },
+    ]);
+    expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+      "Type mismatch: string → number",
+      "Start is limited to 1 per flow (found 2)",
+      'Required port "In" is not connected',
+      "Cycle through A, B",
+      "Start needs a title",
+    ]);
+    expect(diagnostics.map(({ code, params }) => ({ code, params }))).toEqual([
+      { code: "type-mismatch", params: { from: "string", to: "number" } },
+      { code: "max-per-flow", params: { node: "Start", max: 1, count: 2 } },
+      { code: "required-port", params: { port: "In" } },
+      { code: "cycle", params: { nodes: "A, B" } },
+      { code: undefined, params: undefined },
+    ]);
+  });
+});
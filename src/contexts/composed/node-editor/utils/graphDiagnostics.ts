@@ -0,0 +1,144 @@
+/**
+ * @file Graph-wide diagnostics
+ * Collects the problems of a whole document (broken connections, unconnected required ports,
+ * cycles, per-flow limit overflows and node constraint violations) into one list.
+ */
+import type { NodeEditorData } from "../../../../types/core";
+import type { ConstraintViolation, NodeDefinition } from "../../../../types/NodeDefinition";
+import { deriveNodePorts } from "../../../../core/node/portDerivation";
+import { createPortKey, getPortKey } from "../../../../core/port/identity/key";
+import { findCycles } from "../../../../core/execution/executionOrder";
+import { validateNodeConstraints } from "../../../node-definitions/utils/constraintValidation";
+import { countNodesByType } from "../../../node-definitions/utils/nodeTypeLimits";
+import { findInvalidConnections, type InvalidConnectionCode } from "./connectionPruning";
+
+/**
+ * Identifies the message of a built-in problem; invalid connections use the reason they were rejected for.
+ */
+export type GraphDiagnosticCode = InvalidConnectionCode | "required-port" | "cycle" | "max-per-flow";
+
+/**
+ * A problem found in the document.
+ * `type` is one of the built-in checks below, or the type reported by a node constraint.
+ * Built-in problems carry a `code` and `params` for localized messages; `message` is the English text.
+ */
+export type GraphDiagnostic = ConstraintViolation & {
+  /** Stable identifier of the problem, usable as a list key */
+  id: string;
+  code?: GraphDiagnosticCode;
+  params?: Record<string, string | number>;
+};
+
+export const GRAPH_DIAGNOSTIC_TYPES = {
+  invalidConnection: "invalid-connection",
+  requiredPort: "required-port",
+  cycle: "cycle",
+  maxPerFlow: "max-per-flow",
+} as const;
+
+const SEVERITY_ORDER: Record<ConstraintViolation["severity"], number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+};
+
+/**
+ * Collect every problem in the document, sorted by severity (errors first).
+ * Node constraints are evaluated as an "update" of the current state.
+ */
+export function collectGraphDiagnostics(data: NodeEditorData, nodeDefinitions: NodeDefinition[]): GraphDiagnostic[] {
+  const diagnostics: GraphDiagnostic[] = [];
+  const definitionMap = new Map(nodeDefinitions.map((def) => [def.type, def]));
+  const connectedPorts = new Set<string>();
+  Object.values(data.connections).forEach((connection) => {
+    connectedPorts.add(createPortKey(connection.fromNodeId, connection.fromPortId));
+    connectedPorts.add(createPortKey(connection.toNodeId, connection.toPortId));
+  });
+
+  findInvalidConnections(data, nodeDefinitions).forEach(({ connectionId, connection, reason, code, params }) => {
+    diagnostics.push({
+      id: `${GRAPH_DIAGNOSTIC_TYPES.invalidConnection}:${connectionId}`,
+      type: GRAPH_DIAGNOSTIC_TYPES.invalidConnection,
+      message: reason,
+      code,
+      params,
+      severity: "error",
+      nodeIds: [connection.fromNodeId, connection.toNodeId].filter((nodeId) => Boolean(data.nodes[nodeId])),
+      connectionIds: [connectionId],
+    });
+  });
+
+  Object.values(data.nodes).forEach((node) => {
+    const definition = definitionMap.get(node.type);
+    if (!definition) {
+      return;
+    }
+
+    const requiredDefinitionIds = new Set(
+      (definition.ports ?? []).filter((port) => port.required).map((port) => port.id),
+    );
+    if (requiredDefinitionIds.size > 0) {
+      deriveNodePorts(node, definition)
+        .filter((port) => requiredDefinitionIds.has(port.definitionId ?? port.id))
+        .filter((port) => !connectedPorts.has(getPortKey(port)))
+        .forEach((port) => {
+          diagnostics.push({
+            id: `${GRAPH_DIAGNOSTIC_TYPES.requiredPort}:${node.id}:${port.id}`,
+            type: GRAPH_DIAGNOSTIC_TYPES.requiredPort,
+            message: `Required port "${port.label}" is not connected`,
+            code: "required-port",
+            params: { port: port.label },
+            severity: "warning",
+            nodeIds: [node.id],
+            portIds: [port.id],
+          });
+        });
+    }
+
+    const result = validateNodeConstraints(node, definition, data.nodes, data.connections, "update");
+    result.violations.forEach((violation, index) => {
+      diagnostics.push({
+        ...violation,
+        id: `${violation.type}:${node.id}:${index}`,
+        nodeIds: violation.nodeIds ?? [node.id],
+      });
+    });
+  });
+
+  findCycles(data.nodes, data.connections).forEach((nodeIds) => {
+    const members = new Set(nodeIds);
+    const names = nodeIds.map((nodeId) => data.nodes[nodeId].data.title || nodeId);
+    diagnostics.push({
+      id: `${GRAPH_DIAGNOSTIC_TYPES.cycle}:${nodeIds.join(",")}`,
+      type: GRAPH_DIAGNOSTIC_TYPES.cycle,
+      message: `Cycle through ${names.join(", ")}`,
+      code: "cycle",
+      params: { nodes: names.join(", ") },
+      severity: "warning",
+      nodeIds,
+      connectionIds: Object.values(data.connections)
+        .filter((connection) => members.has(connection.fromNodeId) && members.has(connection.toNodeId))
+        .map((connection) => connection.id),
+    });
+  });
+
+  countNodesByType(data).forEach((count, type) => {
+    const definition = definitionMap.get(type);
+    if (typeof definition?.maxPerFlow !== "number" || count <= definition.maxPerFlow) {
+      return;
+    }
+    diagnostics.push({
+      id: `${GRAPH_DIAGNOSTIC_TYPES.maxPerFlow}:${type}`,
+      type: GRAPH_DIAGNOSTIC_TYPES.maxPerFlow,
+      message: `${definition.displayName} is limited to ${definition.maxPerFlow} per flow (found ${count})`,
+      code: "max-per-flow",
+      params: { node: definition.displayName, max: definition.maxPerFlow, count },
+      severity: "error",
+      nodeIds: Object.values(data.nodes)
+        .filter((node) => node.type === type)
+        .map((node) => node.id),
+    });
+  });
+
+  return diagnostics.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
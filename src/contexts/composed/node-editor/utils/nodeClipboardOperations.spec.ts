@@ -1,8 +1,14 @@
 /**
  * @file Unit tests for node clipboard operations
  */
-import { copyNodesToClipboard, pasteNodesFromClipboard } from "./nodeClipboardOperations";
+import {
+  copyNodesToClipboard,
+  createPasteResult,
+  pasteNodesFromClipboard,
+  readNodesFromClipboard,
+} from "./nodeClipboardOperations";
 import { clearClipboard, getClipboard, setClipboard } from "../../../../utils/clipboard";
+import { serializeClipboardPayload, type SystemClipboard } from "../../../../utils/systemClipboard";
 import type { NodeEditorData } from "../../../../types/core";
 
 describe("clipboard", () => {
@@ -135,6 +141,41 @@ describe("clipboard", () => {
 
       expect(result?.connections).toHaveLength(1);
       expect(result?.connections[0].fromNodeId).toBe("node1");
+      expect(result?.externalConnections).toEqual([
+        { fromNodeId: "node2", fromPortId: "port2", toNodeId: "node3", toPortId: "port3" },
+      ]);
+    });
+
+    it("includes group descendants with their hierarchy fields", () => {
+      const editorData: NodeEditorData = {
+        nodes: {
+          group: {
+            id: "group",
+            type: "group",
+            position: { x: 0, y: 0 },
+            data: { title: "Group" },
+            children: ["inner"],
+            expanded: true,
+          },
+          inner: {
+            id: "inner",
+            type: "group",
+            position: { x: 10, y: 10 },
+            data: {},
+            parentId: "group",
+            locked: true,
+          },
+          leaf: { id: "leaf", type: "default", position: { x: 20, y: 20 }, data: {}, parentId: "inner", order: 2 },
+        },
+        connections: {},
+      };
+
+      const result = copyNodesToClipboard(["group"], editorData);
+
+      expect(result?.nodes.map((node) => node.id)).toEqual(["group", "inner", "leaf"]);
+      expect(result?.nodes[0]).toMatchObject({ children: ["inner"], expanded: true });
+      expect(result?.nodes[1]).toMatchObject({ parentId: "group", locked: true });
+      expect(result?.nodes[2]).toMatchObject({ parentId: "inner", order: 2 });
     });
 
     it("should return null for empty selection", () => {
@@ -315,4 +356,160 @@ describe("clipboard", () => {
       expect(result?.nodes[0].data?.title).toBe(123);
     });
   });
+
+  describe("createPasteResult", () => {
+    it("places the bounding box of the pasted nodes at the given position", () => {
+      const result = createPasteResult(
+        {
+          nodes: [
+            { id: "a", type: "default", position: { x: 100, y: 200 } },
+            { id: "b", type: "default", position: { x: 150, y: 180 } },
+          ],
+          connections: [],
+        },
+        { position: { x: 0, y: 0 } },
+      );
+
+      expect(result?.nodes.map((node) => node.position)).toEqual([
+        { x: 0, y: 20 },
+        { x: 50, y: 0 },
+      ]);
+    });
+
+    it("remaps parentId and children to the pasted copies and drops references to uncopied nodes", () => {
+      const result = createPasteResult({
+        nodes: [
+          { id: "group", type: "group", position: { x: 0, y: 0 }, children: ["child", "missing"], parentId: "outer" },
+          { id: "child", type: "default", position: { x: 10, y: 10 }, parentId: "group", locked: true },
+        ],
+        connections: [],
+      });
+
+      const group = result?.nodes[0];
+      const child = result?.nodes[1];
+      expect(group?.id).toBe(result?.idMap.get("group"));
+      expect(group?.parentId).toBeUndefined();
+      expect(group?.children).toEqual([child?.id]);
+      expect(child?.parentId).toBe(group?.id);
+      expect(child?.locked).toBe(true);
+    });
+
+    it("keeps connection data and restores external connections only to existing nodes", () => {
+      const clip = {
+        nodes: [{ id: "a", type: "default", position: { x: 0, y: 0 } }],
+        connections: [],
+        externalConnections: [
+          { fromNodeId: "source", fromPortId: "out", toNodeId: "a", toPortId: "in", data: { label: "x" } },
+          { fromNodeId: "a", fromPortId: "out", toNodeId: "deleted", toPortId: "in" },
+        ],
+      };
+
+      expect(createPasteResult(clip)?.externalConnections).toEqual([]);
+
+      const result = createPasteResult(clip, { isExistingNode: (nodeId) => nodeId === "source" });
+      expect(result?.externalConnections).toEqual([
+        { fromNodeId: "source", fromPortId: "out", toNodeId: result?.idMap.get("a"), toPortId: "in", data: { label: "x" } },
+      ]);
+    });
+
+    it("moves waypoints with the pasted nodes and drops them from external connections", () => {
+      const result = createPasteResult(
+        {
+          nodes: [
+            { id: "a", type: "default", position: { x: 100, y: 100 } },
+            { id: "b", type: "default", position: { x: 300, y: 100 } },
+          ],
+          connections: [{ fromNodeId: "a", fromPortId: "out", toNodeId: "b", toPortId: "in", waypoints: [{ x: 200, y: 50 }] }],
+          externalConnections: [
+            { fromNodeId: "source", fromPortId: "out", toNodeId: "a", toPortId: "in", waypoints: [{ x: 50, y: 50 }] },
+          ],
+        },
+        { position: { x: 0, y: 0 }, isExistingNode: (nodeId) => nodeId === "source" },
+      );
+
+      expect(result?.connections[0]?.waypoints).toEqual([{ x: 100, y: -50 }]);
+      expect(result?.externalConnections[0]?.waypoints).toBeUndefined();
+    });
+
+    it("lets node definitions rewrite ids embedded in their data", () => {
+      const result = createPasteResult(
+        {
+          nodes: [
+            { id: "a", type: "default", position: { x: 0, y: 0 } },
+            { id: "ref", type: "reference", position: { x: 10, y: 0 }, data: { targetId: "a" } },
+          ],
+          connections: [],
+        },
+        {
+          getNodeDefinition: (type) =>
+            type === "reference"
+              ? {
+                  type,
+                  displayName: "Reference",
+                  onPasteRemap: ({ data, idMap }) => ({ ...data, targetId: idMap.get(String(data.targetId)) }),
+                }
+              : undefined,
+        },
+      );
+
+      expect(result?.nodes[1].data.targetId).toBe(result?.idMap.get("a"));
+    });
+  });
+
+  describe("readNodesFromClipboard", () => {
+    const createTextClipboard = (text: string): SystemClipboard => ({
+      writeText: async () => {},
+      readText: async () => text,
+    });
+
+    it("reads the versioned payload from the system clipboard and drops unknown node types", async () => {
+      const text = serializeClipboardPayload({
+        nodes: [
+          { id: "a", type: "known", position: { x: 0, y: 0 } },
+          { id: "b", type: "unknown", position: { x: 10, y: 0 } },
+        ],
+        connections: [{ fromNodeId: "a", fromPortId: "out", toNodeId: "b", toPortId: "in" }],
+      });
+
+      const result = await readNodesFromClipboard({
+        isKnownNodeType: (type) => type === "known",
+        clipboard: createTextClipboard(text),
+      });
+
+      expect(result?.nodes.map((node) => node.id)).toEqual(["a"]);
+      expect(result?.connections).toEqual([]);
+    });
+
+    it("accepts version 1 payloads without hierarchy fields", async () => {
+      const text = JSON.stringify({
+        format: "react-wireflow/nodes",
+        version: 1,
+        nodes: [{ id: "a", type: "known", position: { x: 0, y: 0 } }],
+        connections: [],
+      });
+
+      const result = await readNodesFromClipboard({ isKnownNodeType: () => true, clipboard: createTextClipboard(text) });
+
+      expect(result).toEqual({ nodes: [{ id: "a", type: "known", position: { x: 0, y: 0 } }], connections: [] });
+    });
+
+    it("ignores the in-memory clipboard when the system clipboard holds other text", async () => {
+      setClipboard({ nodes: [{ id: "a", type: "known", position: { x: 0, y: 0 } }], connections: [] });
+
+      const result = await readNodesFromClipboard({
+        isKnownNodeType: () => true,
+        clipboard: createTextClipboard("plain text"),
+      });
+
+      expect(result).toBeNull();
+    });
+
+    it("falls back to the in-memory clipboard when no system clipboard is available", async () => {
+      setClipboard({ nodes: [{ id: "a", type: "known", position: { x: 0, y: 0 } }], connections: [] });
+
+      const result = await readNodesFromClipboard({ isKnownNodeType: () => true, clipboard: null });
+
+      expect(result?.nodes).toHaveLength(1);
+    });
+  });
 });
@@ -1,13 +1,107 @@
 /**
  * @file Node clipboard operations for copy/paste functionality
  * Provides domain-specific logic for copying and pasting nodes with their connections
- * using the generic clipboard utility
+ * using the generic clipboard utility and the system clipboard
  */
-import type { NodeEditorData, NodeData, Position, Size } from "../../../../types/core";
-import { setClipboard, getClipboard, type ClipboardData } from "../../../../utils/clipboard";
+import type { Connection, Node, NodeEditorData, NodeData, NodeId, Position } from "../../../../types/core";
+import type { NodeDefinition } from "../../../../types/NodeDefinition";
+import {
+  setClipboard,
+  getClipboard,
+  type ClipboardConnection,
+  type ClipboardData,
+  type ClipboardNode,
+} from "../../../../utils/clipboard";
+import { readSystemClipboard, writeSystemClipboard, type SystemClipboard } from "../../../../utils/systemClipboard";
+import { translateConnectionWaypoints } from "../../../../core/connection/waypoints";
+
+export type PasteNodesResult = {
+  nodes: Node[];
+  /** Connections between pasted nodes */
+  connections: Array<Omit<Connection, "id">>;
+  /** Connections between pasted nodes and existing nodes (only with `isExistingNode`) */
+  externalConnections: Array<Omit<Connection, "id">>;
+  idMap: Map<string, string>;
+};
+
+export type PastePlacement = {
+  /** Canvas position for the top-left corner of the pasted nodes' bounding box */
+  position?: Position;
+  /** Offset from the copied positions, used when `position` is not given (default: 40, 40) */
+  offset?: Position;
+  /**
+   * Returns true for node ids that exist in the target editor.
+   * When given, copied connections to those nodes are restored ("paste with connections").
+   */
+  isExistingNode?: (nodeId: NodeId) => boolean;
+  /** Resolves definitions so each node's `onPasteRemap` can rewrite ids in its data */
+  getNodeDefinition?: (type: string) => NodeDefinition | undefined;
+};
+
+export type ReadNodesFromClipboardOptions = {
+  /** Returns true for node types registered in the editor; other nodes are dropped */
+  isKnownNodeType: (type: string) => boolean;
+  /** System clipboard to read from (defaults to `navigator.clipboard`) */
+  clipboard?: SystemClipboard | null;
+};
+
+const collectNodesWithDescendants = (nodeIds: string[], editorData: NodeEditorData): Set<NodeId> => {
+  const childrenByParent = new Map<NodeId, NodeId[]>();
+  Object.values(editorData.nodes).forEach((node) => {
+    if (node.parentId) {
+      const siblings = childrenByParent.get(node.parentId) ?? [];
+      siblings.push(node.id);
+      childrenByParent.set(node.parentId, siblings);
+    }
+  });
+  // Selected nodes keep their order; descendants follow their group
+  const result = new Set<NodeId>();
+  const visit = (id: NodeId) => {
+    if (result.has(id) || !editorData.nodes[id]) {
+      return;
+    }
+    result.add(id);
+    (childrenByParent.get(id) ?? []).forEach(visit);
+  };
+  nodeIds.forEach(visit);
+  return result;
+};
+
+const toClipboardNode = (node: Node): ClipboardNode => {
+  const clipNode: ClipboardNode = {
+    id: node.id,
+    type: node.type,
+    position: node.position,
+    size: node.size,
+    data: node.data,
+  };
+  (["parentId", "children", "expanded", "visible", "locked", "order"] as const).forEach((key) => {
+    if (node[key] !== undefined) {
+      Object.assign(clipNode, { [key]: node[key] });
+    }
+  });
+  return clipNode;
+};
+
+const toClipboardConnection = (connection: Connection): ClipboardConnection => {
+  const clipConnection: ClipboardConnection = {
+    fromNodeId: connection.fromNodeId,
+    fromPortId: connection.fromPortId,
+    toNodeId: connection.toNodeId,
+    toPortId: connection.toPortId,
+  };
+  if (connection.data !== undefined) {
+    clipConnection.data = connection.data;
+  }
+  if (connection.waypoints && connection.waypoints.length > 0) {
+    clipConnection.waypoints = connection.waypoints;
+  }
+  return clipConnection;
+};
 
 /**
- * Copy selected nodes to clipboard
+ * Copy selected nodes to clipboard.
+ * Group descendants are included, and connections leaving the copied set are kept as external connections.
  * @param selectedNodeIds - IDs of nodes to copy
  * @param editorData - Current editor data
  * @returns ClipboardData containing copied nodes and connections
@@ -17,97 +111,183 @@ export function copyNodesToClipboard(selectedNodeIds: string[], editorData: Node
     return null;
   }
 
-  const nodes = selectedNodeIds
+  // A copied group brings its whole subtree
+  const copiedIds = collectNodesWithDescendants(selectedNodeIds, editorData);
+  const nodes = Array.from(copiedIds)
     .map((id) => editorData.nodes[id])
     .filter(Boolean)
-    .map((n) => ({
-      id: n.id,
-      type: n.type,
-      position: n.position,
-      size: n.size,
-      data: n.data,
-    }));
-
-  const selSet = new Set(selectedNodeIds);
-  const connections = Object.values(editorData.connections)
-    .filter((c) => selSet.has(c.fromNodeId) && selSet.has(c.toNodeId))
-    .map((c) => ({
-      fromNodeId: c.fromNodeId,
-      fromPortId: c.fromPortId,
-      toNodeId: c.toNodeId,
-      toPortId: c.toPortId,
-    }));
-
-  const clipboardData = { nodes, connections };
+    .map(toClipboardNode);
+
+  const connections: ClipboardConnection[] = [];
+  const externalConnections: ClipboardConnection[] = [];
+  Object.values(editorData.connections).forEach((c) => {
+    const fromCopied = copiedIds.has(c.fromNodeId);
+    const toCopied = copiedIds.has(c.toNodeId);
+    if (fromCopied && toCopied) {
+      connections.push(toClipboardConnection(c));
+    } else if (fromCopied || toCopied) {
+      externalConnections.push(toClipboardConnection(c));
+    }
+  });
+
+  const clipboardData: ClipboardData = { nodes, connections, externalConnections };
   setClipboard(clipboardData);
+  // Mirror to the system clipboard so other tabs and editor instances can paste
+  void writeSystemClipboard(clipboardData);
   return clipboardData;
 }
 
 /**
- * Paste nodes from clipboard with new IDs and offset positions
- * @param offsetX - X offset for pasted nodes (default: 40)
- * @param offsetY - Y offset for pasted nodes (default: 40)
- * @returns Object containing new node data and connection data, or null if clipboard is empty
+ * Drop nodes whose type is not registered, together with connections that touch them.
+ * @returns Filtered data, or null if no node remains
  */
-export function pasteNodesFromClipboard(
-  offsetX = 40,
-  offsetY = 40,
-): {
-  nodes: Array<{
-    id: string;
-    type: string;
-    position: Position;
-    size?: Size;
-    data: NodeData;
-  }>;
-  connections: Array<{
-    fromNodeId: string;
-    fromPortId: string;
-    toNodeId: string;
-    toPortId: string;
-  }>;
-  idMap: Map<string, string>;
-} | null {
-  const clip = getClipboard();
-  if (!clip || clip.nodes.length === 0) {
+export function filterClipboardDataByNodeType(
+  data: ClipboardData,
+  isKnownNodeType: (type: string) => boolean,
+): ClipboardData | null {
+  const nodes = data.nodes.filter((node) => isKnownNodeType(node.type));
+  if (nodes.length === 0) {
+    return null;
+  }
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const connections = data.connections.filter((c) => nodeIds.has(c.fromNodeId) && nodeIds.has(c.toNodeId));
+  if (!data.externalConnections) {
+    return { nodes, connections };
+  }
+  // Keep external connections whose copied end survived; the other end is checked at paste time
+  const externalConnections = data.externalConnections.filter((c) => nodeIds.has(c.fromNodeId) || nodeIds.has(c.toNodeId));
+  return { nodes, connections, externalConnections };
+}
+
+/**
+ * Read copied nodes, preferring the system clipboard.
+ * Falls back to the in-memory clipboard only when the system clipboard is unavailable,
+ * so text copied elsewhere after a node copy is not mistaken for nodes.
+ */
+export async function readNodesFromClipboard(options: ReadNodesFromClipboardOptions): Promise<ClipboardData | null> {
+  const result = await readSystemClipboard(options.clipboard);
+  const data = result.available ? result.data : getClipboard();
+  if (!data) {
     return null;
   }
+  return filterClipboardDataByNodeType(data, options.isKnownNodeType);
+}
+
+/**
+ * `waypointOffset` moves the waypoints with the pasted nodes; without it they are dropped,
+ * as for connections to nodes that stay where they are.
+ */
+const remapConnection = (
+  c: ClipboardConnection,
+  resolveId: (nodeId: NodeId) => NodeId | undefined,
+  waypointOffset?: Position,
+): Omit<Connection, "id"> | null => {
+  const fromId = resolveId(c.fromNodeId);
+  const toId = resolveId(c.toNodeId);
+  if (!fromId || !toId) {
+    return null;
+  }
+  const connection: Omit<Connection, "id"> = {
+    fromNodeId: fromId,
+    fromPortId: c.fromPortId,
+    toNodeId: toId,
+    toPortId: c.toPortId,
+  };
+  if (c.data !== undefined) {
+    connection.data = { ...c.data };
+  }
+  if (c.waypoints && waypointOffset) {
+    connection.waypoints = translateConnectionWaypoints(c.waypoints, waypointOffset);
+  }
+  return connection;
+};
+
+/**
+ * Create new nodes and connections from clipboard data with fresh IDs.
+ * Group hierarchy is preserved: `parentId`/`children` point at the pasted copies,
+ * and references to nodes that were not copied are dropped.
+ * @param clip - Clipboard data to paste
+ * @param placement - Target position or offset, plus hooks for external connections and data remapping
+ */
+export function createPasteResult(clip: ClipboardData, placement: PastePlacement = {}): PasteNodesResult | null {
+  if (clip.nodes.length === 0) {
+    return null;
+  }
+
+  const delta = (() => {
+    if (!placement.position) {
+      return placement.offset ?? { x: 40, y: 40 };
+    }
+    const minX = Math.min(...clip.nodes.map((n) => n.position.x));
+    const minY = Math.min(...clip.nodes.map((n) => n.position.y));
+    return { x: placement.position.x - minX, y: placement.position.y - minY };
+  })();
 
+  // Assign every id first so parents, children and onPasteRemap see the complete mapping
   const idMap = new Map<string, string>();
+  clip.nodes.forEach((n) => {
+    idMap.set(n.id, Math.random().toString(36).slice(2, 10));
+  });
 
   // Create new nodes with new IDs and offset positions
   const nodes = clip.nodes.map((n) => {
-    const newId = Math.random().toString(36).slice(2, 10);
-    idMap.set(n.id, newId);
     const baseData = n.data || {};
-    return {
-      id: newId,
+    const node: Node = {
+      id: idMap.get(n.id) as string,
       type: n.type,
-      position: { x: n.position.x + offsetX, y: n.position.y + offsetY },
+      position: { x: n.position.x + delta.x, y: n.position.y + delta.y },
       size: n.size,
       data: {
         ...baseData,
         title: typeof baseData.title === "string" ? `${baseData.title} Copy` : baseData.title,
       } as NodeData,
     };
+    const parentId = n.parentId !== undefined ? idMap.get(n.parentId) : undefined;
+    if (parentId) {
+      node.parentId = parentId;
+    }
+    if (n.children) {
+      node.children = n.children.map((childId) => idMap.get(childId)).filter((id): id is string => id !== undefined);
+    }
+    (["expanded", "visible", "locked", "order"] as const).forEach((key) => {
+      if (n[key] !== undefined) {
+        Object.assign(node, { [key]: n[key] });
+      }
+    });
+    const onPasteRemap = placement.getNodeDefinition?.(n.type)?.onPasteRemap;
+    if (onPasteRemap) {
+      node.data = onPasteRemap({ data: node.data, node, idMap }) as NodeData;
+    }
+    return node;
   });
 
   // Recreate internal connections with new IDs
   const connections = clip.connections
-    .map((c) => {
-      const fromId = idMap.get(c.fromNodeId);
-      const toId = idMap.get(c.toNodeId);
-      if (fromId && toId) {
-        return {
-          fromNodeId: fromId,
-          fromPortId: c.fromPortId,
-          toNodeId: toId,
-          toPortId: c.toPortId,
-        };
-      }
-      return null;
-    })
+    .map((c) => remapConnection(c, (nodeId) => idMap.get(nodeId), delta))
     .filter((c): c is NonNullable<typeof c> => c !== null);
 
-  return { nodes, connections, idMap };
+  // Reconnect to nodes outside the copied set that still exist
+  const isExistingNode = placement.isExistingNode;
+  const externalConnections = isExistingNode
+    ? (clip.externalConnections ?? [])
+        .filter((c) => idMap.has(c.fromNodeId) !== idMap.has(c.toNodeId))
+        .map((c) => remapConnection(c, (nodeId) => idMap.get(nodeId) ?? (isExistingNode(nodeId) ? nodeId : undefined)))
+        .filter((c): c is NonNullable<typeof c> => c !== null)
+    : [];
+
+  return { nodes, connections, externalConnections, idMap };
+}
+
+/**
+ * Paste nodes from the in-memory clipboard with new IDs and offset positions
+ * @param offsetX - X offset for pasted nodes (default: 40)
+ * @param offsetY - Y offset for pasted nodes (default: 40)
+ * @returns Object containing new node data and connection data, or null if clipboard is empty
+ */
+export function pasteNodesFromClipboard(offsetX = 40, offsetY = 40): PasteNodesResult | null {
+  const clip = getClipboard();
+  if (!clip) {
+    return null;
+  }
+  return createPasteResult(clip, { offset: { x: offsetX, y: offsetY } });
 }
@@ -0,0 +1,168 @@
+/**
+ * @file Unit tests for collapsing selections into subflows and expanding them back.
+ */
+import type { Connection, Node, NodeEditorData } from "../../../../types/core";
+import { asNodeDefinition } from "../../../../types/NodeDefinition";
+import { StandardNodeDefinition } from "../../../../node-definitions/standard";
+import { isSubflowNodeData } from "../../../../node-definitions/subflow";
+import { collapseNodesToSubflow, expandSubflowNode } from "./subflowOperations";
+
+const createNode = (id: string, x: number, y: number, overrides: Partial<Node> = {}): Node => ({
+  id,
+  type: "standard",
+  position: { x, y },
+  size: { width: 200, height: 100 },
+  data: { title: id.toUpperCase() },
+  ...overrides,
+});
+
+const connect = (id: string, from: string, to: string): Connection => ({
+  id,
+  fromNodeId: from,
+  fromPortId: "output",
+  toNodeId: to,
+  toPortId: "input",
+});
+
+// source -> a -> b -> sink, plus source -> b
+const createState = (): NodeEditorData => ({
+  nodes: {
+    source: createNode("source", 0, 0),
+    a: createNode("a", 300, 0),
+    b: createNode("b", 600, 100),
+    sink: createNode("sink", 900, 0),
+  },
+  connections: {
+    c1: connect("c1", "source", "a"),
+    c2: connect("c2", "a", "b"),
+    c3: connect("c3", "b", "sink"),
+    c4: connect("c4", "source", "b"),
+  },
+});
+
+const nodeDefinitions = [asNodeDefinition(StandardNodeDefinition)];
+
+let idCounter = 0;
+const generateId = () => `gen-${++idCounter}`;
+
+describe("collapseNodesToSubflow", () => {
+  it("moves the selection into the nested graph and rewires boundary connections to generated ports", () => {
+    const next = collapseNodesToSubflow(createState(), ["a", "b"], { subflowId: "sf", nodeDefinitions });
+
+    expect(Object.keys(next.nodes).sort()).toEqual(["sf", "sink", "source"]);
+    const subflow = next.nodes.sf;
+    expect(subflow.position).toEqual({ x: 300, y: 0 });
+    if (!isSubflowNodeData(subflow.data)) {
+      throw new Error("expected subflow data");
+    }
+    expect(subflow.data.graph.nodes.a.position).toEqual({ x: 0, y: 0 });
+    expect(subflow.data.graph.nodes.b.position).toEqual({ x: 300, y: 100 });
+    expect(Object.keys(subflow.data.graph.connections)).toEqual(["c2"]);
+
+    // One port per distinct inner port, ordered top to bottom
+    expect(subflow.data.inputs).toEqual([
+      { id: "in-1", label: "A · Input", nodeId: "a", portId: "input" },
+      { id: "in-2", label: "B · Input", nodeId: "b", portId: "input" },
+    ]);
+    expect(subflow.data.outputs).toEqual([{ id: "out-1", label: "B · Output", nodeId: "b", portId: "output" }]);
+
+    expect(next.connections.c1).toMatchObject({ fromNodeId: "source", toNodeId: "sf", toPortId: "in-1" });
+    expect(next.connections.c4).toMatchObject({ fromNodeId: "source", toNodeId: "sf", toPortId: "in-2" });
+    expect(next.connections.c3).toMatchObject({ fromNodeId: "sf", fromPortId: "out-1", toNodeId: "sink" });
+    expect(next.connections.c2).toBeUndefined();
+  });
+
+  it("shares one port between connections that reach the same inner port", () => {
+    const state = createState();
+    state.nodes.other = createNode("other", 0, 300);
+    state.connections.c5 = connect("c5", "other", "a");
+
+    const next = collapseNodesToSubflow(state, ["a"], { subflowId: "sf", nodeDefinitions });
+    if (!isSubflowNodeData(next.nodes.sf.data)) {
+      throw new Error("expected subflow data");
+    }
+
+    expect(next.nodes.sf.data.inputs).toHaveLength(1);
+    expect(next.connections.c1.toPortId).toBe("in-1");
+    expect(next.connections.c5.toPortId).toBe("in-1");
+  });
+
+  it("takes descendants of selected groups along", () => {
+    const state = createState();
+    state.nodes.g = createNode("g", 250, -50, { type: "group" });
+    state.nodes.a = { ...state.nodes.a, parentId: "g" };
+
+    const next = collapseNodesToSubflow(state, ["g"], { subflowId: "sf", nodeDefinitions });
+    if (!isSubflowNodeData(next.nodes.sf.data)) {
+      throw new Error("expected subflow data");
+    }
+
+    expect(Object.keys(next.nodes.sf.data.graph.nodes).sort()).toEqual(["a", "g"]);
+    expect(next.nodes.sf.data.graph.nodes.a.parentId).toBe("g");
+    expect(next.nodes.a).toBeUndefined();
+  });
+
+  it("returns the state unchanged for an empty selection", () => {
+    const state = createState();
+    expect(collapseNodesToSubflow(state, ["missing"], { subflowId: "sf" })).toBe(state);
+  });
+});
+
+describe("expandSubflowNode", () => {
+  it("restores the original graph after a collapse", () => {
+    const state = createState();
+    const collapsed = collapseNodesToSubflow(state, ["a", "b"], { subflowId: "sf", nodeDefinitions });
+
+    const expanded = expandSubflowNode(collapsed, "sf", { generateId });
+
+    expect(expanded.nodes).toEqual(state.nodes);
+    expect(expanded.connections).toEqual(state.connections);
+  });
+
+  it("places inner nodes relative to the moved subflow and regenerates colliding ids", () => {
+    const collapsed = collapseNodesToSubflow(createState(), ["a", "b"], { subflowId: "sf", nodeDefinitions });
+    const moved: NodeEditorData = {
+      ...collapsed,
+      nodes: {
+        ...collapsed.nodes,
+        sf: { ...collapsed.nodes.sf, position: { x: 1000, y: 500 } },
+        // An unrelated node took the id "a" while the subflow was collapsed
+        a: createNode("a", 0, 900),
+      },
+    };
+
+    const expanded = expandSubflowNode(moved, "sf", { generateId });
+
+    expect(expanded.nodes.a.position).toEqual({ x: 0, y: 900 });
+    const restoredA = Object.values(expanded.nodes).find((node) => node.id !== "a" && node.data.title === "A");
+    expect(restoredA?.position).toEqual({ x: 1000, y: 500 });
+    expect(expanded.nodes.b.position).toEqual({ x: 1300, y: 600 });
+    expect(expanded.connections.c1).toMatchObject({ toNodeId: restoredA?.id, toPortId: "input" });
+    expect(expanded.connections.c2).toMatchObject({ fromNodeId: restoredA?.id, toNodeId: "b" });
+  });
+
+  it("drops connections to ports whose binding no longer exists", () => {
+    const collapsed = collapseNodesToSubflow(createState(), ["a", "b"], { subflowId: "sf", nodeDefinitions });
+    const data = collapsed.nodes.sf.data;
+    if (!isSubflowNodeData(data)) {
+      throw new Error("expected subflow data");
+    }
+    const { b: _removed, ...innerNodes } = data.graph.nodes;
+    const edited: NodeEditorData = {
+      ...collapsed,
+      nodes: {
+        ...collapsed.nodes,
+        sf: { ...collapsed.nodes.sf, data: { ...data, graph: { nodes: innerNodes, connections: {} } } },
+      },
+    };
+
+    const expanded = expandSubflowNode(edited, "sf", { generateId });
+
+    expect(Object.keys(expanded.connections)).toEqual(["c1"]);
+  });
+
+  it("ignores nodes that are not subflows", () => {
+    const state = createState();
+    expect(expandSubflowNode(state, "a", { generateId })).toBe(state);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * @file Subflow operations
+ * Pure helpers that collapse a selection into a subflow node and expand a subflow back
+ * into the surrounding graph. Connections crossing the selection boundary become the
+ * subflow's ports; each port remembers which inner port it forwards to.
+ */
+import type { Connection, ConnectionId, Node, NodeEditorData, NodeId } from "../../../../types/core";
+import type { NodeDefinition } from "../../../../types/NodeDefinition";
+import { deriveNodePorts } from "../../../../core/node/portDerivation";
+import { isSubflowNodeData, type SubflowNodeData, type SubflowPortBinding } from "../../../../node-definitions/subflow";
+
+export type CollapseToSubflowOptions = {
+  subflowId: NodeId;
+  /** Node type used for the created node (default: "subflow") */
+  nodeType?: string;
+  nodeDefinitions?: NodeDefinition[];
+  /** Title of the created node (default: "Subflow") */
+  title?: string;
+};
+
+export type ExpandSubflowOptions = {
+  /** Creates ids for restored nodes and connections whose ids are already taken outside */
+  generateId: () => string;
+};
+
+const SUBFLOW_MIN_WIDTH = 200;
+const SUBFLOW_MIN_HEIGHT = 100;
+const SUBFLOW_PORT_SPACING = 28;
+
+const collectWithDescendants = (state: NodeEditorData, nodeIds: readonly NodeId[]): Set<NodeId> => {
+  const collected = new Set<NodeId>();
+  const visit = (nodeId: NodeId) => {
+    if (collected.has(nodeId) || !state.nodes[nodeId]) {
+      return;
+    }
+    collected.add(nodeId);
+    Object.values(state.nodes).forEach((candidate) => {
+      if (candidate.parentId === nodeId) {
+        visit(candidate.id);
+      }
+    });
+  };
+  nodeIds.forEach(visit);
+  return collected;
+};
+
+const resolvePortLabel = (node: Node, portId: string, nodeDefinitions: NodeDefinition[]): string => {
+  const definition = nodeDefinitions.find((def) => def.type === node.type);
+  const port = definition ? deriveNodePorts(node, definition).find((candidate) => candidate.id === portId) : undefined;
+  const title = typeof node.data.title === "string" && node.data.title.trim().length > 0 ? node.data.title : node.id;
+  return `${title} · ${port?.label ?? portId}`;
+};
+
+const sortByInnerPosition =
+  (nodes: Record<NodeId, Node>) =>
+  (a: Pick<SubflowPortBinding, "nodeId">, b: Pick<SubflowPortBinding, "nodeId">): number => {
+    const nodeA = nodes[a.nodeId];
+    const nodeB = nodes[b.nodeId];
+    return nodeA.position.y - nodeB.position.y || nodeA.position.x - nodeB.position.x;
+  };
+
+/**
+ * Collapse nodes into a single subflow node.
+ * Selected groups take their descendants with them. Connections between collapsed nodes move
+ * into the nested graph; connections crossing the boundary are rewired to generated ports,
+ * one port per distinct inner port. Returns the state unchanged when nothing can be collapsed.
+ */
+export const collapseNodesToSubflow = (
+  state: NodeEditorData,
+  nodeIds: readonly NodeId[],
+  options: CollapseToSubflowOptions,
+): NodeEditorData => {
+  const { subflowId, nodeType = "subflow", nodeDefinitions = [], title = "Subflow" } = options;
+  const collapsed = collectWithDescendants(state, nodeIds);
+  if (collapsed.size === 0 || state.nodes[subflowId]) {
+    return state;
+  }
+
+  const collapsedNodes = Array.from(collapsed, (id) => state.nodes[id]);
+  const minX = Math.min(...collapsedNodes.map((node) => node.position.x));
+  const minY = Math.min(...collapsedNodes.map((node) => node.position.y));
+
+  const innerNodes: Record<NodeId, Node> = {};
+  collapsedNodes.forEach((node) => {
+    const { parentId, ...rest } = node;
+    innerNodes[node.id] = {
+      ...rest,
+      ...(parentId && collapsed.has(parentId) ? { parentId } : {}),
+      position: { x: node.position.x - minX, y: node.position.y - minY },
+    };
+  });
+
+  const innerConnections: Record<ConnectionId, Connection> = {};
+  const incomingPorts = new Map<string, Omit<SubflowPortBinding, "id">>();
+  const outgoingPorts = new Map<string, Omit<SubflowPortBinding, "id">>();
+  const portKey = (nodeId: NodeId, portId: string) => `${nodeId}\u0000${portId}`;
+  const registerPort = (ports: Map<string, Omit<SubflowPortBinding, "id">>, nodeId: NodeId, portId: string) => {
+    const key = portKey(nodeId, portId);
+    if (!ports.has(key)) {
+      ports.set(key, { label: resolvePortLabel(state.nodes[nodeId], portId, nodeDefinitions), nodeId, portId });
+    }
+  };
+
+  Object.values(state.connections).forEach((connection) => {
+    const fromInside = collapsed.has(connection.fromNodeId);
+    const toInside = collapsed.has(connection.toNodeId);
+    if (fromInside && toInside) {
+      innerConnections[connection.id] = connection;
+    } else if (toInside) {
+      registerPort(incomingPorts, connection.toNodeId, connection.toPortId);
+    } else if (fromInside) {
+      registerPort(outgoingPorts, connection.fromNodeId, connection.fromPortId);
+    }
+  });
+
+  // Number ports top-to-bottom so they line up with the inner layout
+  const toBindings = (ports: Map<string, Omit<SubflowPortBinding, "id">>, prefix: "in" | "out") =>
+    Array.from(ports.values())
+      .sort(sortByInnerPosition(state.nodes))
+      .map((port, index): SubflowPortBinding => ({ id: `${prefix}-${index + 1}`, ...port }));
+  const inputs = toBindings(incomingPorts, "in");
+  const outputs = toBindings(outgoingPorts, "out");
+  const findBinding = (bindings: SubflowPortBinding[], nodeId: NodeId, portId: string) =>
+    bindings.find((binding) => binding.nodeId === nodeId && binding.portId === portId) as SubflowPortBinding;
+
+  const outerConnections: Record<ConnectionId, Connection> = {};
+  Object.values(state.connections).forEach((connection) => {
+    const fromInside = collapsed.has(connection.fromNodeId);
+    const toInside = collapsed.has(connection.toNodeId);
+    if (fromInside && toInside) {
+      return;
+    }
+    if (toInside) {
+      const binding = findBinding(inputs, connection.toNodeId, connection.toPortId);
+      outerConnections[connection.id] = { ...connection, toNodeId: subflowId, toPortId: binding.id };
+    } else if (fromInside) {
+      const binding = findBinding(outputs, connection.fromNodeId, connection.fromPortId);
+      outerConnections[connection.id] = { ...connection, fromNodeId: subflowId, fromPortId: binding.id };
+    } else {
+      outerConnections[connection.id] = connection;
+    }
+  });
+
+  const topLevelParents = new Set(
+    nodeIds.filter((id) => collapsed.has(id)).map((id) => state.nodes[id].parentId ?? null),
+  );
+  const [sharedParentId] = topLevelParents.size === 1 ? Array.from(topLevelParents) : [null];
+
+  const data: SubflowNodeData = {
+    title,
+    graph: { nodes: innerNodes, connections: innerConnections },
+    inputs,
+    outputs,
+  };
+  const portCount = Math.max(inputs.length, outputs.length);
+  const subflowNode: Node = {
+    id: subflowId,
+    type: nodeType,
+    position: { x: minX, y: minY },
+    size: {
+      width: SUBFLOW_MIN_WIDTH,
+      height: Math.max(SUBFLOW_MIN_HEIGHT, (portCount + 1) * SUBFLOW_PORT_SPACING),
+    },
+    data,
+    ...(sharedParentId && !collapsed.has(sharedParentId) ? { parentId: sharedParentId } : {}),
+  };
+
+  const remainingNodes: Record<NodeId, Node> = {};
+  Object.values(state.nodes).forEach((node) => {
+    if (!collapsed.has(node.id)) {
+      remainingNodes[node.id] = node;
+    }
+  });
+  remainingNodes[subflowId] = subflowNode;
+
+  return { ...state, nodes: remainingNodes, connections: outerConnections };
+};
+
+/**
+ * Replace a subflow node with its nested graph.
+ * Inner nodes are placed relative to the subflow's position and connections attached to the
+ * subflow's ports are rewired to the inner ports they forward to. Connections to ports without
+ * a binding are dropped. Returns the state unchanged when the node is not a subflow.
+ */
+export const expandSubflowNode = (
+  state: NodeEditorData,
+  subflowId: NodeId,
+  options: ExpandSubflowOptions,
+): NodeEditorData => {
+  const subflow = state.nodes[subflowId];
+  if (!subflow || !isSubflowNodeData(subflow.data)) {
+    return state;
+  }
+  const { graph, inputs, outputs } = subflow.data;
+
+  const remainingNodes: Record<NodeId, Node> = {};
+  Object.values(state.nodes).forEach((node) => {
+    if (node.id !== subflowId) {
+      remainingNodes[node.id] = node;
+    }
+  });
+
+  const nodeIdMap = new Map<NodeId, NodeId>();
+  Object.keys(graph.nodes).forEach((id) => {
+    nodeIdMap.set(id, remainingNodes[id] || nodeIdMap.has(id) ? options.generateId() : id);
+  });
+
+  Object.values(graph.nodes).forEach((node) => {
+    const id = nodeIdMap.get(node.id) as NodeId;
+    const innerParentId = node.parentId ? nodeIdMap.get(node.parentId) : undefined;
+    const parentId = innerParentId ?? subflow.parentId;
+    const { parentId: _parentId, ...rest } = node;
+    remainingNodes[id] = {
+      ...rest,
+      id,
+      ...(parentId ? { parentId } : {}),
+      position: { x: node.position.x + subflow.position.x, y: node.position.y + subflow.position.y },
+    };
+  });
+
+  const connections: Record<ConnectionId, Connection> = {};
+  const addConnection = (connection: Connection) => {
+    const id = connections[connection.id] ? options.generateId() : connection.id;
+    connections[id] = { ...connection, id };
+  };
+
+  Object.values(state.connections).forEach((connection) => {
+    if (connection.fromNodeId !== subflowId && connection.toNodeId !== subflowId) {
+      connections[connection.id] = connection;
+    }
+  });
+
+  Object.values(state.connections).forEach((connection) => {
+    if (connection.fromNodeId !== subflowId && connection.toNodeId !== subflowId) {
+      return;
+    }
+    const input = connection.toNodeId === subflowId ? inputs.find((b) => b.id === connection.toPortId) : undefined;
+    const output =
+      connection.fromNodeId === subflowId ? outputs.find((b) => b.id === connection.fromPortId) : undefined;
+    const toNodeId = input ? nodeIdMap.get(input.nodeId) : connection.toNodeId;
+    const fromNodeId = output ? nodeIdMap.get(output.nodeId) : connection.fromNodeId;
+    if (!toNodeId || !fromNodeId || toNodeId === subflowId || fromNodeId === subflowId) {
+      return;
+    }
+    addConnection({
+      ...connection,
+      fromNodeId,
+      fromPortId: output ? output.portId : connection.fromPortId,
+      toNodeId,
+      toPortId: input ? input.portId : connection.toPortId,
+    });
+  });
+
+  Object.values(graph.connections).forEach((connection) => {
+    const fromNodeId = nodeIdMap.get(connection.fromNodeId);
+    const toNodeId = nodeIdMap.get(connection.toNodeId);
+    if (!fromNodeId || !toNodeId) {
+      return;
+    }
+    addConnection({ ...connection, fromNodeId, toNodeId });
+  });
+
+  return { ...state, nodes: remainingNodes, connections };
+};
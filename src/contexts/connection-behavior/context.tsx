@@ -7,8 +7,23 @@ import {
   calculateConnectionControlPointsByPortSide,
   createBezierConnectionPathModel,
   createCubicBezierPathModel,
+  createPolylinePathModel,
   createStraightPathModel,
 } from "../../core/connection/path";
+import {
+  DEFAULT_ORTHOGONAL_CORNER_RADIUS,
+  DEFAULT_ORTHOGONAL_PADDING,
+  createRoundedOrthogonalPathModel,
+  routeOrthogonalPath,
+} from "../../core/connection/orthogonal";
+import {
+  createPortSideWaypointPathModel,
+  createWaypointBezierPathModel,
+  getConnectionWaypoints,
+  routeOrthogonalPathThroughWaypoints,
+} from "../../core/connection/waypoints";
+import { getControlPointUnitVector } from "../../core/connection/controlPointRounding";
+import type { Bounds, Position } from "../../types/core";
 import type {
   ConnectionBehavior,
   ConnectionPathCalculationContext,
@@ -16,6 +31,23 @@ import type {
 } from "../../types/connectionBehavior";
 import { defaultConnectionBehavior, resolveConnectionValue } from "../../types/connectionBehavior";
 import { useNodeEditor } from "../composed/node-editor/context";
+import { createNodeObstacleIndex } from "./nodeObstacleIndex";
+
+// How far beyond the box spanned by both ports orthogonal routes look for nodes to avoid
+const ORTHOGONAL_ROUTING_REACH = 200;
+
+const getRoutingRegion = (points: readonly Position[]): Bounds => {
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    x: minX - ORTHOGONAL_ROUTING_REACH,
+    y: minY - ORTHOGONAL_ROUTING_REACH,
+    width: Math.max(...xs) - minX + ORTHOGONAL_ROUTING_REACH * 2,
+    height: Math.max(...ys) - minY + ORTHOGONAL_ROUTING_REACH * 2,
+  };
+};
 
 export type ConnectionBehaviorContextValue = {
   behavior: ConnectionBehavior;
@@ -32,7 +64,7 @@ export type ConnectionBehaviorProviderProps = {
 };
 
 export const ConnectionBehaviorProvider: React.FC<ConnectionBehaviorProviderProps> = ({ behavior, children }) => {
-  const { settings } = useNodeEditor();
+  const { settings, state } = useNodeEditor();
 
   const baseBehavior = React.useMemo<ConnectionBehavior>(() => {
     return {
@@ -60,12 +92,46 @@ export const ConnectionBehaviorProvider: React.FC<ConnectionBehaviorProviderProp
     baseBehavior.handleOffset,
   ]);
 
+  // Only track node geometry when orthogonal routing may be selected, so other algorithms
+  // keep a stable calculator while nodes move
+  const mayRouteOrthogonally =
+    mergedBehavior.path.type === "byContext" || mergedBehavior.path.value.type === "orthogonal";
+  const obstacleIndex = React.useMemo(
+    () => (mayRouteOrthogonally ? createNodeObstacleIndex(state.nodes) : null),
+    [mayRouteOrthogonally, state.nodes],
+  );
+
   const createPathModel = React.useCallback(
     (ctx: ConnectionPathCalculationContext): ConnectionPathModel => {
       const algorithm = resolveConnectionValue(mergedBehavior.path, ctx);
+      const waypoints = getConnectionWaypoints(ctx.connection);
+      // Output port, waypoints and input port; just the ports when the connection has no waypoints
+      const points: readonly Position[] = [ctx.outputPosition, ...waypoints, ctx.inputPosition];
 
       if (algorithm.type === "straight") {
-        return createStraightPathModel(ctx.outputPosition, ctx.inputPosition);
+        return waypoints.length > 0
+          ? createPolylinePathModel(points)
+          : createStraightPathModel(ctx.outputPosition, ctx.inputPosition);
+      }
+
+      if (algorithm.type === "orthogonal") {
+        const region = getRoutingRegion(points);
+        const fromSide = ctx.outputPort?.position ?? "right";
+        const toSide = ctx.inputPort?.position ?? "left";
+        const obstacles = obstacleIndex?.query(region) ?? [];
+        const padding = algorithm.padding ?? DEFAULT_ORTHOGONAL_PADDING;
+        const route =
+          waypoints.length > 0
+            ? routeOrthogonalPathThroughWaypoints({ points, fromSide, toSide, obstacles, padding })
+            : routeOrthogonalPath({
+                from: ctx.outputPosition,
+                to: ctx.inputPosition,
+                fromSide,
+                toSide,
+                obstacles,
+                padding,
+              });
+        return createRoundedOrthogonalPathModel(route, algorithm.cornerRadius ?? DEFAULT_ORTHOGONAL_CORNER_RADIUS);
       }
 
       if (algorithm.type === "custom") {
@@ -76,6 +142,22 @@ export const ConnectionBehaviorProvider: React.FC<ConnectionBehaviorProviderProp
       const handleOffset = resolveConnectionValue(mergedBehavior.handleOffset, ctx);
       const options = { offsetMin: handleOffset.min, offsetMax: handleOffset.max };
 
+      if (waypoints.length > 0) {
+        if (rounding === "port-side" && ctx.outputPort && ctx.inputPort) {
+          return createPortSideWaypointPathModel(points, ctx.outputPort.position, ctx.inputPort.position, options);
+        }
+        // Other roundings pick the port directions from the first and last legs
+        const firstLeg = { from: points[0]!, to: points[1]! };
+        const lastLeg = { from: points[points.length - 2]!, to: points[points.length - 1]! };
+        const fallbackRounding = rounding === "port-side" ? "snap-90" : rounding;
+        return createWaypointBezierPathModel(
+          points,
+          getControlPointUnitVector(firstLeg.to.x - firstLeg.from.x, firstLeg.to.y - firstLeg.from.y, fallbackRounding),
+          getControlPointUnitVector(lastLeg.to.x - lastLeg.from.x, lastLeg.to.y - lastLeg.from.y, fallbackRounding),
+          options,
+        );
+      }
+
       if (rounding === "port-side" && ctx.outputPort && ctx.inputPort) {
         const { cp1, cp2 } = calculateConnectionControlPointsByPortSide(
           ctx.outputPosition,
@@ -92,7 +174,7 @@ export const ConnectionBehaviorProvider: React.FC<ConnectionBehaviorProviderProp
         ...options,
       });
     },
-    [mergedBehavior],
+    [mergedBehavior, obstacleIndex],
   );
 
   const calculatePath = React.useCallback(
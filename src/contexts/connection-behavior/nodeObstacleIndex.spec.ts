@@ -0,0 +1,40 @@
+/**
+ * @file Unit tests for the node obstacle index
+ */
+import type { Node } from "../../types/core";
+import { createNodeObstacleIndex } from "./nodeObstacleIndex";
+
+const node = (id: string, x: number, y: number, extra: Partial<Node> = {}): Node => ({
+  id,
+  type: "task",
+  position: { x, y },
+  size: { width: 100, height: 50 },
+  data: {},
+  ...extra,
+});
+
+describe("createNodeObstacleIndex", () => {
+  it("returns the visible node boxes intersecting a region", () => {
+    const index = createNodeObstacleIndex({
+      a: node("a", 0, 0),
+      b: node("b", 500, 500),
+      hidden: node("hidden", 20, 20, { visible: false }),
+      wide: node("wide", -400, 100, { size: { width: 500, height: 20 } }),
+    });
+
+    expect(index.query({ x: 50, y: 25, width: 10, height: 100 })).toEqual(
+      expect.arrayContaining([
+        { x: 0, y: 0, width: 100, height: 50 },
+        { x: -400, y: 100, width: 500, height: 20 },
+      ]),
+    );
+    expect(index.query({ x: 50, y: 25, width: 10, height: 100 })).toHaveLength(2);
+    expect(index.query({ x: 1000, y: 1000, width: 10, height: 10 })).toEqual([]);
+  });
+
+  it("keeps nodes stacked on the same center", () => {
+    const index = createNodeObstacleIndex({ a: node("a", 0, 0), copy: node("copy", 0, 0) });
+
+    expect(index.query({ x: 0, y: 0, width: 10, height: 10 })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * @file Node obstacle index
+ * Spatial index of node bounding boxes used by orthogonal routing to find the nodes near a connection.
+ */
+import type { Bounds, Node, NodeId, Position, Size } from "../../types/core";
+import { getNodeSize } from "../../utils/boundingBoxUtils";
+import { QuadTree, calculateBounds } from "../composed/node-editor/utils/autoLayout/quadTree";
+
+export type NodeObstacleIndex = {
+  /** Bounding boxes of the visible nodes intersecting `region` */
+  query: (region: Bounds) => Bounds[];
+};
+
+const intersects = (a: Bounds, b: Bounds): boolean =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+
+/**
+ * Build an obstacle index from the editor's nodes. Hidden nodes are not obstacles.
+ */
+export const createNodeObstacleIndex = (nodes: Record<NodeId, Node>): NodeObstacleIndex => {
+  // The quadtree stores one point per leaf, so nodes sharing a center are bucketed under one entry
+  const buckets = new Map<string, Bounds[]>();
+  const centers = new Map<NodeId, Position>();
+  const sizes = new Map<NodeId, Size>();
+  const maxHalfExtent = { width: 0, height: 0 };
+
+  for (const node of Object.values(nodes)) {
+    if (node.visible === false) {
+      continue;
+    }
+    const size = getNodeSize(node);
+    const box = { x: node.position.x, y: node.position.y, width: size.width, height: size.height };
+    const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+    const key = `${center.x},${center.y}`;
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(box);
+    } else {
+      buckets.set(key, [box]);
+      centers.set(key, center);
+      sizes.set(key, size);
+    }
+    maxHalfExtent.width = Math.max(maxHalfExtent.width, size.width / 2);
+    maxHalfExtent.height = Math.max(maxHalfExtent.height, size.height / 2);
+  }
+
+  const tree = new QuadTree(calculateBounds(centers, sizes));
+  centers.forEach((center, key) => tree.insert(key, center, sizes.get(key)!));
+
+  return {
+    query: (region) => {
+      // Centers are indexed, so widen the range by the largest half extent to catch overlapping boxes
+      const range = {
+        x: region.x - maxHalfExtent.width,
+        y: region.y - maxHalfExtent.height,
+        width: region.width + maxHalfExtent.width * 2,
+        height: region.height + maxHalfExtent.height * 2,
+      };
+      return tree
+        .queryRange(range)
+        .flatMap((entry) => buckets.get(entry.id) ?? [])
+        .filter((box) => intersects(box, region));
+    },
+  };
+};
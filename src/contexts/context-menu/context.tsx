@@ -0,0 +1,81 @@
+/**
+ * @file Context menu contribution context
+ * Collects the entries contributed to node, connection and canvas context menus by the editor's
+ * `contextMenuItems` prop, by node definitions and by contributions registered at runtime.
+ */
+import * as React from "react";
+import type { ContextMenuContribution, ContextMenuEntry, ContextTarget } from "../../types/contextMenu";
+import {
+  collectContextMenuEntries,
+  createContextMenuRegistry,
+  type ContextMenuRegistry,
+} from "../../core/menu/contextMenu";
+import { useNodeDefinitions } from "../node-definitions/context";
+import { useNodeEditorSelector } from "../composed/node-editor/context";
+
+type ContextMenuContributionsValue = {
+  registry: ContextMenuRegistry;
+  contributions: readonly ContextMenuContribution[];
+};
+
+const NO_CONTRIBUTIONS: readonly ContextMenuContribution[] = [];
+
+// Used when no ContextMenuContributionProvider is mounted so the hooks can stay unconditional
+const DEFAULT_VALUE: ContextMenuContributionsValue = {
+  registry: createContextMenuRegistry(),
+  contributions: NO_CONTRIBUTIONS,
+};
+
+const ContextMenuContributionsContext = React.createContext<ContextMenuContributionsValue | null>(null);
+ContextMenuContributionsContext.displayName = "ContextMenuContributionsContext";
+
+export type ContextMenuContributionProviderProps = {
+  /** Contributions supplied by the application */
+  contributions?: readonly ContextMenuContribution[];
+  children: React.ReactNode;
+};
+
+export const ContextMenuContributionProvider: React.FC<ContextMenuContributionProviderProps> = ({
+  contributions = NO_CONTRIBUTIONS,
+  children,
+}) => {
+  const [registry] = React.useState(createContextMenuRegistry);
+  const value = React.useMemo(() => ({ registry, contributions }), [registry, contributions]);
+  return <ContextMenuContributionsContext.Provider value={value}>{children}</ContextMenuContributionsContext.Provider>;
+};
+
+const useContextMenuContributionsValue = (): ContextMenuContributionsValue =>
+  React.useContext(ContextMenuContributionsContext) ?? DEFAULT_VALUE;
+
+/**
+ * Registry for adding context menu contributions at runtime.
+ * `register` returns the function that removes the contribution again.
+ */
+export const useContextMenuRegistry = (): ContextMenuRegistry => useContextMenuContributionsValue().registry;
+
+/**
+ * Contributed entries for a menu target, before visibility checks.
+ * Node definition items come first, then the editor's `contextMenuItems`, then runtime registrations,
+ * so later sources can replace an entry by reusing its id.
+ */
+export const useContextMenuEntries = (target: ContextTarget): ContextMenuEntry[] => {
+  const { registry, contributions } = useContextMenuContributionsValue();
+  const registered = React.useSyncExternalStore(registry.subscribe, registry.getContributions);
+  const { registry: definitions } = useNodeDefinitions();
+  const nodeType = useNodeEditorSelector((state) =>
+    target.type === "node" ? state.nodes[target.id]?.type : undefined,
+  );
+
+  const definitionItems = nodeType ? definitions.get(nodeType)?.contextMenuItems : undefined;
+
+  return React.useMemo(() => {
+    const definitionContributions: ContextMenuContribution[] = definitionItems
+      ? [{ target: "node", items: definitionItems }]
+      : [];
+    return collectContextMenuEntries(
+      [...definitionContributions, ...contributions, ...registered],
+      target.type,
+      nodeType,
+    );
+  }, [definitionItems, contributions, registered, target.type, nodeType]);
+};
@@ -0,0 +1,91 @@
+/**
+ * @file Execution status context
+ * Holds the status of each node from the latest graph run. Statuses are transient UI state,
+ * so they live here instead of in `node.data`: reporting them does not touch the document,
+ * history, `onDataChange` or auto-save.
+ */
+import * as React from "react";
+import type { NodeId } from "../../types/core";
+import type { NodeExecutionStatus } from "../../core/execution/evaluate";
+import { useExternalStoreSelector } from "../../hooks/useExternalStoreSelector";
+
+export type NodeExecutionStatuses = Readonly<Record<NodeId, NodeExecutionStatus>>;
+
+export type ExecutionStatusStore = {
+  getSnapshot: () => NodeExecutionStatuses;
+  subscribe: (listener: () => void) => () => void;
+  setStatus: (nodeId: NodeId, status: NodeExecutionStatus) => void;
+  /** Forget every status, e.g. before a full re-run */
+  clear: () => void;
+};
+
+const EMPTY_STATUSES: NodeExecutionStatuses = {};
+
+// Used when no ExecutionStatusProvider is mounted so the hooks can stay unconditional
+const EMPTY_STORE: ExecutionStatusStore = {
+  getSnapshot: () => EMPTY_STATUSES,
+  subscribe: () => () => {},
+  setStatus: () => {},
+  clear: () => {},
+};
+
+/**
+ * Create a standalone status store; `ExecutionStatusProvider` creates one per editor.
+ */
+export const createExecutionStatusStore = (): ExecutionStatusStore => {
+  const listeners = new Set<() => void>();
+  const state = { statuses: EMPTY_STATUSES };
+
+  const publish = (statuses: NodeExecutionStatuses) => {
+    state.statuses = statuses;
+    Array.from(listeners).forEach((listener) => listener());
+  };
+
+  return {
+    getSnapshot: () => state.statuses,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setStatus: (nodeId, status) => {
+      if (state.statuses[nodeId] !== status) {
+        publish({ ...state.statuses, [nodeId]: status });
+      }
+    },
+    clear: () => {
+      if (Object.keys(state.statuses).length > 0) {
+        publish(EMPTY_STATUSES);
+      }
+    },
+  };
+};
+
+const ExecutionStatusContext = React.createContext<ExecutionStatusStore | null>(null);
+ExecutionStatusContext.displayName = "ExecutionStatusContext";
+
+export type ExecutionStatusProviderProps = {
+  children: React.ReactNode;
+};
+
+export const ExecutionStatusProvider: React.FC<ExecutionStatusProviderProps> = ({ children }) => {
+  const [store] = React.useState(createExecutionStatusStore);
+  return <ExecutionStatusContext.Provider value={store}>{children}</ExecutionStatusContext.Provider>;
+};
+
+/**
+ * The editor's status store, for code that reports statuses from its own runner.
+ */
+export const useExecutionStatusStore = (): ExecutionStatusStore =>
+  React.useContext(ExecutionStatusContext) ?? EMPTY_STORE;
+
+/**
+ * Status of one node from the latest run, or null when it has not run. Re-renders only when
+ * this node's status changes.
+ */
+export const useNodeExecutionStatus = (nodeId: NodeId): NodeExecutionStatus | null => {
+  const store = useExecutionStatusStore();
+  const selector = React.useCallback((statuses: NodeExecutionStatuses) => statuses[nodeId] ?? null, [nodeId]);
+  return useExternalStoreSelector(store.subscribe, store.getSnapshot, selector);
+};
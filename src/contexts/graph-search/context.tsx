@@ -0,0 +1,240 @@
+/**
+ * @file Graph search context
+ * Holds the find bar's query and the nodes matching it. Results are recomputed whenever the
+ * query or the graph changes; nodes and tree rows subscribe through selectors, so typing a query
+ * only re-renders the nodes whose highlight changes.
+ */
+import * as React from "react";
+import type { Node, NodeId } from "../../types/core";
+import { findNodesInGraph, type GraphSearchResult } from "../../core/node/graphSearch";
+import { useNodeEditorSelector } from "../composed/node-editor/context";
+import { useExternalStoreSelector } from "../../hooks/useExternalStoreSelector";
+
+/** Search options the find bar can toggle */
+export type GraphSearchToggles = {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+};
+
+export type GraphSearchSnapshot = {
+  isOpen: boolean;
+  /** Whether the replace row is shown */
+  isReplaceMode: boolean;
+  query: string;
+  toggles: GraphSearchToggles;
+  /** Matching nodes in canvas order */
+  results: readonly GraphSearchResult[];
+  /** Index of the current result; -1 until the user steps to one */
+  activeIndex: number;
+  /** Incremented every time the find bar is asked to take focus */
+  focusRequest: number;
+};
+
+/** How a node relates to the current search */
+export type GraphSearchHighlight = "active" | "match" | null;
+
+export type GraphSearchActions = {
+  /** Show the find bar (in replace mode when requested) and focus its input */
+  open: (options?: { replace?: boolean }) => void;
+  close: () => void;
+  setQuery: (query: string) => void;
+  setToggles: (toggles: Partial<GraphSearchToggles>) => void;
+  setReplaceMode: (isReplaceMode: boolean) => void;
+  /** Move to the next (1) or previous (-1) result, wrapping around; returns the new current result */
+  step: (direction: 1 | -1) => GraphSearchResult | null;
+};
+
+type GraphSearchStore = GraphSearchActions & {
+  getSnapshot: () => GraphSearchSnapshot;
+  subscribe: (listener: () => void) => () => void;
+  setNodes: (nodes: Readonly<Record<NodeId, Node>>) => void;
+};
+
+const EMPTY_RESULTS: readonly GraphSearchResult[] = [];
+
+const INITIAL_SNAPSHOT: GraphSearchSnapshot = {
+  isOpen: false,
+  isReplaceMode: false,
+  query: "",
+  toggles: { caseSensitive: false, wholeWord: false },
+  results: EMPTY_RESULTS,
+  activeIndex: -1,
+  focusRequest: 0,
+};
+
+const EMPTY_MATCHES: ReadonlyMap<NodeId, number> = new Map();
+
+const NOOP_ACTIONS: GraphSearchActions = {
+  open: () => {},
+  close: () => {},
+  setQuery: () => {},
+  setToggles: () => {},
+  setReplaceMode: () => {},
+  step: () => null,
+};
+
+// Used when no GraphSearchProvider is mounted so the hooks can stay unconditional
+const EMPTY_STORE: GraphSearchStore = {
+  ...NOOP_ACTIONS,
+  getSnapshot: () => INITIAL_SNAPSHOT,
+  subscribe: () => () => {},
+  setNodes: () => {},
+};
+
+const createGraphSearchStore = (): GraphSearchStore => {
+  const listeners = new Set<() => void>();
+  const state = { snapshot: INITIAL_SNAPSHOT, nodes: {} as Readonly<Record<NodeId, Node>> };
+
+  const publish = (snapshot: GraphSearchSnapshot) => {
+    state.snapshot = snapshot;
+    Array.from(listeners).forEach((listener) => listener());
+  };
+
+  const search = (snapshot: GraphSearchSnapshot): readonly GraphSearchResult[] =>
+    snapshot.isOpen && snapshot.query.length > 0
+      ? findNodesInGraph(state.nodes, snapshot.query, snapshot.toggles)
+      : EMPTY_RESULTS;
+
+  // A new query starts over; a graph edit keeps the current result when it still matches
+  const updateQuery = (patch: Partial<GraphSearchSnapshot>) => {
+    const next = { ...state.snapshot, ...patch };
+    publish({ ...next, results: search(next), activeIndex: -1 });
+  };
+
+  return {
+    getSnapshot: () => state.snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setNodes: (nodes) => {
+      state.nodes = nodes;
+      const current = state.snapshot;
+      if (!current.isOpen || current.query.length === 0) {
+        return;
+      }
+      const results = search(current);
+      const activeNodeId = current.results[current.activeIndex]?.nodeId;
+      const activeIndex = activeNodeId ? results.findIndex((result) => result.nodeId === activeNodeId) : -1;
+      publish({ ...current, results, activeIndex });
+    },
+    open: (options) => {
+      const current = state.snapshot;
+      const next = {
+        ...current,
+        isOpen: true,
+        isReplaceMode: options?.replace ?? current.isReplaceMode,
+        focusRequest: current.focusRequest + 1,
+      };
+      publish(current.isOpen ? next : { ...next, results: search(next), activeIndex: -1 });
+    },
+    close: () => {
+      publish({ ...state.snapshot, isOpen: false, results: EMPTY_RESULTS, activeIndex: -1 });
+    },
+    setQuery: (query) => {
+      if (query !== state.snapshot.query) {
+        updateQuery({ query });
+      }
+    },
+    setToggles: (toggles) => {
+      updateQuery({ toggles: { ...state.snapshot.toggles, ...toggles } });
+    },
+    setReplaceMode: (isReplaceMode) => {
+      publish({ ...state.snapshot, isReplaceMode });
+    },
+    step: (direction) => {
+      const current = state.snapshot;
+      const count = current.results.length;
+      if (count === 0) {
+        return null;
+      }
+      const start = current.activeIndex < 0 ? (direction === 1 ? -1 : 0) : current.activeIndex;
+      const activeIndex = (start + direction + count) % count;
+      publish({ ...current, activeIndex });
+      return current.results[activeIndex];
+    },
+  };
+};
+
+const GraphSearchContext = React.createContext<GraphSearchStore | null>(null);
+GraphSearchContext.displayName = "GraphSearchContext";
+
+export type GraphSearchProviderProps = {
+  children: React.ReactNode;
+};
+
+export const GraphSearchProvider: React.FC<GraphSearchProviderProps> = ({ children }) => {
+  const [store] = React.useState(createGraphSearchStore);
+  const nodes = useNodeEditorSelector((state) => state.nodes);
+
+  React.useEffect(() => {
+    store.setNodes(nodes);
+  }, [store, nodes]);
+
+  return <GraphSearchContext.Provider value={store}>{children}</GraphSearchContext.Provider>;
+};
+
+const useGraphSearchStore = (): GraphSearchStore => React.useContext(GraphSearchContext) ?? EMPTY_STORE;
+
+const selectSnapshot = (snapshot: GraphSearchSnapshot) => snapshot;
+
+/**
+ * Full search state for the find bar. Re-renders on every query and result change.
+ */
+export const useGraphSearchState = (): GraphSearchSnapshot => {
+  const store = useGraphSearchStore();
+  return useExternalStoreSelector(store.subscribe, store.getSnapshot, selectSnapshot);
+};
+
+/**
+ * Stable actions for opening the find bar and stepping through results.
+ */
+export const useGraphSearchActions = (): GraphSearchActions => {
+  const store = useGraphSearchStore();
+  return React.useMemo(
+    () => ({
+      open: store.open,
+      close: store.close,
+      setQuery: store.setQuery,
+      setToggles: store.setToggles,
+      setReplaceMode: store.setReplaceMode,
+      step: store.step,
+    }),
+    [store],
+  );
+};
+
+const matchIndexCache = new WeakMap<readonly GraphSearchResult[], ReadonlyMap<NodeId, number>>();
+
+const getMatchIndex = (results: readonly GraphSearchResult[]): ReadonlyMap<NodeId, number> => {
+  if (results.length === 0) {
+    return EMPTY_MATCHES;
+  }
+  const cached = matchIndexCache.get(results);
+  if (cached) {
+    return cached;
+  }
+  const index = new Map(results.map((result, position) => [result.nodeId, position]));
+  matchIndexCache.set(results, index);
+  return index;
+};
+
+/**
+ * How a node relates to the current search: the current result, another match, or neither.
+ */
+export const useGraphSearchHighlight = (nodeId: NodeId): GraphSearchHighlight => {
+  const store = useGraphSearchStore();
+  const selector = React.useCallback(
+    (snapshot: GraphSearchSnapshot): GraphSearchHighlight => {
+      const position = getMatchIndex(snapshot.results).get(nodeId);
+      if (position === undefined) {
+        return null;
+      }
+      return position === snapshot.activeIndex ? "active" : "match";
+    },
+    [nodeId],
+  );
+  return useExternalStoreSelector(store.subscribe, store.getSnapshot, selector);
+};
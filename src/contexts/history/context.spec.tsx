@@ -0,0 +1,169 @@
+/**
+ * @file Tests for HistoryProvider - patch-based recording, coalescing and undo/redo
+ */
+import { renderHook, act } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { NodeEditorProvider } from "../composed/node-editor/provider";
+import { useNodeEditorApi } from "../composed/node-editor/context";
+import { NodeDefinitionProvider } from "../node-definitions/provider";
+import { asNodeDefinition } from "../../types/NodeDefinition";
+import type { NodeEditorData } from "../../types/core";
+import { StandardNodeDefinition } from "../../node-definitions/standard";
+import { HistoryProvider, defaultHistoryState, historyActions, historyReducer, useHistory } from "./context";
+
+const makeData = (): NodeEditorData => ({
+  nodes: {
+    n1: { id: "n1", type: "standard", position: { x: 0, y: 0 }, data: { title: "Node 1" } },
+  },
+  connections: {},
+});
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <NodeDefinitionProvider nodeDefinitions={[asNodeDefinition(StandardNodeDefinition)]}>
+    <NodeEditorProvider initialState={makeData()}>
+      <HistoryProvider>{children}</HistoryProvider>
+    </NodeEditorProvider>
+  </NodeDefinitionProvider>
+);
+
+const useHarness = () => ({ history: useHistory(), api: useNodeEditorApi() });
+
+describe("HistoryProvider", () => {
+  it("records edits as patches and restores them on undo/redo", () => {
+    const { result } = renderHook(useHarness, { wrapper });
+
+    act(() => {
+      result.current.api.actions.updateNode("n1", { data: { title: "Renamed" } });
+    });
+    expect(result.current.history.state.entries).toHaveLength(1);
+    expect(result.current.history.state.entries[0].patches).toEqual([
+      {
+        type: "node-updated",
+        nodeId: "n1",
+        before: { data: { title: "Node 1" } },
+        after: { data: { title: "Renamed" } },
+      },
+    ]);
+    expect(result.current.history.canUndo).toBe(true);
+
+    act(() => {
+      result.current.history.undo();
+    });
+    expect(result.current.api.getState().nodes.n1.data.title).toBe("Node 1");
+    expect(result.current.history.canUndo).toBe(false);
+    expect(result.current.history.state.entries).toHaveLength(1);
+
+    act(() => {
+      result.current.history.redo();
+    });
+    expect(result.current.api.getState().nodes.n1.data.title).toBe("Renamed");
+    expect(result.current.history.state.entries).toHaveLength(1);
+  });
+
+  it("coalesces consecutive moves into one entry", () => {
+    const { result } = renderHook(useHarness, { wrapper });
+
+    act(() => {
+      result.current.api.actions.moveNodes({ n1: { x: 10, y: 0 } });
+      result.current.api.actions.moveNodes({ n1: { x: 20, y: 0 } });
+      result.current.api.actions.moveNode("n1", { x: 30, y: 5 });
+    });
+    expect(result.current.history.state.entries).toHaveLength(1);
+
+    act(() => {
+      result.current.history.undo();
+    });
+    expect(result.current.api.getState().nodes.n1.position).toEqual({ x: 0, y: 0 });
+  });
+
+  it("keeps moves of different nodes as separate entries", () => {
+    const { result } = renderHook(useHarness, { wrapper });
+
+    act(() => {
+      result.current.api.actions.addNodeWithId({ id: "n2", type: "standard", position: { x: 100, y: 0 }, data: {} });
+    });
+    act(() => {
+      result.current.api.actions.moveNodes({ n1: { x: 10, y: 0 } });
+      result.current.api.actions.moveNodes({ n2: { x: 110, y: 0 } });
+    });
+    expect(result.current.history.state.entries).toHaveLength(3);
+
+    act(() => {
+      result.current.history.undo();
+    });
+    expect(result.current.api.getState().nodes.n1.position).toEqual({ x: 10, y: 0 });
+    expect(result.current.api.getState().nodes.n2.position).toEqual({ x: 100, y: 0 });
+  });
+
+  it("merges the group membership update that follows a move", () => {
+    const { result } = renderHook(useHarness, { wrapper });
+
+    act(() => {
+      result.current.api.actions.moveNodes({ n1: { x: 10, y: 0 } });
+      result.current.api.actions.updateGroupMembership({ n1: { parentId: "g1" } });
+    });
+    expect(result.current.api.getState().nodes.n1.parentId).toBe("g1");
+    expect(result.current.history.state.entries).toHaveLength(1);
+  });
+
+  it("records a transaction as one labelled entry", () => {
+    const { result } = renderHook(useHarness, { wrapper });
+
+    act(() => {
+      result.current.api.transaction("Insert node", () => {
+        result.current.api.actions.addNodeWithId({ id: "n2", type: "standard", position: { x: 100, y: 0 }, data: {} });
+        result.current.api.actions.updateNode("n1", { data: { title: "Updated" } });
+      });
+    });
+    expect(result.current.history.state.entries.map((entry) => entry.action)).toEqual(["Insert node"]);
+
+    act(() => {
+      result.current.history.undo();
+    });
+    expect(result.current.api.getState()).toEqual(makeData());
+  });
+
+  it("discards the redo branch when a new edit is recorded", () => {
+    const { result } = renderHook(useHarness, { wrapper });
+
+    act(() => {
+      result.current.api.actions.updateNode("n1", { data: { title: "First" } });
+      result.current.api.actions.updateNode("n1", { data: { title: "Second" } });
+    });
+    act(() => {
+      result.current.history.undo();
+    });
+    act(() => {
+      result.current.api.actions.updateNode("n1", { data: { title: "Third" } });
+    });
+    expect(result.current.history.state.entries).toHaveLength(2);
+    expect(result.current.history.canRedo).toBe(false);
+  });
+});
+
+describe("historyReducer", () => {
+  const movePatch = { type: "node-moved" as const, nodeId: "n1", from: { x: 0, y: 0 }, to: { x: 1, y: 0 } };
+
+  it("does not coalesce entries outside the time window", () => {
+    const first = historyReducer(
+      defaultHistoryState,
+      historyActions.pushEntry("MOVE_NODES", [movePatch], { coalesceKey: "move", timestamp: 0 }),
+    );
+    const second = historyReducer(
+      first,
+      historyActions.pushEntry("MOVE_NODES", [movePatch], { coalesceKey: "move", timestamp: 5000 }),
+    );
+    expect(second.entries).toHaveLength(2);
+  });
+
+  it("keeps currentIndex pointing at the same entry when trimming", () => {
+    const state = [0, 1, 2, 3].reduce(
+      (acc, index) => historyReducer(acc, historyActions.pushEntry(`A${index}`, [movePatch], { timestamp: index })),
+      defaultHistoryState,
+    );
+    const undone = historyReducer(state, historyActions.undo());
+    const trimmed = historyReducer(undone, historyActions.setMaxEntries(2));
+    expect(trimmed.entries.map((entry) => entry.action)).toEqual(["A2", "A3"]);
+    expect(trimmed.entries[trimmed.currentIndex].action).toBe("A2");
+  });
+});
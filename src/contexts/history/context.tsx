@@ -1,27 +1,59 @@
 /**
- * @file Context for managing undo/redo history with editor state snapshots
+ * @file Context for managing undo/redo history with reversible editor state patches
  */
 import * as React from "react";
 import { bindActionCreators, createAction, createActionHandlerMap, type ActionUnion, type BoundActionCreators } from "../../utils/typedActions";
-import type { NodeEditorData } from "../../types/core";
+import { NodeEditorApiContext } from "../composed/node-editor/context";
+import type { NodeEditorAction } from "../composed/node-editor/actions";
+import type { NodeId } from "../../types/core";
+import {
+  applyHistoryPatches,
+  diffNodeEditorData,
+  invertHistoryPatches,
+  mergeHistoryPatches,
+  type HistoryPatch,
+} from "./utils/historyPatches";
+
+export type { HistoryPatch };
 
 // History types
 export type HistoryEntry = {
   id: string;
   timestamp: number;
   action: string;
-  data: NodeEditorData;
+  /** Patches that redo this entry; their inverse undoes it */
+  patches: HistoryPatch[];
+  /** Consecutive entries sharing this key within the coalescing window are merged */
+  coalesceKey?: string;
 };
 
 export type HistoryState = {
   entries: HistoryEntry[];
+  /** Index of the last applied entry, -1 when everything is undone */
   currentIndex: number;
   maxEntries: number;
   isRecording: boolean;
 };
 
+export type PushHistoryEntryOptions = {
+  coalesceKey?: string;
+  timestamp?: number;
+};
+
+/** Maximum gap between two entries that may be coalesced into one */
+export const HISTORY_COALESCE_WINDOW_MS = 1000;
+
 export const historyActions = {
-  pushEntry: createAction("PUSH_ENTRY", (action: string, data: NodeEditorData) => ({ action, data })),
+  pushEntry: createAction("PUSH_ENTRY", (action: string, patches: HistoryPatch[], options?: PushHistoryEntryOptions) => {
+    const timestamp = options?.timestamp ?? Date.now();
+    return {
+      id: `${timestamp}-${Math.random().toString(36).substr(2, 9)}`,
+      action,
+      patches,
+      coalesceKey: options?.coalesceKey,
+      timestamp,
+    };
+  }),
   undo: createAction("UNDO"),
   redo: createAction("REDO"),
   clearHistory: createAction("CLEAR_HISTORY"),
@@ -39,21 +71,54 @@ export const defaultHistoryState: HistoryState = {
   isRecording: true,
 };
 
+// Moves are keyed by the nodes they move, so separate moves of different nodes stay separate steps
+const MOVE_COALESCE_PREFIX = "move:";
+// Group membership updates that follow a move join it, whichever nodes it moved
+const GROUP_MEMBERSHIP_COALESCE_KEY = "group-membership";
+
+const canCoalesce = (previous: HistoryEntry | undefined, coalesceKey: string | undefined, timestamp: number) => {
+  if (!previous?.coalesceKey || !coalesceKey || timestamp - previous.timestamp > HISTORY_COALESCE_WINDOW_MS) {
+    return false;
+  }
+  return (
+    previous.coalesceKey === coalesceKey ||
+    (coalesceKey === GROUP_MEMBERSHIP_COALESCE_KEY && previous.coalesceKey.startsWith(MOVE_COALESCE_PREFIX))
+  );
+};
+
 const historyHandlers = createActionHandlerMap<HistoryState, typeof historyActions>(historyActions, {
   pushEntry: (state, action) => {
-    if (!state.isRecording) {
+    const { id, action: actionName, patches, coalesceKey, timestamp } = action.payload;
+    if (!state.isRecording || patches.length === 0) {
       return state;
     }
-    const { action: actionName, data } = action.payload;
+    const truncatedEntries = state.entries.slice(0, state.currentIndex + 1);
+    const lastEntry = truncatedEntries[truncatedEntries.length - 1];
+    // Only merge into the tip; an entry that was undone is discarded instead
+    const isTip = state.currentIndex === state.entries.length - 1;
+
+    if (isTip && canCoalesce(lastEntry, coalesceKey, timestamp)) {
+      const mergedEntry: HistoryEntry = {
+        ...lastEntry,
+        timestamp,
+        patches: mergeHistoryPatches(lastEntry.patches, patches),
+      };
+      const entries = [...truncatedEntries.slice(0, -1), ...(mergedEntry.patches.length > 0 ? [mergedEntry] : [])];
+      return {
+        ...state,
+        entries,
+        currentIndex: entries.length - 1,
+      };
+    }
+
     const newEntry: HistoryEntry = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: Date.now(),
+      id,
+      timestamp,
       action: actionName,
-      data: JSON.parse(JSON.stringify(data)), // Deep clone to preserve snapshot
+      patches,
+      coalesceKey,
     };
-    const truncatedEntries = state.entries.slice(0, state.currentIndex + 1);
-    const newEntries = [...truncatedEntries, newEntry];
-    const limitedEntries = newEntries.slice(-state.maxEntries);
+    const limitedEntries = [...truncatedEntries, newEntry].slice(-state.maxEntries);
     return {
       ...state,
       entries: limitedEntries,
@@ -61,7 +126,7 @@ const historyHandlers = createActionHandlerMap<HistoryState, typeof historyActio
     };
   },
   undo: (state) => {
-    if (state.currentIndex <= 0) {
+    if (state.currentIndex < 0) {
       return state;
     }
     return {
@@ -90,11 +155,12 @@ const historyHandlers = createActionHandlerMap<HistoryState, typeof historyActio
   setMaxEntries: (state, action) => {
     const { maxEntries } = action.payload;
     const limitedEntries = state.entries.slice(-maxEntries);
+    const droppedCount = state.entries.length - limitedEntries.length;
     return {
       ...state,
       maxEntries,
       entries: limitedEntries,
-      currentIndex: Math.min(state.currentIndex, limitedEntries.length - 1),
+      currentIndex: Math.max(state.currentIndex - droppedCount, -1),
     };
   },
 });
@@ -108,13 +174,38 @@ export const historyReducer = (state: HistoryState, action: HistoryAction): Hist
   return handler(state, action, undefined);
 };
 
+const getMoveCoalesceKey = (nodeIds: readonly NodeId[]): string =>
+  `${MOVE_COALESCE_PREFIX}${[...nodeIds].sort().join(",")}`;
+
+/**
+ * Coalescing key for editor actions that should merge into a single history entry.
+ * Repeated moves of the same set of nodes within the coalescing window (e.g. arrow-key nudges)
+ * become one undo step, together with the group membership update that follows them.
+ */
+export const getHistoryCoalesceKey = (action: NodeEditorAction): string | undefined => {
+  switch (action.type) {
+    case "MOVE_NODE":
+      return getMoveCoalesceKey([action.payload.nodeId]);
+    case "MOVE_NODES":
+      return getMoveCoalesceKey(Object.keys(action.payload.updates));
+    case "MOVE_GROUP_WITH_CHILDREN":
+      return getMoveCoalesceKey([action.payload.groupId, ...action.payload.affectedNodeIds]);
+    case "UPDATE_GROUP_MEMBERSHIP":
+      return GROUP_MEMBERSHIP_COALESCE_KEY;
+    default:
+      return undefined;
+  }
+};
+
 // Context types
 export type HistoryActionsValue = {
   dispatch: React.Dispatch<HistoryAction>;
   actions: BoundActionCreators<typeof historyActions>;
   actionCreators: typeof historyActions;
-  pushEntry: (action: string, data: NodeEditorData) => void;
+  pushEntry: (action: string, patches: HistoryPatch[], options?: PushHistoryEntryOptions) => void;
+  /** Revert the current entry in the node editor; returns the reverted entry */
   undo: () => HistoryEntry | null;
+  /** Re-apply the next entry in the node editor; returns the applied entry */
   redo: () => HistoryEntry | null;
 };
 
@@ -145,12 +236,22 @@ export type HistoryProviderProps = {
 };
 
 export const HistoryProvider: React.FC<HistoryProviderProps> = ({ children, initialState, maxEntries }) => {
-  const [state, dispatch] = React.useReducer(historyReducer, { ...defaultHistoryState, ...initialState });
-  const boundActions = React.useMemo(() => bindActionCreators(historyActions, dispatch), [dispatch]);
+  const [state, dispatchToReducer] = React.useReducer(historyReducer, { ...defaultHistoryState, ...initialState });
+  // Optional so the provider can be used standalone (e.g. in inspector demos)
+  const editorApi = React.useContext(NodeEditorApiContext);
 
   // Use ref to provide stable undo/redo functions that always read latest state
   const stateRef = React.useRef(state);
   stateRef.current = state;
+  // Set while undo/redo writes to the editor so the change is not recorded again
+  const applyingRef = React.useRef(false);
+
+  // Keep the ref in sync synchronously so consecutive undo/redo calls in one tick see each other
+  const dispatch = React.useCallback((action: HistoryAction) => {
+    stateRef.current = historyReducer(stateRef.current, action);
+    dispatchToReducer(action);
+  }, []);
+  const boundActions = React.useMemo(() => bindActionCreators(historyActions, dispatch), [dispatch]);
 
   // Apply maxEntries changes via reducer to avoid re-initialization patterns
   React.useEffect(() => {
@@ -159,35 +260,68 @@ export const HistoryProvider: React.FC<HistoryProviderProps> = ({ children, init
     }
   }, [maxEntries, boundActions]);
 
+  // Record every editor change as the patches between the previous and next state
+  React.useEffect(() => {
+    if (!editorApi) {
+      return;
+    }
+    let previousData = editorApi.getState();
+    return editorApi.subscribeToChanges((change) => {
+      const nextData = editorApi.getState();
+      const patches = diffNodeEditorData(previousData, nextData);
+      previousData = nextData;
+      // External changes (controlled data, remote collaborators) only move the baseline
+      if (applyingRef.current || change.external || patches.length === 0) {
+        return;
+      }
+      const label = change.action.type === "COMMIT_TRANSACTION" ? change.action.payload.label : change.action.type;
+      boundActions.pushEntry(label, patches, { coalesceKey: getHistoryCoalesceKey(change.action) });
+    });
+  }, [editorApi, boundActions]);
+
   // Computed values
-  const canUndo = state.currentIndex > 0;
+  const canUndo = state.currentIndex >= 0;
   const canRedo = state.currentIndex < state.entries.length - 1;
   const currentEntry = state.currentIndex >= 0 ? state.entries[state.currentIndex] : null;
 
   // Stable actions value - uses ref to access latest state
   const actionsValue = React.useMemo<HistoryActionsValue>(() => {
-    const pushEntry = (action: string, data: NodeEditorData): void => {
-      boundActions.pushEntry(action, data);
+    const pushEntry = (action: string, patches: HistoryPatch[], options?: PushHistoryEntryOptions): void => {
+      boundActions.pushEntry(action, patches, options);
+    };
+
+    const applyToEditor = (patches: HistoryPatch[]): void => {
+      if (!editorApi) {
+        return;
+      }
+      applyingRef.current = true;
+      try {
+        editorApi.actions.restoreState(applyHistoryPatches(editorApi.getState(), patches));
+      } finally {
+        applyingRef.current = false;
+      }
     };
 
     const undo = (): HistoryEntry | null => {
       const currentState = stateRef.current;
-      if (currentState.currentIndex <= 0) {
+      const entry = currentState.entries[currentState.currentIndex];
+      if (!entry) {
         return null;
       }
-      const previousEntry = currentState.entries[currentState.currentIndex - 1];
+      applyToEditor(invertHistoryPatches(entry.patches));
       boundActions.undo();
-      return previousEntry || null;
+      return entry;
     };
 
     const redo = (): HistoryEntry | null => {
       const currentState = stateRef.current;
-      if (currentState.currentIndex >= currentState.entries.length - 1) {
+      const entry = currentState.entries[currentState.currentIndex + 1];
+      if (!entry) {
         return null;
       }
-      const nextEntry = currentState.entries[currentState.currentIndex + 1];
+      applyToEditor(entry.patches);
       boundActions.redo();
-      return nextEntry || null;
+      return entry;
     };
 
     return {
@@ -198,7 +332,7 @@ export const HistoryProvider: React.FC<HistoryProviderProps> = ({ children, init
       undo,
       redo,
     };
-  }, [dispatch, boundActions]);
+  }, [dispatch, boundActions, editorApi]);
 
   // Combined context value for backward compatibility
   const contextValue = React.useMemo<HistoryContextValue>(
@@ -0,0 +1,108 @@
+/**
+ * @file Unit tests for reversible history patches
+ */
+import type { NodeEditorData } from "../../../types/core";
+import {
+  applyHistoryPatches,
+  diffNodeEditorData,
+  invertHistoryPatches,
+  mergeHistoryPatches,
+} from "./historyPatches";
+
+const mkData = (): NodeEditorData => ({
+  nodes: {
+    a: { id: "a", type: "standard", position: { x: 0, y: 0 }, data: { title: "A" } },
+    b: { id: "b", type: "standard", position: { x: 100, y: 0 }, data: { title: "B" } },
+  },
+  connections: {
+    c1: { id: "c1", fromNodeId: "a", fromPortId: "out", toNodeId: "b", toPortId: "in" },
+  },
+});
+
+describe("diffNodeEditorData", () => {
+  it("returns no patches for identical references", () => {
+    const data = mkData();
+    expect(diffNodeEditorData(data, data)).toEqual([]);
+  });
+
+  it("describes a position-only change as a move", () => {
+    const data = mkData();
+    const next = { ...data, nodes: { ...data.nodes, a: { ...data.nodes.a, position: { x: 5, y: 6 } } } };
+    expect(diffNodeEditorData(data, next)).toEqual([
+      { type: "node-moved", nodeId: "a", from: { x: 0, y: 0 }, to: { x: 5, y: 6 } },
+    ]);
+  });
+
+  it("stores only the changed fields of an updated node", () => {
+    const data = mkData();
+    const next = {
+      ...data,
+      nodes: { ...data.nodes, b: { ...data.nodes.b, data: { title: "B2" }, locked: true } },
+    };
+    expect(diffNodeEditorData(data, next)).toEqual([
+      {
+        type: "node-updated",
+        nodeId: "b",
+        before: { data: { title: "B" }, locked: undefined },
+        after: { data: { title: "B2" }, locked: true },
+      },
+    ]);
+  });
+
+  it("detects added and removed nodes and connections", () => {
+    const data = mkData();
+    const { b: removedNode, ...nodes } = data.nodes;
+    const next: NodeEditorData = {
+      nodes: { ...nodes, c: { id: "c", type: "standard", position: { x: 0, y: 50 }, data: {} } },
+      connections: {},
+    };
+    const patches = diffNodeEditorData(data, next);
+    expect(patches).toContainEqual({ type: "node-removed", node: removedNode });
+    expect(patches).toContainEqual({ type: "node-added", node: next.nodes.c });
+    expect(patches).toContainEqual({ type: "connection-removed", connection: data.connections.c1 });
+  });
+});
+
+describe("applyHistoryPatches / invertHistoryPatches", () => {
+  it("round-trips a change forward and backward", () => {
+    const data = mkData();
+    const { c1: _removed, ...connections } = data.connections;
+    const next: NodeEditorData = {
+      nodes: {
+        ...data.nodes,
+        a: { ...data.nodes.a, position: { x: 20, y: 30 } },
+        b: { ...data.nodes.b, data: { title: "Renamed" }, locked: true },
+      },
+      connections,
+    };
+    const patches = diffNodeEditorData(data, next);
+
+    expect(applyHistoryPatches(data, patches)).toEqual(next);
+    expect(applyHistoryPatches(next, invertHistoryPatches(patches))).toEqual(data);
+  });
+
+  it("removes keys that did not exist before when undoing", () => {
+    const data = mkData();
+    const next = { ...data, nodes: { ...data.nodes, a: { ...data.nodes.a, locked: true } } };
+    const undone = applyHistoryPatches(next, invertHistoryPatches(diffNodeEditorData(data, next)));
+    expect("locked" in undone.nodes.a).toBe(false);
+  });
+});
+
+describe("mergeHistoryPatches", () => {
+  it("collapses consecutive moves of the same node", () => {
+    const merged = mergeHistoryPatches(
+      [{ type: "node-moved", nodeId: "a", from: { x: 0, y: 0 }, to: { x: 10, y: 0 } }],
+      [{ type: "node-moved", nodeId: "a", from: { x: 10, y: 0 }, to: { x: 25, y: 5 } }],
+    );
+    expect(merged).toEqual([{ type: "node-moved", nodeId: "a", from: { x: 0, y: 0 }, to: { x: 25, y: 5 } }]);
+  });
+
+  it("drops moves that end where they started", () => {
+    const merged = mergeHistoryPatches(
+      [{ type: "node-moved", nodeId: "a", from: { x: 0, y: 0 }, to: { x: 10, y: 0 } }],
+      [{ type: "node-moved", nodeId: "a", from: { x: 10, y: 0 }, to: { x: 0, y: 0 } }],
+    );
+    expect(merged).toEqual([]);
+  });
+});
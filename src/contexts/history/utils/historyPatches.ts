@@ -0,0 +1,232 @@
+/**
+ * @file Reversible patches for undo/redo history
+ * History entries store the minimal difference between two editor states instead of full snapshots.
+ */
+import type { Connection, ConnectionId, Node, NodeEditorData, NodeId, Position } from "../../../types/core";
+
+export type HistoryPatch =
+  | { type: "node-added"; node: Node }
+  | { type: "node-removed"; node: Node }
+  | { type: "node-moved"; nodeId: NodeId; from: Position; to: Position }
+  | { type: "node-updated"; nodeId: NodeId; before: Partial<Node>; after: Partial<Node> }
+  | { type: "connection-added"; connection: Connection }
+  | { type: "connection-removed"; connection: Connection }
+  | { type: "connection-updated"; connectionId: ConnectionId; before: Connection; after: Connection };
+
+const hasOwn = (target: object, key: string): boolean => Object.prototype.hasOwnProperty.call(target, key);
+
+const arePositionsEqual = (a: Position, b: Position): boolean => a.x === b.x && a.y === b.y;
+
+const diffNode = (previous: Node, next: Node): HistoryPatch | null => {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<keyof Node>;
+  const before: Partial<Node> = {};
+  const after: Partial<Node> = {};
+  let onlyPosition = true;
+  let changed = false;
+
+  keys.forEach((key) => {
+    const prevValue = previous[key];
+    const nextValue = next[key];
+    if (prevValue === nextValue) {
+      return;
+    }
+    if (key === "position" && arePositionsEqual(previous.position, next.position)) {
+      return;
+    }
+    changed = true;
+    if (key !== "position") {
+      onlyPosition = false;
+    }
+    Object.assign(before, { [key]: prevValue });
+    Object.assign(after, { [key]: nextValue });
+  });
+
+  if (!changed) {
+    return null;
+  }
+  if (onlyPosition) {
+    return { type: "node-moved", nodeId: next.id, from: previous.position, to: next.position };
+  }
+  return { type: "node-updated", nodeId: next.id, before, after };
+};
+
+/**
+ * Compute the patches that transform `previous` into `next`.
+ * Unchanged nodes and connections are detected by reference, so the cost is proportional to the graph size
+ * while the stored result is proportional to the change.
+ */
+export const diffNodeEditorData = (
+  previous: NodeEditorData,
+  next: NodeEditorData,
+): HistoryPatch[] => {
+  if (previous === next) {
+    return [];
+  }
+  const patches: HistoryPatch[] = [];
+
+  if (previous.nodes !== next.nodes) {
+    const nodeIds = new Set([...Object.keys(previous.nodes), ...Object.keys(next.nodes)]);
+    nodeIds.forEach((nodeId) => {
+      const prevNode = previous.nodes[nodeId];
+      const nextNode = next.nodes[nodeId];
+      if (prevNode === nextNode) {
+        return;
+      }
+      if (!prevNode && nextNode) {
+        patches.push({ type: "node-added", node: nextNode });
+        return;
+      }
+      if (prevNode && !nextNode) {
+        patches.push({ type: "node-removed", node: prevNode });
+        return;
+      }
+      const patch = diffNode(prevNode, nextNode);
+      if (patch) {
+        patches.push(patch);
+      }
+    });
+  }
+
+  if (previous.connections !== next.connections) {
+    const connectionIds = new Set([...Object.keys(previous.connections), ...Object.keys(next.connections)]);
+    connectionIds.forEach((connectionId) => {
+      const prevConnection = previous.connections[connectionId];
+      const nextConnection = next.connections[connectionId];
+      if (prevConnection === nextConnection) {
+        return;
+      }
+      if (!prevConnection && nextConnection) {
+        patches.push({ type: "connection-added", connection: nextConnection });
+        return;
+      }
+      if (prevConnection && !nextConnection) {
+        patches.push({ type: "connection-removed", connection: prevConnection });
+        return;
+      }
+      patches.push({ type: "connection-updated", connectionId, before: prevConnection, after: nextConnection });
+    });
+  }
+
+  return patches;
+};
+
+const invertPatch = (patch: HistoryPatch): HistoryPatch => {
+  switch (patch.type) {
+    case "node-added":
+      return { type: "node-removed", node: patch.node };
+    case "node-removed":
+      return { type: "node-added", node: patch.node };
+    case "node-moved":
+      return { type: "node-moved", nodeId: patch.nodeId, from: patch.to, to: patch.from };
+    case "node-updated":
+      return { type: "node-updated", nodeId: patch.nodeId, before: patch.after, after: patch.before };
+    case "connection-added":
+      return { type: "connection-removed", connection: patch.connection };
+    case "connection-removed":
+      return { type: "connection-added", connection: patch.connection };
+    case "connection-updated":
+      return { type: "connection-updated", connectionId: patch.connectionId, before: patch.after, after: patch.before };
+  }
+};
+
+/**
+ * Invert a patch list so that applying it undoes the original patches.
+ */
+export const invertHistoryPatches = (patches: readonly HistoryPatch[]): HistoryPatch[] =>
+  patches.map(invertPatch).reverse();
+
+const applyNodeFields = (node: Node, fields: Partial<Node>): Node => {
+  const nextNode = { ...node, ...fields } as Node;
+  (Object.keys(fields) as Array<keyof Node>).forEach((key) => {
+    if (fields[key] === undefined) {
+      delete nextNode[key];
+    }
+  });
+  return nextNode;
+};
+
+/**
+ * Apply patches to editor data, returning a new object.
+ * Patches that target missing nodes or connections are ignored.
+ */
+export const applyHistoryPatches = (data: NodeEditorData, patches: readonly HistoryPatch[]): NodeEditorData => {
+  if (patches.length === 0) {
+    return data;
+  }
+  const nodes = { ...data.nodes };
+  const connections = { ...data.connections };
+
+  patches.forEach((patch) => {
+    switch (patch.type) {
+      case "node-added":
+        nodes[patch.node.id] = patch.node;
+        return;
+      case "node-removed":
+        delete nodes[patch.node.id];
+        return;
+      case "node-moved": {
+        const node = nodes[patch.nodeId];
+        if (node) {
+          nodes[patch.nodeId] = { ...node, position: patch.to };
+        }
+        return;
+      }
+      case "node-updated": {
+        const node = nodes[patch.nodeId];
+        if (node) {
+          nodes[patch.nodeId] = applyNodeFields(node, patch.after);
+        }
+        return;
+      }
+      case "connection-added":
+        connections[patch.connection.id] = patch.connection;
+        return;
+      case "connection-removed":
+        delete connections[patch.connection.id];
+        return;
+      case "connection-updated":
+        if (hasOwn(connections, patch.connectionId)) {
+          connections[patch.connectionId] = patch.after;
+        }
+        return;
+    }
+  });
+
+  return { ...data, nodes, connections };
+};
+
+/**
+ * Merge two consecutive patch lists into one.
+ * Consecutive moves of the same node collapse into a single move from the first origin to the last target.
+ */
+export const mergeHistoryPatches = (earlier: readonly HistoryPatch[], later: readonly HistoryPatch[]): HistoryPatch[] => {
+  const merged: HistoryPatch[] = [...earlier];
+  // Index of the last patch per node, used to collapse moves that are not interleaved with other edits
+  const lastPatchIndex = new Map<NodeId, number>();
+  merged.forEach((patch, index) => {
+    if (patch.type === "node-moved" || patch.type === "node-updated") {
+      lastPatchIndex.set(patch.nodeId, index);
+    } else if (patch.type === "node-added" || patch.type === "node-removed") {
+      lastPatchIndex.set(patch.node.id, index);
+    }
+  });
+
+  later.forEach((patch) => {
+    if (patch.type === "node-moved") {
+      const index = lastPatchIndex.get(patch.nodeId);
+      const previous = index !== undefined ? merged[index] : undefined;
+      if (previous && previous.type === "node-moved") {
+        merged[index as number] = { ...previous, to: patch.to };
+        return;
+      }
+      lastPatchIndex.set(patch.nodeId, merged.length);
+    } else if (patch.type === "node-updated") {
+      lastPatchIndex.set(patch.nodeId, merged.length);
+    } else if (patch.type === "node-added" || patch.type === "node-removed") {
+      lastPatchIndex.set(patch.node.id, merged.length);
+    }
+    merged.push(patch);
+  });
+
+  return merged.filter((patch) => patch.type !== "node-moved" || !arePositionsEqual(patch.from, patch.to));
+};
@@ -39,6 +39,18 @@ const DEFAULT_SHORTCUT_BINDINGS: Record<NodeEditorShortcutAction, ShortcutBindin
   copy: [{ key: "c", cmdOrCtrl: true }],
   cut: [{ key: "x", cmdOrCtrl: true }],
   paste: [{ key: "v", cmdOrCtrl: true }],
+  "paste-with-connections": [{ key: "v", cmdOrCtrl: true, shift: true }],
+  "collapse-to-subflow": [{ key: "g", cmdOrCtrl: true, shift: true }],
+  find: [{ key: "f", cmdOrCtrl: true }],
+  "focus-left": [{ key: "ArrowLeft" }],
+  "focus-right": [{ key: "ArrowRight" }],
+  "focus-up": [{ key: "ArrowUp" }],
+  "focus-down": [{ key: "ArrowDown" }],
+  "nudge-left": [{ key: "ArrowLeft", shift: true }],
+  "nudge-right": [{ key: "ArrowRight", shift: true }],
+  "nudge-up": [{ key: "ArrowUp", shift: true }],
+  "nudge-down": [{ key: "ArrowDown", shift: true }],
+  "connect-mode": [{ key: "c" }],
 };
 
 const DEFAULT_POINTER_BINDINGS: Record<NodeEditorPointerAction, PointerShortcutBinding> = {
@@ -90,6 +102,7 @@ const createDefaultKeyboardShortcuts = (): NodeEditorInteractionSettings["keyboa
   return {
     enabled: true,
     actions,
+    announcements: true,
   };
 };
 
@@ -359,6 +372,7 @@ const mergeKeyboardShortcuts = (
     return {
       enabled: base.enabled,
       actions: clonedActions,
+      announcements: base.announcements,
     };
   }
   const actionOverrides = overrides.actions ?? {};
@@ -398,6 +412,7 @@ const mergeKeyboardShortcuts = (
   return {
     enabled: overrides.enabled ?? base.enabled,
     actions: mergedActions,
+    announcements: overrides.announcements ?? base.announcements,
   };
 };
 
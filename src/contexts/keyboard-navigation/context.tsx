@@ -0,0 +1,213 @@
+/**
+ * @file Keyboard navigation context
+ * Roving focus between nodes, the keyboard connect mode and the canvas live region. Exactly one
+ * node (the focused one, or the entry node before anything was focused) is in the tab order; nodes
+ * and ports subscribe through selectors, so moving focus only re-renders the nodes it leaves and enters.
+ */
+import * as React from "react";
+import type { Node, NodeId, Port } from "../../types/core";
+import { getEntryNodeId } from "../../core/node/spatialNavigation";
+import { useNodeEditorSelector } from "../composed/node-editor/context";
+import { useExternalStoreSelector } from "../../hooks/useExternalStoreSelector";
+
+/** Message for the canvas live region; the id changes even when the text repeats */
+export type CanvasAnnouncement = {
+  id: number;
+  message: string;
+};
+
+export type KeyboardNavigationSnapshot = {
+  /** Node holding keyboard focus, or containing the focused port */
+  focusedNodeId: NodeId | null;
+  /** Node that takes the canvas tab stop until one is focused */
+  entryNodeId: NodeId | null;
+  /** Pending request for a node to take DOM focus; cleared once it does */
+  focusRequest: { nodeId: NodeId; id: number } | null;
+  /** Port whose connection targets are listed while connect mode is active */
+  connectSource: Port | null;
+  announcement: CanvasAnnouncement | null;
+};
+
+export type KeyboardNavigationActions = {
+  /** Move DOM focus to a node; it focuses itself once rendered */
+  focusNode: (nodeId: NodeId) => void;
+  /** Record that DOM focus moved into a node (from a click, Tab or a focus request) */
+  reportFocus: (nodeId: NodeId) => void;
+  /** List the ports `port` can connect to */
+  startConnect: (port: Port) => void;
+  cancelConnect: () => void;
+  /** Read a message out through the canvas live region */
+  announce: (message: string) => void;
+};
+
+type KeyboardNavigationStore = KeyboardNavigationActions & {
+  getSnapshot: () => KeyboardNavigationSnapshot;
+  subscribe: (listener: () => void) => () => void;
+  setNodes: (nodes: Readonly<Record<NodeId, Node>>) => void;
+};
+
+const INITIAL_SNAPSHOT: KeyboardNavigationSnapshot = {
+  focusedNodeId: null,
+  entryNodeId: null,
+  focusRequest: null,
+  connectSource: null,
+  announcement: null,
+};
+
+const NOOP_ACTIONS: KeyboardNavigationActions = {
+  focusNode: () => {},
+  reportFocus: () => {},
+  startConnect: () => {},
+  cancelConnect: () => {},
+  announce: () => {},
+};
+
+// Used when no KeyboardNavigationProvider is mounted so the hooks can stay unconditional
+const EMPTY_STORE: KeyboardNavigationStore = {
+  ...NOOP_ACTIONS,
+  getSnapshot: () => INITIAL_SNAPSHOT,
+  subscribe: () => () => {},
+  setNodes: () => {},
+};
+
+const createKeyboardNavigationStore = (): KeyboardNavigationStore => {
+  const listeners = new Set<() => void>();
+  const state = { snapshot: INITIAL_SNAPSHOT, sequence: 0 };
+
+  const publish = (patch: Partial<KeyboardNavigationSnapshot>) => {
+    state.snapshot = { ...state.snapshot, ...patch };
+    Array.from(listeners).forEach((listener) => listener());
+  };
+
+  const nextId = () => {
+    state.sequence += 1;
+    return state.sequence;
+  };
+
+  return {
+    getSnapshot: () => state.snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setNodes: (nodes) => {
+      const current = state.snapshot;
+      const entryNodeId = getEntryNodeId(nodes);
+      const focusedNodeId = current.focusedNodeId && nodes[current.focusedNodeId] ? current.focusedNodeId : null;
+      const focusRequest = current.focusRequest && nodes[current.focusRequest.nodeId] ? current.focusRequest : null;
+      const connectSource = current.connectSource && nodes[current.connectSource.nodeId] ? current.connectSource : null;
+      if (
+        entryNodeId !== current.entryNodeId ||
+        focusedNodeId !== current.focusedNodeId ||
+        focusRequest !== current.focusRequest ||
+        connectSource !== current.connectSource
+      ) {
+        publish({ entryNodeId, focusedNodeId, focusRequest, connectSource });
+      }
+    },
+    focusNode: (nodeId) => {
+      publish({ focusedNodeId: nodeId, focusRequest: { nodeId, id: nextId() } });
+    },
+    reportFocus: (nodeId) => {
+      const current = state.snapshot;
+      const focusRequest = current.focusRequest?.nodeId === nodeId ? null : current.focusRequest;
+      if (current.focusedNodeId !== nodeId || focusRequest !== current.focusRequest) {
+        publish({ focusedNodeId: nodeId, focusRequest });
+      }
+    },
+    startConnect: (port) => {
+      publish({ connectSource: port });
+    },
+    cancelConnect: () => {
+      if (state.snapshot.connectSource) {
+        publish({ connectSource: null });
+      }
+    },
+    announce: (message) => {
+      publish({ announcement: { id: nextId(), message } });
+    },
+  };
+};
+
+const KeyboardNavigationContext = React.createContext<KeyboardNavigationStore | null>(null);
+KeyboardNavigationContext.displayName = "KeyboardNavigationContext";
+
+export type KeyboardNavigationProviderProps = {
+  children: React.ReactNode;
+};
+
+export const KeyboardNavigationProvider: React.FC<KeyboardNavigationProviderProps> = ({ children }) => {
+  const [store] = React.useState(createKeyboardNavigationStore);
+  const nodes = useNodeEditorSelector((state) => state.nodes);
+
+  React.useEffect(() => {
+    store.setNodes(nodes);
+  }, [store, nodes]);
+
+  return <KeyboardNavigationContext.Provider value={store}>{children}</KeyboardNavigationContext.Provider>;
+};
+
+const useKeyboardNavigationStore = (): KeyboardNavigationStore =>
+  React.useContext(KeyboardNavigationContext) ?? EMPTY_STORE;
+
+const selectSnapshot = (snapshot: KeyboardNavigationSnapshot) => snapshot;
+
+/**
+ * Full navigation state for the connect menu and the live region.
+ */
+export const useKeyboardNavigationState = (): KeyboardNavigationSnapshot => {
+  const store = useKeyboardNavigationStore();
+  return useExternalStoreSelector(store.subscribe, store.getSnapshot, selectSnapshot);
+};
+
+/**
+ * Stable actions for moving focus, entering connect mode and announcing changes.
+ */
+export const useKeyboardNavigationActions = (): KeyboardNavigationActions => {
+  const store = useKeyboardNavigationStore();
+  return React.useMemo(
+    () => ({
+      focusNode: store.focusNode,
+      reportFocus: store.reportFocus,
+      startConnect: store.startConnect,
+      cancelConnect: store.cancelConnect,
+      announce: store.announce,
+    }),
+    [store],
+  );
+};
+
+const isTabStop = (snapshot: KeyboardNavigationSnapshot, nodeId: NodeId): boolean =>
+  (snapshot.focusedNodeId ?? snapshot.entryNodeId) === nodeId;
+
+/**
+ * Roving focus token for a node: -1 when it is out of the tab order, 0 when it is the tab stop,
+ * and the pending request id when it should take DOM focus.
+ */
+export const useNodeKeyboardFocus = (nodeId: NodeId): number => {
+  const store = useKeyboardNavigationStore();
+  const selector = React.useCallback(
+    (snapshot: KeyboardNavigationSnapshot): number => {
+      if (snapshot.focusRequest?.nodeId === nodeId) {
+        return snapshot.focusRequest.id;
+      }
+      return isTabStop(snapshot, nodeId) ? 0 : -1;
+    },
+    [nodeId],
+  );
+  return useExternalStoreSelector(store.subscribe, store.getSnapshot, selector);
+};
+
+/**
+ * Tab index for the ports of a node: only the tab-stop node's ports are reachable with Tab.
+ */
+export const usePortTabIndex = (nodeId: NodeId): 0 | -1 => {
+  const store = useKeyboardNavigationStore();
+  const selector = React.useCallback(
+    (snapshot: KeyboardNavigationSnapshot): 0 | -1 => (isTabStop(snapshot, nodeId) ? 0 : -1),
+    [nodeId],
+  );
+  return useExternalStoreSelector(store.subscribe, store.getSnapshot, selector);
+};
@@ -8,7 +8,9 @@ import type {
   ConstraintViolation,
   NodeDefinition,
 } from "../../../types/NodeDefinition";
-import type { Node, NodeId, Connection } from "../../../types/core";
+import type { Node, NodeId, Connection, NodeEditorData } from "../../../types/core";
+import { areNodesStructurallyEqual } from "../../../core/node/comparators";
+import { hasPositionChanged } from "../../../core/geometry/comparators";
 
 /**
  * Validate all constraints for a node
@@ -107,3 +109,139 @@ export function hasBlockingViolations(violations: ConstraintViolation[], constra
     return constraint?.blocking === true || violation.severity === "error";
   });
 }
+
+const getViolationKey = (violation: ConstraintViolation): string =>
+  JSON.stringify([
+    violation.type,
+    violation.severity,
+    violation.message,
+    violation.nodeIds ?? [],
+    violation.portIds ?? [],
+    violation.connectionIds ?? [],
+  ]);
+
+/**
+ * Collects violations for a state change, dropping duplicates reported by the same
+ * constraint for several operations (e.g. a node that was both moved and updated).
+ */
+const createStateChangeChecker = (previous: NodeEditorData, nodeDefinitions: NodeDefinition[]) => {
+  const definitionsByType = new Map(nodeDefinitions.map((definition) => [definition.type, definition]));
+  const violations = new Map<string, ConstraintViolation>();
+  const appliedConstraints = new Set<NodeConstraint>();
+
+  const checkNode = (node: Node, operation: ConstraintContext["operation"], context?: Record<string, unknown>) => {
+    const definition = definitionsByType.get(node.type);
+    if (!definition?.constraints?.length) {
+      return;
+    }
+    definition.constraints.forEach((constraint) => appliedConstraints.add(constraint));
+    const result = validateNodeConstraints(node, definition, previous.nodes, previous.connections, operation, context);
+    result.violations.forEach((violation) => {
+      const key = getViolationKey(violation);
+      if (!violations.has(key)) {
+        violations.set(key, violation);
+      }
+    });
+  };
+
+  const getResult = (): { allowed: boolean; violations: ConstraintViolation[] } => {
+    const collected = Array.from(violations.values());
+    return {
+      allowed: !hasBlockingViolations(collected, Array.from(appliedConstraints)),
+      violations: collected,
+    };
+  };
+
+  return { checkNode, getResult };
+};
+
+/**
+ * Validate the changes between two editor states against node constraints.
+ * Added nodes are checked as "create", removed nodes as "delete", nodes whose position changed
+ * as "move" and nodes with any other change as "update". Added and removed connections are
+ * checked as "connect" and "disconnect" on both endpoints. Constraints see the state before
+ * the change, with the node under validation in its proposed form.
+ */
+export function validateStateChangeConstraints(
+  previous: NodeEditorData,
+  next: NodeEditorData,
+  nodeDefinitions: NodeDefinition[],
+): { allowed: boolean; violations: ConstraintViolation[] } {
+  const { checkNode, getResult } = createStateChangeChecker(previous, nodeDefinitions);
+
+  if (previous.nodes !== next.nodes) {
+    Object.values(next.nodes).forEach((node) => {
+      const before = previous.nodes[node.id];
+      if (!before) {
+        checkNode(node, "create");
+        return;
+      }
+      if (before === node) {
+        return;
+      }
+      if (hasPositionChanged(before.position, node.position)) {
+        checkNode(node, "move");
+      }
+      if (!areNodesStructurallyEqual({ ...before, position: node.position }, node)) {
+        checkNode(node, "update");
+      }
+    });
+    Object.values(previous.nodes).forEach((node) => {
+      if (!next.nodes[node.id]) {
+        checkNode(node, "delete");
+      }
+    });
+  }
+
+  const checkConnection = (
+    connection: Connection,
+    nodes: Record<NodeId, Node>,
+    operation: "connect" | "disconnect",
+  ) => {
+    const fromNode = nodes[connection.fromNodeId];
+    const toNode = nodes[connection.toNodeId];
+    if (!fromNode || !toNode) {
+      return;
+    }
+    checkNode(fromNode, operation, { connection, targetNode: toNode });
+    checkNode(toNode, operation, { connection, sourceNode: fromNode });
+  };
+
+  if (previous.connections !== next.connections) {
+    Object.values(next.connections).forEach((connection) => {
+      if (!previous.connections[connection.id]) {
+        checkConnection(connection, next.nodes, "connect");
+      }
+    });
+    Object.values(previous.connections).forEach((connection) => {
+      if (!next.connections[connection.id]) {
+        checkConnection(connection, previous.nodes, "disconnect");
+      }
+    });
+  }
+
+  return getResult();
+}
+
+/**
+ * Validate a change that only moved the given nodes. Only those nodes are checked, as "move",
+ * so dragging does not diff the whole document on every frame.
+ */
+export function validateMoveConstraints(
+  previous: NodeEditorData,
+  next: NodeEditorData,
+  nodeIds: readonly NodeId[],
+  nodeDefinitions: NodeDefinition[],
+): { allowed: boolean; violations: ConstraintViolation[] } {
+  const { checkNode, getResult } = createStateChangeChecker(previous, nodeDefinitions);
+
+  nodeIds.forEach((nodeId) => {
+    const before = previous.nodes[nodeId];
+    const node = next.nodes[nodeId];
+    if (before && node && hasPositionChanged(before.position, node.position)) {
+      checkNode(node, "move");
+    }
+  });
+
+  return getResult();
+}
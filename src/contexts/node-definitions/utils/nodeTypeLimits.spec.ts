@@ -3,7 +3,13 @@
  */
 import type { NodeEditorData } from "../../../types/core";
 import type { NodeDefinition } from "../../../types/NodeDefinition";
-import { countNodesByType, canAddNodeType, getDisabledNodeTypes, filterDuplicableNodeIds } from "./nodeTypeLimits";
+import {
+  countNodesByType,
+  canAddNodeType,
+  canAddNodeTypes,
+  getDisabledNodeTypes,
+  filterDuplicableNodeIds,
+} from "./nodeTypeLimits";
 
 const makeState = (nodes: Array<{ id: string; type: string }>): NodeEditorData => ({
   nodes: nodes.reduce(
@@ -44,6 +50,14 @@ describe("nodeTypeLimits utils", () => {
     expect(canAddNodeType("T2", d, counts)).toBe(true);
   });
 
+  it("canAddNodeTypes counts every added node against the limit", () => {
+    const counts = countNodesByType(makeState([{ id: "a", type: "T1" }]));
+    const d = defs({ T1: 2, T2: undefined });
+    expect(canAddNodeTypes(["T1", "T2", "T2"], d, counts)).toBe(true);
+    expect(canAddNodeTypes(["T1", "T1"], d, counts)).toBe(false);
+    expect(counts.get("T1")).toBe(1);
+  });
+
   it("getDisabledNodeTypes lists types at limit", () => {
     const state = makeState([
       { id: "a", type: "T1" },
@@ -31,6 +31,25 @@ export function canAddNodeType(type: string, defs: NodeDefinition[], counts: Map
   return current < def.maxPerFlow;
 }
 
+/**
+ * Determine if nodes of all the given types can be added together, counting each added node
+ * against its type's maxPerFlow (e.g. when pasting several nodes of one type)
+ */
+export function canAddNodeTypes(
+  types: readonly string[],
+  defs: NodeDefinition[],
+  counts: Map<string, number>,
+): boolean {
+  const running = new Map(counts);
+  return types.every((type) => {
+    if (!canAddNodeType(type, defs, running)) {
+      return false;
+    }
+    running.set(type, (running.get(type) || 0) + 1);
+    return true;
+  });
+}
+
 /** List of node types that have reached their per-flow limit */
 export function getDisabledNodeTypes(defs: NodeDefinition[], counts: Map<string, number>): string[] {
   return defs
@@ -59,18 +59,15 @@ export const useConnectionOperations = () => {
     [],
   );
 
-  const completeConnectionDrag = React.useCallback(
-    (targetPort: Port): boolean => {
-      const drag = getInteractionStateRef.current().connectionDragState;
-      if (!drag) {
-        return false;
-      }
+  // Shared by pointer drags and the keyboard connect menu
+  const connectPorts = React.useCallback(
+    (sourcePort: Port, targetPort: Port): boolean => {
       const resolveCurrentPort = (port: Port): Port => {
         const current = getNodePortsRef.current(port.nodeId).find((candidate) => candidate.id === port.id);
         return current ?? port;
       };
 
-      const fromPort = resolveCurrentPort(drag.fromPort);
+      const fromPort = resolveCurrentPort(sourcePort);
       const toPort = resolveCurrentPort(targetPort);
       const plan = planConnectionChange({
         fromPort,
@@ -110,6 +107,17 @@ export const useConnectionOperations = () => {
     [],
   );
 
+  const completeConnectionDrag = React.useCallback(
+    (targetPort: Port): boolean => {
+      const drag = getInteractionStateRef.current().connectionDragState;
+      if (!drag) {
+        return false;
+      }
+      return connectPorts(drag.fromPort, targetPort);
+    },
+    [connectPorts],
+  );
+
   const endConnectionDrag = React.useCallback(() => {
     interactionActionsRef.current.endConnectionDrag();
     actionActionsRef.current.setHoveredPort(null);
@@ -122,5 +130,5 @@ export const useConnectionOperations = () => {
     actionActionsRef.current.updateConnectablePorts(EMPTY_CONNECTABLE_PORTS);
   }, []);
 
-  return { completeConnectionDrag, completeDisconnectDrag, endConnectionDrag, endConnectionDisconnect };
+  return { connectPorts, completeConnectionDrag, completeDisconnectDrag, endConnectionDrag, endConnectionDisconnect };
 };
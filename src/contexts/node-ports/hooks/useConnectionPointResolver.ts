@@ -0,0 +1,46 @@
+/**
+ * @file Hook returning a stable resolver for the canvas point where a connection attaches to a port.
+ */
+import * as React from "react";
+import { useNodeEditorApi } from "../../composed/node-editor/context";
+import { useNodeDefinitions } from "../../node-definitions/context";
+import { usePortPositions } from "../context";
+import { useLatestRef } from "../../../hooks/useLatestRef";
+import type { NodeId, PortId, Position } from "../../../types/core";
+
+/**
+ * Resolve a port's connection point from the measured port positions, computing it from the node
+ * when the port has not rendered (e.g. culled offscreen). The returned function never changes identity.
+ */
+export const useConnectionPointResolver = (): ((nodeId: NodeId, portId: PortId) => Position | null) => {
+  const { getState: getNodeEditorState, getNodePorts } = useNodeEditorApi();
+  const { registry } = useNodeDefinitions();
+  const { getPortPosition, computePortPosition } = usePortPositions();
+
+  const getNodeEditorStateRef = useLatestRef(getNodeEditorState);
+  const getNodePortsRef = useLatestRef(getNodePorts);
+  const registryRef = useLatestRef(registry);
+  const getPortPositionRef = useLatestRef(getPortPosition);
+  const computePortPositionRef = useLatestRef(computePortPosition);
+
+  return React.useCallback((nodeId: NodeId, portId: PortId) => {
+    const stored = getPortPositionRef.current(nodeId, portId);
+    if (stored) {
+      return stored.connectionPoint;
+    }
+    const node = getNodeEditorStateRef.current().nodes[nodeId];
+    if (!node) {
+      return null;
+    }
+    if (!registryRef.current.get(node.type)) {
+      // getNodePorts throws when the node type is unregistered
+      return null;
+    }
+    const ports = getNodePortsRef.current(nodeId);
+    const targetPort = ports.find((candidate) => candidate.id === portId);
+    if (!targetPort) {
+      return null;
+    }
+    return computePortPositionRef.current({ ...node, ports }, targetPort).connectionPoint;
+  }, []);
+};
@@ -0,0 +1,141 @@
+/**
+ * @file Node editor plugin context
+ * Loads plugins under the `plugins.*` settings, runs their install/uninstall lifecycle and
+ * registers their settings and keyboard shortcuts while they are installed.
+ */
+import * as React from "react";
+import type { NodeEditorPlugin, NodeEditorPluginContext } from "../../types/plugin";
+import type { SettingsManager } from "../../settings/SettingsManager";
+import { selectNodeEditorPlugins } from "../../core/plugin/plugins";
+import { useSettings } from "../../hooks/useSettings";
+import { useNodeEditorApi } from "../composed/node-editor/context";
+import { expandKeyboardShortcut, useKeyboardShortcutActions } from "../composed/keyboard-shortcut/context";
+
+const NO_PLUGINS: readonly NodeEditorPlugin[] = [];
+
+const NodeEditorPluginsContext = React.createContext<readonly NodeEditorPlugin[]>(NO_PLUGINS);
+NodeEditorPluginsContext.displayName = "NodeEditorPluginsContext";
+
+/**
+ * Plugins to load: newer builds replace plugins while `plugins.autoUpdate` is on, then plugins
+ * that are unsafe, over the memory budget or duplicates are dropped with a warning.
+ */
+export const useLoadedPlugins = (
+  plugins: readonly NodeEditorPlugin[] = NO_PLUGINS,
+  settingsManager?: SettingsManager,
+): readonly NodeEditorPlugin[] => {
+  const { pluginsAutoUpdate, pluginsAllowUnsafe, pluginsMaxMemoryUsage } = useSettings(settingsManager);
+  const [updates, setUpdates] = React.useState<ReadonlyMap<NodeEditorPlugin, NodeEditorPlugin>>(() => new Map());
+  // Each plugin object is checked for updates once
+  const checkedRef = React.useRef(new WeakSet<NodeEditorPlugin>());
+  const mountedRef = React.useRef(true);
+
+  React.useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  React.useEffect(() => {
+    if (!pluginsAutoUpdate) {
+      return;
+    }
+    plugins.forEach((plugin) => {
+      if (!plugin.checkForUpdate || checkedRef.current.has(plugin)) {
+        return;
+      }
+      checkedRef.current.add(plugin);
+      plugin.checkForUpdate().then(
+        (update) => {
+          if (update && mountedRef.current) {
+            setUpdates((previous) => new Map(previous).set(plugin, update));
+          }
+        },
+        (error: unknown) => {
+          console.warn(`Checking plugin "${plugin.id}" for updates failed`, error);
+        },
+      );
+    });
+  }, [plugins, pluginsAutoUpdate]);
+
+  const selection = React.useMemo(
+    () =>
+      selectNodeEditorPlugins(
+        plugins.map((plugin) => updates.get(plugin) ?? plugin),
+        { allowUnsafe: pluginsAllowUnsafe, maxMemoryUsage: pluginsMaxMemoryUsage },
+      ),
+    [plugins, updates, pluginsAllowUnsafe, pluginsMaxMemoryUsage],
+  );
+
+  React.useEffect(() => {
+    selection.skipped.forEach(({ id, reason }) => {
+      console.warn(`Plugin "${id}" was not loaded (${reason})`);
+    });
+  }, [selection]);
+
+  return selection.plugins;
+};
+
+type PluginInstallerProps = {
+  plugin: NodeEditorPlugin;
+  settingsManager?: SettingsManager;
+};
+
+const PluginInstaller: React.FC<PluginInstallerProps> = ({ plugin, settingsManager }) => {
+  const api = useNodeEditorApi();
+  const { registerShortcut, unregisterShortcut } = useKeyboardShortcutActions();
+
+  React.useEffect(() => {
+    const context: NodeEditorPluginContext = { api, settingsManager };
+    const settings = plugin.settings ?? [];
+    if (settingsManager) {
+      settingsManager.registerSettings(settings);
+    }
+    const shortcuts = (plugin.keyboardShortcuts ?? []).flatMap(({ shortcut, handler }) =>
+      expandKeyboardShortcut(shortcut).map((variant) => ({
+        variant,
+        handler: (event: KeyboardEvent) => handler(event, context),
+      })),
+    );
+    shortcuts.forEach(({ variant, handler }) => registerShortcut(variant, handler));
+    plugin.install?.(context);
+
+    return () => {
+      plugin.uninstall?.(context);
+      shortcuts.forEach(({ variant }) => unregisterShortcut(variant));
+      if (settingsManager) {
+        settings.forEach((setting) => settingsManager.unregisterSetting(setting.key));
+      }
+    };
+  }, [plugin, api, settingsManager, registerShortcut, unregisterShortcut]);
+
+  return null;
+};
+
+export type NodeEditorPluginProviderProps = {
+  /** Plugins that passed `useLoadedPlugins` */
+  plugins: readonly NodeEditorPlugin[];
+  settingsManager?: SettingsManager;
+  children: React.ReactNode;
+};
+
+export const NodeEditorPluginProvider: React.FC<NodeEditorPluginProviderProps> = ({
+  plugins,
+  settingsManager,
+  children,
+}) => {
+  return (
+    <NodeEditorPluginsContext.Provider value={plugins}>
+      {plugins.map((plugin) => (
+        <PluginInstaller key={plugin.id} plugin={plugin} settingsManager={settingsManager} />
+      ))}
+      {children}
+    </NodeEditorPluginsContext.Provider>
+  );
+};
+
+/**
+ * Plugins installed in the editor, in load order.
+ */
+export const useNodeEditorPlugins = (): readonly NodeEditorPlugin[] => React.useContext(NodeEditorPluginsContext);
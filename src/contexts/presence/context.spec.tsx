@@ -0,0 +1,92 @@
+/**
+ * @file Tests for PresenceProvider - rendering remote users and publishing the local state
+ */
+import { act, fireEvent, render, waitFor } from "@testing-library/react";
+import { NodeEditor } from "../../NodeEditor";
+import type { NodeEditorData } from "../../types/core";
+import { asNodeDefinition } from "../../types/NodeDefinition";
+import { StandardNodeDefinition } from "../../node-definitions/standard";
+import { createLocalPresenceSource, type PresenceState } from "../../core/collaboration/presence";
+
+const data: NodeEditorData = {
+  nodes: {
+    n1: {
+      id: "n1",
+      type: "standard",
+      position: { x: 0, y: 0 },
+      size: { width: 150, height: 60 },
+      data: { title: "Node 1" },
+    },
+    n2: {
+      id: "n2",
+      type: "standard",
+      position: { x: 300, y: 0 },
+      size: { width: 150, height: 60 },
+      data: { title: "Node 2" },
+    },
+  },
+  connections: {},
+};
+
+const remotePeer = (overrides: Partial<PresenceState> = {}): PresenceState => ({
+  user: { id: "remote", name: "Remote User", color: "#e5484d" },
+  pointer: { x: 120, y: 80 },
+  selectedNodeIds: ["n2"],
+  selectedConnectionIds: [],
+  ...overrides,
+});
+
+const renderEditor = (source: ReturnType<typeof createLocalPresenceSource>) =>
+  render(
+    <NodeEditor
+      initialData={data}
+      nodeDefinitions={[asNodeDefinition(StandardNodeDefinition)]}
+      presenceSource={source}
+      presenceUser={{ id: "local", name: "Me", color: "#0090ff" }}
+    />,
+  );
+
+describe("PresenceProvider", () => {
+  it("outlines nodes selected by other users and shows their cursors", () => {
+    const source = createLocalPresenceSource([remotePeer()]);
+    const { container } = renderEditor(source);
+
+    const remoteNode = container.querySelector('[data-node-id="n2"]');
+    expect(remoteNode?.getAttribute("data-remote-selected")).toBe("true");
+    expect(remoteNode?.querySelector('[data-presence-user-id="remote"]')?.textContent).toBe("Remote User");
+    expect(container.querySelector('[data-node-id="n1"]')?.hasAttribute("data-remote-selected")).toBe(false);
+
+    const cursor = container.querySelector('[data-presence-user-id="remote"] svg')?.parentElement;
+    expect(cursor?.style.transform).toContain("translate(120px, 80px)");
+  });
+
+  it("updates outlines when peers change and ignores the local user", () => {
+    const source = createLocalPresenceSource([remotePeer()]);
+    const { container } = renderEditor(source);
+
+    act(() => {
+      source.setPeers([
+        remotePeer({ selectedNodeIds: ["n1"], pointer: undefined }),
+        remotePeer({ user: { id: "local", color: "#0090ff" }, selectedNodeIds: ["n2"] }),
+      ]);
+    });
+
+    expect(container.querySelector('[data-node-id="n1"]')?.getAttribute("data-remote-selected")).toBe("true");
+    expect(container.querySelector('[data-node-id="n2"]')?.hasAttribute("data-remote-selected")).toBe(false);
+    expect(container.querySelector('[data-presence-user-id="remote"] svg')).toBeNull();
+  });
+
+  it("publishes the local selection", async () => {
+    const source = createLocalPresenceSource();
+    const { container } = renderEditor(source);
+
+    const node = container.querySelector('[data-node-id="n1"]') as HTMLElement;
+    fireEvent.pointerDown(node, { pointerId: 1, button: 0, clientX: 10, clientY: 10 });
+    fireEvent.pointerUp(node, { pointerId: 1, button: 0, clientX: 10, clientY: 10 });
+
+    await waitFor(() => {
+      expect(source.getPublished()?.selectedNodeIds).toEqual(["n1"]);
+    });
+    expect(source.getPublished()?.user.id).toBe("local");
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * @file Presence context
+ * Publishes the local user's pointer, selection and viewport to a `PresenceSource` and exposes
+ * the other users' states to the canvas. Components subscribe through selectors, so pointer
+ * movement of remote users only re-renders the cursor layer.
+ */
+import * as React from "react";
+import type { PresenceSource, PresenceState, PresenceUser } from "../../core/collaboration/presence";
+import { arePresenceUsersEqual, getPresenceColor } from "../../core/collaboration/presence";
+import type { Position } from "../../types/core";
+import { useEditorActionStateState } from "../composed/EditorActionStateContext";
+import { useNodeCanvasApi, useNodeCanvasState } from "../composed/canvas/viewport/context";
+import { generateId } from "../composed/node-editor/reducer";
+import { useExternalStoreSelector } from "../../hooks/useExternalStoreSelector";
+import { useRafThrottledCallback } from "../../hooks/useRafThrottledCallback";
+
+type PresenceSnapshot = {
+  peers: readonly PresenceState[];
+  /** Remote users selecting each node */
+  nodeSelections: ReadonlyMap<string, readonly PresenceUser[]>;
+  /** Remote users selecting each connection */
+  connectionSelections: ReadonlyMap<string, readonly PresenceUser[]>;
+};
+
+type PresenceStore = {
+  getSnapshot: () => PresenceSnapshot;
+  subscribe: (listener: () => void) => () => void;
+};
+
+const EMPTY_USERS: readonly PresenceUser[] = [];
+
+const EMPTY_SNAPSHOT: PresenceSnapshot = {
+  peers: [],
+  nodeSelections: new Map(),
+  connectionSelections: new Map(),
+};
+
+// Used when no PresenceProvider is mounted so the hooks can stay unconditional
+const EMPTY_STORE: PresenceStore = {
+  getSnapshot: () => EMPTY_SNAPSHOT,
+  subscribe: () => () => {},
+};
+
+const groupSelections = (
+  peers: readonly PresenceState[],
+  pick: (peer: PresenceState) => readonly string[],
+): Map<string, PresenceUser[]> => {
+  const result = new Map<string, PresenceUser[]>();
+  peers.forEach((peer) => {
+    pick(peer).forEach((id) => {
+      const users = result.get(id);
+      if (users) {
+        users.push(peer.user);
+      } else {
+        result.set(id, [peer.user]);
+      }
+    });
+  });
+  return result;
+};
+
+const createSnapshot = (peers: readonly PresenceState[]): PresenceSnapshot => ({
+  peers,
+  nodeSelections: groupSelections(peers, (peer) => peer.selectedNodeIds),
+  connectionSelections: groupSelections(peers, (peer) => peer.selectedConnectionIds),
+});
+
+const PresenceContext = React.createContext<PresenceStore | null>(null);
+PresenceContext.displayName = "PresenceContext";
+
+export type PresenceProviderProps = {
+  /** Where the local state is published and remote states come from; presence is disabled when omitted */
+  source?: PresenceSource;
+  /** The local user (default: anonymous user with a generated id) */
+  user?: PresenceUser;
+  children: React.ReactNode;
+};
+
+export const PresenceProvider: React.FC<PresenceProviderProps> = ({ source, user, children }) => {
+  const [fallbackUserId] = React.useState(() => generateId());
+  const localUser = React.useMemo<PresenceUser>(
+    () => user ?? { id: fallbackUserId, color: getPresenceColor(fallbackUserId) },
+    [user, fallbackUserId],
+  );
+
+  const store = React.useMemo(() => {
+    const listeners = new Set<() => void>();
+    const state = { snapshot: EMPTY_SNAPSHOT };
+    return {
+      getSnapshot: () => state.snapshot,
+      subscribe: (listener: () => void) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+      setPeers: (peers: readonly PresenceState[]) => {
+        state.snapshot = peers.length === 0 ? EMPTY_SNAPSHOT : createSnapshot(peers);
+        Array.from(listeners).forEach((listener) => listener());
+      },
+    };
+  }, []);
+
+  React.useEffect(() => {
+    if (!source) {
+      store.setPeers([]);
+      return;
+    }
+    const unsubscribe = source.subscribe((peers) => {
+      store.setPeers(peers.filter((peer) => peer.user.id !== localUser.id));
+    });
+    return () => {
+      unsubscribe();
+      store.setPeers([]);
+    };
+  }, [source, localUser.id, store]);
+
+  // Local state publishing
+  const { selectedNodeIds, selectedConnectionIds } = useEditorActionStateState();
+  const { viewport, viewBox } = useNodeCanvasState();
+  const { containerRef, utils } = useNodeCanvasApi();
+  const pointerRef = React.useRef<Position | undefined>(undefined);
+
+  const buildState = React.useEffectEvent(
+    (): PresenceState => ({
+      user: localUser,
+      pointer: pointerRef.current,
+      selectedNodeIds,
+      selectedConnectionIds,
+      viewport:
+        viewBox.width > 0 && viewBox.height > 0
+          ? {
+              x: -viewport.offset.x / viewport.scale,
+              y: -viewport.offset.y / viewport.scale,
+              width: viewBox.width / viewport.scale,
+              height: viewBox.height / viewport.scale,
+            }
+          : undefined,
+    }),
+  );
+
+  const { schedule: schedulePublish } = useRafThrottledCallback<PresenceState>((state) => {
+    source?.publish(state);
+  });
+
+  React.useEffect(() => {
+    if (source) {
+      schedulePublish(buildState());
+    }
+  }, [source, localUser, selectedNodeIds, selectedConnectionIds, viewport, viewBox, schedulePublish]);
+
+  React.useEffect(() => {
+    if (!source) {
+      return;
+    }
+    const handlePointerMove = (event: PointerEvent) => {
+      const container = containerRef.current;
+      const isInside = !!container && event.target instanceof Node && container.contains(event.target);
+      if (!isInside && !pointerRef.current) {
+        return;
+      }
+      pointerRef.current = isInside ? utils.screenToCanvas(event.clientX, event.clientY) : undefined;
+      schedulePublish(buildState());
+    };
+    document.addEventListener("pointermove", handlePointerMove);
+    return () => {
+      document.removeEventListener("pointermove", handlePointerMove);
+      source.publish(null);
+    };
+  }, [source, containerRef, utils, schedulePublish]);
+
+  return <PresenceContext.Provider value={store}>{children}</PresenceContext.Provider>;
+};
+
+const usePresenceStore = (): PresenceStore => React.useContext(PresenceContext) ?? EMPTY_STORE;
+
+const selectPeers = (snapshot: PresenceSnapshot) => snapshot.peers;
+
+/**
+ * States of the other users. Re-renders on every remote pointer move.
+ */
+export const usePresencePeers = (): readonly PresenceState[] => {
+  const store = usePresenceStore();
+  return useExternalStoreSelector(store.subscribe, store.getSnapshot, selectPeers);
+};
+
+const USERS_EQUALITY = { areEqual: arePresenceUsersEqual };
+
+/**
+ * Remote users that currently select the node.
+ */
+export const useRemoteNodeSelection = (nodeId: string): readonly PresenceUser[] => {
+  const store = usePresenceStore();
+  const selector = React.useCallback(
+    (snapshot: PresenceSnapshot) => snapshot.nodeSelections.get(nodeId) ?? EMPTY_USERS,
+    [nodeId],
+  );
+  return useExternalStoreSelector(store.subscribe, store.getSnapshot, selector, USERS_EQUALITY);
+};
+
+/**
+ * Remote users that currently select the connection.
+ */
+export const useRemoteConnectionSelection = (connectionId: string): readonly PresenceUser[] => {
+  const store = usePresenceStore();
+  const selector = React.useCallback(
+    (snapshot: PresenceSnapshot) => snapshot.connectionSelections.get(connectionId) ?? EMPTY_USERS,
+    [connectionId],
+  );
+  return useExternalStoreSelector(store.subscribe, store.getSnapshot, selector, USERS_EQUALITY);
+};
@@ -0,0 +1,91 @@
+/**
+ * @file Tests for subflow navigation - drilling into a subflow node and back via breadcrumbs
+ */
+import { fireEvent, render, within } from "@testing-library/react";
+import { NodeEditor } from "../../NodeEditor";
+import type { NodeEditorData } from "../../types/core";
+import { asNodeDefinition } from "../../types/NodeDefinition";
+import { StandardNodeDefinition } from "../../node-definitions/standard";
+import { isSubflowNodeData, SubflowNodeDefinition } from "../../node-definitions/subflow";
+import { collapseNodesToSubflow } from "../composed/node-editor/utils/subflowOperations";
+
+const nodeDefinitions = [asNodeDefinition(StandardNodeDefinition), asNodeDefinition(SubflowNodeDefinition)];
+
+const createData = (): NodeEditorData =>
+  collapseNodesToSubflow(
+    {
+      nodes: {
+        a: { id: "a", type: "standard", position: { x: 0, y: 0 }, data: { title: "Inner A" } },
+        b: { id: "b", type: "standard", position: { x: 300, y: 0 }, data: { title: "Inner B" } },
+        c: { id: "c", type: "standard", position: { x: 600, y: 0 }, data: { title: "Outer C" } },
+      },
+      connections: {
+        c1: { id: "c1", fromNodeId: "a", fromPortId: "output", toNodeId: "b", toPortId: "input" },
+        c2: { id: "c2", fromNodeId: "b", fromPortId: "output", toNodeId: "c", toPortId: "input" },
+      },
+    },
+    ["a", "b"],
+    { subflowId: "sf", title: "My Subflow", nodeDefinitions },
+  );
+
+describe("SubflowNavigationProvider", () => {
+  it("opens a subflow on double-click and returns through the breadcrumbs", () => {
+    const changes: NodeEditorData[] = [];
+    const { container } = render(
+      <NodeEditor
+        initialData={createData()}
+        nodeDefinitions={nodeDefinitions}
+        onDataChange={(next) => changes.push(next)}
+      />,
+    );
+    const subflowNode = container.querySelector('[data-node-id="sf"]');
+    expect(subflowNode).not.toBeNull();
+    expect(container.querySelector('[data-subflow-breadcrumbs]')).toBeNull();
+    const changeCountBeforeOpen = changes.length;
+
+    fireEvent.doubleClick(subflowNode as Element);
+
+    expect(container.querySelector('[data-node-id="sf"]')).toBeNull();
+    expect(container.querySelector('[data-node-id="a"]')).not.toBeNull();
+    expect(container.querySelector('[data-node-id="b"]')).not.toBeNull();
+    const breadcrumbs = container.querySelector("[data-subflow-breadcrumbs]") as HTMLElement;
+    expect(breadcrumbs.textContent).toBe("MainMy Subflow");
+    // Mounting the nested editor must not write anything back
+    expect(changes.length).toBe(changeCountBeforeOpen);
+
+    fireEvent.click(within(breadcrumbs).getByRole("button", { name: "Main" }));
+
+    expect(container.querySelector("[data-subflow-breadcrumbs]")).toBeNull();
+    expect(container.querySelector('[data-node-id="sf"]')).not.toBeNull();
+  });
+
+  it("writes edits made inside the subflow back to the subflow node", () => {
+    const changes: NodeEditorData[] = [];
+    const { container } = render(
+      <NodeEditor
+        initialData={createData()}
+        nodeDefinitions={nodeDefinitions}
+        onDataChange={(next) => changes.push(next)}
+      />,
+    );
+    fireEvent.doubleClick(container.querySelector('[data-node-id="sf"]') as Element);
+
+    fireEvent.pointerDown(container.querySelector('[data-node-id="a"]') as Element, { button: 0, pointerId: 1 });
+    fireEvent.keyDown(document, { key: "Delete" });
+
+    const latest = changes[changes.length - 1];
+    const data = latest.nodes.sf.data;
+    expect(isSubflowNodeData(data) && Object.keys(data.graph.nodes)).toEqual(["b"]);
+    // The outer graph is untouched apart from the subflow node
+    expect(Object.keys(latest.nodes).sort()).toEqual(["c", "sf"]);
+  });
+
+  it("does not open regular nodes", () => {
+    const { container } = render(<NodeEditor initialData={createData()} nodeDefinitions={nodeDefinitions} />);
+
+    fireEvent.doubleClick(container.querySelector('[data-node-id="c"]') as Element);
+
+    expect(container.querySelector("[data-subflow-breadcrumbs]")).toBeNull();
+    expect(container.querySelector('[data-node-id="sf"]')).not.toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @file Subflow navigation context
+ * Tracks which subflow node is opened for editing at each nesting level. Every editor level
+ * mounts its own provider and reads the enclosing one, so the breadcrumb trail is simply the
+ * parent trail plus the subflow the parent has opened.
+ */
+import * as React from "react";
+import type { NodeId } from "../../types/core";
+import type { NodeEditorCoreProps } from "../../NodeEditorCore";
+import { useI18n } from "../../i18n/context";
+import { useNodeEditorSelector } from "../composed/node-editor/context";
+import { useEditorActionStateActions } from "../composed/EditorActionStateContext";
+import { useKeyboardShortcutActions } from "../composed/keyboard-shortcut/context";
+
+/**
+ * Editor configuration inherited by the nested editor of an opened subflow.
+ */
+export type SubflowEditorConfig = Pick<
+  NodeEditorCoreProps,
+  | "fallbackLocale"
+  | "messagesOverride"
+  | "localeDictionaries"
+  | "historyMaxEntries"
+  | "renderers"
+  | "interactionSettings"
+  | "portPositionBehavior"
+  | "connectionBehavior"
+  | "fallbackDefinition"
+  | "externalDataRefs"
+  | "onConstraintViolation"
+  | "contextMenuItems"
+>;
+
+export type SubflowBreadcrumb = {
+  label: string;
+  /** Subflow node shown by this entry; null for the root graph */
+  nodeId: NodeId | null;
+  /** Return to the graph shown by this entry */
+  navigate: () => void;
+};
+
+export type SubflowNavigationValue = {
+  /** Subflow node opened from this level, if any */
+  activeSubflowId: NodeId | null;
+  /** Title of the opened subflow node */
+  activeSubflowTitle: string | null;
+  /** Open a subflow node of this level */
+  enter: (nodeId: NodeId) => void;
+  /** Close the subflow opened from this level */
+  close: () => void;
+  /** Path from the root graph to this level */
+  trail: readonly SubflowBreadcrumb[];
+  config: SubflowEditorConfig;
+};
+
+const SubflowNavigationContext = React.createContext<SubflowNavigationValue | null>(null);
+SubflowNavigationContext.displayName = "SubflowNavigationContext";
+
+const EMPTY_CONFIG: SubflowEditorConfig = {};
+
+// Used when no SubflowNavigationProvider is mounted so consumers can stay unconditional
+const NOOP_NAVIGATION: SubflowNavigationValue = {
+  activeSubflowId: null,
+  activeSubflowTitle: null,
+  enter: () => {},
+  close: () => {},
+  trail: [],
+  config: EMPTY_CONFIG,
+};
+
+export type SubflowNavigationProviderProps = {
+  config?: SubflowEditorConfig;
+  children: React.ReactNode;
+};
+
+export const SubflowNavigationProvider: React.FC<SubflowNavigationProviderProps> = ({
+  config = EMPTY_CONFIG,
+  children,
+}) => {
+  const parent = React.useContext(SubflowNavigationContext);
+  const { t } = useI18n();
+  const { actions: actionStateActions } = useEditorActionStateActions();
+  const { actions: shortcutActions } = useKeyboardShortcutActions();
+  const [activeSubflowId, setActiveSubflowId] = React.useState<NodeId | null>(null);
+
+  const activeSubflowTitle = useNodeEditorSelector(
+    React.useCallback(
+      (state) => {
+        const node = activeSubflowId ? state.nodes[activeSubflowId] : undefined;
+        if (!node) {
+          return null;
+        }
+        return typeof node.data.title === "string" && node.data.title.trim().length > 0 ? node.data.title : node.id;
+      },
+      [activeSubflowId],
+    ),
+  );
+
+  const enter = React.useCallback(
+    (nodeId: NodeId) => {
+      // The nested editor owns the keyboard and selection while it is open
+      actionStateActions.clearSelection();
+      shortcutActions.disableShortcuts();
+      setActiveSubflowId(nodeId);
+    },
+    [actionStateActions, shortcutActions],
+  );
+
+  const close = React.useCallback(() => {
+    shortcutActions.enableShortcuts();
+    setActiveSubflowId(null);
+  }, [shortcutActions]);
+
+  // Leave the subflow when its node disappears (deleted, undone, replaced by remote edits)
+  React.useEffect(() => {
+    if (activeSubflowId && activeSubflowTitle === null) {
+      close();
+    }
+  }, [activeSubflowId, activeSubflowTitle, close]);
+
+  const trail = React.useMemo<readonly SubflowBreadcrumb[]>(() => {
+    if (!parent) {
+      return [{ label: t("subflowRoot"), nodeId: null, navigate: close }];
+    }
+    return [
+      ...parent.trail,
+      { label: parent.activeSubflowTitle ?? "", nodeId: parent.activeSubflowId, navigate: close },
+    ];
+  }, [parent, t, close]);
+
+  const value = React.useMemo<SubflowNavigationValue>(
+    () => ({ activeSubflowId, activeSubflowTitle, enter, close, trail, config }),
+    [activeSubflowId, activeSubflowTitle, enter, close, trail, config],
+  );
+
+  return <SubflowNavigationContext.Provider value={value}>{children}</SubflowNavigationContext.Provider>;
+};
+
+/**
+ * Subflow navigation of the current editor level.
+ */
+export const useSubflowNavigation = (): SubflowNavigationValue => {
+  return React.useContext(SubflowNavigationContext) ?? NOOP_NAVIGATION;
+};
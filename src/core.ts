@@ -34,8 +34,102 @@ export type {
   NodeRendererProps,
   PortDefinition,
   PortRenderContext,
+  NodeExecutionContext,
+  NodeExecutionOutputs,
+  NodePasteRemapContext,
+  NodeDataMigrationResult,
+  NodeConstraint,
+  ConstraintContext,
+  ConstraintValidationResult,
+  ConstraintViolation,
 } from "./types/NodeDefinition";
 
+// Editor API (imperative access, change subscriptions, transactions)
+export { useNodeEditorApi } from "./contexts/composed/node-editor/context";
+export type {
+  NodeEditorApiValue,
+  NodeEditorActionEvent,
+  NodeEditorConstraintViolation,
+  NodeEditorStateChange,
+} from "./contexts/composed/node-editor/context";
+
+// Graph execution
+export { evaluateGraph } from "./core/execution/evaluate";
+export type { GraphExecutionOptions, GraphExecutionResult, NodeExecutionStatus } from "./core/execution/evaluate";
+export { collectDownstreamNodeIds, computeExecutionOrder, findCycles } from "./core/execution/executionOrder";
+export type { ExecutionOrder } from "./core/execution/executionOrder";
+export { applyExecutionStatuses, executionStatusToVisualState } from "./core/execution/visualState";
+export { createExecutionResultCache } from "./core/execution/resultCache";
+export type { ExecutionCacheSyncHint, ExecutionResultCache } from "./core/execution/resultCache";
+export { useGraphExecution } from "./contexts/composed/node-editor/hooks/useGraphExecution";
+export type { UseGraphExecutionOptions } from "./contexts/composed/node-editor/hooks/useGraphExecution";
+export {
+  ExecutionStatusProvider,
+  createExecutionStatusStore,
+  useExecutionStatusStore,
+  useNodeExecutionStatus,
+} from "./contexts/execution-status/context";
+export type {
+  ExecutionStatusProviderProps,
+  ExecutionStatusStore,
+  NodeExecutionStatuses,
+} from "./contexts/execution-status/context";
+
+// Graph diagnostics
+export {
+  collectGraphDiagnostics,
+  GRAPH_DIAGNOSTIC_TYPES,
+} from "./contexts/composed/node-editor/utils/graphDiagnostics";
+export type { GraphDiagnostic, GraphDiagnosticCode } from "./contexts/composed/node-editor/utils/graphDiagnostics";
+export { useGraphDiagnostics } from "./contexts/composed/node-editor/hooks/useGraphDiagnostics";
+
+// Collaborative editing
+export {
+  applyCollaborationOperations,
+  compareStamps,
+  createCollaborationDocument,
+  getCollaborationSnapshot,
+} from "./core/collaboration/document";
+export type {
+  CollaborationDocument,
+  CollaborationOperation,
+  CollaborationRegister,
+  CollaborationTarget,
+  LamportStamp,
+} from "./core/collaboration/document";
+export { createCollaborationOperations } from "./core/collaboration/operations";
+export {
+  createBroadcastChannelTransport,
+  createLoopbackCollaborationHub,
+  createWebSocketTransport,
+} from "./core/collaboration/transport";
+export type {
+  CollaborationMessage,
+  CollaborationSocket,
+  CollaborationTransport,
+  LoopbackCollaborationHub,
+  LoopbackCollaborationHubOptions,
+} from "./core/collaboration/transport";
+export { useCollaborativeEditorData } from "./contexts/collaboration/useCollaborativeEditorData";
+export type {
+  CollaborativeEditorData,
+  UseCollaborativeEditorDataOptions,
+} from "./contexts/collaboration/useCollaborativeEditorData";
+export {
+  arePresenceUsersEqual,
+  createLocalPresenceSource,
+  createTransportPresenceSource,
+  getPresenceColor,
+} from "./core/collaboration/presence";
+export type { LocalPresenceSource, PresenceSource, PresenceState, PresenceUser } from "./core/collaboration/presence";
+export {
+  PresenceProvider,
+  usePresencePeers,
+  useRemoteConnectionSelection,
+  useRemoteNodeSelection,
+} from "./contexts/presence/context";
+export type { PresenceProviderProps } from "./contexts/presence/context";
+
 // Node definition registry
 export { createNodeDefinitionRegistry } from "./types/NodeDefinitionRegistry";
 export type { NodeDefinitionRegistry } from "./types/NodeDefinitionRegistry";
@@ -48,8 +142,219 @@ export type {
   NodeBehaviorOptions,
   NodeBehaviorType,
   ObjectBehaviorOptions,
+  SubflowBehaviorOptions,
 } from "./types/behaviors";
 
+// Node data schemas (generated inspector fields and validation)
+export { createDefaultFieldValue, normalizeNodeDataSchema, validateNodeData } from "./core/node/dataSchema";
+export type {
+  ArrayFieldDescriptor,
+  BooleanFieldDescriptor,
+  EnumFieldDescriptor,
+  EnumFieldOption,
+  NodeDataFieldDescriptor,
+  NodeDataFieldList,
+  NodeDataJsonSchema,
+  NodeDataSchema,
+  NodeDataValidationCode,
+  NodeDataValidationIssue,
+  NodeDataValueDescriptor,
+  NumberFieldDescriptor,
+  ObjectFieldDescriptor,
+  StringFieldDescriptor,
+} from "./types/dataSchema";
+
+// Subflows: nested graphs collapsed into a single node
+export { SubflowNodeDefinition, isSubflowNodeData } from "./node-definitions/subflow";
+export type { SubflowNodeData, SubflowPortBinding } from "./node-definitions/subflow";
+export { collapseNodesToSubflow, expandSubflowNode } from "./contexts/composed/node-editor/utils/subflowOperations";
+export type {
+  CollapseToSubflowOptions,
+  ExpandSubflowOptions,
+} from "./contexts/composed/node-editor/utils/subflowOperations";
+export { useSubflowNavigation } from "./contexts/subflow/context";
+export type { SubflowBreadcrumb, SubflowNavigationValue } from "./contexts/subflow/context";
+
+// Connection labels stored in Connection.data
+export {
+  CONNECTION_LABEL_DATA_KEYS,
+  DEFAULT_CONNECTION_LABEL_POSITION,
+  collectConnectionLabelObstacles,
+  estimateConnectionLabelSize,
+  getConnectionLabel,
+  placeConnectionLabel,
+  setConnectionLabel,
+} from "./core/connection/label";
+export type { ConnectionLabel, ConnectionLabelPlacement } from "./core/connection/label";
+
+// Orthogonal connection routing
+export {
+  DEFAULT_ORTHOGONAL_CORNER_RADIUS,
+  DEFAULT_ORTHOGONAL_PADDING,
+  createRoundedOrthogonalPathModel,
+  routeOrthogonalPath,
+} from "./core/connection/orthogonal";
+export type { OrthogonalRouteParams } from "./core/connection/orthogonal";
+
+// Image export (SVG/PNG)
+export { GRAPH_EXPORT_THEME_VARIABLES, exportGraphToSvg } from "./core/export/svgExport";
+export type { GraphSvgExport, GraphSvgExportOptions } from "./core/export/svgExport";
+export { useGraphImageExport } from "./contexts/composed/node-editor/hooks/useGraphImageExport";
+export type {
+  GraphImageExport,
+  GraphImageExportOptions,
+} from "./contexts/composed/node-editor/hooks/useGraphImageExport";
+export { downloadBlob, rasterizeSvgToPng, readThemeVariables } from "./utils/imageExport";
+export type { RasterizeSvgOptions } from "./utils/imageExport";
+
+// Versioned documents and node data migrations
+export {
+  DEFAULT_NODE_DEFINITION_VERSION,
+  NODE_EDITOR_DOCUMENT_FORMAT,
+  NODE_EDITOR_DOCUMENT_VERSION,
+  createNodeEditorDocument,
+  getNodeDefinitionVersion,
+  hasDocumentMigrationChanges,
+  isNodeEditorDocument,
+  migrateNodeEditorDocument,
+  tryMigrateNodeEditorDocument,
+} from "./core/document/migration";
+export type {
+  DocumentMigrationReport,
+  DocumentMigrationResult,
+  NodeEditorDocument,
+  NodeMigrationFailure,
+  NodeMigrationRecord,
+} from "./core/document/migration";
+
+// Smart alignment guides
+export { computeAlignmentSnap, getBoundsUnion } from "./core/geometry/alignment";
+export type {
+  AlignmentAxis,
+  AlignmentGuideLine,
+  AlignmentGuides,
+  AlignmentSnapResult,
+  SpacingGuide,
+} from "./core/geometry/alignment";
+
+// Find in graph
+export { createGraphSearchPattern, findNodesInGraph, matchNode, replaceInNodeData } from "./core/node/graphSearch";
+export type {
+  GraphSearchField,
+  GraphSearchFieldMatch,
+  GraphSearchOptions,
+  GraphSearchResult,
+  NodeDataReplaceResult,
+} from "./core/node/graphSearch";
+export {
+  GraphSearchProvider,
+  useGraphSearchActions,
+  useGraphSearchHighlight,
+  useGraphSearchState,
+} from "./contexts/graph-search/context";
+export type {
+  GraphSearchActions,
+  GraphSearchHighlight,
+  GraphSearchProviderProps,
+  GraphSearchSnapshot,
+  GraphSearchToggles,
+} from "./contexts/graph-search/context";
+export {
+  getViewportCenteredOn,
+  useViewportAnimation,
+} from "./contexts/composed/canvas/viewport/hooks/useViewportAnimation";
+
+// Keyboard navigation and screen-reader support
+export { findNodeInDirection, getEntryNodeId } from "./core/node/spatialNavigation";
+export type { NavigationDirection } from "./core/node/spatialNavigation";
+export { getNodeAccessibleName, getPortAccessibleName } from "./core/node/accessibleName";
+export {
+  KeyboardNavigationProvider,
+  useKeyboardNavigationActions,
+  useKeyboardNavigationState,
+  useNodeKeyboardFocus,
+  usePortTabIndex,
+} from "./contexts/keyboard-navigation/context";
+export type {
+  CanvasAnnouncement,
+  KeyboardNavigationActions,
+  KeyboardNavigationProviderProps,
+  KeyboardNavigationSnapshot,
+} from "./contexts/keyboard-navigation/context";
+
+// Connection waypoints (reroute points)
+export {
+  createPortSideWaypointPathModel,
+  createWaypointBezierPathModel,
+  getConnectionWaypoints,
+  insertConnectionWaypoint,
+  moveConnectionWaypoint,
+  removeConnectionWaypoint,
+  routeOrthogonalPathThroughWaypoints,
+  translateConnectionWaypoints,
+  translateWaypointsWithNodes,
+} from "./core/connection/waypoints";
+export type { OrthogonalWaypointRouteParams, WaypointBezierOptions } from "./core/connection/waypoints";
+
+// Splicing nodes into connections
+export {
+  doesPathModelCrossBounds,
+  findSplicePorts,
+  planConnectionSplice,
+  planNodeDetach,
+} from "./core/connection/splice";
+export type {
+  ConnectionRewireContext,
+  ConnectionRewirePlan,
+  ConnectionSpliceParams,
+  NodeDetachParams,
+} from "./core/connection/splice";
+
+// Context menu contributions
+export {
+  collectContextMenuEntries,
+  createContextMenuRegistry,
+  isContextMenuItemEnabled,
+  isContextMenuSeparator,
+  resolveVisibleContextMenuEntries,
+} from "./core/menu/contextMenu";
+export type { ContextMenuRegistry } from "./core/menu/contextMenu";
+export {
+  ContextMenuContributionProvider,
+  useContextMenuEntries,
+  useContextMenuRegistry,
+} from "./contexts/context-menu/context";
+export type { ContextMenuContributionProviderProps } from "./contexts/context-menu/context";
+export type {
+  ContextMenuActionContext,
+  ContextMenuContribution,
+  ContextMenuEntry,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextTarget,
+  ContextTargetType,
+} from "./types/contextMenu";
+
+// Plugins and action middleware
+export { selectNodeEditorPlugins } from "./core/plugin/plugins";
+export type { PluginLoadPolicy, SkippedPlugin } from "./core/plugin/plugins";
+export { NodeEditorPluginProvider, useLoadedPlugins, useNodeEditorPlugins } from "./contexts/plugins/context";
+export type { NodeEditorPluginProviderProps } from "./contexts/plugins/context";
+export type { NodeEditorPlugin, NodeEditorPluginContext, NodeEditorPluginShortcut } from "./types/plugin";
+export {
+  applyActionMiddleware,
+  createAsyncActionMiddleware,
+} from "./contexts/composed/node-editor/utils/actionMiddleware";
+export type {
+  AsyncActionMiddlewareOptions,
+  NodeEditorActionMiddleware,
+  NodeEditorAsyncActionHandler,
+  NodeEditorDispatch,
+  NodeEditorMiddlewareApi,
+} from "./contexts/composed/node-editor/utils/actionMiddleware";
+export type { NodeEditorAction } from "./contexts/composed/node-editor/actions";
+export type { KeyboardShortcut } from "./contexts/composed/keyboard-shortcut/context";
+
 // Core graph types used by custom definitions
 export type { Connection, ConnectionId, Node, NodeId, Port, PortId } from "./types/core";
 
@@ -0,0 +1,124 @@
+/**
+ * @file Tests for the mergeable collaboration document
+ */
+import type { NodeEditorData } from "../../types/core";
+import { applyCollaborationOperations, createCollaborationDocument, getCollaborationSnapshot } from "./document";
+import type { CollaborationOperation } from "./document";
+import { createCollaborationOperations } from "./operations";
+
+const makeData = (): NodeEditorData => ({
+  nodes: {
+    a: { id: "a", type: "standard", position: { x: 0, y: 0 }, data: { title: "A", value: 1 } },
+    b: { id: "b", type: "standard", position: { x: 100, y: 0 }, data: { title: "B" } },
+  },
+  connections: {
+    c1: { id: "c1", fromNodeId: "a", fromPortId: "out", toNodeId: "b", toPortId: "in" },
+  },
+});
+
+const edit = (
+  data: NodeEditorData,
+  update: (draft: NodeEditorData) => NodeEditorData,
+  counter: number,
+  siteId: string,
+) => createCollaborationOperations(data, update(data), { counter, siteId });
+
+describe("collaboration document", () => {
+  it("merges concurrent edits to different fields of the same node", () => {
+    const initial = makeData();
+    const moved = edit(
+      initial,
+      (d) => ({ ...d, nodes: { ...d.nodes, a: { ...d.nodes.a, position: { x: 50, y: 50 } } } }),
+      1,
+      "site-1",
+    );
+    const renamed = edit(
+      initial,
+      (d) => ({ ...d, nodes: { ...d.nodes, a: { ...d.nodes.a, data: { ...d.nodes.a.data, title: "Renamed" } } } }),
+      1,
+      "site-2",
+    );
+
+    const first = applyCollaborationOperations(createCollaborationDocument(initial), [...moved, ...renamed]);
+    const second = applyCollaborationOperations(createCollaborationDocument(initial), [...renamed, ...moved]);
+
+    expect(first.data).toEqual(second.data);
+    expect(first.data.nodes.a).toEqual({
+      id: "a",
+      type: "standard",
+      position: { x: 50, y: 50 },
+      data: { title: "Renamed", value: 1 },
+    });
+  });
+
+  it("resolves conflicting writes to the same field by stamp regardless of delivery order", () => {
+    const initial = makeData();
+    const rename = (title: string) => (d: NodeEditorData) => ({
+      ...d,
+      nodes: { ...d.nodes, b: { ...d.nodes.b, data: { title } } },
+    });
+    const early = edit(initial, rename("Early"), 1, "site-2");
+    const late = edit(initial, rename("Late"), 2, "site-1");
+
+    const first = applyCollaborationOperations(createCollaborationDocument(initial), [...early, ...late]);
+    const second = applyCollaborationOperations(
+      applyCollaborationOperations(createCollaborationDocument(initial), late),
+      early,
+    );
+
+    expect(first.data.nodes.b.data.title).toBe("Late");
+    expect(second.data.nodes.b.data.title).toBe("Late");
+    expect(second.clock).toBe(2);
+  });
+
+  it("hides connections whose endpoint was deleted concurrently", () => {
+    const initial = makeData();
+    const deleteB = edit(initial, (d) => ({ nodes: { a: d.nodes.a }, connections: {} }), 1, "site-1");
+    const connectAgain: CollaborationOperation[] = edit(
+      initial,
+      (d) => ({
+        ...d,
+        connections: {
+          ...d.connections,
+          c2: { id: "c2", fromNodeId: "a", fromPortId: "out2", toNodeId: "b", toPortId: "in" },
+        },
+      }),
+      1,
+      "site-2",
+    );
+
+    const document = applyCollaborationOperations(createCollaborationDocument(initial), [...connectAgain, ...deleteB]);
+
+    expect(Object.keys(document.data.nodes)).toEqual(["a"]);
+    expect(document.data.connections).toEqual({});
+  });
+
+  it("ignores replayed operations and keeps untouched entities by reference", () => {
+    const initial = makeData();
+    const operations = edit(
+      initial,
+      (d) => ({ ...d, nodes: { ...d.nodes, a: { ...d.nodes.a, position: { x: 5, y: 5 } } } }),
+      1,
+      "site-1",
+    );
+    const document = createCollaborationDocument(initial);
+    const once = applyCollaborationOperations(document, operations);
+    const twice = applyCollaborationOperations(once, operations);
+
+    expect(twice).toBe(once);
+    expect(once.data.nodes.b).toBe(initial.nodes.b);
+    expect(once.data.connections).toBe(document.data.connections);
+  });
+
+  it("brings an empty replica up to date from a snapshot", () => {
+    const initial = makeData();
+    const source = applyCollaborationOperations(
+      createCollaborationDocument(initial),
+      edit(initial, (d) => ({ ...d, nodes: { ...d.nodes, b: { ...d.nodes.b, locked: true } } }), 1, "site-1"),
+    );
+
+    const replica = applyCollaborationOperations(createCollaborationDocument(), getCollaborationSnapshot(source));
+
+    expect(replica.data).toEqual(source.data);
+  });
+});
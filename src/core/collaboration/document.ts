@@ -0,0 +1,277 @@
+/**
+ * @file Mergeable collaboration document
+ * Stores editor data as last-writer-wins registers, one per node/connection field, so concurrent
+ * edits to different fields (or different `data` keys) merge instead of overwriting each other.
+ * Applying operations is commutative and idempotent: every replica that receives the same
+ * operations converges to the same editor data regardless of delivery order.
+ */
+import type { Connection, Node, NodeEditorData } from "../../types/core";
+
+/**
+ * Lamport timestamp; ties between sites are broken by `siteId`.
+ */
+export type LamportStamp = {
+  counter: number;
+  siteId: string;
+};
+
+export type CollaborationTarget = "node" | "connection";
+
+/**
+ * Write to a single register.
+ * `field` is `"$exists"`, a top-level node/connection field, or `"data.<key>"` for a node data key.
+ * A missing `value` removes the field.
+ */
+export type CollaborationOperation = {
+  target: CollaborationTarget;
+  id: string;
+  field: string;
+  value?: unknown;
+  stamp: LamportStamp;
+};
+
+export type CollaborationRegister = {
+  value: unknown;
+  stamp: LamportStamp;
+};
+
+type EntityRegisters = Record<string, CollaborationRegister>;
+
+export type CollaborationDocument = {
+  nodes: Record<string, EntityRegisters>;
+  connections: Record<string, EntityRegisters>;
+  /** Editor data materialized from the registers */
+  data: NodeEditorData;
+  /** Highest Lamport counter seen so far */
+  clock: number;
+};
+
+/** Register recording whether the entity exists; removal keeps the other registers as tombstones */
+export const EXISTS_FIELD = "$exists";
+/** Prefix for registers that hold a single node data key */
+export const DATA_FIELD_PREFIX = "data.";
+
+// Stamp of registers built from initial data, older than any edit
+const INITIAL_STAMP: LamportStamp = { counter: 0, siteId: "" };
+
+/**
+ * Total order over stamps.
+ * @returns a negative number when `a` is older than `b`, positive when newer, 0 when equal
+ */
+export const compareStamps = (a: LamportStamp, b: LamportStamp): number => {
+  if (a.counter !== b.counter) {
+    return a.counter - b.counter;
+  }
+  if (a.siteId === b.siteId) {
+    return 0;
+  }
+  return a.siteId < b.siteId ? -1 : 1;
+};
+
+const hasOwn = (target: object, key: string): boolean => Object.prototype.hasOwnProperty.call(target, key);
+
+/**
+ * Split a node into register values.
+ */
+export const nodeToFields = (node: Node): Record<string, unknown> => {
+  const fields: Record<string, unknown> = {};
+  (Object.keys(node) as Array<keyof Node>).forEach((key) => {
+    if (key === "id" || key === "data" || node[key] === undefined) {
+      return;
+    }
+    fields[key] = node[key];
+  });
+  Object.keys(node.data).forEach((key) => {
+    if (node.data[key] !== undefined) {
+      fields[`${DATA_FIELD_PREFIX}${key}`] = node.data[key];
+    }
+  });
+  return fields;
+};
+
+/**
+ * Split a connection into register values.
+ */
+export const connectionToFields = (connection: Connection): Record<string, unknown> => {
+  const fields: Record<string, unknown> = {};
+  (Object.keys(connection) as Array<keyof Connection>).forEach((key) => {
+    if (key === "id" || connection[key] === undefined) {
+      return;
+    }
+    fields[key] = connection[key];
+  });
+  return fields;
+};
+
+const isPresent = (registers: EntityRegisters | undefined): registers is EntityRegisters =>
+  Boolean(registers && registers[EXISTS_FIELD]?.value === true);
+
+const materializeNode = (id: string, registers: EntityRegisters | undefined): Node | undefined => {
+  if (!isPresent(registers)) {
+    return undefined;
+  }
+  const node: Record<string, unknown> = { id };
+  const data: Record<string, unknown> = {};
+  Object.keys(registers).forEach((field) => {
+    const { value } = registers[field];
+    if (field === EXISTS_FIELD || value === undefined) {
+      return;
+    }
+    if (field.startsWith(DATA_FIELD_PREFIX)) {
+      data[field.slice(DATA_FIELD_PREFIX.length)] = value;
+      return;
+    }
+    node[field] = value;
+  });
+  if (typeof node.type !== "string" || !node.position) {
+    return undefined;
+  }
+  node.data = data;
+  return node as Node;
+};
+
+const materializeConnection = (
+  id: string,
+  registers: EntityRegisters | undefined,
+  nodes: NodeEditorData["nodes"],
+): Connection | undefined => {
+  if (!isPresent(registers)) {
+    return undefined;
+  }
+  const connection: Record<string, unknown> = { id };
+  Object.keys(registers).forEach((field) => {
+    const { value } = registers[field];
+    if (field !== EXISTS_FIELD && value !== undefined) {
+      connection[field] = value;
+    }
+  });
+  // Concurrent deletes can orphan a connection; hide it until both ends exist again
+  if (!nodes[connection.fromNodeId as string] || !nodes[connection.toNodeId as string]) {
+    return undefined;
+  }
+  return connection as Connection;
+};
+
+const toRegisters = (fields: Record<string, unknown>): EntityRegisters => {
+  const registers: EntityRegisters = { [EXISTS_FIELD]: { value: true, stamp: INITIAL_STAMP } };
+  Object.keys(fields).forEach((field) => {
+    registers[field] = { value: fields[field], stamp: INITIAL_STAMP };
+  });
+  return registers;
+};
+
+/**
+ * Create a document from editor data.
+ * Replicas created from the same data start identical, so they only need to exchange later edits.
+ */
+export const createCollaborationDocument = (data?: NodeEditorData): CollaborationDocument => {
+  const nodes: Record<string, EntityRegisters> = {};
+  const connections: Record<string, EntityRegisters> = {};
+  Object.values(data?.nodes ?? {}).forEach((node) => {
+    nodes[node.id] = toRegisters(nodeToFields(node));
+  });
+  Object.values(data?.connections ?? {}).forEach((connection) => {
+    connections[connection.id] = toRegisters(connectionToFields(connection));
+  });
+  return {
+    nodes,
+    connections,
+    data: { nodes: { ...data?.nodes }, connections: { ...data?.connections } },
+    clock: 0,
+  };
+};
+
+/**
+ * Apply operations to a document, returning a new document.
+ * Operations older than the register they target are ignored, so replaying or reordering is safe.
+ * Unchanged nodes and connections keep their object identity in `data`.
+ */
+export const applyCollaborationOperations = (
+  document: CollaborationDocument,
+  operations: readonly CollaborationOperation[],
+): CollaborationDocument => {
+  const nodes = { ...document.nodes };
+  const connections = { ...document.connections };
+  const touchedNodes = new Set<string>();
+  const touchedConnections = new Set<string>();
+  let clock = document.clock;
+
+  operations.forEach((operation) => {
+    clock = Math.max(clock, operation.stamp.counter);
+    const registers = operation.target === "node" ? nodes : connections;
+    const current = registers[operation.id];
+    const existing = current ? current[operation.field] : undefined;
+    if (existing && compareStamps(operation.stamp, existing.stamp) <= 0) {
+      return;
+    }
+    registers[operation.id] = { ...current, [operation.field]: { value: operation.value, stamp: operation.stamp } };
+    (operation.target === "node" ? touchedNodes : touchedConnections).add(operation.id);
+  });
+
+  if (touchedNodes.size === 0 && touchedConnections.size === 0) {
+    return clock === document.clock ? document : { ...document, clock };
+  }
+
+  const nextNodes = { ...document.data.nodes };
+  const existenceChanged = new Set<string>();
+  touchedNodes.forEach((id) => {
+    const node = materializeNode(id, nodes[id]);
+    if (Boolean(node) !== hasOwn(nextNodes, id)) {
+      existenceChanged.add(id);
+    }
+    if (node) {
+      nextNodes[id] = node;
+    } else {
+      delete nextNodes[id];
+    }
+  });
+
+  // Connections depend on their endpoints, so re-check those attached to nodes that appeared or vanished
+  if (existenceChanged.size > 0) {
+    Object.keys(connections).forEach((id) => {
+      const from = connections[id].fromNodeId?.value as string | undefined;
+      const to = connections[id].toNodeId?.value as string | undefined;
+      if ((from && existenceChanged.has(from)) || (to && existenceChanged.has(to))) {
+        touchedConnections.add(id);
+      }
+    });
+  }
+
+  const nextConnections = touchedConnections.size > 0 ? { ...document.data.connections } : document.data.connections;
+  touchedConnections.forEach((id) => {
+    const connection = materializeConnection(id, connections[id], nextNodes);
+    if (connection) {
+      nextConnections[id] = connection;
+    } else {
+      delete nextConnections[id];
+    }
+  });
+
+  return {
+    nodes,
+    connections,
+    data: {
+      ...document.data,
+      nodes: touchedNodes.size > 0 ? nextNodes : document.data.nodes,
+      connections: nextConnections,
+    },
+    clock,
+  };
+};
+
+/**
+ * Every register of the document as operations, used to bring a new replica up to date.
+ */
+export const getCollaborationSnapshot = (document: CollaborationDocument): CollaborationOperation[] => {
+  const operations: CollaborationOperation[] = [];
+  (["node", "connection"] as const).forEach((target) => {
+    const entities = target === "node" ? document.nodes : document.connections;
+    Object.keys(entities).forEach((id) => {
+      Object.keys(entities[id]).forEach((field) => {
+        const { value, stamp } = entities[id][field];
+        operations.push({ target, id, field, value, stamp });
+      });
+    });
+  });
+  return operations;
+};
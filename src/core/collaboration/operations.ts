@@ -0,0 +1,97 @@
+/**
+ * @file Conversion of editor changes into collaboration operations
+ * Each editor action produces a new `NodeEditorData`; the difference to the previous data is
+ * expressed as register writes so it can be merged with concurrent remote edits.
+ */
+import type { Connection, Node, NodeEditorData } from "../../types/core";
+import type { CollaborationOperation, CollaborationTarget, LamportStamp } from "./document";
+import { EXISTS_FIELD, connectionToFields, nodeToFields } from "./document";
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+  // Positions and sizes are recreated on every move; compare them by value
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const diffFields = (
+  target: CollaborationTarget,
+  id: string,
+  previous: Record<string, unknown> | null,
+  next: Record<string, unknown> | null,
+  stamp: LamportStamp,
+): CollaborationOperation[] => {
+  if (!next) {
+    return [{ target, id, field: EXISTS_FIELD, value: false, stamp }];
+  }
+  const operations: CollaborationOperation[] = [];
+  if (!previous) {
+    operations.push({ target, id, field: EXISTS_FIELD, value: true, stamp });
+  }
+  const fields = new Set([...Object.keys(previous ?? {}), ...Object.keys(next)]);
+  fields.forEach((field) => {
+    if (previous && isSameValue(previous[field], next[field])) {
+      return;
+    }
+    operations.push({ target, id, field, value: next[field], stamp });
+  });
+  return operations;
+};
+
+/**
+ * Compute the operations that turn `previous` into `next`.
+ * Unchanged nodes and connections are skipped by reference, so the cost follows the size of the edit.
+ */
+export const createCollaborationOperations = (
+  previous: NodeEditorData,
+  next: NodeEditorData,
+  stamp: LamportStamp,
+): CollaborationOperation[] => {
+  const operations: CollaborationOperation[] = [];
+
+  if (previous.nodes !== next.nodes) {
+    const nodeIds = new Set([...Object.keys(previous.nodes), ...Object.keys(next.nodes)]);
+    nodeIds.forEach((id) => {
+      const prevNode: Node | undefined = previous.nodes[id];
+      const nextNode: Node | undefined = next.nodes[id];
+      if (prevNode === nextNode) {
+        return;
+      }
+      operations.push(
+        ...diffFields(
+          "node",
+          id,
+          prevNode ? nodeToFields(prevNode) : null,
+          nextNode ? nodeToFields(nextNode) : null,
+          stamp,
+        ),
+      );
+    });
+  }
+
+  if (previous.connections !== next.connections) {
+    const connectionIds = new Set([...Object.keys(previous.connections), ...Object.keys(next.connections)]);
+    connectionIds.forEach((id) => {
+      const prevConnection: Connection | undefined = previous.connections[id];
+      const nextConnection: Connection | undefined = next.connections[id];
+      if (prevConnection === nextConnection) {
+        return;
+      }
+      operations.push(
+        ...diffFields(
+          "connection",
+          id,
+          prevConnection ? connectionToFields(prevConnection) : null,
+          nextConnection ? connectionToFields(nextConnection) : null,
+          stamp,
+        ),
+      );
+    });
+  }
+
+  return operations;
+};
@@ -0,0 +1,67 @@
+/**
+ * @file Tests for presence sources
+ */
+import { createLoopbackCollaborationHub } from "./transport";
+import {
+  arePresenceUsersEqual,
+  createLocalPresenceSource,
+  createTransportPresenceSource,
+  type PresenceState,
+} from "./presence";
+
+const makeState = (id: string, selectedNodeIds: string[] = []): PresenceState => ({
+  user: { id, name: id.toUpperCase(), color: "#ff0000" },
+  pointer: { x: 10, y: 20 },
+  selectedNodeIds,
+  selectedConnectionIds: [],
+});
+
+describe("presence sources", () => {
+  it("local source delivers scripted peers and records the published state", () => {
+    const source = createLocalPresenceSource([makeState("a")]);
+    const received: Array<readonly PresenceState[]> = [];
+    source.subscribe((peers) => received.push(peers));
+
+    source.setPeers([makeState("a", ["n1"]), makeState("b")]);
+    source.publish(makeState("local"));
+
+    expect(received.map((peers) => peers.map((peer) => peer.user.id))).toEqual([["a"], ["a", "b"]]);
+    expect(source.getPublished()?.user.id).toBe("local");
+  });
+
+  it("transport source shares states between sites and drops users that leave", () => {
+    const hub = createLoopbackCollaborationHub();
+    const siteA = createTransportPresenceSource(hub.connect(), "a");
+    const siteB = createTransportPresenceSource(hub.connect(), "b");
+    const seenByA: Array<readonly PresenceState[]> = [];
+    siteA.subscribe((peers) => seenByA.push(peers));
+    siteB.subscribe(() => {});
+
+    siteB.publish(makeState("b", ["n1"]));
+    expect(seenByA.at(-1)?.map((peer) => peer.selectedNodeIds)).toEqual([["n1"]]);
+
+    siteB.publish(null);
+    expect(seenByA.at(-1)).toEqual([]);
+  });
+
+  it("transport source re-sends the local state to peers that join later", () => {
+    const hub = createLoopbackCollaborationHub();
+    const siteA = createTransportPresenceSource(hub.connect(), "a");
+    siteA.subscribe(() => {});
+    siteA.publish(makeState("a"));
+
+    const siteB = createTransportPresenceSource(hub.connect(), "b");
+    const seenByB: Array<readonly PresenceState[]> = [];
+    siteB.subscribe((peers) => seenByB.push(peers));
+    siteB.publish(makeState("b"));
+
+    expect(seenByB.at(-1)?.map((peer) => peer.user.id)).toEqual(["a"]);
+  });
+
+  it("compares user lists by content", () => {
+    const user = { id: "a", color: "#000" };
+    expect(arePresenceUsersEqual([user], [{ ...user }])).toBe(true);
+    expect(arePresenceUsersEqual([user], [{ ...user, color: "#fff" }])).toBe(false);
+    expect(arePresenceUsersEqual([user], [])).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * @file Remote presence: pointers, selections and viewports of other users
+ * Presence is ephemeral and never merged into the document; each user simply publishes
+ * their latest state and the editor renders whatever the source reports for the others.
+ */
+import type { Bounds, Position } from "../../types/core";
+import type { CollaborationMessage, CollaborationTransport } from "./transport";
+
+export type PresenceUser = {
+  id: string;
+  /** Label shown next to the remote cursor */
+  name?: string;
+  /** CSS color used for the cursor, selection outlines and minimap viewport */
+  color: string;
+};
+
+export type PresenceState = {
+  user: PresenceUser;
+  /** Pointer position in canvas coordinates; undefined while the pointer is outside the canvas */
+  pointer?: Position;
+  selectedNodeIds: readonly string[];
+  selectedConnectionIds: readonly string[];
+  /** Visible canvas area in canvas coordinates */
+  viewport?: Bounds;
+};
+
+export type PresenceSource = {
+  /** Publish the local user's state; `null` when the local user leaves */
+  publish: (state: PresenceState | null) => void;
+  /** Listen for the states of the other users; the listener receives the full list on every change */
+  subscribe: (listener: (peers: readonly PresenceState[]) => void) => () => void;
+};
+
+export type LocalPresenceSource = PresenceSource & {
+  /** Replace the simulated remote users */
+  setPeers: (peers: readonly PresenceState[]) => void;
+  /** Last state published by the editor */
+  getPublished: () => PresenceState | null;
+};
+
+/**
+ * In-memory presence source with scripted peers, for offline use, demos and tests.
+ */
+export const createLocalPresenceSource = (initialPeers: readonly PresenceState[] = []): LocalPresenceSource => {
+  const listeners = new Set<(peers: readonly PresenceState[]) => void>();
+  let peers = initialPeers;
+  let published: PresenceState | null = null;
+
+  return {
+    publish: (state) => {
+      published = state;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(peers);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setPeers: (next) => {
+      peers = next;
+      Array.from(listeners).forEach((listener) => listener(peers));
+    },
+    getPublished: () => published,
+  };
+};
+
+/**
+ * Presence source that shares states over a collaboration transport.
+ * The local state is re-sent whenever a new peer shows up, so late joiners see everyone.
+ */
+export const createTransportPresenceSource = (transport: CollaborationTransport, siteId: string): PresenceSource => {
+  const listeners = new Set<(peers: readonly PresenceState[]) => void>();
+  const peers = new Map<string, PresenceState>();
+  let published: PresenceState | null = null;
+  let unsubscribeTransport: (() => void) | null = null;
+
+  const notify = () => {
+    const snapshot = Array.from(peers.values());
+    Array.from(listeners).forEach((listener) => listener(snapshot));
+  };
+
+  const handleMessage = (message: CollaborationMessage) => {
+    if (message.type !== "presence" || message.siteId === siteId) {
+      return;
+    }
+    const isNewPeer = !peers.has(message.siteId);
+    if (message.state) {
+      peers.set(message.siteId, message.state);
+    } else {
+      peers.delete(message.siteId);
+    }
+    notify();
+    if (isNewPeer && message.state && published) {
+      transport.send({ type: "presence", siteId, state: published });
+    }
+  };
+
+  return {
+    publish: (state) => {
+      published = state;
+      transport.send({ type: "presence", siteId, state });
+    },
+    subscribe: (listener) => {
+      if (!unsubscribeTransport) {
+        unsubscribeTransport = transport.subscribe(handleMessage);
+      }
+      listeners.add(listener);
+      listener(Array.from(peers.values()));
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && unsubscribeTransport) {
+          unsubscribeTransport();
+          unsubscribeTransport = null;
+          peers.clear();
+        }
+      };
+    },
+  };
+};
+
+const PRESENCE_COLORS = ["#e5484d", "#f76b15", "#30a46c", "#12a594", "#0090ff", "#8e4ec6", "#d6409f", "#ab6400"];
+
+/**
+ * Pick a stable color for a user id.
+ */
+export const getPresenceColor = (userId: string): string => {
+  const hash = Array.from(userId).reduce((acc, char) => (acc * 31 + char.charCodeAt(0)) >>> 0, 0);
+  return PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+};
+
+/**
+ * Compare user lists by identity and appearance, ignoring array identity.
+ */
+export const arePresenceUsersEqual = (a: readonly PresenceUser[], b: readonly PresenceUser[]): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (a.length !== b.length) {
+    return false;
+  }
+  return a.every(
+    (user, index) => user.id === b[index].id && user.color === b[index].color && user.name === b[index].name,
+  );
+};
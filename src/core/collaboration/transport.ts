@@ -0,0 +1,153 @@
+/**
+ * @file Pluggable transports for collaboration messages
+ * A transport only moves messages between replicas; merging is handled by the document.
+ */
+import type { CollaborationOperation } from "./document";
+import type { PresenceState } from "./presence";
+
+export type CollaborationMessage =
+  /** Operations produced (or replayed) by `siteId` */
+  | { type: "operations"; siteId: string; operations: CollaborationOperation[] }
+  /** Sent by a replica that just connected; peers answer with a snapshot */
+  | { type: "sync-request"; siteId: string }
+  /** Latest presence of `siteId`; `null` when that user left */
+  | { type: "presence"; siteId: string; state: PresenceState | null };
+
+export type CollaborationTransport = {
+  /** Deliver a message to every other connected replica */
+  send: (message: CollaborationMessage) => void;
+  /** Listen for messages from other replicas */
+  subscribe: (listener: (message: CollaborationMessage) => void) => () => void;
+};
+
+export type LoopbackCollaborationHub = {
+  /** Create a transport endpoint attached to the hub */
+  connect: () => CollaborationTransport;
+  /** Deliver queued messages (manual mode only) */
+  flush: () => void;
+  /** Number of queued messages (manual mode only) */
+  getPendingCount: () => number;
+};
+
+export type LoopbackCollaborationHubOptions = {
+  /** Queue messages until `flush` is called, to simulate latency and concurrent edits */
+  manual?: boolean;
+};
+
+/**
+ * In-memory hub connecting replicas in the same process (tests, demos, split views).
+ */
+export const createLoopbackCollaborationHub = (
+  options: LoopbackCollaborationHubOptions = {},
+): LoopbackCollaborationHub => {
+  const endpoints = new Set<Set<(message: CollaborationMessage) => void>>();
+  const queue: Array<() => void> = [];
+
+  const connect = (): CollaborationTransport => {
+    const listeners = new Set<(message: CollaborationMessage) => void>();
+    endpoints.add(listeners);
+    return {
+      send: (message) => {
+        const deliver = () => {
+          endpoints.forEach((endpoint) => {
+            if (endpoint !== listeners) {
+              Array.from(endpoint).forEach((listener) => listener(message));
+            }
+          });
+        };
+        if (options.manual) {
+          queue.push(deliver);
+          return;
+        }
+        deliver();
+      },
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+    };
+  };
+
+  const flush = () => {
+    while (queue.length > 0) {
+      queue.shift()?.();
+    }
+  };
+
+  return { connect, flush, getPendingCount: () => queue.length };
+};
+
+/**
+ * Transport over a `BroadcastChannel`, connecting editors in tabs of the same origin.
+ */
+export const createBroadcastChannelTransport = (channel: BroadcastChannel | string): CollaborationTransport => {
+  const target = typeof channel === "string" ? new BroadcastChannel(channel) : channel;
+  return {
+    send: (message) => {
+      target.postMessage(message);
+    },
+    subscribe: (listener) => {
+      const handleMessage = (event: MessageEvent<CollaborationMessage>) => listener(event.data);
+      target.addEventListener("message", handleMessage);
+      return () => target.removeEventListener("message", handleMessage);
+    },
+  };
+};
+
+/**
+ * Subset of the WebSocket interface used by `createWebSocketTransport`.
+ */
+export type CollaborationSocket = {
+  readonly readyState: number;
+  send: (data: string) => void;
+  addEventListener: (type: "open" | "message", listener: (event: { data?: unknown }) => void) => void;
+  removeEventListener: (type: "open" | "message", listener: (event: { data?: unknown }) => void) => void;
+};
+
+// WebSocket.OPEN, spelled out so the module works where the WebSocket global is missing
+const SOCKET_OPEN = 1;
+
+/**
+ * Transport over a WebSocket whose server relays every message to the other clients.
+ * Messages sent before the socket opens are queued.
+ */
+export const createWebSocketTransport = (socket: CollaborationSocket): CollaborationTransport => {
+  const outbox: string[] = [];
+  const handleOpen = () => {
+    outbox.splice(0).forEach((data) => socket.send(data));
+  };
+  socket.addEventListener("open", handleOpen);
+
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message);
+      if (socket.readyState === SOCKET_OPEN) {
+        socket.send(data);
+        return;
+      }
+      outbox.push(data);
+    },
+    subscribe: (listener) => {
+      const handleMessage = (event: { data?: unknown }) => {
+        if (typeof event.data !== "string") {
+          return;
+        }
+        const message = (() => {
+          try {
+            return JSON.parse(event.data as string) as CollaborationMessage;
+          } catch {
+            // Not a collaboration message
+            return null;
+          }
+        })();
+        if (message) {
+          listener(message);
+        }
+      };
+      socket.addEventListener("message", handleMessage);
+      return () => socket.removeEventListener("message", handleMessage);
+    },
+  };
+};
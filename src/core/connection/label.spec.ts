@@ -0,0 +1,85 @@
+/**
+ * @file Unit tests for connection label helpers
+ */
+import type { Node } from "../../types/core";
+import type { ConnectionPathModel } from "../../types/connectionBehavior";
+import {
+  collectConnectionLabelObstacles,
+  estimateConnectionLabelSize,
+  getConnectionLabel,
+  placeConnectionLabel,
+  setConnectionLabel,
+} from "./label";
+
+// Horizontal line from (0, 0) to (1000, 0)
+const straightLine: ConnectionPathModel = {
+  toPathData: () => "M 0 0 L 1000 0",
+  pointAt: (t) => ({ x: t * 1000, y: 0, angle: 0 }),
+};
+
+const node = (id: string, x: number, y: number, extra: Partial<Node> = {}): Node => ({
+  id,
+  type: "task",
+  position: { x, y },
+  size: { width: 100, height: 50 },
+  data: {},
+  ...extra,
+});
+
+describe("getConnectionLabel / setConnectionLabel", () => {
+  it("reads the label with a default position", () => {
+    expect(getConnectionLabel({ data: { label: "yes" } })).toEqual({ text: "yes", position: 0.5 });
+    expect(getConnectionLabel({ data: { label: "no", labelPosition: 2 } })).toEqual({ text: "no", position: 1 });
+    expect(getConnectionLabel({ data: { label: "  " } })).toBeNull();
+    expect(getConnectionLabel({})).toBeNull();
+  });
+
+  it("writes the label and removes it when the text is cleared", () => {
+    const labelled = setConnectionLabel({ weight: 1 }, { text: "yes", position: 0.25 });
+    expect(labelled).toEqual({ weight: 1, label: "yes", labelPosition: 0.25 });
+    expect(setConnectionLabel(labelled, { position: 0.75 })).toEqual({ weight: 1, label: "yes", labelPosition: 0.75 });
+    expect(setConnectionLabel(labelled, { text: "" })).toEqual({ weight: 1 });
+  });
+});
+
+describe("placeConnectionLabel", () => {
+  const size = estimateConnectionLabelSize("label");
+
+  it("uses the requested position when nothing is in the way", () => {
+    expect(placeConnectionLabel(straightLine, 0.5, size)).toEqual({ x: 500, y: 0, t: 0.5 });
+  });
+
+  it("slides along the path to avoid obstacles", () => {
+    const placement = placeConnectionLabel(straightLine, 0.5, size, [{ x: 450, y: -30, width: 100, height: 60 }]);
+
+    expect(placement.t).not.toBe(0.5);
+    expect(Math.abs(placement.x - 500)).toBeGreaterThanOrEqual(50 + size.width / 2);
+  });
+
+  it("falls back to the requested position when every candidate overlaps", () => {
+    const placement = placeConnectionLabel(straightLine, 0.3, size, [{ x: -100, y: -50, width: 1200, height: 100 }]);
+
+    expect(placement).toEqual({ x: 300, y: 0, t: 0.3 });
+  });
+});
+
+describe("collectConnectionLabelObstacles", () => {
+  it("returns nearby visible nodes, skipping far, hidden and enclosing nodes", () => {
+    const from = node("from", 0, 0);
+    const to = node("to", 400, 0);
+    const nodes = {
+      from,
+      to,
+      between: node("between", 200, 0),
+      far: node("far", 2000, 2000),
+      hidden: node("hidden", 200, 100, { visible: false }),
+      group: node("group", -50, -50, { size: { width: 300, height: 200 } }),
+    };
+
+    expect(collectConnectionLabelObstacles(nodes, from, to)).toEqual([
+      { x: 0, y: 0, width: 100, height: 50 },
+      { x: 400, y: 0, width: 100, height: 50 },
+      { x: 200, y: 0, width: 100, height: 50 },
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @file Connection labels
+ * Pure functions for reading/writing the label stored in `Connection.data` and for placing it
+ * along the connection path without overlapping nodes.
+ */
+import type { Bounds, Connection, Node, NodeId, Position, Size } from "../../types/core";
+import type { ConnectionPathModel } from "../../types/connectionBehavior";
+import { getNodeSize } from "../../utils/boundingBoxUtils";
+
+/** Keys of `Connection.data` used by the built-in label */
+export const CONNECTION_LABEL_DATA_KEYS = {
+  text: "label",
+  position: "labelPosition",
+} as const;
+
+/** Default position of the label along the path (0 = output port, 1 = input port) */
+export const DEFAULT_CONNECTION_LABEL_POSITION = 0.5;
+
+/** Font size the label is rendered with; also used to estimate its size */
+export const CONNECTION_LABEL_FONT_SIZE = 11;
+
+const LABEL_CHAR_WIDTH = CONNECTION_LABEL_FONT_SIZE * 0.6;
+const LABEL_PADDING_X = 6;
+const LABEL_HEIGHT = CONNECTION_LABEL_FONT_SIZE + 8;
+const OBSTACLE_MARGIN = 4;
+const PLACEMENT_STEP = 0.05;
+const PLACEMENT_MIN = 0.05;
+const PLACEMENT_MAX = 0.95;
+// Connection curves bend at most this far outside the box spanned by their endpoint nodes
+const PATH_REACH = 120;
+
+export type ConnectionLabel = {
+  text: string;
+  /** Position along the path in [0, 1] */
+  position: number;
+};
+
+export type ConnectionLabelPlacement = Position & {
+  /** Position along the path the label was placed at */
+  t: number;
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Read the label of a connection. Returns null when the connection has no (non-empty) label.
+ */
+export const getConnectionLabel = (connection: Pick<Connection, "data">): ConnectionLabel | null => {
+  const text = connection.data?.[CONNECTION_LABEL_DATA_KEYS.text];
+  if (typeof text !== "string" || text.trim().length === 0) {
+    return null;
+  }
+  const position = connection.data?.[CONNECTION_LABEL_DATA_KEYS.position];
+  return {
+    text,
+    position:
+      typeof position === "number" && Number.isFinite(position) ? clamp01(position) : DEFAULT_CONNECTION_LABEL_POSITION,
+  };
+};
+
+/**
+ * Return `Connection.data` with the label fields updated.
+ * An empty text removes the label (and its position).
+ */
+export const setConnectionLabel = (
+  data: Connection["data"],
+  label: Partial<ConnectionLabel>,
+): Record<string, unknown> => {
+  const next: Record<string, unknown> = { ...data };
+  if (label.text !== undefined) {
+    next[CONNECTION_LABEL_DATA_KEYS.text] = label.text;
+  }
+  if (label.position !== undefined) {
+    next[CONNECTION_LABEL_DATA_KEYS.position] = clamp01(label.position);
+  }
+  const text = next[CONNECTION_LABEL_DATA_KEYS.text];
+  if (typeof text !== "string" || text.trim().length === 0) {
+    delete next[CONNECTION_LABEL_DATA_KEYS.text];
+    delete next[CONNECTION_LABEL_DATA_KEYS.position];
+  }
+  return next;
+};
+
+/**
+ * Estimate the rendered size of a label without measuring the DOM.
+ */
+export const estimateConnectionLabelSize = (text: string): Size => ({
+  width: Math.ceil(text.length * LABEL_CHAR_WIDTH) + LABEL_PADDING_X * 2,
+  height: LABEL_HEIGHT,
+});
+
+const overlapsAny = (center: Position, size: Size, obstacles: readonly Bounds[]): boolean => {
+  const left = center.x - size.width / 2 - OBSTACLE_MARGIN;
+  const top = center.y - size.height / 2 - OBSTACLE_MARGIN;
+  const right = center.x + size.width / 2 + OBSTACLE_MARGIN;
+  const bottom = center.y + size.height / 2 + OBSTACLE_MARGIN;
+  return obstacles.some(
+    (box) => left < box.x + box.width && right > box.x && top < box.y + box.height && bottom > box.y,
+  );
+};
+
+/**
+ * Place a label on the path at `position`, sliding it along the path (nearest first)
+ * until it no longer overlaps any obstacle. Falls back to `position` when every candidate overlaps.
+ */
+export const placeConnectionLabel = (
+  model: ConnectionPathModel,
+  position: number,
+  size: Size,
+  obstacles: readonly Bounds[] = [],
+): ConnectionLabelPlacement => {
+  const preferred = clamp01(position);
+  const candidates = [preferred];
+  for (let offset = PLACEMENT_STEP; offset < 1; offset += PLACEMENT_STEP) {
+    [preferred + offset, preferred - offset].forEach((t) => {
+      if (t >= PLACEMENT_MIN && t <= PLACEMENT_MAX) {
+        candidates.push(t);
+      }
+    });
+  }
+
+  for (const t of candidates) {
+    const point = model.pointAt(t);
+    if (!overlapsAny(point, size, obstacles)) {
+      return { x: point.x, y: point.y, t };
+    }
+  }
+
+  const fallback = model.pointAt(preferred);
+  return { x: fallback.x, y: fallback.y, t: preferred };
+};
+
+const toNodeBounds = (node: Node): Bounds => {
+  const size = getNodeSize(node);
+  return { x: node.position.x, y: node.position.y, width: size.width, height: size.height };
+};
+
+const contains = (outer: Bounds, inner: Bounds): boolean =>
+  inner.x >= outer.x &&
+  inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+/**
+ * Collect the bounds of visible nodes near a connection, to be avoided by its label.
+ * Only nodes within reach of the path between `fromNode` and `toNode` are returned;
+ * containers (e.g. groups) enclosing an endpoint are skipped since the label lies inside them.
+ */
+export const collectConnectionLabelObstacles = (
+  nodes: Record<NodeId, Node>,
+  fromNode: Node,
+  toNode: Node,
+): Bounds[] => {
+  const from = toNodeBounds(fromNode);
+  const to = toNodeBounds(toNode);
+  const left = Math.min(from.x, to.x) - PATH_REACH;
+  const top = Math.min(from.y, to.y) - PATH_REACH;
+  const right = Math.max(from.x + from.width, to.x + to.width) + PATH_REACH;
+  const bottom = Math.max(from.y + from.height, to.y + to.height) + PATH_REACH;
+
+  return Object.values(nodes)
+    .filter((node) => node.visible !== false)
+    .map((node) => (node.id === fromNode.id ? from : node.id === toNode.id ? to : toNodeBounds(node)))
+    .filter((box) => box.x < right && box.x + box.width > left && box.y < bottom && box.y + box.height > top)
+    .filter((box) => box === from || box === to || (!contains(box, from) && !contains(box, to)));
+};
@@ -0,0 +1,127 @@
+/**
+ * @file Unit tests for orthogonal connection routing
+ */
+import type { Bounds, Position } from "../../types/core";
+import { createRoundedOrthogonalPathModel, routeOrthogonalPath, simplifyOrthogonalPolyline } from "./orthogonal";
+
+const isOrthogonal = (points: readonly Position[]) =>
+  points.slice(1).every((point, index) => point.x === points[index]!.x || point.y === points[index]!.y);
+
+const crossesBox = (points: readonly Position[], box: Bounds) =>
+  points.slice(1).some((b, index) => {
+    const a = points[index]!;
+    const left = Math.min(a.x, b.x);
+    const right = Math.max(a.x, b.x);
+    const top = Math.min(a.y, b.y);
+    const bottom = Math.max(a.y, b.y);
+    return left < box.x + box.width && right > box.x && top < box.y + box.height && bottom > box.y;
+  });
+
+describe("routeOrthogonalPath", () => {
+  it("draws a straight line between aligned facing ports", () => {
+    expect(
+      routeOrthogonalPath({ from: { x: 0, y: 0 }, to: { x: 300, y: 0 }, fromSide: "right", toSide: "left" }),
+    ).toEqual([
+      { x: 0, y: 0 },
+      { x: 300, y: 0 },
+    ]);
+  });
+
+  it("bends midway between unobstructed ports", () => {
+    expect(
+      routeOrthogonalPath({ from: { x: 0, y: 0 }, to: { x: 300, y: 120 }, fromSide: "right", toSide: "left" }),
+    ).toEqual([
+      { x: 0, y: 0 },
+      { x: 150, y: 0 },
+      { x: 150, y: 120 },
+      { x: 300, y: 120 },
+    ]);
+  });
+
+  it("leaves and enters perpendicular to the port sides", () => {
+    const points = routeOrthogonalPath({
+      from: { x: 0, y: 0 },
+      to: { x: 300, y: 200 },
+      fromSide: "bottom",
+      toSide: "left",
+      padding: 10,
+    });
+
+    expect(isOrthogonal(points)).toBe(true);
+    expect(points[1]).toMatchObject({ x: 0 });
+    expect(points[1]!.y).toBeGreaterThan(0);
+    expect(points.at(-2)).toMatchObject({ y: 200 });
+    expect(points.at(-2)!.x).toBeLessThan(300);
+  });
+
+  it("routes around obstacles between the ports", () => {
+    const obstacle = { x: 100, y: -50, width: 100, height: 100 };
+    const points = routeOrthogonalPath({
+      from: { x: 0, y: 0 },
+      to: { x: 300, y: 0 },
+      fromSide: "right",
+      toSide: "left",
+      obstacles: [obstacle],
+    });
+
+    expect(isOrthogonal(points)).toBe(true);
+    expect(crossesBox(points, obstacle)).toBe(false);
+    expect(points[0]).toEqual({ x: 0, y: 0 });
+    expect(points.at(-1)).toEqual({ x: 300, y: 0 });
+  });
+
+  it("wraps around the source node when the target is behind it", () => {
+    const source = { x: -100, y: -25, width: 100, height: 50 };
+    const points = routeOrthogonalPath({
+      from: { x: 0, y: 0 },
+      to: { x: -200, y: 0 },
+      fromSide: "right",
+      toSide: "left",
+      obstacles: [source],
+    });
+
+    expect(isOrthogonal(points)).toBe(true);
+    expect(crossesBox(points, source)).toBe(false);
+  });
+});
+
+describe("simplifyOrthogonalPolyline", () => {
+  it("removes duplicate and collinear points", () => {
+    expect(
+      simplifyOrthogonalPolyline([
+        { x: 0, y: 0 },
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 20, y: 0 },
+        { x: 20, y: 10 },
+      ]),
+    ).toEqual([
+      { x: 0, y: 0 },
+      { x: 20, y: 0 },
+      { x: 20, y: 10 },
+    ]);
+  });
+});
+
+describe("createRoundedOrthogonalPathModel", () => {
+  const points = [
+    { x: 0, y: 0 },
+    { x: 100, y: 0 },
+    { x: 100, y: 100 },
+  ];
+
+  it("rounds corners in the path data", () => {
+    expect(createRoundedOrthogonalPathModel(points, 10).toPathData()).toMatch(/^M 0 0 L 90 0 C .+, 100 10 L 100 100$/);
+  });
+
+  it("samples points and tangents along the rendered path", () => {
+    const model = createRoundedOrthogonalPathModel(points, 10);
+
+    expect(model.pointAt(0)).toEqual({ x: 0, y: 0, angle: 0 });
+    expect(model.pointAt(1)).toEqual({ x: 100, y: 100, angle: 90 });
+    const middle = model.pointAt(0.5);
+    expect(middle.x).toBeGreaterThan(90);
+    expect(middle.y).toBeLessThan(10);
+    expect(middle.angle).toBeCloseTo(45, 0);
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * @file Orthogonal connection routing
+ * Routes right-angle (Manhattan) paths between two ports around obstacle bounding boxes,
+ * and builds a path model with rounded corners from the resulting polyline.
+ */
+import type { Bounds, Position } from "../../types/core";
+import type { PortPosition as PortSide } from "../../types/core";
+import type { ConnectionPathModel, ConnectionPathPoint } from "../../types/connectionBehavior";
+import { cubicBezierPoint, cubicBezierTangent } from "../geometry/curve";
+
+/** Clearance kept between a routed path and the obstacles it avoids */
+export const DEFAULT_ORTHOGONAL_PADDING = 16;
+
+/** Radius used to round the corners of routed paths */
+export const DEFAULT_ORTHOGONAL_CORNER_RADIUS = 8;
+
+// Extra cost of a bend, in canvas units, so routes prefer fewer turns over slightly shorter length
+const BEND_PENALTY = 24;
+// Tie-breaker favouring bends on the midline between the ports, which keeps unobstructed elbows centred
+const OFF_MIDLINE_BEND_PENALTY = 1;
+// Sampling resolution used to measure rounded corners
+const CORNER_SAMPLES = 8;
+
+export type OrthogonalRouteParams = {
+  from: Position;
+  to: Position;
+  /** Side of the node the path leaves from */
+  fromSide: PortSide;
+  /** Side of the node the path enters */
+  toSide: PortSide;
+  obstacles?: readonly Bounds[];
+  padding?: number;
+};
+
+// Directions indexed as right, down, left, up
+const DIRECTIONS: readonly Position[] = [
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+  { x: 0, y: -1 },
+];
+
+const SIDE_DIRECTION: Record<PortSide, number> = { right: 0, bottom: 1, left: 2, top: 3 };
+
+const opposite = (direction: number): number => (direction + 2) % 4;
+
+const uniqueSorted = (values: number[]): number[] => Array.from(new Set(values)).sort((a, b) => a - b);
+
+const inflate = (box: Bounds, padding: number): Bounds => ({
+  x: box.x - padding,
+  y: box.y - padding,
+  width: box.width + padding * 2,
+  height: box.height + padding * 2,
+});
+
+const isStrictlyInside = (point: Position, box: Bounds): boolean =>
+  point.x > box.x && point.x < box.x + box.width && point.y > box.y && point.y < box.y + box.height;
+
+/**
+ * Drop zero-length segments and merge collinear points of an axis-aligned polyline.
+ */
+export const simplifyOrthogonalPolyline = (points: readonly Position[]): Position[] => {
+  const deduped = points.filter(
+    (point, index) => index === 0 || point.x !== points[index - 1]!.x || point.y !== points[index - 1]!.y,
+  );
+  return deduped.filter((point, index) => {
+    if (index === 0 || index === deduped.length - 1) {
+      return true;
+    }
+    const prev = deduped[index - 1]!;
+    const next = deduped[index + 1]!;
+    return !((prev.x === point.x && point.x === next.x) || (prev.y === point.y && point.y === next.y));
+  });
+};
+
+/**
+ * Minimal binary heap keyed by cost, used by the route search.
+ */
+const createMinHeap = () => {
+  const items: { cost: number; state: number }[] = [];
+  return {
+    get size() {
+      return items.length;
+    },
+    push(cost: number, state: number) {
+      items.push({ cost, state });
+      let index = items.length - 1;
+      while (index > 0) {
+        const parent = (index - 1) >> 1;
+        if (items[parent]!.cost <= items[index]!.cost) {
+          break;
+        }
+        [items[parent], items[index]] = [items[index]!, items[parent]!];
+        index = parent;
+      }
+    },
+    pop() {
+      const top = items[0]!;
+      const last = items.pop()!;
+      if (items.length > 0) {
+        items[0] = last;
+        let index = 0;
+        for (;;) {
+          const left = index * 2 + 1;
+          const right = left + 1;
+          let smallest = index;
+          if (left < items.length && items[left]!.cost < items[smallest]!.cost) {
+            smallest = left;
+          }
+          if (right < items.length && items[right]!.cost < items[smallest]!.cost) {
+            smallest = right;
+          }
+          if (smallest === index) {
+            break;
+          }
+          [items[smallest], items[index]] = [items[index]!, items[smallest]!];
+          index = smallest;
+        }
+      }
+      return top;
+    },
+  };
+};
+
+const fallbackElbow = (start: Position, end: Position, startDirection: number): Position[] => {
+  if (startDirection % 2 === 0) {
+    const midX = (start.x + end.x) / 2;
+    return [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end];
+  }
+  const midY = (start.y + end.y) / 2;
+  return [start, { x: start.x, y: midY }, { x: end.x, y: midY }, end];
+};
+
+/**
+ * Route an orthogonal polyline from `from` to `to`.
+ * The path leaves and enters perpendicular to the given port sides and avoids the (padded) obstacles,
+ * searching a sparse grid built from the obstacle edges for the shortest route with the fewest bends.
+ * Obstacles containing either port stub (e.g. a group around the node) are ignored.
+ * Falls back to a simple elbow when no route exists.
+ */
+export const routeOrthogonalPath = ({
+  from,
+  to,
+  fromSide,
+  toSide,
+  obstacles = [],
+  padding = DEFAULT_ORTHOGONAL_PADDING,
+}: OrthogonalRouteParams): Position[] => {
+  const startDirection = SIDE_DIRECTION[fromSide];
+  // Arriving at the input port means travelling against its outward direction
+  const endDirection = opposite(SIDE_DIRECTION[toSide]);
+  const outward = DIRECTIONS[startDirection]!;
+  const inward = DIRECTIONS[endDirection]!;
+  const start = { x: from.x + outward.x * padding, y: from.y + outward.y * padding };
+  const end = { x: to.x - inward.x * padding, y: to.y - inward.y * padding };
+
+  const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+  const boxes = obstacles
+    .map((box) => inflate(box, padding))
+    .filter((box) => !isStrictlyInside(start, box) && !isStrictlyInside(end, box));
+
+  const xs = uniqueSorted([start.x, end.x, mid.x, ...boxes.flatMap((b) => [b.x, b.x + b.width])]);
+  const ys = uniqueSorted([start.y, end.y, mid.y, ...boxes.flatMap((b) => [b.y, b.y + b.height])]);
+  const bendCost = (at: Position, nextDirection: number) =>
+    BEND_PENALTY + ((nextDirection % 2 === 1 ? at.x === mid.x : at.y === mid.y) ? 0 : OFF_MIDLINE_BEND_PENALTY);
+  const columns = xs.length;
+  const pointIndex = (column: number, row: number) => row * columns + column;
+  const startPoint = pointIndex(xs.indexOf(start.x), ys.indexOf(start.y));
+  const endPoint = pointIndex(xs.indexOf(end.x), ys.indexOf(end.y));
+
+  // Box edges are grid lines, so a segment between neighbouring grid points crosses an obstacle
+  // exactly when its midpoint lies inside one
+  const isBlocked = (a: Position, b: Position) => {
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    return boxes.some((box) => isStrictlyInside(mid, box));
+  };
+
+  const stateCount = columns * ys.length * 4;
+  const costs = new Float64Array(stateCount).fill(Infinity);
+  const previous = new Int32Array(stateCount).fill(-1);
+  const heap = createMinHeap();
+  const startState = startPoint * 4 + startDirection;
+  costs[startState] = 0;
+  heap.push(0, startState);
+
+  const bestEnd = { state: -1, cost: Infinity };
+  while (heap.size > 0) {
+    const { cost, state } = heap.pop();
+    if (cost > costs[state]! || cost >= bestEnd.cost) {
+      continue;
+    }
+    const point = state >> 2;
+    const direction = state & 3;
+    if (point === endPoint) {
+      const arrivalCost =
+        cost +
+        (direction === endDirection ? 0 : bendCost(end, endDirection) * (direction === opposite(endDirection) ? 2 : 1));
+      if (arrivalCost < bestEnd.cost) {
+        bestEnd.state = state;
+        bestEnd.cost = arrivalCost;
+      }
+      continue;
+    }
+    const column = point % columns;
+    const row = (point - column) / columns;
+    const here = { x: xs[column]!, y: ys[row]! };
+    for (let next = 0; next < 4; next += 1) {
+      if (next === opposite(direction)) {
+        continue;
+      }
+      const nextColumn = column + DIRECTIONS[next]!.x;
+      const nextRow = row + DIRECTIONS[next]!.y;
+      if (nextColumn < 0 || nextColumn >= columns || nextRow < 0 || nextRow >= ys.length) {
+        continue;
+      }
+      const there = { x: xs[nextColumn]!, y: ys[nextRow]! };
+      if (isBlocked(here, there)) {
+        continue;
+      }
+      const nextState = pointIndex(nextColumn, nextRow) * 4 + next;
+      const nextCost =
+        cost +
+        Math.abs(there.x - here.x) +
+        Math.abs(there.y - here.y) +
+        (next === direction ? 0 : bendCost(here, next));
+      if (nextCost < costs[nextState]!) {
+        costs[nextState] = nextCost;
+        previous[nextState] = state;
+        heap.push(nextCost, nextState);
+      }
+    }
+  }
+
+  if (bestEnd.state < 0) {
+    return simplifyOrthogonalPolyline([from, ...fallbackElbow(start, end, startDirection), to]);
+  }
+
+  const route: Position[] = [];
+  for (let state = bestEnd.state; state >= 0; state = previous[state]!) {
+    const point = state >> 2;
+    const column = point % columns;
+    route.push({ x: xs[column]!, y: ys[(point - column) / columns]! });
+  }
+  route.reverse();
+  return simplifyOrthogonalPolyline([from, ...route, to]);
+};
+
+type PathPiece =
+  | { kind: "line"; from: Position; to: Position; length: number }
+  | { kind: "curve"; from: Position; cp1: Position; cp2: Position; to: Position; length: number };
+
+const toAngle = (dx: number, dy: number): number => (Math.atan2(dy, dx) * 180) / Math.PI;
+
+const lineLength = (a: Position, b: Position): number => Math.hypot(b.x - a.x, b.y - a.y);
+
+const measureCurve = (from: Position, cp1: Position, cp2: Position, to: Position): number => {
+  const samples = Array.from({ length: CORNER_SAMPLES + 1 }, (_, index) =>
+    cubicBezierPoint(from, cp1, cp2, to, index / CORNER_SAMPLES),
+  );
+  return samples.slice(1).reduce((sum, point, index) => sum + lineLength(samples[index]!, point), 0);
+};
+
+const buildPieces = (points: readonly Position[], cornerRadius: number): PathPiece[] => {
+  const pieces: PathPiece[] = [];
+  const cursor = { point: points[0]! };
+  for (let index = 1; index < points.length; index += 1) {
+    const corner = points[index]!;
+    const next = points[index + 1];
+    if (!next) {
+      pieces.push({ kind: "line", from: cursor.point, to: corner, length: lineLength(cursor.point, corner) });
+      break;
+    }
+    const prev = points[index - 1]!;
+    const incoming = lineLength(prev, corner);
+    const outgoing = lineLength(corner, next);
+    const radius = Math.min(cornerRadius, incoming / 2, outgoing / 2);
+    const entry = {
+      x: corner.x - ((corner.x - prev.x) / incoming) * radius,
+      y: corner.y - ((corner.y - prev.y) / incoming) * radius,
+    };
+    const exit = {
+      x: corner.x + ((next.x - corner.x) / outgoing) * radius,
+      y: corner.y + ((next.y - corner.y) / outgoing) * radius,
+    };
+    pieces.push({ kind: "line", from: cursor.point, to: entry, length: lineLength(cursor.point, entry) });
+    if (radius > 0) {
+      // Quadratic corner through `corner`, expressed as a cubic
+      const cp1 = { x: entry.x + ((corner.x - entry.x) * 2) / 3, y: entry.y + ((corner.y - entry.y) * 2) / 3 };
+      const cp2 = { x: exit.x + ((corner.x - exit.x) * 2) / 3, y: exit.y + ((corner.y - exit.y) * 2) / 3 };
+      pieces.push({ kind: "curve", from: entry, cp1, cp2, to: exit, length: measureCurve(entry, cp1, cp2, exit) });
+    }
+    cursor.point = exit;
+  }
+  return pieces;
+};
+
+const pointOnPiece = (piece: PathPiece, localT: number): ConnectionPathPoint => {
+  if (piece.kind === "line") {
+    const dx = piece.to.x - piece.from.x;
+    const dy = piece.to.y - piece.from.y;
+    return { x: piece.from.x + dx * localT, y: piece.from.y + dy * localT, angle: toAngle(dx, dy) };
+  }
+  const point = cubicBezierPoint(piece.from, piece.cp1, piece.cp2, piece.to, localT);
+  const tangent = cubicBezierTangent(piece.from, piece.cp1, piece.cp2, piece.to, localT);
+  return { x: point.x, y: point.y, angle: toAngle(tangent.x, tangent.y) };
+};
+
+/**
+ * Create a path model for an orthogonal polyline with rounded corners.
+ * `pointAt` is parametrised by length along the rendered path.
+ */
+export const createRoundedOrthogonalPathModel = (
+  points: readonly Position[],
+  cornerRadius: number = DEFAULT_ORTHOGONAL_CORNER_RADIUS,
+): ConnectionPathModel => {
+  const first = points[0] ?? { x: 0, y: 0 };
+  const pieces = points.length < 2 ? [] : buildPieces(points, cornerRadius);
+  const total = pieces.reduce((sum, piece) => sum + piece.length, 0);
+
+  return {
+    toPathData: () =>
+      [
+        `M ${first.x} ${first.y}`,
+        ...pieces.map((piece) =>
+          piece.kind === "line"
+            ? `L ${piece.to.x} ${piece.to.y}`
+            : `C ${piece.cp1.x} ${piece.cp1.y}, ${piece.cp2.x} ${piece.cp2.y}, ${piece.to.x} ${piece.to.y}`,
+        ),
+      ].join(" "),
+    pointAt: (t: number): ConnectionPathPoint => {
+      if (pieces.length === 0 || total === 0) {
+        return { x: first.x, y: first.y, angle: 0 };
+      }
+      const target = total * Math.min(1, Math.max(0, t));
+      let walked = 0;
+      for (const piece of pieces) {
+        if (piece.length > 0 && walked + piece.length >= target) {
+          return pointOnPiece(piece, (target - walked) / piece.length);
+        }
+        walked += piece.length;
+      }
+      const last = pieces.filter((piece) => piece.length > 0).at(-1) ?? pieces[pieces.length - 1]!;
+      return pointOnPiece(last, 1);
+    },
+  };
+};
@@ -60,7 +60,10 @@ export const calculateConnectionHandles = (
   };
 };
 
-const getPortSideUnitVector = (side: PortSide): { x: number; y: number } => {
+/**
+ * Outward unit vector of a port side.
+ */
+export const getPortSideUnitVector = (side: PortSide): { x: number; y: number } => {
   switch (side) {
     case "left": {
       return { x: -1, y: 0 };
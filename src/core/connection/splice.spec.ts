@@ -0,0 +1,101 @@
+/**
+ * @file Unit tests for splicing nodes into connections and detaching them
+ */
+import type { Connection, Node, Port } from "../../types/core";
+import type { ConnectionPathModel } from "../../types/connectionBehavior";
+import { doesPathModelCrossBounds, planConnectionSplice, planNodeDetach, type ConnectionRewireContext } from "./splice";
+
+const node = (id: string): Node => ({ id, type: "test", position: { x: 0, y: 0 }, data: {} });
+
+const port = (nodeId: string, id: string, type: Port["type"], dataType?: string): Port => ({
+  id,
+  nodeId,
+  type,
+  label: id,
+  position: type === "input" ? "left" : "right",
+  dataType,
+});
+
+const ports: Record<string, Port[]> = {
+  a: [port("a", "out", "output", "number")],
+  b: [port("b", "in", "input", "number")],
+  // The text ports come first so the numeric ones have to be picked by compatibility
+  c: [
+    port("c", "text-in", "input", "string"),
+    port("c", "in", "input", "number"),
+    port("c", "text-out", "output", "string"),
+    port("c", "out", "output", "number"),
+  ],
+};
+
+const link = (id: string, from: string, fromPortId: string, to: string, toPortId: string): Connection => ({
+  id,
+  fromNodeId: from,
+  fromPortId,
+  toNodeId: to,
+  toPortId,
+});
+
+const createContext = (connections: Record<string, Connection>): ConnectionRewireContext => ({
+  nodes: { a: node("a"), b: node("b"), c: node("c") },
+  connections,
+  getNodePorts: (nodeId) => ports[nodeId] ?? [],
+  getNodeDefinition: () => undefined,
+});
+
+describe("planConnectionSplice", () => {
+  it("splits the connection through the node's compatible ports", () => {
+    const context = createContext({ ab: link("ab", "a", "out", "b", "in") });
+
+    expect(planConnectionSplice({ ...context, nodeId: "c", connectionId: "ab" })).toEqual({
+      removeConnectionIds: ["ab"],
+      addConnections: [
+        { fromNodeId: "a", fromPortId: "out", toNodeId: "c", toPortId: "in" },
+        { fromNodeId: "c", fromPortId: "out", toNodeId: "b", toPortId: "in" },
+      ],
+    });
+  });
+
+  it("returns null when the node has no free compatible port", () => {
+    const context = createContext({
+      ab: link("ab", "a", "out", "b", "in"),
+      other: link("other", "a", "out", "c", "in"),
+    });
+
+    expect(planConnectionSplice({ ...context, nodeId: "c", connectionId: "ab" })).toBeNull();
+    expect(planConnectionSplice({ ...context, nodeId: "a", connectionId: "ab" })).toBeNull();
+  });
+});
+
+describe("planNodeDetach", () => {
+  it("removes the node's connections and joins its upstream to its downstream", () => {
+    const context = createContext({
+      ac: link("ac", "a", "out", "c", "in"),
+      cb: link("cb", "c", "out", "b", "in"),
+    });
+
+    expect(planNodeDetach({ ...context, nodeId: "c" })).toEqual({
+      removeConnectionIds: ["ac", "cb"],
+      addConnections: [{ fromNodeId: "a", fromPortId: "out", toNodeId: "b", toPortId: "in" }],
+    });
+  });
+
+  it("does not heal across incompatible ports and returns null for unconnected nodes", () => {
+    const context = createContext({ ac: link("ac", "a", "out", "c", "in") });
+
+    expect(planNodeDetach({ ...context, nodeId: "c" })).toEqual({ removeConnectionIds: ["ac"], addConnections: [] });
+    expect(planNodeDetach({ ...createContext({}), nodeId: "c" })).toBeNull();
+  });
+});
+
+describe("doesPathModelCrossBounds", () => {
+  const line: ConnectionPathModel = {
+    toPathData: () => "M 0 0 L 100 0",
+    pointAt: (t) => ({ x: 100 * t, y: 0, angle: 0 }),
+  };
+
+  it("detects paths running through the bounds", () => {
+    expect(doesPathModelCrossBounds(line, { x: 40, y: -10, width: 20, height: 20 })).toBe(true);
+    expect(doesPathModelCrossBounds(line, { x: 40, y: 10, width: 20, height: 20 })).toBe(false);
+  });
+});
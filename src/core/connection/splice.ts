@@ -0,0 +1,188 @@
+/**
+ * @file Splicing nodes into connections
+ * Pure planning for dropping a node onto a wire (split the connection through the node) and the
+ * reverse gesture of pulling a node out of a chain (remove its connections and heal the gap).
+ */
+import type { Bounds, Connection, ConnectionId, Node, NodeId, Port } from "../../types/core";
+import type { NodeDefinition } from "../../types/NodeDefinition";
+import type { ConnectionPathModel } from "../../types/connectionBehavior";
+import { canConnectPorts } from "./validation";
+
+/** Connections to remove and to add, applied together as one edit */
+export type ConnectionRewirePlan = {
+  removeConnectionIds: ConnectionId[];
+  addConnections: Omit<Connection, "id">[];
+};
+
+export type ConnectionRewireContext = {
+  nodes: Record<NodeId, Node>;
+  connections: Record<ConnectionId, Connection>;
+  getNodePorts: (nodeId: NodeId) => Port[];
+  getNodeDefinition: (type: string) => NodeDefinition | undefined;
+};
+
+export type ConnectionSpliceParams = ConnectionRewireContext & {
+  /** Node dropped onto the connection */
+  nodeId: NodeId;
+  connectionId: ConnectionId;
+};
+
+export type NodeDetachParams = ConnectionRewireContext & {
+  nodeId: NodeId;
+};
+
+// Samples taken along a path when testing it against a node's bounds
+const PATH_HIT_SAMPLES = 32;
+
+const findPort = (context: ConnectionRewireContext, nodeId: NodeId, portId: string): Port | undefined =>
+  context.getNodePorts(nodeId).find((port) => port.id === portId);
+
+const getDefinition = (context: ConnectionRewireContext, nodeId: NodeId): NodeDefinition | undefined => {
+  const node = context.nodes[nodeId];
+  return node ? context.getNodeDefinition(node.type) : undefined;
+};
+
+const withoutConnections = (
+  connections: Record<ConnectionId, Connection>,
+  connectionIds: ReadonlySet<ConnectionId>,
+): Record<ConnectionId, Connection> =>
+  Object.fromEntries(Object.entries(connections).filter(([connectionId]) => !connectionIds.has(connectionId)));
+
+/**
+ * Free ports of `nodeId` that can take over the connection: an input the upstream port can feed
+ * and an output that can feed the downstream port. Ports that already have a connection are skipped.
+ * Returns null when the node has no such pair or is an endpoint of the connection itself.
+ */
+export const findSplicePorts = (params: ConnectionSpliceParams): { input: Port; output: Port } | null => {
+  const { nodeId, connectionId, nodes, connections } = params;
+  const connection = connections[connectionId];
+  const node = nodes[nodeId];
+  if (!connection || !node || connection.fromNodeId === nodeId || connection.toNodeId === nodeId) {
+    return null;
+  }
+  const upstream = findPort(params, connection.fromNodeId, connection.fromPortId);
+  const downstream = findPort(params, connection.toNodeId, connection.toPortId);
+  if (!upstream || !downstream) {
+    return null;
+  }
+
+  const remaining = withoutConnections(connections, new Set([connectionId]));
+  const usedPortIds = new Set(
+    Object.values(remaining).flatMap((candidate) => [
+      ...(candidate.fromNodeId === nodeId ? [candidate.fromPortId] : []),
+      ...(candidate.toNodeId === nodeId ? [candidate.toPortId] : []),
+    ]),
+  );
+  const freePorts = params.getNodePorts(nodeId).filter((port) => !usedPortIds.has(port.id));
+  const nodeDefinition = params.getNodeDefinition(node.type);
+  const upstreamDefinition = getDefinition(params, connection.fromNodeId);
+  const downstreamDefinition = getDefinition(params, connection.toNodeId);
+
+  const input = freePorts.find(
+    (port) => port.type === "input" && canConnectPorts(upstream, port, upstreamDefinition, nodeDefinition, remaining),
+  );
+  const output = freePorts.find(
+    (port) =>
+      port.type === "output" && canConnectPorts(port, downstream, nodeDefinition, downstreamDefinition, remaining),
+  );
+  return input && output ? { input, output } : null;
+};
+
+/**
+ * Split a connection through a node: `from → node.input` and `node.output → to`.
+ * The original connection's waypoints and data are not carried over.
+ */
+export const planConnectionSplice = (params: ConnectionSpliceParams): ConnectionRewirePlan | null => {
+  const ports = findSplicePorts(params);
+  const connection = params.connections[params.connectionId];
+  if (!ports || !connection) {
+    return null;
+  }
+  return {
+    removeConnectionIds: [connection.id],
+    addConnections: [
+      {
+        fromNodeId: connection.fromNodeId,
+        fromPortId: connection.fromPortId,
+        toNodeId: params.nodeId,
+        toPortId: ports.input.id,
+      },
+      {
+        fromNodeId: params.nodeId,
+        fromPortId: ports.output.id,
+        toNodeId: connection.toNodeId,
+        toPortId: connection.toPortId,
+      },
+    ],
+  };
+};
+
+/**
+ * Take a node out of its chain: every connection of the node is removed and each incoming
+ * connection is joined to the first outgoing one it can connect to, so `a → node → b` becomes `a → b`.
+ * Returns null when the node has no connections.
+ */
+export const planNodeDetach = (params: NodeDetachParams): ConnectionRewirePlan | null => {
+  const { nodeId, connections } = params;
+  const attached = Object.values(connections).filter(
+    (connection) => connection.fromNodeId === nodeId || connection.toNodeId === nodeId,
+  );
+  if (attached.length === 0) {
+    return null;
+  }
+  const incoming = attached.filter((connection) => connection.toNodeId === nodeId && connection.fromNodeId !== nodeId);
+  const outgoing = attached.filter((connection) => connection.fromNodeId === nodeId && connection.toNodeId !== nodeId);
+
+  const removeConnectionIds = attached.map((connection) => connection.id);
+  // Healed connections join the pool as they are planned so capacity and duplicate checks see them
+  const pool = withoutConnections(connections, new Set(removeConnectionIds));
+  const usedOutgoing = new Set<ConnectionId>();
+  const addConnections = incoming.flatMap((inbound): Omit<Connection, "id">[] => {
+    const upstream = findPort(params, inbound.fromNodeId, inbound.fromPortId);
+    if (!upstream) {
+      return [];
+    }
+    const target = outgoing.find((outbound) => {
+      if (usedOutgoing.has(outbound.id)) {
+        return false;
+      }
+      const downstream = findPort(params, outbound.toNodeId, outbound.toPortId);
+      return (
+        downstream !== undefined &&
+        canConnectPorts(
+          upstream,
+          downstream,
+          getDefinition(params, inbound.fromNodeId),
+          getDefinition(params, outbound.toNodeId),
+          pool,
+        )
+      );
+    });
+    if (!target) {
+      return [];
+    }
+    usedOutgoing.add(target.id);
+    const healed = {
+      fromNodeId: inbound.fromNodeId,
+      fromPortId: inbound.fromPortId,
+      toNodeId: target.toNodeId,
+      toPortId: target.toPortId,
+    };
+    pool[`${inbound.id}:${target.id}`] = { ...healed, id: `${inbound.id}:${target.id}` };
+    return [healed];
+  });
+
+  return { removeConnectionIds, addConnections };
+};
+
+/**
+ * Whether a connection path passes through `bounds`, sampled along `pointAt`.
+ */
+export const doesPathModelCrossBounds = (model: ConnectionPathModel, bounds: Bounds): boolean =>
+  Array.from({ length: PATH_HIT_SAMPLES + 1 }, (_, step) => model.pointAt(step / PATH_HIT_SAMPLES)).some(
+    (point) =>
+      point.x >= bounds.x &&
+      point.x <= bounds.x + bounds.width &&
+      point.y >= bounds.y &&
+      point.y <= bounds.y + bounds.height,
+  );
@@ -0,0 +1,111 @@
+/**
+ * @file Unit tests for connection waypoints
+ */
+import type { Connection, Node } from "../../types/core";
+import {
+  createPortSideWaypointPathModel,
+  insertConnectionWaypoint,
+  removeConnectionWaypoint,
+  routeOrthogonalPathThroughWaypoints,
+  translateWaypointsWithNodes,
+} from "./waypoints";
+
+const node = (id: string, x: number, y: number): Node => ({ id, type: "test", position: { x, y }, data: {} });
+
+describe("insertConnectionWaypoint", () => {
+  it("inserts the point on the leg it is closest to", () => {
+    const waypoints = [
+      { x: 100, y: 0 },
+      { x: 200, y: 0 },
+    ];
+
+    expect(insertConnectionWaypoint({ x: 0, y: 0 }, { x: 300, y: 0 }, waypoints, { x: 150, y: 10 })).toEqual({
+      waypoints: [
+        { x: 100, y: 0 },
+        { x: 150, y: 10 },
+        { x: 200, y: 0 },
+      ],
+      index: 1,
+    });
+    expect(insertConnectionWaypoint({ x: 0, y: 0 }, { x: 300, y: 0 }, [], { x: 150, y: 40 }).index).toBe(0);
+  });
+
+  it("removes a waypoint by index", () => {
+    expect(
+      removeConnectionWaypoint(
+        [
+          { x: 1, y: 1 },
+          { x: 2, y: 2 },
+        ],
+        0,
+      ),
+    ).toEqual([{ x: 2, y: 2 }]);
+  });
+});
+
+describe("translateWaypointsWithNodes", () => {
+  const connections: Record<string, Connection> = {
+    c: { id: "c", fromNodeId: "a", fromPortId: "out", toNodeId: "b", toPortId: "in", waypoints: [{ x: 50, y: 50 }] },
+  };
+  const before = { a: node("a", 0, 0), b: node("b", 100, 0) };
+
+  it("moves waypoints when both endpoint nodes moved by the same offset", () => {
+    const after = { a: node("a", 10, 20), b: node("b", 110, 20) };
+
+    expect(translateWaypointsWithNodes(connections, before, after).c?.waypoints).toEqual([{ x: 60, y: 70 }]);
+  });
+
+  it("keeps the connections untouched when only one endpoint moved", () => {
+    const after = { a: node("a", 10, 20), b: before.b };
+
+    expect(translateWaypointsWithNodes(connections, before, after)).toBe(connections);
+  });
+});
+
+describe("createPortSideWaypointPathModel", () => {
+  const points = [
+    { x: 0, y: 0 },
+    { x: 100, y: 200 },
+    { x: 300, y: 0 },
+  ];
+  const model = createPortSideWaypointPathModel(points, "right", "left");
+
+  it("draws one cubic segment per leg through every waypoint", () => {
+    const pathData = model.toPathData();
+
+    expect(pathData.startsWith("M 0 0")).toBe(true);
+    expect(pathData.match(/C /g)).toHaveLength(2);
+    expect(pathData).toContain("100 200 C");
+    expect(pathData.endsWith("300 0")).toBe(true);
+  });
+
+  it("samples pointAt along the whole rerouted path", () => {
+    const end = model.pointAt(1);
+
+    expect(model.pointAt(0)).toMatchObject({ x: 0, y: 0 });
+    expect(end.x).toBeCloseTo(300);
+    expect(end.y).toBeCloseTo(0);
+    expect(model.pointAt(0.5).y).toBeGreaterThan(100);
+  });
+});
+
+describe("routeOrthogonalPathThroughWaypoints", () => {
+  it("routes an orthogonal polyline that visits each waypoint", () => {
+    const route = routeOrthogonalPathThroughWaypoints({
+      points: [
+        { x: 0, y: 0 },
+        { x: 100, y: 200 },
+        { x: 300, y: 0 },
+      ],
+      fromSide: "right",
+      toSide: "left",
+    });
+
+    expect(route[0]).toEqual({ x: 0, y: 0 });
+    expect(route.at(-1)).toEqual({ x: 300, y: 0 });
+    expect(route).toContainEqual({ x: 100, y: 200 });
+    expect(route.slice(1).every((point, index) => point.x === route[index]!.x || point.y === route[index]!.y)).toBe(
+      true,
+    );
+  });
+});
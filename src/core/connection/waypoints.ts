@@ -0,0 +1,284 @@
+/**
+ * @file Connection waypoints
+ * Pure functions for the reroute points stored in `Connection.waypoints`: editing the list and
+ * building path models that pass through every point.
+ */
+import type {
+  Bounds,
+  Connection,
+  ConnectionId,
+  Node,
+  NodeId,
+  PortPosition as PortSide,
+  Position,
+} from "../../types/core";
+import type { ConnectionPathModel, ConnectionPathPoint } from "../../types/connectionBehavior";
+import { cubicBezierPoint, cubicBezierTangent } from "../geometry/curve";
+import { routeOrthogonalPath, simplifyOrthogonalPolyline } from "./orthogonal";
+import { getPortSideUnitVector } from "./path";
+
+const NO_WAYPOINTS: readonly Position[] = [];
+
+// Share of a leg's length used for the handles at a waypoint; below 0.5 so neighbouring handles never cross
+const WAYPOINT_HANDLE_RATIO = 0.35;
+// Samples per leg used to measure its length
+const LENGTH_SAMPLES = 12;
+
+export type WaypointBezierOptions = {
+  /** Handle length range at the ports, as for plain bezier connections */
+  offsetMin?: number;
+  offsetMax?: number;
+};
+
+type CubicLeg = {
+  from: Position;
+  cp1: Position;
+  cp2: Position;
+  to: Position;
+  length: number;
+};
+
+/**
+ * Waypoints of a connection, in order from the output port to the input port.
+ */
+export const getConnectionWaypoints = (
+  connection: Pick<Connection, "waypoints"> | null | undefined,
+): readonly Position[] =>
+  connection?.waypoints && connection.waypoints.length > 0 ? connection.waypoints : NO_WAYPOINTS;
+
+const distanceToSegment = (point: Position, a: Position, b: Position): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (a.x + dx * t), point.y - (a.y + dy * t));
+};
+
+/**
+ * Insert `point` into the waypoint list on the leg it is closest to, so it splits that leg.
+ * Legs are measured on the straight polyline through the ports and existing waypoints.
+ * @returns The new list and the index the point was inserted at
+ */
+export const insertConnectionWaypoint = (
+  outputPosition: Position,
+  inputPosition: Position,
+  waypoints: readonly Position[],
+  point: Position,
+): { waypoints: Position[]; index: number } => {
+  const polyline = [outputPosition, ...waypoints, inputPosition];
+  const index = polyline.slice(1).reduce(
+    (best, to, legIndex) => {
+      const distance = distanceToSegment(point, polyline[legIndex]!, to);
+      return distance < best.distance ? { index: legIndex, distance } : best;
+    },
+    { index: 0, distance: Infinity },
+  ).index;
+  return { waypoints: [...waypoints.slice(0, index), point, ...waypoints.slice(index)], index };
+};
+
+/**
+ * Replace the waypoint at `index`.
+ */
+export const moveConnectionWaypoint = (waypoints: readonly Position[], index: number, point: Position): Position[] =>
+  waypoints.map((waypoint, candidate) => (candidate === index ? point : waypoint));
+
+/**
+ * Remove the waypoint at `index`.
+ */
+export const removeConnectionWaypoint = (waypoints: readonly Position[], index: number): Position[] =>
+  waypoints.filter((_, candidate) => candidate !== index);
+
+/**
+ * Shift every waypoint by `delta`, e.g. when both endpoint nodes move together.
+ */
+export const translateConnectionWaypoints = (waypoints: readonly Position[], delta: Position): Position[] =>
+  waypoints.map((waypoint) => ({ x: waypoint.x + delta.x, y: waypoint.y + delta.y }));
+
+/**
+ * Carry waypoints along when both endpoint nodes of a connection moved by the same offset,
+ * so a rerouted edge keeps its shape when its nodes are moved together.
+ * Returns `connections` itself when no waypoint moved.
+ */
+export const translateWaypointsWithNodes = (
+  connections: Readonly<Record<ConnectionId, Connection>>,
+  previousNodes: Readonly<Record<NodeId, Node>>,
+  nextNodes: Readonly<Record<NodeId, Node>>,
+): Record<ConnectionId, Connection> => {
+  const offsetOf = (nodeId: NodeId): Position | null => {
+    const before = previousNodes[nodeId];
+    const after = nextNodes[nodeId];
+    return before && after
+      ? { x: after.position.x - before.position.x, y: after.position.y - before.position.y }
+      : null;
+  };
+  const moved = Object.values(connections).flatMap((connection) => {
+    if (getConnectionWaypoints(connection).length === 0) {
+      return [];
+    }
+    const fromOffset = offsetOf(connection.fromNodeId);
+    const toOffset = offsetOf(connection.toNodeId);
+    if (
+      !fromOffset ||
+      !toOffset ||
+      fromOffset.x !== toOffset.x ||
+      fromOffset.y !== toOffset.y ||
+      (fromOffset.x === 0 && fromOffset.y === 0)
+    ) {
+      return [];
+    }
+    return [{ ...connection, waypoints: translateConnectionWaypoints(connection.waypoints!, fromOffset) }];
+  });
+  if (moved.length === 0) {
+    return connections;
+  }
+  return { ...connections, ...Object.fromEntries(moved.map((connection) => [connection.id, connection])) };
+};
+
+const normalize = (vector: Position): Position => {
+  const length = Math.hypot(vector.x, vector.y);
+  return length === 0 ? { x: 1, y: 0 } : { x: vector.x / length, y: vector.y / length };
+};
+
+const toAngle = (dx: number, dy: number): number => (Math.atan2(dy, dx) * 180) / Math.PI;
+
+const measureLeg = (from: Position, cp1: Position, cp2: Position, to: Position): number => {
+  const samples = Array.from({ length: LENGTH_SAMPLES + 1 }, (_, step) =>
+    cubicBezierPoint(from, cp1, cp2, to, step / LENGTH_SAMPLES),
+  );
+  return samples
+    .slice(1)
+    .reduce((sum, point, step) => sum + Math.hypot(point.x - samples[step]!.x, point.y - samples[step]!.y), 0);
+};
+
+/**
+ * Smooth path through `points` (output port, waypoints, input port) made of one cubic bezier per leg.
+ * The path leaves along `startDirection` and arrives travelling along `endDirection`; at each waypoint
+ * the tangent follows the line between its neighbours, so the curve passes through without a kink.
+ * `pointAt` spreads `t` over the legs by their length, so markers and labels stay evenly placed.
+ */
+export const createWaypointBezierPathModel = (
+  points: readonly Position[],
+  startDirection: Position,
+  endDirection: Position,
+  options?: WaypointBezierOptions,
+): ConnectionPathModel => {
+  const offsetMin = options?.offsetMin ?? 40;
+  const offsetMax = options?.offsetMax ?? 120;
+  const last = points.length - 1;
+  const tangents = points.map((_, index) => {
+    if (index === 0) {
+      return normalize(startDirection);
+    }
+    if (index === last) {
+      return normalize(endDirection);
+    }
+    const prev = points[index - 1]!;
+    const next = points[index + 1]!;
+    return normalize({ x: next.x - prev.x, y: next.y - prev.y });
+  });
+  const handleLength = (legLength: number, atPort: boolean): number =>
+    atPort ? Math.max(offsetMin, Math.min(offsetMax, legLength * 0.5)) : legLength * WAYPOINT_HANDLE_RATIO;
+
+  const legs: CubicLeg[] = points.slice(1).map((to, index) => {
+    const from = points[index]!;
+    const chord = Math.hypot(to.x - from.x, to.y - from.y);
+    const outHandle = handleLength(chord, index === 0);
+    const inHandle = handleLength(chord, index + 1 === last);
+    const cp1 = { x: from.x + tangents[index]!.x * outHandle, y: from.y + tangents[index]!.y * outHandle };
+    const cp2 = { x: to.x - tangents[index + 1]!.x * inHandle, y: to.y - tangents[index + 1]!.y * inHandle };
+    return { from, cp1, cp2, to, length: measureLeg(from, cp1, cp2, to) };
+  });
+  const total = legs.reduce((sum, leg) => sum + leg.length, 0);
+  const first = points[0] ?? { x: 0, y: 0 };
+
+  const pointOnLeg = (leg: CubicLeg, t: number): ConnectionPathPoint => {
+    const point = cubicBezierPoint(leg.from, leg.cp1, leg.cp2, leg.to, t);
+    const tangent = cubicBezierTangent(leg.from, leg.cp1, leg.cp2, leg.to, t);
+    return { x: point.x, y: point.y, angle: toAngle(tangent.x, tangent.y) };
+  };
+
+  return {
+    toPathData: () =>
+      [
+        `M ${first.x} ${first.y}`,
+        ...legs.map((leg) => `C ${leg.cp1.x} ${leg.cp1.y}, ${leg.cp2.x} ${leg.cp2.y}, ${leg.to.x} ${leg.to.y}`),
+      ].join(" "),
+    pointAt: (t: number): ConnectionPathPoint => {
+      if (legs.length === 0 || total === 0) {
+        return { x: first.x, y: first.y, angle: 0 };
+      }
+      const target = total * Math.min(1, Math.max(0, t));
+      let walked = 0;
+      for (const leg of legs) {
+        if (leg.length > 0 && walked + leg.length >= target) {
+          return pointOnLeg(leg, (target - walked) / leg.length);
+        }
+        walked += leg.length;
+      }
+      return pointOnLeg(legs[legs.length - 1]!, 1);
+    },
+  };
+};
+
+/**
+ * Waypoint path that leaves and enters perpendicular to the given port sides, like the port-side bezier.
+ */
+export const createPortSideWaypointPathModel = (
+  points: readonly Position[],
+  outputSide: PortSide,
+  inputSide: PortSide,
+  options?: WaypointBezierOptions,
+): ConnectionPathModel => {
+  const into = getPortSideUnitVector(inputSide);
+  return createWaypointBezierPathModel(points, getPortSideUnitVector(outputSide), { x: -into.x, y: -into.y }, options);
+};
+
+/**
+ * Side of `point` that faces `toward`, along the dominant axis.
+ */
+const getSideFacing = (point: Position, toward: Position): PortSide => {
+  const dx = toward.x - point.x;
+  const dy = toward.y - point.y;
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0 ? "right" : "left";
+  }
+  return dy >= 0 ? "bottom" : "top";
+};
+
+export type OrthogonalWaypointRouteParams = {
+  /** Output port, waypoints and input port, in order */
+  points: readonly Position[];
+  fromSide: PortSide;
+  toSide: PortSide;
+  obstacles?: readonly Bounds[];
+  padding?: number;
+};
+
+/**
+ * Orthogonal polyline through every waypoint: each leg is routed around the obstacles on its own,
+ * leaving and entering waypoints on the side that faces the neighbouring point.
+ */
+export const routeOrthogonalPathThroughWaypoints = ({
+  points,
+  fromSide,
+  toSide,
+  obstacles,
+  padding,
+}: OrthogonalWaypointRouteParams): Position[] => {
+  const last = points.length - 1;
+  const route = points.slice(1).flatMap((to, index) => {
+    const from = points[index]!;
+    const leg = routeOrthogonalPath({
+      from,
+      to,
+      fromSide: index === 0 ? fromSide : getSideFacing(from, to),
+      toSide: index + 1 === last ? toSide : getSideFacing(to, from),
+      obstacles,
+      padding,
+    });
+    // Every leg after the first starts at the previous leg's end point
+    return index === 0 ? leg : leg.slice(1);
+  });
+  return simplifyOrthogonalPolyline(route);
+};
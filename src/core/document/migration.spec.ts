@@ -0,0 +1,135 @@
+/**
+ * @file Unit tests for versioned documents and node data migrations
+ */
+import type { NodeEditorData } from "../../types/core";
+import type { NodeDefinition } from "../../types/NodeDefinition";
+import {
+  NODE_EDITOR_DOCUMENT_FORMAT,
+  NODE_EDITOR_DOCUMENT_VERSION,
+  createNodeEditorDocument,
+  hasDocumentMigrationChanges,
+  migrateNodeEditorDocument,
+  tryMigrateNodeEditorDocument,
+} from "./migration";
+
+// v1 stored `text` and exposed an "output" port; v2 stores `label` and renamed the port to "out"
+const labelDefinition: NodeDefinition = {
+  type: "label",
+  displayName: "Label",
+  version: 2,
+  ports: [
+    { id: "in", type: "input", label: "In", position: "left" },
+    { id: "out", type: "output", label: "Out", position: "right" },
+  ],
+  migrate: (data, fromVersion) => {
+    if (fromVersion < 2) {
+      const { text, ...rest } = data as { text?: string };
+      return { data: { ...rest, label: text ?? "" }, renamedPorts: { output: "out" } };
+    }
+    return { data };
+  },
+};
+
+const plainDefinition: NodeDefinition = {
+  type: "plain",
+  displayName: "Plain",
+  ports: [
+    { id: "in", type: "input", label: "In", position: "left" },
+    { id: "out", type: "output", label: "Out", position: "right" },
+  ],
+};
+
+const savedData: NodeEditorData = {
+  nodes: {
+    a: { id: "a", type: "label", position: { x: 0, y: 0 }, data: { text: "Hello" } },
+    b: { id: "b", type: "plain", position: { x: 200, y: 0 }, data: { title: "B" } },
+    c: { id: "c", type: "label", position: { x: 400, y: 0 }, data: { text: "World" } },
+  },
+  connections: {
+    ab: { id: "ab", fromNodeId: "a", fromPortId: "output", toNodeId: "b", toPortId: "in" },
+    bc: { id: "bc", fromNodeId: "b", fromPortId: "out", toNodeId: "c", toPortId: "in" },
+  },
+};
+
+describe("createNodeEditorDocument", () => {
+  it("records the definition version of each node type in use", () => {
+    const document = createNodeEditorDocument(savedData, [labelDefinition, plainDefinition]);
+
+    expect(document.format).toBe(NODE_EDITOR_DOCUMENT_FORMAT);
+    expect(document.version).toBe(NODE_EDITOR_DOCUMENT_VERSION);
+    expect(document.nodeTypeVersions).toEqual({ label: 2, plain: 1 });
+    expect(document.nodes).toBe(savedData.nodes);
+  });
+});
+
+describe("migrateNodeEditorDocument", () => {
+  it("treats unversioned data as version 1 and migrates data and renamed ports", () => {
+    const { data, report } = migrateNodeEditorDocument(savedData, [labelDefinition, plainDefinition]);
+
+    expect(data.nodes.a.data).toEqual({ label: "Hello" });
+    expect(data.nodes.c.data).toEqual({ label: "World" });
+    expect(data.nodes.b).toBe(savedData.nodes.b);
+    expect(data.connections.ab.fromPortId).toBe("out");
+    expect(data.connections.bc).toBe(savedData.connections.bc);
+    expect(report).toEqual({
+      documentVersion: null,
+      migratedNodes: [
+        { nodeId: "a", nodeType: "label", fromVersion: 1, toVersion: 2, renamedPorts: { output: "out" } },
+        { nodeId: "c", nodeType: "label", fromVersion: 1, toVersion: 2, renamedPorts: { output: "out" } },
+      ],
+      failedNodes: [],
+      updatedConnectionIds: ["ab"],
+    });
+  });
+
+  it("returns the input untouched when the document is up to date", () => {
+    const document = createNodeEditorDocument(savedData, [labelDefinition, plainDefinition]);
+    const { data, report } = migrateNodeEditorDocument(document, [labelDefinition, plainDefinition]);
+
+    expect(data).toEqual({ nodes: savedData.nodes, connections: savedData.connections });
+    expect(data.nodes).toBe(savedData.nodes);
+    expect(report.documentVersion).toBe(NODE_EDITOR_DOCUMENT_VERSION);
+    expect(report.migratedNodes).toEqual([]);
+  });
+
+  it("reports failing migrations and versions newer than the definition without changing those nodes", () => {
+    const failingDefinition: NodeDefinition = {
+      ...labelDefinition,
+      migrate: () => {
+        throw new Error("boom");
+      },
+    };
+    const document = { ...createNodeEditorDocument(savedData, []), nodeTypeVersions: { label: 1, plain: 3 } };
+    const { data, report } = migrateNodeEditorDocument(document, [failingDefinition, plainDefinition]);
+
+    expect(data.nodes).toBe(savedData.nodes);
+    expect(
+      report.failedNodes.map(({ nodeId, fromVersion, toVersion }) => ({ nodeId, fromVersion, toVersion })),
+    ).toEqual([
+      { nodeId: "a", fromVersion: 1, toVersion: 2 },
+      { nodeId: "b", fromVersion: 3, toVersion: 1 },
+      { nodeId: "c", fromVersion: 1, toVersion: 2 },
+    ]);
+    expect((report.failedNodes[0].error as Error).message).toBe("boom");
+  });
+
+  it("rejects documents newer than the supported envelope version", () => {
+    const document = { ...createNodeEditorDocument(savedData, []), version: NODE_EDITOR_DOCUMENT_VERSION + 1 };
+
+    expect(() => migrateNodeEditorDocument(document, [])).toThrow(/Unsupported node editor document version/);
+  });
+});
+
+describe("tryMigrateNodeEditorDocument", () => {
+  it("returns the fallback and the error instead of throwing", () => {
+    const document = { ...createNodeEditorDocument(savedData, []), version: NODE_EDITOR_DOCUMENT_VERSION + 1 };
+    const fallback: NodeEditorData = { nodes: {}, connections: {} };
+
+    const { data, report } = tryMigrateNodeEditorDocument(document, [], fallback);
+
+    expect(data).toBe(fallback);
+    expect(report.documentVersion).toBe(NODE_EDITOR_DOCUMENT_VERSION + 1);
+    expect((report.error as Error).message).toMatch(/Unsupported node editor document version/);
+    expect(hasDocumentMigrationChanges(report)).toBe(true);
+  });
+});
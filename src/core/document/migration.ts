@@ -0,0 +1,230 @@
+/**
+ * @file Versioned document envelope and node data migrations
+ * Saved graphs record the definition version of every node type; loading runs each definition's
+ * `migrate` hook on nodes saved by an older version and rewrites connections to renamed ports.
+ */
+import type { Connection, ConnectionId, Node, NodeEditorData, NodeId, PortId } from "../../types/core";
+import type { NodeDefinition } from "../../types/NodeDefinition";
+
+/** Identifies documents produced by this library */
+export const NODE_EDITOR_DOCUMENT_FORMAT = "react-wireflow/document";
+/** Current envelope version; documents with a newer version are rejected */
+export const NODE_EDITOR_DOCUMENT_VERSION = 1;
+/** Definition version assumed for definitions without `version` and for unversioned documents */
+export const DEFAULT_NODE_DEFINITION_VERSION = 1;
+
+export type NodeEditorDocument = NodeEditorData & {
+  format: typeof NODE_EDITOR_DOCUMENT_FORMAT;
+  version: number;
+  /** Definition version each node type was saved with */
+  nodeTypeVersions: Record<string, number>;
+};
+
+export type NodeMigrationRecord = {
+  nodeId: NodeId;
+  nodeType: string;
+  fromVersion: number;
+  toVersion: number;
+  /** Port ids renamed by the migration (old id to new id) */
+  renamedPorts?: Record<PortId, PortId>;
+};
+
+export type NodeMigrationFailure = {
+  nodeId: NodeId;
+  nodeType: string;
+  fromVersion: number;
+  toVersion: number;
+  error: unknown;
+};
+
+export type DocumentMigrationReport = {
+  /** Envelope version of the input; null when plain `NodeEditorData` was given */
+  documentVersion: number | null;
+  /** Nodes whose data was upgraded */
+  migratedNodes: NodeMigrationRecord[];
+  /** Nodes left unchanged because the migration threw or the saved version is newer than the definition */
+  failedNodes: NodeMigrationFailure[];
+  /** Connections rewritten to follow renamed ports */
+  updatedConnectionIds: ConnectionId[];
+  /** Why the document could not be migrated at all, e.g. an envelope newer than supported; its data was not used */
+  error?: unknown;
+};
+
+export type DocumentMigrationResult = {
+  data: NodeEditorData;
+  report: DocumentMigrationReport;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Check whether a value is a versioned document envelope rather than plain editor data.
+ */
+export const isNodeEditorDocument = (value: unknown): value is NodeEditorDocument =>
+  isRecord(value) && value.format === NODE_EDITOR_DOCUMENT_FORMAT && typeof value.version === "number";
+
+/**
+ * Get the current version of a node definition.
+ */
+export const getNodeDefinitionVersion = (definition: NodeDefinition | undefined): number =>
+  definition?.version ?? DEFAULT_NODE_DEFINITION_VERSION;
+
+/**
+ * Wrap editor data into a versioned document that records the definition version of each node type in use.
+ */
+export const createNodeEditorDocument = (
+  data: NodeEditorData,
+  nodeDefinitions: readonly NodeDefinition[],
+): NodeEditorDocument => {
+  const definitionsByType = new Map(nodeDefinitions.map((definition) => [definition.type, definition]));
+  const nodeTypeVersions: Record<string, number> = {};
+  for (const node of Object.values(data.nodes)) {
+    nodeTypeVersions[node.type] = getNodeDefinitionVersion(definitionsByType.get(node.type));
+  }
+  return {
+    format: NODE_EDITOR_DOCUMENT_FORMAT,
+    version: NODE_EDITOR_DOCUMENT_VERSION,
+    nodeTypeVersions,
+    nodes: data.nodes,
+    connections: data.connections,
+  };
+};
+
+const renamePort = (
+  nodeId: NodeId,
+  portId: PortId,
+  renamedPortsByNode: ReadonlyMap<NodeId, Record<PortId, PortId>>,
+): PortId => {
+  const renamed = renamedPortsByNode.get(nodeId);
+  return renamed && Object.hasOwn(renamed, portId) ? renamed[portId] : portId;
+};
+
+/**
+ * Bring a saved document (or unversioned editor data) up to date with the current node definitions.
+ * Returns the input's nodes and connections unchanged when nothing needed migrating.
+ * @throws when the document envelope is newer than this library supports
+ */
+export const migrateNodeEditorDocument = (
+  input: NodeEditorDocument | Partial<NodeEditorData>,
+  nodeDefinitions: readonly NodeDefinition[],
+): DocumentMigrationResult => {
+  const isDocument = isNodeEditorDocument(input);
+  if (isDocument && input.version > NODE_EDITOR_DOCUMENT_VERSION) {
+    throw new Error(
+      `Unsupported node editor document version ${input.version} (supported up to ${NODE_EDITOR_DOCUMENT_VERSION})`,
+    );
+  }
+  const nodeTypeVersions = isDocument && isRecord(input.nodeTypeVersions) ? input.nodeTypeVersions : {};
+  const sourceNodes = input.nodes ?? {};
+  const sourceConnections = input.connections ?? {};
+
+  const report: DocumentMigrationReport = {
+    documentVersion: isDocument ? input.version : null,
+    migratedNodes: [],
+    failedNodes: [],
+    updatedConnectionIds: [],
+  };
+
+  const definitionsByType = new Map(nodeDefinitions.map((definition) => [definition.type, definition]));
+  const migratedNodes: Record<NodeId, Node> = {};
+  const renamedPortsByNode = new Map<NodeId, Record<PortId, PortId>>();
+
+  for (const [nodeId, node] of Object.entries(sourceNodes)) {
+    const definition = definitionsByType.get(node.type);
+    if (!definition) {
+      continue;
+    }
+    const savedVersion = nodeTypeVersions[node.type];
+    const fromVersion = typeof savedVersion === "number" ? savedVersion : DEFAULT_NODE_DEFINITION_VERSION;
+    const toVersion = getNodeDefinitionVersion(definition);
+    if (fromVersion === toVersion) {
+      continue;
+    }
+    if (fromVersion > toVersion || !definition.migrate) {
+      const reason =
+        fromVersion > toVersion
+          ? `was saved by a newer definition (version ${fromVersion})`
+          : `has no migrate function to upgrade from version ${fromVersion}`;
+      report.failedNodes.push({
+        nodeId,
+        nodeType: node.type,
+        fromVersion,
+        toVersion,
+        error: new Error(`Node type "${node.type}" ${reason}`),
+      });
+      continue;
+    }
+    try {
+      const result = definition.migrate({ ...node.data }, fromVersion);
+      migratedNodes[nodeId] = { ...node, data: result.data };
+      const renamedPorts =
+        result.renamedPorts && Object.keys(result.renamedPorts).length > 0 ? result.renamedPorts : undefined;
+      if (renamedPorts) {
+        renamedPortsByNode.set(nodeId, renamedPorts);
+      }
+      report.migratedNodes.push({
+        nodeId,
+        nodeType: node.type,
+        fromVersion,
+        toVersion,
+        ...(renamedPorts ? { renamedPorts } : {}),
+      });
+    } catch (error) {
+      report.failedNodes.push({ nodeId, nodeType: node.type, fromVersion, toVersion, error });
+    }
+  }
+
+  const updatedConnections: Record<ConnectionId, Connection> = {};
+  if (renamedPortsByNode.size > 0) {
+    for (const [connectionId, connection] of Object.entries(sourceConnections)) {
+      const fromPortId = renamePort(connection.fromNodeId, connection.fromPortId, renamedPortsByNode);
+      const toPortId = renamePort(connection.toNodeId, connection.toPortId, renamedPortsByNode);
+      if (fromPortId !== connection.fromPortId || toPortId !== connection.toPortId) {
+        updatedConnections[connectionId] = { ...connection, fromPortId, toPortId };
+        report.updatedConnectionIds.push(connectionId);
+      }
+    }
+  }
+
+  const hasMigratedNodes = report.migratedNodes.length > 0;
+  return {
+    data: {
+      nodes: hasMigratedNodes ? { ...sourceNodes, ...migratedNodes } : sourceNodes,
+      connections:
+        report.updatedConnectionIds.length > 0 ? { ...sourceConnections, ...updatedConnections } : sourceConnections,
+    },
+    report,
+  };
+};
+
+/**
+ * Migrate like `migrateNodeEditorDocument`, but return `fallback` with the error in `report.error`
+ * instead of throwing when the document cannot be migrated.
+ */
+export const tryMigrateNodeEditorDocument = (
+  input: NodeEditorDocument | Partial<NodeEditorData>,
+  nodeDefinitions: readonly NodeDefinition[],
+  fallback: NodeEditorData,
+): DocumentMigrationResult => {
+  try {
+    return migrateNodeEditorDocument(input, nodeDefinitions);
+  } catch (error) {
+    return {
+      data: fallback,
+      report: {
+        documentVersion: isNodeEditorDocument(input) ? input.version : null,
+        migratedNodes: [],
+        failedNodes: [],
+        updatedConnectionIds: [],
+        error,
+      },
+    };
+  }
+};
+
+/**
+ * Check whether a migration report has anything to tell (migrated or failed nodes, or a failed document).
+ */
+export const hasDocumentMigrationChanges = (report: DocumentMigrationReport): boolean =>
+  report.migratedNodes.length > 0 || report.failedNodes.length > 0 || report.error !== undefined;
@@ -0,0 +1,118 @@
+/**
+ * @file Unit tests for graph evaluation
+ */
+import type { NodeEditorData } from "../../types/core";
+import type { NodeDefinition } from "../../types/NodeDefinition";
+import { evaluateGraph } from "./evaluate";
+import type { NodeExecutionStatus } from "./evaluate";
+import { applyExecutionStatuses } from "./visualState";
+
+const numberDef: NodeDefinition = {
+  type: "number",
+  displayName: "Number",
+  ports: [{ id: "value", type: "output", label: "Value", position: "right" }],
+  execute: ({ node }) => ({ value: node.data.value }),
+};
+
+const addDef: NodeDefinition = {
+  type: "add",
+  displayName: "Add",
+  ports: [
+    { id: "a", type: "input", label: "A", position: "left" },
+    { id: "b", type: "input", label: "B", position: "left" },
+    { id: "sum", type: "output", label: "Sum", position: "right" },
+  ],
+  execute: async ({ inputs }) => ({ sum: Number(inputs.a) + Number(inputs.b) }),
+};
+
+const collectDef: NodeDefinition = {
+  type: "collect",
+  displayName: "Collect",
+  ports: [{ id: "items", type: "input", label: "Items", position: "left", maxConnections: "unlimited" }],
+  execute: ({ inputs }) => ({ items: inputs.items }),
+};
+
+const failDef: NodeDefinition = {
+  type: "fail",
+  displayName: "Fail",
+  ports: [
+    { id: "input", type: "input", label: "In", position: "left" },
+    { id: "output", type: "output", label: "Out", position: "right" },
+  ],
+  execute: () => {
+    throw new Error("boom");
+  },
+};
+
+const definitions = [numberDef, addDef, collectDef, failDef];
+const getDefinition = (type: string) => definitions.find((def) => def.type === type);
+
+const mkData = (): NodeEditorData => ({
+  nodes: {
+    n1: { id: "n1", type: "number", position: { x: 0, y: 0 }, data: { value: 2 } },
+    n2: { id: "n2", type: "number", position: { x: 0, y: 0 }, data: { value: 3 } },
+    add: { id: "add", type: "add", position: { x: 0, y: 0 }, data: {} },
+    list: { id: "list", type: "collect", position: { x: 0, y: 0 }, data: {} },
+  },
+  connections: {
+    c1: { id: "c1", fromNodeId: "n1", fromPortId: "value", toNodeId: "add", toPortId: "a" },
+    c2: { id: "c2", fromNodeId: "n2", fromPortId: "value", toNodeId: "add", toPortId: "b" },
+    c3: { id: "c3", fromNodeId: "add", fromPortId: "sum", toNodeId: "list", toPortId: "items" },
+    c4: { id: "c4", fromNodeId: "n1", fromPortId: "value", toNodeId: "list", toPortId: "items" },
+  },
+});
+
+describe("evaluateGraph", () => {
+  it("passes output values to connected input ports", async () => {
+    const result = await evaluateGraph(mkData(), getDefinition);
+    expect(result.outputs.add).toEqual({ sum: 5 });
+    expect(result.outputs.list).toEqual({ items: [5, 2] });
+    expect(result.statuses).toEqual({ n1: "success", n2: "success", add: "success", list: "success" });
+  });
+
+  it("reports status transitions in order", async () => {
+    const events: Array<[string, NodeExecutionStatus]> = [];
+    await evaluateGraph(mkData(), getDefinition, {
+      onNodeStatusChange: (nodeId, status) => events.push([nodeId, status]),
+    });
+    const addEvents = events.filter(([nodeId]) => nodeId === "add").map(([, status]) => status);
+    expect(addEvents).toEqual(["pending", "running", "success"]);
+  });
+
+  it("skips nodes downstream of a failure", async () => {
+    const data = mkData();
+    data.nodes.bad = { id: "bad", type: "fail", position: { x: 0, y: 0 }, data: {} };
+    data.connections.c2 = { id: "c2", fromNodeId: "bad", fromPortId: "output", toNodeId: "add", toPortId: "b" };
+    const result = await evaluateGraph(data, getDefinition);
+    expect(result.statuses.bad).toBe("error");
+    expect((result.errors.bad as Error).message).toBe("boom");
+    expect(result.statuses.add).toBe("skipped");
+    expect(result.statuses.list).toBe("skipped");
+  });
+
+  it("reports cyclic nodes as errors without executing them", async () => {
+    const data = mkData();
+    data.connections.loop = { id: "loop", fromNodeId: "add", fromPortId: "sum", toNodeId: "add", toPortId: "a" };
+    const result = await evaluateGraph(data, getDefinition);
+    expect(result.cyclicNodeIds).toEqual(["add", "list"]);
+    expect(result.statuses.add).toBe("error");
+    expect(result.outputs.add).toBeUndefined();
+  });
+
+  it("skips nodes that have not started when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const result = await evaluateGraph(mkData(), getDefinition, { signal: controller.signal });
+    expect(Object.values(result.statuses).every((status) => status === "skipped")).toBe(true);
+  });
+});
+
+describe("applyExecutionStatuses", () => {
+  it("maps statuses to visual states and keeps unchanged nodes", () => {
+    const data = mkData();
+    const next = applyExecutionStatuses(data, { n1: "success", add: "error", list: "pending" });
+    expect(next.nodes.n1.data.visualState).toBe("success");
+    expect(next.nodes.add.data.visualState).toBe("error");
+    expect(next.nodes.list).toBe(data.nodes.list);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * @file Graph evaluation
+ * Runs node `execute` functions in dependency order, passing values from output ports to input ports.
+ */
+import type { Connection, Node, NodeEditorData, NodeId, Port } from "../../types/core";
+import type { NodeDefinition, NodeExecutionOutputs } from "../../types/NodeDefinition";
+import { deriveNodePorts } from "../node/portDerivation";
+import { createPortKey, type PortKey } from "../port/identity/key";
+import { computeExecutionOrder } from "./executionOrder";
+
+export type NodeExecutionStatus = "pending" | "running" | "success" | "error" | "skipped";
+
+export type GraphExecutionOptions = {
+  /** Abort signal; nodes that have not started when aborted are reported as skipped */
+  signal?: AbortSignal;
+  /** Called whenever a node's execution status changes */
+  onNodeStatusChange?: (nodeId: NodeId, status: NodeExecutionStatus, error?: unknown) => void;
+  /** Resolve ports for a node. Defaults to deriving them from the definition. */
+  getNodePorts?: (node: Node, definition: NodeDefinition) => Port[];
+  /** Outputs from an earlier run, reused for nodes that do not need to run again */
+  previousOutputs?: Readonly<Record<NodeId, NodeExecutionOutputs>>;
+  /**
+   * Enables incremental evaluation. Only these nodes, nodes without previous outputs,
+   * and nodes whose upstream output port values changed are executed.
+   */
+  changedNodeIds?: ReadonlySet<NodeId>;
+};
+
+export type GraphExecutionResult = {
+  /** Output values per executed node, keyed by output port id */
+  outputs: Record<NodeId, NodeExecutionOutputs>;
+  /** Final status per executed node (nodes reused from previous outputs are omitted) */
+  statuses: Record<NodeId, NodeExecutionStatus>;
+  /** Errors thrown by failed nodes */
+  errors: Record<NodeId, unknown>;
+  /** Node ids in the order they were scheduled */
+  order: NodeId[];
+  /** Node ids that could not be ordered because of a dependency cycle */
+  cyclicNodeIds: NodeId[];
+};
+
+/**
+ * Whether an input port collects every incoming value into an array.
+ */
+export const acceptsMultipleInputs = (port: Port): boolean => {
+  if (port.maxConnections === "unlimited") {
+    return true;
+  }
+  return typeof port.maxConnections === "number" && port.maxConnections > 1;
+};
+
+/**
+ * Group connections by their target node id, preserving connection order.
+ */
+export const groupIncomingConnections = (connections: NodeEditorData["connections"]): Map<NodeId, Connection[]> => {
+  const incoming = new Map<NodeId, Connection[]>();
+  Object.values(connections).forEach((connection) => {
+    const list = incoming.get(connection.toNodeId);
+    if (list) {
+      list.push(connection);
+      return;
+    }
+    incoming.set(connection.toNodeId, [connection]);
+  });
+  return incoming;
+};
+
+/**
+ * Build the input values for a node from upstream outputs.
+ */
+export const collectNodeInputs = (
+  ports: Port[],
+  incoming: readonly Connection[],
+  outputs: Readonly<Record<NodeId, NodeExecutionOutputs>>,
+): Record<string, unknown> => {
+  const inputs: Record<string, unknown> = {};
+  ports.forEach((port) => {
+    if (port.type !== "input") {
+      return;
+    }
+    const values = incoming
+      .filter((connection) => connection.toPortId === port.id)
+      .map((connection) => outputs[connection.fromNodeId]?.[connection.fromPortId]);
+    inputs[port.id] = acceptsMultipleInputs(port) ? values : values[0];
+  });
+  return inputs;
+};
+
+/**
+ * Record output ports whose value differs from the previous run.
+ */
+const collectUpdatedPorts = (
+  nodeId: NodeId,
+  previous: NodeExecutionOutputs | undefined,
+  next: NodeExecutionOutputs,
+  updatedPorts: Set<PortKey>,
+): void => {
+  const portIds = new Set([...Object.keys(previous ?? {}), ...Object.keys(next)]);
+  portIds.forEach((portId) => {
+    if (!previous || !Object.is(previous[portId], next[portId])) {
+      updatedPorts.add(createPortKey(nodeId, portId));
+    }
+  });
+};
+
+/**
+ * Evaluate a node graph.
+ * Nodes run as soon as all of their upstream nodes have settled, so independent async nodes run concurrently.
+ * A node is skipped when any upstream node failed or was skipped.
+ * Nodes without an `execute` function are transparent: they produce no outputs and never block downstream nodes.
+ *
+ * With `changedNodeIds`, evaluation is incremental: unchanged nodes reuse `previousOutputs`, and a downstream
+ * node only runs again when a value on one of its connected upstream output ports actually changed.
+ */
+export const evaluateGraph = async (
+  data: NodeEditorData,
+  getNodeDefinition: (type: string) => NodeDefinition | undefined,
+  options: GraphExecutionOptions = {},
+): Promise<GraphExecutionResult> => {
+  const { signal, onNodeStatusChange, getNodePorts = deriveNodePorts, previousOutputs = {}, changedNodeIds } = options;
+  const isIncremental = changedNodeIds !== undefined;
+  const { order, cyclicNodeIds } = computeExecutionOrder(data.nodes, data.connections);
+  const incoming = groupIncomingConnections(data.connections);
+
+  const outputs: Record<NodeId, NodeExecutionOutputs> = {};
+  const statuses: Record<NodeId, NodeExecutionStatus> = {};
+  const errors: Record<NodeId, unknown> = {};
+
+  const report = (nodeId: NodeId, status: NodeExecutionStatus, error?: unknown) => {
+    statuses[nodeId] = status;
+    if (error !== undefined) {
+      errors[nodeId] = error;
+    }
+    onNodeStatusChange?.(nodeId, status, error);
+  };
+
+  // In incremental mode it is not known upfront which nodes will run, so pending is only reported for full runs
+  if (!isIncremental) {
+    order.forEach((nodeId) => {
+      if (getNodeDefinition(data.nodes[nodeId].type)?.execute) {
+        report(nodeId, "pending");
+      }
+    });
+  }
+
+  // Resolves to true when the node (and everything upstream) succeeded
+  const settled = new Map<NodeId, Promise<boolean>>();
+  const updatedPorts = new Set<PortKey>();
+
+  const needsRun = (nodeId: NodeId, nodeIncoming: readonly Connection[]): boolean => {
+    if (!isIncremental || changedNodeIds.has(nodeId)) {
+      return true;
+    }
+    if (!Object.prototype.hasOwnProperty.call(previousOutputs, nodeId)) {
+      return true;
+    }
+    return nodeIncoming.some((connection) =>
+      updatedPorts.has(createPortKey(connection.fromNodeId, connection.fromPortId)),
+    );
+  };
+
+  const runNode = async (nodeId: NodeId): Promise<boolean> => {
+    const node = data.nodes[nodeId];
+    const nodeIncoming = incoming.get(nodeId) ?? [];
+    const upstreamIds = Array.from(new Set(nodeIncoming.map((connection) => connection.fromNodeId)));
+    const upstreamResults = await Promise.all(upstreamIds.map((id) => settled.get(id) ?? Promise.resolve(true)));
+    const upstreamSucceeded = upstreamResults.every(Boolean);
+
+    const definition = getNodeDefinition(node.type);
+    if (!definition?.execute) {
+      return upstreamSucceeded;
+    }
+    if (!upstreamSucceeded) {
+      report(nodeId, "skipped");
+      return false;
+    }
+    if (!needsRun(nodeId, nodeIncoming)) {
+      outputs[nodeId] = previousOutputs[nodeId];
+      return true;
+    }
+    if (signal?.aborted) {
+      report(nodeId, "skipped");
+      return false;
+    }
+
+    report(nodeId, "running");
+    try {
+      const inputs = collectNodeInputs(getNodePorts(node, definition), nodeIncoming, outputs);
+      const result = (await definition.execute({ node, inputs, signal })) ?? {};
+      outputs[nodeId] = result;
+      collectUpdatedPorts(nodeId, previousOutputs[nodeId], result, updatedPorts);
+      report(nodeId, "success");
+      return true;
+    } catch (error) {
+      report(nodeId, "error", error);
+      return false;
+    }
+  };
+
+  order.forEach((nodeId) => {
+    settled.set(nodeId, runNode(nodeId));
+  });
+
+  cyclicNodeIds.forEach((nodeId) => {
+    const node = data.nodes[nodeId];
+    if (getNodeDefinition(node.type)?.execute) {
+      report(nodeId, "error", new Error(`Node "${nodeId}" is part of or depends on a connection cycle`));
+    }
+  });
+
+  await Promise.all(settled.values());
+
+  return { outputs, statuses, errors, order, cyclicNodeIds };
+};
@@ -0,0 +1,76 @@
+/**
+ * @file Unit tests for execution ordering
+ */
+import type { Connection, Node } from "../../types/core";
+import { computeExecutionOrder, findCycles } from "./executionOrder";
+
+const mkNode = (id: string): Node => ({ id, type: "calc", position: { x: 0, y: 0 }, data: {} });
+
+const mkConnection = (id: string, fromNodeId: string, toNodeId: string): Connection => ({
+  id,
+  fromNodeId,
+  fromPortId: "output",
+  toNodeId,
+  toPortId: "input",
+});
+
+describe("computeExecutionOrder", () => {
+  it("orders upstream nodes before downstream nodes", () => {
+    const nodes = { c: mkNode("c"), a: mkNode("a"), b: mkNode("b") };
+    const connections = {
+      c1: mkConnection("c1", "a", "b"),
+      c2: mkConnection("c2", "b", "c"),
+    };
+    expect(computeExecutionOrder(nodes, connections)).toEqual({ order: ["a", "b", "c"], cyclicNodeIds: [] });
+  });
+
+  it("reports nodes in or downstream of a cycle", () => {
+    const nodes = { a: mkNode("a"), b: mkNode("b"), c: mkNode("c"), d: mkNode("d") };
+    const connections = {
+      c1: mkConnection("c1", "a", "b"),
+      c2: mkConnection("c2", "b", "c"),
+      c3: mkConnection("c3", "c", "b"),
+      c4: mkConnection("c4", "c", "d"),
+    };
+    expect(computeExecutionOrder(nodes, connections)).toEqual({ order: ["a"], cyclicNodeIds: ["b", "c", "d"] });
+  });
+
+  it("ignores connections that reference missing nodes", () => {
+    const nodes = { a: mkNode("a") };
+    const connections = { c1: mkConnection("c1", "ghost", "a") };
+    expect(computeExecutionOrder(nodes, connections).order).toEqual(["a"]);
+  });
+});
+
+describe("findCycles", () => {
+  it("returns only the nodes that take part in a cycle", () => {
+    const nodes = { a: mkNode("a"), b: mkNode("b"), c: mkNode("c"), d: mkNode("d"), e: mkNode("e") };
+    const connections = {
+      c1: mkConnection("c1", "a", "b"),
+      c2: mkConnection("c2", "b", "c"),
+      c3: mkConnection("c3", "c", "b"),
+      c4: mkConnection("c4", "c", "d"),
+      c5: mkConnection("c5", "e", "e"),
+    };
+    expect(findCycles(nodes, connections)).toEqual([["b", "c"], ["e"]]);
+  });
+
+  it("returns nothing for acyclic graphs", () => {
+    const nodes = { a: mkNode("a"), b: mkNode("b") };
+    expect(findCycles(nodes, { c1: mkConnection("c1", "a", "b") })).toEqual([]);
+  });
+
+  it("handles chains longer than the call stack", () => {
+    const count = 50000;
+    const ids = Array.from({ length: count }, (_, index) => `n${String(index).padStart(5, "0")}`);
+    const nodes = Object.fromEntries(ids.map((id) => [id, mkNode(id)]));
+    const connections = Object.fromEntries(
+      ids.map((id, index) => [`c${index}`, mkConnection(`c${index}`, id, ids[(index + 1) % count])]),
+    );
+
+    const cycles = findCycles(nodes, connections);
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0]).toHaveLength(count);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * @file Execution ordering for node graphs
+ * Pure functions for topologically ordering nodes along their connections.
+ */
+import type { Connection, ConnectionId, Node, NodeId } from "../../types/core";
+
+export type ExecutionOrder = {
+  /** Node ids in dependency order (upstream before downstream) */
+  order: NodeId[];
+  /** Node ids that are part of, or downstream of, a cycle and cannot be ordered */
+  cyclicNodeIds: NodeId[];
+};
+
+/**
+ * Collect upstream node ids for each node, ignoring connections to missing nodes.
+ */
+export const buildUpstreamMap = (
+  nodes: Record<NodeId, Node>,
+  connections: Record<ConnectionId, Connection>,
+): Map<NodeId, Set<NodeId>> => {
+  const upstream = new Map<NodeId, Set<NodeId>>();
+  Object.keys(nodes).forEach((nodeId) => {
+    upstream.set(nodeId, new Set());
+  });
+  Object.values(connections).forEach((connection) => {
+    if (!nodes[connection.fromNodeId] || !nodes[connection.toNodeId]) {
+      return;
+    }
+    upstream.get(connection.toNodeId)?.add(connection.fromNodeId);
+  });
+  return upstream;
+};
+
+/**
+ * Collect downstream node ids for each node, ignoring connections to missing nodes.
+ */
+export const buildDownstreamMap = (
+  nodes: Record<NodeId, Node>,
+  connections: Record<ConnectionId, Connection>,
+): Map<NodeId, Set<NodeId>> => {
+  const downstream = new Map<NodeId, Set<NodeId>>();
+  Object.keys(nodes).forEach((nodeId) => {
+    downstream.set(nodeId, new Set());
+  });
+  Object.values(connections).forEach((connection) => {
+    if (!nodes[connection.fromNodeId] || !nodes[connection.toNodeId]) {
+      return;
+    }
+    downstream.get(connection.fromNodeId)?.add(connection.toNodeId);
+  });
+  return downstream;
+};
+
+/**
+ * Topologically order nodes using Kahn's algorithm.
+ * Ties are broken by node id so the order is deterministic.
+ */
+export const computeExecutionOrder = (
+  nodes: Record<NodeId, Node>,
+  connections: Record<ConnectionId, Connection>,
+): ExecutionOrder => {
+  const upstream = buildUpstreamMap(nodes, connections);
+  const downstream = buildDownstreamMap(nodes, connections);
+
+  const remaining = new Map<NodeId, number>();
+  upstream.forEach((sources, nodeId) => {
+    remaining.set(nodeId, sources.size);
+  });
+
+  const ready = Array.from(remaining.entries())
+    .filter(([, count]) => count === 0)
+    .map(([nodeId]) => nodeId)
+    .sort();
+
+  const order: NodeId[] = [];
+  while (ready.length > 0) {
+    const nodeId = ready.shift() as NodeId;
+    order.push(nodeId);
+    const targets = Array.from(downstream.get(nodeId) ?? []).sort();
+    targets.forEach((targetId) => {
+      const count = (remaining.get(targetId) ?? 0) - 1;
+      remaining.set(targetId, count);
+      if (count === 0) {
+        ready.push(targetId);
+      }
+    });
+  }
+
+  const ordered = new Set(order);
+  const cyclicNodeIds = Object.keys(nodes)
+    .filter((nodeId) => !ordered.has(nodeId))
+    .sort();
+
+  return { order, cyclicNodeIds };
+};
+
+/**
+ * Collect the given nodes together with every node reachable downstream of them.
+ */
+export const collectDownstreamNodeIds = (
+  nodeIds: Iterable<NodeId>,
+  nodes: Record<NodeId, Node>,
+  connections: Record<ConnectionId, Connection>,
+): Set<NodeId> => {
+  const downstream = buildDownstreamMap(nodes, connections);
+  const visited = new Set<NodeId>();
+  const stack = Array.from(nodeIds).filter((nodeId) => Boolean(nodes[nodeId]));
+  while (stack.length > 0) {
+    const nodeId = stack.pop() as NodeId;
+    if (visited.has(nodeId)) {
+      continue;
+    }
+    visited.add(nodeId);
+    downstream.get(nodeId)?.forEach((targetId) => {
+      if (!visited.has(targetId)) {
+        stack.push(targetId);
+      }
+    });
+  }
+  return visited;
+};
+
+/**
+ * Find the groups of nodes that form cycles (strongly connected components, Tarjan's algorithm).
+ * Unlike `cyclicNodeIds`, nodes that are merely downstream of a cycle are not included.
+ * Each group and the list of groups are sorted by node id.
+ * The traversal keeps its own stack, so long chains do not overflow the call stack.
+ */
+export const findCycles = (nodes: Record<NodeId, Node>, connections: Record<ConnectionId, Connection>): NodeId[][] => {
+  const downstream = buildDownstreamMap(nodes, connections);
+  const indexById = new Map<NodeId, number>();
+  const lowLinkById = new Map<NodeId, number>();
+  const stack: NodeId[] = [];
+  const onStack = new Set<NodeId>();
+  const cycles: NodeId[][] = [];
+  const counter = { next: 0 };
+
+  const enter = (nodeId: NodeId): { nodeId: NodeId; targets: Iterator<NodeId> } => {
+    indexById.set(nodeId, counter.next);
+    lowLinkById.set(nodeId, counter.next);
+    counter.next += 1;
+    stack.push(nodeId);
+    onStack.add(nodeId);
+    return { nodeId, targets: (downstream.get(nodeId) ?? new Set<NodeId>()).values() };
+  };
+
+  const collectComponent = (nodeId: NodeId): void => {
+    if (lowLinkById.get(nodeId) !== indexById.get(nodeId)) {
+      return;
+    }
+    const component: NodeId[] = [];
+    while (stack.length > 0) {
+      const member = stack.pop() as NodeId;
+      onStack.delete(member);
+      component.push(member);
+      if (member === nodeId) {
+        break;
+      }
+    }
+    const isSelfLoop = component.length === 1 && (downstream.get(nodeId)?.has(nodeId) ?? false);
+    if (component.length > 1 || isSelfLoop) {
+      cycles.push(component.sort());
+    }
+  };
+
+  const visit = (rootId: NodeId): void => {
+    const frames = [enter(rootId)];
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const next = frame.targets.next();
+      if (!next.done) {
+        const targetId = next.value;
+        if (!indexById.has(targetId)) {
+          frames.push(enter(targetId));
+        } else if (onStack.has(targetId)) {
+          lowLinkById.set(frame.nodeId, Math.min(lowLinkById.get(frame.nodeId) ?? 0, indexById.get(targetId) ?? 0));
+        }
+        continue;
+      }
+      frames.pop();
+      collectComponent(frame.nodeId);
+      const parent = frames[frames.length - 1];
+      if (parent) {
+        lowLinkById.set(
+          parent.nodeId,
+          Math.min(lowLinkById.get(parent.nodeId) ?? 0, lowLinkById.get(frame.nodeId) ?? 0),
+        );
+      }
+    }
+  };
+
+  Object.keys(nodes)
+    .sort()
+    .forEach((nodeId) => {
+      if (!indexById.has(nodeId)) {
+        visit(nodeId);
+      }
+    });
+
+  return cycles.sort((a, b) => a[0].localeCompare(b[0]));
+};
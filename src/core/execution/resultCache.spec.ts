@@ -0,0 +1,142 @@
+/**
+ * @file Unit tests for the incremental execution result cache
+ */
+import type { NodeEditorData } from "../../types/core";
+import type { NodeDefinition } from "../../types/NodeDefinition";
+import { createExecutionResultCache } from "./resultCache";
+
+const createCountingDefinitions = () => {
+  const runs: string[] = [];
+  const definitions: NodeDefinition[] = [
+    {
+      type: "number",
+      displayName: "Number",
+      ports: [{ id: "value", type: "output", label: "Value", position: "right" }],
+      execute: ({ node }) => {
+        runs.push(node.id);
+        return { value: node.data.value };
+      },
+    },
+    {
+      type: "sign",
+      displayName: "Sign",
+      ports: [
+        { id: "input", type: "input", label: "In", position: "left" },
+        { id: "output", type: "output", label: "Out", position: "right" },
+      ],
+      execute: ({ node, inputs }) => {
+        runs.push(node.id);
+        return { output: Math.sign(Number(inputs.input)) };
+      },
+    },
+  ];
+  const getDefinition = (type: string) => definitions.find((def) => def.type === type);
+  return { runs, getDefinition };
+};
+
+const mkData = (): NodeEditorData => ({
+  nodes: {
+    a: { id: "a", type: "number", position: { x: 0, y: 0 }, data: { value: 2 } },
+    b: { id: "b", type: "number", position: { x: 0, y: 0 }, data: { value: 7 } },
+    s: { id: "s", type: "sign", position: { x: 0, y: 0 }, data: {} },
+    t: { id: "t", type: "sign", position: { x: 0, y: 0 }, data: {} },
+  },
+  connections: {
+    c1: { id: "c1", fromNodeId: "a", fromPortId: "value", toNodeId: "s", toPortId: "input" },
+    c2: { id: "c2", fromNodeId: "s", fromPortId: "output", toNodeId: "t", toPortId: "input" },
+  },
+});
+
+const withNodeData = (data: NodeEditorData, nodeId: string, patch: Record<string, unknown>): NodeEditorData => ({
+  ...data,
+  nodes: { ...data.nodes, [nodeId]: { ...data.nodes[nodeId], data: { ...data.nodes[nodeId].data, ...patch } } },
+});
+
+describe("createExecutionResultCache", () => {
+  it("evaluates everything on the first run and nothing when clean", async () => {
+    const { runs, getDefinition } = createCountingDefinitions();
+    const cache = createExecutionResultCache();
+    cache.sync(mkData());
+    await cache.evaluate(getDefinition);
+    expect(runs.sort()).toEqual(["a", "b", "s", "t"]);
+
+    runs.length = 0;
+    const result = await cache.evaluate(getDefinition);
+    expect(runs).toEqual([]);
+    expect(result.outputs.t).toEqual({ output: 1 });
+  });
+
+  it("re-runs only the downstream cone of an edited node", async () => {
+    const { runs, getDefinition } = createCountingDefinitions();
+    const cache = createExecutionResultCache();
+    const data = mkData();
+    cache.sync(data);
+    await cache.evaluate(getDefinition);
+
+    runs.length = 0;
+    cache.sync(withNodeData(data, "a", { value: -3 }), { changedNodeIds: ["a"] });
+    expect(Array.from(cache.getStaleNodeIds()).sort()).toEqual(["a", "s", "t"]);
+    await cache.evaluate(getDefinition);
+    expect(runs).toEqual(["a", "s", "t"]);
+    expect(cache.getPortValue("t", "output")).toBe(-1);
+  });
+
+  it("stops propagating when an output port value is unchanged", async () => {
+    const { runs, getDefinition } = createCountingDefinitions();
+    const cache = createExecutionResultCache();
+    const data = mkData();
+    cache.sync(data);
+    await cache.evaluate(getDefinition);
+
+    runs.length = 0;
+    cache.sync(withNodeData(data, "a", { value: 5 }), { changedNodeIds: ["a"] });
+    await cache.evaluate(getDefinition);
+    // sign(5) === sign(2), so "t" keeps its cached output
+    expect(runs).toEqual(["a", "s"]);
+  });
+
+  it("ignores moves and visual state changes", async () => {
+    const { getDefinition } = createCountingDefinitions();
+    const cache = createExecutionResultCache();
+    const data = mkData();
+    cache.sync(data);
+    await cache.evaluate(getDefinition);
+
+    const moved = {
+      ...data,
+      nodes: { ...data.nodes, a: { ...data.nodes.a, position: { x: 10, y: 10 } } },
+    };
+    cache.sync(withNodeData(moved, "b", { visualState: "success" }));
+    expect(cache.getDirtyNodeIds().size).toBe(0);
+  });
+
+  it("dirties the target of added and removed connections", async () => {
+    const { runs, getDefinition } = createCountingDefinitions();
+    const cache = createExecutionResultCache();
+    const data = mkData();
+    cache.sync(data);
+    await cache.evaluate(getDefinition);
+
+    runs.length = 0;
+    const { c1: _removed, ...rest } = data.connections;
+    cache.sync({
+      ...data,
+      connections: { ...rest, c3: { id: "c3", fromNodeId: "b", fromPortId: "value", toNodeId: "s", toPortId: "input" } },
+    });
+    expect(Array.from(cache.getDirtyNodeIds())).toEqual(["s"]);
+    await cache.evaluate(getDefinition);
+    expect(runs).toEqual(["s"]);
+  });
+
+  it("drops outputs of removed nodes", async () => {
+    const { getDefinition } = createCountingDefinitions();
+    const cache = createExecutionResultCache();
+    const data = mkData();
+    cache.sync(data);
+    await cache.evaluate(getDefinition);
+
+    const { b: _removed, ...nodes } = data.nodes;
+    cache.sync({ ...data, nodes }, { changedNodeIds: ["b"], removedNodeIds: ["b"] });
+    expect(cache.getOutputs().b).toBeUndefined();
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * @file Execution result cache with dirty tracking
+ * Keeps node outputs between runs and re-evaluates only nodes affected by edits.
+ */
+import type { Connection, Node, NodeEditorData, NodeId } from "../../types/core";
+import type { NodeDefinition, NodeExecutionOutputs } from "../../types/NodeDefinition";
+import { evaluateGraph } from "./evaluate";
+import type { GraphExecutionOptions, GraphExecutionResult, NodeExecutionStatus } from "./evaluate";
+import { collectDownstreamNodeIds } from "./executionOrder";
+
+/**
+ * Hint describing which nodes changed, compatible with `NodeEditorStateChange`.
+ */
+export type ExecutionCacheSyncHint = {
+  changedNodeIds?: readonly NodeId[];
+  removedNodeIds?: readonly NodeId[];
+  fullResync?: boolean;
+};
+
+export type ExecutionResultCache = {
+  /**
+   * Compare the data against the previous sync and mark nodes whose execution inputs changed as dirty.
+   * Changes to position, size, or `data.visualState` do not dirty a node.
+   */
+  sync: (data: NodeEditorData, hint?: ExecutionCacheSyncHint) => void;
+  /** Explicitly mark nodes dirty */
+  markDirty: (nodeIds: Iterable<NodeId>) => void;
+  /** Mark every node dirty so the next evaluation runs the whole graph */
+  invalidateAll: () => void;
+  /** Nodes changed since their last evaluation */
+  getDirtyNodeIds: () => ReadonlySet<NodeId>;
+  /** Dirty nodes together with their downstream cone (nodes that may be re-executed) */
+  getStaleNodeIds: () => Set<NodeId>;
+  /** Cached outputs keyed by node id, then output port id */
+  getOutputs: () => Readonly<Record<NodeId, NodeExecutionOutputs>>;
+  /** Cached value of a single output port */
+  getPortValue: (nodeId: NodeId, portId: string) => unknown;
+  /** Latest known status per node */
+  getStatuses: () => Readonly<Record<NodeId, NodeExecutionStatus>>;
+  /** Re-evaluate dirty nodes and anything downstream whose inputs changed */
+  evaluate: (
+    getNodeDefinition: (type: string) => NodeDefinition | undefined,
+    options?: Omit<GraphExecutionOptions, "previousOutputs" | "changedNodeIds">,
+  ) => Promise<GraphExecutionResult>;
+  /** Drop all cached outputs and tracking state */
+  clear: () => void;
+};
+
+const IGNORED_DATA_KEYS: ReadonlySet<string> = new Set(["visualState"]);
+
+/**
+ * Whether two node snapshots would produce the same execution result.
+ * Compares type and a shallow copy of data, ignoring purely visual keys.
+ */
+export const areExecutionInputsEqual = (previous: Node, next: Node): boolean => {
+  if (previous === next || previous.data === next.data) {
+    return previous.type === next.type;
+  }
+  if (previous.type !== next.type) {
+    return false;
+  }
+  const keys = new Set([...Object.keys(previous.data), ...Object.keys(next.data)]);
+  for (const key of keys) {
+    if (IGNORED_DATA_KEYS.has(key)) {
+      continue;
+    }
+    if (!Object.is(previous.data[key], next.data[key])) {
+      return false;
+    }
+  }
+  return true;
+};
+
+const areConnectionsEqual = (a: Connection, b: Connection): boolean =>
+  a === b ||
+  (a.fromNodeId === b.fromNodeId &&
+    a.fromPortId === b.fromPortId &&
+    a.toNodeId === b.toNodeId &&
+    a.toPortId === b.toPortId);
+
+/**
+ * Create a result cache for incremental graph evaluation
+ */
+export function createExecutionResultCache(): ExecutionResultCache {
+  let lastData: NodeEditorData | null = null;
+  let outputs: Record<NodeId, NodeExecutionOutputs> = {};
+  let statuses: Record<NodeId, NodeExecutionStatus> = {};
+  // Dirty node ids mapped to a stamp so edits made during an evaluation are not lost
+  const dirty = new Map<NodeId, number>();
+  let stamp = 0;
+  let generation = 0;
+
+  const markDirty = (nodeIds: Iterable<NodeId>) => {
+    stamp += 1;
+    for (const nodeId of nodeIds) {
+      dirty.set(nodeId, stamp);
+    }
+  };
+
+  const forgetNode = (nodeId: NodeId) => {
+    delete outputs[nodeId];
+    delete statuses[nodeId];
+    dirty.delete(nodeId);
+  };
+
+  const collectNodeCandidates = (previous: NodeEditorData, next: NodeEditorData, hint?: ExecutionCacheSyncHint) => {
+    const hinted = hint && !hint.fullResync && hint.changedNodeIds && hint.changedNodeIds.length > 0;
+    if (hinted) {
+      return new Set([...(hint.changedNodeIds ?? []), ...(hint.removedNodeIds ?? [])]);
+    }
+    return new Set([...Object.keys(previous.nodes), ...Object.keys(next.nodes)]);
+  };
+
+  const sync = (data: NodeEditorData, hint?: ExecutionCacheSyncHint) => {
+    const previous = lastData;
+    lastData = data;
+    if (!previous) {
+      markDirty(Object.keys(data.nodes));
+      return;
+    }
+    if (previous === data) {
+      return;
+    }
+
+    const changed: NodeId[] = [];
+    if (previous.nodes !== data.nodes) {
+      collectNodeCandidates(previous, data, hint).forEach((nodeId) => {
+        const prevNode = previous.nodes[nodeId];
+        const nextNode = data.nodes[nodeId];
+        if (!nextNode) {
+          forgetNode(nodeId);
+          return;
+        }
+        if (!prevNode || !areExecutionInputsEqual(prevNode, nextNode)) {
+          changed.push(nodeId);
+        }
+      });
+    }
+
+    if (previous.connections !== data.connections) {
+      const connectionIds = new Set([...Object.keys(previous.connections), ...Object.keys(data.connections)]);
+      connectionIds.forEach((connectionId) => {
+        const prevConnection = previous.connections[connectionId];
+        const nextConnection = data.connections[connectionId];
+        if (prevConnection && nextConnection && areConnectionsEqual(prevConnection, nextConnection)) {
+          return;
+        }
+        [prevConnection, nextConnection].forEach((connection) => {
+          if (connection && data.nodes[connection.toNodeId]) {
+            changed.push(connection.toNodeId);
+          }
+        });
+      });
+    }
+
+    if (changed.length > 0) {
+      markDirty(changed);
+    }
+  };
+
+  const evaluate: ExecutionResultCache["evaluate"] = async (getNodeDefinition, options = {}) => {
+    const data = lastData;
+    if (!data) {
+      throw new Error("ExecutionResultCache.evaluate() requires sync() to be called first");
+    }
+    generation += 1;
+    const currentGeneration = generation;
+    const dirtySnapshot = new Map(dirty);
+
+    const result = await evaluateGraph(data, getNodeDefinition, {
+      ...options,
+      previousOutputs: outputs,
+      changedNodeIds: new Set(dirtySnapshot.keys()),
+    });
+
+    // A newer evaluation started meanwhile; let it own the cache
+    if (currentGeneration !== generation) {
+      return result;
+    }
+
+    const liveNodes = lastData?.nodes ?? {};
+    outputs = Object.fromEntries(Object.entries(result.outputs).filter(([nodeId]) => Boolean(liveNodes[nodeId])));
+    statuses = { ...statuses, ...result.statuses };
+    dirtySnapshot.forEach((snapshotStamp, nodeId) => {
+      if (dirty.get(nodeId) === snapshotStamp) {
+        dirty.delete(nodeId);
+      }
+    });
+    return result;
+  };
+
+  return {
+    sync,
+    markDirty,
+    invalidateAll: () => {
+      if (lastData) {
+        markDirty(Object.keys(lastData.nodes));
+      }
+    },
+    getDirtyNodeIds: () => new Set(dirty.keys()),
+    getStaleNodeIds: () => {
+      if (!lastData) {
+        return new Set();
+      }
+      return collectDownstreamNodeIds(dirty.keys(), lastData.nodes, lastData.connections);
+    },
+    getOutputs: () => outputs,
+    getPortValue: (nodeId, portId) => outputs[nodeId]?.[portId],
+    getStatuses: () => statuses,
+    evaluate,
+    clear: () => {
+      lastData = null;
+      outputs = {};
+      statuses = {};
+      dirty.clear();
+      generation += 1;
+    },
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * @file Mapping between execution status and node visual state
+ */
+import type { NodeEditorData, NodeId, NodeVisualState } from "../../types/core";
+import type { NodeExecutionStatus } from "./evaluate";
+
+/**
+ * Map an execution status to the visual state shown on the node.
+ * Pending nodes clear their visual state.
+ */
+export const executionStatusToVisualState = (status: NodeExecutionStatus): NodeVisualState | undefined => {
+  switch (status) {
+    case "running":
+      return "info";
+    case "success":
+      return "success";
+    case "error":
+      return "error";
+    case "skipped":
+      return "disabled";
+    case "pending":
+      return undefined;
+  }
+};
+
+/**
+ * Return editor data with each node's `data.visualState` reflecting its execution status.
+ * Nodes whose visual state is unchanged keep their reference.
+ */
+export const applyExecutionStatuses = (
+  data: NodeEditorData,
+  statuses: Readonly<Record<NodeId, NodeExecutionStatus>>,
+): NodeEditorData => {
+  const nextNodes = { ...data.nodes };
+  const changed = Object.entries(statuses).reduce((hasChanged, [nodeId, status]) => {
+    const node = data.nodes[nodeId];
+    if (!node) {
+      return hasChanged;
+    }
+    const visualState = executionStatusToVisualState(status);
+    if (node.data.visualState === visualState) {
+      return hasChanged;
+    }
+    nextNodes[nodeId] = { ...node, data: { ...node.data, visualState } };
+    return true;
+  }, false);
+  return changed ? { ...data, nodes: nextNodes } : data;
+};
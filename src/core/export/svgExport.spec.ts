@@ -0,0 +1,93 @@
+/**
+ * @file Unit tests for the headless graph SVG export
+ */
+import type { NodeEditorData } from "../../types/core";
+import type { NodeDefinition } from "../../types/NodeDefinition";
+import { createStraightPathModel } from "../connection/path";
+import { exportGraphToSvg } from "./svgExport";
+
+const taskDefinition: NodeDefinition = {
+  type: "task",
+  displayName: "Task",
+  defaultSize: { width: 100, height: 50 },
+  ports: [
+    { id: "in", type: "input", label: "In", position: "left" },
+    { id: "out", type: "output", label: "Out", position: "right" },
+  ],
+};
+
+const data: NodeEditorData = {
+  nodes: {
+    a: {
+      id: "a",
+      type: "task",
+      position: { x: 0, y: 0 },
+      size: { width: 100, height: 50 },
+      data: { title: "Fetch <data>" },
+    },
+    b: { id: "b", type: "task", position: { x: 300, y: 100 }, size: { width: 100, height: 50 }, data: {} },
+    c: { id: "c", type: "task", position: { x: 600, y: 0 }, size: { width: 100, height: 50 }, data: { title: "C" } },
+  },
+  connections: {
+    ab: { id: "ab", fromNodeId: "a", fromPortId: "out", toNodeId: "b", toPortId: "in", data: { label: "ok" } },
+    bc: { id: "bc", fromNodeId: "b", fromPortId: "out", toNodeId: "c", toPortId: "in" },
+  },
+};
+
+const parse = (svg: string) => new DOMParser().parseFromString(svg, "image/svg+xml");
+
+describe("exportGraphToSvg", () => {
+  it("renders nodes, connections, markers and labels as a well-formed SVG", () => {
+    const { svg, width, height, bounds } = exportGraphToSvg(data, [taskDefinition]);
+    const doc = parse(svg);
+
+    expect(doc.querySelector("parsererror")).toBeNull();
+    expect(Array.from(doc.querySelectorAll("[data-node-id]"), (node) => node.getAttribute("data-node-id"))).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(doc.querySelectorAll("[data-connection-id] path[marker-end='url(#arrow)']")).toHaveLength(2);
+    expect(doc.querySelector("marker#arrow path")).not.toBeNull();
+    expect(doc.querySelector("[data-node-id='a'] text")?.textContent).toBe("Fetch <data>");
+    expect(doc.querySelector("[data-node-id='b'] text")?.textContent).toBe("Task");
+    expect(doc.querySelector("[data-connection-id='ab'] text")?.textContent).toBe("ok");
+    // 700×150 of nodes, plus port overhang (6) and default padding (24) on each side
+    expect(bounds).toEqual({ x: -30, y: -30, width: 760, height: 210 });
+    expect({ width, height }).toEqual({ width: 760, height: 210 });
+  });
+
+  it("exports only the given nodes and the connections between them", () => {
+    const { svg } = exportGraphToSvg(data, [taskDefinition], { nodeIds: ["a", "b"] });
+    const doc = parse(svg);
+
+    expect(doc.querySelectorAll("[data-node-id]")).toHaveLength(2);
+    expect(
+      Array.from(doc.querySelectorAll("[data-connection-id]"), (el) => el.getAttribute("data-connection-id")),
+    ).toEqual(["ab"]);
+  });
+
+  it("applies padding, scale, background and theme variables", () => {
+    const { svg, width, height } = exportGraphToSvg(data, [taskDefinition], {
+      nodeIds: ["a"],
+      padding: 0,
+      scale: 2,
+      background: null,
+      themeVariables: { "--node-editor-connection-color": "#ff0000", color: "ignored" },
+    });
+    const doc = parse(svg);
+
+    expect({ width, height }).toEqual({ width: 224, height: 124 });
+    expect(doc.documentElement.getAttribute("viewBox")).toBe("-6 -6 112 62");
+    expect(doc.querySelector("style")?.textContent).toBe("svg{--node-editor-connection-color:#ff0000}");
+    expect(doc.querySelector(":scope > rect")).toBeNull();
+  });
+
+  it("draws connections with the provided path calculator", () => {
+    const { svg } = exportGraphToSvg(data, [taskDefinition], {
+      createPathModel: ({ outputPosition, inputPosition }) => createStraightPathModel(outputPosition, inputPosition),
+    });
+
+    expect(parse(svg).querySelector("[data-connection-id='bc'] path")?.getAttribute("d")).toMatch(/^M \S+ \S+ L /);
+  });
+});
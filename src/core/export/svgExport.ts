@@ -0,0 +1,313 @@
+/**
+ * @file Graph SVG export
+ * Renders editor data to a standalone SVG document without the DOM, so images and thumbnails
+ * can be produced both from the running editor and headlessly (e.g. in tests or on a server).
+ */
+import type { Bounds, Connection, Node, NodeEditorData, NodeId, Port, Position } from "../../types/core";
+import type { NodeDefinition } from "../../types/NodeDefinition";
+import type { ConnectionPathCalculationContext, ConnectionPathModel } from "../../types/connectionBehavior";
+import type { PortPositionConfig } from "../../types/portPosition";
+import { DEFAULT_PORT_POSITION_CONFIG } from "../../types/portPosition";
+import { hasGroupBehavior } from "../../types/behaviors";
+import { getNodeSize } from "../../utils/boundingBoxUtils";
+import { deriveNodePorts } from "../node/portDerivation";
+import { computeNodePortPositions } from "../port/spatiality/computePositions";
+import { calculateConnectionControlPointsByPortSide, createCubicBezierPathModel } from "../connection/path";
+import { createPortSideWaypointPathModel, getConnectionWaypoints } from "../connection/waypoints";
+import { CONNECTION_APPEARANCES } from "../connection/appearance";
+import { createMarkerGeometry, placeMarkerGeometry } from "../connection/marker";
+import {
+  CONNECTION_LABEL_FONT_SIZE,
+  estimateConnectionLabelSize,
+  getConnectionLabel,
+  placeConnectionLabel,
+} from "../connection/label";
+
+/**
+ * Theme variables referenced by exported SVGs. Pass their values as `themeVariables`
+ * to embed the active theme, since a standalone SVG cannot see the page's stylesheets.
+ */
+export const GRAPH_EXPORT_THEME_VARIABLES = [
+  "--node-editor-background-surface",
+  "--node-editor-control-background",
+  "--node-editor-text-color",
+  "--node-editor-secondary-label-color",
+  "--node-editor-connection-color",
+  "--node-editor-accent-color",
+  "--node-editor-node-port-input-color",
+  "--node-editor-node-port-output-color",
+  "--node-editor-group-node-background",
+  "--node-editor-theme-default-font-family",
+] as const;
+
+export type GraphSvgExportOptions = {
+  /** Export only these nodes (and the connections between them); defaults to all visible nodes */
+  nodeIds?: readonly NodeId[];
+  /** Space around the graph in canvas units. Default: 24 */
+  padding?: number;
+  /** Multiplier applied to the SVG's width/height. Default: 1 */
+  scale?: number;
+  /** Background fill; `null` for a transparent background. Default: the canvas surface color */
+  background?: string | null;
+  /** Theme variable values (see `GRAPH_EXPORT_THEME_VARIABLES`) embedded into the SVG */
+  themeVariables?: Readonly<Record<string, string>>;
+  /** Connection path calculator; defaults to the editor's port-side bezier */
+  createPathModel?: (ctx: ConnectionPathCalculationContext) => ConnectionPathModel;
+  portPositionConfig?: PortPositionConfig;
+};
+
+export type GraphSvgExport = {
+  svg: string;
+  /** Output size in pixels (bounds × scale) */
+  width: number;
+  height: number;
+  /** Exported region in canvas coordinates */
+  bounds: Bounds;
+};
+
+const DEFAULT_PADDING = 24;
+const NODE_RADIUS = 6;
+const NODE_FONT_SIZE = 12;
+const NODE_TITLE_INSET = 10;
+const DEFAULT_BACKGROUND = "var(--node-editor-background-surface, #f5f5f5)";
+const FONT_FAMILY = "var(--node-editor-theme-default-font-family, system-ui, sans-serif)";
+
+const escapeXml = (value: string): string =>
+  value.replace(/[<>&"']/g, (char) => {
+    switch (char) {
+      case "<":
+        return "&lt;";
+      case ">":
+        return "&gt;";
+      case "&":
+        return "&amp;";
+      case '"':
+        return "&quot;";
+      default:
+        return "&apos;";
+    }
+  });
+
+const attrs = (values: Record<string, string | number | undefined>): string =>
+  Object.entries(values)
+    .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+    .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+    .join(" ");
+
+// Theme colors go through `style` since CSS variables are not resolved in presentation attributes
+const css = (values: Record<string, string | number>): string =>
+  Object.entries(values)
+    .map(([key, value]) => `${key}:${value}`)
+    .join(";");
+
+const defaultCreatePathModel = (ctx: ConnectionPathCalculationContext): ConnectionPathModel => {
+  const waypoints = getConnectionWaypoints(ctx.connection);
+  if (waypoints.length > 0) {
+    return createPortSideWaypointPathModel(
+      [ctx.outputPosition, ...waypoints, ctx.inputPosition],
+      ctx.outputPort?.position ?? "right",
+      ctx.inputPort?.position ?? "left",
+    );
+  }
+  const { cp1, cp2 } = calculateConnectionControlPointsByPortSide(
+    ctx.outputPosition,
+    ctx.inputPosition,
+    ctx.outputPort?.position ?? "right",
+    ctx.inputPort?.position ?? "left",
+  );
+  return createCubicBezierPathModel(ctx.outputPosition, cp1, cp2, ctx.inputPosition);
+};
+
+const getDepth = (node: Node, nodes: Record<NodeId, Node>): number => {
+  const seen = new Set<NodeId>();
+  const cursor = { node: node as Node | undefined };
+  while (cursor.node?.parentId && !seen.has(cursor.node.id)) {
+    seen.add(cursor.node.id);
+    cursor.node = nodes[cursor.node.parentId];
+  }
+  return seen.size;
+};
+
+const getNodeTitle = (node: Node, definition: NodeDefinition | undefined): string => {
+  const title = node.data.title;
+  if (typeof title === "string" && title.trim().length > 0) {
+    return title;
+  }
+  return definition?.displayName ?? node.type;
+};
+
+type ExportedNode = {
+  node: Node;
+  definition: NodeDefinition | undefined;
+  box: Bounds;
+  ports: Port[];
+  portPoints: Map<string, Position>;
+};
+
+const unionBounds = (boxes: readonly Bounds[]): Bounds => {
+  if (boxes.length === 0) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const renderNode = ({ node, definition, box, ports, portPoints }: ExportedNode, portRadius: number): string => {
+  const isGroup = hasGroupBehavior(definition);
+  const fill = isGroup
+    ? "var(--node-editor-group-node-background, rgba(15, 23, 42, 0.04))"
+    : "var(--node-editor-control-background, #ffffff)";
+  const parts = [
+    `<rect ${attrs({ x: box.x, y: box.y, width: box.width, height: box.height, rx: NODE_RADIUS, style: css({ fill, stroke: "var(--node-editor-secondary-label-color, #999)", "stroke-opacity": 0.4 }) })}/>`,
+    `<text ${attrs({
+      x: box.x + NODE_TITLE_INSET,
+      y: isGroup ? box.y + NODE_TITLE_INSET + NODE_FONT_SIZE / 2 : box.y + box.height / 2,
+      "dominant-baseline": "central",
+      "font-size": NODE_FONT_SIZE,
+      style: css({ fill: "var(--node-editor-text-color, #000)" }),
+    })}>${escapeXml(getNodeTitle(node, definition))}</text>`,
+    ...ports.flatMap((port) => {
+      const point = portPoints.get(port.id);
+      if (!point) {
+        return [];
+      }
+      const stroke =
+        port.type === "input"
+          ? "var(--node-editor-node-port-input-color, #66cc00)"
+          : "var(--node-editor-node-port-output-color, #0099ff)";
+      return [
+        `<circle ${attrs({ cx: point.x, cy: point.y, r: portRadius, "stroke-width": 1.5, style: css({ fill: "var(--node-editor-control-background, #ffffff)", stroke }) })}/>`,
+      ];
+    }),
+  ];
+  return `<g ${attrs({ "data-node-id": node.id })}>${parts.join("")}</g>`;
+};
+
+const renderConnection = (
+  connection: Connection,
+  model: ConnectionPathModel,
+  stroke: string,
+  strokeWidth: number,
+): string => {
+  const parts = [
+    `<path ${attrs({ d: model.toPathData(), fill: "none", "stroke-width": strokeWidth, style: css({ stroke }), "stroke-linecap": "round", "stroke-linejoin": "round", "marker-end": "url(#arrow)" })}/>`,
+  ];
+  const label = getConnectionLabel(connection);
+  if (label) {
+    const size = estimateConnectionLabelSize(label.text);
+    const { x, y } = placeConnectionLabel(model, label.position, size);
+    parts.push(
+      `<rect ${attrs({ x: x - size.width / 2, y: y - size.height / 2, width: size.width, height: size.height, rx: size.height / 2, "stroke-width": 1, style: css({ fill: "var(--node-editor-control-background, #ffffff)", stroke }) })}/>`,
+      `<text ${attrs({ x, y, "text-anchor": "middle", "dominant-baseline": "central", "font-size": CONNECTION_LABEL_FONT_SIZE, style: css({ fill: "var(--node-editor-text-color, #000)" }) })}>${escapeXml(label.text)}</text>`,
+    );
+  }
+  return `<g ${attrs({ "data-connection-id": connection.id })}>${parts.join("")}</g>`;
+};
+
+/**
+ * Render editor data to a standalone SVG document.
+ * Nodes are drawn as titled boxes with their ports; connections use the same path models and
+ * arrow markers as the canvas. Colors reference the theme's CSS variables with built-in fallbacks.
+ */
+export const exportGraphToSvg = (
+  data: NodeEditorData,
+  nodeDefinitions: readonly NodeDefinition[],
+  options: GraphSvgExportOptions = {},
+): GraphSvgExport => {
+  const padding = options.padding ?? DEFAULT_PADDING;
+  const scale = options.scale ?? 1;
+  const createPathModel = options.createPathModel ?? defaultCreatePathModel;
+  const portConfig = options.portPositionConfig ?? DEFAULT_PORT_POSITION_CONFIG;
+  const definitions = new Map(nodeDefinitions.map((definition) => [definition.type, definition]));
+  const included = options.nodeIds ? new Set(options.nodeIds) : null;
+
+  const exportedNodes = Object.values(data.nodes)
+    .filter((node) => node.visible !== false && (!included || included.has(node.id)))
+    .map((node) => ({ node, depth: getDepth(node, data.nodes) }))
+    .sort((a, b) => a.depth - b.depth)
+    .map(({ node }): ExportedNode => {
+      const definition = definitions.get(node.type);
+      const size = getNodeSize(node);
+      const ports = definition ? deriveNodePorts(node, definition) : [];
+      const positions = computeNodePortPositions(node, { config: portConfig, ports });
+      return {
+        node,
+        definition,
+        box: { x: node.position.x, y: node.position.y, width: size.width, height: size.height },
+        ports,
+        portPoints: new Map(Array.from(positions, ([portId, position]) => [portId, position.connectionPoint])),
+      };
+    });
+  const byId = new Map(exportedNodes.map((entry) => [entry.node.id, entry]));
+
+  const appearance = CONNECTION_APPEARANCES.default.self;
+  const stroke = String(appearance.path.style.stroke);
+  const strokeWidth = Number(appearance.path.style.strokeWidth);
+  const connections = Object.values(data.connections).flatMap((connection) => {
+    const from = byId.get(connection.fromNodeId);
+    const to = byId.get(connection.toNodeId);
+    const outputPosition = from?.portPoints.get(connection.fromPortId);
+    const inputPosition = to?.portPoints.get(connection.toPortId);
+    if (!from || !to || !outputPosition || !inputPosition) {
+      return [];
+    }
+    const model = createPathModel({
+      outputPosition,
+      inputPosition,
+      connection,
+      outputNode: from.node,
+      inputNode: to.node,
+      outputPort: from.ports.find((port) => port.id === connection.fromPortId),
+      inputPort: to.ports.find((port) => port.id === connection.toPortId),
+    });
+    return [{ connection, model }];
+  });
+
+  const portRadius = portConfig.visualSize / 2;
+  const content = unionBounds([
+    ...exportedNodes.map(({ box }) => ({
+      x: box.x - portRadius,
+      y: box.y - portRadius,
+      width: box.width + portRadius * 2,
+      height: box.height + portRadius * 2,
+    })),
+    // Rerouted connections may bend outside the nodes
+    ...connections.flatMap(({ connection }) =>
+      getConnectionWaypoints(connection).map((point) => ({ x: point.x, y: point.y, width: 0, height: 0 })),
+    ),
+  ]);
+  const bounds = {
+    x: content.x - padding,
+    y: content.y - padding,
+    width: content.width + padding * 2,
+    height: content.height + padding * 2,
+  };
+  const width = Math.ceil(bounds.width * scale);
+  const height = Math.ceil(bounds.height * scale);
+
+  const marker = placeMarkerGeometry(
+    createMarkerGeometry(appearance.arrowHead.shape, appearance.arrowHead.dimensions),
+    { offset: appearance.arrowHead.offset },
+  );
+  const themeEntries = Object.entries(options.themeVariables ?? {}).filter(([name]) => name.startsWith("--"));
+  const background = options.background === undefined ? DEFAULT_BACKGROUND : options.background;
+
+  const parts = [
+    `<svg ${attrs({ xmlns: "http://www.w3.org/2000/svg", width, height, viewBox: `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`, style: css({ "font-family": FONT_FAMILY }) })}>`,
+    themeEntries.length > 0
+      ? `<style>svg{${themeEntries.map(([name, value]) => `${name}:${value.replace(/[<>;{}]/g, "")}`).join(";")}}</style>`
+      : "",
+    `<defs><marker ${attrs({ id: "arrow", viewBox: marker.viewBox, refX: marker.refX, refY: marker.refY, markerWidth: marker.markerWidth, markerHeight: marker.markerHeight, markerUnits: marker.markerUnits, orient: marker.orient })}><path ${attrs({ d: marker.path, style: css({ fill: stroke }) })}/></marker></defs>`,
+    background !== null
+      ? `<rect ${attrs({ x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height, style: css({ fill: background }) })}/>`
+      : "",
+    ...connections.map(({ connection, model }) => renderConnection(connection, model, stroke, strokeWidth)),
+    ...exportedNodes.map((entry) => renderNode(entry, portRadius)),
+    "</svg>",
+  ];
+
+  return { svg: parts.join(""), width, height, bounds };
+};
@@ -0,0 +1,103 @@
+/**
+ * @file Unit tests for smart alignment guides
+ */
+import { computeAlignmentSnap, getBoundsUnion } from "./alignment";
+
+describe("computeAlignmentSnap", () => {
+  it("snaps edges within the threshold and reports the shared guide line", () => {
+    const result = computeAlignmentSnap(
+      { x: 103, y: 200, width: 50, height: 40 },
+      [{ x: 100, y: 0, width: 80, height: 40 }],
+      5,
+    );
+
+    expect(result.delta).toEqual({ x: -3, y: 0 });
+    expect(result.snapped).toEqual({ x: true, y: false });
+    expect(result.lines).toEqual([{ axis: "x", position: 100, start: 0, end: 240 }]);
+    expect(result.spacings).toEqual([]);
+  });
+
+  it("aligns centers and prefers the closest candidate", () => {
+    const result = computeAlignmentSnap(
+      { x: 0, y: 21, width: 40, height: 20 },
+      [
+        { x: 100, y: 0, width: 40, height: 60 },
+        { x: 200, y: 24, width: 40, height: 10 },
+      ],
+      5,
+    );
+
+    // Center 31 is 1 away from the first candidate's center; the second's top edge is 3 away
+    expect(result.delta).toEqual({ x: 0, y: -1 });
+    expect(result.lines).toEqual([{ axis: "y", position: 30, start: 0, end: 140 }]);
+  });
+
+  it("leaves the rectangle alone when nothing is within the threshold", () => {
+    const result = computeAlignmentSnap(
+      { x: 20, y: 20, width: 10, height: 10 },
+      [{ x: 100, y: 100, width: 10, height: 10 }],
+      5,
+    );
+
+    expect(result).toEqual({ delta: { x: 0, y: 0 }, snapped: { x: false, y: false }, lines: [], spacings: [] });
+  });
+
+  it("continues equal spacing after a row of nodes and reports both gaps", () => {
+    const result = computeAlignmentSnap(
+      { x: 243, y: 500, width: 60, height: 40 },
+      [
+        { x: 0, y: 490, width: 60, height: 40 },
+        { x: 100, y: 510, width: 100, height: 40 },
+      ],
+      5,
+    );
+
+    expect(result.delta.x).toBe(-3);
+    expect(result.spacings).toEqual([
+      { axis: "x", from: 60, to: 100, position: 520 },
+      { axis: "x", from: 200, to: 240, position: 525 },
+    ]);
+  });
+
+  it("centers a node between two neighbours", () => {
+    const result = computeAlignmentSnap(
+      { x: 68, y: 0, width: 20, height: 20 },
+      [
+        { x: 0, y: 0, width: 50, height: 20 },
+        { x: 100, y: 0, width: 50, height: 20 },
+      ],
+      5,
+    );
+
+    expect(result.delta.x).toBe(-3);
+    expect(result.spacings).toEqual([
+      { axis: "x", from: 50, to: 65, position: 10 },
+      { axis: "x", from: 85, to: 100, position: 10 },
+    ]);
+  });
+
+  it("ignores neighbours that do not overlap on the cross axis for spacing", () => {
+    const result = computeAlignmentSnap(
+      { x: 243, y: 500, width: 60, height: 40 },
+      [
+        { x: 0, y: 0, width: 60, height: 40 },
+        { x: 100, y: 0, width: 100, height: 40 },
+      ],
+      5,
+    );
+
+    expect(result.spacings).toEqual([]);
+  });
+});
+
+describe("getBoundsUnion", () => {
+  it("returns the rectangle enclosing all inputs", () => {
+    expect(
+      getBoundsUnion([
+        { x: 10, y: 20, width: 30, height: 40 },
+        { x: -5, y: 50, width: 10, height: 30 },
+      ]),
+    ).toEqual({ x: -5, y: 20, width: 45, height: 60 });
+    expect(getBoundsUnion([])).toBeNull();
+  });
+});
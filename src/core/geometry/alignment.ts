@@ -0,0 +1,229 @@
+/**
+ * @file Smart alignment guides
+ * Pure functions that snap a moving rectangle to the edges, centers and spacing of nearby rectangles
+ * and describe the guide lines to draw for the result.
+ */
+import type { Bounds, Position } from "../../types/core";
+
+/** Axis a guide measures along: "x" guides are vertical lines / horizontal gaps */
+export type AlignmentAxis = "x" | "y";
+
+/**
+ * Line shared by aligned edges or centers.
+ * For axis "x" it is the vertical line `x = position` from `y = start` to `y = end`; for "y" the transpose.
+ */
+export type AlignmentGuideLine = {
+  axis: AlignmentAxis;
+  position: number;
+  start: number;
+  end: number;
+};
+
+/**
+ * One of two or more equal gaps between neighbouring rectangles.
+ * For axis "x" it spans `x = from` to `x = to` at `y = position`; for "y" the transpose.
+ */
+export type SpacingGuide = {
+  axis: AlignmentAxis;
+  from: number;
+  to: number;
+  position: number;
+};
+
+export type AlignmentGuides = {
+  lines: AlignmentGuideLine[];
+  spacings: SpacingGuide[];
+};
+
+export type AlignmentSnapResult = AlignmentGuides & {
+  /** Offset to add to the moving rectangle's position */
+  delta: Position;
+  /** Axes on which the rectangle was snapped */
+  snapped: { x: boolean; y: boolean };
+};
+
+/** Rectangle projected onto one axis; `cross*` is its extent on the other axis */
+type Span = {
+  start: number;
+  end: number;
+  crossStart: number;
+  crossEnd: number;
+};
+
+/** Spans separated by a gap; null stands for the moving rectangle */
+type GapPair = readonly [Span | null, Span | null];
+
+type SnapOption = {
+  offset: number;
+  gaps?: readonly GapPair[];
+};
+
+// Tolerance for treating snapped coordinates as equal
+const EPSILON = 0.5;
+
+const toSpan = (bounds: Bounds, axis: AlignmentAxis): Span =>
+  axis === "x"
+    ? { start: bounds.x, end: bounds.x + bounds.width, crossStart: bounds.y, crossEnd: bounds.y + bounds.height }
+    : { start: bounds.y, end: bounds.y + bounds.height, crossStart: bounds.x, crossEnd: bounds.x + bounds.width };
+
+const center = (span: Span): number => (span.start + span.end) / 2;
+
+const overlapsOnCrossAxis = (a: Span, b: Span): boolean => a.crossStart < b.crossEnd && b.crossStart < a.crossEnd;
+
+const pickCloser = (best: SnapOption | null, option: SnapOption, threshold: number): SnapOption | null => {
+  if (Math.abs(option.offset) > threshold) {
+    return best;
+  }
+  return best === null || Math.abs(option.offset) < Math.abs(best.offset) ? option : best;
+};
+
+/**
+ * Find the smallest offset along one axis that aligns the moving span with a candidate's edges or center,
+ * or makes its gap to a neighbour equal to the gap between two other neighbours.
+ */
+const findSnapOption = (moving: Span, candidates: readonly Span[], threshold: number): SnapOption | null => {
+  let best: SnapOption | null = null;
+
+  const movingCenter = center(moving);
+  for (const candidate of candidates) {
+    for (const target of [candidate.start, candidate.end]) {
+      best = pickCloser(best, { offset: target - moving.start }, threshold);
+      best = pickCloser(best, { offset: target - moving.end }, threshold);
+    }
+    best = pickCloser(best, { offset: center(candidate) - movingCenter }, threshold);
+  }
+
+  const size = moving.end - moving.start;
+  const peers = candidates.filter((candidate) => overlapsOnCrossAxis(candidate, moving));
+  peers.sort((a, b) => a.start - b.start);
+  for (let i = 0; i + 1 < peers.length; i++) {
+    const a = peers[i];
+    const b = peers[i + 1];
+    const gap = b.start - a.end;
+    if (gap <= 0) {
+      continue;
+    }
+    // Continue the row after b or before a with the same gap
+    const after: SnapOption = {
+      offset: b.end + gap - moving.start,
+      gaps: [
+        [a, b],
+        [b, null],
+      ],
+    };
+    const before: SnapOption = {
+      offset: a.start - gap - moving.end,
+      gaps: [
+        [null, a],
+        [a, b],
+      ],
+    };
+    best = pickCloser(pickCloser(best, after, threshold), before, threshold);
+    // Center between a and b
+    if (gap > size) {
+      const between: SnapOption = {
+        offset: a.end + (gap - size) / 2 - moving.start,
+        gaps: [
+          [a, null],
+          [null, b],
+        ],
+      };
+      best = pickCloser(best, between, threshold);
+    }
+  }
+
+  return best;
+};
+
+const collectLines = (moving: Span, candidates: readonly Span[], axis: AlignmentAxis): AlignmentGuideLine[] => {
+  const lines: AlignmentGuideLine[] = [];
+  const anchors: Array<{ value: number; targets: (span: Span) => number[] }> = [
+    { value: moving.start, targets: (span) => [span.start, span.end] },
+    { value: center(moving), targets: (span) => [center(span)] },
+    { value: moving.end, targets: (span) => [span.start, span.end] },
+  ];
+  for (const { value, targets } of anchors) {
+    const aligned = candidates.filter((candidate) =>
+      targets(candidate).some((target) => Math.abs(target - value) <= EPSILON),
+    );
+    if (aligned.length === 0) {
+      continue;
+    }
+    lines.push({
+      axis,
+      position: value,
+      start: Math.min(moving.crossStart, ...aligned.map((span) => span.crossStart)),
+      end: Math.max(moving.crossEnd, ...aligned.map((span) => span.crossEnd)),
+    });
+  }
+  return lines;
+};
+
+const resolveSpacings = (moving: Span, gaps: readonly GapPair[], axis: AlignmentAxis): SpacingGuide[] =>
+  gaps.map(([first, second]) => {
+    const a = first ?? moving;
+    const b = second ?? moving;
+    return {
+      axis,
+      from: a.end,
+      to: b.start,
+      position: (Math.max(a.crossStart, b.crossStart) + Math.min(a.crossEnd, b.crossEnd)) / 2,
+    };
+  });
+
+/**
+ * Snap a moving rectangle to nearby rectangles.
+ * Each axis snaps independently to the closest edge/center alignment or equal-spacing position within `threshold`.
+ * Guides describe every alignment of the snapped rectangle and the equal gaps it was snapped to.
+ */
+export const computeAlignmentSnap = (
+  moving: Bounds,
+  candidates: readonly Bounds[],
+  threshold: number,
+): AlignmentSnapResult => {
+  const optionX = findSnapOption(
+    toSpan(moving, "x"),
+    candidates.map((bounds) => toSpan(bounds, "x")),
+    threshold,
+  );
+  const optionY = findSnapOption(
+    toSpan(moving, "y"),
+    candidates.map((bounds) => toSpan(bounds, "y")),
+    threshold,
+  );
+  const delta = { x: optionX?.offset ?? 0, y: optionY?.offset ?? 0 };
+  const snappedBounds = { ...moving, x: moving.x + delta.x, y: moving.y + delta.y };
+
+  const result: AlignmentSnapResult = {
+    delta,
+    snapped: { x: optionX !== null, y: optionY !== null },
+    lines: [],
+    spacings: [],
+  };
+  for (const [axis, option] of [
+    ["x", optionX],
+    ["y", optionY],
+  ] as const) {
+    const snappedSpan = toSpan(snappedBounds, axis);
+    const spans = candidates.map((bounds) => toSpan(bounds, axis));
+    result.lines.push(...collectLines(snappedSpan, spans, axis));
+    if (option?.gaps) {
+      result.spacings.push(...resolveSpacings(snappedSpan, option.gaps, axis));
+    }
+  }
+  return result;
+};
+
+/**
+ * Union of rectangles, or null when there are none.
+ */
+export const getBoundsUnion = (rects: readonly Bounds[]): Bounds | null => {
+  if (rects.length === 0) {
+    return null;
+  }
+  const left = Math.min(...rects.map((rect) => rect.x));
+  const top = Math.min(...rects.map((rect) => rect.y));
+  const right = Math.max(...rects.map((rect) => rect.x + rect.width));
+  const bottom = Math.max(...rects.map((rect) => rect.y + rect.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
@@ -0,0 +1,89 @@
+/**
+ * @file Unit tests for context menu contribution resolution
+ */
+import type { ContextMenuActionContext, ContextMenuContribution, ContextMenuEntry } from "../../types/contextMenu";
+import {
+  collectContextMenuEntries,
+  createContextMenuRegistry,
+  isContextMenuItemEnabled,
+  resolveVisibleContextMenuEntries,
+} from "./contextMenu";
+
+const ids = (entries: readonly ContextMenuEntry[]) => entries.map((entry) => entry.id);
+
+const context: ContextMenuActionContext = {
+  target: { type: "node", id: "n1" },
+  selectedNodeIds: [],
+  selectedConnectionIds: [],
+  actions: {} as ContextMenuActionContext["actions"],
+  getState: () => ({ nodes: {}, connections: {} }),
+};
+
+describe("collectContextMenuEntries", () => {
+  const contributions: ContextMenuContribution[] = [
+    { target: "node", items: [{ id: "run", label: "Run from here", order: 10 }] },
+    { target: ["node", "connection"], items: [{ id: "inspect", label: "Inspect" }] },
+    { target: "node", nodeTypes: ["script"], items: [{ id: "source", label: "Open source" }] },
+    { target: "canvas", items: [{ id: "paste-image", label: "Paste image" }] },
+  ];
+
+  it("filters by target type and node type and sorts by order", () => {
+    expect(ids(collectContextMenuEntries(contributions, "node", "script"))).toEqual(["inspect", "source", "run"]);
+    expect(ids(collectContextMenuEntries(contributions, "node", "math"))).toEqual(["inspect", "run"]);
+    expect(ids(collectContextMenuEntries(contributions, "connection"))).toEqual(["inspect"]);
+    expect(ids(collectContextMenuEntries(contributions, "canvas"))).toEqual(["paste-image"]);
+  });
+
+  it("lets a later contribution replace an entry with the same id", () => {
+    const entries = collectContextMenuEntries(
+      [...contributions, { target: "node", items: [{ id: "run", label: "Run", order: -1 }] }],
+      "node",
+      "math",
+    );
+    expect(entries.map((entry) => ("label" in entry ? entry.label : entry.id))).toEqual(["Run", "Inspect"]);
+  });
+});
+
+describe("resolveVisibleContextMenuEntries", () => {
+  it("drops hidden items, empty submenus and stray separators", () => {
+    const entries: ContextMenuEntry[] = [
+      { type: "separator", id: "leading" },
+      { id: "hidden", label: "Hidden", isVisible: () => false },
+      { id: "a", label: "A" },
+      { type: "separator", id: "s1" },
+      { type: "separator", id: "s2" },
+      { id: "more", label: "More", items: [{ id: "nested", label: "Nested", isVisible: () => false }] },
+      { id: "b", label: "B", items: [{ id: "c", label: "C" }] },
+      { type: "separator", id: "trailing" },
+    ];
+    const resolved = resolveVisibleContextMenuEntries(entries, context);
+    expect(ids(resolved)).toEqual(["a", "s1", "b"]);
+    expect(resolved[2]).toMatchObject({ items: [{ id: "c" }] });
+  });
+
+  it("passes the action context to the predicates", () => {
+    const isEnabled = (ctx: ContextMenuActionContext) => ctx.target.type === "node";
+    expect(isContextMenuItemEnabled({ id: "a", label: "A", isEnabled }, context)).toBe(true);
+    expect(isContextMenuItemEnabled({ id: "a", label: "A" }, context)).toBe(true);
+    expect(
+      isContextMenuItemEnabled({ id: "a", label: "A", isEnabled }, { ...context, target: { type: "canvas" } }),
+    ).toBe(false);
+  });
+});
+
+describe("createContextMenuRegistry", () => {
+  it("registers, unregisters and notifies subscribers", () => {
+    const registry = createContextMenuRegistry();
+    const notified: number[] = [];
+    registry.subscribe(() => notified.push(registry.getContributions().length));
+
+    const contribution: ContextMenuContribution = { target: "canvas", items: [{ id: "a", label: "A" }] };
+    const unregister = registry.register(contribution);
+    expect(registry.getContributions()).toEqual([contribution]);
+
+    unregister();
+    unregister();
+    expect(registry.getContributions()).toEqual([]);
+    expect(notified).toEqual([1, 0]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @file Context menu contributions
+ * Registry for menu entries contributed to node, connection and canvas menus, and the pure
+ * resolution of the entries shown for a given target.
+ */
+import type {
+  ContextMenuActionContext,
+  ContextMenuContribution,
+  ContextMenuEntry,
+  ContextMenuItem,
+  ContextTargetType,
+} from "../../types/contextMenu";
+
+/**
+ * Contributions registered at runtime, e.g. by plugins.
+ */
+export type ContextMenuRegistry = {
+  /** Add a contribution; returns a function that removes it again */
+  register: (contribution: ContextMenuContribution) => () => void;
+  /** Registered contributions in registration order */
+  getContributions: () => readonly ContextMenuContribution[];
+  subscribe: (listener: () => void) => () => void;
+};
+
+/**
+ * Create an empty context menu registry.
+ */
+export function createContextMenuRegistry(): ContextMenuRegistry {
+  const listeners = new Set<() => void>();
+  const state = { contributions: [] as readonly ContextMenuContribution[] };
+
+  const publish = (contributions: readonly ContextMenuContribution[]) => {
+    state.contributions = contributions;
+    Array.from(listeners).forEach((listener) => listener());
+  };
+
+  return {
+    register: (contribution) => {
+      publish([...state.contributions, contribution]);
+      return () => {
+        if (state.contributions.includes(contribution)) {
+          publish(state.contributions.filter((candidate) => candidate !== contribution));
+        }
+      };
+    },
+    getContributions: () => state.contributions,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+const appliesTo = (
+  contribution: ContextMenuContribution,
+  targetType: ContextTargetType,
+  nodeType?: string,
+): boolean => {
+  const targets: readonly ContextTargetType[] =
+    typeof contribution.target === "string" ? [contribution.target] : contribution.target;
+  if (!targets.includes(targetType)) {
+    return false;
+  }
+  if (targetType !== "node" || !contribution.nodeTypes) {
+    return true;
+  }
+  return nodeType !== undefined && contribution.nodeTypes.includes(nodeType);
+};
+
+/**
+ * Entries of every contribution that applies to the target, sorted by `order` and then by
+ * registration order. An entry whose id was already contributed replaces the earlier one.
+ */
+export const collectContextMenuEntries = (
+  contributions: readonly ContextMenuContribution[],
+  targetType: ContextTargetType,
+  nodeType?: string,
+): ContextMenuEntry[] => {
+  const byId = new Map<string, ContextMenuEntry>();
+  contributions
+    .filter((contribution) => appliesTo(contribution, targetType, nodeType))
+    .flatMap((contribution) => contribution.items)
+    .forEach((entry) => {
+      // Re-inserting moves a replaced entry to the position of its replacement
+      byId.delete(entry.id);
+      byId.set(entry.id, entry);
+    });
+  // Array.prototype.sort is stable, so equal orders keep their registration order
+  return Array.from(byId.values()).sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+};
+
+export const isContextMenuSeparator = (
+  entry: ContextMenuEntry,
+): entry is Extract<ContextMenuEntry, { type: "separator" }> => entry.type === "separator";
+
+/**
+ * Whether a contributed item can be clicked for the current target.
+ */
+export const isContextMenuItemEnabled = (item: ContextMenuItem, context: ContextMenuActionContext): boolean =>
+  item.isEnabled ? item.isEnabled(context) : true;
+
+/**
+ * Entries to show for a target: hidden items are dropped, submenus left without items are dropped,
+ * and separators are removed at the edges and where they would follow each other.
+ */
+export const resolveVisibleContextMenuEntries = (
+  entries: readonly ContextMenuEntry[],
+  context: ContextMenuActionContext,
+): ContextMenuEntry[] => {
+  const visible = entries.flatMap((entry): ContextMenuEntry[] => {
+    if (isContextMenuSeparator(entry)) {
+      return [entry];
+    }
+    if (entry.isVisible && !entry.isVisible(context)) {
+      return [];
+    }
+    if (!entry.items) {
+      return [entry];
+    }
+    const items = resolveVisibleContextMenuEntries(entry.items, context);
+    return items.length > 0 ? [{ ...entry, items }] : [];
+  });
+  return visible.filter((entry, index) => {
+    if (!isContextMenuSeparator(entry)) {
+      return true;
+    }
+    const previous = visible[index - 1];
+    const hasItemAfter = visible.slice(index + 1).some((candidate) => !isContextMenuSeparator(candidate));
+    return previous !== undefined && !isContextMenuSeparator(previous) && hasItemAfter;
+  });
+};
@@ -0,0 +1,20 @@
+/**
+ * @file Names used for nodes and ports in screen-reader labels and announcements
+ */
+import type { Node, Port } from "../../types/core";
+import type { NodeDefinition } from "../../types/NodeDefinition";
+
+/**
+ * The node's title, falling back to its definition's display name and then its type.
+ */
+export const getNodeAccessibleName = (node: Node, definition?: NodeDefinition): string =>
+  node.data.title || definition?.displayName || node.type;
+
+/**
+ * "Node › Port" label for naming one end of a connection.
+ */
+export const getPortAccessibleName = (node: Node, port: Port | undefined, definition?: NodeDefinition): string => {
+  const nodeName = getNodeAccessibleName(node, definition);
+  const portName = port?.label || port?.id;
+  return portName ? `${nodeName} › ${portName}` : nodeName;
+};
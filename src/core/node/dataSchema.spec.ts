@@ -0,0 +1,163 @@
+/**
+ * @file Unit tests for node data schema normalization and validation
+ */
+import { createNodeDefinition } from "../../types/NodeDefinition";
+import type { NodeDataFieldList, NodeDataJsonSchema } from "../../types/dataSchema";
+import { createDefaultFieldValue, normalizeNodeDataSchema, validateNodeData } from "./dataSchema";
+
+type ServerData = {
+  host: string;
+  port: number;
+  secure?: boolean;
+  mode: "read" | "write";
+  retry: { attempts: number };
+  tags: string[];
+};
+
+const fields: NodeDataFieldList<ServerData> = [
+  { key: "host", type: "string", required: true, pattern: "^[a-z.]+$" },
+  { key: "port", type: "number", integer: true, min: 1, max: 65535 },
+  { key: "secure", type: "boolean" },
+  {
+    key: "mode",
+    type: "enum",
+    options: [{ value: "read" }, { value: "write" }],
+    display: "toggle",
+  },
+  { key: "retry", type: "object", fields: [{ key: "attempts", type: "number", min: 0 }] },
+  { key: "tags", type: "array", items: { type: "string", minLength: 2 }, maxItems: 2 },
+];
+
+const validData: ServerData = {
+  host: "example.com",
+  port: 8080,
+  mode: "read",
+  retry: { attempts: 3 },
+  tags: ["db"],
+};
+
+describe("normalizeNodeDataSchema", () => {
+  it("returns field lists unchanged", () => {
+    expect(normalizeNodeDataSchema(fields)).toBe(fields);
+  });
+
+  it("converts JSON Schema properties into field descriptors", () => {
+    const schema: NodeDataJsonSchema = {
+      type: "object",
+      required: ["name"],
+      properties: {
+        name: { type: "string", title: "Name", maxLength: 10 },
+        notes: { type: "string", format: "textarea" },
+        count: { type: "integer", minimum: 0 },
+        level: { enum: ["low", "high"] },
+        options: { type: "object", properties: { verbose: { type: "boolean" } } },
+        items: { type: "array", items: { type: "number" }, minItems: 1 },
+      },
+    };
+
+    expect(normalizeNodeDataSchema(schema)).toEqual([
+      { key: "name", type: "string", label: "Name", required: true, maxLength: 10 },
+      { key: "notes", type: "string", multiline: true },
+      { key: "count", type: "number", min: 0, integer: true },
+      { key: "level", type: "enum", options: [{ value: "low" }, { value: "high" }] },
+      { key: "options", type: "object", fields: [{ key: "verbose", type: "boolean" }] },
+      { key: "items", type: "array", items: { type: "number" }, minItems: 1 },
+    ]);
+  });
+});
+
+describe("validateNodeData", () => {
+  it("accepts data matching the schema", () => {
+    expect(validateNodeData(fields, validData)).toEqual([]);
+  });
+
+  it("reports issues with the path of the offending value", () => {
+    const issues = validateNodeData(fields, {
+      host: "",
+      port: 70000.5,
+      secure: "yes",
+      mode: "append",
+      retry: { attempts: -1 },
+      tags: ["a", "bc", "de"],
+    });
+
+    expect(issues).toEqual([
+      { path: ["host"], code: "required" },
+      { path: ["port"], code: "integer" },
+      { path: ["port"], code: "max", params: { max: 65535 } },
+      { path: ["secure"], code: "type" },
+      { path: ["mode"], code: "enum" },
+      { path: ["retry", "attempts"], code: "min", params: { min: 0 } },
+      { path: ["tags"], code: "maxItems", params: { max: 2 } },
+      { path: ["tags", 0], code: "minLength", params: { min: 2 } },
+    ]);
+  });
+
+  it("runs custom validators only for values that passed the built-in checks", () => {
+    const seen: string[] = [];
+    const schema: NodeDataFieldList = [
+      {
+        key: "name",
+        type: "string",
+        maxLength: 5,
+        validate: (value) => {
+          seen.push(value);
+          return value === "admin" ? "Reserved name" : undefined;
+        },
+      },
+    ];
+
+    expect(validateNodeData(schema, { name: "admin" })).toEqual([
+      { path: ["name"], code: "custom", message: "Reserved name" },
+    ]);
+    expect(validateNodeData(schema, { name: "too long" })).toEqual([
+      { path: ["name"], code: "maxLength", params: { max: 5 } },
+    ]);
+    expect(seen).toEqual(["admin"]);
+  });
+
+  it("validates against JSON Schema", () => {
+    const schema: NodeDataJsonSchema = { properties: { count: { type: "integer" } }, required: ["count"] };
+
+    expect(validateNodeData(schema, {})).toEqual([{ path: ["count"], code: "required" }]);
+    expect(validateNodeData(schema, { count: 2 })).toEqual([]);
+  });
+});
+
+describe("createDefaultFieldValue", () => {
+  it("builds initial values for nested descriptors", () => {
+    expect(
+      createDefaultFieldValue({
+        type: "object",
+        fields: [
+          { key: "name", type: "string" },
+          { key: "size", type: "number", min: 4 },
+          { key: "kind", type: "enum", options: [{ value: "a" }, { value: "b" }] },
+          { key: "items", type: "array", items: { type: "boolean" } },
+        ],
+      }),
+    ).toEqual({ name: "", size: 4, kind: "a", items: [] });
+  });
+});
+
+describe("dataSchema typing", () => {
+  it("checks field lists against the definition's data type", () => {
+    const definition = createNodeDefinition({
+      type: "server",
+      displayName: "Server",
+      defaultData: { host: "localhost", port: 80 },
+      dataSchema: [
+        { key: "host", type: "string" },
+        { key: "port", type: "number" },
+        // @ts-expect-error -- "port" is a number, so it cannot be edited as a string
+        { key: "port", type: "string" },
+        // @ts-expect-error -- unknown data keys are rejected
+        { key: "missing", type: "string" },
+      ],
+    });
+
+    // TData is still inferred from defaultData
+    const port: number | undefined = definition.defaultData?.port;
+    expect(port).toBe(80);
+  });
+});
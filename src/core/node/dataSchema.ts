@@ -0,0 +1,227 @@
+/**
+ * @file Node data schema
+ * Normalizes JSON Schema and field descriptor lists into one descriptor form and validates
+ * node data against it. Used by the schema-driven inspector.
+ */
+import type { NodeData } from "../../types/core";
+import type {
+  NodeDataFieldList,
+  NodeDataJsonSchema,
+  NodeDataSchema,
+  NodeDataValidationIssue,
+  NodeDataValueDescriptor,
+} from "../../types/dataSchema";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const fromJsonSchema = (schema: NodeDataJsonSchema, required: boolean): NodeDataValueDescriptor => {
+  const base = {
+    ...(schema.title !== undefined ? { label: schema.title } : {}),
+    ...(schema.description !== undefined ? { description: schema.description } : {}),
+    ...(required ? { required } : {}),
+  };
+  if (schema.enum) {
+    return { ...base, type: "enum", options: schema.enum.map((value) => ({ value })) };
+  }
+  switch (schema.type) {
+    case "number":
+    case "integer":
+      return {
+        ...base,
+        type: "number",
+        ...(schema.minimum !== undefined ? { min: schema.minimum } : {}),
+        ...(schema.maximum !== undefined ? { max: schema.maximum } : {}),
+        ...(schema.type === "integer" ? { integer: true } : {}),
+      };
+    case "boolean":
+      return { ...base, type: "boolean" };
+    case "array":
+      return {
+        ...base,
+        type: "array",
+        items: schema.items ? fromJsonSchema(schema.items, false) : { type: "string" },
+        ...(schema.minItems !== undefined ? { minItems: schema.minItems } : {}),
+        ...(schema.maxItems !== undefined ? { maxItems: schema.maxItems } : {}),
+      };
+    case "object":
+      return { ...base, type: "object", fields: fieldsFromJsonSchema(schema) };
+    default:
+      if (schema.properties) {
+        return { ...base, type: "object", fields: fieldsFromJsonSchema(schema) };
+      }
+      return {
+        ...base,
+        type: "string",
+        ...(schema.format === "textarea" ? { multiline: true } : {}),
+        ...(schema.minLength !== undefined ? { minLength: schema.minLength } : {}),
+        ...(schema.maxLength !== undefined ? { maxLength: schema.maxLength } : {}),
+        ...(schema.pattern !== undefined ? { pattern: schema.pattern } : {}),
+      };
+  }
+};
+
+const fieldsFromJsonSchema = (schema: NodeDataJsonSchema): NodeDataFieldList => {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {}).map(([key, property]) => ({
+    key,
+    ...fromJsonSchema(property, required.has(key)),
+  }));
+};
+
+/**
+ * Convert a node data schema into a field descriptor list.
+ * Field lists are returned as is; JSON Schema objects are converted property by property.
+ */
+export const normalizeNodeDataSchema = (schema: NodeDataSchema): NodeDataFieldList => {
+  if (Array.isArray(schema)) {
+    return schema as NodeDataFieldList;
+  }
+  return fieldsFromJsonSchema(schema as NodeDataJsonSchema);
+};
+
+const validateValue = (
+  descriptor: NodeDataValueDescriptor,
+  value: unknown,
+  path: readonly (string | number)[],
+  data: NodeData,
+  issues: NodeDataValidationIssue[],
+): void => {
+  if (value === undefined || value === null || (descriptor.type === "string" && value === "")) {
+    if (descriptor.required) {
+      issues.push({ path, code: "required" });
+    }
+    return;
+  }
+
+  const issueCount = issues.length;
+  const report = (code: NodeDataValidationIssue["code"], params?: Record<string, string | number>) => {
+    issues.push(params ? { path, code, params } : { path, code });
+  };
+  // Custom validators only see values that passed the built-in checks
+  const runCustomValidation = (validate: () => string | undefined) => {
+    if (issues.length !== issueCount) {
+      return;
+    }
+    const message = validate();
+    if (message !== undefined) {
+      issues.push({ path, code: "custom", message });
+    }
+  };
+
+  switch (descriptor.type) {
+    case "string": {
+      if (typeof value !== "string") {
+        report("type");
+        return;
+      }
+      if (descriptor.minLength !== undefined && value.length < descriptor.minLength) {
+        report("minLength", { min: descriptor.minLength });
+      }
+      if (descriptor.maxLength !== undefined && value.length > descriptor.maxLength) {
+        report("maxLength", { max: descriptor.maxLength });
+      }
+      if (descriptor.pattern !== undefined && !new RegExp(descriptor.pattern).test(value)) {
+        report("pattern", { pattern: descriptor.pattern });
+      }
+      runCustomValidation(() => descriptor.validate?.(value, data));
+      return;
+    }
+    case "number": {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        report("type");
+        return;
+      }
+      if (descriptor.integer && !Number.isInteger(value)) {
+        report("integer");
+      }
+      if (descriptor.min !== undefined && value < descriptor.min) {
+        report("min", { min: descriptor.min });
+      }
+      if (descriptor.max !== undefined && value > descriptor.max) {
+        report("max", { max: descriptor.max });
+      }
+      runCustomValidation(() => descriptor.validate?.(value, data));
+      return;
+    }
+    case "boolean": {
+      if (typeof value !== "boolean") {
+        report("type");
+        return;
+      }
+      runCustomValidation(() => descriptor.validate?.(value, data));
+      return;
+    }
+    case "enum": {
+      const option = descriptor.options.find((candidate) => candidate.value === value);
+      if (!option) {
+        report("enum");
+        return;
+      }
+      runCustomValidation(() => descriptor.validate?.(option.value, data));
+      return;
+    }
+    case "object": {
+      if (!isRecord(value)) {
+        report("type");
+        return;
+      }
+      descriptor.fields.forEach((field) => {
+        validateValue(field, value[field.key], [...path, field.key], data, issues);
+      });
+      runCustomValidation(() => descriptor.validate?.(value, data));
+      return;
+    }
+    case "array": {
+      if (!Array.isArray(value)) {
+        report("type");
+        return;
+      }
+      if (descriptor.minItems !== undefined && value.length < descriptor.minItems) {
+        report("minItems", { min: descriptor.minItems });
+      }
+      if (descriptor.maxItems !== undefined && value.length > descriptor.maxItems) {
+        report("maxItems", { max: descriptor.maxItems });
+      }
+      value.forEach((item, index) => {
+        validateValue(descriptor.items, item, [...path, index], data, issues);
+      });
+      runCustomValidation(() => descriptor.validate?.(value, data));
+      return;
+    }
+  }
+};
+
+/**
+ * Validate node data against a schema.
+ * Nested values are checked recursively; custom `validate` functions only run for values
+ * that passed the built-in checks.
+ * @returns Issues in field order; empty when the data is valid
+ */
+export const validateNodeData = (schema: NodeDataSchema, data: NodeData): NodeDataValidationIssue[] => {
+  const issues: NodeDataValidationIssue[] = [];
+  normalizeNodeDataSchema(schema).forEach((field) => {
+    validateValue(field, data[field.key], [field.key], data, issues);
+  });
+  return issues;
+};
+
+/**
+ * Initial value for a new field or array item.
+ */
+export const createDefaultFieldValue = (descriptor: NodeDataValueDescriptor): unknown => {
+  switch (descriptor.type) {
+    case "string":
+      return "";
+    case "number":
+      return descriptor.min ?? 0;
+    case "boolean":
+      return false;
+    case "enum":
+      return descriptor.options[0]?.value;
+    case "object":
+      return Object.fromEntries(descriptor.fields.map((field) => [field.key, createDefaultFieldValue(field)]));
+    case "array":
+      return [];
+  }
+};
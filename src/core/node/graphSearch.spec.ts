@@ -0,0 +1,77 @@
+/**
+ * @file Unit tests for find and replace over existing nodes
+ */
+import type { Node } from "../../types/core";
+import { createGraphSearchPattern, findNodesInGraph, replaceInNodeData } from "./graphSearch";
+
+const nodes: Record<string, Node> = {
+  lower: {
+    id: "lower",
+    type: "math",
+    position: { x: 0, y: 200 },
+    data: { title: "Add Numbers", config: { label: "sum", precision: 2 } },
+  },
+  upper: {
+    id: "upper",
+    type: "text",
+    position: { x: 300, y: 0 },
+    data: { title: "Greeting", content: "Hello number one" },
+  },
+  left: {
+    id: "left",
+    type: "text",
+    position: { x: 0, y: 0 },
+    data: { title: "Numbered list" },
+  },
+};
+
+describe("findNodesInGraph", () => {
+  it("matches titles and nested data fields in canvas order", () => {
+    const results = findNodesInGraph(nodes, "number");
+
+    expect(results.map((result) => result.nodeId)).toEqual(["left", "upper", "lower"]);
+    expect(results[1].matches).toEqual([{ field: "data", path: "content", value: "Hello number one" }]);
+    expect(results[2].matches).toEqual([{ field: "title", path: "title", value: "Add Numbers" }]);
+  });
+
+  it("honours case sensitivity, whole words and the field filter", () => {
+    expect(findNodesInGraph(nodes, "Number", { caseSensitive: true }).map((r) => r.nodeId)).toEqual(["left", "lower"]);
+    expect(findNodesInGraph(nodes, "number", { wholeWord: true }).map((r) => r.nodeId)).toEqual(["upper"]);
+    expect(findNodesInGraph(nodes, "text", { fields: ["type"] }).map((r) => r.nodeId)).toEqual(["left", "upper"]);
+    expect(findNodesInGraph(nodes, "low", { fields: ["id"] })).toEqual([
+      { nodeId: "lower", matches: [{ field: "id", value: "lower" }] },
+    ]);
+  });
+
+  it("matches numbers in data and treats the query literally", () => {
+    expect(findNodesInGraph(nodes, "2")[0].matches).toEqual([{ field: "data", path: "config.precision", value: "2" }]);
+    expect(findNodesInGraph(nodes, ".*")).toEqual([]);
+    expect(findNodesInGraph(nodes, "")).toEqual([]);
+  });
+});
+
+describe("replaceInNodeData", () => {
+  it("replaces every occurrence in string fields and counts them", () => {
+    const result = replaceInNodeData(
+      { title: "Number", items: ["one number", 3], nested: { note: "number$1" } },
+      "number",
+      "$&value",
+    );
+
+    expect(result.count).toBe(3);
+    expect(result.data).toEqual({ title: "$&value", items: ["one $&value", 3], nested: { note: "$&value$1" } });
+  });
+
+  it("returns the input when nothing matched", () => {
+    const data = { title: "Greeting", count: 5 };
+
+    expect(replaceInNodeData(data, "5", "6")).toEqual({ data, count: 0 });
+    expect(replaceInNodeData(data, "greeting", "Hi", { caseSensitive: true }).data).toBe(data);
+  });
+});
+
+describe("createGraphSearchPattern", () => {
+  it("returns null for an empty query", () => {
+    expect(createGraphSearchPattern("")).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * @file Find and replace over existing nodes
+ * Pure functions that match a query against node ids, types, titles and data fields,
+ * and replace text inside the string fields of node data.
+ */
+import type { Node, NodeData, NodeId } from "../../types/core";
+
+/** Node property a search can look at; "data" covers every data field except the title */
+export type GraphSearchField = "id" | "type" | "title" | "data";
+
+export type GraphSearchOptions = {
+  /** Match letter case exactly (default: false) */
+  caseSensitive?: boolean;
+  /** Only match whole words (default: false) */
+  wholeWord?: boolean;
+  /** Properties to search (default: all) */
+  fields?: readonly GraphSearchField[];
+};
+
+export type GraphSearchFieldMatch = {
+  field: GraphSearchField;
+  /** Dot-separated path inside `node.data` for "title" and "data" matches */
+  path?: string;
+  /** Text of the matched property */
+  value: string;
+};
+
+export type GraphSearchResult = {
+  nodeId: NodeId;
+  matches: GraphSearchFieldMatch[];
+};
+
+export type NodeDataReplaceResult = {
+  data: NodeData;
+  /** Number of replaced occurrences */
+  count: number;
+};
+
+const ALL_FIELDS: readonly GraphSearchField[] = ["id", "type", "title", "data"];
+
+// Nested data deeper than this is not searched
+const MAX_DATA_DEPTH = 8;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Build the pattern a query matches with, or null for an empty query.
+ */
+export const createGraphSearchPattern = (query: string, options: GraphSearchOptions = {}): RegExp | null => {
+  if (query.length === 0) {
+    return null;
+  }
+  const source = escapeRegExp(query);
+  const flags = options.caseSensitive ? "gu" : "giu";
+  return new RegExp(options.wholeWord ? `(?<![\\p{L}\\p{N}_])${source}(?![\\p{L}\\p{N}_])` : source, flags);
+};
+
+const testPattern = (pattern: RegExp, text: string): boolean => {
+  pattern.lastIndex = 0;
+  return pattern.test(text);
+};
+
+const collectDataMatches = (
+  value: unknown,
+  path: string,
+  pattern: RegExp,
+  depth: number,
+  matches: GraphSearchFieldMatch[],
+): void => {
+  if (typeof value === "string" || typeof value === "number") {
+    const text = String(value);
+    if (testPattern(pattern, text)) {
+      matches.push({ field: "data", path, value: text });
+    }
+    return;
+  }
+  if (depth >= MAX_DATA_DEPTH || typeof value !== "object" || value === null) {
+    return;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    collectDataMatches(child, path ? `${path}.${key}` : key, pattern, depth + 1, matches);
+  }
+};
+
+/**
+ * Match a query against a single node.
+ */
+export const matchNode = (
+  node: Node,
+  pattern: RegExp,
+  fields: readonly GraphSearchField[] = ALL_FIELDS,
+): GraphSearchFieldMatch[] => {
+  const matches: GraphSearchFieldMatch[] = [];
+  if (fields.includes("id") && testPattern(pattern, node.id)) {
+    matches.push({ field: "id", value: node.id });
+  }
+  if (fields.includes("type") && testPattern(pattern, node.type)) {
+    matches.push({ field: "type", value: node.type });
+  }
+  const { title, ...rest } = node.data;
+  if (fields.includes("title") && typeof title === "string" && testPattern(pattern, title)) {
+    matches.push({ field: "title", path: "title", value: title });
+  }
+  if (fields.includes("data")) {
+    collectDataMatches(rest, "", pattern, 0, matches);
+  }
+  return matches;
+};
+
+/**
+ * Find the nodes matching a query, ordered top-to-bottom then left-to-right on the canvas.
+ */
+export const findNodesInGraph = (
+  nodes: Readonly<Record<NodeId, Node>>,
+  query: string,
+  options: GraphSearchOptions = {},
+): GraphSearchResult[] => {
+  const pattern = createGraphSearchPattern(query, options);
+  if (!pattern) {
+    return [];
+  }
+  const fields = options.fields ?? ALL_FIELDS;
+  const found: Array<GraphSearchResult & { node: Node }> = [];
+  for (const node of Object.values(nodes)) {
+    const matches = matchNode(node, pattern, fields);
+    if (matches.length > 0) {
+      found.push({ nodeId: node.id, matches, node });
+    }
+  }
+  found.sort((a, b) => a.node.position.y - b.node.position.y || a.node.position.x - b.node.position.x);
+  return found.map(({ nodeId, matches }) => ({ nodeId, matches }));
+};
+
+const replaceInValue = (
+  value: unknown,
+  pattern: RegExp,
+  replacement: string,
+  depth: number,
+): { value: unknown; count: number } => {
+  if (typeof value === "string") {
+    let count = 0;
+    const next = value.replace(pattern, () => {
+      count += 1;
+      return replacement;
+    });
+    return { value: count > 0 ? next : value, count };
+  }
+  if (depth >= MAX_DATA_DEPTH || typeof value !== "object" || value === null) {
+    return { value, count: 0 };
+  }
+  if (Array.isArray(value)) {
+    let total = 0;
+    const items = value.map((item) => {
+      const result = replaceInValue(item, pattern, replacement, depth + 1);
+      total += result.count;
+      return result.value;
+    });
+    return { value: total > 0 ? items : value, count: total };
+  }
+  let total = 0;
+  const entries = Object.entries(value).map(([key, child]) => {
+    const result = replaceInValue(child, pattern, replacement, depth + 1);
+    total += result.count;
+    return [key, result.value] as const;
+  });
+  return { value: total > 0 ? Object.fromEntries(entries) : value, count: total };
+};
+
+/**
+ * Replace every occurrence of a query inside the string fields of node data (the title included).
+ * Non-string values are left alone; the input object is returned when nothing matched.
+ */
+export const replaceInNodeData = (
+  data: NodeData,
+  query: string,
+  replacement: string,
+  options: Omit<GraphSearchOptions, "fields"> = {},
+): NodeDataReplaceResult => {
+  const pattern = createGraphSearchPattern(query, options);
+  if (!pattern) {
+    return { data, count: 0 };
+  }
+  const result = replaceInValue(data, pattern, replacement, 0);
+  return { data: result.value as NodeData, count: result.count };
+};
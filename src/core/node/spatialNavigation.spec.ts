@@ -0,0 +1,54 @@
+/**
+ * @file Unit tests for spatial keyboard navigation between nodes
+ */
+import type { Node } from "../../types/core";
+import { findNodeInDirection, getEntryNodeId } from "./spatialNavigation";
+
+const node = (id: string, x: number, y: number, extra: Partial<Node> = {}): Node => ({
+  id,
+  type: "test",
+  position: { x, y },
+  size: { width: 100, height: 50 },
+  data: {},
+  ...extra,
+});
+
+//   a ---- b
+//   |
+//   c   d (slightly lower than c, far right)
+const nodes: Record<string, Node> = {
+  a: node("a", 0, 0),
+  b: node("b", 300, 10),
+  c: node("c", 0, 200),
+  d: node("d", 300, 230),
+};
+
+describe("findNodeInDirection", () => {
+  it("moves to the nearest node that lies in the arrow's direction", () => {
+    expect(findNodeInDirection(nodes, "a", "right")).toBe("b");
+    expect(findNodeInDirection(nodes, "a", "down")).toBe("c");
+    expect(findNodeInDirection(nodes, "c", "right")).toBe("d");
+    expect(findNodeInDirection(nodes, "d", "up")).toBe("b");
+    expect(findNodeInDirection(nodes, "b", "left")).toBe("a");
+  });
+
+  it("returns null at the edge of the graph or for unknown nodes", () => {
+    expect(findNodeInDirection(nodes, "a", "left")).toBeNull();
+    expect(findNodeInDirection(nodes, "a", "up")).toBeNull();
+    expect(findNodeInDirection(nodes, "missing", "down")).toBeNull();
+  });
+
+  it("skips hidden nodes", () => {
+    const withHidden = { ...nodes, b: { ...nodes.b, visible: false } };
+
+    expect(findNodeInDirection(withHidden, "a", "right")).toBe("d");
+  });
+});
+
+describe("getEntryNodeId", () => {
+  it("picks the first visible node in reading order", () => {
+    expect(getEntryNodeId(nodes)).toBe("a");
+    expect(getEntryNodeId({ ...nodes, a: { ...nodes.a, visible: false } })).toBe("b");
+    expect(getEntryNodeId({})).toBeNull();
+  });
+});
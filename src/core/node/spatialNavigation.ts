@@ -0,0 +1,80 @@
+/**
+ * @file Spatial keyboard navigation between nodes
+ * Pure functions that pick the node an arrow key should move focus to, based on node centers.
+ */
+import type { Node, NodeId, Position } from "../../types/core";
+import { getBoundingBoxCenter, getNodeBoundingBox } from "../../utils/boundingBoxUtils";
+
+export type NavigationDirection = "left" | "right" | "up" | "down";
+
+/** Unit vector for each direction in canvas space (y grows downwards) */
+const DIRECTION_VECTORS: Record<NavigationDirection, Position> = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+};
+
+// Sideways drift costs more than distance along the arrow so that nodes roughly in line win
+const PERPENDICULAR_WEIGHT = 2;
+
+const isNavigable = (node: Node): boolean => node.visible !== false;
+
+/**
+ * Node nearest to `fromId` in the given direction, or null when nothing lies that way.
+ * Candidates must be strictly ahead of the current node's center; among them the one with the
+ * smallest distance along the arrow plus weighted sideways offset wins.
+ */
+export const findNodeInDirection = (
+  nodes: Readonly<Record<NodeId, Node>>,
+  fromId: NodeId,
+  direction: NavigationDirection,
+): NodeId | null => {
+  const from = nodes[fromId];
+  if (!from) {
+    return null;
+  }
+  const origin = getBoundingBoxCenter(getNodeBoundingBox(from));
+  const vector = DIRECTION_VECTORS[direction];
+
+  const best = Object.values(nodes).reduce<{ id: NodeId; score: number } | null>((current, candidate) => {
+    if (candidate.id === fromId || !isNavigable(candidate)) {
+      return current;
+    }
+    const center = getBoundingBoxCenter(getNodeBoundingBox(candidate));
+    const dx = center.x - origin.x;
+    const dy = center.y - origin.y;
+    const along = dx * vector.x + dy * vector.y;
+    if (along <= 0) {
+      return current;
+    }
+    const across = Math.abs(dx * vector.y - dy * vector.x);
+    const score = along + across * PERPENDICULAR_WEIGHT;
+    if (current && (current.score < score || (current.score === score && current.id < candidate.id))) {
+      return current;
+    }
+    return { id: candidate.id, score };
+  }, null);
+
+  return best?.id ?? null;
+};
+
+/**
+ * First node in reading order (top to bottom, then left to right); where keyboard focus enters the canvas.
+ */
+export const getEntryNodeId = (nodes: Readonly<Record<NodeId, Node>>): NodeId | null => {
+  const first = Object.values(nodes).reduce<Node | null>((current, candidate) => {
+    if (!isNavigable(candidate)) {
+      return current;
+    }
+    if (!current) {
+      return candidate;
+    }
+    const { x, y } = candidate.position;
+    if (y < current.position.y || (y === current.position.y && x < current.position.x)) {
+      return candidate;
+    }
+    return current;
+  }, null);
+  return first?.id ?? null;
+};
@@ -0,0 +1,34 @@
+/**
+ * @file Unit tests for plugin selection under the plugins.* settings
+ */
+import type { NodeEditorPlugin } from "../../types/plugin";
+import { selectNodeEditorPlugins } from "./plugins";
+
+const policy = { allowUnsafe: false, maxMemoryUsage: 100 };
+
+describe("selectNodeEditorPlugins", () => {
+  it("keeps the first plugin of an id", () => {
+    const first: NodeEditorPlugin = { id: "a", name: "first" };
+    const result = selectNodeEditorPlugins([first, { id: "a", name: "second" }, { id: "b" }], policy);
+    expect(result.plugins.map((plugin) => plugin.name ?? plugin.id)).toEqual(["first", "b"]);
+    expect(result.skipped).toEqual([{ id: "a", reason: "duplicate-id" }]);
+  });
+
+  it("skips unsafe plugins unless allowed", () => {
+    const plugins: NodeEditorPlugin[] = [{ id: "unverified", unsafe: true }];
+    expect(selectNodeEditorPlugins(plugins, policy).skipped).toEqual([{ id: "unverified", reason: "unsafe" }]);
+    expect(selectNodeEditorPlugins(plugins, { ...policy, allowUnsafe: true }).plugins).toHaveLength(1);
+  });
+
+  it("loads plugins in order while their declared memory use fits the budget", () => {
+    const plugins: NodeEditorPlugin[] = [
+      { id: "a", memoryUsage: 60 },
+      { id: "b", memoryUsage: 50 },
+      { id: "c", memoryUsage: 40 },
+      { id: "d" },
+    ];
+    const result = selectNodeEditorPlugins(plugins, policy);
+    expect(result.plugins.map((plugin) => plugin.id)).toEqual(["a", "c", "d"]);
+    expect(result.skipped).toEqual([{ id: "b", reason: "memory-budget" }]);
+  });
+});
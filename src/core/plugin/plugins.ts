@@ -0,0 +1,53 @@
+/**
+ * @file Plugin selection
+ * Decides which of the given plugins are loaded under the `plugins.*` settings.
+ */
+import type { NodeEditorPlugin } from "../../types/plugin";
+
+export type PluginLoadPolicy = {
+  /** Load plugins marked `unsafe` */
+  allowUnsafe: boolean;
+  /** Budget in MB for the declared `memoryUsage` of all loaded plugins */
+  maxMemoryUsage: number;
+};
+
+export type SkippedPlugin = {
+  id: string;
+  reason: "duplicate-id" | "unsafe" | "memory-budget";
+};
+
+/**
+ * Plugins to load, in the given order. A plugin is skipped when an earlier one has its id,
+ * when it is unsafe and unsafe plugins are not allowed, or when its declared memory use no
+ * longer fits the budget left by the plugins before it.
+ */
+export const selectNodeEditorPlugins = (
+  plugins: readonly NodeEditorPlugin[],
+  policy: PluginLoadPolicy,
+): { plugins: NodeEditorPlugin[]; skipped: SkippedPlugin[] } => {
+  const ids = new Set<string>();
+  const selected: NodeEditorPlugin[] = [];
+  const skipped: SkippedPlugin[] = [];
+  const budget = { remaining: policy.maxMemoryUsage };
+
+  plugins.forEach((plugin) => {
+    const memoryUsage = plugin.memoryUsage ?? 0;
+    if (ids.has(plugin.id)) {
+      skipped.push({ id: plugin.id, reason: "duplicate-id" });
+      return;
+    }
+    if (plugin.unsafe && !policy.allowUnsafe) {
+      skipped.push({ id: plugin.id, reason: "unsafe" });
+      return;
+    }
+    if (memoryUsage > budget.remaining) {
+      skipped.push({ id: plugin.id, reason: "memory-budget" });
+      return;
+    }
+    ids.add(plugin.id);
+    budget.remaining -= memoryUsage;
+    selected.push(plugin);
+  });
+
+  return { plugins: selected, skipped };
+};
@@ -20,7 +20,7 @@ import {
 } from "../../../../layouts/TwoSideLayout";
 import styles from "./ConnectionBehaviorExample.module.css";
 
-type ConnectionPathMode = "default-bezier" | "straight" | "custom-elbow";
+type ConnectionPathMode = "default-bezier" | "straight" | "orthogonal" | "custom-elbow";
 
 const nodeDefinitions = [
   createNodeDefinition({
@@ -120,6 +120,9 @@ export const ConnectionBehaviorExample: React.FC = () => {
     if (pathMode === "straight") {
       patch.path = { type: "fixed", value: { type: "straight" } };
     }
+    if (pathMode === "orthogonal") {
+      patch.path = { type: "fixed", value: { type: "orthogonal" } };
+    }
     if (pathMode === "custom-elbow") {
       patch.path = {
         type: "fixed",
@@ -197,6 +200,7 @@ export const ConnectionBehaviorExample: React.FC = () => {
                     options={[
                       { value: "default-bezier", label: "bezier" },
                       { value: "straight", label: "straight" },
+                      { value: "orthogonal", label: "orthogonal" },
                       { value: "custom-elbow", label: "elbow" },
                     ]}
                     value={pathMode}
@@ -56,7 +56,7 @@ const sampleNodeDefinitions: NodeDefinition[] = [
   },
 ];
 
-// HistoryEntry requires `action` and `data` properties - we use a simplified mock for display
+// HistoryEntry also carries `patches` - we use a simplified mock for display
 type MockHistoryEntry = {
   id: string;
   timestamp: number;
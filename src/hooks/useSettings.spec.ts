@@ -79,6 +79,29 @@ describe("useSettings", () => {
     });
   });
 
+  describe("performance", () => {
+    it("should read virtualization settings from settingsManager", () => {
+      const settingsManager = new SettingsManager();
+      settingsManager.setValue("performance.virtualScrolling", false);
+      settingsManager.setValue("performance.lazyLoading", false);
+      settingsManager.setValue("performance.maxVisibleNodes", 250);
+
+      const { result } = renderHook(() => useSettings(settingsManager));
+
+      expect(result.current.virtualScrolling).toBe(false);
+      expect(result.current.lazyLoading).toBe(false);
+      expect(result.current.maxVisibleNodes).toBe(250);
+    });
+
+    it("should default to culling with a budget of 1000 nodes", () => {
+      const { result } = renderHook(() => useSettings(new SettingsManager()));
+
+      expect(result.current.virtualScrolling).toBe(true);
+      expect(result.current.lazyLoading).toBe(true);
+      expect(result.current.maxVisibleNodes).toBe(1000);
+    });
+  });
+
   describe("settings change subscription", () => {
     it("should update when settings change", () => {
       const settingsManager = new SettingsManager();
@@ -24,12 +24,19 @@ type Settings = {
   portLabelVisibilityThreshold: number;
   canvasSnapshotThreshold: number;
   canvasBackground: string;
+  smartGuides: boolean;
   nodeSearchViewMode: NodeSearchViewMode;
   nodeSearchFilterMode: NodeSearchFilterMode;
   nodeSearchMenuWidth: number;
   connectionControlPointRounding: ConnectionControlPointRoundingId;
   connectionHandleOffsetMin: number;
   connectionHandleOffsetMax: number;
+  virtualScrolling: boolean;
+  lazyLoading: boolean;
+  maxVisibleNodes: number;
+  pluginsAutoUpdate: boolean;
+  pluginsAllowUnsafe: boolean;
+  pluginsMaxMemoryUsage: number;
 };
 
 const defaultSettings: Settings = {
@@ -48,12 +55,19 @@ const defaultSettings: Settings = {
   portLabelVisibilityThreshold: 0.5,
   canvasSnapshotThreshold: 0.3,
   canvasBackground: "#ffffff",
+  smartGuides: true,
   nodeSearchViewMode: "list",
   nodeSearchFilterMode: "filter",
   nodeSearchMenuWidth: 360,
   connectionControlPointRounding: "port-side",
   connectionHandleOffsetMin: 40,
   connectionHandleOffsetMax: 120,
+  virtualScrolling: true,
+  lazyLoading: true,
+  maxVisibleNodes: 1000,
+  pluginsAutoUpdate: false,
+  pluginsAllowUnsafe: false,
+  pluginsMaxMemoryUsage: 100,
 };
 
 function isValidTheme(value: unknown): value is ThemeValue {
@@ -187,6 +201,7 @@ export function useSettings(settingsManager?: SettingsManager): Settings {
         "appearance.canvasBackground",
         defaultSettings.canvasBackground,
       ),
+      smartGuides: getBooleanSetting(settingsManager, "appearance.smartGuides", defaultSettings.smartGuides),
       nodeSearchViewMode: getNodeSearchViewModeSetting(
         settingsManager,
         "behavior.nodeSearchViewMode",
@@ -217,6 +232,20 @@ export function useSettings(settingsManager?: SettingsManager): Settings {
         "behavior.connectionHandleOffsetMax",
         defaultSettings.connectionHandleOffsetMax,
       ),
+      virtualScrolling: getBooleanSetting(
+        settingsManager,
+        "performance.virtualScrolling",
+        defaultSettings.virtualScrolling,
+      ),
+      lazyLoading: getBooleanSetting(settingsManager, "performance.lazyLoading", defaultSettings.lazyLoading),
+      maxVisibleNodes: getNumberSetting(settingsManager, "performance.maxVisibleNodes", defaultSettings.maxVisibleNodes),
+      pluginsAutoUpdate: getBooleanSetting(settingsManager, "plugins.autoUpdate", defaultSettings.pluginsAutoUpdate),
+      pluginsAllowUnsafe: getBooleanSetting(settingsManager, "plugins.allowUnsafe", defaultSettings.pluginsAllowUnsafe),
+      pluginsMaxMemoryUsage: getNumberSetting(
+        settingsManager,
+        "plugins.maxMemoryUsage",
+        defaultSettings.pluginsMaxMemoryUsage,
+      ),
     };
   }, [settingsManager, settingsVersion]);
 
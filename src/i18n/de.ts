@@ -17,6 +17,12 @@ export const deMessages: I18nMessages = {
   copy: "Kopieren",
   cut: "Ausschneiden",
   paste: "Einfügen",
+  pasteWithConnections: "Mit Verbindungen einfügen",
+  collapseToSubflow: "In Subflow zusammenfassen",
+  expandSubflow: "Subflow auflösen",
+  openSubflow: "Subflow öffnen",
+  subflowRoot: "Hauptgraph",
+  subflowNodeCount: "{{count}} Knoten enthalten",
   addConnection: "Verbindung hinzufügen…",
   untitled: "Ohne Titel",
 
@@ -81,6 +87,9 @@ export const deMessages: I18nMessages = {
   inspectorConnectionProperties: "Verbindungseigenschaften",
   connectionFrom: "Von",
   connectionTo: "Nach",
+  connectionLabel: "Beschriftung",
+  connectionLabelPosition: "Position der Beschriftung",
+  connectionLabelEditor: "Verbindungsbeschriftung",
   inspectorPosition: "Position",
   inspectorSize: "Größe",
   inspectorData: "Daten",
@@ -107,11 +116,42 @@ export const deMessages: I18nMessages = {
   inspectorTabProperties: "Eigenschaften",
   inspectorTabHistory: "Verlauf",
   inspectorTabSettings: "Einstellungen",
+  inspectorTabProblems: "Probleme",
+  inspectorProblemsErrors: "Fehler",
+  inspectorProblemsWarnings: "Warnungen",
+  inspectorProblemsInfo: "Hinweise",
+  inspectorProblemsEmpty: "Keine Probleme gefunden",
+  inspectorProblemSourceNodeMissing: 'Quellknoten "{{nodeId}}" nicht gefunden',
+  inspectorProblemTargetNodeMissing: 'Zielknoten "{{nodeId}}" nicht gefunden',
+  inspectorProblemSourcePortMissing: 'Quellport "{{portId}}" auf Knoten "{{nodeType}}" nicht gefunden',
+  inspectorProblemTargetPortMissing: 'Zielport "{{portId}}" auf Knoten "{{nodeType}}" nicht gefunden',
+  inspectorProblemSamePortType: "Gleicher Porttyp (beide Eingang oder beide Ausgang)",
+  inspectorProblemSelfConnection: "Verbindung mit sich selbst nicht erlaubt",
+  inspectorProblemTypeMismatch: "Typkonflikt: {{from}} → {{to}}",
+  inspectorProblemRuleViolation: "Verstoß gegen Verbindungsregel",
+  inspectorProblemRequiredPort: 'Erforderlicher Port "{{port}}" ist nicht verbunden',
+  inspectorProblemCycle: "Zyklus über {{nodes}}",
+  inspectorProblemMaxPerFlow: "{{node}} ist auf {{max}} pro Flow begrenzt ({{count}} gefunden)",
   inspectorNodeLibrary: "Node Library",
   inspectorNodeLibrarySearchPlaceholder: "Search nodes…",
   inspectorNodeLibraryEmptyState: "No nodes match your search",
   inspectorNodeLibraryLimitReached: "Limit reached",
   inspectorActions: "Aktionen",
+  inspectorDataAddItem: "Element hinzufügen",
+  inspectorDataRemoveItem: "Element entfernen",
+  inspectorDataOn: "Ein",
+  inspectorDataOff: "Aus",
+  inspectorDataErrorRequired: "Dieses Feld ist erforderlich",
+  inspectorDataErrorType: "Ungültiger Wert",
+  inspectorDataErrorMinLength: "Mindestens {{min}} Zeichen erforderlich",
+  inspectorDataErrorMaxLength: "Höchstens {{max}} Zeichen erlaubt",
+  inspectorDataErrorPattern: "Ungültiges Format",
+  inspectorDataErrorMin: "Muss mindestens {{min}} sein",
+  inspectorDataErrorMax: "Darf höchstens {{max}} sein",
+  inspectorDataErrorInteger: "Muss eine ganze Zahl sein",
+  inspectorDataErrorEnum: "Wählen Sie eine der verfügbaren Optionen",
+  inspectorDataErrorMinItems: "Mindestens {{min}} Elemente hinzufügen",
+  inspectorDataErrorMaxItems: "Höchstens {{max}} Elemente erlaubt",
   inspectorInteractionHelpTitle: "Interaktionsleitfaden",
   inspectorInteractionHelpSectionClipboard: "Zwischenablage und Bearbeitung",
   inspectorInteractionHelpSectionSelection: "Auswahl und Layout",
@@ -223,4 +263,44 @@ export const deMessages: I18nMessages = {
   nodeSearchCategoriesHeader: "Kategorien",
   nodeSearchAllNodes: "Alle Knoten",
   nodeSearchEmptyCategory: "Keine Knoten in dieser Kategorie",
+
+  // Find in Graph
+  findInGraph: "Im Graphen suchen",
+  findBarAriaLabel: "Im Graphen suchen",
+  findBarPlaceholder: "Knoten suchen…",
+  findBarReplacePlaceholder: "Ersetzen durch…",
+  findBarResultCount: "{{current}} von {{total}}",
+  findBarResultTotal: "{{total}} Ergebnisse",
+  findBarNoResults: "Keine Ergebnisse",
+  findBarPrevious: "Vorheriger Treffer",
+  findBarNext: "Nächster Treffer",
+  findBarMatchCase: "Groß-/Kleinschreibung beachten",
+  findBarWholeWord: "Nur ganzes Wort",
+  findBarToggleReplace: "Ersetzen umschalten",
+  findBarReplace: "Ersetzen",
+  findBarReplaceAll: "Alle ersetzen",
+  findBarClose: "Schließen",
+
+  // Keyboard Navigation
+  inspectorInteractionHelpSectionNavigation: "Tastaturnavigation",
+  keyboardFocusLeft: "Knoten links fokussieren",
+  keyboardFocusRight: "Knoten rechts fokussieren",
+  keyboardFocusUp: "Knoten darüber fokussieren",
+  keyboardFocusDown: "Knoten darunter fokussieren",
+  keyboardNudgeLeft: "Auswahl nach links verschieben",
+  keyboardNudgeRight: "Auswahl nach rechts verschieben",
+  keyboardNudgeUp: "Auswahl nach oben verschieben",
+  keyboardNudgeDown: "Auswahl nach unten verschieben",
+  keyboardConnectMode: "Vom fokussierten Port verbinden",
+  portAccessibleInput: "{{label}}, Eingangsport",
+  portAccessibleOutput: "{{label}}, Ausgangsport",
+  connectMenuLabel: "{{port}} verbinden mit…",
+  connectMenuEmpty: "Keine kompatiblen Ports",
+  announceNodeSelected: "{{name}} ausgewählt",
+  announceNodesSelected: "{{count}} Knoten ausgewählt",
+  announceSelectionCleared: "Auswahl aufgehoben",
+  announceNodeDeleted: "{{name}} gelöscht",
+  announceNodesDeleted: "{{count}} Knoten gelöscht",
+  announceConnected: "{{from}} mit {{to}} verbunden",
+  announceDisconnected: "Verbindung von {{from}} zu {{to}} getrennt",
 };
@@ -17,6 +17,12 @@ export const enMessages: I18nMessages = {
   copy: "Copy",
   cut: "Cut",
   paste: "Paste",
+  pasteWithConnections: "Paste with Connections",
+  collapseToSubflow: "Collapse into Subflow",
+  expandSubflow: "Expand Subflow",
+  openSubflow: "Open Subflow",
+  subflowRoot: "Main",
+  subflowNodeCount: "{{count}} nodes inside",
   addConnection: "Add Connection…",
   untitled: "Untitled",
 
@@ -81,6 +87,9 @@ export const enMessages: I18nMessages = {
   inspectorConnectionProperties: "Connection Properties",
   connectionFrom: "From",
   connectionTo: "To",
+  connectionLabel: "Label",
+  connectionLabelPosition: "Label position",
+  connectionLabelEditor: "Connection label",
   inspectorPosition: "Position",
   inspectorSize: "Size",
   inspectorData: "Data",
@@ -106,11 +115,42 @@ export const enMessages: I18nMessages = {
   inspectorTabProperties: "Properties",
   inspectorTabHistory: "History",
   inspectorTabSettings: "Settings",
+  inspectorTabProblems: "Problems",
+  inspectorProblemsErrors: "Errors",
+  inspectorProblemsWarnings: "Warnings",
+  inspectorProblemsInfo: "Info",
+  inspectorProblemsEmpty: "No problems found",
+  inspectorProblemSourceNodeMissing: 'Source node "{{nodeId}}" not found',
+  inspectorProblemTargetNodeMissing: 'Target node "{{nodeId}}" not found',
+  inspectorProblemSourcePortMissing: 'Source port "{{portId}}" not found on node "{{nodeType}}"',
+  inspectorProblemTargetPortMissing: 'Target port "{{portId}}" not found on node "{{nodeType}}"',
+  inspectorProblemSamePortType: "Same port type (both input or both output)",
+  inspectorProblemSelfConnection: "Self-connection not allowed",
+  inspectorProblemTypeMismatch: "Type mismatch: {{from}} → {{to}}",
+  inspectorProblemRuleViolation: "Connection rule violation",
+  inspectorProblemRequiredPort: 'Required port "{{port}}" is not connected',
+  inspectorProblemCycle: "Cycle through {{nodes}}",
+  inspectorProblemMaxPerFlow: "{{node}} is limited to {{max}} per flow (found {{count}})",
   inspectorNodeLibrary: "Node Library",
   inspectorNodeLibrarySearchPlaceholder: "Search nodes…",
   inspectorNodeLibraryEmptyState: "No nodes match your search",
   inspectorNodeLibraryLimitReached: "Limit reached",
   inspectorActions: "Actions",
+  inspectorDataAddItem: "Add item",
+  inspectorDataRemoveItem: "Remove item",
+  inspectorDataOn: "On",
+  inspectorDataOff: "Off",
+  inspectorDataErrorRequired: "This field is required",
+  inspectorDataErrorType: "Invalid value",
+  inspectorDataErrorMinLength: "Must be at least {{min}} characters",
+  inspectorDataErrorMaxLength: "Must be at most {{max}} characters",
+  inspectorDataErrorPattern: "Invalid format",
+  inspectorDataErrorMin: "Must be at least {{min}}",
+  inspectorDataErrorMax: "Must be at most {{max}}",
+  inspectorDataErrorInteger: "Must be a whole number",
+  inspectorDataErrorEnum: "Choose one of the available options",
+  inspectorDataErrorMinItems: "Add at least {{min}} items",
+  inspectorDataErrorMaxItems: "Add at most {{max}} items",
   inspectorInteractionHelpTitle: "Interaction Guide",
   inspectorInteractionHelpSectionClipboard: "Clipboard & Editing",
   inspectorInteractionHelpSectionSelection: "Selection & Layout",
@@ -245,4 +285,44 @@ export const enMessages: I18nMessages = {
   nodeSearchCategoriesHeader: "Categories",
   nodeSearchAllNodes: "All Nodes",
   nodeSearchEmptyCategory: "No nodes in this category",
+
+  // Find in Graph
+  findInGraph: "Find in Graph",
+  findBarAriaLabel: "Find in graph",
+  findBarPlaceholder: "Find nodes…",
+  findBarReplacePlaceholder: "Replace with…",
+  findBarResultCount: "{{current}} of {{total}}",
+  findBarResultTotal: "{{total}} results",
+  findBarNoResults: "No results",
+  findBarPrevious: "Previous match",
+  findBarNext: "Next match",
+  findBarMatchCase: "Match case",
+  findBarWholeWord: "Match whole word",
+  findBarToggleReplace: "Toggle replace",
+  findBarReplace: "Replace",
+  findBarReplaceAll: "Replace all",
+  findBarClose: "Close",
+
+  // Keyboard Navigation
+  inspectorInteractionHelpSectionNavigation: "Keyboard Navigation",
+  keyboardFocusLeft: "Focus node to the left",
+  keyboardFocusRight: "Focus node to the right",
+  keyboardFocusUp: "Focus node above",
+  keyboardFocusDown: "Focus node below",
+  keyboardNudgeLeft: "Nudge selection left",
+  keyboardNudgeRight: "Nudge selection right",
+  keyboardNudgeUp: "Nudge selection up",
+  keyboardNudgeDown: "Nudge selection down",
+  keyboardConnectMode: "Connect from focused port",
+  portAccessibleInput: "{{label}}, input port",
+  portAccessibleOutput: "{{label}}, output port",
+  connectMenuLabel: "Connect {{port}} to…",
+  connectMenuEmpty: "No compatible ports",
+  announceNodeSelected: "{{name}} selected",
+  announceNodesSelected: "{{count}} nodes selected",
+  announceSelectionCleared: "Selection cleared",
+  announceNodeDeleted: "{{name}} deleted",
+  announceNodesDeleted: "{{count}} nodes deleted",
+  announceConnected: "Connected {{from}} to {{to}}",
+  announceDisconnected: "Disconnected {{from}} from {{to}}",
 };
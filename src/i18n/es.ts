@@ -17,6 +17,12 @@ export const esMessages: I18nMessages = {
   copy: "Copiar",
   cut: "Cortar",
   paste: "Pegar",
+  pasteWithConnections: "Pegar con conexiones",
+  collapseToSubflow: "Contraer en subflujo",
+  expandSubflow: "Expandir subflujo",
+  openSubflow: "Abrir subflujo",
+  subflowRoot: "Principal",
+  subflowNodeCount: "{{count}} nodos dentro",
   addConnection: "Agregar conexión…",
   untitled: "Sin título",
 
@@ -81,6 +87,9 @@ export const esMessages: I18nMessages = {
   inspectorConnectionProperties: "Propiedades de la conexión",
   connectionFrom: "Desde",
   connectionTo: "Hasta",
+  connectionLabel: "Etiqueta",
+  connectionLabelPosition: "Posición de la etiqueta",
+  connectionLabelEditor: "Etiqueta de la conexión",
   inspectorPosition: "Posición",
   inspectorSize: "Tamaño",
   inspectorData: "Datos",
@@ -106,11 +115,42 @@ export const esMessages: I18nMessages = {
   inspectorTabProperties: "Propiedades",
   inspectorTabHistory: "Historial",
   inspectorTabSettings: "Configuración",
+  inspectorTabProblems: "Problemas",
+  inspectorProblemsErrors: "Errores",
+  inspectorProblemsWarnings: "Advertencias",
+  inspectorProblemsInfo: "Información",
+  inspectorProblemsEmpty: "No se encontraron problemas",
+  inspectorProblemSourceNodeMissing: 'No se encontró el nodo de origen "{{nodeId}}"',
+  inspectorProblemTargetNodeMissing: 'No se encontró el nodo de destino "{{nodeId}}"',
+  inspectorProblemSourcePortMissing: 'No se encontró el puerto de origen "{{portId}}" en el nodo "{{nodeType}}"',
+  inspectorProblemTargetPortMissing: 'No se encontró el puerto de destino "{{portId}}" en el nodo "{{nodeType}}"',
+  inspectorProblemSamePortType: "Mismo tipo de puerto (ambos de entrada o ambos de salida)",
+  inspectorProblemSelfConnection: "No se permite conectar un nodo consigo mismo",
+  inspectorProblemTypeMismatch: "Tipos incompatibles: {{from}} → {{to}}",
+  inspectorProblemRuleViolation: "Infracción de una regla de conexión",
+  inspectorProblemRequiredPort: 'El puerto obligatorio "{{port}}" no está conectado',
+  inspectorProblemCycle: "Ciclo entre {{nodes}}",
+  inspectorProblemMaxPerFlow: "{{node}} está limitado a {{max}} por flujo (hay {{count}})",
   inspectorNodeLibrary: "Node Library",
   inspectorNodeLibrarySearchPlaceholder: "Search nodes…",
   inspectorNodeLibraryEmptyState: "No nodes match your search",
   inspectorNodeLibraryLimitReached: "Limit reached",
   inspectorActions: "Acciones",
+  inspectorDataAddItem: "Añadir elemento",
+  inspectorDataRemoveItem: "Eliminar elemento",
+  inspectorDataOn: "Activado",
+  inspectorDataOff: "Desactivado",
+  inspectorDataErrorRequired: "Este campo es obligatorio",
+  inspectorDataErrorType: "Valor no válido",
+  inspectorDataErrorMinLength: "Debe tener al menos {{min}} caracteres",
+  inspectorDataErrorMaxLength: "Debe tener como máximo {{max}} caracteres",
+  inspectorDataErrorPattern: "Formato no válido",
+  inspectorDataErrorMin: "Debe ser al menos {{min}}",
+  inspectorDataErrorMax: "Debe ser como máximo {{max}}",
+  inspectorDataErrorInteger: "Debe ser un número entero",
+  inspectorDataErrorEnum: "Elige una de las opciones disponibles",
+  inspectorDataErrorMinItems: "Añade al menos {{min}} elementos",
+  inspectorDataErrorMaxItems: "Añade como máximo {{max}} elementos",
   inspectorInteractionHelpTitle: "Guía de interacción",
   inspectorInteractionHelpSectionClipboard: "Portapapeles y edición",
   inspectorInteractionHelpSectionSelection: "Selección y disposición",
@@ -222,4 +262,44 @@ export const esMessages: I18nMessages = {
   nodeSearchCategoriesHeader: "Categorías",
   nodeSearchAllNodes: "Todos los nodos",
   nodeSearchEmptyCategory: "No hay nodos en esta categoría",
+
+  // Find in Graph
+  findInGraph: "Buscar en el grafo",
+  findBarAriaLabel: "Buscar en el grafo",
+  findBarPlaceholder: "Buscar nodos…",
+  findBarReplacePlaceholder: "Reemplazar por…",
+  findBarResultCount: "{{current}} de {{total}}",
+  findBarResultTotal: "{{total}} resultados",
+  findBarNoResults: "Sin resultados",
+  findBarPrevious: "Coincidencia anterior",
+  findBarNext: "Coincidencia siguiente",
+  findBarMatchCase: "Coincidir mayúsculas y minúsculas",
+  findBarWholeWord: "Solo palabras completas",
+  findBarToggleReplace: "Alternar reemplazo",
+  findBarReplace: "Reemplazar",
+  findBarReplaceAll: "Reemplazar todo",
+  findBarClose: "Cerrar",
+
+  // Keyboard Navigation
+  inspectorInteractionHelpSectionNavigation: "Navegación con teclado",
+  keyboardFocusLeft: "Enfocar nodo a la izquierda",
+  keyboardFocusRight: "Enfocar nodo a la derecha",
+  keyboardFocusUp: "Enfocar nodo superior",
+  keyboardFocusDown: "Enfocar nodo inferior",
+  keyboardNudgeLeft: "Mover selección a la izquierda",
+  keyboardNudgeRight: "Mover selección a la derecha",
+  keyboardNudgeUp: "Mover selección hacia arriba",
+  keyboardNudgeDown: "Mover selección hacia abajo",
+  keyboardConnectMode: "Conectar desde el puerto enfocado",
+  portAccessibleInput: "{{label}}, puerto de entrada",
+  portAccessibleOutput: "{{label}}, puerto de salida",
+  connectMenuLabel: "Conectar {{port}} a…",
+  connectMenuEmpty: "No hay puertos compatibles",
+  announceNodeSelected: "{{name}} seleccionado",
+  announceNodesSelected: "{{count}} nodos seleccionados",
+  announceSelectionCleared: "Selección borrada",
+  announceNodeDeleted: "{{name}} eliminado",
+  announceNodesDeleted: "{{count}} nodos eliminados",
+  announceConnected: "{{from}} conectado a {{to}}",
+  announceDisconnected: "{{from}} desconectado de {{to}}",
 };
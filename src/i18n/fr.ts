@@ -17,6 +17,12 @@ export const frMessages: I18nMessages = {
   copy: "Copier",
   cut: "Couper",
   paste: "Coller",
+  pasteWithConnections: "Coller avec les connexions",
+  collapseToSubflow: "Regrouper en sous-flux",
+  expandSubflow: "Développer le sous-flux",
+  openSubflow: "Ouvrir le sous-flux",
+  subflowRoot: "Principal",
+  subflowNodeCount: "{{count}} nœuds à l'intérieur",
   addConnection: "Ajouter une connexion…",
   untitled: "Sans titre",
 
@@ -81,6 +87,9 @@ export const frMessages: I18nMessages = {
   inspectorConnectionProperties: "Propriétés de la connexion",
   connectionFrom: "De",
   connectionTo: "Vers",
+  connectionLabel: "Libellé",
+  connectionLabelPosition: "Position du libellé",
+  connectionLabelEditor: "Libellé de la connexion",
   inspectorPosition: "Position",
   inspectorSize: "Taille",
   inspectorData: "Données",
@@ -107,11 +116,42 @@ export const frMessages: I18nMessages = {
   inspectorTabProperties: "Propriétés",
   inspectorTabHistory: "Historique",
   inspectorTabSettings: "Paramètres",
+  inspectorTabProblems: "Problèmes",
+  inspectorProblemsErrors: "Erreurs",
+  inspectorProblemsWarnings: "Avertissements",
+  inspectorProblemsInfo: "Informations",
+  inspectorProblemsEmpty: "Aucun problème détecté",
+  inspectorProblemSourceNodeMissing: 'Nœud source "{{nodeId}}" introuvable',
+  inspectorProblemTargetNodeMissing: 'Nœud cible "{{nodeId}}" introuvable',
+  inspectorProblemSourcePortMissing: 'Port source "{{portId}}" introuvable sur le nœud "{{nodeType}}"',
+  inspectorProblemTargetPortMissing: 'Port cible "{{portId}}" introuvable sur le nœud "{{nodeType}}"',
+  inspectorProblemSamePortType: "Même type de port (deux entrées ou deux sorties)",
+  inspectorProblemSelfConnection: "Connexion d'un nœud à lui-même non autorisée",
+  inspectorProblemTypeMismatch: "Types incompatibles : {{from}} → {{to}}",
+  inspectorProblemRuleViolation: "Règle de connexion non respectée",
+  inspectorProblemRequiredPort: 'Le port obligatoire "{{port}}" n\'est pas connecté',
+  inspectorProblemCycle: "Cycle passant par {{nodes}}",
+  inspectorProblemMaxPerFlow: "{{node}} est limité à {{max}} par flux ({{count}} trouvés)",
   inspectorNodeLibrary: "Node Library",
   inspectorNodeLibrarySearchPlaceholder: "Search nodes…",
   inspectorNodeLibraryEmptyState: "No nodes match your search",
   inspectorNodeLibraryLimitReached: "Limit reached",
   inspectorActions: "Actions",
+  inspectorDataAddItem: "Ajouter un élément",
+  inspectorDataRemoveItem: "Supprimer l’élément",
+  inspectorDataOn: "Activé",
+  inspectorDataOff: "Désactivé",
+  inspectorDataErrorRequired: "Ce champ est obligatoire",
+  inspectorDataErrorType: "Valeur non valide",
+  inspectorDataErrorMinLength: "Au moins {{min}} caractères requis",
+  inspectorDataErrorMaxLength: "Au plus {{max}} caractères autorisés",
+  inspectorDataErrorPattern: "Format non valide",
+  inspectorDataErrorMin: "Doit être au moins {{min}}",
+  inspectorDataErrorMax: "Doit être au plus {{max}}",
+  inspectorDataErrorInteger: "Doit être un nombre entier",
+  inspectorDataErrorEnum: "Choisissez l’une des options disponibles",
+  inspectorDataErrorMinItems: "Ajoutez au moins {{min}} éléments",
+  inspectorDataErrorMaxItems: "Ajoutez au plus {{max}} éléments",
   inspectorInteractionHelpTitle: "Guide d'interaction",
   inspectorInteractionHelpSectionClipboard: "Presse-papiers et édition",
   inspectorInteractionHelpSectionSelection: "Sélection et disposition",
@@ -223,4 +263,44 @@ export const frMessages: I18nMessages = {
   nodeSearchCategoriesHeader: "Catégories",
   nodeSearchAllNodes: "Tous les nœuds",
   nodeSearchEmptyCategory: "Aucun nœud dans cette catégorie",
+
+  // Find in Graph
+  findInGraph: "Rechercher dans le graphe",
+  findBarAriaLabel: "Rechercher dans le graphe",
+  findBarPlaceholder: "Rechercher des nœuds…",
+  findBarReplacePlaceholder: "Remplacer par…",
+  findBarResultCount: "{{current}} sur {{total}}",
+  findBarResultTotal: "{{total}} résultats",
+  findBarNoResults: "Aucun résultat",
+  findBarPrevious: "Occurrence précédente",
+  findBarNext: "Occurrence suivante",
+  findBarMatchCase: "Respecter la casse",
+  findBarWholeWord: "Mot entier uniquement",
+  findBarToggleReplace: "Afficher le remplacement",
+  findBarReplace: "Remplacer",
+  findBarReplaceAll: "Tout remplacer",
+  findBarClose: "Fermer",
+
+  // Keyboard Navigation
+  inspectorInteractionHelpSectionNavigation: "Navigation au clavier",
+  keyboardFocusLeft: "Focaliser le nœud à gauche",
+  keyboardFocusRight: "Focaliser le nœud à droite",
+  keyboardFocusUp: "Focaliser le nœud au-dessus",
+  keyboardFocusDown: "Focaliser le nœud en dessous",
+  keyboardNudgeLeft: "Décaler la sélection à gauche",
+  keyboardNudgeRight: "Décaler la sélection à droite",
+  keyboardNudgeUp: "Décaler la sélection vers le haut",
+  keyboardNudgeDown: "Décaler la sélection vers le bas",
+  keyboardConnectMode: "Connecter depuis le port focalisé",
+  portAccessibleInput: "{{label}}, port d'entrée",
+  portAccessibleOutput: "{{label}}, port de sortie",
+  connectMenuLabel: "Connecter {{port}} à…",
+  connectMenuEmpty: "Aucun port compatible",
+  announceNodeSelected: "{{name}} sélectionné",
+  announceNodesSelected: "{{count}} nœuds sélectionnés",
+  announceSelectionCleared: "Sélection effacée",
+  announceNodeDeleted: "{{name}} supprimé",
+  announceNodesDeleted: "{{count}} nœuds supprimés",
+  announceConnected: "{{from}} connecté à {{to}}",
+  announceDisconnected: "{{from}} déconnecté de {{to}}",
 };
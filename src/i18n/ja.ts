@@ -17,6 +17,12 @@ export const jaMessages: I18nMessages = {
   copy: "コピー",
   cut: "切り取り",
   paste: "貼り付け",
+  pasteWithConnections: "接続ごと貼り付け",
+  collapseToSubflow: "サブフローにまとめる",
+  expandSubflow: "サブフローを展開",
+  openSubflow: "サブフローを開く",
+  subflowRoot: "メイン",
+  subflowNodeCount: "内部に {{count}} 個のノード",
   addConnection: "接続を追加…",
   untitled: "無題",
 
@@ -81,6 +87,9 @@ export const jaMessages: I18nMessages = {
   inspectorConnectionProperties: "接続のプロパティ",
   connectionFrom: "接続元",
   connectionTo: "接続先",
+  connectionLabel: "ラベル",
+  connectionLabelPosition: "ラベルの位置",
+  connectionLabelEditor: "接続ラベル",
   inspectorPosition: "位置",
   inspectorSize: "サイズ",
   inspectorData: "データ",
@@ -106,11 +115,42 @@ export const jaMessages: I18nMessages = {
   inspectorTabProperties: "プロパティ",
   inspectorTabHistory: "履歴",
   inspectorTabSettings: "設定",
+  inspectorTabProblems: "問題",
+  inspectorProblemsErrors: "エラー",
+  inspectorProblemsWarnings: "警告",
+  inspectorProblemsInfo: "情報",
+  inspectorProblemsEmpty: "問題は見つかりませんでした",
+  inspectorProblemSourceNodeMissing: '接続元ノード "{{nodeId}}" が見つかりません',
+  inspectorProblemTargetNodeMissing: '接続先ノード "{{nodeId}}" が見つかりません',
+  inspectorProblemSourcePortMissing: 'ノード "{{nodeType}}" に接続元ポート "{{portId}}" が見つかりません',
+  inspectorProblemTargetPortMissing: 'ノード "{{nodeType}}" に接続先ポート "{{portId}}" が見つかりません',
+  inspectorProblemSamePortType: "同じ種類のポートです（両方が入力または出力）",
+  inspectorProblemSelfConnection: "自身への接続はできません",
+  inspectorProblemTypeMismatch: "型が一致しません: {{from}} → {{to}}",
+  inspectorProblemRuleViolation: "接続ルールに違反しています",
+  inspectorProblemRequiredPort: '必須ポート "{{port}}" が接続されていません',
+  inspectorProblemCycle: "循環しています: {{nodes}}",
+  inspectorProblemMaxPerFlow: "{{node}} はフローごとに {{max}} 個までです（{{count}} 個あります）",
   inspectorNodeLibrary: "ノードライブラリ",
   inspectorNodeLibrarySearchPlaceholder: "ノードを検索…",
   inspectorNodeLibraryEmptyState: "条件に一致するノードはありません",
   inspectorNodeLibraryLimitReached: "上限に達しました",
   inspectorActions: "アクション",
+  inspectorDataAddItem: "項目を追加",
+  inspectorDataRemoveItem: "項目を削除",
+  inspectorDataOn: "オン",
+  inspectorDataOff: "オフ",
+  inspectorDataErrorRequired: "この項目は必須です",
+  inspectorDataErrorType: "無効な値です",
+  inspectorDataErrorMinLength: "{{min}} 文字以上で入力してください",
+  inspectorDataErrorMaxLength: "{{max}} 文字以内で入力してください",
+  inspectorDataErrorPattern: "形式が正しくありません",
+  inspectorDataErrorMin: "{{min}} 以上の値を入力してください",
+  inspectorDataErrorMax: "{{max}} 以下の値を入力してください",
+  inspectorDataErrorInteger: "整数を入力してください",
+  inspectorDataErrorEnum: "選択肢から選んでください",
+  inspectorDataErrorMinItems: "{{min}} 個以上の項目を追加してください",
+  inspectorDataErrorMaxItems: "項目は {{max}} 個までです",
   inspectorInteractionHelpTitle: "操作ガイド",
   inspectorInteractionHelpSectionClipboard: "クリップボードと編集",
   inspectorInteractionHelpSectionSelection: "選択とレイアウト",
@@ -224,4 +264,44 @@ export const jaMessages: I18nMessages = {
   nodeSearchCategoriesHeader: "カテゴリ",
   nodeSearchAllNodes: "すべてのノード",
   nodeSearchEmptyCategory: "このカテゴリにノードはありません",
+
+  // Find in Graph
+  findInGraph: "グラフ内を検索",
+  findBarAriaLabel: "グラフ内を検索",
+  findBarPlaceholder: "ノードを検索…",
+  findBarReplacePlaceholder: "置換後の文字列…",
+  findBarResultCount: "{{current}} / {{total}}",
+  findBarResultTotal: "{{total}} 件",
+  findBarNoResults: "結果なし",
+  findBarPrevious: "前の一致",
+  findBarNext: "次の一致",
+  findBarMatchCase: "大文字と小文字を区別",
+  findBarWholeWord: "単語単位で検索",
+  findBarToggleReplace: "置換の切り替え",
+  findBarReplace: "置換",
+  findBarReplaceAll: "すべて置換",
+  findBarClose: "閉じる",
+
+  // Keyboard Navigation
+  inspectorInteractionHelpSectionNavigation: "キーボードナビゲーション",
+  keyboardFocusLeft: "左のノードにフォーカス",
+  keyboardFocusRight: "右のノードにフォーカス",
+  keyboardFocusUp: "上のノードにフォーカス",
+  keyboardFocusDown: "下のノードにフォーカス",
+  keyboardNudgeLeft: "選択を左に移動",
+  keyboardNudgeRight: "選択を右に移動",
+  keyboardNudgeUp: "選択を上に移動",
+  keyboardNudgeDown: "選択を下に移動",
+  keyboardConnectMode: "フォーカス中のポートから接続",
+  portAccessibleInput: "{{label}}、入力ポート",
+  portAccessibleOutput: "{{label}}、出力ポート",
+  connectMenuLabel: "{{port}} の接続先…",
+  connectMenuEmpty: "接続できるポートがありません",
+  announceNodeSelected: "{{name}} を選択",
+  announceNodesSelected: "{{count}} 個のノードを選択",
+  announceSelectionCleared: "選択を解除",
+  announceNodeDeleted: "{{name}} を削除",
+  announceNodesDeleted: "{{count}} 個のノードを削除",
+  announceConnected: "{{from}} を {{to}} に接続",
+  announceDisconnected: "{{from}} と {{to}} の接続を解除",
 };
@@ -17,6 +17,12 @@ export const koMessages: I18nMessages = {
   copy: "복사",
   cut: "잘라내기",
   paste: "붙여넣기",
+  pasteWithConnections: "연결과 함께 붙여넣기",
+  collapseToSubflow: "서브플로로 묶기",
+  expandSubflow: "서브플로 풀기",
+  openSubflow: "서브플로 열기",
+  subflowRoot: "메인",
+  subflowNodeCount: "내부 노드 {{count}}개",
   addConnection: "연결 추가…",
   untitled: "제목 없음",
 
@@ -81,6 +87,9 @@ export const koMessages: I18nMessages = {
   inspectorConnectionProperties: "연결 속성",
   connectionFrom: "시작",
   connectionTo: "끝",
+  connectionLabel: "레이블",
+  connectionLabelPosition: "레이블 위치",
+  connectionLabelEditor: "연결 레이블",
   inspectorPosition: "위치",
   inspectorSize: "크기",
   inspectorData: "데이터",
@@ -106,11 +115,42 @@ export const koMessages: I18nMessages = {
   inspectorTabProperties: "속성",
   inspectorTabHistory: "히스토리",
   inspectorTabSettings: "설정",
+  inspectorTabProblems: "문제",
+  inspectorProblemsErrors: "오류",
+  inspectorProblemsWarnings: "경고",
+  inspectorProblemsInfo: "정보",
+  inspectorProblemsEmpty: "문제가 없습니다",
+  inspectorProblemSourceNodeMissing: '소스 노드 "{{nodeId}}"을(를) 찾을 수 없습니다',
+  inspectorProblemTargetNodeMissing: '대상 노드 "{{nodeId}}"을(를) 찾을 수 없습니다',
+  inspectorProblemSourcePortMissing: '노드 "{{nodeType}}"에서 소스 포트 "{{portId}}"을(를) 찾을 수 없습니다',
+  inspectorProblemTargetPortMissing: '노드 "{{nodeType}}"에서 대상 포트 "{{portId}}"을(를) 찾을 수 없습니다',
+  inspectorProblemSamePortType: "같은 종류의 포트입니다 (둘 다 입력 또는 둘 다 출력)",
+  inspectorProblemSelfConnection: "자기 자신과 연결할 수 없습니다",
+  inspectorProblemTypeMismatch: "타입 불일치: {{from}} → {{to}}",
+  inspectorProblemRuleViolation: "연결 규칙 위반",
+  inspectorProblemRequiredPort: '필수 포트 "{{port}}"이(가) 연결되지 않았습니다',
+  inspectorProblemCycle: "순환: {{nodes}}",
+  inspectorProblemMaxPerFlow: "{{node}}은(는) 플로우당 {{max}}개로 제한됩니다 ({{count}}개 있음)",
   inspectorNodeLibrary: "Node Library",
   inspectorNodeLibrarySearchPlaceholder: "Search nodes…",
   inspectorNodeLibraryEmptyState: "No nodes match your search",
   inspectorNodeLibraryLimitReached: "Limit reached",
   inspectorActions: "동작",
+  inspectorDataAddItem: "항목 추가",
+  inspectorDataRemoveItem: "항목 삭제",
+  inspectorDataOn: "켜기",
+  inspectorDataOff: "끄기",
+  inspectorDataErrorRequired: "필수 입력 항목입니다",
+  inspectorDataErrorType: "잘못된 값입니다",
+  inspectorDataErrorMinLength: "{{min}}자 이상 입력하세요",
+  inspectorDataErrorMaxLength: "{{max}}자 이하로 입력하세요",
+  inspectorDataErrorPattern: "형식이 올바르지 않습니다",
+  inspectorDataErrorMin: "{{min}} 이상이어야 합니다",
+  inspectorDataErrorMax: "{{max}} 이하여야 합니다",
+  inspectorDataErrorInteger: "정수를 입력하세요",
+  inspectorDataErrorEnum: "사용 가능한 옵션 중에서 선택하세요",
+  inspectorDataErrorMinItems: "항목을 {{min}}개 이상 추가하세요",
+  inspectorDataErrorMaxItems: "항목은 최대 {{max}}개까지입니다",
   inspectorInteractionHelpTitle: "상호작용 가이드",
   inspectorInteractionHelpSectionClipboard: "클립보드 및 편집",
   inspectorInteractionHelpSectionSelection: "선택 및 레이아웃",
@@ -222,4 +262,44 @@ export const koMessages: I18nMessages = {
   nodeSearchCategoriesHeader: "카테고리",
   nodeSearchAllNodes: "모든 노드",
   nodeSearchEmptyCategory: "이 카테고리에 노드가 없습니다",
+
+  // Find in Graph
+  findInGraph: "그래프에서 찾기",
+  findBarAriaLabel: "그래프에서 찾기",
+  findBarPlaceholder: "노드 찾기…",
+  findBarReplacePlaceholder: "바꿀 내용…",
+  findBarResultCount: "{{total}}개 중 {{current}}",
+  findBarResultTotal: "결과 {{total}}개",
+  findBarNoResults: "결과 없음",
+  findBarPrevious: "이전 항목",
+  findBarNext: "다음 항목",
+  findBarMatchCase: "대/소문자 구분",
+  findBarWholeWord: "단어 단위로",
+  findBarToggleReplace: "바꾸기 전환",
+  findBarReplace: "바꾸기",
+  findBarReplaceAll: "모두 바꾸기",
+  findBarClose: "닫기",
+
+  // Keyboard Navigation
+  inspectorInteractionHelpSectionNavigation: "키보드 탐색",
+  keyboardFocusLeft: "왼쪽 노드로 포커스",
+  keyboardFocusRight: "오른쪽 노드로 포커스",
+  keyboardFocusUp: "위쪽 노드로 포커스",
+  keyboardFocusDown: "아래쪽 노드로 포커스",
+  keyboardNudgeLeft: "선택 항목을 왼쪽으로 이동",
+  keyboardNudgeRight: "선택 항목을 오른쪽으로 이동",
+  keyboardNudgeUp: "선택 항목을 위로 이동",
+  keyboardNudgeDown: "선택 항목을 아래로 이동",
+  keyboardConnectMode: "포커스된 포트에서 연결",
+  portAccessibleInput: "{{label}}, 입력 포트",
+  portAccessibleOutput: "{{label}}, 출력 포트",
+  connectMenuLabel: "{{port}} 연결 대상…",
+  connectMenuEmpty: "호환되는 포트가 없습니다",
+  announceNodeSelected: "{{name}} 선택됨",
+  announceNodesSelected: "노드 {{count}}개 선택됨",
+  announceSelectionCleared: "선택 해제됨",
+  announceNodeDeleted: "{{name}} 삭제됨",
+  announceNodesDeleted: "노드 {{count}}개 삭제됨",
+  announceConnected: "{{from}}을(를) {{to}}에 연결함",
+  announceDisconnected: "{{from}}과(와) {{to}}의 연결을 해제함",
 };
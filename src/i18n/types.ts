@@ -18,6 +18,12 @@ export type I18nMessages = {
   copy: string;
   cut?: string;
   paste: string;
+  pasteWithConnections?: string;
+  collapseToSubflow?: string;
+  expandSubflow?: string;
+  openSubflow?: string;
+  subflowRoot?: string;
+  subflowNodeCount?: string;
   addConnection?: string;
   // Generic labels
   untitled: string;
@@ -83,6 +89,9 @@ export type I18nMessages = {
   inspectorConnectionProperties: string;
   connectionFrom: string;
   connectionTo: string;
+  connectionLabel?: string;
+  connectionLabelPosition?: string;
+  connectionLabelEditor?: string;
   inspectorPosition: string;
   inspectorSize: string;
   inspectorData: string;
@@ -108,11 +117,42 @@ export type I18nMessages = {
   inspectorTabProperties?: string;
   inspectorTabHistory?: string;
   inspectorTabSettings?: string;
+  inspectorTabProblems?: string;
+  inspectorProblemsErrors?: string;
+  inspectorProblemsWarnings?: string;
+  inspectorProblemsInfo?: string;
+  inspectorProblemsEmpty?: string;
+  inspectorProblemSourceNodeMissing?: string;
+  inspectorProblemTargetNodeMissing?: string;
+  inspectorProblemSourcePortMissing?: string;
+  inspectorProblemTargetPortMissing?: string;
+  inspectorProblemSamePortType?: string;
+  inspectorProblemSelfConnection?: string;
+  inspectorProblemTypeMismatch?: string;
+  inspectorProblemRuleViolation?: string;
+  inspectorProblemRequiredPort?: string;
+  inspectorProblemCycle?: string;
+  inspectorProblemMaxPerFlow?: string;
   inspectorNodeLibrary?: string;
   inspectorNodeLibrarySearchPlaceholder?: string;
   inspectorNodeLibraryEmptyState?: string;
   inspectorNodeLibraryLimitReached?: string;
   inspectorActions?: string;
+  inspectorDataAddItem?: string;
+  inspectorDataRemoveItem?: string;
+  inspectorDataOn?: string;
+  inspectorDataOff?: string;
+  inspectorDataErrorRequired?: string;
+  inspectorDataErrorType?: string;
+  inspectorDataErrorMinLength?: string;
+  inspectorDataErrorMaxLength?: string;
+  inspectorDataErrorPattern?: string;
+  inspectorDataErrorMin?: string;
+  inspectorDataErrorMax?: string;
+  inspectorDataErrorInteger?: string;
+  inspectorDataErrorEnum?: string;
+  inspectorDataErrorMinItems?: string;
+  inspectorDataErrorMaxItems?: string;
   inspectorInteractionHelpTitle?: string;
   inspectorInteractionHelpSectionClipboard?: string;
   inspectorInteractionHelpSectionSelection?: string;
@@ -250,6 +290,46 @@ export type I18nMessages = {
   nodeSearchCategoriesHeader?: string;
   nodeSearchAllNodes?: string;
   nodeSearchEmptyCategory?: string;
+
+  // Find in Graph
+  findInGraph?: string;
+  findBarAriaLabel?: string;
+  findBarPlaceholder?: string;
+  findBarReplacePlaceholder?: string;
+  findBarResultCount?: string;
+  findBarResultTotal?: string;
+  findBarNoResults?: string;
+  findBarPrevious?: string;
+  findBarNext?: string;
+  findBarMatchCase?: string;
+  findBarWholeWord?: string;
+  findBarToggleReplace?: string;
+  findBarReplace?: string;
+  findBarReplaceAll?: string;
+  findBarClose?: string;
+
+  // Keyboard Navigation
+  inspectorInteractionHelpSectionNavigation?: string;
+  keyboardFocusLeft?: string;
+  keyboardFocusRight?: string;
+  keyboardFocusUp?: string;
+  keyboardFocusDown?: string;
+  keyboardNudgeLeft?: string;
+  keyboardNudgeRight?: string;
+  keyboardNudgeUp?: string;
+  keyboardNudgeDown?: string;
+  keyboardConnectMode?: string;
+  portAccessibleInput?: string;
+  portAccessibleOutput?: string;
+  connectMenuLabel?: string;
+  connectMenuEmpty?: string;
+  announceNodeSelected?: string;
+  announceNodesSelected?: string;
+  announceSelectionCleared?: string;
+  announceNodeDeleted?: string;
+  announceNodesDeleted?: string;
+  announceConnected?: string;
+  announceDisconnected?: string;
 };
 
 export type I18nKey = keyof I18nMessages;
@@ -17,6 +17,12 @@ export const zhCNMessages: I18nMessages = {
   copy: "复制",
   cut: "剪切",
   paste: "粘贴",
+  pasteWithConnections: "连同连接粘贴",
+  collapseToSubflow: "折叠为子流程",
+  expandSubflow: "展开子流程",
+  openSubflow: "打开子流程",
+  subflowRoot: "主流程",
+  subflowNodeCount: "包含 {{count}} 个节点",
   addConnection: "添加连接…",
   untitled: "无标题",
 
@@ -81,6 +87,9 @@ export const zhCNMessages: I18nMessages = {
   inspectorConnectionProperties: "连接属性",
   connectionFrom: "来源",
   connectionTo: "目标",
+  connectionLabel: "标签",
+  connectionLabelPosition: "标签位置",
+  connectionLabelEditor: "连接标签",
   inspectorPosition: "位置",
   inspectorSize: "尺寸",
   inspectorData: "数据",
@@ -106,11 +115,42 @@ export const zhCNMessages: I18nMessages = {
   inspectorTabProperties: "属性",
   inspectorTabHistory: "历史",
   inspectorTabSettings: "设置",
+  inspectorTabProblems: "问题",
+  inspectorProblemsErrors: "错误",
+  inspectorProblemsWarnings: "警告",
+  inspectorProblemsInfo: "信息",
+  inspectorProblemsEmpty: "未发现问题",
+  inspectorProblemSourceNodeMissing: '未找到源节点 "{{nodeId}}"',
+  inspectorProblemTargetNodeMissing: '未找到目标节点 "{{nodeId}}"',
+  inspectorProblemSourcePortMissing: '节点 "{{nodeType}}" 上未找到源端口 "{{portId}}"',
+  inspectorProblemTargetPortMissing: '节点 "{{nodeType}}" 上未找到目标端口 "{{portId}}"',
+  inspectorProblemSamePortType: "端口类型相同（均为输入或均为输出）",
+  inspectorProblemSelfConnection: "不允许连接到自身",
+  inspectorProblemTypeMismatch: "类型不匹配：{{from}} → {{to}}",
+  inspectorProblemRuleViolation: "违反连接规则",
+  inspectorProblemRequiredPort: '必需端口 "{{port}}" 未连接',
+  inspectorProblemCycle: "循环：{{nodes}}",
+  inspectorProblemMaxPerFlow: "{{node}} 每个流程最多 {{max}} 个（当前 {{count}} 个）",
   inspectorNodeLibrary: "Node Library",
   inspectorNodeLibrarySearchPlaceholder: "Search nodes…",
   inspectorNodeLibraryEmptyState: "No nodes match your search",
   inspectorNodeLibraryLimitReached: "Limit reached",
   inspectorActions: "操作",
+  inspectorDataAddItem: "添加项目",
+  inspectorDataRemoveItem: "删除项目",
+  inspectorDataOn: "开",
+  inspectorDataOff: "关",
+  inspectorDataErrorRequired: "此字段为必填项",
+  inspectorDataErrorType: "无效的值",
+  inspectorDataErrorMinLength: "至少需要 {{min}} 个字符",
+  inspectorDataErrorMaxLength: "最多 {{max}} 个字符",
+  inspectorDataErrorPattern: "格式无效",
+  inspectorDataErrorMin: "不能小于 {{min}}",
+  inspectorDataErrorMax: "不能大于 {{max}}",
+  inspectorDataErrorInteger: "必须是整数",
+  inspectorDataErrorEnum: "请从可用选项中选择",
+  inspectorDataErrorMinItems: "至少添加 {{min}} 个项目",
+  inspectorDataErrorMaxItems: "最多添加 {{max}} 个项目",
   inspectorInteractionHelpTitle: "交互指南",
   inspectorInteractionHelpSectionClipboard: "剪贴板与编辑",
   inspectorInteractionHelpSectionSelection: "选择与布局",
@@ -218,4 +258,44 @@ export const zhCNMessages: I18nMessages = {
   nodeSearchCategoriesHeader: "类别",
   nodeSearchAllNodes: "所有节点",
   nodeSearchEmptyCategory: "此类别中没有节点",
+
+  // Find in Graph
+  findInGraph: "在图中查找",
+  findBarAriaLabel: "在图中查找",
+  findBarPlaceholder: "查找节点…",
+  findBarReplacePlaceholder: "替换为…",
+  findBarResultCount: "第 {{current}} 项，共 {{total}} 项",
+  findBarResultTotal: "{{total}} 个结果",
+  findBarNoResults: "无结果",
+  findBarPrevious: "上一个匹配项",
+  findBarNext: "下一个匹配项",
+  findBarMatchCase: "区分大小写",
+  findBarWholeWord: "全字匹配",
+  findBarToggleReplace: "切换替换",
+  findBarReplace: "替换",
+  findBarReplaceAll: "全部替换",
+  findBarClose: "关闭",
+
+  // Keyboard Navigation
+  inspectorInteractionHelpSectionNavigation: "键盘导航",
+  keyboardFocusLeft: "聚焦左侧节点",
+  keyboardFocusRight: "聚焦右侧节点",
+  keyboardFocusUp: "聚焦上方节点",
+  keyboardFocusDown: "聚焦下方节点",
+  keyboardNudgeLeft: "将选择左移",
+  keyboardNudgeRight: "将选择右移",
+  keyboardNudgeUp: "将选择上移",
+  keyboardNudgeDown: "将选择下移",
+  keyboardConnectMode: "从聚焦的端口连接",
+  portAccessibleInput: "{{label}}，输入端口",
+  portAccessibleOutput: "{{label}}，输出端口",
+  connectMenuLabel: "将 {{port}} 连接到…",
+  connectMenuEmpty: "没有兼容的端口",
+  announceNodeSelected: "已选择 {{name}}",
+  announceNodesSelected: "已选择 {{count}} 个节点",
+  announceSelectionCleared: "已清除选择",
+  announceNodeDeleted: "已删除 {{name}}",
+  announceNodesDeleted: "已删除 {{count}} 个节点",
+  announceConnected: "已将 {{from}} 连接到 {{to}}",
+  announceDisconnected: "已断开 {{from}} 与 {{to}} 的连接",
 };
@@ -17,6 +17,12 @@ export const zhMessages: I18nMessages = {
   copy: "複製",
   cut: "剪下",
   paste: "貼上",
+  pasteWithConnections: "連同連線貼上",
+  collapseToSubflow: "摺疊為子流程",
+  expandSubflow: "展開子流程",
+  openSubflow: "開啟子流程",
+  subflowRoot: "主流程",
+  subflowNodeCount: "包含 {{count}} 個節點",
   addConnection: "新增連線…",
   untitled: "未命名",
 
@@ -81,6 +87,9 @@ export const zhMessages: I18nMessages = {
   inspectorConnectionProperties: "連線屬性",
   connectionFrom: "來源",
   connectionTo: "目標",
+  connectionLabel: "標籤",
+  connectionLabelPosition: "標籤位置",
+  connectionLabelEditor: "連接標籤",
   inspectorPosition: "位置",
   inspectorSize: "大小",
   inspectorData: "資料",
@@ -106,11 +115,42 @@ export const zhMessages: I18nMessages = {
   inspectorTabProperties: "屬性",
   inspectorTabHistory: "歷史",
   inspectorTabSettings: "設定",
+  inspectorTabProblems: "問題",
+  inspectorProblemsErrors: "錯誤",
+  inspectorProblemsWarnings: "警告",
+  inspectorProblemsInfo: "資訊",
+  inspectorProblemsEmpty: "未發現問題",
+  inspectorProblemSourceNodeMissing: '找不到來源節點 "{{nodeId}}"',
+  inspectorProblemTargetNodeMissing: '找不到目標節點 "{{nodeId}}"',
+  inspectorProblemSourcePortMissing: '節點 "{{nodeType}}" 上找不到來源連接埠 "{{portId}}"',
+  inspectorProblemTargetPortMissing: '節點 "{{nodeType}}" 上找不到目標連接埠 "{{portId}}"',
+  inspectorProblemSamePortType: "連接埠類型相同（皆為輸入或皆為輸出）",
+  inspectorProblemSelfConnection: "不允許連線到自身",
+  inspectorProblemTypeMismatch: "類型不符：{{from}} → {{to}}",
+  inspectorProblemRuleViolation: "違反連線規則",
+  inspectorProblemRequiredPort: '必要連接埠 "{{port}}" 未連線',
+  inspectorProblemCycle: "循環：{{nodes}}",
+  inspectorProblemMaxPerFlow: "{{node}} 每個流程最多 {{max}} 個（目前 {{count}} 個）",
   inspectorNodeLibrary: "Node Library",
   inspectorNodeLibrarySearchPlaceholder: "Search nodes…",
   inspectorNodeLibraryEmptyState: "No nodes match your search",
   inspectorNodeLibraryLimitReached: "Limit reached",
   inspectorActions: "操作",
+  inspectorDataAddItem: "新增項目",
+  inspectorDataRemoveItem: "移除項目",
+  inspectorDataOn: "開",
+  inspectorDataOff: "關",
+  inspectorDataErrorRequired: "此欄位為必填",
+  inspectorDataErrorType: "無效的值",
+  inspectorDataErrorMinLength: "至少需要 {{min}} 個字元",
+  inspectorDataErrorMaxLength: "最多 {{max}} 個字元",
+  inspectorDataErrorPattern: "格式無效",
+  inspectorDataErrorMin: "不能小於 {{min}}",
+  inspectorDataErrorMax: "不能大於 {{max}}",
+  inspectorDataErrorInteger: "必須是整數",
+  inspectorDataErrorEnum: "請從可用選項中選擇",
+  inspectorDataErrorMinItems: "至少新增 {{min}} 個項目",
+  inspectorDataErrorMaxItems: "最多新增 {{max}} 個項目",
   inspectorInteractionHelpTitle: "互動指南",
   inspectorInteractionHelpSectionClipboard: "剪貼簿與編輯",
   inspectorInteractionHelpSectionSelection: "選取與佈局",
@@ -218,4 +258,44 @@ export const zhMessages: I18nMessages = {
   nodeSearchCategoriesHeader: "類別",
   nodeSearchAllNodes: "所有節點",
   nodeSearchEmptyCategory: "此類別中沒有節點",
+
+  // Find in Graph
+  findInGraph: "在圖中尋找",
+  findBarAriaLabel: "在圖中尋找",
+  findBarPlaceholder: "尋找節點…",
+  findBarReplacePlaceholder: "取代為…",
+  findBarResultCount: "第 {{current}} 個，共 {{total}} 個",
+  findBarResultTotal: "{{total}} 個結果",
+  findBarNoResults: "沒有結果",
+  findBarPrevious: "上一個符合項目",
+  findBarNext: "下一個符合項目",
+  findBarMatchCase: "大小寫須相符",
+  findBarWholeWord: "全字拼寫須相符",
+  findBarToggleReplace: "切換取代",
+  findBarReplace: "取代",
+  findBarReplaceAll: "全部取代",
+  findBarClose: "關閉",
+
+  // Keyboard Navigation
+  inspectorInteractionHelpSectionNavigation: "鍵盤導覽",
+  keyboardFocusLeft: "聚焦左側節點",
+  keyboardFocusRight: "聚焦右側節點",
+  keyboardFocusUp: "聚焦上方節點",
+  keyboardFocusDown: "聚焦下方節點",
+  keyboardNudgeLeft: "將選取項目左移",
+  keyboardNudgeRight: "將選取項目右移",
+  keyboardNudgeUp: "將選取項目上移",
+  keyboardNudgeDown: "將選取項目下移",
+  keyboardConnectMode: "從聚焦的連接埠連線",
+  portAccessibleInput: "{{label}}，輸入連接埠",
+  portAccessibleOutput: "{{label}}，輸出連接埠",
+  connectMenuLabel: "將 {{port}} 連線到…",
+  connectMenuEmpty: "沒有相容的連接埠",
+  announceNodeSelected: "已選取 {{name}}",
+  announceNodesSelected: "已選取 {{count}} 個節點",
+  announceSelectionCleared: "已清除選取",
+  announceNodeDeleted: "已刪除 {{name}}",
+  announceNodesDeleted: "已刪除 {{count}} 個節點",
+  announceConnected: "已將 {{from}} 連線到 {{to}}",
+  announceDisconnected: "已中斷 {{from}} 與 {{to}} 的連線",
 };
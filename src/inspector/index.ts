@@ -9,6 +9,7 @@ export {
   InspectorLayersTab,
   InspectorHistoryTab,
   InspectorSettingsTab,
+  InspectorProblemsTab,
 } from "../components/inspector/InspectorPanel";
 export type {
   InspectorPanelProps,
@@ -23,6 +24,8 @@ export type { NodeInspectorProps } from "../components/inspector/panels/NodeInsp
 export { NodeBehaviorInspector } from "../components/inspector/panels/NodeBehaviorInspector";
 export { NodeActionsBehaviorInspector } from "../components/inspector/panels/NodeActionsBehaviorInspector";
 export { GroupBehaviorInspector } from "../components/inspector/panels/GroupBehaviorInspector";
+export { NodeDataSchemaInspector } from "../components/inspector/panels/NodeDataSchemaInspector";
+export type { NodeDataSchemaInspectorProps } from "../components/inspector/panels/NodeDataSchemaInspector";
 export { GeneralSettingsPanel } from "../components/inspector/panels/GeneralSettingsPanel";
 export { GridSettingsPanel } from "../components/inspector/panels/GridSettingsPanel";
 export { HistoryPanel } from "../components/inspector/panels/HistoryPanel";
@@ -30,6 +33,7 @@ export { InspectorPropertiesTab } from "../components/inspector/panels/Inspector
 export { InteractionHelpPanel } from "../components/inspector/panels/InteractionHelpPanel";
 export { NodePalettePanel } from "../components/inspector/panels/NodePalettePanel";
 export { NodeTreeListPanel } from "../components/inspector/panels/NodeTreeListPanel";
+export { ProblemsPanel } from "../components/inspector/panels/ProblemsPanel";
 
 // Inspector part components (form controls and UI elements)
 export { InspectorSection } from "../components/inspector/parts/InspectorSection";
@@ -5,11 +5,13 @@
 export { StandardNodeDefinition } from "./standard";
 export { GroupNodeDefinition } from "./group";
 export { LabelNodeDefinition } from "./label";
+export { SubflowNodeDefinition, isSubflowNodeData, type SubflowNodeData, type SubflowPortBinding } from "./subflow";
 
 // Export individual node renderers if needed
 export { StandardNodeRenderer } from "./standard/node";
 export { GroupNodeRenderer } from "./group/node";
 export { LabelNodeRenderer } from "./label/node";
+export { SubflowNodeRenderer } from "./subflow/node";
 
 // Export error node definition and utilities
 export {
@@ -32,7 +34,8 @@ import type { NodeDefinition } from "../types/NodeDefinition";
 
 /**
  * Array of all default node definitions
- * Use this when you need to register all built-in node types
+ * Use this when you need to register all built-in node types.
+ * `SubflowNodeDefinition` is opt-in: add it to `nodeDefinitions` to enable collapsing into subflows.
  */
 export const defaultNodeDefinitions: NodeDefinition[] = [
   GroupNodeDefinition as unknown as NodeDefinition,
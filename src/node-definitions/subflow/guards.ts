@@ -0,0 +1,32 @@
+/**
+ * @file Type guards for subflow node data validation
+ */
+import type { SubflowNodeData, SubflowPortBinding } from "./types";
+
+const isRecord = (value: unknown): value is Record<string, unknown> => value !== null && typeof value === "object";
+
+const isPortBinding = (value: unknown): value is SubflowPortBinding =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.label === "string" &&
+  typeof value.nodeId === "string" &&
+  typeof value.portId === "string";
+
+/**
+ * Type guard to check if data conforms to SubflowNodeData structure
+ * @param data - Unknown data to check
+ * @returns True if data is valid SubflowNodeData
+ */
+export function isSubflowNodeData(data: unknown): data is SubflowNodeData {
+  if (!isRecord(data) || !isRecord(data.graph)) {
+    return false;
+  }
+  return (
+    isRecord(data.graph.nodes) &&
+    isRecord(data.graph.connections) &&
+    Array.isArray(data.inputs) &&
+    data.inputs.every(isPortBinding) &&
+    Array.isArray(data.outputs) &&
+    data.outputs.every(isPortBinding)
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * @file Subflow node definition - a node that wraps a nested graph
+ */
+import type { NodeDefinition } from "../../types/NodeDefinition";
+import type { SubflowNodeData, SubflowPortBinding } from "./types";
+import { isSubflowNodeData } from "./guards";
+import { SubflowNodeRenderer } from "./node";
+
+export type { SubflowNodeData, SubflowPortBinding } from "./types";
+export { isSubflowNodeData } from "./guards";
+
+const getBindings = (data: unknown, direction: "inputs" | "outputs"): SubflowPortBinding[] =>
+  isSubflowNodeData(data) ? data[direction] : [];
+
+/**
+ * Subflow node definition
+ * Ports are generated from the boundary bindings stored in the node data,
+ * so each binding forwards to a port inside the nested graph.
+ */
+export const SubflowNodeDefinition: NodeDefinition<SubflowNodeData> = {
+  type: "subflow",
+  displayName: "Subflow",
+  description: "A reusable nested graph collapsed into a single node",
+  category: "Structure",
+  defaultData: {
+    title: "Subflow",
+    graph: { nodes: {}, connections: {} },
+    inputs: [],
+    outputs: [],
+  },
+  defaultSize: { width: 200, height: 100 },
+  ports: [
+    {
+      id: "input",
+      type: "input",
+      label: "Input",
+      position: "left",
+      maxConnections: "unlimited",
+      instances: ({ node }) => getBindings(node.data, "inputs").length,
+      createPortId: ({ node, index }) => getBindings(node.data, "inputs")[index].id,
+      createPortLabel: ({ node, index }) => getBindings(node.data, "inputs")[index].label,
+    },
+    {
+      id: "output",
+      type: "output",
+      label: "Output",
+      position: "right",
+      maxConnections: "unlimited",
+      instances: ({ node }) => getBindings(node.data, "outputs").length,
+      createPortId: ({ node, index }) => getBindings(node.data, "outputs")[index].id,
+      createPortLabel: ({ node, index }) => getBindings(node.data, "outputs")[index].label,
+    },
+  ],
+  behaviors: ["node", { type: "subflow" } as const],
+  renderNode: SubflowNodeRenderer,
+};
@@ -0,0 +1,30 @@
+/**
+ * @file Renderer component for subflow nodes
+ */
+import * as React from "react";
+import type { NodeRendererProps } from "../../types/NodeDefinition";
+import { useI18n } from "../../i18n/context";
+import { isSubflowNodeData } from "./guards";
+import styles from "./subflow.module.css";
+
+/**
+ * Subflow node renderer
+ * Shows the title and the size of the nested graph; double-clicking the node opens it.
+ */
+export function SubflowNodeRenderer({ node, isSelected, isDragging }: NodeRendererProps): React.ReactElement {
+  const { t } = useI18n();
+  const innerNodeCount = isSubflowNodeData(node.data) ? Object.keys(node.data.graph.nodes).length : 0;
+  return (
+    <div
+      className={styles.subflowNodeRenderer}
+      data-is-selected={isSelected}
+      data-is-dragging={isDragging}
+      title={t("openSubflow")}
+    >
+      <h3 className={styles.nodeTitle}>
+        {node.data.title && node.data.title.trim().length > 0 ? node.data.title : t("untitled")}
+      </h3>
+      <p className={styles.nodeMeta}>{t("subflowNodeCount", { count: innerNodeCount })}</p>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * @file Type definitions for subflow node data
+ */
+import type { NodeData, NodeEditorData, NodeId } from "../../types/core";
+
+/**
+ * A port of the subflow node and the inner port it forwards to.
+ */
+export type SubflowPortBinding = {
+  /** Port id on the subflow node */
+  id: string;
+  label: string;
+  /** Inner node owning the forwarded port */
+  nodeId: NodeId;
+  /** Forwarded port on the inner node */
+  portId: string;
+};
+
+export type SubflowNodeData = {
+  title: string;
+  /** Nested graph; node positions are relative to the subflow node */
+  graph: NodeEditorData;
+  inputs: SubflowPortBinding[];
+  outputs: SubflowPortBinding[];
+} & NodeData;
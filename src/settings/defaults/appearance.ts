@@ -117,6 +117,15 @@ export const appearanceSettings = [
     defaultValue: false,
     order: 9,
   },
+  {
+    key: "appearance.smartGuides",
+    label: "Smart Guides",
+    description: "Show alignment and spacing guides and snap to nearby nodes when moving",
+    category: "appearance",
+    type: "boolean",
+    defaultValue: true,
+    order: 10,
+  },
   {
     key: "appearance.showMinimap",
     label: "Show Minimap",
@@ -124,7 +133,7 @@ export const appearanceSettings = [
     category: "appearance",
     type: "boolean",
     defaultValue: true,
-    order: 10,
+    order: 11,
   },
   {
     key: "appearance.showStatusBar",
@@ -133,7 +142,7 @@ export const appearanceSettings = [
     category: "appearance",
     type: "boolean",
     defaultValue: true,
-    order: 11,
+    order: 12,
   },
   {
     key: "appearance.showToolbar",
@@ -142,7 +151,7 @@ export const appearanceSettings = [
     category: "appearance",
     type: "boolean",
     defaultValue: true,
-    order: 12,
+    order: 13,
   },
   {
     key: "appearance.canvasBackground",
@@ -151,7 +160,7 @@ export const appearanceSettings = [
     category: "appearance",
     type: "color",
     defaultValue: "#ffffff",
-    order: 13,
+    order: 14,
   },
   {
     key: "appearance.canvasSnapshotThreshold",
@@ -163,7 +172,7 @@ export const appearanceSettings = [
     min: 0.01,
     max: 1.0,
     step: 0.05,
-    order: 14,
+    order: 15,
   },
 ] as const satisfies readonly SettingDefinition[];
 
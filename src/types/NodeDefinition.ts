@@ -2,10 +2,12 @@
  * @file Core node definition types including render props, constraints, and external data handling
  */
 import React, { type ReactNode, type ReactElement } from "react";
-import type { Node, NodeId, Port, Connection, ConnectionId, NodeData, PortPlacement, AbsolutePortPlacement, Size, Position } from "./core";
+import type { Node, NodeId, Port, PortId, Connection, ConnectionId, NodeData, PortPlacement, AbsolutePortPlacement, Size, Position } from "./core";
 import type { CategoryInfo } from "../category/types";
 import type { NodeBehavior } from "./behaviors";
 import type { ConnectionPathCalculationContext, ConnectionPathModel } from "./connectionBehavior";
+import type { NodeDataSchema } from "./dataSchema";
+import type { ContextMenuEntry } from "./contextMenu";
 
 export type ConnectionPathCalculators = {
   /** Compute SVG path data string (`d`) for the given context */
@@ -128,7 +130,13 @@ export type PortRenderContext = {
     onPointerMove: (e: React.PointerEvent) => void;
     onPointerLeave: (e: React.PointerEvent) => void;
     onPointerCancel?: (e: React.PointerEvent) => void;
+    /** Starts keyboard connect mode on Enter / Space */
+    onKeyDown?: (e: React.KeyboardEvent) => void;
   };
+  /** Roving tab index: 0 while the owning node holds keyboard focus, otherwise -1 */
+  tabIndex?: 0 | -1;
+  /** Localized screen-reader label, e.g. "Value, output port" */
+  accessibleName?: string;
 };
 
 export type PortInstanceContext = {
@@ -345,6 +353,51 @@ export type NodeConstraint = {
   appliesTo?: ("create" | "update" | "delete" | "connect" | "disconnect" | "move")[];
 };
 
+/**
+ * Values produced by a node execution, keyed by output port id
+ */
+export type NodeExecutionOutputs = Record<string, unknown>;
+
+/**
+ * Context provided to a node's execute function
+ * @template TData - The node data type
+ */
+export type NodeExecutionContext<TData extends Record<string, unknown> = Record<string, unknown>> = {
+  /** The node being executed */
+  node: Node & { data: TData };
+  /**
+   * Values received on input ports, keyed by input port id.
+   * Ports accepting multiple connections receive an array in connection order.
+   * Unconnected ports are undefined.
+   */
+  inputs: Record<string, unknown>;
+  /** Abort signal for the current run (when provided by the caller) */
+  signal?: AbortSignal;
+};
+
+/**
+ * Context provided to a node's onPasteRemap function
+ * @template TData - The node data type
+ */
+export type NodePasteRemapContext<TData extends Record<string, unknown> = Record<string, unknown>> = {
+  /** Data of the pasted node (already copied; safe to return modified) */
+  data: TData;
+  /** The pasted node with its new id, position and remapped parent */
+  node: Node & { data: TData };
+  /** Maps each copied node id to the id of its pasted counterpart */
+  idMap: ReadonlyMap<NodeId, NodeId>;
+};
+
+/**
+ * Result of migrating a node's data to the current definition version
+ */
+export type NodeDataMigrationResult<TData extends Record<string, unknown> = Record<string, unknown>> = {
+  /** Data in the shape expected by the current definition version */
+  data: TData;
+  /** Port ids renamed since `fromVersion`, mapping old id to new id; connections are rewritten accordingly */
+  renamedPorts?: Record<PortId, PortId>;
+};
+
 /**
  * Position information for a single port
  */
@@ -438,6 +491,12 @@ export type NodeDefinition<TData extends Record<string, unknown> = Record<string
    * Otherwise, it will be called as a regular function for backwards compatibility.
    */
   renderInspector?: (props: InspectorRenderProps<TData>) => ReactElement;
+  /**
+   * Schema of the node's data. When set and `renderInspector` is not, the inspector
+   * renders and validates these fields automatically.
+   * Field lists are checked against `TData` but do not take part in inferring it.
+   */
+  dataSchema?: NodeDataSchema<NoInfer<TData>>;
   /** External data loader */
   loadExternalData?: (ref: ExternalDataReference) => unknown | Promise<unknown>;
   /** External data updater */
@@ -455,6 +514,32 @@ export type NodeDefinition<TData extends Record<string, unknown> = Record<string
   visualState?: "info" | "success" | "warning" | "error" | "disabled";
   /** Node constraints */
   constraints?: NodeConstraint[];
+  /**
+   * Computes output port values from input port values.
+   * Used by the graph execution engine (see `evaluateGraph`).
+   * Nodes without an execute function produce no outputs and are skipped.
+   */
+  execute?: (context: NodeExecutionContext<TData>) => NodeExecutionOutputs | Promise<NodeExecutionOutputs>;
+  /**
+   * Rewrites node ids embedded in `data` when the node is pasted.
+   * Called once per pasted node after all new ids are assigned.
+   */
+  onPasteRemap?: (context: NodePasteRemapContext<TData>) => TData;
+  /**
+   * Version of this definition's data and port layout, stored with saved documents.
+   * Bump it together with `migrate` when renaming ports or restructuring `data`. Defaults to 1.
+   */
+  version?: number;
+  /**
+   * Upgrades data saved by an older version of this definition.
+   * Called once per node with the version it was saved with (1 for documents without version information).
+   */
+  migrate?: (data: NodeData, fromVersion: number) => NodeDataMigrationResult<TData>;
+  /**
+   * Entries added to the context menu of nodes of this type, after the built-in node actions.
+   * Applications can replace an entry by contributing one with the same id.
+   */
+  contextMenuItems?: readonly ContextMenuEntry[];
   /**
    * Custom port position computation function.
    * When provided, this function is called to compute the positions of all ports
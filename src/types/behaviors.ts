@@ -16,9 +16,20 @@ export type AppearanceBehaviorOptions = {
 export type NodeBehaviorOptions = {
   type: "node";
 };
+/**
+ * Subflow behavior: the node wraps a nested graph stored in its data (see `SubflowNodeData`).
+ * Its ports mirror the connections that crossed the boundary when the subflow was created.
+ */
+export type SubflowBehaviorOptions = {
+  type: "subflow";
+};
 type KeyOf<T> = T extends { type: infer U } ? U : never;
 // Built-in node behaviors
-export type ObjectBehaviorOptions = GroupBehaviorOptions | AppearanceBehaviorOptions | NodeBehaviorOptions;
+export type ObjectBehaviorOptions =
+  | GroupBehaviorOptions
+  | AppearanceBehaviorOptions
+  | NodeBehaviorOptions
+  | SubflowBehaviorOptions;
 export type NodeBehaviorType = KeyOf<ObjectBehaviorOptions>;
 
 // Behavior can be either a simple string or an object with options
@@ -75,6 +86,13 @@ export function hasAppearanceBehavior(def?: NodeDefinition | null): boolean {
   return hasBehaviorType(getBehaviors(def), "appearance");
 }
 
+/**
+ * Check if a node definition has the "subflow" behavior
+ */
+export function hasSubflowBehavior(def?: NodeDefinition | null): boolean {
+  return hasBehaviorType(getBehaviors(def), "subflow");
+}
+
 function pickBehavior<T extends NodeBehaviorType>(
   behaviors: NodeBehavior[] | undefined,
   type: T,
@@ -99,6 +117,8 @@ function pickBehavior<T extends NodeBehaviorType>(
         return { type: "appearance" } as Extract<NodeBehavior, { type: T }>;
       case "node":
         return { type: "node" } as Extract<NodeBehavior, { type: T }>;
+      case "subflow":
+        return { type: "subflow" } as Extract<NodeBehavior, { type: T }>;
       default:
         return null;
     }
@@ -140,3 +160,11 @@ export function nodeHasGroupBehavior(node: Node, nodeDefinitions: NodeDefinition
   const def = nodeDefinitions.find((d) => d.type === node.type);
   return hasGroupBehavior(def);
 }
+
+/**
+ * Check if a node has subflow behavior based on its definition
+ */
+export function nodeHasSubflowBehavior(node: Node, nodeDefinitions: NodeDefinition[]): boolean {
+  const def = nodeDefinitions.find((d) => d.type === node.type);
+  return hasSubflowBehavior(def);
+}
@@ -57,6 +57,11 @@ export type ConnectionPathOptions = {
 export type ConnectionPathAlgorithm =
   | { type: "bezier" }
   | { type: "straight" }
+  /**
+   * Right-angle path with rounded corners that routes around node bounding boxes.
+   * `padding` is the clearance kept from nodes; `cornerRadius` rounds the bends.
+   */
+  | { type: "orthogonal"; padding?: number; cornerRadius?: number }
   | { type: "custom"; createPath: (ctx: ConnectionPathCalculationContext) => ConnectionPathModel };
 
 /**
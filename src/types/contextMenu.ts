@@ -0,0 +1,73 @@
+/**
+ * @file Types for context menu contributions
+ * Items that applications and node definitions add to the node, connection and canvas context menus.
+ */
+import type { ReactNode } from "react";
+import type { Connection, ConnectionId, Node, NodeEditorData, NodeId, Position } from "./core";
+import type { BoundActionCreators } from "../utils/typedActions";
+import type { nodeEditorActions } from "../contexts/composed/node-editor/actions";
+
+/** Element a context menu was opened on */
+export type ContextTarget = { type: "node"; id: string } | { type: "connection"; id: string } | { type: "canvas" };
+
+export type ContextTargetType = ContextTarget["type"];
+
+/**
+ * Everything a contributed item needs to decide whether it applies and to run its action.
+ */
+export type ContextMenuActionContext = {
+  target: ContextTarget;
+  /** Node the menu was opened on, for node targets */
+  node?: Node;
+  /** Connection the menu was opened on, for connection targets */
+  connection?: Connection;
+  /** Canvas position the menu was opened at */
+  canvasPosition?: Position;
+  selectedNodeIds: readonly NodeId[];
+  selectedConnectionIds: readonly ConnectionId[];
+  /** Node editor actions; dispatches made in `onSelect` are recorded in history like any other edit */
+  actions: BoundActionCreators<typeof nodeEditorActions>;
+  getState: () => NodeEditorData;
+};
+
+/**
+ * A clickable menu entry, or a submenu when `items` is given.
+ */
+export type ContextMenuItem = {
+  type?: "item";
+  /** Unique within the menu; later contributions with the same id replace earlier ones */
+  id: string;
+  label: string;
+  icon?: ReactNode;
+  /** Shortcut shown at the end of the row; display only */
+  shortcutHint?: string;
+  danger?: boolean;
+  /** Items are sorted by ascending order, then by registration order (default 0) */
+  order?: number;
+  /** Hide the item when this returns false */
+  isVisible?: (context: ContextMenuActionContext) => boolean;
+  /** Show the item greyed out and ignore clicks when this returns false */
+  isEnabled?: (context: ContextMenuActionContext) => boolean;
+  /** Runs when the item is clicked; the menu closes afterwards */
+  onSelect?: (context: ContextMenuActionContext) => void;
+  /** Entries of a submenu opened from this item */
+  items?: readonly ContextMenuEntry[];
+};
+
+export type ContextMenuSeparator = {
+  type: "separator";
+  id: string;
+  order?: number;
+};
+
+export type ContextMenuEntry = ContextMenuItem | ContextMenuSeparator;
+
+/**
+ * Entries added to the menus of one or more target types, optionally only for some node types.
+ */
+export type ContextMenuContribution = {
+  target: ContextTargetType | readonly ContextTargetType[];
+  /** Restrict node-target entries to these node types */
+  nodeTypes?: readonly string[];
+  items: readonly ContextMenuEntry[];
+};
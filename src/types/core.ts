@@ -133,6 +133,8 @@ export type Connection = {
   toNodeId: NodeId;
   toPortId: PortId;
   data?: Record<string, unknown>;
+  /** Canvas points the path is routed through, in order from the output port to the input port */
+  waypoints?: Position[];
 };
 
 // Editor data types
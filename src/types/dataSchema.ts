@@ -0,0 +1,167 @@
+/**
+ * @file Node data schema types
+ * Describes the shape of a node's `data` so the inspector can render and validate fields
+ * without a hand-written `renderInspector`. A schema is either a typed field descriptor list
+ * (checked against the definition's data type) or a JSON Schema object.
+ */
+import type { NodeData } from "./core";
+
+type FieldDescriptorBase<TValue> = {
+  /** Field label; defaults to the key */
+  label?: string;
+  /** Help text shown below the field */
+  description?: string;
+  /** Reject missing (and empty string) values */
+  required?: boolean;
+  /**
+   * Additional validation. Return a message to report a problem.
+   * Only called for present values that passed the built-in checks.
+   */
+  validate?(value: TValue, data: NodeData): string | undefined;
+};
+
+export type StringFieldDescriptor = FieldDescriptorBase<string> & {
+  type: "string";
+  /** Render a textarea instead of a single-line input */
+  multiline?: boolean;
+  placeholder?: string;
+  minLength?: number;
+  maxLength?: number;
+  /** Regular expression the value must match (unanchored, as in JSON Schema) */
+  pattern?: string;
+};
+
+export type NumberFieldDescriptor = FieldDescriptorBase<number> & {
+  type: "number";
+  min?: number;
+  max?: number;
+  /** Only allow whole numbers */
+  integer?: boolean;
+};
+
+export type BooleanFieldDescriptor = FieldDescriptorBase<boolean> & {
+  type: "boolean";
+};
+
+export type EnumFieldOption<TValue extends string | number = string | number> = {
+  value: TValue;
+  /** Option label; defaults to the value */
+  label?: string;
+};
+
+export type EnumFieldDescriptor<TValue extends string | number = string | number> = FieldDescriptorBase<TValue> & {
+  type: "enum";
+  options: readonly EnumFieldOption<TValue>[];
+  /** Render as a dropdown (default) or as a toggle group */
+  display?: "select" | "toggle";
+};
+
+export type ObjectFieldDescriptor<TValue extends Record<string, unknown> = Record<string, unknown>> =
+  FieldDescriptorBase<TValue> & {
+    type: "object";
+    fields: NodeDataFieldList<TValue>;
+  };
+
+export type ArrayFieldDescriptor<TItem = unknown> = FieldDescriptorBase<TItem[]> & {
+  type: "array";
+  /** Descriptor of each item */
+  items: NodeDataValueDescriptor<TItem>;
+  minItems?: number;
+  maxItems?: number;
+};
+
+/**
+ * Descriptor for a value of type `TValue`.
+ * Resolves to the descriptors that can edit that type; unknown types accept any descriptor.
+ */
+export type NodeDataValueDescriptor<TValue = unknown> = unknown extends TValue
+  ? AnyValueDescriptor
+  : [NonNullable<TValue>] extends [string]
+    ? StringFieldDescriptor | EnumFieldDescriptor<NonNullable<TValue>>
+    : [NonNullable<TValue>] extends [number]
+      ? NumberFieldDescriptor | EnumFieldDescriptor<NonNullable<TValue>>
+      : [NonNullable<TValue>] extends [boolean]
+        ? BooleanFieldDescriptor
+        : [NonNullable<TValue>] extends [readonly (infer TItem)[]]
+          ? ArrayFieldDescriptor<TItem>
+          : [NonNullable<TValue>] extends [Record<string, unknown>]
+            ? ObjectFieldDescriptor<NonNullable<TValue>>
+            : AnyValueDescriptor;
+
+type AnyValueDescriptor =
+  | StringFieldDescriptor
+  | NumberFieldDescriptor
+  | BooleanFieldDescriptor
+  | EnumFieldDescriptor
+  | ObjectFieldDescriptor
+  | ArrayFieldDescriptor;
+
+/**
+ * Descriptor of a single `data` property.
+ */
+export type NodeDataFieldDescriptor<TData extends Record<string, unknown> = Record<string, unknown>> = {
+  [TKey in keyof TData & string]: { key: TKey } & NodeDataValueDescriptor<TData[TKey]>;
+}[keyof TData & string];
+
+/**
+ * Ordered field descriptors of a data object.
+ */
+export type NodeDataFieldList<TData extends Record<string, unknown> = Record<string, unknown>> =
+  readonly NodeDataFieldDescriptor<TData>[];
+
+/**
+ * Subset of JSON Schema understood by the inspector.
+ */
+export type NodeDataJsonSchema = {
+  type?: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  title?: string;
+  description?: string;
+  enum?: readonly (string | number)[];
+  /** Object properties, rendered in declaration order */
+  properties?: Record<string, NodeDataJsonSchema>;
+  required?: readonly string[];
+  items?: NodeDataJsonSchema;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  /** "textarea" renders a multiline input */
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+};
+
+/**
+ * Schema of a node's data: a typed field list or a JSON Schema object.
+ */
+export type NodeDataSchema<TData extends Record<string, unknown> = Record<string, unknown>> =
+  | NodeDataFieldList<TData>
+  | NodeDataJsonSchema;
+
+export type NodeDataValidationCode =
+  | "required"
+  | "type"
+  | "minLength"
+  | "maxLength"
+  | "pattern"
+  | "min"
+  | "max"
+  | "integer"
+  | "enum"
+  | "minItems"
+  | "maxItems"
+  | "custom";
+
+/**
+ * A problem found while validating node data against its schema.
+ */
+export type NodeDataValidationIssue = {
+  /** Location of the value: property keys and array indices from the data root */
+  path: readonly (string | number)[];
+  code: NodeDataValidationCode;
+  /** Values for the message, e.g. `{ min: 3 }` */
+  params?: Record<string, string | number>;
+  /** Message returned by a custom `validate` function */
+  message?: string;
+};
@@ -192,7 +192,19 @@ export type NodeEditorShortcutAction =
   | "redo"
   | "copy"
   | "cut"
-  | "paste";
+  | "paste"
+  | "paste-with-connections"
+  | "collapse-to-subflow"
+  | "find"
+  | "focus-left"
+  | "focus-right"
+  | "focus-up"
+  | "focus-down"
+  | "nudge-left"
+  | "nudge-right"
+  | "nudge-up"
+  | "nudge-down"
+  | "connect-mode";
 
 /**
  * Pointer-based interaction actions that can be configured.
@@ -232,6 +244,10 @@ export type KeyboardShortcutBehavior = {
    * Action-specific overrides keyed by shortcut identifier.
    */
   actions: Partial<Record<NodeEditorShortcutAction, KeyboardShortcutActionBehavior>>;
+  /**
+   * Screen-reader announcements for selection, connection and deletion changes. Defaults to true.
+   */
+  announcements?: boolean;
 };
 
 /**
@@ -283,6 +299,7 @@ export type NodeEditorInteractionSettingsPatch = {
   keyboardShortcuts?: {
     enabled?: boolean;
     actions?: Partial<Record<NodeEditorShortcutAction, KeyboardShortcutActionBehavior>>;
+    announcements?: boolean;
   };
   pointerShortcuts?: {
     enabled?: boolean;
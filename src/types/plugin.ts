@@ -0,0 +1,62 @@
+/**
+ * @file Types for node editor plugins
+ * A plugin bundles optional features (node types, menu items, shortcuts, panels, settings and
+ * action middleware) that are added to the editor together.
+ */
+import type { NodeDefinition } from "./NodeDefinition";
+import type { ContextMenuContribution } from "./contextMenu";
+import type { LayerDefinition } from "./panels";
+import type { SettingDefinition } from "../settings/types";
+import type { SettingsManager } from "../settings/SettingsManager";
+import type { InspectorTabConfig } from "../components/inspector/parts/InspectorTabbedContainer";
+import type { KeyboardShortcut } from "../contexts/composed/keyboard-shortcut/context";
+import type { NodeEditorApiValue } from "../contexts/composed/node-editor/context";
+import type { NodeEditorActionMiddleware } from "../contexts/composed/node-editor/utils/actionMiddleware";
+
+/**
+ * What a plugin can reach once it is installed.
+ */
+export type NodeEditorPluginContext = {
+  api: NodeEditorApiValue;
+  /** The editor's settings manager, when one was given */
+  settingsManager?: SettingsManager;
+};
+
+export type NodeEditorPluginShortcut = {
+  shortcut: KeyboardShortcut;
+  /** Return false to let the browser handle the key as well */
+  handler: (event: KeyboardEvent, context: NodeEditorPluginContext) => void | boolean;
+};
+
+export type NodeEditorPlugin = {
+  /** Unique plugin id; a later plugin with an id already in use is skipped */
+  id: string;
+  name?: string;
+  version?: string;
+  /**
+   * Marks a plugin that did not pass the host's verification.
+   * Unsafe plugins are only loaded while the `plugins.allowUnsafe` setting is on.
+   */
+  unsafe?: boolean;
+  /** Estimated memory use in MB, counted against the `plugins.maxMemoryUsage` budget */
+  memoryUsage?: number;
+  /**
+   * Resolves to a newer build of the plugin, or null when it is up to date.
+   * Called once per plugin while the `plugins.autoUpdate` setting is on.
+   */
+  checkForUpdate?: () => Promise<NodeEditorPlugin | null>;
+  nodeDefinitions?: readonly NodeDefinition[];
+  contextMenuItems?: readonly ContextMenuContribution[];
+  /** Tabs appended to the default tabs of `InspectorPanel` */
+  inspectorTabs?: readonly InspectorTabConfig[];
+  keyboardShortcuts?: readonly NodeEditorPluginShortcut[];
+  /** Settings registered with the settings manager while the plugin is installed */
+  settings?: readonly SettingDefinition[];
+  /** Layers appended to the layers of `NodeEditor`'s grid layout */
+  gridLayers?: readonly LayerDefinition[];
+  actionMiddleware?: readonly NodeEditorActionMiddleware[];
+  /** Called after the editor mounted with the plugin, or after the plugin was added */
+  install?: (context: NodeEditorPluginContext) => void;
+  /** Called when the plugin is removed or the editor unmounts */
+  uninstall?: (context: NodeEditorPluginContext) => void;
+};
@@ -10,6 +10,12 @@ export type ClipboardNode = {
   position: Position;
   size?: Size;
   data?: NodeData;
+  parentId?: string;
+  children?: string[];
+  expanded?: boolean;
+  visible?: boolean;
+  locked?: boolean;
+  order?: number;
 };
 
 export type ClipboardConnection = {
@@ -17,11 +23,16 @@ export type ClipboardConnection = {
   fromPortId: string;
   toNodeId: string;
   toPortId: string;
+  data?: Record<string, unknown>;
+  waypoints?: Position[];
 };
 
 export type ClipboardData = {
   nodes: ClipboardNode[];
+  /** Connections between copied nodes */
   connections: ClipboardConnection[];
+  /** Connections with exactly one end on a copied node, restored by "paste with connections" */
+  externalConnections?: ClipboardConnection[];
 };
 
 let clipboard: ClipboardData | null = null;
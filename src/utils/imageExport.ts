@@ -0,0 +1,78 @@
+/**
+ * @file Browser helpers for image export
+ * Reads theme variables from the page, rasterizes SVG markup to PNG and triggers file downloads.
+ */
+
+/**
+ * Read the computed values of CSS custom properties as seen by `element`.
+ * Variables without a value are omitted.
+ */
+export const readThemeVariables = (element: Element, names: readonly string[]): Record<string, string> => {
+  const view = element.ownerDocument.defaultView;
+  if (!view) {
+    return {};
+  }
+  const style = view.getComputedStyle(element);
+  return Object.fromEntries(
+    names.map((name) => [name, style.getPropertyValue(name).trim()] as const).filter(([, value]) => value.length > 0),
+  );
+};
+
+export type RasterizeSvgOptions = {
+  /** Size of the SVG in CSS pixels */
+  width: number;
+  height: number;
+  /** Device pixels per CSS pixel in the output image. Default: 1 */
+  pixelRatio?: number;
+  /** Document used to create the image and canvas. Default: the global document */
+  document?: Document;
+};
+
+/**
+ * Rasterize SVG markup into a PNG blob using an offscreen canvas.
+ */
+export const rasterizeSvgToPng = (svg: string, options: RasterizeSvgOptions): Promise<Blob> => {
+  const doc = options.document ?? document;
+  const pixelRatio = options.pixelRatio ?? 1;
+
+  return new Promise((resolve, reject) => {
+    const image = new (doc.defaultView?.Image ?? Image)();
+    image.onload = () => {
+      const canvas = doc.createElement("canvas");
+      canvas.width = Math.ceil(options.width * pixelRatio);
+      canvas.height = Math.ceil(options.height * pixelRatio);
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas 2D context is not available"));
+        return;
+      }
+      context.scale(pixelRatio, pixelRatio);
+      context.drawImage(image, 0, 0, options.width, options.height);
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error("Failed to encode PNG"));
+        }
+      }, "image/png");
+    };
+    image.onerror = () => reject(new Error("Failed to load SVG for rasterization"));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+};
+
+/**
+ * Save a blob as a file through a temporary download link.
+ */
+export const downloadBlob = (blob: Blob, filename: string, doc: Document = document): void => {
+  const url = URL.createObjectURL(blob);
+  const link = doc.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.style.display = "none";
+  doc.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,87 @@
+/**
+ * @file Unit tests for the system clipboard transport
+ */
+import type { ClipboardData } from "./clipboard";
+import {
+  NODE_CLIPBOARD_FORMAT,
+  NODE_CLIPBOARD_VERSION,
+  parseClipboardPayload,
+  readSystemClipboard,
+  serializeClipboardPayload,
+  writeSystemClipboard,
+  type SystemClipboard,
+} from "./systemClipboard";
+
+const sampleData: ClipboardData = {
+  nodes: [
+    { id: "n1", type: "standard", position: { x: 10, y: 20 }, size: { width: 100, height: 50 }, data: { title: "A" } },
+    { id: "n2", type: "standard", position: { x: 200, y: 20 } },
+  ],
+  connections: [
+    { fromNodeId: "n1", fromPortId: "out", toNodeId: "n2", toPortId: "in", waypoints: [{ x: 150, y: 80 }] },
+  ],
+};
+
+const createMemoryTextClipboard = () => {
+  const store = { text: "" };
+  const clipboard: SystemClipboard = {
+    writeText: async (text) => {
+      store.text = text;
+    },
+    readText: async () => store.text,
+  };
+  return { store, clipboard };
+};
+
+describe("systemClipboard", () => {
+  describe("payload", () => {
+    it("round-trips clipboard data with format and version", () => {
+      const text = serializeClipboardPayload(sampleData);
+      const raw = JSON.parse(text);
+      expect(raw.format).toBe(NODE_CLIPBOARD_FORMAT);
+      expect(raw.version).toBe(NODE_CLIPBOARD_VERSION);
+      expect(parseClipboardPayload(text)).toEqual(sampleData);
+    });
+
+    it("rejects foreign text and newer versions", () => {
+      expect(parseClipboardPayload("hello")).toBeNull();
+      expect(parseClipboardPayload(JSON.stringify({ nodes: [], connections: [] }))).toBeNull();
+      expect(
+        parseClipboardPayload(
+          JSON.stringify({ format: NODE_CLIPBOARD_FORMAT, version: NODE_CLIPBOARD_VERSION + 1, nodes: [], connections: [] }),
+        ),
+      ).toBeNull();
+    });
+
+    it("rejects structurally invalid nodes", () => {
+      const text = JSON.stringify({
+        format: NODE_CLIPBOARD_FORMAT,
+        version: NODE_CLIPBOARD_VERSION,
+        nodes: [{ id: "n1", type: "standard", position: { x: "0", y: 0 } }],
+        connections: [],
+      });
+      expect(parseClipboardPayload(text)).toBeNull();
+    });
+  });
+
+  describe("read/write", () => {
+    it("writes the payload as text and reads it back", async () => {
+      const { store, clipboard } = createMemoryTextClipboard();
+
+      await expect(writeSystemClipboard(sampleData, clipboard)).resolves.toBe(true);
+      expect(parseClipboardPayload(store.text)).toEqual(sampleData);
+      await expect(readSystemClipboard(clipboard)).resolves.toEqual({ available: true, data: sampleData });
+    });
+
+    it("reports an unavailable clipboard when access is denied", async () => {
+      const clipboard: SystemClipboard = {
+        writeText: () => Promise.reject(new Error("denied")),
+        readText: () => Promise.reject(new Error("denied")),
+      };
+
+      await expect(writeSystemClipboard(sampleData, clipboard)).resolves.toBe(false);
+      await expect(readSystemClipboard(clipboard)).resolves.toEqual({ available: false });
+      await expect(readSystemClipboard(null)).resolves.toEqual({ available: false });
+    });
+  });
+});
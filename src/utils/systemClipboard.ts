@@ -0,0 +1,269 @@
+/**
+ * @file System clipboard transport for copy/paste across tabs and applications
+ * Serializes clipboard data into a versioned JSON payload and moves it through the async Clipboard API.
+ */
+import type { ClipboardConnection, ClipboardData, ClipboardNode } from "./clipboard";
+
+/** MIME type of the JSON payload written alongside the plain-text fallback */
+export const NODE_CLIPBOARD_MIME = "application/x-react-wireflow+json";
+/** Identifies payloads produced by this library */
+export const NODE_CLIPBOARD_FORMAT = "react-wireflow/nodes";
+/**
+ * Current payload version; payloads with a newer version are rejected.
+ * v2 adds group hierarchy fields, connection data, connection waypoints and external connections.
+ */
+export const NODE_CLIPBOARD_VERSION = 2;
+
+export type NodeClipboardPayload = ClipboardData & {
+  format: typeof NODE_CLIPBOARD_FORMAT;
+  version: number;
+};
+
+/**
+ * Subset of the browser `Clipboard` interface used by this module.
+ * `read`/`write` are optional so text-only clipboards (and test doubles) are supported.
+ */
+export type SystemClipboard = {
+  writeText: (text: string) => Promise<void>;
+  readText: () => Promise<string>;
+  write?: (items: ClipboardItem[]) => Promise<void>;
+  read?: () => Promise<ClipboardItem[]>;
+};
+
+export type SystemClipboardReadResult =
+  /** The system clipboard could not be accessed (missing API or permission denied) */
+  | { available: false }
+  /** The clipboard was read; `data` is null when it holds no node payload */
+  | { available: true; data: ClipboardData | null };
+
+// Browsers only allow custom MIME types on the async clipboard with the "web " prefix
+const WEB_CUSTOM_MIME = `web ${NODE_CLIPBOARD_MIME}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isPosition = (value: unknown): value is { x: number; y: number } =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const isPositionArray = (value: unknown): value is { x: number; y: number }[] =>
+  Array.isArray(value) && value.every(isPosition);
+
+const isSize = (value: unknown): value is { width: number; height: number } =>
+  isRecord(value) && isFiniteNumber(value.width) && isFiniteNumber(value.height);
+
+const isOptional = <T,>(value: unknown, guard: (candidate: unknown) => candidate is T): value is T | undefined =>
+  value === undefined || guard(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const parseNode = (value: unknown): ClipboardNode | null => {
+  if (!isRecord(value) || typeof value.id !== "string" || typeof value.type !== "string" || !isPosition(value.position)) {
+    return null;
+  }
+  if (
+    !isOptional(value.size, isSize) ||
+    !isOptional(value.data, isRecord) ||
+    !isOptional(value.parentId, isString) ||
+    !isOptional(value.children, isStringArray) ||
+    !isOptional(value.expanded, isBoolean) ||
+    !isOptional(value.visible, isBoolean) ||
+    !isOptional(value.locked, isBoolean) ||
+    !isOptional(value.order, isFiniteNumber)
+  ) {
+    return null;
+  }
+  const node: ClipboardNode = {
+    id: value.id,
+    type: value.type,
+    position: { x: value.position.x, y: value.position.y },
+    size: value.size,
+    data: value.data,
+  };
+  // Only copy optional fields that are present so v1 payloads parse to the same shape
+  (["parentId", "children", "expanded", "visible", "locked", "order"] as const).forEach((key) => {
+    if (value[key] !== undefined) {
+      Object.assign(node, { [key]: value[key] });
+    }
+  });
+  return node;
+};
+
+const parseConnection = (value: unknown): ClipboardConnection | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.fromNodeId !== "string" ||
+    typeof value.fromPortId !== "string" ||
+    typeof value.toNodeId !== "string" ||
+    typeof value.toPortId !== "string" ||
+    !isOptional(value.data, isRecord) ||
+    !isOptional(value.waypoints, isPositionArray)
+  ) {
+    return null;
+  }
+  const connection: ClipboardConnection = {
+    fromNodeId: value.fromNodeId,
+    fromPortId: value.fromPortId,
+    toNodeId: value.toNodeId,
+    toPortId: value.toPortId,
+  };
+  if (value.data !== undefined) {
+    connection.data = value.data;
+  }
+  if (value.waypoints !== undefined) {
+    connection.waypoints = value.waypoints.map((point) => ({ x: point.x, y: point.y }));
+  }
+  return connection;
+};
+
+const parseConnections = (value: unknown): ClipboardConnection[] | null => {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const connections = value.map(parseConnection);
+  return connections.some((connection) => connection === null) ? null : (connections as ClipboardConnection[]);
+};
+
+/**
+ * Serialize clipboard data into the versioned payload format
+ */
+export const serializeClipboardPayload = (data: ClipboardData): string => {
+  const payload: NodeClipboardPayload = {
+    format: NODE_CLIPBOARD_FORMAT,
+    version: NODE_CLIPBOARD_VERSION,
+    nodes: data.nodes,
+    connections: data.connections,
+    externalConnections: data.externalConnections ?? [],
+  };
+  return JSON.stringify(payload);
+};
+
+/**
+ * Parse a payload produced by `serializeClipboardPayload`.
+ * Returns null for foreign text, unsupported versions, or structurally invalid payloads.
+ */
+export const parseClipboardPayload = (text: string): ClipboardData | null => {
+  const parsed = (() => {
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return null;
+    }
+  })();
+  if (!isRecord(parsed) || parsed.format !== NODE_CLIPBOARD_FORMAT) {
+    return null;
+  }
+  if (!isFiniteNumber(parsed.version) || parsed.version > NODE_CLIPBOARD_VERSION) {
+    return null;
+  }
+  if (!Array.isArray(parsed.nodes)) {
+    return null;
+  }
+  const nodes = parsed.nodes.map(parseNode);
+  const connections = parseConnections(parsed.connections);
+  // v1 payloads have no external connections
+  const externalConnections = parsed.externalConnections === undefined ? [] : parseConnections(parsed.externalConnections);
+  if (nodes.some((node) => node === null) || !connections || !externalConnections) {
+    return null;
+  }
+  const data: ClipboardData = {
+    nodes: nodes as ClipboardNode[],
+    connections,
+  };
+  if (externalConnections.length > 0) {
+    data.externalConnections = externalConnections;
+  }
+  return data;
+};
+
+/**
+ * Resolve the browser clipboard, if the environment exposes one
+ */
+export const getSystemClipboard = (): SystemClipboard | null => {
+  if (typeof navigator === "undefined" || !navigator.clipboard) {
+    return null;
+  }
+  return navigator.clipboard;
+};
+
+const supportsCustomMime = (): boolean => {
+  if (typeof ClipboardItem === "undefined") {
+    return false;
+  }
+  const supports = (ClipboardItem as unknown as { supports?: (type: string) => boolean }).supports;
+  return typeof supports === "function" && supports.call(ClipboardItem, WEB_CUSTOM_MIME);
+};
+
+/**
+ * Write clipboard data to the system clipboard.
+ * Uses the custom MIME type where supported and always includes a plain-text copy of the payload.
+ * @returns true when the data reached the system clipboard
+ */
+export async function writeSystemClipboard(
+  data: ClipboardData,
+  clipboard: SystemClipboard | null = getSystemClipboard(),
+): Promise<boolean> {
+  if (!clipboard) {
+    return false;
+  }
+  const text = serializeClipboardPayload(data);
+  try {
+    if (clipboard.write && supportsCustomMime()) {
+      await clipboard.write([
+        new ClipboardItem({
+          [WEB_CUSTOM_MIME]: new Blob([text], { type: NODE_CLIPBOARD_MIME }),
+          "text/plain": new Blob([text], { type: "text/plain" }),
+        }),
+      ]);
+      return true;
+    }
+    await clipboard.writeText(text);
+    return true;
+  } catch {
+    // Permission denied or document not focused
+    return false;
+  }
+}
+
+const readItemText = async (item: ClipboardItem, type: string): Promise<string | null> => {
+  if (!item.types.includes(type)) {
+    return null;
+  }
+  const blob = await item.getType(type);
+  return blob.text();
+};
+
+/**
+ * Read node clipboard data from the system clipboard.
+ * Prefers the custom MIME type and falls back to parsing plain text.
+ */
+export async function readSystemClipboard(
+  clipboard: SystemClipboard | null = getSystemClipboard(),
+): Promise<SystemClipboardReadResult> {
+  if (!clipboard) {
+    return { available: false };
+  }
+  try {
+    if (clipboard.read) {
+      const items = await clipboard.read();
+      for (const item of items) {
+        const text = (await readItemText(item, WEB_CUSTOM_MIME)) ?? (await readItemText(item, "text/plain"));
+        const data = text !== null ? parseClipboardPayload(text) : null;
+        if (data) {
+          return { available: true, data };
+        }
+      }
+      return { available: true, data: null };
+    }
+    const text = await clipboard.readText();
+    return { available: true, data: parseClipboardPayload(text) };
+  } catch {
+    // Permission denied or document not focused
+    return { available: false };
+  }
+}